@@ -11,7 +11,7 @@ import { fileURLToPath } from 'node:url';
 import type { AppConfig } from './config.js';
 import { createDb } from './db.js';
 import { ensureDefaultBlocklists } from './blocklists/seedDefaults.js';
-import { refreshBlocklist } from './blocklists/refresh.js';
+import { startBlocklistRefreshWorker } from './blocklists/jobs.js';
 import { registerHealthRoutes } from './routes/health.js';
 import { registerAiRoutes } from './routes/ai.js';
 import { registerRulesRoutes } from './routes/rules.js';
@@ -25,14 +25,19 @@ import { registerQueryLogsRoutes } from './routes/queryLogs.js';
 import { registerPolicyRoutes } from './routes/policy.js';
 import { registerSecretsRoutes } from './routes/secrets.js';
 import { registerDnsRoutes } from './routes/dns.js';
+import { registerDohRoutes } from './routes/doh.js';
 import { registerAuthRoutes } from './routes/auth.js';
 import { registerBlocklistsRoutes } from './routes/blocklists.js';
 import { registerMetricsRoutes } from './routes/metrics.js';
 import { registerRewritesRoutes } from './routes/rewrites.js';
+import { registerConditionalForwardingRoutes } from './routes/conditionalForwarding.js';
+import { registerDnsCacheRoutes } from './routes/dnsCache.js';
+import { registerDnsBenchmarkRoutes } from './routes/dnsBenchmark.js';
 import { registerGeoRoutes } from './routes/geo.js';
 import { registerGeoIpRoutes } from './routes/geoip.js';
 import { registerProtectionRoutes } from './routes/protection.js';
 import { registerDiscoveryRoutes } from './routes/discovery.js';
+import { registerDhcpRoutes } from './routes/dhcp.js';
 import { registerOpenApiRoutes } from './routes/openapi.js';
 import { registerMaintenanceRoutes } from './routes/maintenance.js';
 import { registerSystemRoutes } from './routes/system.js';
@@ -42,6 +47,8 @@ import { startFollowerSyncLoop } from './cluster/sync.js';
 import { registerFollowerReadOnlyGuard } from './cluster/guard.js';
 import { startHaNotificationsLoop } from './cluster/haNotifications.js';
 import { startMaintenanceJobs } from './maintenance.js';
+import { startMdnsListener } from './discovery/mdns.js';
+import { startDhcpServer } from './dhcp/dhcpServer.js';
 
 export type BuildAppOptions = {
   enableStatic?: boolean;
@@ -88,6 +95,8 @@ export async function buildApp(config: AppConfig, options: BuildAppOptions = {})
   await db.init();
 
   const maintenance = startMaintenanceJobs(config, db);
+  const mdns = startMdnsListener(config, db);
+  const dhcp = startDhcpServer(config, db);
 
   // If clustering is enabled and this node is a follower, reject mutation requests.
   registerFollowerReadOnlyGuard(app, config, db);
@@ -98,35 +107,10 @@ export async function buildApp(config: AppConfig, options: BuildAppOptions = {})
 
   // Discovery helpers (observed clients + reverse DNS)
   await registerDiscoveryRoutes(app, config, db);
+  await registerDhcpRoutes(app, config, db);
 
-  let refreshTimeout: NodeJS.Timeout | undefined;
-  let refreshInterval: NodeJS.Timeout | undefined;
-
-  if (enableBlocklistRefreshJobs) {
-    // Keep blocklists fresh (includes category lists). Runs in the background.
-    const refreshEnabledBlocklists = async () => {
-      try {
-        const res = await db.pool.query('SELECT id, name, url FROM blocklists WHERE enabled = true ORDER BY id ASC');
-        for (const row of res.rows) {
-          const id = Number(row?.id);
-          const name = String(row?.name ?? '');
-          const url = String(row?.url ?? '');
-          if (!Number.isFinite(id) || !name || !url) continue;
-          try {
-            await refreshBlocklist(db, { id, name, url });
-          } catch {
-            // Per-list errors are recorded by the refresh route; here we just keep going.
-          }
-        }
-      } catch {
-        // ignore
-      }
-    };
-
-    // Refresh shortly after startup, then daily.
-    refreshTimeout = setTimeout(() => void refreshEnabledBlocklists(), 60_000);
-    refreshInterval = setInterval(() => void refreshEnabledBlocklists(), 24 * 60 * 60 * 1000);
-  }
+  // Blocklist refresh queue: manual refreshes always run; scheduled ones only with refresh jobs enabled.
+  const blocklistRefreshWorker = startBlocklistRefreshWorker(config, db, { schedule: enableBlocklistRefreshJobs });
 
   // Serve built frontend (single-port mode) if `dist/` exists.
   const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -211,7 +195,11 @@ export async function buildApp(config: AppConfig, options: BuildAppOptions = {})
   await registerPolicyRoutes(app, config, db);
   await registerSecretsRoutes(app, config, db);
   await registerDnsRoutes(app, config, db);
+  await registerDohRoutes(app, config, db);
   await registerRewritesRoutes(app, config, db);
+  await registerConditionalForwardingRoutes(app, config, db);
+  await registerDnsCacheRoutes(app, config, db);
+  await registerDnsBenchmarkRoutes(app, config, db);
   await registerBlocklistsRoutes(app, config, db);
   await registerMetricsRoutes(app, config, db);
   await registerGeoRoutes(app, config, db);
@@ -232,8 +220,6 @@ export async function buildApp(config: AppConfig, options: BuildAppOptions = {})
   const haNotifications = startHaNotificationsLoop(config, db);
 
   async function close(): Promise<void> {
-    if (refreshTimeout) clearTimeout(refreshTimeout);
-    if (refreshInterval) clearInterval(refreshInterval);
     try {
       clusterLoop.stop();
     } catch {
@@ -249,6 +235,21 @@ export async function buildApp(config: AppConfig, options: BuildAppOptions = {})
     } catch {
       // ignore
     }
+    try {
+      await blocklistRefreshWorker.close();
+    } catch {
+      // ignore
+    }
+    try {
+      await mdns.close();
+    } catch {
+      // ignore
+    }
+    try {
+      await dhcp.close();
+    } catch {
+      // ignore
+    }
     try {
       await dns?.close();
     } catch {
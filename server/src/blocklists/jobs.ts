@@ -0,0 +1,296 @@
+import type { AppConfig } from '../config.js';
+import type { Db } from '../db.js';
+import { notifyEvent } from '../notifications/notify.js';
+import { refreshBlocklist, type BlocklistRefreshProgress } from './refresh.js';
+
+// Persistent refresh queue: every download goes through `blocklist_refresh_jobs`, whether it was
+// scheduled, requested from the UI or triggered by first-run seeding / app list warmup. A worker
+// per process claims due jobs (FOR UPDATE SKIP LOCKED), runs up to BLOCKLIST_REFRESH_CONCURRENCY
+// at a time and retries failures with backoff before giving up and notifying.
+
+export type BlocklistRefreshTrigger = 'SCHEDULED' | 'MANUAL' | 'STARTUP' | 'WARMUP';
+export type BlocklistRefreshJobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+export type BlocklistRefreshJob = {
+  id: string;
+  blocklist_id: string;
+  blocklist_name: string | null;
+  trigger: BlocklistRefreshTrigger;
+  force: boolean;
+  status: BlocklistRefreshJobStatus;
+  attempts: number;
+  run_after: string;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  progress: BlocklistRefreshProgress | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+};
+
+export const DEFAULT_REFRESH_INTERVAL_MINUTES = 24 * 60;
+export const MIN_REFRESH_INTERVAL_MINUTES = 15;
+export const MAX_REFRESH_INTERVAL_MINUTES = 30 * 24 * 60;
+
+export const MAX_REFRESH_ATTEMPTS = 3;
+// Finished jobs kept per list for the jobs panel.
+const FINISHED_JOBS_PER_LIST = 20;
+
+const CLAIM_POLL_MS = 2_000;
+const SCHEDULE_POLL_MS = 60_000;
+// Match the old startup refresh: let the server settle before downloading lists.
+const SCHEDULE_INITIAL_DELAY_MS = 60_000;
+const PROGRESS_WRITE_INTERVAL_MS = 2_000;
+
+const JOB_COLUMNS = `j.id, j.blocklist_id, b.name AS blocklist_name, j.trigger, j.force, j.status, j.attempts, j.run_after,
+  j.created_at, j.started_at, j.finished_at, j.progress, j.result, j.error`;
+
+function toJob(row: any): BlocklistRefreshJob {
+  return { ...row, id: String(row.id), blocklist_id: String(row.blocklist_id), blocklist_name: row.blocklist_name ?? null };
+}
+
+/** Delay before retry number `attempt` (1-based): 1, 4, 16 minutes, capped at an hour. */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(60 * 60_000, 60_000 * 4 ** Math.max(0, attempt - 1));
+}
+
+/**
+ * Queues a refresh for a list. A list has at most one queued or running job; asking again returns
+ * that job, brings a retry that is waiting for its backoff forward and upgrades it to `force`.
+ */
+export async function enqueueBlocklistRefresh(
+  db: Db,
+  blocklistId: number,
+  opts: { trigger: BlocklistRefreshTrigger; force?: boolean }
+): Promise<BlocklistRefreshJob> {
+  const res = await db.pool.query(
+    `WITH j AS (
+       INSERT INTO blocklist_refresh_jobs(blocklist_id, trigger, force)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (blocklist_id) WHERE status IN ('QUEUED', 'RUNNING')
+       DO UPDATE SET force = blocklist_refresh_jobs.force OR EXCLUDED.force, run_after = LEAST(blocklist_refresh_jobs.run_after, NOW())
+       RETURNING *
+     )
+     SELECT ${JOB_COLUMNS} FROM j LEFT JOIN blocklists b ON b.id = j.blocklist_id`,
+    [blocklistId, opts.trigger, !!opts.force]
+  );
+  return toJob(res.rows[0]);
+}
+
+export async function listBlocklistRefreshJobs(db: Db, opts: { blocklistId?: number; limit?: number } = {}): Promise<BlocklistRefreshJob[]> {
+  const limit = Math.max(1, Math.min(500, Math.floor(opts.limit ?? 100)));
+  const res = await db.pool.query(
+    `SELECT ${JOB_COLUMNS}
+     FROM blocklist_refresh_jobs j LEFT JOIN blocklists b ON b.id = j.blocklist_id
+     WHERE $1::bigint IS NULL OR j.blocklist_id = $1
+     ORDER BY (j.status IN ('QUEUED', 'RUNNING')) DESC, j.id DESC
+     LIMIT $2`,
+    [opts.blocklistId ?? null, limit]
+  );
+  return res.rows.map(toJob);
+}
+
+export async function getBlocklistRefreshJob(db: Db, jobId: number): Promise<BlocklistRefreshJob | null> {
+  const res = await db.pool.query(
+    `SELECT ${JOB_COLUMNS} FROM blocklist_refresh_jobs j LEFT JOIN blocklists b ON b.id = j.blocklist_id WHERE j.id = $1`,
+    [jobId]
+  );
+  return res.rowCount ? toJob(res.rows[0]) : null;
+}
+
+/** Queues scheduled refreshes for enabled lists whose interval has passed. Returns how many were queued. */
+export async function enqueueDueBlocklistRefreshes(db: Db): Promise<number> {
+  // A list is due when its last successful refresh is older than its interval and no job was
+  // created within the interval either, so a failing list is retried once per interval, not per poll.
+  const res = await db.pool.query(
+    `INSERT INTO blocklist_refresh_jobs(blocklist_id, trigger)
+     SELECT b.id, 'SCHEDULED'
+     FROM blocklists b
+     CROSS JOIN LATERAL (SELECT make_interval(mins => COALESCE(b.refresh_interval_minutes, $1)) AS every) i
+     WHERE b.enabled = true
+       AND COALESCE(b.refresh_interval_minutes, $1) > 0
+       AND (b.last_updated_at IS NULL OR b.last_updated_at < NOW() - i.every)
+       AND NOT EXISTS (
+         SELECT 1 FROM blocklist_refresh_jobs j
+         WHERE j.blocklist_id = b.id AND (j.status IN ('QUEUED', 'RUNNING') OR j.created_at > NOW() - i.every)
+       )
+     ON CONFLICT DO NOTHING`,
+    [DEFAULT_REFRESH_INTERVAL_MINUTES]
+  );
+  return Number(res.rowCount ?? 0);
+}
+
+async function claimBlocklistRefreshJobs(db: Db, limit: number): Promise<BlocklistRefreshJob[]> {
+  const res = await db.pool.query(
+    `WITH j AS (
+       UPDATE blocklist_refresh_jobs
+       SET status = 'RUNNING', started_at = NOW(), attempts = attempts + 1, progress = NULL
+       WHERE id IN (
+         SELECT id FROM blocklist_refresh_jobs
+         WHERE status = 'QUEUED' AND run_after <= NOW()
+         ORDER BY run_after ASC, id ASC
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *
+     )
+     SELECT ${JOB_COLUMNS} FROM j LEFT JOIN blocklists b ON b.id = j.blocklist_id`,
+    [limit]
+  );
+  return res.rows.map(toJob);
+}
+
+/**
+ * Runs one claimed job to completion: success, a re-queued retry, or a final failure that is
+ * recorded on the list (`last_error`) and sent as a `blocklistRefreshFailed` notification.
+ */
+export async function runBlocklistRefreshJob(config: AppConfig, db: Db, job: BlocklistRefreshJob): Promise<void> {
+  const id = Number(job.blocklist_id);
+  const row = await db.pool.query('SELECT id, name, url FROM blocklists WHERE id = $1', [id]);
+  if (row.rowCount === 0) {
+    await db.pool.query(
+      "UPDATE blocklist_refresh_jobs SET status = 'FAILED', finished_at = NOW(), error = 'NOT_FOUND' WHERE id = $1",
+      [job.id]
+    );
+    return;
+  }
+
+  const name = String(row.rows[0].name ?? '');
+  const url = String(row.rows[0].url ?? '');
+
+  let lastProgressWrite = 0;
+  const onProgress = (progress: BlocklistRefreshProgress) => {
+    const now = Date.now();
+    if (now - lastProgressWrite < PROGRESS_WRITE_INTERVAL_MS) return;
+    lastProgressWrite = now;
+    void db.pool
+      .query("UPDATE blocklist_refresh_jobs SET progress = $2::jsonb WHERE id = $1 AND status = 'RUNNING'", [
+        job.id,
+        JSON.stringify(progress)
+      ])
+      .catch(() => undefined);
+  };
+
+  try {
+    const result = await refreshBlocklist(db, { id, name, url }, { force: job.force, dataDir: config.DATA_DIR, onProgress });
+    await db.pool.query(
+      "UPDATE blocklist_refresh_jobs SET status = 'SUCCEEDED', finished_at = NOW(), result = $2::jsonb, error = NULL WHERE id = $1",
+      [job.id, JSON.stringify(result)]
+    );
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    await db.pool.query('UPDATE blocklists SET last_error = $2, updated_at = NOW() WHERE id = $1', [id, msg]);
+
+    if (job.attempts < MAX_REFRESH_ATTEMPTS) {
+      await db.pool.query(
+        "UPDATE blocklist_refresh_jobs SET status = 'QUEUED', run_after = NOW() + ($2::text || ' milliseconds')::interval, error = $3 WHERE id = $1",
+        [job.id, String(retryDelayMs(job.attempts)), msg]
+      );
+    } else {
+      await db.pool.query(
+        "UPDATE blocklist_refresh_jobs SET status = 'FAILED', finished_at = NOW(), error = $2 WHERE id = $1",
+        [job.id, msg]
+      );
+      try {
+        await notifyEvent(db, config, 'blocklistRefreshFailed', {
+          title: 'Blocklist refresh failed',
+          message: `${name}: ${msg}`.slice(0, 2000),
+          severity: 'error',
+          meta: { id, name, url, jobId: job.id, trigger: job.trigger, attempts: job.attempts }
+        });
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  await db.pool.query(
+    `DELETE FROM blocklist_refresh_jobs
+     WHERE blocklist_id = $1 AND status IN ('SUCCEEDED', 'FAILED')
+       AND id NOT IN (
+         SELECT id FROM blocklist_refresh_jobs
+         WHERE blocklist_id = $1 AND status IN ('SUCCEEDED', 'FAILED')
+         ORDER BY id DESC LIMIT $2
+       )`,
+    [id, FINISHED_JOBS_PER_LIST]
+  );
+}
+
+export type BlocklistRefreshWorkerHandle = {
+  close: () => Promise<void>;
+};
+
+/**
+ * Starts the queue worker. Queued jobs are always processed; `schedule` additionally queues
+ * refreshes for lists whose interval has passed (disabled in tests).
+ */
+export function startBlocklistRefreshWorker(
+  config: AppConfig,
+  db: Db,
+  opts: { schedule: boolean }
+): BlocklistRefreshWorkerHandle {
+  const concurrency = Math.max(1, Math.floor(Number(config.BLOCKLIST_REFRESH_CONCURRENCY ?? 2)));
+  const running = new Set<Promise<void>>();
+  let closed = false;
+  let claiming = false;
+
+  const claim = async () => {
+    if (closed || claiming) return;
+    claiming = true;
+    try {
+      const free = concurrency - running.size;
+      if (free <= 0) return;
+      const jobs = await claimBlocklistRefreshJobs(db, free);
+      for (const job of jobs) {
+        const p = runBlocklistRefreshJob(config, db, job)
+          .catch(() => undefined)
+          .finally(() => {
+            running.delete(p);
+            // A slot is free; pick up the next job without waiting for the poll.
+            void claim();
+          });
+        running.add(p);
+      }
+    } catch {
+      // Database unavailable; the next poll retries.
+    } finally {
+      claiming = false;
+    }
+  };
+
+  const schedule = async () => {
+    if (closed) return;
+    try {
+      if ((await enqueueDueBlocklistRefreshes(db)) > 0) await claim();
+    } catch {
+      // ignore
+    }
+  };
+
+  // Jobs that were running when the process stopped are picked up again.
+  const recovered = db.pool
+    .query("UPDATE blocklist_refresh_jobs SET status = 'QUEUED', run_after = NOW() WHERE status = 'RUNNING'")
+    .catch(() => undefined)
+    .then(() => claim());
+
+  const claimTimer = setInterval(() => void claim(), CLAIM_POLL_MS);
+  const scheduleInitial = opts.schedule ? setTimeout(() => void schedule(), SCHEDULE_INITIAL_DELAY_MS) : undefined;
+  const scheduleTimer = opts.schedule ? setInterval(() => void schedule(), SCHEDULE_POLL_MS) : undefined;
+
+  // Don't keep the process alive solely due to refresh timers.
+  claimTimer.unref?.();
+  scheduleInitial?.unref?.();
+  scheduleTimer?.unref?.();
+
+  return {
+    close: async () => {
+      closed = true;
+      clearInterval(claimTimer);
+      if (scheduleInitial) clearTimeout(scheduleInitial);
+      if (scheduleTimer) clearInterval(scheduleTimer);
+      // In-flight refreshes are not awaited: their transaction rolls back when the pool closes and
+      // the job is re-queued on the next start.
+      await recovered;
+    }
+  };
+}
@@ -1,5 +1,9 @@
 import type { Db } from '../db.js';
+import fs from 'node:fs';
+import net from 'node:net';
 import { Readable } from 'node:stream';
+import { parseListRuleModifiers, type ListRuleOptions } from './ruleOptions.js';
+import { blocklistSourceType, realBlocklistFilePath } from './sources.js';
 
 function normalizeDomain(input: string): string | null {
   const d = input.trim().toLowerCase();
@@ -14,24 +18,41 @@ function normalizeDomain(input: string): string | null {
 }
 
 function isLocalhostDomain(domain: string): boolean {
-  return domain === 'localhost' || domain.endsWith('.localhost');
+  return domain === 'localhost' || domain.endsWith('.localhost') || domain === 'localhost.localdomain';
 }
 
-function tryExtractDomainFromAdblock(line: string): string | null {
-  // Ignore exception rules
-  if (line.startsWith('@@')) return null;
-
-  // Ignore cosmetic filters (not network blocking)
-  if (line.includes('##') || line.includes('#@#') || line.includes('#?#')) return null;
-
-  // Remove options (everything after $)
-  const withoutOptions = (() => {
-    const idx = line.indexOf('$');
-    return idx >= 0 ? line.slice(0, idx) : line;
-  })().trim();
-
-  if (withoutOptions.startsWith('||')) {
-    let rest = withoutOptions.slice(2);
+export type BlocklistParseStats = {
+  // Block rules, including ones with modifiers.
+  accepted: number;
+  // `@@` exception rules.
+  exceptions: number;
+  // Valid adblock syntax DNS filtering cannot use: cosmetic filters, regexes, other modifiers.
+  unsupported: number;
+  invalid: number;
+};
+
+export type ParsedBlocklistLine =
+  | {
+      kind: 'rule';
+      type: 'BLOCKED' | 'ALLOWED';
+      domain: string;
+      options: ListRuleOptions | null;
+      // `$badfilter`: removes the same rule (without this modifier) from the list.
+      badfilter: boolean;
+    }
+  // Blank lines, comments, list headers and localhost entries.
+  | { kind: 'skip' }
+  | { kind: 'unsupported' }
+  | { kind: 'invalid' };
+
+const SKIP: ParsedBlocklistLine = { kind: 'skip' };
+const UNSUPPORTED: ParsedBlocklistLine = { kind: 'unsupported' };
+const INVALID: ParsedBlocklistLine = { kind: 'invalid' };
+
+/** Host part of an adblock pattern, not yet validated. */
+function hostFromAdblockPattern(pattern: string): string | null {
+  if (pattern.startsWith('||')) {
+    let rest = pattern.slice(2);
     rest = rest.replace(/^\*\.?/, '');
 
     const stopIdx = (() => {
@@ -40,126 +61,260 @@ function tryExtractDomainFromAdblock(line: string): string | null {
     })();
 
     const host = (stopIdx >= 0 ? rest.slice(0, stopIdx) : rest).trim();
-    if (!host) return null;
-    return normalizeDomain(host);
+    return host || null;
   }
 
-  if (withoutOptions.startsWith('|http://') || withoutOptions.startsWith('|https://')) {
-    const urlStr = withoutOptions.slice(1);
+  if (pattern.startsWith('|http://') || pattern.startsWith('|https://')) {
     try {
-      const u = new URL(urlStr);
-      return normalizeDomain(u.hostname);
+      return new URL(pattern.slice(1)).hostname;
     } catch {
       return null;
     }
   }
 
-  if (withoutOptions.startsWith('http://') || withoutOptions.startsWith('https://')) {
+  if (pattern.startsWith('http://') || pattern.startsWith('https://')) {
     try {
-      const u = new URL(withoutOptions);
-      return normalizeDomain(u.hostname);
+      return new URL(pattern).hostname;
     } catch {
       return null;
     }
   }
 
-  return null;
+  // "example.com^" / "@@example.com"
+  return pattern.replace(/[|^]+$/, '') || null;
 }
 
-function extractDomainFromLine(raw: string): string | null {
+/** Parses an adblock-syntax rule, or returns null when the line is hosts-style / a plain domain. */
+function parseAdblockRule(line: string): ParsedBlocklistLine | null {
+  const exception = line.startsWith('@@');
+  const body = exception ? line.slice(2) : line;
+  const isAdblock =
+    exception ||
+    body.startsWith('|') ||
+    body.startsWith('/') ||
+    /^https?:\/\//.test(body) ||
+    body.includes('^') ||
+    body.includes('$');
+  if (!isAdblock) return null;
+
+  // Regex rules.
+  if (body.startsWith('/')) return UNSUPPORTED;
+
+  const dollar = body.indexOf('$');
+  const pattern = (dollar >= 0 ? body.slice(0, dollar) : body).trim();
+  const modifiers = dollar >= 0 ? parseListRuleModifiers(body.slice(dollar + 1)) : { options: null, badfilter: false };
+  if (!modifiers) return UNSUPPORTED;
+  if (pattern.replace(/^\|\|\*\.?/, '').includes('*')) return UNSUPPORTED;
+
+  const host = hostFromAdblockPattern(pattern);
+  if (host && isLocalhostDomain(host.toLowerCase().replace(/\.$/, ''))) return SKIP;
+  const domain = host ? normalizeDomain(host) : null;
+  if (!domain) return INVALID;
+  return { kind: 'rule', type: exception ? 'ALLOWED' : 'BLOCKED', domain, ...modifiers };
+}
+
+export function parseBlocklistLine(raw: string): ParsedBlocklistLine {
   const line = raw.trim();
-  if (!line) return null;
-  if (line.startsWith('#') || line.startsWith('!') || line.startsWith('//')) return null;
+  if (!line) return SKIP;
+  if (line.startsWith('#') || line.startsWith('!') || line.startsWith('//') || line.startsWith('[')) return SKIP;
+
+  // Cosmetic filters (example.com##.banner, #@#, #?#, #$#) are not network blocking.
+  if (/^[^\s#]*#[@?$%]*#/.test(line)) return UNSUPPORTED;
 
   const hash = line.indexOf('#');
   const cleaned = hash >= 0 ? line.slice(0, hash).trim() : line;
-  if (!cleaned) return null;
+  if (!cleaned) return SKIP;
 
-  const adblockDomain = tryExtractDomainFromAdblock(cleaned);
-  if (adblockDomain) return isLocalhostDomain(adblockDomain) ? null : adblockDomain;
+  const adblock = parseAdblockRule(cleaned);
+  if (adblock) return adblock;
 
   // hosts-style: "0.0.0.0 example.com" or plain domains
   const parts = cleaned.split(/\s+/).filter(Boolean);
-  if (parts.length === 0) return null;
+  if (parts.length === 0) return SKIP;
   const candidate = parts.length >= 2 ? parts[1] : parts[0];
+  // hosts files start with entries like "127.0.0.1 localhost" and "ff02::1 ip6-allnodes".
+  if (parts.length >= 2 && (!candidate.includes('.') || net.isIP(candidate))) return SKIP;
   const domain = normalizeDomain(candidate);
-  if (!domain) return null;
-  return isLocalhostDomain(domain) ? null : domain;
+  if (!domain) return INVALID;
+  if (isLocalhostDomain(domain)) return SKIP;
+  return { kind: 'rule', type: 'BLOCKED', domain, options: null, badfilter: false };
 }
 
-async function downloadText(url: string, timeoutMs: number, maxBytes: number): Promise<string> {
-  const ac = new AbortController();
-  const timer = setTimeout(() => ac.abort(), timeoutMs);
-  try {
-    const res = await fetch(url, {
-      method: 'GET',
-      headers: { 'user-agent': 'sentinel-dns/0.1' },
-      signal: ac.signal
-    });
-    if (!res.ok) throw new Error(`HTTP_${res.status}`);
+export type BlocklistRefreshStatus = 'UPDATED' | 'NOT_MODIFIED' | 'FAILED';
+
+export type BlocklistRefreshResult = {
+  fetched: number;
+  exceptions: number;
+  stats: BlocklistParseStats;
+  // The server answered 304 to the conditional GET; stored rules and stats were left as they were.
+  notModified: boolean;
+  added: number;
+  removed: number;
+  bytes: number;
+  durationMs: number;
+};
+
+export type BlocklistRefreshProgress = { bytes: number; lines: number };
 
+// Refresh runs kept per list in blocklist_refresh_history.
+const REFRESH_HISTORY_LIMIT = 50;
+
+async function recordRefreshHistory(
+  db: Db,
+  entry: {
+    blocklistId: number;
+    startedAt: Date;
+    status: BlocklistRefreshStatus;
+    added?: number;
+    removed?: number;
+    ruleCount?: number | null;
+    bytes?: number;
+    durationMs: number;
+    error?: string | null;
+  }
+): Promise<void> {
+  await db.pool.query(
+    `INSERT INTO blocklist_refresh_history(blocklist_id, started_at, status, added, removed, rule_count, bytes, duration_ms, error)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+    [
+      entry.blocklistId,
+      entry.startedAt.toISOString(),
+      entry.status,
+      entry.added ?? 0,
+      entry.removed ?? 0,
+      entry.ruleCount ?? null,
+      entry.bytes ?? 0,
+      entry.durationMs,
+      entry.error ?? null
+    ]
+  );
+  await db.pool.query(
+    `DELETE FROM blocklist_refresh_history
+     WHERE blocklist_id = $1
+       AND id NOT IN (SELECT id FROM blocklist_refresh_history WHERE blocklist_id = $1 ORDER BY id DESC LIMIT $2)`,
+    [entry.blocklistId, REFRESH_HISTORY_LIMIT]
+  );
+}
+
+async function* streamLines(
+  nodeStream: NodeJS.ReadableStream,
+  maxBytes: number,
+  counter: { bytes: number }
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder('utf-8');
+  let buffered = '';
+
+  for await (const chunk of nodeStream as any) {
+    const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    counter.bytes += buf.length;
+    if (counter.bytes > maxBytes) throw new Error('TOO_LARGE');
+
+    buffered += decoder.decode(buf, { stream: true });
+    let idx: number;
+    while ((idx = buffered.indexOf('\n')) >= 0) {
+      let line = buffered.slice(0, idx);
+      buffered = buffered.slice(idx + 1);
+      if (line.endsWith('\r')) line = line.slice(0, -1);
+      yield line;
+    }
+  }
+
+  buffered += decoder.decode();
+  if (buffered.length) yield buffered.endsWith('\r') ? buffered.slice(0, -1) : buffered;
+}
+
+async function* responseLines(res: Response, maxBytes: number, counter: { bytes: number }): AsyncGenerator<string> {
+  // Prefer streaming to keep memory bounded.
+  const body: any = (res as any).body;
+  if (!body) {
     const buf = Buffer.from(await res.arrayBuffer());
+    counter.bytes = buf.length;
     if (buf.length > maxBytes) throw new Error('TOO_LARGE');
-    return buf.toString('utf8');
-  } finally {
-    clearTimeout(timer);
+    for (const line of buf.toString('utf8').split(/\r?\n/)) yield line;
+    return;
   }
+
+  // Node/undici: Response.body can be a WHATWG ReadableStream. Convert when needed.
+  const nodeStream: NodeJS.ReadableStream =
+    typeof body.getReader === 'function' ? Readable.fromWeb(body as ReadableStream<Uint8Array>) : (body as NodeJS.ReadableStream);
+  yield* streamLines(nodeStream, maxBytes, counter);
 }
 
-async function* downloadLines(url: string, timeoutMs: number, maxBytes: number): AsyncGenerator<string> {
-  const ac = new AbortController();
-  const timer = setTimeout(() => ac.abort(), timeoutMs);
-  try {
-    const res = await fetch(url, {
-      method: 'GET',
-      headers: { 'user-agent': 'sentinel-dns/0.1' },
-      signal: ac.signal
-    });
-    if (!res.ok) throw new Error(`HTTP_${res.status}`);
-
-    // Prefer streaming to keep memory bounded.
-    const body: any = (res as any).body;
-    if (!body) {
-      const text = await downloadText(url, timeoutMs, maxBytes);
-      for (const line of text.split(/\r?\n/)) yield line;
-      return;
-    }
+// The list's lines plus the validators to store for the next conditional refresh, or `notModified`
+// when the source reports no change since the last run.
+type OpenedBlocklistSource =
+  | { notModified: true }
+  | { notModified: false; lines: Iterable<string> | AsyncIterable<string>; etag: string | null; lastModified: string | null };
 
-    const decoder = new TextDecoder('utf-8');
-    let buffered = '';
-    let seenBytes = 0;
-
-    // Node/undici: Response.body can be a WHATWG ReadableStream. Convert when needed.
-    const nodeStream: NodeJS.ReadableStream =
-      typeof body.getReader === 'function' ? Readable.fromWeb(body as ReadableStream<Uint8Array>) : (body as NodeJS.ReadableStream);
-
-    for await (const chunk of nodeStream as any) {
-      const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
-      seenBytes += buf.length;
-      if (seenBytes > maxBytes) throw new Error('TOO_LARGE');
-
-      buffered += decoder.decode(buf, { stream: true });
-      let idx: number;
-      while ((idx = buffered.indexOf('\n')) >= 0) {
-        let line = buffered.slice(0, idx);
-        buffered = buffered.slice(idx + 1);
-        if (line.endsWith('\r')) line = line.slice(0, -1);
-        yield line;
-      }
-    }
+/** Opens an HTTP(S), `file://` or inline source (see sources.ts). */
+async function openBlocklistSource(
+  db: Db,
+  input: { id: number; url: string },
+  opts: { dataDir: string; force: boolean; maxBytes: number; signal: AbortSignal; counter: { bytes: number } }
+): Promise<OpenedBlocklistSource> {
+  const prev = opts.force
+    ? null
+    : (await db.pool.query('SELECT http_etag, http_last_modified FROM blocklists WHERE id = $1', [input.id])).rows?.[0];
+  const prevEtag = typeof prev?.http_etag === 'string' && prev.http_etag ? prev.http_etag : null;
+  const prevLastModified = typeof prev?.http_last_modified === 'string' && prev.http_last_modified ? prev.http_last_modified : null;
+
+  const source = blocklistSourceType(input.url);
+
+  if (source === 'INLINE') {
+    const res = await db.pool.query('SELECT content FROM blocklists WHERE id = $1', [input.id]);
+    const content = String(res.rows?.[0]?.content ?? '');
+    opts.counter.bytes = Buffer.byteLength(content);
+    if (opts.counter.bytes > opts.maxBytes) throw new Error('TOO_LARGE');
+    return { notModified: false, lines: content.split(/\r?\n/), etag: null, lastModified: null };
+  }
 
-    buffered += decoder.decode();
-    if (buffered.length) yield buffered.endsWith('\r') ? buffered.slice(0, -1) : buffered;
-  } finally {
-    clearTimeout(timer);
+  if (source === 'FILE') {
+    const file = await realBlocklistFilePath(opts.dataDir, input.url);
+    if (!file) throw new Error('INVALID_FILE_PATH');
+    const stat = await fs.promises.stat(file);
+    if (!stat.isFile()) throw new Error('NOT_A_FILE');
+    if (stat.size > opts.maxBytes) throw new Error('TOO_LARGE');
+    // Size and mtime stand in for an ETag.
+    const etag = `"${stat.size}-${Math.floor(stat.mtimeMs)}"`;
+    if (prevEtag === etag) return { notModified: true };
+    return { notModified: false, lines: streamLines(fs.createReadStream(file), opts.maxBytes, opts.counter), etag, lastModified: null };
   }
+
+  const headers: Record<string, string> = { 'user-agent': 'sentinel-dns/0.1' };
+  if (prevEtag) headers['if-none-match'] = prevEtag;
+  if (prevLastModified) headers['if-modified-since'] = prevLastModified;
+
+  const res = await fetch(input.url, { method: 'GET', headers, signal: opts.signal });
+  if (res.status === 304) return { notModified: true };
+  if (!res.ok) throw new Error(`HTTP_${res.status}`);
+  return {
+    notModified: false,
+    lines: responseLines(res, opts.maxBytes, opts.counter),
+    etag: res.headers.get('etag'),
+    lastModified: res.headers.get('last-modified')
+  };
 }
 
+/**
+ * Reads a list (HTTP(S), `file://` or inline) and brings its `Blocklist:<id>` rules in line with it.
+ * Downloads are conditional GETs (ETag / Last-Modified from the previous run) and files are
+ * compared by size and mtime unless `force` is set; an unchanged source leaves the rules untouched.
+ * Otherwise the parsed list is staged in a temporary table and only the difference is written to
+ * `rules`, so unchanged domains cost no WAL and keep their ids.
+ */
 export async function refreshBlocklist(
   db: Db,
   input: { id: number; name: string; url: string },
-  opts?: { timeoutMs?: number; maxBytes?: number }
-): Promise<{ fetched: number }> {
+  opts?: {
+    timeoutMs?: number;
+    maxBytes?: number;
+    force?: boolean;
+    // DATA_DIR; `file://` sources are read from its `blocklists` directory.
+    dataDir?: string;
+    // Called every few thousand lines while the list is parsed.
+    onProgress?: (progress: BlocklistRefreshProgress) => void;
+  }
+): Promise<BlocklistRefreshResult> {
   const timeoutMs = opts?.timeoutMs ?? 15_000;
   const maxBytes = opts?.maxBytes ?? 25 * 1024 * 1024;
 
@@ -167,52 +322,207 @@ export async function refreshBlocklist(
   // which breaks deletes after renames and slows lookups.
   const category = `Blocklist:${input.id}`;
 
-  const client = await db.pool.connect();
+  const startedAt = new Date();
+  const counter = { bytes: 0 };
+  const ac = new AbortController();
+  const timer = setTimeout(() => ac.abort(), timeoutMs);
+
   try {
-    await client.query('BEGIN');
-
-    // Backward-compatible cleanup for legacy categories (Blocklist:<id>:<name>).
-    await client.query(
-      "DELETE FROM rules WHERE type = 'BLOCKED' AND (category = $1 OR category LIKE ($1 || ':%'))",
-      [category]
-    );
-
-    const chunkSize = 5000;
-    let inserted = 0;
-    let chunk: string[] = [];
-
-    const flush = async (): Promise<void> => {
-      if (!chunk.length) return;
-      const res = await client.query(
-        `INSERT INTO rules(domain, type, category)
-         SELECT d, 'BLOCKED', $2 FROM unnest($1::text[]) AS d
-         ON CONFLICT (domain, type, category) DO NOTHING`,
-        [chunk, category]
+    const opened = await openBlocklistSource(db, input, {
+      dataDir: opts?.dataDir ?? '/data',
+      force: !!opts?.force,
+      maxBytes,
+      signal: ac.signal,
+      counter
+    });
+
+    if (opened.notModified) {
+      const upd = await db.pool.query(
+        'UPDATE blocklists SET last_updated_at = NOW(), last_error = NULL, updated_at = NOW() WHERE id = $1 RETURNING last_rule_count, last_parse_stats',
+        [input.id]
       );
-      inserted += Number(res.rowCount ?? 0);
-      chunk = [];
-    };
-
-    // Parse and insert incrementally to keep memory bounded.
-    for await (const line of downloadLines(input.url, timeoutMs, maxBytes)) {
-      const domain = extractDomainFromLine(line);
-      if (!domain) continue;
-      chunk.push(domain);
-      if (chunk.length >= chunkSize) await flush();
+      const row = upd.rows?.[0];
+      const durationMs = Date.now() - startedAt.getTime();
+      const fetched = Number(row?.last_rule_count ?? 0);
+      await recordRefreshHistory(db, {
+        blocklistId: input.id,
+        startedAt,
+        status: 'NOT_MODIFIED',
+        ruleCount: fetched,
+        durationMs
+      });
+      const prevStats = row?.last_parse_stats;
+      return {
+        fetched,
+        exceptions: Number(prevStats?.exceptions ?? 0),
+        stats: {
+          accepted: Number(prevStats?.accepted ?? 0),
+          exceptions: Number(prevStats?.exceptions ?? 0),
+          unsupported: Number(prevStats?.unsupported ?? 0),
+          invalid: Number(prevStats?.invalid ?? 0)
+        },
+        notModified: true,
+        added: 0,
+        removed: 0,
+        bytes: 0,
+        durationMs
+      };
     }
-    await flush();
 
-    await client.query(
-      'UPDATE blocklists SET last_updated_at = NOW(), last_error = NULL, last_rule_count = $2, updated_at = NOW() WHERE id = $1',
-      [input.id, inserted]
-    );
+    const client = await db.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Staging table for the downloaded list; temporary tables are not WAL-logged.
+      await client.query(
+        `CREATE TEMP TABLE blocklist_refresh_rules (
+           domain TEXT NOT NULL,
+           type TEXT NOT NULL,
+           options JSONB,
+           PRIMARY KEY (domain, type)
+         ) ON COMMIT DROP`
+      );
+
+      const chunkSize = 5000;
+      const stats: BlocklistParseStats = { accepted: 0, exceptions: 0, unsupported: 0, invalid: 0 };
+      const badfilters: Array<{ domain: string; type: 'BLOCKED' | 'ALLOWED'; options: ListRuleOptions | null }> = [];
+      // Per type, domain -> modifiers. A repeated domain keeps the variant without conditions.
+      const chunks = { BLOCKED: new Map<string, ListRuleOptions | null>(), ALLOWED: new Map<string, ListRuleOptions | null>() };
+
+      const flush = async (type: 'BLOCKED' | 'ALLOWED'): Promise<void> => {
+        const chunk = chunks[type];
+        if (!chunk.size) return;
+        const domains = [...chunk.keys()];
+        const options = domains.map((d) => {
+          const o = chunk.get(d);
+          return o ? JSON.stringify(o) : null;
+        });
+        await client.query(
+          `INSERT INTO blocklist_refresh_rules(domain, type, options)
+           SELECT d, $2, o::jsonb FROM unnest($1::text[], $3::text[]) AS t(d, o)
+           ON CONFLICT (domain, type) DO UPDATE SET options = NULL
+             WHERE blocklist_refresh_rules.options IS NOT NULL AND EXCLUDED.options IS NULL`,
+          [domains, type, options]
+        );
+        chunk.clear();
+      };
+
+      // Parse and stage incrementally to keep memory bounded.
+      let lines = 0;
+      for await (const line of opened.lines) {
+        if (++lines % 10_000 === 0) opts?.onProgress?.({ bytes: counter.bytes, lines });
+        const parsed = parseBlocklistLine(line);
+        if (parsed.kind === 'skip') continue;
+        if (parsed.kind === 'unsupported' || parsed.kind === 'invalid') {
+          stats[parsed.kind]++;
+          continue;
+        }
+
+        if (parsed.type === 'ALLOWED') stats.exceptions++;
+        else stats.accepted++;
+
+        if (parsed.badfilter) {
+          badfilters.push({ domain: parsed.domain, type: parsed.type, options: parsed.options });
+          continue;
+        }
+
+        const chunk = chunks[parsed.type];
+        if (chunk.has(parsed.domain) && !chunk.get(parsed.domain)) continue;
+        chunk.set(parsed.domain, parsed.options);
+        if (chunk.size >= chunkSize) await flush(parsed.type);
+      }
+      await flush('BLOCKED');
+      await flush('ALLOWED');
+
+      // `$badfilter` disables the identical rule wherever it appears in the list.
+      if (badfilters.length) {
+        await client.query(
+          `DELETE FROM blocklist_refresh_rules r
+           USING unnest($1::text[], $2::text[], $3::text[]) AS b(domain, type, options)
+           WHERE r.domain = b.domain AND r.type = b.type AND r.options IS NOT DISTINCT FROM b.options::jsonb`,
+          [
+            badfilters.map((b) => b.domain),
+            badfilters.map((b) => b.type),
+            badfilters.map((b) => (b.options ? JSON.stringify(b.options) : null))
+          ]
+        );
+      }
 
-    await client.query('COMMIT');
-    return { fetched: inserted };
-  } catch (e) {
-    await client.query('ROLLBACK');
+      // Backward-compatible cleanup for legacy categories (Blocklist:<id>:<name>).
+      const legacy = await client.query("DELETE FROM rules WHERE category LIKE ($1 || ':%')", [category]);
+
+      const removedRes = await client.query(
+        `DELETE FROM rules r
+         WHERE r.category = $1
+           AND NOT EXISTS (SELECT 1 FROM blocklist_refresh_rules t WHERE t.domain = r.domain AND t.type = r.type)`,
+        [category]
+      );
+      const changedRes = await client.query(
+        `UPDATE rules r SET options = t.options
+         FROM blocklist_refresh_rules t
+         WHERE r.category = $1 AND r.domain = t.domain AND r.type = t.type AND r.options IS DISTINCT FROM t.options`,
+        [category]
+      );
+      const addedRes = await client.query(
+        `INSERT INTO rules(domain, type, category, options)
+         SELECT domain, type, $1, options FROM blocklist_refresh_rules
+         ON CONFLICT (domain, type, category) DO NOTHING`,
+        [category]
+      );
+
+      const removed = Number(legacy.rowCount ?? 0) + Number(removedRes.rowCount ?? 0);
+      const added = Number(addedRes.rowCount ?? 0);
+      const changed = added + removed + Number(changedRes.rowCount ?? 0) > 0;
+
+      const counts = await client.query('SELECT type, COUNT(*)::int AS count FROM blocklist_refresh_rules GROUP BY type');
+      let fetched = 0;
+      let exceptions = 0;
+      for (const row of counts.rows ?? []) {
+        if (row?.type === 'ALLOWED') exceptions = Number(row.count ?? 0);
+        else fetched = Number(row?.count ?? 0);
+      }
+
+      await client.query(
+        'UPDATE blocklists SET last_updated_at = NOW(), last_error = NULL, last_rule_count = $2, last_parse_stats = $3::jsonb, http_etag = $4, http_last_modified = $5, rules_changed_at = CASE WHEN $6::boolean THEN NOW() ELSE rules_changed_at END, updated_at = NOW() WHERE id = $1',
+        [input.id, fetched, JSON.stringify(stats), opened.etag, opened.lastModified, changed]
+      );
+
+      await client.query('COMMIT');
+
+      const durationMs = Date.now() - startedAt.getTime();
+      await recordRefreshHistory(db, {
+        blocklistId: input.id,
+        startedAt,
+        status: 'UPDATED',
+        added,
+        removed,
+        ruleCount: fetched,
+        bytes: counter.bytes,
+        durationMs
+      });
+
+      return { fetched, exceptions, stats, notModified: false, added, removed, bytes: counter.bytes, durationMs };
+    } catch (e) {
+      await client.query('ROLLBACK');
+      throw e;
+    } finally {
+      client.release();
+    }
+  } catch (e: any) {
+    try {
+      await recordRefreshHistory(db, {
+        blocklistId: input.id,
+        startedAt,
+        status: 'FAILED',
+        bytes: counter.bytes,
+        durationMs: Date.now() - startedAt.getTime(),
+        error: String(e?.message || e).slice(0, 2000)
+      });
+    } catch {
+      // History is best-effort; the caller records last_error.
+    }
     throw e;
   } finally {
-    client.release();
+    clearTimeout(timer);
   }
 }
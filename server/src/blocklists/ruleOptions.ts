@@ -0,0 +1,133 @@
+import ipaddr from 'ipaddr.js';
+
+// DNS-relevant adblock modifiers (AdGuard DNS filtering syntax) kept with a blocklist rule in
+// `rules.options`. Rules without modifiers store NULL and stay on the plain domain index.
+export type ListRuleOptions = {
+  // `$important`: beats exceptions that are not important themselves.
+  important?: true;
+  // `$client=`: IPs, CIDRs or client names; entries starting with "~" exclude.
+  clients?: string[];
+  // `$dnstype=`: query types such as AAAA; entries starting with "~" exclude.
+  dnstypes?: string[];
+};
+
+export type ListRuleContext = {
+  clientIp?: string;
+  // Profile name and any other name the client is known by; compared case-insensitively.
+  clientNames?: string[];
+  qtype?: string;
+};
+
+export type ParsedListRuleModifiers = {
+  options: ListRuleOptions | null;
+  badfilter: boolean;
+};
+
+function splitModifierValues(value: string): string[] {
+  return value
+    .split('|')
+    .map((v) => {
+      let s = v.trim();
+      const negated = s.startsWith('~');
+      if (negated) s = s.slice(1).trim();
+      if (s.length >= 2 && (s[0] === "'" || s[0] === '"') && s[s.length - 1] === s[0]) s = s.slice(1, -1);
+      s = s.replace(/\\(.)/g, '$1').trim();
+      return s ? `${negated ? '~' : ''}${s}` : '';
+    })
+    .filter(Boolean);
+}
+
+/**
+ * Parses the text after `$` in an adblock rule. Returns null when a modifier is not one of
+ * `important`, `badfilter`, `client` or `dnstype` (AdGuard Home skips such rules as well).
+ */
+export function parseListRuleModifiers(raw: string): ParsedListRuleModifiers | null {
+  const options: ListRuleOptions = {};
+  let badfilter = false;
+
+  // Client names may contain escaped commas ("Mary\, John").
+  for (const part of raw.split(/(?<!\\),/)) {
+    const mod = part.trim();
+    if (!mod) continue;
+    const eq = mod.indexOf('=');
+    const key = (eq >= 0 ? mod.slice(0, eq) : mod).trim().toLowerCase();
+    const value = eq >= 0 ? mod.slice(eq + 1) : '';
+
+    if (key === 'important' && eq < 0) {
+      options.important = true;
+      continue;
+    }
+    if (key === 'badfilter' && eq < 0) {
+      badfilter = true;
+      continue;
+    }
+    if (key === 'client' && eq >= 0) {
+      const clients = splitModifierValues(value);
+      if (!clients.length) return null;
+      options.clients = clients;
+      continue;
+    }
+    if (key === 'dnstype' && eq >= 0) {
+      const types = splitModifierValues(value).map((t) => t.toUpperCase());
+      if (!types.length || types.some((t) => !/^~?[A-Z0-9]+$/.test(t))) return null;
+      options.dnstypes = types;
+      continue;
+    }
+    return null;
+  }
+
+  return { options: Object.keys(options).length ? options : null, badfilter };
+}
+
+/** Positive entries: at least one must match. "~" entries: none may match. */
+function matchesValues(values: string[] | undefined, matches: (value: string) => boolean): boolean {
+  if (!values?.length) return true;
+  let hasPositive = false;
+  let positiveHit = false;
+  for (const v of values) {
+    if (v.startsWith('~')) {
+      if (matches(v.slice(1))) return false;
+      continue;
+    }
+    hasPositive = true;
+    if (!positiveHit && matches(v)) positiveHit = true;
+  }
+  return hasPositive ? positiveHit : true;
+}
+
+function clientValueMatches(value: string, ctx: ListRuleContext): boolean {
+  const ip = ctx.clientIp;
+  if (ip && ipaddr.isValid(ip)) {
+    try {
+      if (value.includes('/')) {
+        const [range, bits] = ipaddr.parseCIDR(value);
+        const addr = ipaddr.process(ip);
+        if (addr.kind() === range.kind() && addr.match(range, bits)) return true;
+      } else if (ipaddr.isValid(value)) {
+        return ipaddr.process(value).toString() === ipaddr.process(ip).toString();
+      }
+    } catch {
+      // Not an address; compare as a name below.
+    }
+  }
+  const name = value.toLowerCase();
+  return (ctx.clientNames ?? []).some((n) => n.toLowerCase() === name);
+}
+
+/** Whether a rule with these options applies to the query. */
+export function listRuleOptionsMatch(options: ListRuleOptions, ctx: ListRuleContext): boolean {
+  if (!matchesValues(options.clients, (v) => clientValueMatches(v, ctx))) return false;
+  const qtype = String(ctx.qtype ?? '').toUpperCase();
+  return matchesValues(options.dnstypes, (v) => v === qtype);
+}
+
+/** `rules.options` as read from Postgres (JSONB), or null when it carries nothing usable. */
+export function parseStoredListRuleOptions(value: unknown): ListRuleOptions | null {
+  const v: any = value;
+  if (!v || typeof v !== 'object') return null;
+  const out: ListRuleOptions = {};
+  if (v.important === true) out.important = true;
+  if (Array.isArray(v.clients) && v.clients.length) out.clients = v.clients.map(String);
+  if (Array.isArray(v.dnstypes) && v.dnstypes.length) out.dnstypes = v.dnstypes.map((t: any) => String(t).toUpperCase());
+  return Object.keys(out).length ? out : null;
+}
@@ -1,5 +1,5 @@
 import type { Db } from '../db.js';
-import { refreshBlocklist } from './refresh.js';
+import { enqueueBlocklistRefresh } from './jobs.js';
 
 type SeedBlocklist = {
   name: string;
@@ -128,12 +128,10 @@ export async function ensureDefaultBlocklists(db: Db): Promise<void> {
   }
 
   if (inserted.length) {
-    // Populate rules in the background so the server can come up quickly.
+    // Populate rules in the background (refresh queue) so the server can come up quickly.
     // Any errors are recorded on the blocklist row as `last_error`.
     void Promise.allSettled(
-      inserted
-        .filter((x) => x.enabled)
-        .map((x) => refreshBlocklist(db, { id: x.id, name: x.name, url: x.url }).catch(() => undefined))
+      inserted.filter((x) => x.enabled).map((x) => enqueueBlocklistRefresh(db, x.id, { trigger: 'STARTUP' }))
     );
   }
 }
@@ -0,0 +1,56 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+// Where a blocklist's lines come from, derived from its `url`:
+//   https://example.com/hosts.txt   downloaded (conditional GET)
+//   file://private/ads.txt          read from DATA_DIR/blocklists (mount a config repo there)
+//   inline:<uuid>                   `blocklists.content`, edited in the UI or uploaded
+export type BlocklistSourceType = 'URL' | 'FILE' | 'INLINE';
+
+// Inline content is stored in Postgres and sent in JSON bodies; keep it well below list sizes
+// that belong on a web server or in a file.
+export const MAX_INLINE_BLOCKLIST_BYTES = 10 * 1024 * 1024;
+
+export function blocklistSourceType(url: string): BlocklistSourceType {
+  const u = String(url ?? '').trim().toLowerCase();
+  if (u.startsWith('file://')) return 'FILE';
+  if (u.startsWith('inline:')) return 'INLINE';
+  return 'URL';
+}
+
+export function newInlineBlocklistUrl(): string {
+  return `inline:${crypto.randomUUID()}`;
+}
+
+/** File sources are read from `DATA_DIR/blocklists` only. */
+export function resolveBlocklistsDir(dataDir: string): string {
+  return path.join(dataDir || '/data', 'blocklists');
+}
+
+/**
+ * Resolves `file://name.txt` (relative to the blocklists dir) or `file:///data/blocklists/name.txt`
+ * to a path inside the blocklists dir; null when it would escape it.
+ */
+export function resolveBlocklistFilePath(dataDir: string, url: string): string | null {
+  const raw = String(url ?? '').trim();
+  if (!raw.toLowerCase().startsWith('file://')) return null;
+  let rest: string;
+  try {
+    rest = decodeURIComponent(raw.slice('file://'.length));
+  } catch {
+    return null;
+  }
+  if (!rest || rest.includes('\0')) return null;
+  const dir = resolveBlocklistsDir(dataDir);
+  const full = path.resolve(dir, rest);
+  return full.startsWith(dir + path.sep) ? full : null;
+}
+
+/** Like resolveBlocklistFilePath, but also refuses symlinks that lead out of the directory. */
+export async function realBlocklistFilePath(dataDir: string, url: string): Promise<string | null> {
+  const full = resolveBlocklistFilePath(dataDir, url);
+  if (!full) return null;
+  const [real, realDir] = await Promise.all([fs.promises.realpath(full), fs.promises.realpath(resolveBlocklistsDir(dataDir))]);
+  return real.startsWith(realDir + path.sep) ? real : null;
+}
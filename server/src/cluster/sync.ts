@@ -265,9 +265,12 @@ export async function applySnapshot(config: AppConfig, db: Db, snapshot: Cluster
       const urls: string[] = [];
       const enableds: boolean[] = [];
       const modes: string[] = [];
+      const kinds: string[] = [];
       const lastUpdatedAts: (string | null)[] = [];
       const lastErrors: (string | null)[] = [];
       const lastRuleCounts: number[] = [];
+      const refreshIntervals: (number | null)[] = [];
+      const contents: (string | null)[] = [];
       const createdAts: string[] = [];
       const updatedAts: string[] = [];
 
@@ -281,21 +284,40 @@ export async function applySnapshot(config: AppConfig, db: Db, snapshot: Cluster
         urls.push(url);
         enableds.push(Boolean((b as any).enabled));
         modes.push(String((b as any).mode || 'ACTIVE'));
+        kinds.push((b as any).kind === 'ALLOW' ? 'ALLOW' : 'BLOCK');
         lastUpdatedAts.push((b as any).lastUpdatedAt ? String((b as any).lastUpdatedAt) : null);
         lastErrors.push((b as any).lastError ? String((b as any).lastError) : null);
         lastRuleCounts.push(Number((b as any).lastRuleCount ?? 0));
+        const interval = (b as any).refreshIntervalMinutes;
+        refreshIntervals.push(interval == null || !Number.isFinite(Number(interval)) ? null : Number(interval));
+        contents.push(typeof (b as any).content === 'string' ? (b as any).content : null);
         createdAts.push(String((b as any).createdAt || new Date().toISOString()));
         updatedAts.push(String((b as any).updatedAt || new Date().toISOString()));
       }
 
       if (ids.length) {
         await client.query(
-          `INSERT INTO blocklists(id, name, url, enabled, mode, last_updated_at, last_error, last_rule_count, created_at, updated_at)
+          `INSERT INTO blocklists(id, name, url, enabled, mode, kind, last_updated_at, last_error, last_rule_count,
+             refresh_interval_minutes, content, created_at, updated_at)
            SELECT * FROM unnest(
-             $1::int[], $2::text[], $3::text[], $4::boolean[], $5::text[],
-             $6::timestamptz[], $7::text[], $8::int[], $9::timestamptz[], $10::timestamptz[]
+             $1::int[], $2::text[], $3::text[], $4::boolean[], $5::text[], $6::text[],
+             $7::timestamptz[], $8::text[], $9::int[], $10::int[], $11::text[], $12::timestamptz[], $13::timestamptz[]
            )`,
-          [ids, names, urls, enableds, modes, lastUpdatedAts, lastErrors, lastRuleCounts, createdAts, updatedAts]
+          [
+            ids,
+            names,
+            urls,
+            enableds,
+            modes,
+            kinds,
+            lastUpdatedAts,
+            lastErrors,
+            lastRuleCounts,
+            refreshIntervals,
+            contents,
+            createdAts,
+            updatedAts
+          ]
         );
       }
     }
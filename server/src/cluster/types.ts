@@ -40,9 +40,14 @@ export type ClusterExportSnapshot = {
     url: string;
     enabled: boolean;
     mode: string;
+    // Missing in snapshots from leaders that predate allowlists.
+    kind?: string;
     lastUpdatedAt: string | null;
     lastError: string | null;
     lastRuleCount: number;
+    // Missing in snapshots from leaders that predate refresh schedules / inline lists.
+    refreshIntervalMinutes?: number | null;
+    content?: string | null;
     createdAt: string;
     updatedAt: string;
   }>;
@@ -19,6 +19,26 @@ const schema = z.object({
   UPSTREAM_DNS: z.string().optional().default('127.0.0.1:5335'),
   ENABLE_DNS: z.coerce.boolean().optional().default(true),
 
+  // DNS-over-TLS listener (e.g. Android "Private DNS"). Set DNS_TLS_PORT=0 to disable.
+  // Without cert/key paths a self-signed pair is generated into DATA_DIR.
+  DNS_TLS_PORT: z.coerce.number().int().min(0).optional().default(853),
+  DNS_TLS_CERT_PATH: z.string().optional().default(''),
+  DNS_TLS_KEY_PATH: z.string().optional().default(''),
+  // Base name for SNI client identification: `<token>.<DNS_TLS_SERVER_NAME>` maps to the profile with that DoH/DoT token.
+  DNS_TLS_SERVER_NAME: z.string().optional().default(''),
+
+  // Built-in DHCPv4 server (enabled in the UI). Replies go to port + 1; only change for testing.
+  DHCP_PORT: z.coerce.number().int().positive().optional().default(67),
+
+  // Neighbor (ARP) table used to match client profiles by MAC address. Only readable with host
+  // networking; set to an empty string to disable.
+  DNS_NEIGHBOR_TABLE_PATH: z.string().optional().default('/proc/net/arp'),
+
+  // Forwarders (e.g. the router running dnsmasq --add-mac / --add-cpe-id) whose EDNS MAC and
+  // client-ID options are trusted. Comma/space separated IPs or CIDRs; empty = ignore the options,
+  // since any other device could send them to pose as another client.
+  DNS_EDNS_TRUSTED_SOURCES: z.string().optional().default(''),
+
   // DNS forwarding timeouts (ms). Tune when upstream networks are slow/filtered.
   DNS_FORWARD_UDP_TIMEOUT_MS: z.coerce.number().int().min(250).optional().default(2000),
   DNS_FORWARD_TCP_TIMEOUT_MS: z.coerce.number().int().min(250).optional().default(4000),
@@ -55,6 +75,9 @@ const schema = z.object({
   // In single-container mode this is typically persisted in /data.
   GEOIP_DB_PATH: z.string().optional().default('/data/GeoLite2-City.mmdb'),
 
+  // IEEE `oui.txt` or Wireshark `manuf` file used to show device vendors in client discovery.
+  OUI_DB_PATH: z.string().optional().default('/data/oui.txt'),
+
   // Used to encrypt secrets stored in the DB (Gemini/OpenAI keys, etc.).
   // Can be a passphrase; in production you should set this.
   SECRETS_KEY: z.string().optional().default(''),
@@ -70,6 +93,9 @@ const schema = z.object({
   // Background maintenance frequency (cleanup queries, etc.).
   MAINTENANCE_INTERVAL_MINUTES: z.coerce.number().int().min(1).optional().default(60),
 
+  // Blocklist refresh jobs that may download/apply at the same time (see blocklists/jobs.ts).
+  BLOCKLIST_REFRESH_CONCURRENCY: z.coerce.number().int().min(1).max(8).optional().default(2),
+
   // Short TTL cache for heavy metrics endpoints (server-side). Set to 0 to disable.
   METRICS_CACHE_TTL_MS: z.coerce.number().int().min(0).optional().default(2000)
 });
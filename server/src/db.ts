@@ -1,5 +1,6 @@
 import { Pool } from 'pg';
 import type { AppConfig } from './config.js';
+import { generateDnsToken } from './dns/clientIdentity.js';
 
 export type Db = {
   pool: Pool;
@@ -56,6 +57,8 @@ export function createDb(config: AppConfig): Db {
       // The unique index above is not helpful for `WHERE category = ...` or `LIKE 'Blocklist:<id>:%'`.
       await client.query('CREATE INDEX IF NOT EXISTS rules_category_idx ON rules (category)');
       await client.query('CREATE INDEX IF NOT EXISTS rules_category_type_idx ON rules (category text_pattern_ops, type)');
+      // Adblock modifiers ($important, $client=, $dnstype=) on blocklist rules; NULL for plain rules.
+      await client.query('ALTER TABLE rules ADD COLUMN IF NOT EXISTS options JSONB');
 
       await client.query(`
         CREATE TABLE IF NOT EXISTS clients (
@@ -107,8 +110,92 @@ export function createDb(config: AppConfig): Db {
         );
       `);
 
+      // Built-in DHCP server leases (dhcp/leaseStore.ts). Expired rows are kept for a while so
+      // returning devices get their previous address back.
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS dhcp_leases (
+          ip TEXT PRIMARY KEY,
+          mac TEXT NOT NULL,
+          hostname TEXT,
+          scope_id TEXT NOT NULL,
+          expires_at TIMESTAMPTZ NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+      `);
+      await client.query('CREATE INDEX IF NOT EXISTS dhcp_leases_scope_mac_idx ON dhcp_leases (scope_id, mac)');
+
+      // One row per blocklist refresh (blocklists/refresh.ts); trimmed to the latest runs per list.
+      // No foreign key: cluster sync truncates and re-inserts `blocklists`.
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS blocklist_refresh_history (
+          id BIGSERIAL PRIMARY KEY,
+          blocklist_id BIGINT NOT NULL,
+          started_at TIMESTAMPTZ NOT NULL,
+          status TEXT NOT NULL,
+          added INTEGER NOT NULL DEFAULT 0,
+          removed INTEGER NOT NULL DEFAULT 0,
+          rule_count INTEGER,
+          bytes BIGINT NOT NULL DEFAULT 0,
+          duration_ms INTEGER NOT NULL DEFAULT 0,
+          error TEXT
+        );
+      `);
+      await client.query(
+        'CREATE INDEX IF NOT EXISTS blocklist_refresh_history_list_idx ON blocklist_refresh_history (blocklist_id, id DESC)'
+      );
+
+      // Persistent refresh queue (blocklists/jobs.ts). At most one queued/running job per list.
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS blocklist_refresh_jobs (
+          id BIGSERIAL PRIMARY KEY,
+          blocklist_id BIGINT NOT NULL,
+          trigger TEXT NOT NULL,
+          force BOOLEAN NOT NULL DEFAULT false,
+          status TEXT NOT NULL DEFAULT 'QUEUED',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          started_at TIMESTAMPTZ,
+          finished_at TIMESTAMPTZ,
+          progress JSONB,
+          result JSONB,
+          error TEXT
+        );
+      `);
+      await client.query(
+        "CREATE UNIQUE INDEX IF NOT EXISTS blocklist_refresh_jobs_active_idx ON blocklist_refresh_jobs (blocklist_id) WHERE status IN ('QUEUED', 'RUNNING')"
+      );
+      await client.query(
+        'CREATE INDEX IF NOT EXISTS blocklist_refresh_jobs_list_idx ON blocklist_refresh_jobs (blocklist_id, id DESC)'
+      );
+
       // Backfill for older databases that were created before `mode` existed.
       await client.query("ALTER TABLE blocklists ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'ACTIVE'");
+      // ALLOW lists admit domains for allowlist-only clients instead of blocking them.
+      await client.query("ALTER TABLE blocklists ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'BLOCK'");
+      // Per-refresh parse counts (accepted/exceptions/unsupported/invalid lines), see blocklists/refresh.ts.
+      await client.query('ALTER TABLE blocklists ADD COLUMN IF NOT EXISTS last_parse_stats JSONB');
+      // Conditional GET validators from the last download, and when its rules last changed (the DNS
+      // rules index reloads on this as well as on new rule ids, so removals are picked up too).
+      await client.query('ALTER TABLE blocklists ADD COLUMN IF NOT EXISTS http_etag TEXT');
+      await client.query('ALTER TABLE blocklists ADD COLUMN IF NOT EXISTS http_last_modified TEXT');
+      await client.query('ALTER TABLE blocklists ADD COLUMN IF NOT EXISTS rules_changed_at TIMESTAMPTZ');
+      // Scheduled refresh interval; NULL uses the default (daily), 0 disables scheduled refreshes.
+      await client.query('ALTER TABLE blocklists ADD COLUMN IF NOT EXISTS refresh_interval_minutes INTEGER');
+      // Body of inline lists (url `inline:<uuid>`, see blocklists/sources.ts); NULL for downloaded/file lists.
+      await client.query('ALTER TABLE blocklists ADD COLUMN IF NOT EXISTS content TEXT');
+
+      // Device profiles created before DoH/DoT tokens existed get one (see clientIdentity.ts).
+      const untokened = await client.query(
+        "SELECT id FROM clients WHERE NOT (profile ? 'dnsToken') AND COALESCE(profile->>'type', '') <> 'subnet'"
+      );
+      for (const row of untokened.rows) {
+        await client.query("UPDATE clients SET profile = jsonb_set(profile, '{dnsToken}', to_jsonb($2::text)) WHERE id = $1", [
+          row.id,
+          generateDnsToken()
+        ]);
+      }
 
       await client.query('CREATE INDEX IF NOT EXISTS query_logs_ts_idx ON query_logs (ts DESC)');
 
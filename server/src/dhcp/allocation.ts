@@ -0,0 +1,64 @@
+import { intToIpv4, ipv4ToInt, subnetContains, type DhcpReservation, type DhcpScope } from './scopes.js';
+
+export type StoredLease = { ip: string; mac: string; expiresAtMs: number };
+
+// Addresses briefly held outside the lease table: pending offers (by MAC) and declined addresses (mac '').
+export type HeldAddress = { mac: string; expiresAtMs: number };
+
+export type AllocationContext = {
+  scope: DhcpScope;
+  reservations: DhcpReservation[];
+  leases: StoredLease[];
+  held: Map<string, HeldAddress>;
+  // Never handed out (this server, the router).
+  excluded: string[];
+  nowMs: number;
+};
+
+// Pools beyond this are not scanned address by address.
+const MAX_RANGE_SCAN = 65_536;
+
+function inRange(scope: DhcpScope, ip: string): boolean {
+  const n = ipv4ToInt(ip);
+  return n >= ipv4ToInt(scope.rangeStart) && n <= ipv4ToInt(scope.rangeEnd);
+}
+
+function isFreeFor(ctx: AllocationContext, ip: string, mac: string): boolean {
+  if (ctx.excluded.includes(ip)) return false;
+  if (ctx.reservations.some((r) => r.ip === ip && r.mac !== mac)) return false;
+  if (ctx.leases.some((l) => l.ip === ip && l.mac !== mac && l.expiresAtMs > ctx.nowMs)) return false;
+  const held = ctx.held.get(ip);
+  return !held || held.mac === mac || held.expiresAtMs <= ctx.nowMs;
+}
+
+/** Whether `ip` may be leased to `mac` (DHCPREQUEST): its reservation, or a free address in the pool. */
+export function canAssignAddress(ctx: AllocationContext, ip: string, mac: string): boolean {
+  const reservation = ctx.reservations.find((r) => r.mac === mac);
+  if (reservation) return reservation.ip === ip;
+  return subnetContains(ctx.scope.subnet, ip) && inRange(ctx.scope, ip) && isFreeFor(ctx, ip, mac);
+}
+
+/**
+ * Address to offer (DHCPDISCOVER): the client's reservation, its previous lease, the address it
+ * asked for, then the first never-leased address, then the first expired one. Null when the pool is full.
+ */
+export function allocateAddress(ctx: AllocationContext, mac: string, requested: string | null): string | null {
+  const reservation = ctx.reservations.find((r) => r.mac === mac);
+  if (reservation) return reservation.ip;
+
+  const previous = ctx.leases.find((l) => l.mac === mac && canAssignAddress(ctx, l.ip, mac));
+  if (previous) return previous.ip;
+  if (requested && canAssignAddress(ctx, requested, mac)) return requested;
+
+  const everLeased = new Set(ctx.leases.map((l) => l.ip));
+  const start = ipv4ToInt(ctx.scope.rangeStart);
+  const end = Math.min(ipv4ToInt(ctx.scope.rangeEnd), start + MAX_RANGE_SCAN - 1);
+  let expired: string | null = null;
+  for (let n = start; n <= end; n += 1) {
+    const ip = intToIpv4(n);
+    if (!isFreeFor(ctx, ip, mac)) continue;
+    if (!everLeased.has(ip)) return ip;
+    expired ??= ip;
+  }
+  return expired;
+}
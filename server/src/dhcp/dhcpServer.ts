@@ -0,0 +1,279 @@
+import dgram from 'node:dgram';
+import os from 'node:os';
+
+import type { AppConfig } from '../config.js';
+import type { Db } from '../db.js';
+import { effectiveRole } from '../cluster/role.js';
+import { getClusterConfig } from '../cluster/store.js';
+import { allocateAddress, canAssignAddress, type AllocationContext, type HeldAddress } from './allocation.js';
+import { expireDhcpLease, loadDhcpReservations, loadDhcpSettings, loadScopeLeases, saveDhcpLease } from './leaseStore.js';
+import {
+  BROADCAST_FLAG,
+  DHCP_OPTION,
+  decodeDhcpPacket,
+  encodeDhcpPacket,
+  ipListOption,
+  ipToBuffer,
+  messageTypeOption,
+  readOptionIp,
+  readOptionString,
+  uint32Option,
+  type DhcpPacket
+} from './packet.js';
+import { hostnameLabel, intToIpv4, parseSubnet, selectDhcpScope, subnetContains, type DhcpScope } from './scopes.js';
+
+export type DhcpServerStatus = {
+  running: boolean;
+  port: number;
+  error: string | null;
+  lastPacketAt: string | null;
+};
+
+// Settings are re-read at this interval so enabling DHCP in the UI needs no restart.
+const SETTINGS_POLL_MS = 15_000;
+// An offered address is kept for the client until it requests it (or picks another server).
+const OFFER_HOLD_MS = 60_000;
+// A declined address (another host answered ARP for it) is skipped for a while.
+const DECLINE_HOLD_MS = 10 * 60_000;
+const HELD_MAX = 4096;
+// After a socket error (port in use, missing privileges) binding is retried this much later.
+const BIND_RETRY_MS = 5 * 60_000;
+
+const status: DhcpServerStatus = { running: false, port: 0, error: null, lastPacketAt: null };
+
+export function getDhcpServerStatus(): DhcpServerStatus {
+  return { ...status };
+}
+
+function localIpv4Addresses(): string[] {
+  const out: string[] = [];
+  for (const addrs of Object.values(os.networkInterfaces())) {
+    for (const a of addrs ?? []) {
+      if (a.family === 'IPv4' && !a.internal) out.push(a.address);
+    }
+  }
+  return out;
+}
+
+/**
+ * OFFER/ACK/NAK for a client request. `yiaddr` is `0.0.0.0` for INFORM and NAK;
+ * `leaseTimeSec` is only sent when an address is leased.
+ */
+export function buildDhcpReply(
+  request: DhcpPacket,
+  type: 'OFFER' | 'ACK' | 'NAK',
+  scope: DhcpScope,
+  serverIp: string,
+  yiaddr: string,
+  leaseTimeSec?: number
+): Buffer {
+  const options: Array<[number, Buffer]> = [messageTypeOption(type), ipListOption(DHCP_OPTION.SERVER_ID, [serverIp])];
+  if (type !== 'NAK') {
+    if (leaseTimeSec) {
+      options.push(
+        uint32Option(DHCP_OPTION.LEASE_TIME, leaseTimeSec),
+        uint32Option(DHCP_OPTION.RENEWAL_TIME, Math.floor(leaseTimeSec / 2)),
+        uint32Option(DHCP_OPTION.REBINDING_TIME, Math.floor((leaseTimeSec * 7) / 8))
+      );
+    }
+    const subnet = parseSubnet(scope.subnet)!;
+    options.push([DHCP_OPTION.SUBNET_MASK, ipToBuffer(subnet.mask)], ipListOption(DHCP_OPTION.BROADCAST_ADDRESS, [intToIpv4(subnet.broadcast)]));
+    if (scope.router) options.push(ipListOption(DHCP_OPTION.ROUTER, [scope.router]));
+    options.push(ipListOption(DHCP_OPTION.DNS_SERVERS, scope.dnsServers.length ? scope.dnsServers : [serverIp]));
+    options.push([DHCP_OPTION.DOMAIN_NAME, Buffer.from(scope.domain, 'latin1')]);
+  }
+
+  return encodeDhcpPacket({
+    op: 2,
+    xid: request.xid,
+    secs: 0,
+    flags: request.flags,
+    ciaddr: type === 'NAK' ? '0.0.0.0' : request.ciaddr,
+    yiaddr,
+    siaddr: '0.0.0.0',
+    giaddr: request.giaddr,
+    chaddr: request.chaddr,
+    options
+  });
+}
+
+/** Where a reply goes (RFC 2131 §4.1): the relay, the client's current address, or broadcast. */
+function replyDestination(request: DhcpPacket, type: 'OFFER' | 'ACK' | 'NAK', serverPort: number): { address: string; port: number } {
+  if (request.giaddr !== '0.0.0.0') return { address: request.giaddr, port: serverPort };
+  if (type !== 'NAK' && request.ciaddr !== '0.0.0.0' && !(request.flags & BROADCAST_FLAG)) {
+    return { address: request.ciaddr, port: serverPort + 1 };
+  }
+  // Without raw sockets a not-yet-configured client can only be reached by broadcast.
+  return { address: '255.255.255.255', port: serverPort + 1 };
+}
+
+async function shouldServe(config: AppConfig, db: Db): Promise<boolean> {
+  const settings = await loadDhcpSettings(db);
+  if (!settings.enabled || !settings.scopes.some((s) => s.enabled)) return false;
+  // Two nodes handing out addresses from separate lease tables would conflict: only the
+  // leader (or a follower keepalived promoted) serves.
+  const cluster = await getClusterConfig(db);
+  return !cluster.enabled || effectiveRole(config, cluster.role) !== 'follower';
+}
+
+/**
+ * Optional DHCPv4 server for the scopes in `dhcp_settings`. Needs host networking (broadcast
+ * traffic on UDP 67/68) and must be the only DHCP server on the LAN.
+ */
+export function startDhcpServer(config: AppConfig, db: Db): { close: () => Promise<void> } {
+  // Avoid background sockets/timers in unit/integration tests.
+  if (config.NODE_ENV === 'test') {
+    return { close: async () => undefined };
+  }
+
+  const port = config.DHCP_PORT;
+  const held = new Map<string, HeldAddress>();
+  let socket: dgram.Socket | null = null;
+  let queue: Promise<void> = Promise.resolve();
+  let retryAfterMs = 0;
+
+  const send = (reply: Buffer, request: DhcpPacket, type: 'OFFER' | 'ACK' | 'NAK') => {
+    const dest = replyDestination(request, type, port);
+    socket?.send(reply, dest.port, dest.address, (err) => {
+      if (err) console.warn(`[dhcp] failed to send ${type} to ${dest.address}: ${err.message}`);
+    });
+  };
+
+  const handle = async (msg: Buffer) => {
+    const request = decodeDhcpPacket(msg);
+    if (!request || request.op !== 1 || !request.mac || !request.messageType) return;
+    const mac = request.mac;
+    status.lastPacketAt = new Date().toISOString();
+
+    const settings = await loadDhcpSettings(db);
+    if (!settings.enabled) return;
+    const local = localIpv4Addresses();
+    const scope = selectDhcpScope(settings.scopes, request.giaddr, local);
+    if (!scope) return;
+    const serverIp = scope.serverIp ?? local.find((a) => subnetContains(scope.subnet, a));
+    if (!serverIp) {
+      status.error = `No address of this host is inside ${scope.subnet}; set the scope's server IP.`;
+      return;
+    }
+
+    const nowMs = Date.now();
+    if (held.size > HELD_MAX) {
+      for (const [ip, h] of held) if (h.expiresAtMs <= nowMs) held.delete(ip);
+    }
+    const ctx: AllocationContext = {
+      scope,
+      reservations: (await loadDhcpReservations(db, settings)).filter((r) => r.scopeId === scope.id),
+      leases: await loadScopeLeases(db, scope.id),
+      held,
+      excluded: [serverIp, ...(scope.router ? [scope.router] : [])],
+      nowMs
+    };
+
+    switch (request.messageType) {
+      case 'DISCOVER': {
+        const ip = allocateAddress(ctx, mac, readOptionIp(request, DHCP_OPTION.REQUESTED_IP));
+        if (!ip) {
+          console.warn(`[dhcp] no free address in ${scope.subnet} for ${mac}`);
+          return;
+        }
+        held.set(ip, { mac, expiresAtMs: nowMs + OFFER_HOLD_MS });
+        send(buildDhcpReply(request, 'OFFER', scope, serverIp, ip, scope.leaseTimeSec), request, 'OFFER');
+        return;
+      }
+      case 'REQUEST': {
+        const serverId = readOptionIp(request, DHCP_OPTION.SERVER_ID);
+        if (serverId && serverId !== serverIp) {
+          // The client accepted another server's offer.
+          for (const [ip, h] of held) if (h.mac === mac) held.delete(ip);
+          return;
+        }
+        const ip = readOptionIp(request, DHCP_OPTION.REQUESTED_IP) ?? (request.ciaddr !== '0.0.0.0' ? request.ciaddr : null);
+        if (!ip) return;
+        if (!canAssignAddress(ctx, ip, mac)) {
+          send(buildDhcpReply(request, 'NAK', scope, serverIp, '0.0.0.0'), request, 'NAK');
+          return;
+        }
+        const reservation = ctx.reservations.find((r) => r.mac === mac);
+        await saveDhcpLease(db, {
+          ip,
+          mac,
+          hostname: reservation?.hostname ?? hostnameLabel(readOptionString(request, DHCP_OPTION.HOST_NAME)),
+          scopeId: scope.id,
+          expiresAt: new Date(nowMs + scope.leaseTimeSec * 1000)
+        });
+        held.delete(ip);
+        send(buildDhcpReply(request, 'ACK', scope, serverIp, ip, scope.leaseTimeSec), request, 'ACK');
+        return;
+      }
+      case 'INFORM':
+        // Configured statically: options only, no lease.
+        send(buildDhcpReply(request, 'ACK', scope, serverIp, '0.0.0.0'), request, 'ACK');
+        return;
+      case 'RELEASE':
+        await expireDhcpLease(db, request.ciaddr, mac);
+        return;
+      case 'DECLINE': {
+        const ip = readOptionIp(request, DHCP_OPTION.REQUESTED_IP);
+        if (!ip) return;
+        console.warn(`[dhcp] ${mac} declined ${ip}; another host may be using it`);
+        held.set(ip, { mac: '', expiresAtMs: nowMs + DECLINE_HOLD_MS });
+        await expireDhcpLease(db, ip, mac);
+        return;
+      }
+      default:
+        return;
+    }
+  };
+
+  const stop = () => {
+    try {
+      socket?.close();
+    } catch {
+      // ignore
+    }
+    socket = null;
+    status.running = false;
+  };
+
+  const start = () => {
+    const s = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+    s.on('message', (msg) => {
+      // One request at a time so two clients are never offered the same address.
+      queue = queue.then(() => handle(msg)).catch((e) => console.warn(`[dhcp] request failed: ${e instanceof Error ? e.message : String(e)}`));
+    });
+    s.on('error', (e) => {
+      console.warn(`[dhcp] server stopped: ${e.message}`);
+      status.error = e.message;
+      retryAfterMs = Date.now() + BIND_RETRY_MS;
+      if (socket === s) stop();
+    });
+    s.bind(port, () => {
+      s.setBroadcast(true);
+      status.running = true;
+      status.port = port;
+      status.error = null;
+    });
+    socket = s;
+  };
+
+  const sync = async () => {
+    try {
+      const serve = await shouldServe(config, db);
+      if (serve && !socket && Date.now() >= retryAfterMs) start();
+      if (!serve && socket) stop();
+    } catch {
+      // DB hiccup: keep the current state.
+    }
+  };
+
+  void sync();
+  const timer = setInterval(() => void sync(), SETTINGS_POLL_MS);
+
+  return {
+    close: async () => {
+      clearInterval(timer);
+      stop();
+      await queue;
+    }
+  };
+}
@@ -0,0 +1,106 @@
+import type { Db } from '../db.js';
+import type { StoredLease } from './allocation.js';
+import { readDhcpReservations, readDhcpSettings, type DhcpReservation, type DhcpSettings } from './scopes.js';
+
+export type DhcpLeaseRow = {
+  ip: string;
+  mac: string;
+  hostname: string | null;
+  scopeId: string;
+  expiresAt: string;
+  updatedAt: string;
+};
+
+// Expired leases are kept this long so returning devices get their old address back.
+const EXPIRED_LEASE_RETENTION_DAYS = 30;
+
+export async function loadDhcpSettings(db: Db): Promise<DhcpSettings> {
+  const res = await db.pool.query('SELECT value FROM settings WHERE key = $1', ['dhcp_settings']);
+  return readDhcpSettings(res.rows?.[0]?.value);
+}
+
+export async function loadDhcpReservations(db: Db, settings: DhcpSettings): Promise<DhcpReservation[]> {
+  if (!settings.scopes.length) return [];
+  const res = await db.pool.query('SELECT profile FROM clients ORDER BY updated_at DESC');
+  return readDhcpReservations(res.rows.map((r) => r.profile), settings.scopes);
+}
+
+export async function loadScopeLeases(db: Db, scopeId: string): Promise<StoredLease[]> {
+  const res = await db.pool.query('SELECT ip, mac, expires_at FROM dhcp_leases WHERE scope_id = $1', [scopeId]);
+  return res.rows.map((r) => ({ ip: String(r.ip), mac: String(r.mac), expiresAtMs: new Date(r.expires_at).getTime() }));
+}
+
+export async function listDhcpLeases(db: Db): Promise<DhcpLeaseRow[]> {
+  const res = await db.pool.query(
+    'SELECT ip, mac, hostname, scope_id, expires_at, updated_at FROM dhcp_leases ORDER BY expires_at DESC LIMIT 5000'
+  );
+  return res.rows.map((r) => ({
+    ip: String(r.ip),
+    mac: String(r.mac),
+    hostname: r.hostname ? String(r.hostname) : null,
+    scopeId: String(r.scope_id),
+    expiresAt: new Date(r.expires_at).toISOString(),
+    updatedAt: new Date(r.updated_at).toISOString()
+  }));
+}
+
+/** Records an acknowledged lease; a client holds one lease per scope. */
+export async function saveDhcpLease(
+  db: Db,
+  lease: { ip: string; mac: string; hostname: string | null; scopeId: string; expiresAt: Date }
+): Promise<void> {
+  const client = await db.pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM dhcp_leases WHERE scope_id = $1 AND mac = $2 AND ip <> $3', [lease.scopeId, lease.mac, lease.ip]);
+    await client.query(
+      `INSERT INTO dhcp_leases(ip, mac, hostname, scope_id, expires_at)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (ip) DO UPDATE SET mac = EXCLUDED.mac, hostname = EXCLUDED.hostname, scope_id = EXCLUDED.scope_id,
+         expires_at = EXCLUDED.expires_at, updated_at = NOW()`,
+      [lease.ip, lease.mac, lease.hostname, lease.scopeId, lease.expiresAt]
+    );
+    await client.query(`DELETE FROM dhcp_leases WHERE expires_at < NOW() - INTERVAL '${EXPIRED_LEASE_RETENTION_DAYS} days'`);
+    await client.query('COMMIT');
+  } catch (e) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+/** Ends a lease now (DHCPRELEASE/DECLINE); the row stays so the device gets the address back later. */
+export async function expireDhcpLease(db: Db, ip: string, mac: string): Promise<void> {
+  await db.pool.query(
+    'UPDATE dhcp_leases SET expires_at = NOW(), updated_at = NOW() WHERE ip = $1 AND mac = $2 AND expires_at > NOW()',
+    [ip, mac]
+  );
+}
+
+/**
+ * Host names the DNS server answers for: `<reservation name>.<domain>` for reservations and
+ * `<client host name>.<domain>` for active leases. Reservations win a name; empty while DHCP is off.
+ */
+export async function loadDhcpHostRecords(db: Db): Promise<Array<{ name: string; ip: string }>> {
+  const settings = await loadDhcpSettings(db);
+  if (!settings.enabled || !settings.scopes.length) return [];
+
+  const [reservations, leases] = await Promise.all([
+    loadDhcpReservations(db, settings),
+    db.pool.query('SELECT ip, hostname, scope_id FROM dhcp_leases WHERE hostname IS NOT NULL AND expires_at > NOW() ORDER BY updated_at DESC')
+  ]);
+  const domains = new Map(settings.scopes.map((s) => [s.id, s.domain]));
+
+  const byName = new Map<string, string>();
+  for (const r of reservations) {
+    const domain = domains.get(r.scopeId);
+    if (r.hostname && domain && !byName.has(`${r.hostname}.${domain}`)) byName.set(`${r.hostname}.${domain}`, r.ip);
+  }
+  for (const l of leases.rows) {
+    const domain = domains.get(String(l.scope_id));
+    const name = domain ? `${l.hostname}.${domain}` : '';
+    if (name && !byName.has(name)) byName.set(name, String(l.ip));
+  }
+  return Array.from(byName, ([name, ip]) => ({ name, ip }));
+}
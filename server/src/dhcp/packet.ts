@@ -0,0 +1,161 @@
+import { isIPv4 } from 'node:net';
+
+// RFC 2131 message types (option 53).
+export const DHCP_MESSAGE_TYPES = ['DISCOVER', 'OFFER', 'REQUEST', 'DECLINE', 'ACK', 'NAK', 'RELEASE', 'INFORM'] as const;
+
+export type DhcpMessageType = (typeof DHCP_MESSAGE_TYPES)[number];
+
+export const DHCP_OPTION = {
+  SUBNET_MASK: 1,
+  ROUTER: 3,
+  DNS_SERVERS: 6,
+  HOST_NAME: 12,
+  DOMAIN_NAME: 15,
+  BROADCAST_ADDRESS: 28,
+  REQUESTED_IP: 50,
+  LEASE_TIME: 51,
+  MESSAGE_TYPE: 53,
+  SERVER_ID: 54,
+  RENEWAL_TIME: 58,
+  REBINDING_TIME: 59,
+  CLIENT_ID: 61,
+  END: 255
+} as const;
+
+const MAGIC_COOKIE = 0x63825363;
+const FIXED_HEADER_BYTES = 236;
+// BOOTP relays and some clients drop anything shorter than the original BOOTP message.
+const MIN_PACKET_BYTES = 300;
+export const BROADCAST_FLAG = 0x8000;
+
+export type DhcpPacket = {
+  op: 1 | 2;
+  xid: number;
+  secs: number;
+  flags: number;
+  ciaddr: string;
+  yiaddr: string;
+  siaddr: string;
+  giaddr: string;
+  // 16-byte hardware address field; the MAC is the first `hlen` bytes.
+  chaddr: Buffer;
+  // Normalized `aa:bb:cc:dd:ee:ff` for Ethernet clients, null otherwise.
+  mac: string | null;
+  messageType: DhcpMessageType | null;
+  options: Map<number, Buffer>;
+};
+
+function readIp(buf: Buffer, offset: number): string {
+  return `${buf[offset]}.${buf[offset + 1]}.${buf[offset + 2]}.${buf[offset + 3]}`;
+}
+
+export function ipToBuffer(ip: string): Buffer {
+  const parts = isIPv4(ip) ? ip.split('.').map(Number) : [0, 0, 0, 0];
+  return Buffer.from(parts);
+}
+
+/** Decodes a BOOTP/DHCP message; null for anything that is not a well-formed DHCP packet. */
+export function decodeDhcpPacket(buf: Buffer): DhcpPacket | null {
+  if (buf.length < FIXED_HEADER_BYTES + 4) return null;
+  const op = buf[0];
+  if ((op !== 1 && op !== 2) || buf.readUInt32BE(FIXED_HEADER_BYTES) !== MAGIC_COOKIE) return null;
+
+  const options = new Map<number, Buffer>();
+  let i = FIXED_HEADER_BYTES + 4;
+  while (i < buf.length) {
+    const code = buf[i];
+    if (code === DHCP_OPTION.END) break;
+    if (code === 0) {
+      i += 1;
+      continue;
+    }
+    const len = buf[i + 1];
+    if (len === undefined || i + 2 + len > buf.length) return null;
+    // RFC 3396: repeated options are concatenated.
+    const data = buf.subarray(i + 2, i + 2 + len);
+    options.set(code, options.has(code) ? Buffer.concat([options.get(code)!, data]) : Buffer.from(data));
+    i += 2 + len;
+  }
+
+  const typeCode = options.get(DHCP_OPTION.MESSAGE_TYPE)?.[0];
+  const hlen = buf[2];
+  const chaddr = Buffer.from(buf.subarray(28, 44));
+  const mac =
+    buf[1] === 1 && hlen === 6
+      ? Array.from(chaddr.subarray(0, 6))
+          .map((b) => b.toString(16).padStart(2, '0'))
+          .join(':')
+      : null;
+
+  return {
+    op,
+    xid: buf.readUInt32BE(4),
+    secs: buf.readUInt16BE(8),
+    flags: buf.readUInt16BE(10),
+    ciaddr: readIp(buf, 12),
+    yiaddr: readIp(buf, 16),
+    siaddr: readIp(buf, 20),
+    giaddr: readIp(buf, 24),
+    chaddr,
+    mac,
+    messageType: typeCode ? (DHCP_MESSAGE_TYPES[typeCode - 1] ?? null) : null,
+    options
+  };
+}
+
+/** Encodes a packet; options are written in the given order, followed by END and padding. */
+export function encodeDhcpPacket(packet: Omit<DhcpPacket, 'mac' | 'messageType' | 'options'> & { options: Array<[number, Buffer]> }): Buffer {
+  const header = Buffer.alloc(FIXED_HEADER_BYTES + 4);
+  header[0] = packet.op;
+  header[1] = 1;
+  header[2] = 6;
+  header.writeUInt32BE(packet.xid >>> 0, 4);
+  header.writeUInt16BE(packet.secs, 8);
+  header.writeUInt16BE(packet.flags, 10);
+  ipToBuffer(packet.ciaddr).copy(header, 12);
+  ipToBuffer(packet.yiaddr).copy(header, 16);
+  ipToBuffer(packet.siaddr).copy(header, 20);
+  ipToBuffer(packet.giaddr).copy(header, 24);
+  packet.chaddr.copy(header, 28, 0, 16);
+  header.writeUInt32BE(MAGIC_COOKIE, FIXED_HEADER_BYTES);
+
+  const parts: Buffer[] = [header];
+  for (const [code, data] of packet.options) {
+    // Long values (e.g. many DNS servers) are split over repeated options.
+    for (let off = 0; off < data.length || off === 0; off += 255) {
+      const chunk = data.subarray(off, off + 255);
+      parts.push(Buffer.from([code, chunk.length]), chunk);
+      if (data.length === 0) break;
+    }
+  }
+  parts.push(Buffer.from([DHCP_OPTION.END]));
+
+  const out = Buffer.concat(parts);
+  return out.length >= MIN_PACKET_BYTES ? out : Buffer.concat([out, Buffer.alloc(MIN_PACKET_BYTES - out.length)]);
+}
+
+export function readOptionIp(packet: DhcpPacket, code: number): string | null {
+  const data = packet.options.get(code);
+  return data && data.length >= 4 ? readIp(data, 0) : null;
+}
+
+export function readOptionString(packet: DhcpPacket, code: number): string | null {
+  const data = packet.options.get(code);
+  if (!data || !data.length) return null;
+  const text = data.toString('latin1').replace(/\0+$/, '').trim();
+  return text || null;
+}
+
+export function messageTypeOption(type: DhcpMessageType): [number, Buffer] {
+  return [DHCP_OPTION.MESSAGE_TYPE, Buffer.from([DHCP_MESSAGE_TYPES.indexOf(type) + 1])];
+}
+
+export function uint32Option(code: number, value: number): [number, Buffer] {
+  const data = Buffer.alloc(4);
+  data.writeUInt32BE(value >>> 0, 0);
+  return [code, data];
+}
+
+export function ipListOption(code: number, ips: string[]): [number, Buffer] {
+  return [code, Buffer.concat(ips.map(ipToBuffer))];
+}
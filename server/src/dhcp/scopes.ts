@@ -0,0 +1,229 @@
+import crypto from 'node:crypto';
+import { isIPv4 } from 'node:net';
+import ipaddr from 'ipaddr.js';
+
+import { normalizeMac } from '../dns/clientIdentity.js';
+
+export type DhcpScope = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // IPv4 network in CIDR form, e.g. `192.168.1.0/24`.
+  subnet: string;
+  rangeStart: string;
+  rangeEnd: string;
+  router?: string;
+  // Handed out as option 6; empty means this server's own address.
+  dnsServers: string[];
+  // Search domain (option 15) and zone for lease hostnames, e.g. `lan` → `laptop.lan`.
+  domain: string;
+  leaseTimeSec: number;
+  // Address of this server in the scope (option 54). Detected from the interfaces when empty.
+  serverIp?: string;
+};
+
+export type DhcpSettings = {
+  enabled: boolean;
+  scopes: DhcpScope[];
+};
+
+/** Fixed address for a client profile that has both a MAC and an IP inside a scope. */
+export type DhcpReservation = {
+  scopeId: string;
+  ip: string;
+  mac: string;
+  hostname: string | null;
+  profileId: string;
+  profileName: string;
+};
+
+export const DEFAULT_DHCP_SETTINGS: DhcpSettings = { enabled: false, scopes: [] };
+export const DEFAULT_DHCP_LEASE_TIME_SEC = 86_400;
+export const DEFAULT_DHCP_DOMAIN = 'lan';
+export const MAX_DHCP_SCOPES = 8;
+const MIN_LEASE_TIME_SEC = 300;
+const MAX_LEASE_TIME_SEC = 30 * 86_400;
+const MAX_DNS_SERVERS = 4;
+
+export function ipv4ToInt(ip: string): number {
+  return ip.split('.').reduce((acc, octet) => acc * 256 + Number(octet), 0);
+}
+
+export function intToIpv4(n: number): string {
+  return [n >>> 24, (n >>> 16) & 255, (n >>> 8) & 255, n & 255].join('.');
+}
+
+/** Network, broadcast and mask of an IPv4 CIDR (/8../30); null otherwise. */
+export function parseSubnet(cidr: string): { network: number; broadcast: number; prefix: number; mask: string } | null {
+  try {
+    const [addr, prefix] = ipaddr.parseCIDR(String(cidr ?? '').trim());
+    if (addr.kind() !== 'ipv4' || prefix < 8 || prefix > 30) return null;
+    const size = 2 ** (32 - prefix);
+    const network = Math.floor(ipv4ToInt(addr.toString()) / size) * size;
+    return { network, broadcast: network + size - 1, prefix, mask: intToIpv4(2 ** 32 - size) };
+  } catch {
+    return null;
+  }
+}
+
+/** True for host addresses of the subnet (network and broadcast excluded). */
+export function subnetContains(subnet: string, ip: string): boolean {
+  const s = parseSubnet(subnet);
+  if (!s || !isIPv4(ip)) return false;
+  const n = ipv4ToInt(ip);
+  return n > s.network && n < s.broadcast;
+}
+
+/** A DNS label from a profile name or client-sent host name (`Kids iPad` → `kids-ipad`); null when nothing is left. */
+export function hostnameLabel(value: unknown): string | null {
+  const label = String(value ?? '')
+    .trim()
+    .split('.')[0]
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 63)
+    .replace(/-$/, '');
+  return label || null;
+}
+
+function normalizeDomain(value: unknown): string | null {
+  const raw = String(value ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/^\.+|\.+$/g, '');
+  if (!raw) return DEFAULT_DHCP_DOMAIN;
+  return raw.length <= 253 && /^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(raw) ? raw : null;
+}
+
+export function buildDhcpScope(id: string, body: any): DhcpScope | { error: string } {
+  const v = body && typeof body === 'object' ? body : {};
+  const subnetInfo = parseSubnet(v.subnet);
+  if (!subnetInfo) return { error: 'INVALID_SUBNET' };
+  const subnet = `${intToIpv4(subnetInfo.network)}/${subnetInfo.prefix}`;
+
+  const rangeStart = String(v.rangeStart ?? '').trim();
+  const rangeEnd = String(v.rangeEnd ?? '').trim();
+  if (!subnetContains(subnet, rangeStart) || !subnetContains(subnet, rangeEnd) || ipv4ToInt(rangeStart) > ipv4ToInt(rangeEnd)) {
+    return { error: 'INVALID_RANGE' };
+  }
+
+  const router = String(v.router ?? '').trim();
+  if (router && !subnetContains(subnet, router)) return { error: 'INVALID_ROUTER' };
+
+  const serverIp = String(v.serverIp ?? '').trim();
+  if (serverIp && !subnetContains(subnet, serverIp)) return { error: 'INVALID_SERVER_IP' };
+
+  const dnsServers = Array.isArray(v.dnsServers) ? v.dnsServers.map((x: unknown) => String(x ?? '').trim()).filter(Boolean) : [];
+  if (dnsServers.length > MAX_DNS_SERVERS || dnsServers.some((ip: string) => !isIPv4(ip))) return { error: 'INVALID_DNS_SERVERS' };
+
+  const domain = normalizeDomain(v.domain);
+  if (!domain) return { error: 'INVALID_DOMAIN' };
+
+  const leaseRaw = Number(v.leaseTimeSec);
+  const leaseTimeSec = Number.isFinite(leaseRaw)
+    ? Math.max(MIN_LEASE_TIME_SEC, Math.min(MAX_LEASE_TIME_SEC, Math.floor(leaseRaw)))
+    : DEFAULT_DHCP_LEASE_TIME_SEC;
+
+  const name = typeof v.name === 'string' && v.name.trim() ? v.name.trim().slice(0, 100) : subnet;
+
+  return {
+    id,
+    name,
+    enabled: v.enabled !== false,
+    subnet,
+    rangeStart,
+    rangeEnd,
+    ...(router ? { router } : {}),
+    dnsServers,
+    domain,
+    leaseTimeSec,
+    ...(serverIp ? { serverIp } : {})
+  };
+}
+
+function scopesOverlap(a: DhcpScope, b: DhcpScope): boolean {
+  const x = parseSubnet(a.subnet)!;
+  const y = parseSubnet(b.subnet)!;
+  return x.network <= y.broadcast && y.network <= x.broadcast;
+}
+
+/** Validates a settings update from the API. */
+export function parseDhcpSettings(input: any): DhcpSettings | { error: string; message: string } {
+  const v = input && typeof input === 'object' ? input : {};
+  const rawScopes = Array.isArray(v.scopes) ? v.scopes : [];
+  if (rawScopes.length > MAX_DHCP_SCOPES) {
+    return { error: 'TOO_MANY_SCOPES', message: `At most ${MAX_DHCP_SCOPES} scopes are supported.` };
+  }
+
+  const scopes: DhcpScope[] = [];
+  for (const raw of rawScopes) {
+    const id = typeof raw?.id === 'string' && raw.id.trim() ? raw.id.trim().slice(0, 128) : crypto.randomUUID();
+    const scope = buildDhcpScope(id, raw);
+    if ('error' in scope) {
+      return { error: scope.error, message: `Scope "${String(raw?.name || raw?.subnet || id)}" is invalid (${scope.error}).` };
+    }
+    const overlapping = scopes.find((s) => scopesOverlap(s, scope));
+    if (overlapping) {
+      return { error: 'SCOPE_OVERLAP', message: `${scope.subnet} overlaps ${overlapping.subnet}.` };
+    }
+    scopes.push(scope);
+  }
+
+  return { enabled: v.enabled === true, scopes };
+}
+
+/** Reads stored settings, dropping scopes that no longer validate. */
+export function readDhcpSettings(value: any): DhcpSettings {
+  const v = value && typeof value === 'object' ? value : {};
+  const scopes: DhcpScope[] = [];
+  for (const raw of Array.isArray(v.scopes) ? v.scopes : []) {
+    const id = typeof raw?.id === 'string' ? raw.id.trim() : '';
+    const scope = id ? buildDhcpScope(id, raw) : null;
+    if (scope && !('error' in scope)) scopes.push(scope);
+  }
+  return { enabled: v.enabled === true, scopes: scopes.slice(0, MAX_DHCP_SCOPES) };
+}
+
+/**
+ * Reservations from device profiles with a MAC and an IP inside a scope. Profiles are expected
+ * most recently updated first; the first profile wins a MAC or an address.
+ */
+export function readDhcpReservations(profiles: any[], scopes: DhcpScope[]): DhcpReservation[] {
+  const out: DhcpReservation[] = [];
+  const usedMacs = new Set<string>();
+  const usedIps = new Set<string>();
+  for (const p of profiles) {
+    if (!p || typeof p !== 'object' || p.type === 'subnet') continue;
+    const mac = normalizeMac(p.mac);
+    const ip = typeof p.ip === 'string' ? p.ip.trim() : '';
+    const scope = mac && ip ? scopes.find((s) => subnetContains(s.subnet, ip)) : undefined;
+    if (!mac || !scope || usedMacs.has(mac) || usedIps.has(ip)) continue;
+    usedMacs.add(mac);
+    usedIps.add(ip);
+    out.push({
+      scopeId: scope.id,
+      ip,
+      mac,
+      hostname: hostnameLabel(p.name),
+      profileId: String(p.id ?? ''),
+      profileName: String(p.name ?? '')
+    });
+  }
+  return out;
+}
+
+/**
+ * Scope for a request: the one containing the relay address (`giaddr`) for relayed requests,
+ * otherwise the one containing an address of this host.
+ */
+export function selectDhcpScope(scopes: DhcpScope[], giaddr: string, localAddresses: string[]): DhcpScope | null {
+  const enabled = scopes.filter((s) => s.enabled);
+  if (giaddr && giaddr !== '0.0.0.0') return enabled.find((s) => subnetContains(s.subnet, giaddr)) ?? null;
+  return (
+    enabled.find((s) => (s.serverIp ? localAddresses.includes(s.serverIp) : localAddresses.some((a) => subnetContains(s.subnet, a)))) ??
+    // Behind NAT/bridges the host address may not be visible; a single scope is unambiguous.
+    (enabled.length === 1 ? enabled[0] : null)
+  );
+}
@@ -0,0 +1,199 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { isIP } from 'node:net';
+
+import type { AppConfig } from '../config.js';
+import { normalizeMac } from '../dns/clientIdentity.js';
+
+// dnsmasq (also OpenWrt `/tmp/dhcp.leases`), ISC dhcpd, Kea memfile CSV, and JSON exports of
+// OpenWrt (`luci-rpc getDHCPLeases`) / OPNsense (`/api/dhcpv4/leases/searchLease`).
+export const LEASE_FILE_FORMATS = ['auto', 'dnsmasq', 'isc', 'kea', 'openwrt', 'opnsense'] as const;
+
+export type LeaseFileFormat = (typeof LEASE_FILE_FORMATS)[number];
+
+export type LeaseEntry = {
+  ip: string;
+  mac?: string;
+  hostname?: string;
+  // ISO time; null for infinite/static leases.
+  expiresAt?: string | null;
+};
+
+export type LeaseFileSource = { path: string; format: LeaseFileFormat };
+
+export type LeaseFileStatus = {
+  path: string;
+  format: LeaseFileFormat;
+  // Format actually used (differs from `format` when it is `auto`).
+  detected?: Exclude<LeaseFileFormat, 'auto'>;
+  entries: number;
+  error?: string;
+};
+
+// Lease databases of a home network are tiny; anything bigger is probably the wrong file.
+const MAX_LEASE_FILE_BYTES = 5 * 1024 * 1024;
+
+export function isLeaseFileFormat(value: unknown): value is LeaseFileFormat {
+  return typeof value === 'string' && (LEASE_FILE_FORMATS as readonly string[]).includes(value);
+}
+
+/** Lease files are read from `DATA_DIR/leases` only (mount router lease files there read-only). */
+export function resolveLeasesDir(config: AppConfig): string {
+  return path.join(config.DATA_DIR || '/data', 'leases');
+}
+
+/** Resolves a configured lease file name inside the leases dir; null when it would escape it. */
+export function resolveLeaseFilePath(config: AppConfig, name: string): string | null {
+  const dir = resolveLeasesDir(config);
+  const full = path.resolve(dir, String(name ?? '').trim());
+  return full.startsWith(dir + path.sep) ? full : null;
+}
+
+function cleanHostname(value: unknown): string | undefined {
+  const name = String(value ?? '')
+    .trim()
+    .replace(/^"|"$/g, '')
+    .replace(/\.$/, '');
+  return name && name !== '*' ? name : undefined;
+}
+
+function entry(ip: unknown, mac: unknown, hostname: unknown, expiresAt?: string | null): LeaseEntry | null {
+  const addr = String(ip ?? '').trim();
+  if (!isIP(addr)) return null;
+  const normalizedMac = normalizeMac(mac);
+  const name = cleanHostname(hostname);
+  return {
+    ip: addr,
+    ...(normalizedMac ? { mac: normalizedMac } : {}),
+    ...(name ? { hostname: name } : {}),
+    ...(expiresAt !== undefined ? { expiresAt } : {})
+  };
+}
+
+function epochToIso(value: unknown): string | null {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? new Date(n * 1000).toISOString() : null;
+}
+
+/** `<expiry epoch> <mac> <ip> <hostname|*> <client-id|*>` per line; IPv6 lines carry no MAC. */
+export function parseDnsmasqLeases(text: string): LeaseEntry[] {
+  const out: LeaseEntry[] = [];
+  for (const line of text.split('\n')) {
+    const [expiry, mac, ip, hostname] = line.trim().split(/\s+/);
+    if (!ip || line.startsWith('duid ')) continue;
+    const e = entry(ip, mac, hostname, epochToIso(expiry));
+    if (e) out.push(e);
+  }
+  return out;
+}
+
+/** ISC dhcpd `lease <ip> { ... }` blocks; the last block per IP wins and non-active leases are skipped. */
+export function parseIscLeases(text: string): LeaseEntry[] {
+  const byIp = new Map<string, LeaseEntry>();
+  for (const block of text.matchAll(/lease\s+(\S+)\s*\{([^}]*)\}/g)) {
+    const body = block[2];
+    const state = body.match(/^\s*binding state (\w+);/m)?.[1];
+    if (state && state !== 'active') {
+      byIp.delete(block[1]);
+      continue;
+    }
+    const ends = body.match(/ends \d+ (\d{4})\/(\d{2})\/(\d{2}) (\d{2}:\d{2}:\d{2});/);
+    const e = entry(
+      block[1],
+      body.match(/hardware ethernet ([0-9a-f:]+);/i)?.[1],
+      body.match(/client-hostname "([^"]*)";/)?.[1],
+      ends ? new Date(`${ends[1]}-${ends[2]}-${ends[3]}T${ends[4]}Z`).toISOString() : null
+    );
+    if (e) byIp.set(e.ip, e);
+  }
+  return Array.from(byIp.values());
+}
+
+/** Kea memfile CSV (`address,hwaddr,...,expire,...,hostname,state`); state 0 is a valid lease. */
+export function parseKeaLeases(text: string): LeaseEntry[] {
+  const lines = text.split('\n').filter((l) => l.trim());
+  const header = (lines.shift() ?? '').split(',');
+  const col = (name: string) => header.indexOf(name);
+  const [ipCol, macCol, expireCol, hostCol, stateCol] = ['address', 'hwaddr', 'expire', 'hostname', 'state'].map(col);
+  if (ipCol < 0) return [];
+
+  const byIp = new Map<string, LeaseEntry>();
+  for (const line of lines) {
+    const cells = line.split(',');
+    if (stateCol >= 0 && cells[stateCol] && cells[stateCol] !== '0') continue;
+    const e = entry(cells[ipCol], cells[macCol], cells[hostCol], epochToIso(cells[expireCol]));
+    if (e) byIp.set(e.ip, e);
+  }
+  return Array.from(byIp.values());
+}
+
+/** OpenWrt `{ dhcp_leases: [{ ipaddr, macaddr, hostname, expires }] }` (expires = seconds left, -1 = static). */
+export function parseOpenWrtLeases(json: any, nowMs: number): LeaseEntry[] {
+  const rows = [...(Array.isArray(json?.dhcp_leases) ? json.dhcp_leases : []), ...(Array.isArray(json?.dhcp6_leases) ? json.dhcp6_leases : [])];
+  const out: LeaseEntry[] = [];
+  for (const r of rows) {
+    const expires = Number(r?.expires);
+    const expiresAt = Number.isFinite(expires) && expires > 0 ? new Date(nowMs + expires * 1000).toISOString() : null;
+    const e = entry(r?.ipaddr ?? (Array.isArray(r?.ip6addrs) ? String(r.ip6addrs[0] ?? '').split('/')[0] : ''), r?.macaddr, r?.hostname, expiresAt);
+    if (e) out.push(e);
+  }
+  return out;
+}
+
+/** OPNsense `{ rows: [{ address, mac, hostname, ends, state }] }`; expired leases are skipped. */
+export function parseOpnsenseLeases(json: any): LeaseEntry[] {
+  const rows = Array.isArray(json?.rows) ? json.rows : Array.isArray(json) ? json : [];
+  const out: LeaseEntry[] = [];
+  for (const r of rows) {
+    if (typeof r?.state === 'string' && r.state !== 'active') continue;
+    const ends = typeof r?.ends === 'string' && r.ends ? new Date(r.ends.replace(' ', 'T') + 'Z') : null;
+    const e = entry(r?.address, r?.mac, r?.hostname, ends && !Number.isNaN(ends.getTime()) ? ends.toISOString() : null);
+    if (e) out.push(e);
+  }
+  return out;
+}
+
+export function detectLeaseFormat(text: string): Exclude<LeaseFileFormat, 'auto'> {
+  const head = text.trimStart();
+  if (head.startsWith('{') || head.startsWith('[')) return head.includes('dhcp_leases') ? 'openwrt' : 'opnsense';
+  if (/^address,hwaddr/m.test(head)) return 'kea';
+  if (/lease\s+\S+\s*\{/.test(head)) return 'isc';
+  return 'dnsmasq';
+}
+
+export function parseLeaseFile(text: string, format: LeaseFileFormat, nowMs: number): { format: Exclude<LeaseFileFormat, 'auto'>; entries: LeaseEntry[] } {
+  const used = format === 'auto' ? detectLeaseFormat(text) : format;
+  if (used === 'openwrt' || used === 'opnsense') {
+    const json = JSON.parse(text);
+    return { format: used, entries: used === 'openwrt' ? parseOpenWrtLeases(json, nowMs) : parseOpnsenseLeases(json) };
+  }
+  const entries = used === 'isc' ? parseIscLeases(text) : used === 'kea' ? parseKeaLeases(text) : parseDnsmasqLeases(text);
+  return { format: used, entries };
+}
+
+/** Reads every configured lease file. Unreadable or malformed files are reported, never thrown. */
+export async function readLeaseFiles(
+  config: AppConfig,
+  sources: LeaseFileSource[],
+  nowMs: number
+): Promise<{ entries: LeaseEntry[]; status: LeaseFileStatus[] }> {
+  const entries: LeaseEntry[] = [];
+  const status: LeaseFileStatus[] = [];
+  for (const source of sources) {
+    const file = resolveLeaseFilePath(config, source.path);
+    if (!file) {
+      status.push({ ...source, entries: 0, error: 'Path must stay inside the leases directory.' });
+      continue;
+    }
+    try {
+      const stat = await fs.promises.stat(file);
+      if (stat.size > MAX_LEASE_FILE_BYTES) throw new Error('File is larger than 5 MiB.');
+      const parsed = parseLeaseFile(await fs.promises.readFile(file, 'utf8'), source.format, nowMs);
+      entries.push(...parsed.entries);
+      status.push({ ...source, detected: parsed.format, entries: parsed.entries.length });
+    } catch (e) {
+      status.push({ ...source, entries: 0, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return { entries, status };
+}
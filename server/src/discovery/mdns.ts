@@ -0,0 +1,118 @@
+import dgram from 'node:dgram';
+import dnsPacket from 'dns-packet';
+
+import type { AppConfig } from '../config.js';
+import type { Db } from '../db.js';
+
+const MDNS_GROUP = '224.0.0.251';
+const MDNS_PORT = 5353;
+const MDNS_HOSTS_MAX = 4096;
+// Settings are re-read at this interval so toggling mDNS in the UI needs no restart.
+const SETTINGS_POLL_MS = 60_000;
+
+export type MdnsHost = { ip: string; hostname: string; lastSeen: string };
+
+// ip → most recent `.local` name announced for it. Map order doubles as recency for eviction.
+const mdnsHosts = new Map<string, MdnsHost>();
+
+/** Host names (`<name>.local` A/AAAA records) announced in an mDNS response. */
+export function parseMdnsHosts(msg: Buffer): Array<{ ip: string; hostname: string }> {
+  let packet: any;
+  try {
+    packet = dnsPacket.decode(msg);
+  } catch {
+    return [];
+  }
+  if (packet?.type !== 'response') return [];
+
+  const out: Array<{ ip: string; hostname: string }> = [];
+  for (const r of [...(packet.answers ?? []), ...(packet.additionals ?? [])]) {
+    if (r?.type !== 'A' && r?.type !== 'AAAA') continue;
+    const name = String(r.name ?? '').toLowerCase().replace(/\.$/, '');
+    if (!name.endsWith('.local') || typeof r.data !== 'string') continue;
+    const hostname = name.slice(0, -'.local'.length);
+    if (hostname) out.push({ ip: r.data, hostname });
+  }
+  return out;
+}
+
+export function rememberMdnsHosts(hosts: Array<{ ip: string; hostname: string }>, nowMs: number): void {
+  const lastSeen = new Date(nowMs).toISOString();
+  for (const h of hosts) {
+    mdnsHosts.delete(h.ip);
+    mdnsHosts.set(h.ip, { ...h, lastSeen });
+  }
+  while (mdnsHosts.size > MDNS_HOSTS_MAX) {
+    const oldest = mdnsHosts.keys().next().value;
+    if (oldest === undefined) break;
+    mdnsHosts.delete(oldest);
+  }
+}
+
+export function getMdnsHosts(): MdnsHost[] {
+  return Array.from(mdnsHosts.values());
+}
+
+async function isMdnsEnabled(db: Db): Promise<boolean> {
+  const res = await db.pool.query('SELECT value FROM settings WHERE key = $1', ['discovery_settings']);
+  return res.rows?.[0]?.value?.mdns?.enabled === true;
+}
+
+/**
+ * Passively listens for mDNS announcements on the LAN while enabled in the discovery settings.
+ * Needs host networking (multicast does not cross the Docker bridge).
+ */
+export function startMdnsListener(config: AppConfig, db: Db): { close: () => Promise<void> } {
+  // Avoid background sockets/timers in unit/integration tests.
+  if (config.NODE_ENV === 'test') {
+    return { close: async () => undefined };
+  }
+
+  let socket: dgram.Socket | null = null;
+
+  const stop = () => {
+    try {
+      socket?.close();
+    } catch {
+      // ignore
+    }
+    socket = null;
+  };
+
+  const start = () => {
+    const s = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+    s.on('message', (msg) => rememberMdnsHosts(parseMdnsHosts(msg), Date.now()));
+    s.on('error', (e) => {
+      console.warn(`[discovery] mDNS listener stopped: ${e.message}`);
+      if (socket === s) stop();
+    });
+    s.bind(MDNS_PORT, () => {
+      try {
+        s.addMembership(MDNS_GROUP);
+      } catch (e) {
+        s.emit('error', e instanceof Error ? e : new Error(String(e)));
+      }
+    });
+    socket = s;
+  };
+
+  const sync = async () => {
+    try {
+      const enabled = await isMdnsEnabled(db);
+      if (enabled && !socket) start();
+      if (!enabled && socket) stop();
+    } catch {
+      // DB hiccup: keep the current state.
+    }
+  };
+
+  void sync();
+  const timer = setInterval(() => void sync(), SETTINGS_POLL_MS);
+
+  return {
+    close: async () => {
+      clearInterval(timer);
+      stop();
+    }
+  };
+}
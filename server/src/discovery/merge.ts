@@ -0,0 +1,95 @@
+import type { LeaseEntry } from './leases.js';
+import type { MdnsHost } from './mdns.js';
+
+export type DiscoverySourceKind = 'observed' | 'lease' | 'mdns' | 'netbios' | 'reverse-dns' | 'arp';
+
+export type DiscoveredClient = {
+  ip: string;
+  lastSeen: string | null;
+  hostname: string | null;
+  mac?: string;
+  vendor?: string;
+  // Every source that contributed, in the order they were merged.
+  sources: DiscoverySourceKind[];
+  // Source of the hostname: `observed` when nothing named it (`reverse-dns` once a PTR lookup ran).
+  source: DiscoverySourceKind;
+  // Existing client profile matching the MAC or IP.
+  profileId?: string;
+  profileName?: string;
+};
+
+type ProfileRef = { id: string; name: string; ip?: string; mac?: string };
+
+function laterOf(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+/**
+ * Merges IPs seen in the query log with lease files, mDNS announcements and the neighbor table,
+ * keyed by IP. Lease hostnames win over mDNS names; the order is most recently seen first.
+ */
+export function mergeDiscoveredClients(input: {
+  observed: Array<{ ip: string; lastSeen: string | null }>;
+  leases: LeaseEntry[];
+  mdns: MdnsHost[];
+  neighbors: Map<string, string>;
+}): DiscoveredClient[] {
+  const byIp = new Map<string, DiscoveredClient>();
+  const get = (ip: string, source: DiscoverySourceKind): DiscoveredClient => {
+    let c = byIp.get(ip);
+    if (!c) {
+      c = { ip, lastSeen: null, hostname: null, sources: [], source: 'observed' };
+      byIp.set(ip, c);
+    }
+    if (!c.sources.includes(source)) c.sources.push(source);
+    return c;
+  };
+
+  for (const o of input.observed) {
+    get(o.ip, 'observed').lastSeen = o.lastSeen;
+  }
+  for (const l of input.leases) {
+    const c = get(l.ip, 'lease');
+    if (l.mac) c.mac = l.mac;
+    if (l.hostname) {
+      c.hostname = l.hostname;
+      c.source = 'lease';
+    }
+  }
+  for (const m of input.mdns) {
+    const c = get(m.ip, 'mdns');
+    c.lastSeen = laterOf(c.lastSeen, m.lastSeen);
+    if (!c.hostname) {
+      c.hostname = m.hostname;
+      c.source = 'mdns';
+    }
+  }
+  for (const c of byIp.values()) {
+    const mac = input.neighbors.get(c.ip);
+    if (!c.mac && mac) {
+      c.mac = mac;
+      c.sources.push('arp');
+    }
+  }
+
+  return Array.from(byIp.values()).sort((a, b) => (b.lastSeen ?? '').localeCompare(a.lastSeen ?? '') || a.ip.localeCompare(b.ip));
+}
+
+/** Marks discovered clients that already belong to a profile (matched by MAC, then IP). */
+export function attachProfiles(clients: DiscoveredClient[], profiles: ProfileRef[]): void {
+  const byMac = new Map<string, ProfileRef>();
+  const byIp = new Map<string, ProfileRef>();
+  for (const p of profiles) {
+    if (p.mac && !byMac.has(p.mac)) byMac.set(p.mac, p);
+    if (p.ip && !byIp.has(p.ip)) byIp.set(p.ip, p);
+  }
+  for (const c of clients) {
+    const p = (c.mac ? byMac.get(c.mac) : undefined) ?? byIp.get(c.ip);
+    if (p) {
+      c.profileId = p.id;
+      c.profileName = p.name;
+    }
+  }
+}
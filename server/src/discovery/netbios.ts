@@ -0,0 +1,101 @@
+import crypto from 'node:crypto';
+import dgram from 'node:dgram';
+import { isIPv4 } from 'node:net';
+
+const NETBIOS_PORT = 137;
+// NBSTAT (node status) query type, RFC 1002 §4.2.17.
+const NBSTAT_TYPE = 0x21;
+const NAME_ENTRY_BYTES = 18;
+const NETBIOS_CACHE_MAX = 4096;
+
+type CacheEntry = { name: string | null; expiresAt: number };
+const NETBIOS_CACHE = new Map<string, CacheEntry>();
+
+/** Node status query for the wildcard name `*` (first-level encoded: `CK` + 15 × `AA`). */
+export function buildNbstatQuery(id: number): Buffer {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(id & 0xffff, 0);
+  header.writeUInt16BE(1, 4);
+  const name = Buffer.from(`\x20CK${'A'.repeat(30)}\x00`, 'latin1');
+  const question = Buffer.alloc(4);
+  question.writeUInt16BE(NBSTAT_TYPE, 0);
+  question.writeUInt16BE(1, 2);
+  return Buffer.concat([header, name, question]);
+}
+
+function skipName(buf: Buffer, offset: number): number {
+  let i = offset;
+  while (i < buf.length) {
+    const len = buf[i];
+    if (len === 0) return i + 1;
+    if ((len & 0xc0) === 0xc0) return i + 2;
+    i += len + 1;
+  }
+  return -1;
+}
+
+/**
+ * Returns the workstation name (suffix 0x00, unique) from a node status response, e.g.
+ * `DESKTOP-1A2B3C`; null when the response has none.
+ */
+export function parseNbstatResponse(buf: Buffer): string | null {
+  if (buf.length < 12 || buf.readUInt16BE(6) < 1) return null;
+  // Answer RR: name, type, class, ttl, rdlength, then the name table.
+  const nameEnd = skipName(buf, 12);
+  if (nameEnd < 0 || nameEnd + 10 >= buf.length) return null;
+  if (buf.readUInt16BE(nameEnd) !== NBSTAT_TYPE) return null;
+
+  const count = buf[nameEnd + 10];
+  let offset = nameEnd + 11;
+  for (let n = 0; n < count && offset + NAME_ENTRY_BYTES <= buf.length; n += 1, offset += NAME_ENTRY_BYTES) {
+    const suffix = buf[offset + 15];
+    const isGroup = (buf.readUInt16BE(offset + 16) & 0x8000) !== 0;
+    if (suffix !== 0x00 || isGroup) continue;
+    const name = buf.toString('latin1', offset, offset + 15).trim();
+    if (name) return name;
+  }
+  return null;
+}
+
+function queryNetbiosName(ip: string, timeoutMs: number): Promise<string | null> {
+  return new Promise((resolve) => {
+    const socket = dgram.createSocket('udp4');
+    const id = crypto.randomInt(0, 65536);
+    let done = false;
+    const finish = (name: string | null) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      socket.close();
+      resolve(name);
+    };
+    const timer = setTimeout(() => finish(null), timeoutMs);
+    socket.on('error', () => finish(null));
+    socket.on('message', (msg, rinfo) => {
+      if (rinfo.address !== ip || msg.length < 2 || msg.readUInt16BE(0) !== id) return;
+      finish(parseNbstatResponse(msg));
+    });
+    socket.send(buildNbstatQuery(id), NETBIOS_PORT, ip, (err) => {
+      if (err) finish(null);
+    });
+  });
+}
+
+/** NetBIOS name of an IPv4 host (Windows PCs, Samba/NAS boxes); cached like reverse DNS lookups. */
+export async function lookupNetbiosName(ip: string, timeoutMs: number): Promise<string | null> {
+  if (!isIPv4(ip)) return null;
+  const now = Date.now();
+  const hit = NETBIOS_CACHE.get(ip);
+  if (hit && hit.expiresAt > now) return hit.name;
+
+  const name = await queryNetbiosName(ip, Math.max(50, Math.min(2000, Math.floor(timeoutMs))));
+  if (NETBIOS_CACHE.size >= NETBIOS_CACHE_MAX) {
+    for (const [k, v] of NETBIOS_CACHE) {
+      if (v.expiresAt <= now) NETBIOS_CACHE.delete(k);
+    }
+    if (NETBIOS_CACHE.size >= NETBIOS_CACHE_MAX) NETBIOS_CACHE.clear();
+  }
+  // Positives longer than negatives.
+  NETBIOS_CACHE.set(ip, { name, expiresAt: now + (name ? 10 * 60_000 : 60_000) });
+  return name;
+}
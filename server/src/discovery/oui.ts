@@ -0,0 +1,54 @@
+import fs from 'node:fs';
+
+import type { AppConfig } from '../config.js';
+
+// Shown for MACs with the locally administered bit set (iOS/Android/Windows private addresses).
+export const RANDOMIZED_MAC_VENDOR = 'Randomized (private address)';
+
+type OuiCache = { file: string; mtimeMs: number; vendors: Map<string, string> };
+
+let ouiCache: OuiCache | null = null;
+
+export function resolveOuiDbPath(config: AppConfig): string {
+  return String(config.OUI_DB_PATH || '').trim();
+}
+
+/**
+ * Parses the IEEE `oui.txt` (`00-00-0C   (hex)\t\tCisco Systems, Inc`) or Wireshark `manuf`
+ * (`00:00:0C\tCisco\tCisco Systems, Inc`) format into 24-bit prefix → vendor. Longer manuf
+ * prefixes (`/28`, `/36`) are skipped.
+ */
+export function parseOuiDatabase(text: string): Map<string, string> {
+  const vendors = new Map<string, string>();
+  for (const line of text.split('\n')) {
+    const ieee = line.match(/^([0-9A-F]{2})-([0-9A-F]{2})-([0-9A-F]{2})\s+\(hex\)\s+(.+)$/i);
+    if (ieee) {
+      vendors.set(`${ieee[1]}${ieee[2]}${ieee[3]}`.toLowerCase(), ieee[4].trim());
+      continue;
+    }
+    const manuf = line.match(/^([0-9A-F]{2}):([0-9A-F]{2}):([0-9A-F]{2})\t([^\t]+)(?:\t(.+))?$/i);
+    if (manuf) vendors.set(`${manuf[1]}${manuf[2]}${manuf[3]}`.toLowerCase(), (manuf[5] ?? manuf[4]).trim());
+  }
+  return vendors;
+}
+
+/** Vendor for a normalized MAC (`aa:bb:cc:dd:ee:ff`); undefined when unknown. */
+export function lookupVendor(vendors: Map<string, string>, mac: string): string | undefined {
+  const first = parseInt(mac.slice(0, 2), 16);
+  if (Number.isFinite(first) && (first & 0x02) !== 0) return RANDOMIZED_MAC_VENDOR;
+  return vendors.get(mac.replace(/:/g, '').slice(0, 6));
+}
+
+/** Loads the OUI database, re-reading it only when the file changes. A missing file yields no vendors. */
+export async function loadOuiDatabase(file: string): Promise<Map<string, string>> {
+  if (!file) return new Map();
+  try {
+    const stat = await fs.promises.stat(file);
+    if (ouiCache && ouiCache.file === file && ouiCache.mtimeMs === stat.mtimeMs) return ouiCache.vendors;
+    const vendors = parseOuiDatabase(await fs.promises.readFile(file, 'utf8'));
+    ouiCache = { file, mtimeMs: stat.mtimeMs, vendors };
+    return vendors;
+  } catch {
+    return new Map();
+  }
+}
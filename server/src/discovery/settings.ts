@@ -0,0 +1,53 @@
+import type { Db } from '../db.js';
+import { isLeaseFileFormat, type LeaseFileSource } from './leases.js';
+
+export type DiscoverySettings = {
+  reverseDns: {
+    enabled: boolean;
+    /** Optional DNS server IP (e.g. OPNsense/Unbound IP). If empty, system resolver is used. */
+    resolver?: string;
+    timeoutMs?: number;
+  };
+  /** Lease files (relative to DATA_DIR/leases) merged into discovered clients. */
+  leaseFiles: LeaseFileSource[];
+  /** Passive listener for `.local` names announced on the LAN (host networking only). */
+  mdns: { enabled: boolean };
+  /** NetBIOS node status lookups for IPv4 clients without a hostname. */
+  netbios: { enabled: boolean; timeoutMs?: number };
+};
+
+const MAX_LEASE_FILES = 10;
+
+function clampTimeoutMs(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.max(50, Math.min(2000, Math.floor(n))) : fallback;
+}
+
+export function normalizeDiscoverySettings(input: any): DiscoverySettings {
+  const v = input && typeof input === 'object' ? input : {};
+  const rd = v.reverseDns && typeof v.reverseDns === 'object' ? v.reverseDns : {};
+
+  const enabled = rd.enabled === true;
+  const resolver = typeof rd.resolver === 'string' ? rd.resolver.trim() : '';
+  const timeoutMs = clampTimeoutMs(rd.timeoutMs, 250);
+
+  const leaseFiles = (Array.isArray(v.leaseFiles) ? v.leaseFiles : [])
+    .map((f: any) => ({
+      path: typeof f?.path === 'string' ? f.path.trim() : '',
+      format: isLeaseFileFormat(f?.format) ? f.format : 'auto'
+    }))
+    .filter((f: LeaseFileSource) => f.path && f.path.length <= 255)
+    .slice(0, MAX_LEASE_FILES);
+
+  return {
+    reverseDns: { enabled, resolver, timeoutMs },
+    leaseFiles,
+    mdns: { enabled: v.mdns?.enabled === true },
+    netbios: { enabled: v.netbios?.enabled === true, timeoutMs: clampTimeoutMs(v.netbios?.timeoutMs, 300) }
+  };
+}
+
+export async function loadDiscoverySettings(db: Db): Promise<DiscoverySettings> {
+  const res = await db.pool.query('SELECT value FROM settings WHERE key = $1', ['discovery_settings']);
+  return normalizeDiscoverySettings(res.rows?.[0]?.value);
+}
@@ -0,0 +1,85 @@
+import dnsPacket from 'dns-packet';
+import net from 'node:net';
+
+export const BLOCK_RESPONSE_MODES = ['NXDOMAIN', 'NODATA', 'NULL_IP', 'REFUSED', 'CUSTOM_IP'] as const;
+
+export type BlockResponseMode = (typeof BLOCK_RESPONSE_MODES)[number];
+
+export type BlockResponseSettings = {
+  mode: BlockResponseMode;
+  // TTL of synthesized A/AAAA answers (NULL_IP / CUSTOM_IP).
+  ttl: number;
+  // Sinkhole addresses for CUSTOM_IP. A missing family answers NODATA for that qtype.
+  ipv4?: string;
+  ipv6?: string;
+};
+
+export const DEFAULT_BLOCK_RESPONSE_SETTINGS: BlockResponseSettings = { mode: 'NXDOMAIN', ttl: 60 };
+
+const MAX_BLOCK_TTL_SECONDS = 86400;
+
+const RCODE_NOERROR = 0;
+const RCODE_NXDOMAIN = 3;
+const RCODE_REFUSED = 5;
+
+export function isBlockResponseMode(value: unknown): value is BlockResponseMode {
+  return typeof value === 'string' && (BLOCK_RESPONSE_MODES as readonly string[]).includes(value);
+}
+
+export function parseBlockResponseSettings(value: any): BlockResponseSettings {
+  const v = typeof value === 'object' && value ? value : {};
+  const mode = isBlockResponseMode(v.mode) ? v.mode : DEFAULT_BLOCK_RESPONSE_SETTINGS.mode;
+  const ttlRaw = Number(v.ttl);
+  const ttl = Number.isFinite(ttlRaw) && ttlRaw >= 0 ? Math.min(MAX_BLOCK_TTL_SECONDS, Math.floor(ttlRaw)) : DEFAULT_BLOCK_RESPONSE_SETTINGS.ttl;
+  const ipv4 = typeof v.ipv4 === 'string' && net.isIP(v.ipv4.trim()) === 4 ? v.ipv4.trim() : undefined;
+  const ipv6 = typeof v.ipv6 === 'string' && net.isIP(v.ipv6.trim()) === 6 ? v.ipv6.trim() : undefined;
+
+  const out: BlockResponseSettings = { mode, ttl };
+  if (ipv4) out.ipv4 = ipv4;
+  if (ipv6) out.ipv6 = ipv6;
+  return out;
+}
+
+/** Per-client/subnet override: only present when the profile selects a mode explicitly. */
+export function parseBlockResponseOverride(value: any): BlockResponseSettings | undefined {
+  if (!value || typeof value !== 'object' || !isBlockResponseMode(value.mode)) return undefined;
+  return parseBlockResponseSettings(value);
+}
+
+function sinkholeAnswer(qtype: string, settings: BlockResponseSettings): string | undefined {
+  if (settings.mode === 'NULL_IP') {
+    if (qtype === 'A') return '0.0.0.0';
+    if (qtype === 'AAAA') return '::';
+    return undefined;
+  }
+  if (settings.mode === 'CUSTOM_IP') {
+    if (qtype === 'A') return settings.ipv4;
+    if (qtype === 'AAAA') return settings.ipv6;
+  }
+  return undefined;
+}
+
+/**
+ * Builds the answer for a blocked query. Query flags/opcode are preserved and only the RCODE
+ * is overwritten; sinkhole modes answer A/AAAA and fall back to NODATA for other qtypes.
+ */
+export function buildBlockedResponse(query: any, settings: BlockResponseSettings = DEFAULT_BLOCK_RESPONSE_SETTINGS): Buffer {
+  const baseFlags = typeof query?.flags === 'number' ? query.flags : 0;
+  const q = query?.questions?.[0];
+  const qtype = q?.type ? String(q.type) : 'A';
+
+  const rcode = settings.mode === 'NXDOMAIN' ? RCODE_NXDOMAIN : settings.mode === 'REFUSED' ? RCODE_REFUSED : RCODE_NOERROR;
+  const address = sinkholeAnswer(qtype, settings);
+  const answers = address && q?.name ? [{ type: qtype, name: q.name, ttl: settings.ttl, data: address }] : [];
+
+  return dnsPacket.encode({
+    type: 'response',
+    id: query?.id,
+    // dns-packet encodes the header RCODE in the low 4 bits of `flags`.
+    flags: (baseFlags & ~0xf) | rcode,
+    questions: query?.questions ?? [],
+    answers,
+    authorities: [],
+    additionals: []
+  } as any);
+}
@@ -0,0 +1,120 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import type { AppConfig } from '../config.js';
+import { withResponseTtl, type DnsResponseCacheEntry } from './responseCache.js';
+
+const SNAPSHOT_VERSION = 1;
+
+type SnapshotFile = {
+  version: number;
+  savedAt: string;
+  // Entries cached with the DO bit set are not interchangeable with plain ones.
+  dnssec: boolean;
+  entries: Array<{ key: string; resp: string; storedAt: number; expiresAt: number; staleUntil: number; hits: number }>;
+};
+
+export type DnsCacheEntryInfo = {
+  key: string;
+  domain: string;
+  type: string;
+  // Client upstream and/or ECS subnet the answer is scoped to.
+  scope?: string;
+  ttlRemaining: number;
+  stale: boolean;
+  hits: number;
+  bytes: number;
+  storedAt: string;
+  expiresAt: string;
+};
+
+export function resolveCacheSnapshotPath(config: AppConfig): string {
+  return path.join(config.DATA_DIR || '/data', 'sentinel', 'dns', 'cache-snapshot.json');
+}
+
+/** Splits a response cache key (`name\0qtype[\0upstream][\0ecs]`) for display. */
+export function describeCacheEntry(key: string, entry: DnsResponseCacheEntry, nowMs: number): DnsCacheEntryInfo {
+  const [domain = '', type = '', ...scope] = key.split('\0');
+  return {
+    key,
+    domain,
+    type,
+    ...(scope.length ? { scope: scope.join(' ') } : {}),
+    ttlRemaining: Math.max(0, Math.ceil((entry.expiresAt - nowMs) / 1000)),
+    stale: entry.expiresAt <= nowMs,
+    hits: entry.hits,
+    bytes: entry.resp.length,
+    storedAt: new Date(entry.storedAt).toISOString(),
+    expiresAt: new Date(entry.expiresAt).toISOString()
+  };
+}
+
+/**
+ * Writes the entries that are still usable (fresh or within their stale window) to `file`.
+ * The file is replaced atomically so a crash mid-write never leaves a truncated snapshot.
+ */
+export function writeCacheSnapshot(
+  file: string,
+  entries: Iterable<[string, DnsResponseCacheEntry]>,
+  meta: { dnssec: boolean },
+  nowMs: number
+): number {
+  const out: SnapshotFile = { version: SNAPSHOT_VERSION, savedAt: new Date(nowMs).toISOString(), dnssec: meta.dnssec, entries: [] };
+  for (const [key, entry] of entries) {
+    if (entry.staleUntil <= nowMs) continue;
+    out.entries.push({
+      key,
+      resp: entry.resp.toString('base64'),
+      storedAt: entry.storedAt,
+      expiresAt: entry.expiresAt,
+      staleUntil: entry.staleUntil,
+      hits: entry.hits
+    });
+  }
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(out));
+  fs.renameSync(tmp, file);
+  return out.entries.length;
+}
+
+/**
+ * Reads a snapshot written by `writeCacheSnapshot`. Entries past their stale window are
+ * skipped and fresh answers get their TTL lowered to the time they have left. Returns no
+ * entries when the file is missing/corrupt or was written under a different DNSSEC setting.
+ */
+export function readCacheSnapshot(file: string, nowMs: number, meta: { dnssec: boolean }): Array<[string, DnsResponseCacheEntry]> {
+  let parsed: SnapshotFile;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    return [];
+  }
+  if (parsed?.version !== SNAPSHOT_VERSION || parsed.dnssec !== meta.dnssec || !Array.isArray(parsed.entries)) return [];
+
+  const out: Array<[string, DnsResponseCacheEntry]> = [];
+  for (const e of parsed.entries) {
+    if (typeof e?.key !== 'string' || typeof e.resp !== 'string') continue;
+    const storedAt = Number(e.storedAt);
+    const expiresAt = Number(e.expiresAt);
+    const staleUntil = Number(e.staleUntil);
+    if (![storedAt, expiresAt, staleUntil].every(Number.isFinite) || staleUntil <= nowMs) continue;
+
+    const raw = Buffer.from(e.resp, 'base64');
+    if (raw.length < 12) continue;
+    const remaining = Math.ceil((expiresAt - nowMs) / 1000);
+    out.push([
+      e.key,
+      {
+        resp: remaining > 0 ? withResponseTtl(raw, remaining) : raw,
+        storedAt,
+        expiresAt,
+        staleUntil,
+        hits: Number.isInteger(e.hits) && e.hits > 0 ? e.hits : 0,
+        prefetching: false
+      }
+    ]);
+  }
+  return out;
+}
@@ -0,0 +1,173 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import ipaddr from 'ipaddr.js';
+
+// dnsmasq `--add-mac` (raw 6 bytes, or its `base64` / `text` variants); also sent by OpenWrt and Pi-hole.
+export const EDNS_MAC_OPTION_CODE = 65001;
+// dnsmasq `--add-cpe-id`: a free-form client identifier string.
+export const EDNS_CLIENT_ID_OPTION_CODE = 65074;
+
+// How a query was attributed to a client profile (logged per query).
+export const CLIENT_ID_METHODS = ['client-id', 'edns-client-id', 'edns-mac', 'arp-mac', 'ip', 'subnet'] as const;
+
+export type ClientIdMethod = (typeof CLIENT_ID_METHODS)[number];
+
+// Identifiers a query carried (or that were looked up for its source address).
+export type ClientIdentifiers = {
+  // DoH path token / DoT SNI label; only matches a profile's `dnsToken`.
+  clientId?: string;
+  ednsClientId?: string;
+  ednsMac?: string;
+  arpMac?: string;
+};
+
+const MAX_CLIENT_ID_LENGTH = 64;
+// 128 random bits as lowercase hex: URL-safe, a valid DNS label and not guessable like profile ids.
+const DNS_TOKEN_RE = /^[0-9a-f]{32}$/;
+
+/** A new per-profile DoH/DoT token (`/dns-query/<token>`, `<token>.<DNS_TLS_SERVER_NAME>`). */
+export function generateDnsToken(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+export function isDnsToken(value: unknown): value is string {
+  return typeof value === 'string' && DNS_TOKEN_RE.test(value);
+}
+
+/** Normalizes `aa:bb:cc:dd:ee:ff`, `AA-BB-...` or `aabb.ccdd.eeff` to lowercase colon form; null when invalid. */
+export function normalizeMac(value: unknown): string | null {
+  const hex = String(value ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/[:.-]/g, '');
+  if (!/^[0-9a-f]{12}$/.test(hex) || hex === '000000000000') return null;
+  return hex.match(/../g)!.join(':');
+}
+
+/** Client-ID strings are matched case-insensitively; null for empty, oversized or non-printable values. */
+export function normalizeClientIdString(value: unknown): string | null {
+  const id = String(value ?? '').trim().toLowerCase();
+  if (!id || id.length > MAX_CLIENT_ID_LENGTH || !/^[\x21-\x7e]+$/.test(id)) return null;
+  return id;
+}
+
+function optionBytes(option: any): Buffer | null {
+  const data = option?.data;
+  if (Buffer.isBuffer(data)) return data;
+  if (data instanceof Uint8Array) return Buffer.from(data);
+  return null;
+}
+
+function decodeMacOption(data: Buffer): string | null {
+  if (data.length === 6) return normalizeMac(data.toString('hex'));
+  const text = data.toString('latin1').trim();
+  return normalizeMac(text) ?? (/^[A-Za-z0-9+/]{8}$/.test(text) ? normalizeMac(Buffer.from(text, 'base64').toString('hex')) : null);
+}
+
+function optOptions(query: any): any[] {
+  const additionals: any[] = Array.isArray(query?.additionals) ? query.additionals : [];
+  const opt = additionals.find((r) => r?.type === 'OPT');
+  return Array.isArray(opt?.options) ? opt.options : [];
+}
+
+function isClientIdentityOption(option: any): boolean {
+  const code = Number(option?.code);
+  return code === EDNS_MAC_OPTION_CODE || code === EDNS_CLIENT_ID_OPTION_CODE;
+}
+
+export type TrustedSource = [ipaddr.IPv4 | ipaddr.IPv6, number];
+
+/** Parses DNS_EDNS_TRUSTED_SOURCES (comma/space separated IPs or CIDRs); invalid entries are skipped. */
+export function parseTrustedSources(value: string): TrustedSource[] {
+  const out: TrustedSource[] = [];
+  for (const entry of String(value ?? '').split(/[\s,]+/)) {
+    if (!entry) continue;
+    try {
+      if (entry.includes('/')) {
+        out.push(ipaddr.parseCIDR(entry));
+      } else {
+        const addr = ipaddr.process(entry);
+        out.push([addr, addr.kind() === 'ipv4' ? 32 : 128]);
+      }
+    } catch {
+      // ignore invalid entries
+    }
+  }
+  return out;
+}
+
+/** Whether queries from `ip` may identify their client through EDNS options. */
+export function isTrustedSource(sources: TrustedSource[], ip: string): boolean {
+  if (!sources.length) return false;
+  let addr: ipaddr.IPv4 | ipaddr.IPv6;
+  try {
+    // IPv4-mapped IPv6 (dual-stack sockets) compares as IPv4.
+    addr = ipaddr.process(ip);
+  } catch {
+    return false;
+  }
+  return sources.some(([range, prefix]) => addr.kind() === range.kind() && addr.match([range, prefix]));
+}
+
+/**
+ * Reads the MAC / client-ID EDNS options a forwarding router attached to a decoded query. Only
+ * call it for queries from a trusted source (see isTrustedSource).
+ */
+export function readEdnsClientIdentity(query: any): { mac?: string; clientId?: string } {
+  const out: { mac?: string; clientId?: string } = {};
+  for (const option of optOptions(query)) {
+    const data = optionBytes(option);
+    if (!data) continue;
+    const code = Number(option.code);
+    if (code === EDNS_MAC_OPTION_CODE && !out.mac) {
+      const mac = decodeMacOption(data);
+      if (mac) out.mac = mac;
+    } else if (code === EDNS_CLIENT_ID_OPTION_CODE && !out.clientId) {
+      const clientId = normalizeClientIdString(data.toString('utf8'));
+      if (clientId) out.clientId = clientId;
+    }
+  }
+  return out;
+}
+
+/**
+ * Drops the MAC / client-ID options so they never leave the network. `changed` is false when
+ * the query carried none and the original wire message can be reused.
+ */
+export function stripClientIdentityOptions(query: any): { query: any; changed: boolean } {
+  if (!optOptions(query).some(isClientIdentityOption)) return { query, changed: false };
+  return {
+    query: {
+      ...query,
+      additionals: query.additionals.map((r: any) =>
+        r?.type === 'OPT' ? { ...r, options: r.options.filter((o: any) => !isClientIdentityOption(o)) } : r
+      )
+    },
+    changed: true
+  };
+}
+
+/**
+ * Parses a Linux `/proc/net/arp` table into IP → MAC. Incomplete entries (flags 0x0) and
+ * all-zero addresses are skipped.
+ */
+export function parseArpTable(text: string): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const line of text.split('\n').slice(1)) {
+    const [ip, , flags, hw] = line.trim().split(/\s+/);
+    if (!ip || !hw || flags === '0x0') continue;
+    const mac = normalizeMac(hw);
+    if (mac) out.set(ip, mac);
+  }
+  return out;
+}
+
+/** Reads the neighbor table at `file`; an unreadable file (other OS, no permission) yields no entries. */
+export async function readNeighborTable(file: string): Promise<Map<string, string>> {
+  if (!file) return new Map();
+  try {
+    return parseArpTable(await fs.promises.readFile(file, 'utf8'));
+  } catch {
+    return new Map();
+  }
+}
@@ -0,0 +1,63 @@
+import ipaddr from 'ipaddr.js';
+
+import { parseUpstreamTarget, type UpstreamTarget } from './upstreamPool.js';
+
+export type ConditionalForward = {
+  id: string;
+  // Domain suffix without leading/trailing dots, e.g. `lan` or `168.192.in-addr.arpa`.
+  suffix: string;
+  upstream: UpstreamTarget;
+};
+
+/**
+ * Normalizes a user-entered suffix: lowercases, strips `*.`/dots, and turns an IPv4 CIDR on an
+ * octet boundary (`192.168.0.0/16`) into its reverse zone (`168.192.in-addr.arpa`).
+ * Returns an empty string when the input is not a usable suffix.
+ */
+export function normalizeForwardSuffix(input: unknown): string {
+  let raw = String(input ?? '').trim().toLowerCase();
+  if (raw.startsWith('*.')) raw = raw.slice(2);
+  raw = raw.replace(/^\.+/, '').replace(/\.+$/, '');
+  if (!raw) return '';
+
+  if (raw.includes('/')) {
+    try {
+      const [addr, bits] = ipaddr.parseCIDR(raw);
+      if (addr.kind() !== 'ipv4' || bits === 0 || bits % 8 !== 0) return '';
+      const octets = (addr as ipaddr.IPv4).octets.slice(0, bits / 8);
+      return `${octets.reverse().join('.')}.in-addr.arpa`;
+    } catch {
+      return '';
+    }
+  }
+
+  if (raw.length > 253 || !/^[a-z0-9_-]+(\.[a-z0-9_-]+)*$/.test(raw)) return '';
+  return raw;
+}
+
+export function readConditionalForwards(value: unknown): ConditionalForward[] {
+  const arr = Array.isArray((value as any)?.items) ? (value as any).items : Array.isArray(value) ? (value as any) : [];
+  const out: ConditionalForward[] = [];
+  for (const raw of arr) {
+    if (!raw || typeof raw !== 'object') continue;
+    const id = String((raw as any).id ?? '').trim();
+    const suffix = normalizeForwardSuffix((raw as any).suffix);
+    const upstream = parseUpstreamTarget((raw as any).upstream);
+    if (!id || !suffix || !upstream) continue;
+    out.push({ id, suffix, upstream });
+  }
+  return out;
+}
+
+/** Finds the most specific (longest) configured suffix that `name` equals or is a subdomain of. */
+export function findConditionalForward<T>(bySuffix: Map<string, T>, normalizedName: string): T | undefined {
+  if (!bySuffix.size || !normalizedName) return undefined;
+  let candidate = normalizedName;
+  for (;;) {
+    const hit = bySuffix.get(candidate);
+    if (hit !== undefined) return hit;
+    const dot = candidate.indexOf('.');
+    if (dot < 0) return undefined;
+    candidate = candidate.slice(dot + 1);
+  }
+}
@@ -1,4 +1,5 @@
 import dgram from 'node:dgram';
+import fs from 'node:fs';
 import net from 'node:net';
 import tls from 'node:tls';
 import crypto from 'node:crypto';
@@ -10,17 +11,133 @@ import { Agent, request } from 'undici';
 
 import type { AppConfig } from '../config.js';
 import type { Db } from '../db.js';
-import { refreshBlocklist } from '../blocklists/refresh.js';
+import { enqueueBlocklistRefresh } from '../blocklists/jobs.js';
+import { notifyEvent } from '../notifications/notify.js';
+import { extractClientIdFromSni, loadOrCreateDotCertificate } from './dotTls.js';
+import {
+  isDnsToken,
+  isTrustedSource,
+  normalizeClientIdString,
+  normalizeMac,
+  parseTrustedSources,
+  readEdnsClientIdentity,
+  readNeighborTable,
+  stripClientIdentityOptions,
+  type ClientIdMethod,
+  type ClientIdentifiers
+} from './clientIdentity.js';
+import { describeCacheEntry, readCacheSnapshot, resolveCacheSnapshotPath, writeCacheSnapshot, type DnsCacheEntryInfo } from './cacheSnapshot.js';
+import {
+  buildBlockedResponse,
+  DEFAULT_BLOCK_RESPONSE_SETTINGS,
+  parseBlockResponseOverride,
+  parseBlockResponseSettings,
+  type BlockResponseSettings
+} from './blockResponse.js';
+import { findConditionalForward, readConditionalForwards } from './conditionalForwarding.js';
+import {
+  applyEcsPolicy,
+  DEFAULT_ECS_SETTINGS,
+  fitUdpResponse,
+  isTruncatedResponse,
+  parseEcsSettings,
+  stripEcsFromResponse,
+  type EcsDecision,
+  type EcsSettings
+} from './edns.js';
+import {
+  createRateLimiter,
+  DEFAULT_RATE_LIMIT_SETTINGS,
+  parseRateLimitOverride,
+  parseRateLimitSettings,
+  pruneRateLimiter,
+  takeRateLimitToken,
+  type RateLimitSettings,
+  type ThrottledClient
+} from './rateLimit.js';
+import {
+  clampCacheTtl,
+  DEFAULT_RESPONSE_CACHE_SETTINGS,
+  parseResponseCacheSettings,
+  shouldPrefetch,
+  withResponseTtl,
+  type DnsResponseCacheEntry,
+  type ResponseCacheSettings
+} from './responseCache.js';
+import { buildLocalRecordsResponse, readLocalRecords, recordsFromTarget, reverseNameForIp, type LocalRecord } from './localRecords.js';
+import {
+  DEFAULT_SAFE_SEARCH_POLICY,
+  findSafeSearchRewrite,
+  isSafeSearchActive,
+  isYoutubeRestrictMode,
+  mergeSafeSearchPolicies,
+  parseSafeSearchPolicy,
+  type SafeSearchPolicy
+} from './safeSearch.js';
+import {
+  createUpstreamPool,
+  describeUpstream,
+  forwardViaPool,
+  isUpstreamStrategy,
+  MAX_UPSTREAMS,
+  parseUpstreamTarget,
+  type UpstreamHealth,
+  type UpstreamPool,
+  type UpstreamStrategy,
+  type UpstreamForwardResult,
+  type UpstreamTarget
+} from './upstreamPool.js';
+import {
+  DEFAULT_DNSSEC_SETTINGS,
+  adaptDnssecResponseForClient,
+  buildDnssecUpstreamQuery,
+  isServFail,
+  parseDnssecSettings,
+  readDnssecClientFlags,
+  readDnssecStatus,
+  type DnssecSettings,
+  type DnssecStatus
+} from './dnssec.js';
+import { loadDhcpHostRecords } from '../dhcp/leaseStore.js';
+import {
+  DEFAULT_LOCAL_DOMAIN_SETTINGS,
+  isInLocalDomain,
+  loadLocalHosts,
+  LOCAL_HOST_TTL_SECONDS,
+  parseLocalDomainSettings,
+  type LocalDomainSettings,
+  type LocalHostRecord
+} from './localHosts.js';
+import { listRuleOptionsMatch, parseStoredListRuleOptions, type ListRuleContext, type ListRuleOptions } from '../blocklists/ruleOptions.js';
+import { compileRulePattern, matchRulePatterns, rulePatternKind, type ManualPatternRules } from './rulePatterns.js';
+
+export type DnsTransport = 'udp' | 'tcp' | 'dot' | 'doh';
+
+export type DnsQueryContext = {
+  transport: DnsTransport;
+  // Explicit client identifier (DoH path token / DoT SNI label). Takes precedence over IP matching.
+  clientId?: string;
+};
 
 export type DnsRuntimeStats = {
   startedAt: string | null;
   lastQueryAt: string | null;
   lastClientIp: string | null;
-  lastTransport: 'udp' | 'tcp' | null;
+  lastTransport: DnsTransport | null;
   totalQueries: number;
   tailscaleQueries: number;
   tailscaleV4Queries: number;
   tailscaleV6Queries: number;
+  // Queries refused or dropped by the per-client rate limit (dropped ⊆ limited).
+  rateLimitedQueries: number;
+  rateLimitDroppedQueries: number;
+  // UDP answers replaced by an empty TC=1 response because they exceeded the client's payload size.
+  udpTruncatedResponses: number;
+  // Upstream response cache: fresh hits, misses (forwarded), stale answers after upstream failure, prefetches.
+  cacheHits: number;
+  cacheMisses: number;
+  cacheStaleServed: number;
+  cachePrefetches: number;
 };
 
 export const dnsRuntimeStats: DnsRuntimeStats = {
@@ -31,7 +148,18 @@ export const dnsRuntimeStats: DnsRuntimeStats = {
   totalQueries: 0,
   tailscaleQueries: 0,
   tailscaleV4Queries: 0,
-  tailscaleV6Queries: 0
+  tailscaleV6Queries: 0,
+  rateLimitedQueries: 0,
+  rateLimitDroppedQueries: 0,
+  udpTruncatedResponses: 0,
+  cacheHits: 0,
+  cacheMisses: 0,
+  cacheStaleServed: 0,
+  cachePrefetches: 0
+};
+
+export const dnsRateLimitDebug: { throttled: ThrottledClient[] } = {
+  throttled: []
 };
 
 function normalizeClientIp(ipRaw: string): string {
@@ -71,7 +199,7 @@ function lazyIsoNow(): string {
   return _lastQueryAtIso;
 }
 
-function recordDnsQuerySeen(clientIp: string, transport: 'udp' | 'tcp'): void {
+function recordDnsQuerySeen(clientIp: string, transport: DnsTransport): void {
   dnsRuntimeStats.totalQueries += 1;
   dnsRuntimeStats.lastQueryAt = lazyIsoNow();
   dnsRuntimeStats.lastClientIp = clientIp;
@@ -87,45 +215,118 @@ function recordDnsQuerySeen(clientIp: string, transport: 'udp' | 'tcp'): void {
 
 // ── DNS upstream response cache ─────────────────────────────────────────
 // Caches raw upstream response buffers keyed by (normalizedName, qtype).
-// Only PERMITTED upstream responses are cached; blocked/rewritten/shadow
-// responses bypass the cache entirely.
+// Only upstream responses are cached (permitted and shadow-matched queries);
+// blocked and rewritten answers bypass the cache entirely.
+// Expired entries are kept for serve-stale until `staleUntil`.
 const DNS_RESPONSE_CACHE_MAX = 50_000;
-type DnsResponseCacheEntry = { resp: Buffer; expiresAt: number };
 const dnsResponseCache = new Map<string, DnsResponseCacheEntry>();
 
-function dnsResponseCacheGet(key: string): Buffer | null {
+/** Fresh or (within its stale window) expired entry; entries past the stale window are dropped. */
+function dnsResponseCacheLookup(key: string, nowMs = Date.now()): { entry: DnsResponseCacheEntry; fresh: boolean } | null {
   const hit = dnsResponseCache.get(key);
   if (!hit) return null;
-  if (hit.expiresAt <= Date.now()) {
+  if (hit.staleUntil <= nowMs) {
     dnsResponseCache.delete(key);
     return null;
   }
-  return hit.resp;
+  return { entry: hit, fresh: hit.expiresAt > nowMs };
+}
+
+function dnsResponseCacheGet(key: string): Buffer | null {
+  const hit = dnsResponseCacheLookup(key);
+  return hit?.fresh ? hit.entry.resp : null;
 }
 
-function dnsResponseCacheSet(key: string, resp: Buffer, ttlMs: number): void {
+function dnsResponseCacheSet(key: string, resp: Buffer, ttlMs: number, staleMs = 0): void {
   if (ttlMs <= 0) return;
-  // Evict expired entries when approaching limit.
+  // Evict entries past their stale window when approaching limit.
   if (dnsResponseCache.size >= DNS_RESPONSE_CACHE_MAX) {
     const now = Date.now();
     for (const [k, v] of dnsResponseCache) {
-      if (v.expiresAt <= now) dnsResponseCache.delete(k);
+      if (v.staleUntil <= now) dnsResponseCache.delete(k);
     }
     // If still over limit, evict oldest 25%.
     if (dnsResponseCache.size >= DNS_RESPONSE_CACHE_MAX) {
-      const sorted = [...dnsResponseCache.entries()].sort((a, b) => a[1].expiresAt - b[1].expiresAt);
+      const sorted = [...dnsResponseCache.entries()].sort((a, b) => a[1].staleUntil - b[1].staleUntil);
       const toRemove = Math.max(1, Math.floor(sorted.length * 0.25));
       for (let i = 0; i < toRemove; i++) dnsResponseCache.delete(sorted[i][0]);
     }
   }
-  dnsResponseCache.set(key, { resp, expiresAt: Date.now() + ttlMs });
+  const now = Date.now();
+  dnsResponseCache.set(key, {
+    resp,
+    storedAt: now,
+    expiresAt: now + ttlMs,
+    staleUntil: now + ttlMs + Math.max(0, staleMs),
+    hits: 0,
+    prefetching: false
+  });
+}
+
+// Rough per-entry overhead of the Map slot and entry object, for the memory estimate.
+const DNS_RESPONSE_CACHE_ENTRY_OVERHEAD_BYTES = 160;
+
+export type DnsCacheStats = {
+  entries: number;
+  staleEntries: number;
+  maxEntries: number;
+  responseBytes: number;
+  approxMemoryBytes: number;
+};
+
+export function dnsCacheStats(nowMs = Date.now()): DnsCacheStats {
+  let staleEntries = 0;
+  let responseBytes = 0;
+  let keyBytes = 0;
+  for (const [key, entry] of dnsResponseCache) {
+    if (entry.expiresAt <= nowMs) staleEntries += 1;
+    responseBytes += entry.resp.length;
+    keyBytes += key.length * 2;
+  }
+  return {
+    entries: dnsResponseCache.size,
+    staleEntries,
+    maxEntries: DNS_RESPONSE_CACHE_MAX,
+    responseBytes,
+    approxMemoryBytes: responseBytes + keyBytes + dnsResponseCache.size * DNS_RESPONSE_CACHE_ENTRY_OVERHEAD_BYTES
+  };
+}
+
+/** Cache entries whose domain contains `search` (all entries without a search), most used first. */
+export function listDnsCacheEntries(opts: { search?: string; limit: number }, nowMs = Date.now()): { items: DnsCacheEntryInfo[]; total: number } {
+  const needle = normalizeName(opts.search ?? '');
+  const matches: DnsCacheEntryInfo[] = [];
+  for (const [key, entry] of dnsResponseCache) {
+    if (entry.staleUntil <= nowMs) continue;
+    if (needle && !key.slice(0, key.indexOf('\0')).includes(needle)) continue;
+    matches.push(describeCacheEntry(key, entry, nowMs));
+  }
+  matches.sort((a, b) => b.hits - a.hits || a.domain.localeCompare(b.domain));
+  return { items: matches.slice(0, opts.limit), total: matches.length };
+}
+
+/** Removes every cached answer for `domain` (all types and scopes), or the whole cache without one. */
+export function flushDnsCache(domain?: string): number {
+  if (domain === undefined) {
+    const removed = dnsResponseCache.size;
+    dnsResponseCache.clear();
+    return removed;
+  }
+  const prefix = `${normalizeName(domain)}\0`;
+  let removed = 0;
+  for (const key of dnsResponseCache.keys()) {
+    if (!key.startsWith(prefix)) continue;
+    dnsResponseCache.delete(key);
+    removed += 1;
+  }
+  return removed;
 }
 
 /**
  * Extract the minimum TTL from a DNS response buffer.
  * Returns 0 if no answers or decode fails.
  */
-function extractMinTtl(resp: Buffer): number {
+export function extractMinTtl(resp: Buffer): number {
   try {
     const decoded: any = dnsPacket.decode(resp);
     const answers: any[] = Array.isArray(decoded?.answers) ? decoded.answers : [];
@@ -146,6 +347,12 @@ type RuleMatchDecision = {
   blocklistId?: string;
 };
 
+type ListRuleWithOptions = {
+  id: string;
+  type: 'BLOCKED' | 'ALLOWED';
+  options: ListRuleOptions;
+};
+
 type RulesIndex = {
   globalManualAllowed: Set<string>;
   globalManualBlocked: Set<string>;
@@ -155,13 +362,24 @@ type RulesIndex = {
 
   manualAllowedBySubnetId: Map<string, Set<string>>;
   manualBlockedBySubnetId: Map<string, Set<string>>;
+
+  // Glob/regex manual rules, kept apart so plain domains stay on Set lookups.
+  globalManualPatterns: ManualPatternRules;
+  manualPatternsByClientId: Map<string, ManualPatternRules>;
+  manualPatternsBySubnetId: Map<string, ManualPatternRules>;
   // Domain -> blocklist id(s) that contain it.
   blockedByDomain: Map<string, string | string[]>;
+  // Domain -> blocklist id(s) with an `@@` exception for it.
+  exceptionsByDomain: Map<string, string | string[]>;
+  // Blocklist rules with `$important`, `$client=` or `$dnstype=`; most lists have none.
+  listRulesWithOptions: Map<string, ListRuleWithOptions[]>;
 };
 
 type RulesCache = {
   loadedAt: number;
   maxId: number;
+  // MAX(blocklists.rules_changed_at): diff-based refreshes can remove rules without a new id.
+  listsChangedAt: string;
   includedIdsKey: string;
   index: RulesIndex;
 };
@@ -169,6 +387,8 @@ type RulesCache = {
 type BlocklistStatus = {
   enabled: boolean;
   mode: 'ACTIVE' | 'SHADOW';
+  // ALLOW lists never block; they only admit domains for allowlist-only clients.
+  kind: 'BLOCK' | 'ALLOW';
   name: string;
 };
 
@@ -266,6 +486,10 @@ type Schedule = {
   blockedCategories: ContentCategory[];
   blockedApps: AppService[];
   blockAll?: boolean;
+  // Enforces SafeSearch and strict YouTube Restricted Mode while the schedule is active.
+  safeSearch?: boolean;
+  // Switches the client/subnet to allowlist-only while the schedule is active.
+  allowlistOnly?: boolean;
 };
 
 type ClientProfile = {
@@ -273,6 +497,12 @@ type ClientProfile = {
   name: string;
   ip?: string;
   cidr?: string;
+  // Matched via EDNS option 65001 or the neighbor (ARP) table; survives DHCP lease changes.
+  mac?: string;
+  // EDNS client-ID option values (dnsmasq --add-cpe-id), lowercased.
+  clientIds?: string[];
+  // Random DoH path token / DoT SNI label; the only identifier those transports can claim.
+  dnsToken?: string;
   useGlobalSettings?: boolean;
   useGlobalCategories?: boolean;
   useGlobalApps?: boolean;
@@ -280,7 +510,18 @@ type ClientProfile = {
   isInternetPaused?: boolean;
   blockedCategories?: ContentCategory[];
   blockedApps?: AppService[];
+  // Deny by default: only manual allow rules, `allowedApps` and ALLOW lists resolve.
+  allowlistOnly?: boolean;
+  allowedApps?: AppService[];
   schedules?: Schedule[];
+  // Overrides the global block response for this client/subnet.
+  blockResponse?: BlockResponseSettings;
+  // Overrides the global upstream(s) for this client/subnet.
+  upstream?: UpstreamTarget;
+  // Adds to (never relaxes) the global SafeSearch policy.
+  safeSearch?: SafeSearchPolicy;
+  // Overrides the global per-client query rate limit (enabled=false exempts the client).
+  rateLimit?: RateLimitSettings;
 };
 
 function normalizeScheduleMode(value: any): ScheduleModeType {
@@ -309,7 +550,7 @@ type AppBlocklistsCache = {
 type RewriteEntry = {
   id: string;
   domain: string;
-  target: string;
+  records: LocalRecord[];
   wildcard?: boolean;
 };
 
@@ -321,21 +562,34 @@ type RewritesCache = {
 
 type UpstreamCache = {
   loadedAt: number;
-  upstream:
-    | { transport: 'udp' | 'tcp' | 'dot'; host: string; port: number }
-    | { transport: 'doh'; dohUrl: string };
+  // Primary (first configured) upstream.
+  upstream: UpstreamTarget;
+  pool: UpstreamPool;
+};
+
+function upstreamKey(upstream: UpstreamTarget): string {
+  return `${upstream.transport}|${describeUpstream(upstream)}`;
+}
+
+type ConditionalForwardCache = {
+  key: string;
+  bySuffix: Map<string, { suffix: string; pool: UpstreamPool }>;
+};
+
+type DnsUpstreamForward = {
+  transport: 'udp' | 'tcp' | 'dot' | 'doh';
+  host?: string;
+  port?: number;
+  dohUrl?: string;
 };
 
 export type DnsUpstreamConfigured =
   | { upstreamMode: 'unbound' }
   | {
       upstreamMode: 'forward';
-      forward: {
-        transport: 'udp' | 'tcp' | 'dot' | 'doh';
-        host?: string;
-        port?: number;
-        dohUrl?: string;
-      };
+      forward: DnsUpstreamForward;
+      upstreams: DnsUpstreamForward[];
+      strategy: UpstreamStrategy;
     };
 
 export type DnsUpstreamDebug = {
@@ -344,6 +598,13 @@ export type DnsUpstreamDebug = {
   refreshIntervalMs: number;
   configured: DnsUpstreamConfigured | null;
   effective: UpstreamCache['upstream'] | null;
+  strategy: UpstreamStrategy;
+  // Per-upstream health and latency, in configured order.
+  upstreams: UpstreamHealth[];
+  // Conditional forwarding targets (suffix → upstream) with their own health.
+  conditional: Array<{ suffix: string; health: UpstreamHealth }>;
+  // Upstreams referenced by client/subnet overrides.
+  clientOverrides: UpstreamHealth[];
   lastForwardOkAt: string | null;
   lastForwardOkAtMs: number;
   lastForwardError:
@@ -360,6 +621,16 @@ export type DnsUpstreamDebug = {
 };
 
 const DNS_CACHE_REFRESH_INTERVAL_MS = 5000;
+const DOT_CERT_RELOAD_INTERVAL_MS = 5 * 60_000;
+// RFC 8767 §5 client response timer: with a stale entry at hand, a client waits at most this long
+// for the upstream before it gets the stale answer (stub resolvers give up after about 2 s).
+const STALE_CLIENT_RESPONSE_TIMEOUT_MS = 1800;
+// Also written on shutdown; the interval bounds what a crash or SIGKILL loses.
+const CACHE_SNAPSHOT_INTERVAL_MS = 5 * 60_000;
+// Short: a lease can move to another address at any renewal.
+const DHCP_HOST_TTL_SECONDS = 60;
+// Local-domain names read lease files and all profiles: rebuilt at most this often.
+const LOCAL_HOSTS_REFRESH_INTERVAL_MS = 15_000;
 
 export const dnsUpstreamDebug: DnsUpstreamDebug = {
   refreshedAt: null,
@@ -367,6 +638,10 @@ export const dnsUpstreamDebug: DnsUpstreamDebug = {
   refreshIntervalMs: DNS_CACHE_REFRESH_INTERVAL_MS,
   configured: null,
   effective: null,
+  strategy: 'failover',
+  upstreams: [],
+  conditional: [],
+  clientOverrides: [],
   lastForwardOkAt: null,
   lastForwardOkAtMs: 0,
   lastForwardError: null
@@ -462,7 +737,8 @@ function buildCandidateDomains(queryName: string): string[] {
 function decideManualRule(
   candidates: string[],
   allowed: Set<string> | undefined,
-  blocked: Set<string> | undefined
+  blocked: Set<string> | undefined,
+  patterns?: ManualPatternRules
 ): 'ALLOWED' | 'BLOCKED' | 'NONE' {
   if (!candidates.length) return 'NONE';
   const a = allowed ?? EMPTY_STRING_SET;
@@ -472,12 +748,30 @@ function decideManualRule(
   for (const c of candidates) {
     if (a.has(c)) return 'ALLOWED';
   }
+  // Patterns match the full query name; candidates[0] is the normalized name itself.
+  if (matchRulePatterns(patterns?.allowed, candidates[0])) return 'ALLOWED';
   for (const c of candidates) {
     if (b.has(c)) return 'BLOCKED';
   }
+  if (matchRulePatterns(patterns?.blocked, candidates[0])) return 'BLOCKED';
   return 'NONE';
 }
 
+/** The glob/regex rule behind a manual decision, or null when a plain domain rule decided it. */
+function manualRulePattern(
+  decision: 'ALLOWED' | 'BLOCKED' | 'NONE',
+  candidates: string[],
+  allowed: Set<string> | undefined,
+  blocked: Set<string> | undefined,
+  patterns: ManualPatternRules | undefined
+): string | null {
+  if (decision === 'NONE' || !candidates.length) return null;
+  const set = (decision === 'ALLOWED' ? allowed : blocked) ?? EMPTY_STRING_SET;
+  if (candidates.some((c) => set.has(c))) return null;
+  const hit = matchRulePatterns(decision === 'ALLOWED' ? patterns?.allowed : patterns?.blocked, candidates[0]);
+  return hit ? hit.pattern : null;
+}
+
 const EMPTY_STRING_SET = new Set<string>();
 
 function getOrCreateSet(map: Map<string, Set<string>>, key: string): Set<string> {
@@ -490,16 +784,30 @@ function getOrCreateSet(map: Map<string, Set<string>>, key: string): Set<string>
   return next;
 }
 
+function getOrCreatePatterns(map: Map<string, ManualPatternRules>, key: string): ManualPatternRules {
+  const k = String(key ?? '').trim();
+  const cur = map.get(k);
+  if (cur) return cur;
+  const next: ManualPatternRules = { allowed: [], blocked: [] };
+  if (k) map.set(k, next);
+  return next;
+}
+
 function decideRuleIndexed(
   index: RulesIndex,
   queryName: string,
   blocklistsById: Map<string, BlocklistStatus>,
   selectedBlocklists: Set<string>,
-  preComputedCandidates?: string[]
+  preComputedCandidates?: string[],
+  ctx?: ListRuleContext
 ): RuleMatchDecision {
   const candidates = preComputedCandidates ?? buildCandidateDomains(queryName);
   if (!candidates.length) return { decision: 'NONE' };
 
+  if (index.exceptionsByDomain?.size || index.listRulesWithOptions?.size) {
+    return decideListRulesWithExceptions(index, candidates, blocklistsById, selectedBlocklists, ctx ?? {});
+  }
+
   for (const c of candidates) {
     const hit = index.blockedByDomain.get(c);
     if (!hit) continue;
@@ -510,7 +818,7 @@ function decideRuleIndexed(
     for (const id of ids) {
       if (!selectedBlocklists.has(id)) continue;
       const st = blocklistsById.get(id);
-      if (!st) continue;
+      if (!st || st.kind === 'ALLOW') continue;
 
       if (st.mode === 'SHADOW') {
         shadowId ??= id;
@@ -526,6 +834,130 @@ function decideRuleIndexed(
   return { decision: 'NONE' };
 }
 
+/**
+ * Blocklist decision when the selected lists carry `@@` exceptions or modifiers. Exceptions from
+ * any selected list lift blocks from all of them; `$important` blocks only yield to important
+ * exceptions; exceptions in SHADOW lists only lift shadow hits.
+ */
+function decideListRulesWithExceptions(
+  index: RulesIndex,
+  candidates: string[],
+  blocklistsById: Map<string, BlocklistStatus>,
+  selectedBlocklists: Set<string>,
+  ctx: ListRuleContext
+): RuleMatchDecision {
+  let activeId: string | undefined;
+  let activeImportantId: string | undefined;
+  let shadowId: string | undefined;
+  let shadowImportantId: string | undefined;
+  let activeException = false;
+  let activeImportantException = false;
+  let anyException = false;
+  let anyImportantException = false;
+
+  const consider = (id: string, type: 'BLOCKED' | 'ALLOWED', important: boolean): void => {
+    if (!selectedBlocklists.has(id)) return;
+    const st = blocklistsById.get(id);
+    if (!st || st.kind === 'ALLOW') return;
+    const shadow = st.mode === 'SHADOW';
+
+    if (type === 'ALLOWED') {
+      anyException = true;
+      if (important) anyImportantException = true;
+      if (!shadow) {
+        activeException = true;
+        if (important) activeImportantException = true;
+      }
+      return;
+    }
+
+    if (shadow) {
+      shadowId ??= id;
+      if (important) shadowImportantId ??= id;
+    } else {
+      activeId ??= id;
+      if (important) activeImportantId ??= id;
+    }
+  };
+
+  for (const c of candidates) {
+    const blocked = index.blockedByDomain.get(c);
+    if (blocked) for (const id of typeof blocked === 'string' ? [blocked] : blocked) consider(id, 'BLOCKED', false);
+
+    const excepted = index.exceptionsByDomain.get(c);
+    if (excepted) for (const id of typeof excepted === 'string' ? [excepted] : excepted) consider(id, 'ALLOWED', false);
+
+    const withOptions = index.listRulesWithOptions.get(c);
+    if (withOptions) {
+      for (const rule of withOptions) {
+        if (listRuleOptionsMatch(rule.options, ctx)) consider(rule.id, rule.type, rule.options.important === true);
+      }
+    }
+  }
+
+  const activeBlock = activeImportantId ?? activeId;
+  if (activeBlock && !(activeException && (activeImportantException || !activeImportantId))) {
+    return { decision: 'BLOCKED', blocklistId: activeBlock };
+  }
+
+  const shadowBlock = shadowImportantId ?? shadowId;
+  if (shadowBlock && !(anyException && (anyImportantException || !shadowImportantId))) {
+    return { decision: 'SHADOW_BLOCKED', blocklistId: shadowBlock };
+  }
+
+  return { decision: 'NONE' };
+}
+
+/**
+ * ALLOW lists that apply to a client: the ones assigned to `override` (the profile that does not
+ * use the global blocklist selection), otherwise every enabled one.
+ */
+function selectAllowlistIds(override: ClientProfile | null, blocklistsById: Map<string, BlocklistStatus>): Set<string> {
+  const ids = new Set<string>();
+  if (override) {
+    for (const id of override.assignedBlocklists ?? []) {
+      if (blocklistsById.get(String(id))?.kind === 'ALLOW') ids.add(String(id));
+    }
+    return ids;
+  }
+  for (const [id, st] of blocklistsById.entries()) {
+    if (st.kind === 'ALLOW' && st.enabled) ids.add(id);
+  }
+  return ids;
+}
+
+/** Scope whose profile or active schedule turns allowlist-only on (client before subnet), or null. */
+function allowlistOnlyScope(
+  exactClient: ClientProfile | null,
+  subnetClient: ClientProfile | null,
+  activeClientSchedules: Schedule[],
+  activeSubnetSchedules: Schedule[]
+): 'client' | 'subnet' | null {
+  if (exactClient?.allowlistOnly || activeClientSchedules.some((s) => s.allowlistOnly)) return 'client';
+  if (subnetClient?.allowlistOnly || activeSubnetSchedules.some((s) => s.allowlistOnly)) return 'subnet';
+  return null;
+}
+
+/** Whether an allowlist-only client may resolve the name: an allowed app or a selected ALLOW list. */
+function isAllowlisted(
+  index: RulesIndex,
+  queryName: string,
+  allowedApps: AppService[],
+  allowlistIds: Set<string>,
+  candidates: string[]
+): boolean {
+  if (isAppBlockedByPolicy(queryName, allowedApps, candidates[0])) return true;
+  if (!allowlistIds.size) return false;
+  // Allowlists may be written as plain domains or as `@@||domain^` exceptions.
+  for (const c of candidates) {
+    for (const hit of [index.blockedByDomain.get(c), index.exceptionsByDomain?.get(c)]) {
+      if (!hit) continue;
+      if (typeof hit === 'string' ? allowlistIds.has(hit) : hit.some((id) => allowlistIds.has(id))) return true;
+    }
+  }
+  return false;
+}
+
 const CATEGORY_BLOCKLIST_URLS: Record<ContentCategory, string[]> = {
   adult: ['https://raw.githubusercontent.com/hagezi/dns-blocklists/main/adblock/nsfw.txt'],
   gambling: ['https://raw.githubusercontent.com/hagezi/dns-blocklists/main/adblock/gambling.txt'],
@@ -713,16 +1145,30 @@ type ParsedCidrClient = {
 };
 
 type ClientIndex = {
+  byToken: Map<string, ClientProfile>;
   byIp: Map<string, ClientProfile>;
+  byMac: Map<string, ClientProfile>;
+  byClientId: Map<string, ClientProfile>;
   cidrClients: ParsedCidrClient[]; // sorted descending by prefixLen for early exit
 };
 
+type ClientMatch = { client: ClientProfile; method: ClientIdMethod };
+
 function buildClientIndex(clients: ClientProfile[]): ClientIndex {
+  const byToken = new Map<string, ClientProfile>();
   const byIp = new Map<string, ClientProfile>();
+  const byMac = new Map<string, ClientProfile>();
+  const byClientId = new Map<string, ClientProfile>();
   const cidrClients: ParsedCidrClient[] = [];
 
   for (const c of clients) {
+    if (c.dnsToken) byToken.set(c.dnsToken, c);
     if (c.ip) byIp.set(c.ip, c);
+    // Clients are ordered by most recent update, so a duplicated MAC/id belongs to the newest profile.
+    if (c.mac && !byMac.has(c.mac)) byMac.set(c.mac, c);
+    for (const id of c.clientIds ?? []) {
+      if (!byClientId.has(id)) byClientId.set(id, c);
+    }
     if (c.cidr) {
       try {
         const [range, prefixLen] = ipaddr.parseCIDR(c.cidr);
@@ -735,7 +1181,7 @@ function buildClientIndex(clients: ClientProfile[]): ClientIndex {
 
   // Sort descending by prefix length → most specific match first.
   cidrClients.sort((a, b) => b.prefixLen - a.prefixLen);
-  return { byIp, cidrClients };
+  return { byToken, byIp, byMac, byClientId, cidrClients };
 }
 
 function findClient(clients: ClientProfile[], clientIp: string, index?: ClientIndex): ClientProfile | null {
@@ -752,8 +1198,25 @@ function findExactClient(clients: ClientProfile[], clientIp: string): ClientProf
   return null;
 }
 
-function findExactClientIndexed(index: ClientIndex, clientIp: string): ClientProfile | null {
-  return index.byIp.get(clientIp) ?? null;
+function findExactClientIndexed(index: ClientIndex, clientIp: string, clientId?: string): ClientProfile | null {
+  return matchExactClientIndexed(index, clientIp, { clientId })?.client ?? null;
+}
+
+// Most explicit identifier first: client ids and MACs outlive DHCP lease changes, IPs do not.
+function matchExactClientIndexed(index: ClientIndex, clientIp: string, ids: ClientIdentifiers): ClientMatch | null {
+  // The DoH path token / DoT SNI label identifies roaming devices whose source IP is unknown. Anyone
+  // can send one, so only the profile's random token counts, never its (guessable) id.
+  const byToken = ids.clientId ? index.byToken.get(ids.clientId.toLowerCase()) : undefined;
+  if (byToken) return { client: byToken, method: 'client-id' };
+  // dnsmasq --add-cpe-id values are matched against configured client ids only, never profile ids.
+  const byEdnsId = ids.ednsClientId ? index.byClientId.get(ids.ednsClientId) : undefined;
+  if (byEdnsId) return { client: byEdnsId, method: 'edns-client-id' };
+  const byEdnsMac = ids.ednsMac ? index.byMac.get(ids.ednsMac) : undefined;
+  if (byEdnsMac) return { client: byEdnsMac, method: 'edns-mac' };
+  const byArpMac = ids.arpMac ? index.byMac.get(ids.arpMac) : undefined;
+  if (byArpMac) return { client: byArpMac, method: 'arp-mac' };
+  const byIp = index.byIp.get(clientIp);
+  return byIp ? { client: byIp, method: 'ip' } : null;
 }
 
 function findBestCidrClient(clients: ClientProfile[], clientIp: string): ClientProfile | null {
@@ -804,10 +1267,17 @@ function findBestCidrClientIndexed(index: ClientIndex, clientIp: string): Client
   return null;
 }
 
-async function getRulesMaxId(db: Db): Promise<number> {
-  const res = await db.pool.query('SELECT COALESCE(MAX(id), 0) AS max_id FROM rules');
-  const v = Number(res.rows?.[0]?.max_id ?? 0);
-  return Number.isFinite(v) ? v : 0;
+async function getRulesVersion(db: Db): Promise<{ maxId: number; listsChangedAt: string }> {
+  const res = await db.pool.query(
+    'SELECT COALESCE((SELECT MAX(id) FROM rules), 0) AS max_id, (SELECT MAX(rules_changed_at) FROM blocklists) AS lists_changed_at'
+  );
+  const row = res.rows?.[0];
+  const v = Number(row?.max_id ?? 0);
+  const changedAt = row?.lists_changed_at;
+  return {
+    maxId: Number.isFinite(v) ? v : 0,
+    listsChangedAt: changedAt instanceof Date ? changedAt.toISOString() : String(changedAt ?? '')
+  };
 }
 
 function normalizeRuleDomain(value: any): string {
@@ -823,6 +1293,10 @@ async function loadRulesIndex(db: Db, neededBlocklistIds: number[]): Promise<Rul
   const manualAllowedBySubnetId = new Map<string, Set<string>>();
   const manualBlockedBySubnetId = new Map<string, Set<string>>();
 
+  const globalManualPatterns: ManualPatternRules = { allowed: [], blocked: [] };
+  const manualPatternsByClientId = new Map<string, ManualPatternRules>();
+  const manualPatternsBySubnetId = new Map<string, ManualPatternRules>();
+
   // Manual rules (Allow/Block tab) are not tied to a blocklist selection.
   const manualRes = await db.pool.query(
     `
@@ -853,11 +1327,24 @@ async function loadRulesIndex(db: Db, neededBlocklistIds: number[]): Promise<Rul
   };
 
   for (const r of manualRes.rows) {
+    const type = r?.type === 'ALLOWED' ? 'ALLOWED' : 'BLOCKED';
+    const scope = parseScope(r?.category);
+
+    if (rulePatternKind(String(r?.domain ?? '')) !== 'domain') {
+      // Rows written before validation existed may not compile; skip them rather than fail the index.
+      const compiled = compileRulePattern(String(r?.domain ?? ''));
+      if (!compiled) continue;
+      const target =
+        scope.scope === 'global'
+          ? globalManualPatterns
+          : getOrCreatePatterns(scope.scope === 'client' ? manualPatternsByClientId : manualPatternsBySubnetId, scope.id);
+      (type === 'ALLOWED' ? target.allowed : target.blocked).push(compiled);
+      continue;
+    }
+
     const domain = normalizeRuleDomain(r?.domain);
     if (!domain) continue;
-    const type = r?.type === 'ALLOWED' ? 'ALLOWED' : 'BLOCKED';
 
-    const scope = parseScope(r?.category);
     if (scope.scope === 'global') {
       if (type === 'ALLOWED') globalManualAllowed.add(domain);
       else globalManualBlocked.add(domain);
@@ -875,6 +1362,8 @@ async function loadRulesIndex(db: Db, neededBlocklistIds: number[]): Promise<Rul
   }
 
   const blockedByDomain = new Map<string, string | string[]>();
+  const exceptionsByDomain = new Map<string, string | string[]>();
+  const listRulesWithOptions = new Map<string, ListRuleWithOptions[]>();
   const ids = neededBlocklistIds.filter((n) => Number.isFinite(n));
   if (!ids.length)
     return {
@@ -884,7 +1373,12 @@ async function loadRulesIndex(db: Db, neededBlocklistIds: number[]): Promise<Rul
       manualBlockedByClientId,
       manualAllowedBySubnetId,
       manualBlockedBySubnetId,
-      blockedByDomain
+      globalManualPatterns,
+      manualPatternsByClientId,
+      manualPatternsBySubnetId,
+      blockedByDomain,
+      exceptionsByDomain,
+      listRulesWithOptions
     };
 
   const categories = ids.map((n) => `Blocklist:${Math.floor(n)}`);
@@ -892,32 +1386,44 @@ async function loadRulesIndex(db: Db, neededBlocklistIds: number[]): Promise<Rul
 
   const blocklistRes = await db.pool.query(
     `
-    SELECT domain, category
+    SELECT domain, type, category, options
     FROM rules
-    WHERE type = 'BLOCKED'
-      AND (category = ANY($1::text[]) OR category LIKE ANY($2::text[]))
+    WHERE category = ANY($1::text[]) OR category LIKE ANY($2::text[])
     `,
     [categories, legacyPatterns]
   );
 
+  const addListId = (map: Map<string, string | string[]>, domain: string, id: string): void => {
+    const cur = map.get(domain);
+    if (!cur) {
+      map.set(domain, id);
+      return;
+    }
+
+    if (typeof cur === 'string') {
+      if (cur !== id) map.set(domain, [cur, id]);
+      return;
+    }
+
+    if (!cur.includes(id)) cur.push(id);
+  };
+
   for (const r of blocklistRes.rows) {
     const domain = normalizeRuleDomain(r?.domain);
     if (!domain) continue;
     const id = extractBlocklistId(typeof r?.category === 'string' ? r.category : undefined);
     if (!id) continue;
+    const type = r?.type === 'ALLOWED' ? 'ALLOWED' : 'BLOCKED';
 
-    const cur = blockedByDomain.get(domain);
-    if (!cur) {
-      blockedByDomain.set(domain, id);
-      continue;
-    }
-
-    if (typeof cur === 'string') {
-      if (cur !== id) blockedByDomain.set(domain, [cur, id]);
+    const options = parseStoredListRuleOptions(r?.options);
+    if (options) {
+      const cur = listRulesWithOptions.get(domain);
+      if (cur) cur.push({ id, type, options });
+      else listRulesWithOptions.set(domain, [{ id, type, options }]);
       continue;
     }
 
-    if (!cur.includes(id)) cur.push(id);
+    addListId(type === 'ALLOWED' ? exceptionsByDomain : blockedByDomain, domain, id);
   }
 
   return {
@@ -927,10 +1433,24 @@ async function loadRulesIndex(db: Db, neededBlocklistIds: number[]): Promise<Rul
     manualBlockedByClientId,
     manualAllowedBySubnetId,
     manualBlockedBySubnetId,
-    blockedByDomain
+    globalManualPatterns,
+    manualPatternsByClientId,
+    manualPatternsBySubnetId,
+    blockedByDomain,
+    exceptionsByDomain,
+    listRulesWithOptions
   };
 }
 
+// `safeSearch: true` on a profile has always meant "search engines + YouTube"; an explicit
+// `youtubeRestrictMode` narrows or loosens the YouTube part.
+function parseClientSafeSearch(p: any): SafeSearchPolicy | undefined {
+  const search = p?.safeSearch === true;
+  const youtube = isYoutubeRestrictMode(p?.youtubeRestrictMode) ? p.youtubeRestrictMode : search ? 'strict' : 'off';
+  const policy: SafeSearchPolicy = { search, youtube };
+  return isSafeSearchActive(policy) ? policy : undefined;
+}
+
 async function loadClients(db: Db): Promise<ClientProfile[]> {
   // Keep ordering deterministic so ties (e.g. multiple matching CIDRs with same prefix)
   // resolve consistently.
@@ -943,6 +1463,11 @@ async function loadClients(db: Db): Promise<ClientProfile[]> {
       name: String(p.name ?? 'Unknown'),
       ip: typeof p.ip === 'string' ? p.ip : undefined,
       cidr: typeof p.cidr === 'string' ? p.cidr : undefined,
+      mac: normalizeMac(p.mac) ?? undefined,
+      clientIds: Array.isArray(p.clientIds)
+        ? p.clientIds.map((x: any) => normalizeClientIdString(x)).filter((x: string | null): x is string => !!x)
+        : [],
+      dnsToken: isDnsToken(p.dnsToken) ? p.dnsToken : undefined,
       useGlobalSettings: p.useGlobalSettings !== false,
       useGlobalCategories: p.useGlobalCategories !== false,
       useGlobalApps: p.useGlobalApps !== false,
@@ -954,6 +1479,8 @@ async function loadClients(db: Db): Promise<ClientProfile[]> {
         ? p.blockedCategories.map((x: any) => String(x)).filter(isContentCategory)
         : [],
       blockedApps: Array.isArray(p.blockedApps) ? p.blockedApps.map((x: any) => String(x)).filter(isAppService) : [],
+      allowlistOnly: p.allowlistOnly === true,
+      allowedApps: Array.isArray(p.allowedApps) ? p.allowedApps.map((x: any) => String(x)).filter(isAppService) : [],
       schedules: Array.isArray(p.schedules)
         ? p.schedules
             .filter((s: any) => s && typeof s === 'object')
@@ -970,11 +1497,17 @@ async function loadClients(db: Db): Promise<ClientProfile[]> {
                   ? s.blockedCategories.map((x: any) => String(x)).filter(isContentCategory)
                   : [],
                 blockedApps: Array.isArray(s.blockedApps) ? s.blockedApps.map((x: any) => String(x)).filter(isAppService) : [],
-                blockAll: s.blockAll === true
+                blockAll: s.blockAll === true,
+                safeSearch: s.safeSearch === true,
+                allowlistOnly: s.allowlistOnly === true
               })
             )
             .filter((s: Schedule) => !!s.id)
-        : []
+        : [],
+      blockResponse: parseBlockResponseOverride(p.blockResponse),
+      upstream: parseUpstreamTarget(p.upstream) ?? undefined,
+      safeSearch: parseClientSafeSearch(p),
+      rateLimit: parseRateLimitOverride(p.rateLimit)
     }))
     .filter((c) => c.id && c.name);
 }
@@ -986,6 +1519,8 @@ export type DomainPolicyCheckResponse = {
   decision: DomainPolicyCheckDecision;
   reason: string | null;
   blocklist?: { id: string; name: string; mode: 'ACTIVE' | 'SHADOW' } | null;
+  // Set when a glob/regex manual rule decided the result.
+  pattern?: string | null;
 };
 
 type TtlState<T> = {
@@ -1257,9 +1792,19 @@ export async function domainPolicyCheck(
     }
   }
 
+  const allowlistScope = allowlistOnlyScope(exactClient, subnetClient, activeClientSchedules, activeSubnetSchedules);
+  const allowlistIds = allowlistScope
+    ? selectAllowlistIds(shouldUseGlobalBlocklists ? null : (exactClient?.useGlobalSettings === false ? exactClient : subnetClient), blocklistsById)
+    : new Set<string>();
+
   // Load only the rule index required for this check.
   const neededIds: number[] = [];
-  for (const id of new Set<string>([...selectedBlocklists, ...selectedActiveAppBlocklists, ...selectedShadowAppBlocklists])) {
+  for (const id of new Set<string>([
+    ...selectedBlocklists,
+    ...selectedActiveAppBlocklists,
+    ...selectedShadowAppBlocklists,
+    ...allowlistIds
+  ])) {
     const n = Number(id);
     if (Number.isFinite(n)) neededIds.push(n);
   }
@@ -1268,32 +1813,57 @@ export async function domainPolicyCheck(
   const candidates = buildCandidateDomains(domain);
 
   // Per-client / subnet manual allow/block rules.
+  const checkManual = (
+    reason: string,
+    allowed: Set<string> | undefined,
+    blocked: Set<string> | undefined,
+    patterns: ManualPatternRules | undefined
+  ): DomainPolicyCheckResponse | null => {
+    const decision = decideManualRule(candidates, allowed, blocked, patterns);
+    if (decision === 'NONE') return null;
+    const pattern = manualRulePattern(decision, candidates, allowed, blocked, patterns);
+    return { domain, decision, reason, blocklist: null, ...(pattern ? { pattern } : {}) };
+  };
+
   if (exactClient) {
-    const clientManual = decideManualRule(
-      candidates,
+    const clientManual = checkManual(
+      `ClientRule:${exactClient.id}`,
       index.manualAllowedByClientId.get(exactClient.id),
-      index.manualBlockedByClientId.get(exactClient.id)
+      index.manualBlockedByClientId.get(exactClient.id),
+      index.manualPatternsByClientId.get(exactClient.id)
     );
-    if (clientManual === 'BLOCKED') return { domain, decision: 'BLOCKED', reason: `ClientRule:${exactClient.id}`, blocklist: null };
-    if (clientManual === 'ALLOWED') return { domain, decision: 'ALLOWED', reason: `ClientRule:${exactClient.id}`, blocklist: null };
+    if (clientManual) return clientManual;
   }
 
   if (subnetClient) {
-    const subnetManual = decideManualRule(
-      candidates,
+    const subnetManual = checkManual(
+      `SubnetRule:${subnetClient.id}`,
       index.manualAllowedBySubnetId.get(subnetClient.id),
-      index.manualBlockedBySubnetId.get(subnetClient.id)
+      index.manualBlockedBySubnetId.get(subnetClient.id),
+      index.manualPatternsBySubnetId.get(subnetClient.id)
     );
-    if (subnetManual === 'BLOCKED') return { domain, decision: 'BLOCKED', reason: `SubnetRule:${subnetClient.id}`, blocklist: null };
-    if (subnetManual === 'ALLOWED') return { domain, decision: 'ALLOWED', reason: `SubnetRule:${subnetClient.id}`, blocklist: null };
+    if (subnetManual) return subnetManual;
   }
 
-  const globalManual = decideManualRule(candidates, index.globalManualAllowed, index.globalManualBlocked);
-  if (globalManual === 'BLOCKED') return { domain, decision: 'BLOCKED', reason: 'Manual', blocklist: null };
-  if (globalManual === 'ALLOWED') return { domain, decision: 'ALLOWED', reason: 'Manual', blocklist: null };
+  const globalManual = checkManual('Manual', index.globalManualAllowed, index.globalManualBlocked, index.globalManualPatterns);
+  if (globalManual) return globalManual;
+
+  if (allowlistScope) {
+    const allowedApps = [...(exactClient?.allowedApps ?? []), ...(subnetClient?.allowedApps ?? [])];
+    if (!isAllowlisted(index, domain, allowedApps, allowlistIds, candidates)) {
+      return { domain, decision: 'BLOCKED', reason: `${policyPrefix(allowlistScope)}:NotAllowlisted`, blocklist: null };
+    }
+  }
 
   let shadowHit: string | null = null;
 
+  // Context for `$client=` / `$dnstype=` list rules. The tester has no query type; answer for A.
+  const listCtx: ListRuleContext = {
+    clientIp,
+    clientNames: [exactClient?.name, exactClient?.id, subnetClient?.name].filter((n): n is string => !!n),
+    qtype: 'A'
+  };
+
   // Evaluate app blocklists (active, then shadow).
   const globalShadowAppsList = shouldUseGlobalApps ? globalShadowApps : [];
   let appShadowHit: string | undefined;
@@ -1309,7 +1879,7 @@ export async function domainPolicyCheck(
   for (const a of clientScheduleApps) appScopeByApp.set(a, 'client');
 
   if (selectedActiveAppBlocklists.size) {
-    const appDecision = decideRuleIndexed(index, domain, blocklistsById, selectedActiveAppBlocklists, candidates);
+    const appDecision = decideRuleIndexed(index, domain, blocklistsById, selectedActiveAppBlocklists, candidates, listCtx);
     if (appDecision.decision === 'BLOCKED') {
       const id = appDecision.blocklistId ?? '';
       const app = id ? blocklistIdToApp.get(id) : undefined;
@@ -1334,7 +1904,7 @@ export async function domainPolicyCheck(
   }
 
   if (selectedShadowAppBlocklists.size) {
-    const shadowDecision = decideRuleIndexed(index, domain, blocklistsById, selectedShadowAppBlocklists, candidates);
+    const shadowDecision = decideRuleIndexed(index, domain, blocklistsById, selectedShadowAppBlocklists, candidates, listCtx);
     if ((shadowDecision.decision === 'BLOCKED' || shadowDecision.decision === 'SHADOW_BLOCKED') && !appShadowHit) {
       const id = shadowDecision.blocklistId ?? '';
       const app = id ? blocklistIdToApp.get(id) : undefined;
@@ -1348,7 +1918,7 @@ export async function domainPolicyCheck(
   }
 
   // Evaluate normal blocklists.
-  const { decision, blocklistId } = decideRuleIndexed(index, domain, blocklistsById, selectedBlocklists, candidates);
+  const { decision, blocklistId } = decideRuleIndexed(index, domain, blocklistsById, selectedBlocklists, candidates, listCtx);
   if (decision === 'BLOCKED') {
     const id = blocklistId ?? '';
     const st = id ? blocklistsById.get(id) : undefined;
@@ -1451,15 +2021,16 @@ async function loadAppBlocklists(db: Db): Promise<Map<AppService, string[]>> {
 }
 
 async function loadBlocklists(db: Db): Promise<Map<string, BlocklistStatus>> {
-  const res = await db.pool.query('SELECT id, enabled, mode, name FROM blocklists');
+  const res = await db.pool.query('SELECT id, enabled, mode, kind, name FROM blocklists');
   const map = new Map<string, BlocklistStatus>();
   for (const row of res.rows) {
     const id = String(row?.id ?? '').trim();
     if (!id) continue;
     const enabled = row?.enabled !== false;
     const mode = row?.mode === 'SHADOW' ? 'SHADOW' : 'ACTIVE';
+    const kind = row?.kind === 'ALLOW' ? 'ALLOW' : 'BLOCK';
     const name = String(row?.name ?? '').trim();
-    map.set(id, { enabled, mode, name });
+    map.set(id, { enabled, mode, kind, name });
   }
   return map;
 }
@@ -1484,62 +2055,48 @@ function loadRewritesFromSettings(value: any): RewriteEntry[] {
     if (!r || typeof r !== 'object') continue;
     const id = String(r.id ?? '').trim();
     const parsed = parseRewriteDomain(String(r.domain ?? ''));
-    const target = String(r.target ?? '').trim();
-    if (!id || !parsed || !target) continue;
-    out.push({ id, domain: parsed.domain, target, wildcard: parsed.wildcard });
+    const records = readLocalRecords(r);
+    if (!id || !parsed || !records.length) continue;
+    out.push({ id, domain: parsed.domain, records, wildcard: parsed.wildcard });
   }
   return out;
 }
 
-function buildLocalAnswerResponse(query: any, answerName: string, qtype: string, target: string): Buffer | null {
-  const ttl = 60;
-  const answers: any[] = [];
-
-  const isIpv4 = (() => {
-    try {
-      const a = ipaddr.parse(target);
-      return a.kind() === 'ipv4';
-    } catch {
-      return false;
-    }
-  })();
+// `target` is the legacy single-target shorthand (IP or CNAME).
+function buildLocalAnswerResponse(query: any, answerName: string, qtype: string, target: string | LocalRecord[]): Buffer {
+  const records = typeof target === 'string' ? recordsFromTarget(target) : target;
+  return buildLocalRecordsResponse(query, answerName, qtype, records);
+}
 
-  const isIpv6 = (() => {
-    try {
-      const a = ipaddr.parse(target);
-      return a.kind() === 'ipv6';
-    } catch {
-      return false;
+/**
+ * Adds a PTR entry for every A/AAAA address of the exact (non-wildcard) rewrites, unless the
+ * reverse name already has its own rewrite. Several names on one address get one PTR each.
+ */
+function addAutoPtrEntries(byDomain: Map<string, RewriteEntry>, rewrites: RewriteEntry[]): void {
+  const generated = new Map<string, RewriteEntry>();
+  for (const r of rewrites) {
+    if (r.wildcard) continue;
+    for (const rec of r.records) {
+      if (rec.type !== 'A' && rec.type !== 'AAAA') continue;
+      const reverse = reverseNameForIp(rec.value);
+      if (!reverse || byDomain.has(reverse)) continue;
+      const entry = generated.get(reverse) ?? { id: `ptr:${reverse}`, domain: reverse, records: [] };
+      if (!entry.records.some((p) => p.value === r.domain)) entry.records.push({ type: 'PTR', value: r.domain, ttl: rec.ttl });
+      generated.set(reverse, entry);
     }
-  })();
-
-  if (qtype === 'A') {
-    if (isIpv4) answers.push({ type: 'A', name: answerName, ttl, data: target });
-    else answers.push({ type: 'CNAME', name: answerName, ttl, data: normalizeName(target) });
-  } else if (qtype === 'AAAA') {
-    if (isIpv6) answers.push({ type: 'AAAA', name: answerName, ttl, data: target });
-    else answers.push({ type: 'CNAME', name: answerName, ttl, data: normalizeName(target) });
-  } else if (qtype === 'CNAME') {
-    answers.push({ type: 'CNAME', name: answerName, ttl, data: normalizeName(target) });
-  } else if (qtype === 'ANY') {
-    if (isIpv4) answers.push({ type: 'A', name: answerName, ttl, data: target });
-    else if (isIpv6) answers.push({ type: 'AAAA', name: answerName, ttl, data: target });
-    else answers.push({ type: 'CNAME', name: answerName, ttl, data: normalizeName(target) });
-  } else {
-    return null;
   }
+  for (const [reverse, entry] of generated) byDomain.set(reverse, entry);
+}
 
-  const response = {
-    type: 'response',
-    id: query.id,
-    flags: query.flags,
-    questions: query.questions,
-    answers,
-    authorities: [],
-    additionals: [],
-    rcode: 'NOERROR'
-  };
-  return dnsPacket.encode(response as any);
+// Appends the upstream's answer for a local CNAME target so stub resolvers that do not chase
+// CNAMEs themselves still get addresses.
+function appendChasedAnswers(local: Buffer, upstream: Buffer): Buffer {
+  const base = dnsPacket.decode(local) as any;
+  const chased = dnsPacket.decode(upstream) as any;
+  if (chased.rcode && chased.rcode !== 'NOERROR') return local;
+  const extra = (chased.answers ?? []).filter((a: any) => a.type === 'A' || a.type === 'AAAA' || a.type === 'CNAME');
+  if (!extra.length) return local;
+  return dnsPacket.encode({ ...base, answers: [...(base.answers ?? []), ...extra] });
 }
 
 // ── Batched query log INSERT to avoid saturating the pg pool ────────────────
@@ -1555,6 +2112,19 @@ type QueryLogEntry = {
   blocklistId?: string;
   answerIps?: string[];
   protectionPaused?: boolean;
+  transport?: DnsTransport;
+  // Upstream DNSSEC validation result (AD flag / validation failure); only for upstream-resolved answers.
+  dnssec?: DnssecStatus;
+  // EDNS Client Subnet sent upstream; only for upstream-resolved answers.
+  ecs?: EcsDecision;
+  // Answered from the response cache (status CACHED, or SHADOW_BLOCKED when a shadow rule matched).
+  cached?: boolean;
+  // Answered from an expired cache entry because every upstream failed (RFC 8767).
+  servedStale?: boolean;
+  // How the client profile was matched; absent for unknown clients.
+  identifiedBy?: ClientIdMethod;
+  // MAC seen for the client (EDNS option or neighbor table).
+  clientMac?: string;
 };
 
 const QUERY_LOG_BATCH_SIZE = 100;
@@ -2081,21 +2651,66 @@ async function forwardDoh(
   return await forwardDohHttp1WithOptions(dohUrl, msg, timeoutMs, { preferIpv4, bootstrapServers });
 }
 
+/** The local recursive resolver (Unbound) used in `unbound` upstream mode. */
+export function unboundUpstream(config: AppConfig): UpstreamTarget {
+  return { ...parseHostPort(config.UPSTREAM_DNS), transport: 'udp' };
+}
+
+function forwardTimeoutMs(config: AppConfig, transport: UpstreamTarget['transport']): number {
+  const defaults = {
+    udp: 2000,
+    tcp: 4000,
+    dot: 4000,
+    doh: 15000
+  } as const;
+
+  const raw =
+    transport === 'udp'
+      ? (config as any).DNS_FORWARD_UDP_TIMEOUT_MS
+      : transport === 'tcp'
+        ? (config as any).DNS_FORWARD_TCP_TIMEOUT_MS
+        : transport === 'dot'
+          ? (config as any).DNS_FORWARD_DOT_TIMEOUT_MS
+          : (config as any).DNS_FORWARD_DOH_TIMEOUT_MS;
+
+  const fallback = defaults[transport];
+  const n = Number(raw);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(250, Math.floor(n));
+}
+
+/**
+ * Sends a wire-format query to one upstream over its transport. The timeout defaults to the
+ * configured per-transport forward timeout.
+ */
+export async function forwardUpstreamQuery(
+  config: AppConfig,
+  upstream: UpstreamTarget,
+  msg: Buffer,
+  opts?: { timeoutMs?: number }
+): Promise<Buffer> {
+  const timeoutMs = opts?.timeoutMs ?? forwardTimeoutMs(config, upstream.transport);
+  const preferIpv4 = Boolean((config as any).DNS_FORWARD_DOH_PREFER_IPV4);
+  const bootstrapServers = parseBootstrapServers(String((config as any).DNS_FORWARD_BOOTSTRAP_DNS || ''));
+
+  if (upstream.transport === 'doh') {
+    return await forwardDoh(upstream.dohUrl, msg, timeoutMs, preferIpv4, bootstrapServers);
+  }
+  if (upstream.transport === 'udp') {
+    const udpResp = await forwardUdp({ host: upstream.host, port: upstream.port }, msg, timeoutMs);
+    // A truncated UDP answer is retried over TCP against the same upstream.
+    if (!isTruncatedResponse(udpResp)) return udpResp;
+    return await forwardTcp({ host: upstream.host, port: upstream.port }, msg, timeoutMs);
+  }
+  if (upstream.transport === 'dot') {
+    const lookup = bootstrapServers.length > 0 ? getBootstrapLookupCached({ bootstrapServers, preferIpv4 }) : null;
+    return await forwardDot({ host: upstream.host, port: upstream.port }, msg, timeoutMs, lookup);
+  }
+  return await forwardTcp({ host: upstream.host, port: upstream.port }, msg, timeoutMs);
+}
+
 function buildNxDomainResponse(query: any): Buffer {
-  const baseFlags = typeof query?.flags === 'number' ? query.flags : 0;
-  const response = {
-    type: 'response',
-    id: query.id,
-    // dns-packet encodes the header RCODE in the low 4 bits of `flags`.
-    // Preserve all existing flag bits/opcode from the query, but overwrite the RCODE.
-    flags: (baseFlags & ~0xf) | 3,
-    questions: query.questions,
-    answers: [],
-    authorities: [],
-    additionals: [],
-    rcode: 'NXDOMAIN'
-  };
-  return dnsPacket.encode(response as any);
+  return buildBlockedResponse(query, { mode: 'NXDOMAIN', ttl: 0 });
 }
 
 function buildServFailResponse(query: any): Buffer {
@@ -2114,6 +2729,29 @@ function buildServFailResponse(query: any): Buffer {
   return dnsPacket.encode(response as any);
 }
 
+// Query handler of the running DNS server. Lets non-socket transports (DoH via Fastify)
+// reuse the exact same rewrite/rule/schedule pipeline and query logging.
+// A null answer means the query is dropped (rate limit).
+let activeQueryHandler: ((msg: Buffer, clientIp: string, ctx?: DnsQueryContext) => Promise<Buffer | null>) | null = null;
+
+export function isDnsQueryHandlerActive(): boolean {
+  return activeQueryHandler !== null;
+}
+
+/**
+ * Resolves a raw DNS wire-format message through the running DNS server.
+ * Throws `DNS_NOT_RUNNING` when the DNS server is disabled/stopped and
+ * `DECODE_FAILED` when the message cannot be parsed. Resolves to null when the
+ * client's rate limit drops the query.
+ */
+export async function resolveDnsMessage(msg: Buffer, clientIpRaw: string, ctx: DnsQueryContext): Promise<Buffer | null> {
+  const handler = activeQueryHandler;
+  if (!handler) throw new Error('DNS_NOT_RUNNING');
+  const clientIp = normalizeClientIp(clientIpRaw);
+  recordDnsQuerySeen(clientIp, ctx.transport);
+  return await handler(msg, clientIp, ctx);
+}
+
 export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close: () => Promise<void> }> {
   if (!config.ENABLE_DNS) {
     return { close: async () => {} };
@@ -2127,6 +2765,14 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
   dnsRuntimeStats.tailscaleQueries = 0;
   dnsRuntimeStats.tailscaleV4Queries = 0;
   dnsRuntimeStats.tailscaleV6Queries = 0;
+  dnsRuntimeStats.rateLimitedQueries = 0;
+  dnsRuntimeStats.rateLimitDroppedQueries = 0;
+  dnsRuntimeStats.udpTruncatedResponses = 0;
+  dnsRuntimeStats.cacheHits = 0;
+  dnsRuntimeStats.cacheMisses = 0;
+  dnsRuntimeStats.cacheStaleServed = 0;
+  dnsRuntimeStats.cachePrefetches = 0;
+  dnsRateLimitDebug.throttled = [];
 
   function logRulesIndexReload(stats: {
     selectedBlocklistCount: number;
@@ -2139,7 +2785,7 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
       console.info(
         `[dns] rules-index reloaded at=${loadedAtIso} maxId=${stats.maxId} ` +
           `selectedBlocklists=${stats.selectedBlocklistCount} ` +
-          `domains=${stats.index.blockedByDomain.size} ` +
+          `domains=${stats.index.blockedByDomain.size} exceptions=${stats.index.exceptionsByDomain.size} ` +
           `globalManualAllowed=${stats.index.globalManualAllowed.size} globalManualBlocked=${stats.index.globalManualBlocked.size} ` +
           `clientScoped=${stats.index.manualBlockedByClientId.size + stats.index.manualAllowedByClientId.size} ` +
           `subnetScoped=${stats.index.manualBlockedBySubnetId.size + stats.index.manualAllowedBySubnetId.size} ` +
@@ -2150,16 +2796,21 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
     }
   }
 
+  const defaultUpstream: UpstreamTarget = unboundUpstream(config);
   const upstreamCache: UpstreamCache = {
     loadedAt: 0,
-    upstream: { ...parseHostPort(config.UPSTREAM_DNS), transport: 'udp' }
+    upstream: defaultUpstream,
+    pool: createUpstreamPool([defaultUpstream], 'failover')
   };
 
-  const bootstrapServers = parseBootstrapServers(String((config as any).DNS_FORWARD_BOOTSTRAP_DNS || ''));
+  const conditionalForwardCache: ConditionalForwardCache = { key: '', bySuffix: new Map() };
+  // Per-client/subnet upstream overrides, keyed by upstreamKey(); health carries over between refreshes.
+  let clientUpstreamPools = new Map<string, UpstreamPool>();
 
   const rulesCache: RulesCache = {
     loadedAt: 0,
     maxId: 0,
+    listsChangedAt: '',
     includedIdsKey: '',
     index: {
       globalManualAllowed: new Set(),
@@ -2168,11 +2819,19 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
       manualBlockedByClientId: new Map(),
       manualAllowedBySubnetId: new Map(),
       manualBlockedBySubnetId: new Map(),
-      blockedByDomain: new Map()
+      globalManualPatterns: { allowed: [], blocked: [] },
+      manualPatternsByClientId: new Map(),
+      manualPatternsBySubnetId: new Map(),
+      blockedByDomain: new Map(),
+      exceptionsByDomain: new Map(),
+      listRulesWithOptions: new Map()
     }
   };
   const clientsCache: ClientsCache = { loadedAt: 0, clients: [] };
-  let clientIndex: ClientIndex = { byIp: new Map(), cidrClients: [] };
+  let clientIndex: ClientIndex = { byToken: new Map(), byIp: new Map(), byMac: new Map(), byClientId: new Map(), cidrClients: [] };
+  // IPv4 → MAC from the host's neighbor table; only read while some profile has a MAC.
+  let neighborTable = new Map<string, string>();
+  const ednsTrustedSources = parseTrustedSources(config.DNS_EDNS_TRUSTED_SOURCES ?? '');
   const rewritesCache: RewritesCache = { loadedAt: 0, byDomain: new Map(), wildcards: [] };
   const blocklistsCache: BlocklistsCache = { loadedAt: 0, byId: new Map() };
   const categoryBlocklistsCache: CategoryBlocklistsCache = { loadedAt: 0, byCategory: new Map() };
@@ -2185,14 +2844,26 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
     shadowApps: []
   };
 
+  // The refresh queue keeps one job per list; this only throttles how often we ask.
   const appBlocklistWarmup = {
-    inFlight: new Set<string>(),
     lastAttemptMsById: new Map<string, number>()
   };
 
   const APP_BLOCKLIST_WARMUP_COOLDOWN_MS = 5 * 60_000;
 
   let protectionPause: ProtectionPauseState = { mode: 'OFF' };
+  let dnssecSettings: DnssecSettings = DEFAULT_DNSSEC_SETTINGS;
+  // Upstreams known to validate DNSSEC (bundled Unbound, or any upstream that answered with AD);
+  // only their bare SERVFAILs are worth re-asking with CD=1.
+  const validatingUpstreams = new Set<string>();
+  let blockResponseSettings: BlockResponseSettings = DEFAULT_BLOCK_RESPONSE_SETTINGS;
+  let safeSearchSettings: SafeSearchPolicy = DEFAULT_SAFE_SEARCH_POLICY;
+  let rateLimitSettings: RateLimitSettings = DEFAULT_RATE_LIMIT_SETTINGS;
+  let ecsSettings: EcsSettings = DEFAULT_ECS_SETTINGS;
+  let responseCacheSettings: ResponseCacheSettings = DEFAULT_RESPONSE_CACHE_SETTINGS;
+  let localDomainSettings: LocalDomainSettings = DEFAULT_LOCAL_DOMAIN_SETTINGS;
+  let localHostsCache: { key: string; loadedAt: number; records: LocalHostRecord[] } = { key: '', loadedAt: 0, records: [] };
+  const rateLimiter = createRateLimiter();
 
   // Batched query-log writer \u2013 flushes every 200 ms or 100 entries.
   const queryLogBatcher = createQueryLogBatcher(db);
@@ -2260,28 +2931,40 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
       const shouldRefresh = !lastUpdatedAt || !Number.isFinite(lastRuleCount) || lastRuleCount <= 0;
       if (!shouldRefresh) continue;
 
-      if (appBlocklistWarmup.inFlight.has(id)) continue;
       const lastAttempt = appBlocklistWarmup.lastAttemptMsById.get(id) ?? 0;
       if (now - lastAttempt < APP_BLOCKLIST_WARMUP_COOLDOWN_MS) continue;
       appBlocklistWarmup.lastAttemptMsById.set(id, now);
 
-      const name = String(row?.name ?? '').trim();
-      const url = String(row?.url ?? '').trim();
-      if (!name || !url) continue;
+      if (!String(row?.url ?? '').trim()) continue;
 
-      appBlocklistWarmup.inFlight.add(id);
-      void refreshBlocklist(db, { id: idNum, name, url })
-        .catch(() => undefined)
-        .finally(() => {
-          appBlocklistWarmup.inFlight.delete(id);
-        });
+      void enqueueBlocklistRefresh(db, idNum, { trigger: 'WARMUP' }).catch(() => undefined);
     }
   }
 
+  async function loadLocalHostRecordsCached(settings: LocalDomainSettings): Promise<LocalHostRecord[]> {
+    const key = JSON.stringify(settings);
+    if (key === localHostsCache.key && Date.now() - localHostsCache.loadedAt < LOCAL_HOSTS_REFRESH_INTERVAL_MS) {
+      return localHostsCache.records;
+    }
+    const { records } = await loadLocalHosts(config, db, settings);
+    localHostsCache = { key, loadedAt: Date.now(), records };
+    return records;
+  }
+
   async function refreshCaches(): Promise<void> {
+    dnsRateLimitDebug.throttled = pruneRateLimiter(rateLimiter, Date.now());
     try {
-      const [clients, blocklists, categoryBlocklists, appBlocklists, globalBlockedApps, dnsSettings, dnsRewrites, maxRulesId] =
-        await Promise.all([
+      const [
+        clients,
+        blocklists,
+        categoryBlocklists,
+        appBlocklists,
+        globalBlockedApps,
+        dnsSettings,
+        dnsRewrites,
+        dnsConditionalForwards,
+        rulesVersion
+      ] = await Promise.all([
           loadClients(db),
           loadBlocklists(db),
           loadCategoryBlocklists(db),
@@ -2289,12 +2972,25 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
           db.pool.query('SELECT value FROM settings WHERE key = $1', ['global_blocked_apps']),
           db.pool.query('SELECT value FROM settings WHERE key = $1', ['dns_settings']),
           db.pool.query('SELECT value FROM settings WHERE key = $1', ['dns_rewrites']),
-          getRulesMaxId(db)
+          db.pool.query('SELECT value FROM settings WHERE key = $1', ['dns_conditional_forwarding']),
+          getRulesVersion(db)
         ]);
 
       clientsCache.clients = clients;
       clientsCache.loadedAt = Date.now();
       clientIndex = buildClientIndex(clients);
+      neighborTable = clientIndex.byMac.size ? await readNeighborTable(config.DNS_NEIGHBOR_TABLE_PATH) : new Map();
+
+      const nextClientPools = new Map<string, UpstreamPool>();
+      for (const c of clients) {
+        if (!c.upstream) continue;
+        const key = upstreamKey(c.upstream);
+        if (!nextClientPools.has(key)) {
+          nextClientPools.set(key, clientUpstreamPools.get(key) ?? createUpstreamPool([c.upstream], 'failover'));
+        }
+      }
+      clientUpstreamPools = nextClientPools;
+      dnsUpstreamDebug.clientOverrides = Array.from(nextClientPools.values()).map((pool) => pool.health[0]);
       blocklistsCache.byId = blocklists;
       blocklistsCache.loadedAt = Date.now();
       categoryBlocklistsCache.byCategory = categoryBlocklists;
@@ -2330,13 +3026,15 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
       void warmAppBlocklistsIfNeeded().catch(() => undefined);
 
       // Rules can be large (millions of rows). Avoid reloading them every 5 seconds.
-      // Instead: track MAX(id) and rebuild the in-memory index only when it changes,
-      // with a cooldown to avoid thrashing during refresh imports.
+      // Instead: track MAX(id) (plus when a blocklist refresh last changed its rules) and rebuild
+      // the in-memory index only when either changes, with a cooldown to avoid thrashing during imports.
       const nowMs = Date.now();
       const RULES_RELOAD_COOLDOWN_MS = 30_000;
       const RULES_SELECTION_RELOAD_COOLDOWN_MS = 2_000;
 
-      const shouldReloadByRules = maxRulesId !== rulesCache.maxId;
+      const maxRulesId = rulesVersion.maxId;
+      const shouldReloadByRules =
+        maxRulesId !== rulesCache.maxId || rulesVersion.listsChangedAt !== rulesCache.listsChangedAt;
 
       // Build the full "needed ids" set first so we can also detect selection changes.
       const neededIds = new Set<number>();
@@ -2414,6 +3112,7 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
 
         rulesCache.index = nextIndex;
         rulesCache.maxId = maxRulesId;
+        rulesCache.listsChangedAt = rulesVersion.listsChangedAt;
         rulesCache.loadedAt = nowMs;
         rulesCache.includedIdsKey = neededIdsKey;
 
@@ -2436,46 +3135,95 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
         if (r.wildcard) wildcards.push(r);
         else byDomain.set(normalizeName(r.domain), r);
       }
+      // DHCP reservations/leases answer as `<host>.<scope domain>`; manual rewrites win a name.
+      for (const h of await loadDhcpHostRecords(db)) {
+        const domain = normalizeName(h.name);
+        if (byDomain.has(domain)) continue;
+        const entry: RewriteEntry = { id: `dhcp:${h.ip}`, domain, records: [{ type: 'A', value: h.ip, ttl: DHCP_HOST_TTL_SECONDS }] };
+        byDomain.set(domain, entry);
+        rewrites.push(entry);
+      }
+      // Local domain: profile and discovered host names. Conflicts with rewrites are resolved in
+      // loadLocalHosts; a DHCP name in the same zone is the same device.
+      const nextLocalDomain = parseLocalDomainSettings(dnsSettings.rows?.[0]?.value?.localDomain);
+      const localEntries = new Map<string, RewriteEntry>();
+      for (const h of await loadLocalHostRecordsCached(nextLocalDomain)) {
+        const record: LocalRecord = { type: net.isIP(h.ip) === 6 ? 'AAAA' : 'A', value: h.ip, ttl: LOCAL_HOST_TTL_SECONDS };
+        const existing = localEntries.get(h.name);
+        if (existing) {
+          existing.records.push(record);
+          continue;
+        }
+        if (byDomain.has(h.name)) continue;
+        const entry: RewriteEntry = { id: `host:${h.name}`, domain: h.name, records: [record] };
+        localEntries.set(h.name, entry);
+        byDomain.set(h.name, entry);
+        rewrites.push(entry);
+      }
+      localDomainSettings = nextLocalDomain;
+      addAutoPtrEntries(byDomain, rewrites);
       // Prefer most specific wildcard first (longest domain).
       wildcards.sort((a, b) => b.domain.length - a.domain.length);
       rewritesCache.byDomain = byDomain;
       rewritesCache.wildcards = wildcards;
       rewritesCache.loadedAt = Date.now();
 
+      const conditionalForwards = readConditionalForwards(dnsConditionalForwards.rows?.[0]?.value);
+      const conditionalKey = JSON.stringify(conditionalForwards.map((f) => [f.suffix, f.upstream]));
+      if (conditionalKey !== conditionalForwardCache.key) {
+        const bySuffix: ConditionalForwardCache['bySuffix'] = new Map();
+        for (const f of conditionalForwards) {
+          if (bySuffix.has(f.suffix)) continue;
+          const previous = conditionalForwardCache.bySuffix.get(f.suffix)?.pool ?? null;
+          bySuffix.set(f.suffix, { suffix: f.suffix, pool: createUpstreamPool([f.upstream], 'failover', previous) });
+        }
+        // Cached answers may have come from a different upstream.
+        if (conditionalForwardCache.key) dnsResponseCache.clear();
+        conditionalForwardCache.key = conditionalKey;
+        conditionalForwardCache.bySuffix = bySuffix;
+        dnsUpstreamDebug.conditional = Array.from(bySuffix.values()).map((e) => ({ suffix: e.suffix, health: e.pool.health[0] }));
+      }
+
       const value = dnsSettings.rows?.[0]?.value;
       const mode = value?.upstreamMode === 'forward' ? 'forward' : 'unbound';
 
-      let configured: DnsUpstreamConfigured = mode === 'forward' ? { upstreamMode: 'forward', forward: { transport: 'udp' } } : { upstreamMode: 'unbound' };
+      const nextDnssec = parseDnssecSettings(value?.dnssec);
+      // Cached responses were fetched with/without DO; don't serve them across a policy switch.
+      if (nextDnssec.enabled !== dnssecSettings.enabled) dnsResponseCache.clear();
+      dnssecSettings = nextDnssec;
+      blockResponseSettings = parseBlockResponseSettings(value?.blockResponse);
+      safeSearchSettings = parseSafeSearchPolicy(value?.safeSearch);
+      rateLimitSettings = parseRateLimitSettings(value?.rateLimit);
+      ecsSettings = parseEcsSettings(value?.ecs);
+      responseCacheSettings = parseResponseCacheSettings(value?.cache);
+
+      let configured: DnsUpstreamConfigured = { upstreamMode: 'unbound' };
+      let upstreams: UpstreamTarget[] = [];
+      let strategy: UpstreamStrategy = 'failover';
       if (mode === 'forward') {
-        const transport =
-          value?.forward?.transport === 'tcp'
-            ? 'tcp'
-            : value?.forward?.transport === 'dot'
-              ? 'dot'
-              : value?.forward?.transport === 'doh'
-                ? 'doh'
-                : 'udp';
-
-        configured = { upstreamMode: 'forward', forward: { transport } };
-
-        if (transport === 'doh') {
-          const dohUrl = typeof value?.forward?.dohUrl === 'string' ? String(value.forward.dohUrl) : '';
-          if (dohUrl) {
-            configured.forward.dohUrl = dohUrl;
-            upstreamCache.upstream = { transport: 'doh', dohUrl };
-          }
-        } else {
-          const host = typeof value?.forward?.host === 'string' ? String(value.forward.host) : '';
-          const port = Number(value?.forward?.port);
-          if (host && Number.isFinite(port) && port > 0) {
-            configured.forward.host = host;
-            configured.forward.port = Math.min(65535, Math.floor(port));
-            upstreamCache.upstream = { host, port: Math.min(65535, Math.floor(port)), transport };
-          }
-        }
+        const rawList: any[] = Array.isArray(value?.upstreams) && value.upstreams.length ? value.upstreams : [value?.forward];
+        upstreams = rawList
+          .slice(0, MAX_UPSTREAMS)
+          .map(parseUpstreamTarget)
+          .filter((u): u is UpstreamTarget => u !== null);
+        strategy = isUpstreamStrategy(value?.upstreamStrategy) ? value.upstreamStrategy : 'failover';
+
+        const configuredList: DnsUpstreamForward[] = upstreams.map((u) => ({ ...u }));
+        configured = {
+          upstreamMode: 'forward',
+          forward: configuredList[0] ?? { transport: value?.forward?.transport === 'doh' ? 'doh' : 'udp' },
+          upstreams: configuredList,
+          strategy
+        };
       } else {
-        const parsed = parseHostPort(config.UPSTREAM_DNS);
-        upstreamCache.upstream = { host: parsed.host, port: parsed.port, transport: 'udp' };
+        upstreams = [unboundUpstream(config)];
+        validatingUpstreams.add(upstreamKey(upstreams[0]));
+      }
+
+      // An incomplete forward config keeps the previous upstreams (same as before multi-upstream support).
+      if (upstreams.length) {
+        upstreamCache.upstream = upstreams[0];
+        upstreamCache.pool = createUpstreamPool(upstreams, strategy, upstreamCache.pool);
       }
 
       upstreamCache.loadedAt = Date.now();
@@ -2484,12 +3232,29 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
       dnsUpstreamDebug.refreshedAt = new Date(upstreamCache.loadedAt).toISOString();
       dnsUpstreamDebug.configured = configured;
       dnsUpstreamDebug.effective = upstreamCache.upstream;
+      dnsUpstreamDebug.strategy = upstreamCache.pool.strategy;
+      dnsUpstreamDebug.upstreams = upstreamCache.pool.health;
     } catch {
       // keep last good caches
     }
   }
 
   await refreshCaches();
+  // After the first refresh: building the rules index clears the response cache.
+  const cacheSnapshotPath = resolveCacheSnapshotPath(config);
+  const restored = readCacheSnapshot(cacheSnapshotPath, Date.now(), { dnssec: dnssecSettings.enabled });
+  for (const [key, entry] of restored.slice(0, DNS_RESPONSE_CACHE_MAX)) dnsResponseCache.set(key, entry);
+  if (restored.length) console.info(`[dns] restored ${dnsResponseCache.size} cached responses from snapshot`);
+  // Best-effort: a failed snapshot only costs a cold cache on the next start.
+  const saveCacheSnapshot = () => {
+    try {
+      writeCacheSnapshot(cacheSnapshotPath, dnsResponseCache, { dnssec: dnssecSettings.enabled }, Date.now());
+    } catch (e: any) {
+      console.warn(`[dns] failed to write cache snapshot: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+  const snapshotTimer = setInterval(saveCacheSnapshot, CACHE_SNAPSHOT_INTERVAL_MS);
+  snapshotTimer.unref();
   await refreshProtectionPause();
   const refreshTimer = setInterval(refreshCaches, DNS_CACHE_REFRESH_INTERVAL_MS);
   // Protection pause must poll every 1 s so the UI countdown stays responsive.
@@ -2529,9 +3294,11 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
     udpSockets.push(dgram.createSocket('udp4'));
   }
 
-  async function handleQuery(msg: Buffer, clientIp: string): Promise<Buffer> {
+  async function handleQuery(msg: Buffer, clientIp: string, ctx?: DnsQueryContext): Promise<Buffer | null> {
     const start = Date.now();
-    const logEntry = (entry: QueryLogEntry) => insertQueryLog(db, entry, queryLogBatcher);
+    const transport = ctx?.transport ?? 'udp';
+    let identity: Pick<QueryLogEntry, 'identifiedBy' | 'clientMac'> = {};
+    const logEntry = (entry: QueryLogEntry) => insertQueryLog(db, { ...entry, transport, ...identity }, queryLogBatcher);
     let query: any;
     try {
       query = dnsPacket.decode(msg);
@@ -2539,68 +3306,104 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
       const name = q?.name ? String(q.name) : '';
       const qtype = q?.type ? String(q.type) : 'A';
 
-      const forwardUpstream = async (upstream: UpstreamCache['upstream']): Promise<Buffer> => {
-        const getTimeoutMs = (): number => {
-          const defaults = {
-            udp: 2000,
-            tcp: 4000,
-            dot: 4000,
-            doh: 15000
-          } as const;
-
-          const raw =
-            upstream.transport === 'udp'
-              ? (config as any).DNS_FORWARD_UDP_TIMEOUT_MS
-              : upstream.transport === 'tcp'
-                ? (config as any).DNS_FORWARD_TCP_TIMEOUT_MS
-                : upstream.transport === 'dot'
-                  ? (config as any).DNS_FORWARD_DOT_TIMEOUT_MS
-                  : (config as any).DNS_FORWARD_DOH_TIMEOUT_MS;
-
-          const fallback = defaults[upstream.transport];
-          const n = Number(raw);
-          if (!Number.isFinite(n)) return fallback;
-          return Math.max(250, Math.floor(n));
-        };
+      // EDNS identity options are ignored unless a trusted forwarder added them.
+      const edns = isTrustedSource(ednsTrustedSources, clientIp) ? readEdnsClientIdentity(query) : {};
+      const arpMac = !edns.mac && clientIndex.byMac.size ? neighborTable.get(clientIp) : undefined;
+      const exactMatch = matchExactClientIndexed(clientIndex, clientIp, {
+        clientId: ctx?.clientId,
+        ednsClientId: edns.clientId,
+        ednsMac: edns.mac,
+        arpMac
+      });
+      const exactClient = exactMatch?.client ?? null;
+      const subnetClient = findBestCidrClientIndexed(clientIndex, clientIp);
+      const client = exactClient ?? subnetClient;
+      const clientMac = edns.mac ?? arpMac;
+      identity = {
+        ...(exactMatch ? { identifiedBy: exactMatch.method } : subnetClient ? { identifiedBy: 'subnet' as const } : {}),
+        ...(clientMac ? { clientMac } : {})
+      };
+      const clientName = client?.name ?? 'Unknown';
 
-        const timeoutMs = getTimeoutMs();
+      // Per-client token bucket, checked before any work or logging. Profiles share one bucket
+      // across their IPs; subnet members and unknown clients get one per IP.
+      const rateLimit = exactClient?.rateLimit ?? subnetClient?.rateLimit ?? rateLimitSettings;
+      if (rateLimit.enabled) {
+        const nowMs = Date.now();
+        const key = exactClient ? `client:${exactClient.id}` : `ip:${clientIp}`;
+        const taken = takeRateLimitToken(
+          rateLimiter,
+          key,
+          rateLimit,
+          { clientIp, clientId: exactClient?.id, clientName: client?.name },
+          nowMs
+        );
+        if (!taken.allowed) {
+          dnsRuntimeStats.rateLimitedQueries += 1;
+          if (rateLimit.action === 'DROP') dnsRuntimeStats.rateLimitDroppedQueries += 1;
+          if (taken.startedThrottling) {
+            void notifyEvent(db, config, 'clientRateLimited', {
+              title: 'Client rate limited',
+              message: `${clientName} (${clientIp}) exceeded ${rateLimit.qps} queries/s; further queries are ${
+                rateLimit.action === 'DROP' ? 'dropped' : 'refused'
+              } until it slows down.`,
+              severity: 'warning',
+              meta: { clientIp, clientId: exactClient?.id ?? subnetClient?.id ?? null, qps: rateLimit.qps, action: rateLimit.action }
+            }).catch(() => undefined);
+          }
+          return rateLimit.action === 'DROP' ? null : buildBlockedResponse(query, { mode: 'REFUSED', ttl: 0 });
+        }
+      }
 
-        const preferIpv4 = Boolean((config as any).DNS_FORWARD_DOH_PREFER_IPV4);
+      // With DNSSEC enabled, upstreams are asked for DO=1 and the answer is adapted back for the client.
+      const dnssec = dnssecSettings;
+      const dnssecClient = dnssec.enabled ? readDnssecClientFlags(query) : null;
+      // MAC / client-ID options never leave the network; EDNS Client Subnet is stripped, passed or
+      // replaced before anything is forwarded.
+      const withoutIdentity = stripClientIdentityOptions(query);
+      const ecs = applyEcsPolicy(withoutIdentity.query, ecsSettings, clientIp);
+      const encodeUpstreamQuery = (): Buffer => {
+        if (dnssecClient) return buildDnssecUpstreamQuery(ecs.query);
+        return ecs.changed || withoutIdentity.changed ? dnsPacket.encode({ ...ecs.query, type: 'query' }) : msg;
+      };
+      let upstreamMsg: Buffer | null = null;
+      const getUpstreamMsg = (): Buffer => {
+        if (!upstreamMsg) upstreamMsg = encodeUpstreamQuery();
+        return upstreamMsg;
+      };
+      // Clients that did not send ECS must not get the echo of a synthesized subnet.
+      const adaptEcsForClient = (resp: Buffer): Buffer => (ecs.decision.action === 'synthesized' ? stripEcsFromResponse(resp) : resp);
 
-        const lookup =
-          bootstrapServers.length > 0
-            ? getBootstrapLookupCached({ bootstrapServers, preferIpv4: Boolean((config as any).DNS_FORWARD_DOH_PREFER_IPV4) })
-            : null;
+      const forwardUpstream = async (upstream: UpstreamCache['upstream'], outMsg: Buffer = getUpstreamMsg()): Promise<Buffer> =>
+        await forwardUpstreamQuery(config, upstream, outMsg);
 
-        return upstream.transport === 'tcp'
-          ? await forwardTcp({ host: upstream.host, port: upstream.port }, msg, timeoutMs)
-          : upstream.transport === 'dot'
-            ? await forwardDot({ host: upstream.host, port: upstream.port }, msg, timeoutMs, lookup)
-            : upstream.transport === 'doh'
-              ? await forwardDoh(upstream.dohUrl, msg, timeoutMs, preferIpv4, bootstrapServers)
-              : await forwardUdp({ host: upstream.host, port: upstream.port }, msg, timeoutMs);
-      };
+      // Replaced by a conditional-forwarding pool once the query name is known.
+      let activePool = upstreamCache.pool;
 
-      const forwardActiveUpstreamWithTelemetry = async (): Promise<Buffer> => {
-        const upstream = upstreamCache.upstream;
+      const forwardActiveUpstreamWithTelemetry = async (): Promise<UpstreamForwardResult> => {
+        const pool = activePool;
         try {
-          const resp = await forwardUpstream(upstream);
+          const result = await forwardViaPool(pool, (upstream) => forwardUpstream(upstream));
           const now = Date.now();
           dnsUpstreamDebug.lastForwardOkAtMs = now;
           dnsUpstreamDebug.lastForwardOkAt = new Date(now).toISOString();
           dnsUpstreamDebug.lastForwardError = null;
-          return resp;
+          return result;
         } catch (e: any) {
           const now = Date.now();
           const err = e instanceof Error ? e : new Error(typeof e === 'string' ? e : 'UPSTREAM_ERROR');
           const code = typeof e?.code === 'string' ? String(e.code) : undefined;
-          const target =
-            upstream.transport === 'doh' ? upstream.dohUrl : `${upstream.host}:${String(upstream.port ?? '')}`;
+          // Every upstream failed; report the last one tried.
+          const failed = pool.health.reduce<UpstreamHealth | null>(
+            (latest, h) => (h.lastError && (!latest?.lastError || h.lastError.at >= latest.lastError.at) ? h : latest),
+            null
+          );
+          const upstream = pool.upstreams[0] ?? upstreamCache.upstream;
           dnsUpstreamDebug.lastForwardError = {
             at: new Date(now).toISOString(),
             atMs: now,
-            transport: upstream.transport,
-            target,
+            transport: failed?.transport ?? upstream.transport,
+            target: failed?.target ?? describeUpstream(upstream),
             name: err.name || undefined,
             code,
             message: err.message || String(err)
@@ -2610,7 +3413,47 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
       };
 
       const forwardActiveUpstreamNoTelemetry = async (): Promise<Buffer> => {
-        return await forwardUpstream(upstreamCache.upstream);
+        return (await forwardViaPool(activePool, (upstream) => forwardUpstream(upstream))).resp;
+      };
+
+      // Resolves via the active upstream for a client-facing answer and applies the DNSSEC policy.
+      // `raw` is the upstream response as received (cacheable), `resp` is what the client gets.
+      const forwardForClient = async (): Promise<{ raw: Buffer; resp: Buffer; dnssec?: DnssecStatus; cacheable: boolean }> => {
+        const { resp: raw, upstream: answeredBy } = await forwardActiveUpstreamWithTelemetry();
+        if (!dnssecClient) return { raw, resp: adaptEcsForClient(raw), cacheable: true };
+
+        if (!isServFail(raw)) {
+          const status = readDnssecStatus(raw) ?? undefined;
+          if (status === 'secure') validatingUpstreams.add(upstreamKey(answeredBy));
+          return { raw, resp: adaptEcsForClient(adaptDnssecResponseForClient(raw, dnssecClient)), dnssec: status, cacheable: true };
+        }
+
+        // Validators without RFC 8914 EDE only answer SERVFAIL; if the same query resolves with
+        // CD=1 (checking disabled) the failure was a DNSSEC validation failure. A resolver that
+        // does not validate would just repeat an outage, so only known validators are re-asked.
+        let status = readDnssecStatus(raw);
+        let unchecked: Buffer | null = null;
+        if ((status !== 'bogus' || !dnssec.servfailOnBogus) && validatingUpstreams.has(upstreamKey(answeredBy))) {
+          try {
+            const cdResp = await forwardUpstream(answeredBy, buildDnssecUpstreamQuery(ecs.query, { checkingDisabled: true }));
+            if (!isServFail(cdResp)) {
+              status = 'bogus';
+              unchecked = cdResp;
+            }
+          } catch {
+            // keep the original SERVFAIL
+          }
+        }
+
+        if (status === 'bogus' && !dnssec.servfailOnBogus && unchecked) {
+          return {
+            raw: unchecked,
+            resp: adaptEcsForClient(adaptDnssecResponseForClient(unchecked, dnssecClient)),
+            dnssec: 'bogus',
+            cacheable: false
+          };
+        }
+        return { raw, resp: adaptEcsForClient(raw), dnssec: status ?? undefined, cacheable: false };
       };
 
       // Local rewrites (exact + wildcard) handled before block/allow evaluation.
@@ -2627,12 +3470,8 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
       }
 
       if (rewrite) {
-        const localResp = buildLocalAnswerResponse(query, name, qtype, rewrite.target);
+        const localResp = buildLocalAnswerResponse(query, name, qtype, rewrite.records);
         if (localResp) {
-          const exactClient = findExactClientIndexed(clientIndex, clientIp);
-          const subnetClient = findBestCidrClientIndexed(clientIndex, clientIp);
-          const effectiveClient = exactClient ?? subnetClient;
-          const clientName = effectiveClient?.name ?? 'Unknown';
           const answerIps = extractAnswerIpsFromDnsResponse(localResp);
           await logEntry({
             id: crypto.randomUUID(),
@@ -2649,14 +3488,39 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
         }
       }
 
-      const exactClient = findExactClientIndexed(clientIndex, clientIp);
-      const subnetClient = findBestCidrClientIndexed(clientIndex, clientIp);
-      const client = exactClient ?? subnetClient;
-      const clientName = client?.name ?? 'Unknown';
+      // Conditional forwarding: names under a configured suffix resolve via that suffix's upstream.
+      const conditionalForward = findConditionalForward(conditionalForwardCache.bySuffix, normalizedName);
+      if (conditionalForward) activePool = conditionalForward.pool;
+
+      // The local domain is answered here only: names no device claimed are NXDOMAIN instead of
+      // leaking upstream (unless a conditional forward covers them).
+      if (localDomainSettings.enabled && !conditionalForward && isInLocalDomain(normalizedName, localDomainSettings.domain)) {
+        const localResp =
+          normalizedName === localDomainSettings.domain ? buildLocalAnswerResponse(query, name, qtype, []) : buildNxDomainResponse(query);
+        await logEntry({
+          id: crypto.randomUUID(),
+          timestamp: new Date().toISOString(),
+          domain: name,
+          client: clientName,
+          clientIp,
+          status: 'PERMITTED',
+          type: qtype,
+          durationMs: Date.now() - start
+        });
+        return localResp;
+      }
+
+      // Every block path answers the same way: client override, then subnet override, then global.
+      const blockResponse = exactClient?.blockResponse ?? subnetClient?.blockResponse ?? blockResponseSettings;
+
+      // Upstream precedence: conditional forwarding suffix, then client override, then subnet override, then global.
+      const clientUpstream = conditionalForward ? undefined : (exactClient?.upstream ?? subnetClient?.upstream);
+      const clientUpstreamKey = clientUpstream ? upstreamKey(clientUpstream) : '';
+      if (clientUpstream) activePool = clientUpstreamPools.get(clientUpstreamKey) ?? createUpstreamPool([clientUpstream], 'failover');
 
       // Client kill-switch: blocks *all* DNS for this client/subnet.
       if (exactClient?.isInternetPaused || subnetClient?.isInternetPaused) {
-        const resp = buildNxDomainResponse(query);
+        const resp = buildBlockedResponse(query, blockResponse);
         await logEntry({
           id: crypto.randomUUID(),
           timestamp: new Date().toISOString(),
@@ -2674,9 +3538,9 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
       // Global protection pause: bypass all filtering and allow queries through.
       // (Rewrites are still handled above; internet-paused remains a hard kill-switch.)
       if (isProtectionPaused(protectionPause)) {
-        const upstreamResp = await forwardActiveUpstreamWithTelemetry();
+        const upstream = await forwardForClient();
 
-        const answerIps = extractAnswerIpsFromDnsResponse(upstreamResp);
+        const answerIps = extractAnswerIpsFromDnsResponse(upstream.resp);
         await logEntry({
           id: crypto.randomUUID(),
           timestamp: new Date().toISOString(),
@@ -2687,12 +3551,83 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
           type: qtype,
           durationMs: Date.now() - start,
           answerIps,
-          protectionPaused: true
+          protectionPaused: true,
+          dnssec: upstream.dnssec,
+          ecs: ecs.decision
         });
 
-        return upstreamResp;
+        return upstream.resp;
       }
 
+      const now = new Date();
+      const policyPrefix = (scope: 'client' | 'subnet' | 'global'): string =>
+        scope === 'client' ? 'ClientPolicy' : scope === 'subnet' ? 'SubnetPolicy' : 'GlobalPolicy';
+      const activeSubnetSchedules = (subnetClient?.schedules ?? []).filter((s) => isScheduleActiveNow(s, now));
+      const activeClientSchedules = (exactClient?.schedules ?? []).filter((s) => isScheduleActiveNow(s, now));
+
+      // SafeSearch / YouTube Restricted Mode: CNAME search hosts to their enforced endpoints.
+      // Checked after blocking so a blocked app or list still wins; a manual allow only skips
+      // the blocklists, so it is checked there too. Every scope only adds restrictions.
+      const answerSafeSearch = async (): Promise<Buffer | null> => {
+        const scheduleSafeSearch: SafeSearchPolicy = { search: true, youtube: 'strict' };
+        const safeSearchScopes: Array<{ scope: 'client' | 'subnet' | 'global'; policy: SafeSearchPolicy }> = [
+          {
+            scope: 'client',
+            policy: mergeSafeSearchPolicies([
+              exactClient?.safeSearch ?? DEFAULT_SAFE_SEARCH_POLICY,
+              ...(activeClientSchedules.some((s) => s.safeSearch) ? [scheduleSafeSearch] : [])
+            ])
+          },
+          {
+            scope: 'subnet',
+            policy: mergeSafeSearchPolicies([
+              subnetClient?.safeSearch ?? DEFAULT_SAFE_SEARCH_POLICY,
+              ...(activeSubnetSchedules.some((s) => s.safeSearch) ? [scheduleSafeSearch] : [])
+            ])
+          },
+          { scope: 'global', policy: safeSearchSettings }
+        ];
+        const safeSearchRewrite = findSafeSearchRewrite(
+          normalizedName,
+          mergeSafeSearchPolicies(safeSearchScopes.map((s) => s.policy))
+        );
+        const safeSearchResp = safeSearchRewrite ? buildLocalAnswerResponse(query, name, qtype, safeSearchRewrite.target) : null;
+        if (!safeSearchRewrite || !safeSearchResp) return null;
+
+        let resp = safeSearchResp;
+        if (qtype === 'A' || qtype === 'AAAA') {
+          try {
+            const chaseMsg = dnsPacket.encode({
+              type: 'query',
+              id: 0,
+              flags: dnsPacket.RECURSION_DESIRED,
+              questions: [{ type: qtype, name: safeSearchRewrite.target, class: 'IN' }]
+            });
+            const chased = await forwardViaPool(activePool, (upstream) => forwardUpstream(upstream, chaseMsg));
+            resp = appendChasedAnswers(safeSearchResp, chased.resp);
+          } catch {
+            // The CNAME alone is still a valid answer.
+          }
+        }
+
+        const scope =
+          safeSearchScopes.find((s) => findSafeSearchRewrite(normalizedName, s.policy)?.target === safeSearchRewrite.target)?.scope ??
+          'global';
+        await logEntry({
+          id: crypto.randomUUID(),
+          timestamp: new Date().toISOString(),
+          domain: name,
+          client: clientName,
+          clientIp,
+          status: 'PERMITTED',
+          type: qtype,
+          durationMs: Date.now() - start,
+          blocklistId: `${policyPrefix(scope)}:SafeSearch`,
+          answerIps: extractAnswerIpsFromDnsResponse(resp)
+        });
+        return resp;
+      };
+
       // Manual allow/block rules with precedence: Client > Subnet > Global.
       // (These are applied after protection pause, but before app/blocklist evaluation.)
       // Re-use the already-normalised name to avoid a redundant normalizeName() call.
@@ -2703,12 +3638,13 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
         ? decideManualRule(
             candidates,
             idx.manualAllowedByClientId.get(exactClient.id),
-            idx.manualBlockedByClientId.get(exactClient.id)
+            idx.manualBlockedByClientId.get(exactClient.id),
+            idx.manualPatternsByClientId.get(exactClient.id)
           )
         : 'NONE';
 
       if (clientManual === 'BLOCKED') {
-        const resp = buildNxDomainResponse(query);
+        const resp = buildBlockedResponse(query, blockResponse);
         await logEntry({
           id: crypto.randomUUID(),
           timestamp: new Date().toISOString(),
@@ -2724,7 +3660,10 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
       }
 
       if (clientManual === 'ALLOWED') {
-        const upstreamResp = await forwardActiveUpstreamWithTelemetry();
+        const safeSearchAnswer = await answerSafeSearch();
+        if (safeSearchAnswer) return safeSearchAnswer;
+
+        const upstream = await forwardForClient();
 
         await logEntry({
           id: crypto.randomUUID(),
@@ -2735,21 +3674,24 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
           status: 'PERMITTED',
           type: qtype,
           durationMs: Date.now() - start,
-          answerIps: extractAnswerIpsFromDnsResponse(upstreamResp)
+          answerIps: extractAnswerIpsFromDnsResponse(upstream.resp),
+          dnssec: upstream.dnssec,
+          ecs: ecs.decision
         });
-        return upstreamResp;
+        return upstream.resp;
       }
 
       const subnetManual = subnetClient
         ? decideManualRule(
             candidates,
             idx.manualAllowedBySubnetId.get(subnetClient.id),
-            idx.manualBlockedBySubnetId.get(subnetClient.id)
+            idx.manualBlockedBySubnetId.get(subnetClient.id),
+            idx.manualPatternsBySubnetId.get(subnetClient.id)
           )
         : 'NONE';
 
       if (subnetManual === 'BLOCKED') {
-        const resp = buildNxDomainResponse(query);
+        const resp = buildBlockedResponse(query, blockResponse);
         await logEntry({
           id: crypto.randomUUID(),
           timestamp: new Date().toISOString(),
@@ -2765,7 +3707,10 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
       }
 
       if (subnetManual === 'ALLOWED') {
-        const upstreamResp = await forwardActiveUpstreamWithTelemetry();
+        const safeSearchAnswer = await answerSafeSearch();
+        if (safeSearchAnswer) return safeSearchAnswer;
+
+        const upstream = await forwardForClient();
 
         await logEntry({
           id: crypto.randomUUID(),
@@ -2776,15 +3721,22 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
           status: 'PERMITTED',
           type: qtype,
           durationMs: Date.now() - start,
-          answerIps: extractAnswerIpsFromDnsResponse(upstreamResp)
+          answerIps: extractAnswerIpsFromDnsResponse(upstream.resp),
+          dnssec: upstream.dnssec,
+          ecs: ecs.decision
         });
-        return upstreamResp;
+        return upstream.resp;
       }
 
-      const globalManual = decideManualRule(candidates, idx.globalManualAllowed, idx.globalManualBlocked);
+      const globalManual = decideManualRule(
+        candidates,
+        idx.globalManualAllowed,
+        idx.globalManualBlocked,
+        idx.globalManualPatterns
+      );
 
       if (globalManual === 'BLOCKED') {
-        const resp = buildNxDomainResponse(query);
+        const resp = buildBlockedResponse(query, blockResponse);
         await logEntry({
           id: crypto.randomUUID(),
           timestamp: new Date().toISOString(),
@@ -2800,7 +3752,10 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
       }
 
       if (globalManual === 'ALLOWED') {
-        const upstreamResp = await forwardActiveUpstreamWithTelemetry();
+        const safeSearchAnswer = await answerSafeSearch();
+        if (safeSearchAnswer) return safeSearchAnswer;
+
+        const upstream = await forwardForClient();
 
         await logEntry({
           id: crypto.randomUUID(),
@@ -2811,15 +3766,14 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
           status: 'PERMITTED',
           type: qtype,
           durationMs: Date.now() - start,
-          answerIps: extractAnswerIpsFromDnsResponse(upstreamResp)
+          answerIps: extractAnswerIpsFromDnsResponse(upstream.resp),
+          dnssec: upstream.dnssec,
+          ecs: ecs.decision
         });
-        return upstreamResp;
+        return upstream.resp;
       }
 
       // Compute effective policy (base + schedules).
-      const now = new Date();
-      const policyPrefix = (scope: 'client' | 'subnet' | 'global'): string =>
-        scope === 'client' ? 'ClientPolicy' : scope === 'subnet' ? 'SubnetPolicy' : 'GlobalPolicy';
 
       const effectiveBlockedCategories = new Set<ContentCategory>();
       const shouldUseGlobalCategories = exactClient?.useGlobalCategories === false ? false : subnetClient?.useGlobalCategories === false ? false : true;
@@ -2842,9 +3796,6 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
       for (const a of effectiveActiveApps) effectiveShadowApps.delete(a);
       let blockAll = false;
 
-      const activeSubnetSchedules = (subnetClient?.schedules ?? []).filter((s) => isScheduleActiveNow(s, now));
-      const activeClientSchedules = (exactClient?.schedules ?? []).filter((s) => isScheduleActiveNow(s, now));
-
       for (const s of [...activeSubnetSchedules, ...activeClientSchedules]) {
         if (s.blockAll) blockAll = true;
         for (const c of s.blockedCategories ?? []) effectiveBlockedCategories.add(c);
@@ -2855,7 +3806,7 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
 
       if (blockAll) {
         const blockAllScope: 'client' | 'subnet' = activeClientSchedules.some((s) => s.blockAll) ? 'client' : 'subnet';
-        const resp = buildNxDomainResponse(query);
+        const resp = buildBlockedResponse(query, blockResponse);
         await logEntry({
           id: crypto.randomUUID(),
           timestamp: new Date().toISOString(),
@@ -2870,6 +3821,31 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
         return resp;
       }
 
+      // Allowlist-only: manual allow rules already returned above; anything else must be admitted
+      // by an allowed app or an ALLOW list, and then still passes the regular block checks below.
+      const allowlistScope = allowlistOnlyScope(exactClient, subnetClient, activeClientSchedules, activeSubnetSchedules);
+      if (allowlistScope) {
+        const override =
+          exactClient?.useGlobalSettings === false ? exactClient : subnetClient?.useGlobalSettings === false ? subnetClient : null;
+        const allowedApps = [...(exactClient?.allowedApps ?? []), ...(subnetClient?.allowedApps ?? [])];
+        const allowlistIds = selectAllowlistIds(override, blocklistsCache.byId);
+        if (!isAllowlisted(idx, name, allowedApps, allowlistIds, candidates)) {
+          const resp = buildBlockedResponse(query, blockResponse);
+          await logEntry({
+            id: crypto.randomUUID(),
+            timestamp: new Date().toISOString(),
+            domain: name,
+            client: clientName,
+            clientIp,
+            status: 'BLOCKED',
+            type: qtype,
+            durationMs: Date.now() - start,
+            blocklistId: `${policyPrefix(allowlistScope)}:NotAllowlisted`
+          });
+          return resp;
+        }
+      }
+
       const clientScheduleApps = activeClientSchedules.flatMap((s) => s.blockedApps ?? []);
       const subnetScheduleApps = activeSubnetSchedules.flatMap((s) => s.blockedApps ?? []);
       const clientBaseApps = exactClient?.useGlobalApps === false ? (exactClient?.blockedApps ?? []) : [];
@@ -2898,7 +3874,7 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
 
       const blockedAppHit = findBlockedAppWithScope();
       if (blockedAppHit) {
-        const resp = buildNxDomainResponse(query);
+        const resp = buildBlockedResponse(query, blockResponse);
         await logEntry({
           id: crypto.randomUUID(),
           timestamp: new Date().toISOString(),
@@ -2913,6 +3889,13 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
         return resp;
       }
 
+      // Context for `$client=` / `$dnstype=` list rules.
+      const listCtx: ListRuleContext = {
+        clientIp,
+        clientNames: [exactClient?.name, exactClient?.id, subnetClient?.name].filter((n): n is string => !!n),
+        qtype
+      };
+
       let appShadowHit: string | undefined;
       const shadowApp = isAppBlockedByPolicy(name, globalShadowApps, normalizedName);
       if (shadowApp) appShadowHit = `${policyPrefix('global')}:AppShadow:${shadowApp}`;
@@ -2990,9 +3973,9 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
         }
 
         if (selectedActiveAppBlocklists.size) {
-          const appDecision = decideRuleIndexed(rulesCache.index, name, blocklistsCache.byId, selectedActiveAppBlocklists, candidates);
+          const appDecision = decideRuleIndexed(rulesCache.index, name, blocklistsCache.byId, selectedActiveAppBlocklists, candidates, listCtx);
           if (appDecision.decision === 'BLOCKED') {
-            const resp = buildNxDomainResponse(query);
+            const resp = buildBlockedResponse(query, blockResponse);
             const id = appDecision.blocklistId ?? '';
             const app = id ? blocklistIdToApp.get(id) : undefined;
             const scope = app ? (appScopeByApp.get(app) ?? 'global') : 'global';
@@ -3027,7 +4010,7 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
         }
 
         if (selectedShadowAppBlocklists.size) {
-          const shadowDecision = decideRuleIndexed(rulesCache.index, name, blocklistsCache.byId, selectedShadowAppBlocklists, candidates);
+          const shadowDecision = decideRuleIndexed(rulesCache.index, name, blocklistsCache.byId, selectedShadowAppBlocklists, candidates, listCtx);
           if ((shadowDecision.decision === 'BLOCKED' || shadowDecision.decision === 'SHADOW_BLOCKED') && !appShadowHit) {
             const id = shadowDecision.blocklistId ?? '';
             const app = id ? blocklistIdToApp.get(id) : undefined;
@@ -3041,10 +4024,10 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
         }
       }
 
-      const { decision, blocklistId } = decideRuleIndexed(rulesCache.index, name, blocklistsCache.byId, selectedBlocklists, candidates);
+      const { decision, blocklistId } = decideRuleIndexed(rulesCache.index, name, blocklistsCache.byId, selectedBlocklists, candidates, listCtx);
 
       if (decision === 'BLOCKED') {
-        const resp = buildNxDomainResponse(query);
+        const resp = buildBlockedResponse(query, blockResponse);
 
         const logId = crypto.randomUUID();
         const logTimestamp = new Date().toISOString();
@@ -3053,7 +4036,7 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
 
         if (config.SHADOW_RESOLVE_BLOCKED) {
           // Fire-and-forget: resolve upstream in background for analytics only.
-          // This no longer blocks the NXDOMAIN response to the client.
+          // This no longer delays the block response to the client.
           void (async () => {
             try {
               const upstreamResp = await forwardActiveUpstreamNoTelemetry();
@@ -3082,48 +4065,147 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
         return resp;
       }
 
+      const safeSearchAnswer = await answerSafeSearch();
+      if (safeSearchAnswer) return safeSearchAnswer;
+
       // ── DNS response cache ──────────────────────────────────────────
-      // Serve cached upstream responses for PERMITTED queries to avoid
+      // Serve cached upstream responses for permitted and shadow-matched queries to avoid
       // redundant upstream round-trips for popular domains.
-      const cacheKey = `${normalizedName}\0${qtype}`;
-      const cachedResp = dnsResponseCacheGet(cacheKey);
-      if (cachedResp && decision !== 'SHADOW_BLOCKED' && !appShadowHit) {
+      // Answers from a client-specific upstream (e.g. a family filter) must not leak to other clients.
+      // Same for answers tailored to the ECS subnet sent upstream.
+      const ecsCacheScope = ecs.decision.action === 'stripped' ? '' : ecs.decision.subnet;
+      const cacheKey = [normalizedName, qtype, clientUpstreamKey, ecsCacheScope].filter(Boolean).join('\0');
+      const cacheSettings = responseCacheSettings;
+      const cached = dnsResponseCacheLookup(cacheKey);
+
+      // Shadow matches are still resolved normally; they only change how the query is logged.
+      const shadowBlocklistId =
+        appShadowHit ??
+        (decision === 'SHADOW_BLOCKED' && blocklistId
+          ? formatBlocklistCategory(blocklistId, blocklistsCache.byId.get(blocklistId)?.name)
+          : undefined);
+      const isShadow = decision === 'SHADOW_BLOCKED' || !!appShadowHit;
+
+      // Cache the upstream response for its minimum answer TTL (clamped by the cache settings).
+      const storeUpstream = (upstream: { raw: Buffer; cacheable: boolean }): void => {
+        const ttlSec = upstream.cacheable ? clampCacheTtl(extractMinTtl(upstream.raw), cacheSettings) : 0;
+        const staleMs = cacheSettings.serveStale ? cacheSettings.staleMaxAge * 1000 : 0;
+        dnsResponseCacheSet(cacheKey, upstream.raw, ttlSec * 1000, staleMs);
+      };
+
+      const fromCache = (entry: DnsResponseCacheEntry, ttlOverride?: number): { resp: Buffer; dnssec?: DnssecStatus } => {
         // Rewrite the transaction ID in the cached buffer to match the current query.
-        const out = Buffer.from(cachedResp);
+        let out: Buffer = ttlOverride === undefined ? Buffer.from(entry.resp) : withResponseTtl(entry.resp, ttlOverride);
         out.writeUInt16BE(query.id ?? 0, 0);
+        const cachedDnssec = dnssecClient ? readDnssecStatus(out) ?? undefined : undefined;
+        if (dnssecClient) out = adaptDnssecResponseForClient(out, dnssecClient);
+        return { resp: adaptEcsForClient(out), dnssec: cachedDnssec };
+      };
+
+      if (cached?.fresh) {
+        dnsRuntimeStats.cacheHits += 1;
+        const entry = cached.entry;
+        entry.hits += 1;
+        if (cacheSettings.prefetch && shouldPrefetch(entry, Date.now())) {
+          // Refresh popular entries in the background so they never expire under load.
+          entry.prefetching = true;
+          dnsRuntimeStats.cachePrefetches += 1;
+          void forwardForClient()
+            .then(storeUpstream)
+            .catch(() => undefined)
+            .finally(() => {
+              entry.prefetching = false;
+            });
+        }
+
+        const out = fromCache(entry);
         await logEntry({
           id: crypto.randomUUID(),
           timestamp: lazyIsoNow(),
           domain: name,
           client: clientName,
           clientIp,
-          status: 'PERMITTED',
+          status: isShadow ? 'SHADOW_BLOCKED' : 'CACHED',
           type: qtype,
           durationMs: Date.now() - start,
-          answerIps: extractAnswerIpsFromDnsResponse(out)
+          blocklistId: isShadow ? shadowBlocklistId : undefined,
+          answerIps: extractAnswerIpsFromDnsResponse(out.resp),
+          dnssec: out.dnssec,
+          ecs: ecs.decision,
+          cached: true
         });
-        return out;
+        return out.resp;
       }
+      dnsRuntimeStats.cacheMisses += 1;
+
+      // RFC 8767: when resolution fails or is slow, an expired entry within its stale window beats
+      // SERVFAIL or a client timeout.
+      const staleEntry = cached && !cached.fresh && cacheSettings.serveStale ? cached.entry : null;
+      const answerStale = async (): Promise<Buffer> => {
+        dnsRuntimeStats.cacheStaleServed += 1;
+        const out = fromCache(staleEntry as DnsResponseCacheEntry, cacheSettings.staleAnswerTtl);
+        await logEntry({
+          id: crypto.randomUUID(),
+          timestamp: lazyIsoNow(),
+          domain: name,
+          client: clientName,
+          clientIp,
+          status: isShadow ? 'SHADOW_BLOCKED' : 'CACHED',
+          type: qtype,
+          durationMs: Date.now() - start,
+          blocklistId: isShadow ? shadowBlocklistId : undefined,
+          answerIps: extractAnswerIpsFromDnsResponse(out.resp),
+          dnssec: out.dnssec,
+          ecs: ecs.decision,
+          cached: true,
+          servedStale: true
+        });
+        return out.resp;
+      };
 
-      const upstreamResp = await forwardActiveUpstreamWithTelemetry();
+      // Resolves to null once the client response timer fires; the upstream query then finishes in
+      // the background and refreshes the cache. Later clients get the stale answer right away
+      // instead of queuing behind that refresh.
+      const forwardWithinStaleDeadline = async (
+        entry: DnsResponseCacheEntry
+      ): Promise<Awaited<ReturnType<typeof forwardForClient>> | null> => {
+        if (entry.prefetching) return null;
+        const pending = forwardForClient();
+        let timer: NodeJS.Timeout | undefined;
+        const deadline = new Promise<null>((resolve) => {
+          timer = setTimeout(() => resolve(null), STALE_CLIENT_RESPONSE_TIMEOUT_MS);
+        });
+        try {
+          const first = await Promise.race([pending, deadline]);
+          if (first) return first;
+        } finally {
+          clearTimeout(timer);
+        }
+        entry.prefetching = true;
+        void pending
+          .then((late) => {
+            if (!isServFail(late.resp)) storeUpstream(late);
+          })
+          .catch(() => undefined)
+          .finally(() => {
+            entry.prefetching = false;
+          });
+        return null;
+      };
 
-      // Cache the upstream response using the minimum answer TTL.
-      const minTtl = extractMinTtl(upstreamResp);
-      if (minTtl > 0) {
-        // Cap cache TTL to 5 minutes to stay responsive to DNS changes.
-        const cacheTtlMs = Math.min(minTtl, 300) * 1000;
-        dnsResponseCacheSet(cacheKey, upstreamResp, cacheTtlMs);
+      let upstream: Awaited<ReturnType<typeof forwardForClient>>;
+      try {
+        const first = staleEntry ? await forwardWithinStaleDeadline(staleEntry) : await forwardForClient();
+        if (!first) return await answerStale();
+        upstream = first;
+      } catch (e) {
+        if (staleEntry) return await answerStale();
+        throw e;
       }
+      // A DNSSEC validation failure is a verdict, not an outage: never mask it with stale data.
+      if (staleEntry && isServFail(upstream.resp) && upstream.dnssec !== 'bogus') return await answerStale();
 
-      const finalStatus: 'SHADOW_BLOCKED' | 'PERMITTED' =
-        decision === 'SHADOW_BLOCKED' || !!appShadowHit ? 'SHADOW_BLOCKED' : 'PERMITTED';
-      const finalBlocklistId =
-        finalStatus === 'SHADOW_BLOCKED'
-          ? appShadowHit ??
-            (decision === 'SHADOW_BLOCKED' && blocklistId
-              ? formatBlocklistCategory(blocklistId, blocklistsCache.byId.get(blocklistId)?.name)
-              : undefined)
-          : undefined;
+      storeUpstream(upstream);
 
       await logEntry({
         id: crypto.randomUUID(),
@@ -3131,13 +4213,15 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
         domain: name,
         client: clientName,
         clientIp,
-        status: finalStatus,
+        status: isShadow ? 'SHADOW_BLOCKED' : 'PERMITTED',
         type: qtype,
         durationMs: Date.now() - start,
-        blocklistId: finalBlocklistId,
-        answerIps: extractAnswerIpsFromDnsResponse(upstreamResp)
+        blocklistId: isShadow ? shadowBlocklistId : undefined,
+        answerIps: extractAnswerIpsFromDnsResponse(upstream.resp),
+        dnssec: upstream.dnssec,
+        ecs: ecs.decision
       });
-      return upstreamResp;
+      return upstream.resp;
     } catch {
       if (query) return buildServFailResponse(query);
       // Best effort: create SERVFAIL without ID/flags is not possible
@@ -3151,67 +4235,82 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
         const clientIp = normalizeClientIp(rinfo.address);
         recordDnsQuerySeen(clientIp, 'udp');
         const msgBuf = Buffer.isBuffer(msg) ? msg : Buffer.from(msg);
-        const resp = await handleQuery(msgBuf, clientIp);
-        udp.send(resp, rinfo.port, rinfo.address);
+        const resp = await handleQuery(msgBuf, clientIp, { transport: 'udp' });
+        if (resp) {
+          const fitted = fitUdpResponse(msgBuf, resp);
+          if (fitted.truncated) dnsRuntimeStats.udpTruncatedResponses += 1;
+          udp.send(fitted.resp, rinfo.port, rinfo.address);
+        }
       } catch {
         // ignore
       }
     });
   }
 
-  const createTcpServer = (): net.Server =>
-    net.createServer((socket) => {
-      socket.setTimeout(5000);
-      socket.setNoDelay(true);
-
-      // Use a chunk list instead of repeated Buffer.concat to avoid O(n²) copying.
-      const chunks: Buffer[] = [];
-      let totalLen = 0;
-
-      socket.on('data', async (data) => {
-        const dataBuf = Buffer.isBuffer(data) ? data : Buffer.from(data);
-        chunks.push(dataBuf);
-        totalLen += dataBuf.length;
-
-        while (totalLen >= 2) {
-          // Consolidate only when needed.
-          let buf = chunks.length === 1 ? chunks[0] : Buffer.concat(chunks);
-          if (chunks.length > 1) {
-            chunks.length = 0;
-            chunks.push(buf);
-          }
+  // Serves length-prefixed DNS messages (RFC 1035 §4.2.2) on plain TCP and DoT streams.
+  const serveFramedDnsStream = (
+    socket: net.Socket,
+    transport: 'tcp' | 'dot',
+    opts: { idleTimeoutMs: number; clientId?: string }
+  ): void => {
+    socket.setTimeout(opts.idleTimeoutMs);
+    socket.setNoDelay(true);
 
-          const len = buf.readUInt16BE(0);
-          if (buf.length < 2 + len) return;
-          const msg = buf.subarray(2, 2 + len);
-          const remainder = buf.subarray(2 + len);
-          chunks.length = 0;
-          if (remainder.length > 0) chunks.push(remainder);
-          totalLen = remainder.length;
+    // Use a chunk list instead of repeated Buffer.concat to avoid O(n²) copying.
+    const chunks: Buffer[] = [];
+    let totalLen = 0;
 
-          try {
-            const ipRaw = socket.remoteAddress ?? '0.0.0.0';
-            const ip = normalizeClientIp(ipRaw);
-            recordDnsQuerySeen(ip, 'tcp');
-            const resp = await handleQuery(msg, ip);
-            const outLen = Buffer.alloc(2);
-            outLen.writeUInt16BE(resp.length, 0);
-            socket.write(Buffer.concat([outLen, resp]));
-          } catch {
-            // ignore
-          }
+    socket.on('data', async (data) => {
+      const dataBuf = Buffer.isBuffer(data) ? data : Buffer.from(data);
+      chunks.push(dataBuf);
+      totalLen += dataBuf.length;
+
+      while (totalLen >= 2) {
+        // Consolidate only when needed.
+        let buf = chunks.length === 1 ? chunks[0] : Buffer.concat(chunks);
+        if (chunks.length > 1) {
+          chunks.length = 0;
+          chunks.push(buf);
         }
-      });
 
-      socket.on('timeout', () => {
+        const len = buf.readUInt16BE(0);
+        if (buf.length < 2 + len) return;
+        const msg = buf.subarray(2, 2 + len);
+        const remainder = buf.subarray(2 + len);
+        chunks.length = 0;
+        if (remainder.length > 0) chunks.push(remainder);
+        totalLen = remainder.length;
+
         try {
-          socket.end();
+          const ipRaw = socket.remoteAddress ?? '0.0.0.0';
+          const ip = normalizeClientIp(ipRaw);
+          recordDnsQuerySeen(ip, transport);
+          const resp = await handleQuery(msg, ip, { transport, clientId: opts.clientId });
+          if (!resp) continue;
+          const outLen = Buffer.alloc(2);
+          outLen.writeUInt16BE(resp.length, 0);
+          socket.write(Buffer.concat([outLen, resp]));
         } catch {
           // ignore
         }
-      });
+      }
+    });
+
+    socket.on('timeout', () => {
+      try {
+        socket.end();
+      } catch {
+        // ignore
+      }
     });
 
+    // Client resets must not surface as unhandled socket errors.
+    socket.on('error', () => undefined);
+  };
+
+  const createTcpServer = (): net.Server =>
+    net.createServer((socket) => serveFramedDnsStream(socket, 'tcp', { idleTimeoutMs: 5000 }));
+
   const tcpServers: net.Server[] = [];
   if (bindCfg.mode === 'dual') {
     tcpServers.push(createTcpServer());
@@ -3229,10 +4328,10 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
       });
     });
 
-  const listenTcp = (tcp: net.Server, host: string, opts?: { ipv6Only?: boolean }): Promise<void> =>
+  const listenTcp = (tcp: net.Server, host: string, opts?: { ipv6Only?: boolean; port?: number }): Promise<void> =>
     new Promise<void>((resolve, reject) => {
       tcp.once('error', reject);
-      tcp.listen({ port: config.DNS_PORT, host, ipv6Only: opts?.ipv6Only }, () => {
+      tcp.listen({ port: opts?.port ?? config.DNS_PORT, host, ipv6Only: opts?.ipv6Only }, () => {
         tcp.off('error', reject);
         resolve();
       });
@@ -3254,13 +4353,83 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
     await listenTcp(tcpServers[0], tcpHost, { ipv6Only: bindCfg.mode === 'v6' ? true : undefined });
   }
 
+  // DNS-over-TLS (RFC 7858). Best-effort: a missing certificate or busy port must not take down plain DNS.
+  const tlsServers: tls.Server[] = [];
+  let dotCertTimer: NodeJS.Timeout | undefined;
+  if (config.DNS_TLS_PORT > 0) {
+    try {
+      const certificate = await loadOrCreateDotCertificate(config);
+
+      const createTlsServer = (): tls.Server =>
+        tls.createServer(
+          { cert: certificate.cert, key: certificate.key, minVersion: 'TLSv1.2', ALPNProtocols: ['dot'] },
+          (socket) =>
+            serveFramedDnsStream(socket, 'dot', {
+              // RFC 7858 §3.4: clients are expected to reuse connections; keep them open longer than plain TCP.
+              idleTimeoutMs: 30_000,
+              clientId: extractClientIdFromSni(socket.servername, config.DNS_TLS_SERVER_NAME)
+            })
+        );
+
+      const tlsBinds: Array<{ host: string; ipv6Only?: boolean }> =
+        bindCfg.mode === 'dual'
+          ? [{ host: bindCfg.tcpHosts.v4 }, { host: bindCfg.tcpHosts.v6, ipv6Only: true }]
+          : [{ host: bindCfg.tcpHosts[0] ?? config.DNS_HOST, ipv6Only: bindCfg.mode === 'v6' ? true : undefined }];
+
+      for (const bind of tlsBinds) {
+        const server = createTlsServer();
+        await listenTcp(server, bind.host, { ipv6Only: bind.ipv6Only, port: config.DNS_TLS_PORT });
+        tlsServers.push(server);
+      }
+
+      // Pick up renewed certificates (e.g. ACME) without a restart.
+      if (!certificate.selfSigned) {
+        const mtimeKey = (): string => {
+          try {
+            return `${fs.statSync(certificate.certPath).mtimeMs}:${fs.statSync(certificate.keyPath).mtimeMs}`;
+          } catch {
+            return '';
+          }
+        };
+        let lastMtimeKey = mtimeKey();
+        dotCertTimer = setInterval(() => {
+          const next = mtimeKey();
+          if (!next || next === lastMtimeKey) return;
+          try {
+            const ctx = { cert: fs.readFileSync(certificate.certPath), key: fs.readFileSync(certificate.keyPath) };
+            for (const server of tlsServers) server.setSecureContext(ctx);
+            lastMtimeKey = next;
+            console.info(`[dns] DoT certificate reloaded from ${certificate.certPath}`);
+          } catch {
+            // keep serving the previous certificate; retry on next tick
+          }
+        }, DOT_CERT_RELOAD_INTERVAL_MS);
+      }
+
+      console.info(
+        `[dns] DoT listening on port ${config.DNS_TLS_PORT} (${certificate.selfSigned ? 'self-signed' : 'configured'} certificate)`
+      );
+    } catch (e: any) {
+      for (const server of tlsServers) server.close();
+      tlsServers.length = 0;
+      console.warn(`[dns] DoT disabled: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  activeQueryHandler = handleQuery;
+
   async function close(): Promise<void> {
+    if (activeQueryHandler === handleQuery) activeQueryHandler = null;
     clearInterval(refreshTimer);
     clearInterval(pauseTimer);
+    if (dotCertTimer) clearInterval(dotCertTimer);
 
     // Flush any remaining buffered query log entries.
     await queryLogBatcher.close();
 
+    clearInterval(snapshotTimer);
+    saveCacheSnapshot();
+
     for (const udp of udpSockets) {
       await new Promise<void>((resolve) => {
         try {
@@ -3271,7 +4440,7 @@ export async function startDnsServer(config: AppConfig, db: Db): Promise<{ close
       });
     }
 
-    for (const tcp of tcpServers) {
+    for (const tcp of [...tcpServers, ...tlsServers]) {
       await new Promise<void>((resolve) => {
         try {
           tcp.close(() => resolve());
@@ -3298,19 +4467,30 @@ export const __testing = {
   formatBlocklistCategory,
   buildCandidateDomains,
   decideRuleIndexed,
+  decideListRulesWithExceptions,
+  decideManualRule,
+  manualRulePattern,
+  selectAllowlistIds,
+  allowlistOnlyScope,
+  isAllowlisted,
   parseTimeToMinutes,
   isScheduleActiveNow,
   isAppBlockedByPolicy,
   findClient,
   loadRewritesFromSettings,
   buildLocalAnswerResponse,
+  appendChasedAnswers,
   extractAnswerIpsFromDnsResponse,
   buildNxDomainResponse,
   buildServFailResponse,
   isTailscaleClientIp,
   extractMinTtl,
   normalizeClientIp,
+  buildClientIndex,
+  findExactClientIndexed,
+  matchExactClientIndexed,
   dnsResponseCacheGet,
+  dnsResponseCacheLookup,
   dnsResponseCacheSet,
   get dnsResponseCache() { return dnsResponseCache; },
   resetPolicyCaches: () => {
@@ -0,0 +1,168 @@
+import dnsPacket from 'dns-packet';
+
+import { EDNS_UDP_PAYLOAD_SIZE } from './edns.js';
+
+export type DnssecStatus = 'secure' | 'insecure' | 'bogus';
+
+export type DnssecSettings = {
+  // Set the DO bit on forwarded queries and record the upstream AD flag. Off by default: it only
+  // means something with a validating upstream, and costs larger responses everywhere else.
+  enabled: boolean;
+  // When the upstream reports a validation failure: answer SERVFAIL (true) or pass the unvalidated answer (false).
+  servfailOnBogus: boolean;
+};
+
+export const DEFAULT_DNSSEC_SETTINGS: DnssecSettings = { enabled: false, servfailOnBogus: true };
+
+export function parseDnssecSettings(value: any): DnssecSettings {
+  const v = typeof value === 'object' && value ? value : {};
+  return {
+    enabled: typeof v.enabled === 'boolean' ? v.enabled : DEFAULT_DNSSEC_SETTINGS.enabled,
+    servfailOnBogus: typeof v.servfailOnBogus === 'boolean' ? v.servfailOnBogus : DEFAULT_DNSSEC_SETTINGS.servfailOnBogus
+  };
+}
+
+const RCODE_SERVFAIL = 2;
+// RFC 8914 Extended DNS Error option + the info codes that indicate a DNSSEC validation failure.
+const EDE_OPTION_CODE = 15;
+const EDE_DNSSEC_FAILURE_CODES = new Set([1, 2, 5, 6, 7, 8, 9, 10, 11, 12]);
+const DNSSEC_RECORD_TYPES = new Set(['RRSIG', 'NSEC', 'NSEC3']);
+
+export type DnssecClientFlags = {
+  // Client asked for DNSSEC records (DO bit).
+  dnssecOk: boolean;
+  // Client sent an OPT record at all.
+  edns: boolean;
+  // Client set AD or DO, i.e. it understands the AD bit (RFC 6840 §5.7).
+  wantsAd: boolean;
+};
+
+function findOpt(packet: any): any | null {
+  const additionals: any[] = Array.isArray(packet?.additionals) ? packet.additionals : [];
+  return additionals.find((r) => r?.type === 'OPT') ?? null;
+}
+
+export function readDnssecClientFlags(query: any): DnssecClientFlags {
+  const opt = findOpt(query);
+  const dnssecOk = Boolean(opt && (Number(opt.flags ?? 0) & dnsPacket.DNSSEC_OK));
+  const ad = (Number(query?.flags ?? 0) & dnsPacket.AUTHENTIC_DATA) !== 0;
+  return { dnssecOk, edns: Boolean(opt), wantsAd: dnssecOk || ad };
+}
+
+/**
+ * Re-encodes a decoded client query with the DO bit (and AD bit) set so a validating
+ * upstream returns DNSSEC records and reports its validation result.
+ */
+export function buildDnssecUpstreamQuery(query: any, opts?: { checkingDisabled?: boolean }): Buffer {
+  const additionals: any[] = Array.isArray(query?.additionals) ? query.additionals.slice() : [];
+  const optIdx = additionals.findIndex((r) => r?.type === 'OPT');
+  if (optIdx >= 0) {
+    const opt = additionals[optIdx];
+    additionals[optIdx] = { ...opt, flags: Number(opt.flags ?? 0) | dnsPacket.DNSSEC_OK };
+  } else {
+    additionals.push({
+      type: 'OPT',
+      name: '.',
+      udpPayloadSize: EDNS_UDP_PAYLOAD_SIZE,
+      flags: dnsPacket.DNSSEC_OK,
+      options: []
+    });
+  }
+
+  let flags = Number(query?.flags ?? 0) | dnsPacket.AUTHENTIC_DATA;
+  if (opts?.checkingDisabled) flags |= dnsPacket.CHECKING_DISABLED;
+
+  return dnsPacket.encode({
+    type: 'query',
+    id: query?.id ?? 0,
+    flags,
+    questions: query?.questions ?? [],
+    answers: [],
+    authorities: [],
+    additionals
+  } as any);
+}
+
+/** True when the upstream signalled a DNSSEC validation failure via RFC 8914 Extended DNS Errors. */
+function hasDnssecFailureEde(decoded: any): boolean {
+  const opt = findOpt(decoded);
+  const options: any[] = Array.isArray(opt?.options) ? opt.options : [];
+  for (const o of options) {
+    if (Number(o?.code) !== EDE_OPTION_CODE) continue;
+    const data: Buffer | undefined = Buffer.isBuffer(o?.data) ? o.data : undefined;
+    if (data && data.length >= 2 && EDE_DNSSEC_FAILURE_CODES.has(data.readUInt16BE(0))) return true;
+  }
+  return false;
+}
+
+export function isServFail(resp: Buffer): boolean {
+  return resp.length >= 4 && (resp[3] & 0x0f) === RCODE_SERVFAIL;
+}
+
+/**
+ * Classifies an upstream response: AD set → secure; SERVFAIL with a DNSSEC EDE → bogus;
+ * anything else that resolved → insecure. Returns null for undecodable/other failures.
+ */
+export function readDnssecStatus(resp: Buffer): DnssecStatus | null {
+  try {
+    const decoded: any = dnsPacket.decode(resp);
+    if (isServFail(resp)) return hasDnssecFailureEde(decoded) ? 'bogus' : null;
+    return (Number(decoded?.flags ?? 0) & dnsPacket.AUTHENTIC_DATA) !== 0 ? 'secure' : 'insecure';
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Shapes an upstream response (fetched with DO=1) for a client according to RFC 4035 §3.2.1:
+ * clients that did not set DO get no RRSIG/NSEC/NSEC3 records and no DO bit; the AD bit is
+ * only kept for clients that signalled they understand it. Returns `resp` itself when nothing
+ * had to change.
+ */
+export function adaptDnssecResponseForClient(resp: Buffer, client: DnssecClientFlags): Buffer {
+  if (client.dnssecOk) return resp;
+
+  let decoded: any;
+  try {
+    decoded = dnsPacket.decode(resp);
+  } catch {
+    return resp;
+  }
+
+  let changed = false;
+  const strip = (list: any): any[] => {
+    const all: any[] = Array.isArray(list) ? list : [];
+    const kept = all.filter((r) => !DNSSEC_RECORD_TYPES.has(String(r?.type)));
+    if (kept.length !== all.length) changed = true;
+    return kept;
+  };
+  const questionType = String(decoded?.questions?.[0]?.type ?? '');
+  // Explicit queries for DNSSEC types keep their answers.
+  const answers = DNSSEC_RECORD_TYPES.has(questionType) ? decoded.answers ?? [] : strip(decoded.answers);
+  const authorities = strip(decoded.authorities);
+
+  let additionals = strip(decoded.additionals);
+  if (client.edns) {
+    additionals = additionals.map((r: any) => {
+      if (r?.type !== 'OPT' || !(Number(r.flags ?? 0) & dnsPacket.DNSSEC_OK)) return r;
+      changed = true;
+      return { ...r, flags: Number(r.flags ?? 0) & ~dnsPacket.DNSSEC_OK };
+    });
+  } else if (additionals.some((r: any) => r?.type === 'OPT')) {
+    changed = true;
+    additionals = additionals.filter((r: any) => r?.type !== 'OPT');
+  }
+
+  let flags = Number(decoded.flags ?? 0);
+  if (!client.wantsAd && flags & dnsPacket.AUTHENTIC_DATA) {
+    changed = true;
+    flags &= ~dnsPacket.AUTHENTIC_DATA;
+  }
+  if (!changed) return resp;
+
+  try {
+    return dnsPacket.encode({ ...decoded, flags, answers, authorities, additionals } as any);
+  } catch {
+    return resp;
+  }
+}
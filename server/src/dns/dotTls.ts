@@ -0,0 +1,107 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+import type { AppConfig } from '../config.js';
+import { isDnsToken } from './clientIdentity.js';
+
+const execFileAsync = promisify(execFile);
+
+const SELF_SIGNED_VALIDITY_DAYS = 3650;
+
+export type DotCertificate = {
+  cert: Buffer;
+  key: Buffer;
+  certPath: string;
+  keyPath: string;
+  selfSigned: boolean;
+};
+
+function normalizeServerName(input: unknown): string {
+  const raw = String(input ?? '').trim().toLowerCase();
+  return raw.endsWith('.') ? raw.slice(0, -1) : raw;
+}
+
+export function resolveDotCertificatePaths(config: AppConfig): { certPath: string; keyPath: string; selfSigned: boolean } {
+  const certPath = String(config.DNS_TLS_CERT_PATH || '').trim();
+  const keyPath = String(config.DNS_TLS_KEY_PATH || '').trim();
+  if (certPath && keyPath) return { certPath, keyPath, selfSigned: false };
+
+  const dir = path.join(config.DATA_DIR || '/data', 'sentinel', 'tls');
+  return { certPath: path.join(dir, 'dot-selfsigned.crt'), keyPath: path.join(dir, 'dot-selfsigned.key'), selfSigned: true };
+}
+
+async function generateSelfSignedCertificate(certPath: string, keyPath: string, serverName: string): Promise<void> {
+  fs.mkdirSync(path.dirname(certPath), { recursive: true });
+
+  const cn = serverName || 'sentinel-dns';
+  // Include the wildcard so `<clientId>.<serverName>` SNI names match the same certificate.
+  const san = serverName ? `subjectAltName=DNS:${serverName},DNS:*.${serverName}` : 'subjectAltName=DNS:sentinel-dns';
+
+  await execFileAsync(
+    'openssl',
+    [
+      'req',
+      '-x509',
+      '-newkey',
+      'ec',
+      '-pkeyopt',
+      'ec_paramgen_curve:prime256v1',
+      '-nodes',
+      '-days',
+      String(SELF_SIGNED_VALIDITY_DAYS),
+      '-subj',
+      `/CN=${cn}`,
+      '-addext',
+      san,
+      '-keyout',
+      keyPath,
+      '-out',
+      certPath
+    ],
+    { timeout: 15_000, windowsHide: true }
+  );
+
+  try {
+    fs.chmodSync(keyPath, 0o600);
+  } catch {
+    // best-effort; ignore if FS doesn't support chmod
+  }
+}
+
+/**
+ * Loads the DoT certificate/key. Uses DNS_TLS_CERT_PATH/DNS_TLS_KEY_PATH when both are set,
+ * otherwise a self-signed pair persisted in DATA_DIR (generated on first use).
+ */
+export async function loadOrCreateDotCertificate(config: AppConfig): Promise<DotCertificate> {
+  const { certPath, keyPath, selfSigned } = resolveDotCertificatePaths(config);
+
+  if (selfSigned && !(fs.existsSync(certPath) && fs.existsSync(keyPath))) {
+    await generateSelfSignedCertificate(certPath, keyPath, normalizeServerName(config.DNS_TLS_SERVER_NAME));
+  }
+
+  return {
+    cert: fs.readFileSync(certPath),
+    key: fs.readFileSync(keyPath),
+    certPath,
+    keyPath,
+    selfSigned
+  };
+}
+
+/**
+ * Maps a TLS SNI name like `<token>.dns.example.com` to the profile's DoH/DoT token, given the
+ * configured DoT server name (`dns.example.com`). Any other label (e.g. a profile id) is ignored.
+ */
+export function extractClientIdFromSni(servername: unknown, serverName: unknown): string | undefined {
+  const sni = normalizeServerName(servername);
+  const base = normalizeServerName(serverName);
+  if (!sni || !base) return undefined;
+
+  const suffix = `.${base}`;
+  if (!sni.endsWith(suffix)) return undefined;
+
+  const label = sni.slice(0, -suffix.length);
+  return isDnsToken(label) ? label : undefined;
+}
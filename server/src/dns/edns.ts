@@ -0,0 +1,195 @@
+import dnsPacket from 'dns-packet';
+import ipaddr from 'ipaddr.js';
+
+export const ECS_MODES = ['strip', 'pass', 'synthesize'] as const;
+
+export type EcsMode = (typeof ECS_MODES)[number];
+
+export type EcsSettings = {
+  // strip: never send ECS upstream; pass: forward the client's own option unchanged;
+  // synthesize: send the client's public /24 (IPv6: /56) instead of whatever it sent.
+  mode: EcsMode;
+  // Public network sent for clients without a public address (LAN clients behind NAT), e.g. the
+  // WAN /24. Without it, synthesize strips ECS for those clients.
+  fallbackSubnet?: string;
+};
+
+export const DEFAULT_ECS_SETTINGS: EcsSettings = { mode: 'strip' };
+
+// What was sent upstream for a query (logged per query).
+export type EcsDecision = {
+  action: 'stripped' | 'passed' | 'synthesized' | 'none';
+  subnet?: string;
+  // Why synthesize sent nothing: the client address is not public and no fallback subnet is set.
+  reason?: 'non-public-client';
+};
+
+// DNS Flag Day 2020: the largest UDP payload that avoids IP fragmentation on common paths.
+export const EDNS_UDP_PAYLOAD_SIZE = 1232;
+// RFC 1035 limit for clients without EDNS.
+const CLASSIC_UDP_PAYLOAD_SIZE = 512;
+
+const ECS_OPTION_CODE = 8;
+const ECS_IPV4_PREFIX = 24;
+const ECS_IPV6_PREFIX = 56;
+
+export function isEcsMode(value: unknown): value is EcsMode {
+  return typeof value === 'string' && (ECS_MODES as readonly string[]).includes(value);
+}
+
+export function parseEcsSettings(value: any): EcsSettings {
+  const v = typeof value === 'object' && value ? value : {};
+  const out: EcsSettings = { mode: isEcsMode(v.mode) ? v.mode : DEFAULT_ECS_SETTINGS.mode };
+  const fallback = typeof v.fallbackSubnet === 'string' ? parseEcsSubnet(v.fallbackSubnet) : null;
+  if (fallback) out.fallbackSubnet = `${fallback.ip}/${fallback.prefix}`;
+  return out;
+}
+
+function findOpt(packet: any): any | null {
+  const additionals: any[] = Array.isArray(packet?.additionals) ? packet.additionals : [];
+  return additionals.find((r) => r?.type === 'OPT') ?? null;
+}
+
+function isEcsOption(option: any): boolean {
+  return Number(option?.code) === ECS_OPTION_CODE;
+}
+
+function withEcsOption(packet: any, option: any | null): any {
+  const additionals: any[] = Array.isArray(packet?.additionals) ? packet.additionals : [];
+  const hasOpt = additionals.some((r) => r?.type === 'OPT');
+  const next = additionals.map((r) => {
+    if (r?.type !== 'OPT') return r;
+    const options = (Array.isArray(r.options) ? r.options : []).filter((o: any) => !isEcsOption(o));
+    return { ...r, options: option ? [...options, option] : options };
+  });
+  if (!hasOpt && option) {
+    next.push({ type: 'OPT', name: '.', udpPayloadSize: EDNS_UDP_PAYLOAD_SIZE, flags: 0, options: [option] });
+  }
+  return { ...packet, additionals: next };
+}
+
+type EcsSubnet = { family: 1 | 2; ip: string; prefix: number };
+
+function toPublicEcsSubnet(addr: ipaddr.IPv4 | ipaddr.IPv6, maxPrefix?: number): EcsSubnet | null {
+  if (addr.range() !== 'unicast') return null;
+  const limit = addr.kind() === 'ipv4' ? ECS_IPV4_PREFIX : ECS_IPV6_PREFIX;
+  const prefix = Math.min(limit, maxPrefix ?? limit);
+  const network = (addr.kind() === 'ipv4' ? ipaddr.IPv4 : ipaddr.IPv6).networkAddressFromCIDR(`${addr.toString()}/${prefix}`);
+  return { family: addr.kind() === 'ipv4' ? 1 : 2, ip: network.toString(), prefix };
+}
+
+/** The client's /24 (IPv4) or /56 (IPv6) network; null for private, loopback and other non-public addresses. */
+export function publicEcsSubnet(clientIp: string): EcsSubnet | null {
+  try {
+    return toPublicEcsSubnet(ipaddr.process(clientIp));
+  } catch {
+    return null;
+  }
+}
+
+/** A configured public address or CIDR, widened to at most /24 (IPv6: /56); null when invalid or not public. */
+export function parseEcsSubnet(value: string): EcsSubnet | null {
+  const raw = value.trim();
+  if (!raw) return null;
+  try {
+    if (!raw.includes('/')) return toPublicEcsSubnet(ipaddr.process(raw));
+    const [addr, prefix] = ipaddr.parseCIDR(raw);
+    return toPublicEcsSubnet(addr, prefix);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Applies the ECS policy to a decoded client query. `query` is what should be forwarded;
+ * `changed` is false when the original wire message can be reused as is.
+ */
+export function applyEcsPolicy(query: any, settings: EcsSettings, clientIp: string): { query: any; changed: boolean; decision: EcsDecision } {
+  const clientOption = (findOpt(query)?.options ?? []).find(isEcsOption);
+  const clientSubnet = clientOption?.ip ? `${clientOption.ip}/${Number(clientOption.sourcePrefixLength ?? 0)}` : undefined;
+
+  if (settings.mode === 'pass') {
+    return { query, changed: false, decision: clientOption ? { action: 'passed', subnet: clientSubnet } : { action: 'none' } };
+  }
+
+  if (settings.mode === 'synthesize') {
+    const subnet = publicEcsSubnet(clientIp) ?? (settings.fallbackSubnet ? parseEcsSubnet(settings.fallbackSubnet) : null);
+    if (subnet) {
+      const option = { code: ECS_OPTION_CODE, family: subnet.family, sourcePrefixLength: subnet.prefix, scopePrefixLength: 0, ip: subnet.ip };
+      return {
+        query: withEcsOption(query, option),
+        changed: true,
+        decision: { action: 'synthesized', subnet: `${subnet.ip}/${subnet.prefix}` }
+      };
+    }
+    // Nothing public to send: behave like strip, but say so in the log.
+    const reason = 'non-public-client' as const;
+    if (!clientOption) return { query, changed: false, decision: { action: 'stripped', reason } };
+    return { query: withEcsOption(query, null), changed: true, decision: { action: 'stripped', subnet: clientSubnet, reason } };
+  }
+
+  if (!clientOption) return { query, changed: false, decision: { action: 'none' } };
+  return { query: withEcsOption(query, null), changed: true, decision: { action: 'stripped', subnet: clientSubnet } };
+}
+
+/** Removes an ECS option the upstream echoed for a subnet the client never sent (RFC 7871 §7.2.2). */
+export function stripEcsFromResponse(resp: Buffer): Buffer {
+  try {
+    const decoded: any = dnsPacket.decode(resp);
+    const opt = findOpt(decoded);
+    if (!opt || !(opt.options ?? []).some(isEcsOption)) return resp;
+    return dnsPacket.encode(withEcsOption(decoded, null));
+  } catch {
+    return resp;
+  }
+}
+
+/** The largest UDP response the client accepts: its EDNS payload size (capped), or 512 without EDNS. */
+export function readClientUdpPayloadSize(query: any): number {
+  const opt = findOpt(query);
+  if (!opt) return CLASSIC_UDP_PAYLOAD_SIZE;
+  const size = Number(opt.udpPayloadSize ?? 0);
+  return Math.min(EDNS_UDP_PAYLOAD_SIZE, Math.max(CLASSIC_UDP_PAYLOAD_SIZE, Number.isFinite(size) ? size : 0));
+}
+
+/**
+ * Fits a response into the client's UDP payload size. Oversized answers are replaced with an
+ * empty response carrying the TC bit so the client retries over TCP (RFC 7766 §5).
+ */
+export function fitUdpResponse(queryMsg: Buffer, resp: Buffer): { resp: Buffer; truncated: boolean } {
+  if (resp.length <= CLASSIC_UDP_PAYLOAD_SIZE) return { resp, truncated: false };
+
+  let query: any;
+  try {
+    query = dnsPacket.decode(queryMsg);
+  } catch {
+    query = null;
+  }
+  if (resp.length <= readClientUdpPayloadSize(query)) return { resp, truncated: false };
+
+  try {
+    const decoded: any = dnsPacket.decode(resp);
+    const opt = findOpt(decoded);
+    const truncated = dnsPacket.encode({
+      type: 'response',
+      id: decoded.id,
+      flags: Number(decoded.flags ?? 0) | dnsPacket.TRUNCATED_RESPONSE,
+      questions: decoded.questions ?? [],
+      answers: [],
+      authorities: [],
+      // Keep the OPT record for EDNS clients (extended rcode, DO bit).
+      additionals: opt && findOpt(query) ? [{ ...opt, options: [] }] : []
+    } as any);
+    return { resp: truncated, truncated: true };
+  } catch {
+    // Header-only fallback: same id/flags with TC set and all counts zeroed.
+    const header = Buffer.from(resp.subarray(0, 12));
+    header.writeUInt16BE(header.readUInt16BE(2) | dnsPacket.TRUNCATED_RESPONSE, 2);
+    header.fill(0, 4, 12);
+    return { resp: header, truncated: true };
+  }
+}
+
+export function isTruncatedResponse(resp: Buffer): boolean {
+  return resp.length >= 4 && (resp.readUInt16BE(2) & dnsPacket.TRUNCATED_RESPONSE) !== 0;
+}
@@ -0,0 +1,200 @@
+import { isIP } from 'node:net';
+
+import type { AppConfig } from '../config.js';
+import type { Db } from '../db.js';
+import { hostnameLabel } from '../dhcp/scopes.js';
+import { listDhcpLeases } from '../dhcp/leaseStore.js';
+import { readLeaseFiles } from '../discovery/leases.js';
+import { getMdnsHosts } from '../discovery/mdns.js';
+import { loadDiscoverySettings } from '../discovery/settings.js';
+import { readLocalRecords } from './localRecords.js';
+
+export type LocalDomainSettings = {
+  enabled: boolean;
+  // Zone answered authoritatively, e.g. `home.arpa` (RFC 8375).
+  domain: string;
+  // Names of client profiles with a fixed IP.
+  fromProfiles: boolean;
+  // Host names from built-in DHCP leases, lease files and mDNS.
+  fromDiscovery: boolean;
+};
+
+export const DEFAULT_LOCAL_DOMAIN_SETTINGS: LocalDomainSettings = {
+  enabled: false,
+  domain: 'home.arpa',
+  fromProfiles: true,
+  fromDiscovery: true
+};
+
+// Short: discovered addresses change with every new lease.
+export const LOCAL_HOST_TTL_SECONDS = 60;
+
+export type LocalHostSource = 'profile' | 'dhcp' | 'lease' | 'mdns';
+
+export type LocalHostRecord = {
+  name: string;
+  ip: string;
+  source: LocalHostSource;
+  profileId?: string;
+};
+
+/**
+ * A name that is not answered from the local domain: an explicit rewrite answers it with other
+ * addresses (`REWRITE`), or another device already claimed it (`DUPLICATE`).
+ */
+export type LocalHostConflict = LocalHostRecord & {
+  reason: 'REWRITE' | 'DUPLICATE';
+  rewriteId?: string;
+  winner?: { ip: string; source: LocalHostSource; profileId?: string };
+};
+
+export type LocalHostCandidate = { hostname: string; ip: string; source: LocalHostSource; profileId?: string };
+
+type ExactRewrite = { id: string; domain: string; addresses: string[] };
+
+/** Normalized zone name, or null when it cannot be served (`local` belongs to mDNS). */
+export function normalizeLocalDomain(value: unknown): string | null {
+  const raw = String(value ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/^\.+|\.+$/g, '');
+  if (!raw || raw.length > 253 || !/^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(raw)) return null;
+  if (raw === 'local' || raw.endsWith('.local')) return null;
+  return raw;
+}
+
+export function parseLocalDomainSettings(value: any): LocalDomainSettings {
+  const v = typeof value === 'object' && value ? value : {};
+  return {
+    enabled: v.enabled === true,
+    domain: normalizeLocalDomain(v.domain) ?? DEFAULT_LOCAL_DOMAIN_SETTINGS.domain,
+    fromProfiles: v.fromProfiles !== false,
+    fromDiscovery: v.fromDiscovery !== false
+  };
+}
+
+export function isInLocalDomain(name: string, domain: string): boolean {
+  return name === domain || name.endsWith(`.${domain}`);
+}
+
+/** Profiles with a fixed IP, as local host candidates named after the profile. */
+export function profileHostCandidates(profiles: any[]): LocalHostCandidate[] {
+  const out: LocalHostCandidate[] = [];
+  for (const p of profiles) {
+    if (!p || typeof p !== 'object' || p.type === 'subnet') continue;
+    const ip = typeof p.ip === 'string' ? p.ip.trim() : '';
+    if (!isIP(ip)) continue;
+    out.push({ hostname: String(p.name ?? ''), ip, source: 'profile', profileId: String(p.id ?? '') });
+  }
+  return out;
+}
+
+/**
+ * `<label>.<domain>` records for the candidates, in order: the first device to claim a name
+ * keeps it (one IPv4 and one IPv6 address per name). Names an exact rewrite already answers with
+ * other addresses are left to the rewrite and reported as conflicts.
+ */
+export function buildLocalHostRecords(
+  domain: string,
+  candidates: LocalHostCandidate[],
+  rewrites: ExactRewrite[]
+): { records: LocalHostRecord[]; conflicts: LocalHostConflict[] } {
+  const rewriteByName = new Map(rewrites.map((r) => [r.domain, r]));
+  const records: LocalHostRecord[] = [];
+  const conflicts: LocalHostConflict[] = [];
+  // name → family → record
+  const claimed = new Map<string, Map<number, LocalHostRecord>>();
+  const reported = new Set<string>();
+
+  for (const c of candidates) {
+    const label = hostnameLabel(c.hostname);
+    const family = isIP(c.ip);
+    if (!label || !family) continue;
+    const record: LocalHostRecord = { name: `${label}.${domain}`, ip: c.ip, source: c.source, ...(c.profileId ? { profileId: c.profileId } : {}) };
+
+    const rewrite = rewriteByName.get(record.name);
+    if (rewrite) {
+      const key = `${record.name}|${record.ip}`;
+      if (!rewrite.addresses.includes(record.ip) && !reported.has(key)) {
+        reported.add(key);
+        conflicts.push({ ...record, reason: 'REWRITE', rewriteId: rewrite.id });
+      }
+      continue;
+    }
+
+    const byFamily = claimed.get(record.name) ?? new Map<number, LocalHostRecord>();
+    const winner = byFamily.get(family);
+    if (winner) {
+      // The same device seen by several sources is not a conflict.
+      const key = `${record.name}|${record.ip}`;
+      if (winner.ip !== record.ip && !reported.has(key)) {
+        reported.add(key);
+        conflicts.push({
+          ...record,
+          reason: 'DUPLICATE',
+          winner: { ip: winner.ip, source: winner.source, ...(winner.profileId ? { profileId: winner.profileId } : {}) }
+        });
+      }
+      continue;
+    }
+    byFamily.set(family, record);
+    claimed.set(record.name, byFamily);
+    records.push(record);
+  }
+
+  return { records, conflicts };
+}
+
+/** Host names the passive discovery sources know: built-in DHCP leases, lease files, then mDNS. */
+async function loadDiscoveredHostCandidates(config: AppConfig, db: Db): Promise<LocalHostCandidate[]> {
+  const nowMs = Date.now();
+  const settings = await loadDiscoverySettings(db);
+  const [dhcpLeases, leaseFiles] = await Promise.all([listDhcpLeases(db), readLeaseFiles(config, settings.leaseFiles, nowMs)]);
+
+  const out: LocalHostCandidate[] = [];
+  for (const l of dhcpLeases) {
+    if (l.hostname && Date.parse(l.expiresAt) > nowMs) out.push({ hostname: l.hostname, ip: l.ip, source: 'dhcp' });
+  }
+  for (const l of leaseFiles.entries) {
+    if (l.hostname && (!l.expiresAt || Date.parse(l.expiresAt) > nowMs)) out.push({ hostname: l.hostname, ip: l.ip, source: 'lease' });
+  }
+  if (settings.mdns.enabled) {
+    for (const h of getMdnsHosts()) out.push({ hostname: h.hostname, ip: h.ip, source: 'mdns' });
+  }
+  return out;
+}
+
+/** Records and conflicts for the configured local domain; empty while it is disabled. */
+export async function loadLocalHosts(
+  config: AppConfig,
+  db: Db,
+  settings: LocalDomainSettings
+): Promise<{ records: LocalHostRecord[]; conflicts: LocalHostConflict[] }> {
+  if (!settings.enabled) return { records: [], conflicts: [] };
+
+  const [profilesRes, rewritesRes, discovered] = await Promise.all([
+    settings.fromProfiles
+      ? db.pool.query('SELECT profile FROM clients ORDER BY updated_at DESC')
+      : Promise.resolve({ rows: [] as Array<{ profile: unknown }> }),
+    db.pool.query('SELECT value FROM settings WHERE key = $1', ['dns_rewrites']),
+    settings.fromDiscovery ? loadDiscoveredHostCandidates(config, db) : Promise.resolve([])
+  ]);
+
+  const value = rewritesRes.rows?.[0]?.value;
+  const rawRewrites: any[] = Array.isArray(value?.items) ? value.items : Array.isArray(value) ? value : [];
+  const rewrites: ExactRewrite[] = [];
+  for (const r of rawRewrites) {
+    const domain = String(r?.domain ?? '').trim().toLowerCase().replace(/\.+$/, '');
+    if (!domain || domain.startsWith('*.')) continue;
+    const addresses = readLocalRecords(r)
+      .filter((rec) => rec.type === 'A' || rec.type === 'AAAA')
+      .map((rec) => rec.value);
+    rewrites.push({ id: String(r.id ?? ''), domain, addresses });
+  }
+
+  return buildLocalHostRecords(
+    settings.domain,
+    [...profileHostCandidates(profilesRes.rows.map((r) => r.profile)), ...discovered],
+    rewrites
+  );
+}
@@ -0,0 +1,192 @@
+import dnsPacket from 'dns-packet';
+import ipaddr from 'ipaddr.js';
+import net from 'node:net';
+
+export const LOCAL_RECORD_TYPES = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'SRV', 'PTR', 'CAA'] as const;
+
+export type LocalRecordType = (typeof LOCAL_RECORD_TYPES)[number];
+
+export const CAA_TAGS = ['issue', 'issuewild', 'iodef'] as const;
+
+/**
+ * One record of a local record set. `value` is the address (A/AAAA), host name
+ * (CNAME/PTR/MX exchange/SRV target), text (TXT) or CAA value; the remaining fields only
+ * apply to the types that use them.
+ */
+export type LocalRecord = {
+  type: LocalRecordType;
+  value: string;
+  ttl?: number;
+  // MX preference / SRV priority.
+  priority?: number;
+  weight?: number;
+  port?: number;
+  tag?: (typeof CAA_TAGS)[number];
+  flags?: number;
+};
+
+export const DEFAULT_LOCAL_RECORD_TTL = 60;
+export const MAX_LOCAL_RECORDS = 32;
+
+const MAX_TTL_SECONDS = 86400;
+const MAX_TXT_LENGTH = 1024;
+const HOSTNAME_RE = /^[a-z0-9_-]+(\.[a-z0-9_-]+)*$/;
+
+export function isLocalRecordType(value: unknown): value is LocalRecordType {
+  return typeof value === 'string' && (LOCAL_RECORD_TYPES as readonly string[]).includes(value);
+}
+
+function normalizeHostname(input: unknown): string {
+  const raw = String(input ?? '').trim().toLowerCase().replace(/\.+$/, '');
+  return raw.length <= 253 && HOSTNAME_RE.test(raw) ? raw : '';
+}
+
+function readUint(value: unknown, max: number): number | undefined {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 && n <= max ? n : undefined;
+}
+
+/** Validates and normalizes one stored/submitted record; returns null when it is unusable. */
+export function parseLocalRecord(raw: any): LocalRecord | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const type = typeof raw.type === 'string' ? raw.type.trim().toUpperCase() : '';
+  if (!isLocalRecordType(type)) return null;
+
+  const ttl = raw.ttl === undefined || raw.ttl === null || raw.ttl === '' ? undefined : readUint(raw.ttl, MAX_TTL_SECONDS);
+  if (ttl === undefined && raw.ttl !== undefined && raw.ttl !== null && raw.ttl !== '') return null;
+  const withTtl = (record: LocalRecord): LocalRecord => (ttl === undefined ? record : { ...record, ttl });
+
+  const text = typeof raw.value === 'string' ? raw.value.trim() : '';
+
+  switch (type) {
+    case 'A':
+    case 'AAAA':
+      return net.isIP(text) === (type === 'A' ? 4 : 6) ? withTtl({ type, value: text }) : null;
+    case 'CNAME':
+    case 'PTR': {
+      const value = normalizeHostname(text);
+      return value ? withTtl({ type, value }) : null;
+    }
+    case 'MX': {
+      const value = normalizeHostname(text);
+      const priority = raw.priority === undefined ? 10 : readUint(raw.priority, 65535);
+      return value && priority !== undefined ? withTtl({ type, value, priority }) : null;
+    }
+    case 'SRV': {
+      const value = normalizeHostname(text);
+      const priority = raw.priority === undefined ? 0 : readUint(raw.priority, 65535);
+      const weight = raw.weight === undefined ? 0 : readUint(raw.weight, 65535);
+      const port = readUint(raw.port, 65535);
+      if (!value || priority === undefined || weight === undefined || !port) return null;
+      return withTtl({ type, value, priority, weight, port });
+    }
+    case 'TXT':
+      return text && text.length <= MAX_TXT_LENGTH ? withTtl({ type, value: text }) : null;
+    case 'CAA': {
+      const tag = (CAA_TAGS as readonly string[]).includes(raw.tag) ? (raw.tag as LocalRecord['tag']) : undefined;
+      const flags = raw.flags === undefined ? 0 : readUint(raw.flags, 255);
+      if (!tag || flags === undefined || !text || text.length > 255) return null;
+      return withTtl({ type, value: text, tag, flags });
+    }
+  }
+}
+
+/** Legacy single-target rewrite: an IP becomes A/AAAA, anything else a CNAME. */
+export function recordsFromTarget(target: string): LocalRecord[] {
+  const value = String(target ?? '').trim();
+  const family = net.isIP(value);
+  if (family === 4) return [{ type: 'A', value }];
+  if (family === 6) return [{ type: 'AAAA', value }];
+  const host = normalizeHostname(value);
+  return host ? [{ type: 'CNAME', value: host }] : [];
+}
+
+/**
+ * Reads the record set of a stored rewrite entry (`records`, or the legacy `target`).
+ * Invalid records are dropped.
+ */
+export function readLocalRecords(entry: any): LocalRecord[] {
+  if (Array.isArray(entry?.records)) {
+    return entry.records
+      .slice(0, MAX_LOCAL_RECORDS)
+      .map(parseLocalRecord)
+      .filter((r: LocalRecord | null): r is LocalRecord => r !== null);
+  }
+  return typeof entry?.target === 'string' ? recordsFromTarget(entry.target) : [];
+}
+
+/** A CNAME cannot coexist with other data at the same name (RFC 1034 §3.6.2). */
+export function hasCnameConflict(records: LocalRecord[]): boolean {
+  return records.some((r) => r.type === 'CNAME') && records.length > 1;
+}
+
+/** `192.168.1.10` → `10.1.168.192.in-addr.arpa`; IPv6 uses the nibble format under ip6.arpa. */
+export function reverseNameForIp(ip: string): string | null {
+  try {
+    const addr = ipaddr.parse(ip);
+    if (addr.kind() === 'ipv4') return `${(addr as ipaddr.IPv4).octets.slice().reverse().join('.')}.in-addr.arpa`;
+    const nibbles = (addr as ipaddr.IPv6)
+      .toByteArray()
+      .flatMap((b) => [b >> 4, b & 0xf])
+      .map((n) => n.toString(16));
+    return `${nibbles.reverse().join('.')}.ip6.arpa`;
+  } catch {
+    return null;
+  }
+}
+
+/** Splits a TXT value into character-strings of at most 255 bytes without cutting a UTF-8 sequence. */
+function splitTxtValue(value: string): Buffer[] {
+  const bytes = Buffer.from(value, 'utf8');
+  const chunks: Buffer[] = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + 255, bytes.length);
+    // Back off continuation bytes (10xxxxxx) so the chunk ends on a character boundary.
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    chunks.push(bytes.subarray(start, end));
+    start = end;
+  }
+  return chunks;
+}
+
+function toAnswer(record: LocalRecord, name: string): any {
+  const ttl = record.ttl ?? DEFAULT_LOCAL_RECORD_TTL;
+  switch (record.type) {
+    case 'MX':
+      return { type: 'MX', name, ttl, data: { preference: record.priority ?? 10, exchange: record.value } };
+    case 'SRV':
+      return {
+        type: 'SRV',
+        name,
+        ttl,
+        data: { priority: record.priority ?? 0, weight: record.weight ?? 0, port: record.port ?? 0, target: record.value }
+      };
+    case 'TXT':
+      return { type: 'TXT', name, ttl, data: splitTxtValue(record.value) };
+    case 'CAA':
+      return { type: 'CAA', name, ttl, data: { flags: record.flags ?? 0, tag: record.tag ?? 'issue', value: record.value } };
+    default:
+      return { type: record.type, name, ttl, data: record.value };
+  }
+}
+
+/**
+ * Answers `qtype` from a local record set. A CNAME answers every type; otherwise the matching
+ * records are returned (all of them for ANY) and types without records get NODATA.
+ */
+export function buildLocalRecordsResponse(query: any, answerName: string, qtype: string, records: LocalRecord[]): Buffer {
+  const cname = records.find((r) => r.type === 'CNAME');
+  const matching = cname ? [cname] : qtype === 'ANY' ? records : records.filter((r) => r.type === qtype);
+
+  return dnsPacket.encode({
+    type: 'response',
+    id: query.id,
+    flags: query.flags,
+    questions: query.questions,
+    answers: matching.map((r) => toAnswer(r, answerName)),
+    authorities: [],
+    additionals: [],
+    rcode: 'NOERROR'
+  } as any);
+}
@@ -0,0 +1,131 @@
+export const RATE_LIMIT_ACTIONS = ['REFUSED', 'DROP'] as const;
+
+export type RateLimitAction = (typeof RATE_LIMIT_ACTIONS)[number];
+
+export type RateLimitSettings = {
+  enabled: boolean;
+  // Sustained queries per second and the bucket size (short bursts above qps).
+  qps: number;
+  burst: number;
+  action: RateLimitAction;
+};
+
+export const DEFAULT_RATE_LIMIT_SETTINGS: RateLimitSettings = { enabled: false, qps: 50, burst: 200, action: 'REFUSED' };
+
+const MAX_QPS = 100_000;
+// A client counts as throttled until it stays under its limit for this long.
+const THROTTLE_EPISODE_GAP_MS = 60_000;
+
+export type RateLimitBucket = {
+  tokens: number;
+  updatedMs: number;
+  clientIp: string;
+  clientId?: string;
+  clientName?: string;
+  // Queries refused/dropped since the bucket was created.
+  limited: number;
+  throttledSinceMs: number | null;
+  lastLimitedMs: number;
+};
+
+export type RateLimiter = { buckets: Map<string, RateLimitBucket> };
+
+export type ThrottledClient = {
+  key: string;
+  clientIp: string;
+  clientId?: string;
+  clientName?: string;
+  limited: number;
+  since: string;
+  lastLimitedAt: string;
+};
+
+export function isRateLimitAction(value: unknown): value is RateLimitAction {
+  return typeof value === 'string' && (RATE_LIMIT_ACTIONS as readonly string[]).includes(value);
+}
+
+function readPositive(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.min(MAX_QPS, Math.floor(n)) : fallback;
+}
+
+export function parseRateLimitSettings(value: any): RateLimitSettings {
+  const v = typeof value === 'object' && value ? value : {};
+  const qps = readPositive(v.qps, DEFAULT_RATE_LIMIT_SETTINGS.qps);
+  return {
+    enabled: v.enabled === true,
+    qps,
+    // The bucket must hold at least one second worth of queries.
+    burst: Math.max(qps, readPositive(v.burst, DEFAULT_RATE_LIMIT_SETTINGS.burst)),
+    action: isRateLimitAction(v.action) ? v.action : DEFAULT_RATE_LIMIT_SETTINGS.action
+  };
+}
+
+/** Per-client/subnet override: only present when the profile sets `enabled` explicitly. */
+export function parseRateLimitOverride(value: any): RateLimitSettings | undefined {
+  if (!value || typeof value !== 'object' || typeof value.enabled !== 'boolean') return undefined;
+  return parseRateLimitSettings(value);
+}
+
+export function createRateLimiter(): RateLimiter {
+  return { buckets: new Map() };
+}
+
+/**
+ * Takes one token from the client's bucket. `startedThrottling` is true for the first
+ * limited query of a new throttling episode (used to notify once instead of per query).
+ */
+export function takeRateLimitToken(
+  limiter: RateLimiter,
+  key: string,
+  settings: RateLimitSettings,
+  client: { clientIp: string; clientId?: string; clientName?: string },
+  nowMs: number
+): { allowed: boolean; startedThrottling: boolean } {
+  let bucket = limiter.buckets.get(key);
+  if (!bucket) {
+    bucket = { tokens: settings.burst, updatedMs: nowMs, limited: 0, throttledSinceMs: null, lastLimitedMs: 0, ...client };
+    limiter.buckets.set(key, bucket);
+  } else {
+    const elapsedSec = Math.max(0, nowMs - bucket.updatedMs) / 1000;
+    bucket.tokens = Math.min(settings.burst, bucket.tokens + elapsedSec * settings.qps);
+    bucket.updatedMs = nowMs;
+    bucket.clientName = client.clientName;
+  }
+
+  if (bucket.tokens >= 1) {
+    bucket.tokens -= 1;
+    return { allowed: true, startedThrottling: false };
+  }
+
+  const startedThrottling = bucket.throttledSinceMs === null || nowMs - bucket.lastLimitedMs > THROTTLE_EPISODE_GAP_MS;
+  if (startedThrottling) bucket.throttledSinceMs = nowMs;
+  bucket.limited += 1;
+  bucket.lastLimitedMs = nowMs;
+  return { allowed: false, startedThrottling };
+}
+
+/**
+ * Drops buckets that have been idle long enough to be full again and returns the clients
+ * that are currently throttled (limited within the episode gap).
+ */
+export function pruneRateLimiter(limiter: RateLimiter, nowMs: number): ThrottledClient[] {
+  const throttled: ThrottledClient[] = [];
+  for (const [key, bucket] of limiter.buckets) {
+    const recentlyLimited = bucket.throttledSinceMs !== null && nowMs - bucket.lastLimitedMs <= THROTTLE_EPISODE_GAP_MS;
+    if (recentlyLimited) {
+      throttled.push({
+        key,
+        clientIp: bucket.clientIp,
+        clientId: bucket.clientId,
+        clientName: bucket.clientName,
+        limited: bucket.limited,
+        since: new Date(bucket.throttledSinceMs as number).toISOString(),
+        lastLimitedAt: new Date(bucket.lastLimitedMs).toISOString()
+      });
+    } else if (nowMs - bucket.updatedMs > THROTTLE_EPISODE_GAP_MS) {
+      limiter.buckets.delete(key);
+    }
+  }
+  return throttled.sort((a, b) => b.limited - a.limited);
+}
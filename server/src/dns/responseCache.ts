@@ -0,0 +1,85 @@
+import dnsPacket from 'dns-packet';
+
+export type ResponseCacheSettings = {
+  // Clamp for the answer TTL used as cache lifetime (seconds).
+  minTtl: number;
+  maxTtl: number;
+  // RFC 8767: answer from an expired entry when every upstream fails.
+  serveStale: boolean;
+  // TTL given to clients on stale answers, and how long past expiry an entry may be served.
+  staleAnswerTtl: number;
+  staleMaxAge: number;
+  // Refresh frequently used entries shortly before they expire.
+  prefetch: boolean;
+};
+
+export const DEFAULT_RESPONSE_CACHE_SETTINGS: ResponseCacheSettings = {
+  minTtl: 0,
+  maxTtl: 300,
+  serveStale: true,
+  staleAnswerTtl: 30,
+  staleMaxAge: 86400,
+  prefetch: true
+};
+
+export const MAX_CACHE_TTL_SECONDS = 86400;
+export const MAX_STALE_AGE_SECONDS = 7 * 86400;
+
+// An entry is prefetched once it was served this often and is within the last part of its lifetime.
+const PREFETCH_MIN_HITS = 2;
+const PREFETCH_WINDOW_RATIO = 0.1;
+const PREFETCH_MIN_WINDOW_MS = 1000;
+
+export type DnsResponseCacheEntry = {
+  resp: Buffer;
+  storedAt: number;
+  expiresAt: number;
+  // Serve-stale deadline (equals expiresAt when stale answers are off).
+  staleUntil: number;
+  hits: number;
+  prefetching: boolean;
+};
+
+function readSeconds(value: unknown, max: number, fallback: number): number {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 && n <= max ? n : fallback;
+}
+
+export function parseResponseCacheSettings(value: any): ResponseCacheSettings {
+  const v = typeof value === 'object' && value ? value : {};
+  const d = DEFAULT_RESPONSE_CACHE_SETTINGS;
+  const minTtl = readSeconds(v.minTtl, MAX_CACHE_TTL_SECONDS, d.minTtl);
+  const maxTtl = readSeconds(v.maxTtl, MAX_CACHE_TTL_SECONDS, d.maxTtl);
+  return {
+    minTtl: Math.min(minTtl, maxTtl),
+    maxTtl,
+    serveStale: typeof v.serveStale === 'boolean' ? v.serveStale : d.serveStale,
+    // RFC 8767 §4: stale answers should carry a TTL of about 30s.
+    staleAnswerTtl: Math.max(1, readSeconds(v.staleAnswerTtl, 3600, d.staleAnswerTtl)),
+    staleMaxAge: readSeconds(v.staleMaxAge, MAX_STALE_AGE_SECONDS, d.staleMaxAge),
+    prefetch: typeof v.prefetch === 'boolean' ? v.prefetch : d.prefetch
+  };
+}
+
+/** Cache lifetime (seconds) for an upstream answer whose smallest TTL is `answerTtl`. */
+export function clampCacheTtl(answerTtl: number, settings: ResponseCacheSettings): number {
+  if (answerTtl <= 0) return 0;
+  return Math.min(settings.maxTtl, Math.max(settings.minTtl, answerTtl));
+}
+
+export function shouldPrefetch(entry: DnsResponseCacheEntry, nowMs: number): boolean {
+  if (entry.prefetching || entry.hits < PREFETCH_MIN_HITS) return false;
+  const window = Math.max(PREFETCH_MIN_WINDOW_MS, (entry.expiresAt - entry.storedAt) * PREFETCH_WINDOW_RATIO);
+  return entry.expiresAt - nowMs <= window;
+}
+
+/** Rewrites every answer/authority TTL (the OPT pseudo-record is left alone). */
+export function withResponseTtl(resp: Buffer, ttl: number): Buffer {
+  try {
+    const decoded: any = dnsPacket.decode(resp);
+    const retime = (list: any): any[] => (Array.isArray(list) ? list.map((r) => ({ ...r, ttl })) : []);
+    return dnsPacket.encode({ ...decoded, answers: retime(decoded.answers), authorities: retime(decoded.authorities) });
+  } catch {
+    return resp;
+  }
+}
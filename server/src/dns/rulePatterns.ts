@@ -0,0 +1,217 @@
+// Glob and regex syntaxes for manual allow/block rules. Plain domains keep matching through the
+// Set-based index in dnsServer.ts; only rules written as a pattern end up here.
+//
+//   ads*.example.com            glob: `*` matches any characters (dots included), whole name
+//   /^[a-z0-9]{20}\.(xyz|top)$/ regex: JavaScript syntax, case-insensitive
+
+export type RulePatternKind = 'domain' | 'glob' | 'regex';
+
+export type CompiledRulePattern = {
+  // The rule as stored, shown when explaining a match.
+  pattern: string;
+  kind: 'glob' | 'regex';
+  test: (name: string) => boolean;
+};
+
+export type ManualPatternRules = {
+  allowed: CompiledRulePattern[];
+  blocked: CompiledRulePattern[];
+};
+
+export type RulePatternError = {
+  error: 'INVALID_PATTERN' | 'PATTERN_TOO_COMPLEX';
+  message: string;
+};
+
+export const MAX_RULE_REGEX_LENGTH = 200;
+// Rules run synchronously for every query, so a regex must not be able to backtrack for long on
+// any name. Repeated groups that contain alternation or another quantifier are exponential and
+// are rejected outright; sequences of repetitions are polynomial, so their combined range (times
+// the name length when the pattern is not anchored with ^) must stay under a budget of about a
+// millisecond of matching.
+const MAX_QUERY_NAME_LENGTH = 253;
+const MAX_REGEX_REPEAT_BOUND = 63;
+const MAX_REGEX_BACKTRACK_COST = 1_000_000;
+
+export function rulePatternKind(value: string): RulePatternKind {
+  const v = String(value ?? '').trim();
+  if (v.length > 2 && v.startsWith('/') && v.endsWith('/')) return 'regex';
+  if (v.includes('*')) return 'glob';
+  return 'domain';
+}
+
+/** Why a regex body is too expensive to run per query, or null. */
+function regexComplexityError(body: string): string | null {
+  if (/\\[1-9]|\\k</.test(body)) return 'Backreferences are not supported.';
+
+  // One entry per open group: whether it contains alternation or a repetition.
+  const groups: boolean[] = [];
+  // The atom just before the current position is a group that contains alternation or a repetition.
+  let prevGroupAmbiguous = false;
+  // The previous character was a quantifier, so a following `?` makes it lazy.
+  let afterQuantifier = false;
+  let cost = body.startsWith('^') ? 1 : MAX_QUERY_NAME_LENGTH;
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === '?' && afterQuantifier) {
+      afterQuantifier = false;
+      continue;
+    }
+    afterQuantifier = false;
+
+    if (ch === '\\') {
+      i++;
+      prevGroupAmbiguous = false;
+      continue;
+    }
+    if (ch === '[') {
+      i++;
+      if (body[i] === '^') i++;
+      if (body[i] === ']') i++;
+      while (i < body.length && body[i] !== ']') {
+        if (body[i] === '\\') i++;
+        i++;
+      }
+      prevGroupAmbiguous = false;
+      continue;
+    }
+    if (ch === '(') {
+      groups.push(false);
+      // (?:, (?=, (?!, (?<=, (?<!, (?<name>
+      if (body[i + 1] === '?') {
+        const m = /^\?(<[A-Za-z_$][\w$]*>|<=|<!|[:=!])/.exec(body.slice(i + 1));
+        if (m) i += m[0].length;
+      }
+      prevGroupAmbiguous = false;
+      continue;
+    }
+    if (ch === ')') {
+      const had = groups.pop() ?? false;
+      if (had && groups.length) groups[groups.length - 1] = true;
+      prevGroupAmbiguous = had;
+      continue;
+    }
+    if (ch === '|') {
+      if (groups.length) groups[groups.length - 1] = true;
+      prevGroupAmbiguous = false;
+      continue;
+    }
+
+    if (ch === '*' || ch === '+' || ch === '?' || ch === '{') {
+      let min = ch === '+' ? 1 : 0;
+      let max = ch === '?' ? 1 : Infinity;
+      if (ch === '{') {
+        const m = /^\{(\d+)(,(\d*))?\}/.exec(body.slice(i));
+        if (!m) {
+          // A literal brace.
+          prevGroupAmbiguous = false;
+          continue;
+        }
+        min = Number(m[1]);
+        max = m[2] ? (m[3] ? Number(m[3]) : Infinity) : min;
+        if (min > MAX_REGEX_REPEAT_BOUND || (Number.isFinite(max) && max > MAX_REGEX_REPEAT_BOUND)) {
+          return `Repetition counts above ${MAX_REGEX_REPEAT_BOUND} are not supported.`;
+        }
+        i += m[0].length - 1;
+      }
+      if (prevGroupAmbiguous && max > 1) {
+        return 'Repeated groups may not contain alternation or quantifiers, e.g. (a|b)+ or (a+)+.';
+      }
+      cost *= Math.min(max, MAX_QUERY_NAME_LENGTH) - min + 1;
+      if (cost > MAX_REGEX_BACKTRACK_COST) {
+        return 'Too many open-ended repetitions; anchor the pattern with ^ or use fewer *, + and {n,m}.';
+      }
+      if (groups.length) groups[groups.length - 1] = true;
+      prevGroupAmbiguous = false;
+      afterQuantifier = true;
+      continue;
+    }
+
+    prevGroupAmbiguous = false;
+  }
+
+  return null;
+}
+
+/**
+ * Whole-name glob match where `*` matches any run of characters. Backtracks only to the last
+ * `*`, so it runs in O(name * pattern) where an equivalent `.*` regex can take exponential time.
+ */
+function globMatches(glob: string, name: string): boolean {
+  let p = 0;
+  let n = 0;
+  let star = -1;
+  let starName = 0;
+  while (n < name.length) {
+    if (p < glob.length && glob[p] === '*') {
+      star = p++;
+      starName = n;
+    } else if (p < glob.length && glob[p] === name[n]) {
+      p++;
+      n++;
+    } else if (star >= 0) {
+      p = star + 1;
+      n = ++starName;
+    } else {
+      return false;
+    }
+  }
+  while (p < glob.length && glob[p] === '*') p++;
+  return p === glob.length;
+}
+
+/**
+ * Validates a rule value and returns it normalized for storage. Plain domains pass through
+ * unchanged; globs are lowercased, regexes must compile and stay within the complexity limits.
+ */
+export function parseRulePattern(value: string): { kind: RulePatternKind; pattern: string } | RulePatternError {
+  const raw = String(value ?? '').trim();
+  const kind = rulePatternKind(raw);
+  if (kind === 'domain') return { kind, pattern: String(value ?? '') };
+
+  if (kind === 'glob') {
+    const glob = raw.toLowerCase().replace(/\.+$/, '').replace(/\*+/g, '*');
+    if (!/^[a-z0-9*._-]+$/.test(glob)) {
+      return { error: 'INVALID_PATTERN', message: 'Wildcard rules may only contain letters, digits, ".", "-", "_" and "*".' };
+    }
+    if (!/[a-z0-9]/.test(glob)) {
+      return { error: 'INVALID_PATTERN', message: 'A wildcard rule must contain at least one literal character.' };
+    }
+    return { kind, pattern: glob };
+  }
+
+  const body = raw.slice(1, -1);
+  if (body.length > MAX_RULE_REGEX_LENGTH) {
+    return { error: 'PATTERN_TOO_COMPLEX', message: `Regular expressions are limited to ${MAX_RULE_REGEX_LENGTH} characters.` };
+  }
+  const complexity = regexComplexityError(body);
+  if (complexity) return { error: 'PATTERN_TOO_COMPLEX', message: complexity };
+  try {
+    new RegExp(body, 'i');
+  } catch (e: any) {
+    return { error: 'INVALID_PATTERN', message: String(e?.message || 'Invalid regular expression.') };
+  }
+  return { kind, pattern: raw };
+}
+
+/** Compiled glob/regex rule, or null for plain domains and values that do not validate. */
+export function compileRulePattern(value: string): CompiledRulePattern | null {
+  const parsed = parseRulePattern(value);
+  if ('error' in parsed || parsed.kind === 'domain') return null;
+  if (parsed.kind === 'glob') {
+    const glob = parsed.pattern;
+    return { pattern: glob, kind: 'glob', test: (name) => globMatches(glob, name) };
+  }
+  const re = new RegExp(parsed.pattern.slice(1, -1), 'i');
+  return { pattern: parsed.pattern, kind: 'regex', test: (name) => re.test(name) };
+}
+
+/** First rule whose pattern matches the (normalized) query name. */
+export function matchRulePatterns(rules: CompiledRulePattern[] | undefined, name: string): CompiledRulePattern | null {
+  if (!rules?.length || !name) return null;
+  for (const rule of rules) {
+    if (rule.test(name)) return rule;
+  }
+  return null;
+}
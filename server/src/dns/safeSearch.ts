@@ -0,0 +1,78 @@
+export const YOUTUBE_RESTRICT_MODES = ['off', 'moderate', 'strict'] as const;
+
+export type YoutubeRestrictMode = (typeof YOUTUBE_RESTRICT_MODES)[number];
+
+export type SafeSearchEngine = 'google' | 'youtube' | 'bing' | 'duckduckgo' | 'yandex';
+
+export type SafeSearchPolicy = {
+  // Google, Bing, DuckDuckGo and Yandex.
+  search: boolean;
+  youtube: YoutubeRestrictMode;
+};
+
+export const DEFAULT_SAFE_SEARCH_POLICY: SafeSearchPolicy = { search: false, youtube: 'off' };
+
+export type SafeSearchRewrite = { engine: SafeSearchEngine; target: string };
+
+// Google serves search on google.<tld>, google.co.<cc> and google.com.<cc>.
+const GOOGLE_SEARCH_RE = /^(www\.)?google\.(com|[a-z]{2}|co\.[a-z]{2}|com\.[a-z]{2})$/;
+
+const YOUTUBE_HOSTS = new Set([
+  'youtube.com',
+  'www.youtube.com',
+  'm.youtube.com',
+  'youtubei.googleapis.com',
+  'youtube.googleapis.com',
+  'www.youtube-nocookie.com'
+]);
+
+const BING_HOSTS = new Set(['bing.com', 'www.bing.com']);
+
+const DUCKDUCKGO_HOSTS = new Set(['duckduckgo.com', 'www.duckduckgo.com', 'start.duckduckgo.com']);
+
+const YANDEX_SEARCH_RE = /^(www\.)?yandex\.(ru|com|ua|by|kz|com\.tr)$/;
+
+export function isYoutubeRestrictMode(value: unknown): value is YoutubeRestrictMode {
+  return typeof value === 'string' && (YOUTUBE_RESTRICT_MODES as readonly string[]).includes(value);
+}
+
+export function parseSafeSearchPolicy(value: any): SafeSearchPolicy {
+  const v = typeof value === 'object' && value ? value : {};
+  return {
+    search: v.search === true,
+    youtube: isYoutubeRestrictMode(v.youtube) ? v.youtube : DEFAULT_SAFE_SEARCH_POLICY.youtube
+  };
+}
+
+/** Combines the policies that apply to a query; the strictest setting of each wins. */
+export function mergeSafeSearchPolicies(policies: SafeSearchPolicy[]): SafeSearchPolicy {
+  const rank = (mode: YoutubeRestrictMode) => YOUTUBE_RESTRICT_MODES.indexOf(mode);
+  let out: SafeSearchPolicy = { ...DEFAULT_SAFE_SEARCH_POLICY };
+  for (const p of policies) {
+    out = { search: out.search || p.search, youtube: rank(p.youtube) > rank(out.youtube) ? p.youtube : out.youtube };
+  }
+  return out;
+}
+
+export function isSafeSearchActive(policy: SafeSearchPolicy): boolean {
+  return policy.search || policy.youtube !== 'off';
+}
+
+/**
+ * Returns the CNAME target that enforces the policy for `normalizedName`, or null when the
+ * name is not a search/YouTube host covered by the policy.
+ */
+export function findSafeSearchRewrite(normalizedName: string, policy: SafeSearchPolicy): SafeSearchRewrite | null {
+  if (policy.youtube !== 'off' && YOUTUBE_HOSTS.has(normalizedName)) {
+    return {
+      engine: 'youtube',
+      target: policy.youtube === 'strict' ? 'restrict.youtube.com' : 'restrictmoderate.youtube.com'
+    };
+  }
+  if (!policy.search) return null;
+  if (GOOGLE_SEARCH_RE.test(normalizedName)) return { engine: 'google', target: 'forcesafesearch.google.com' };
+  if (BING_HOSTS.has(normalizedName)) return { engine: 'bing', target: 'strict.bing.com' };
+  if (DUCKDUCKGO_HOSTS.has(normalizedName)) return { engine: 'duckduckgo', target: 'safe.duckduckgo.com' };
+  if (YANDEX_SEARCH_RE.test(normalizedName)) return { engine: 'yandex', target: 'familysearch.yandex.ru' };
+  return null;
+}
@@ -0,0 +1,182 @@
+import crypto from 'node:crypto';
+import dnsPacket from 'dns-packet';
+
+import { buildDnssecUpstreamQuery, readDnssecStatus } from './dnssec.js';
+import { describeUpstream, type UpstreamTarget } from './upstreamPool.js';
+
+export type BenchmarkCandidate = { label: string; upstream: UpstreamTarget; unbound?: boolean };
+
+export type LatencySummary = { p50: number | null; p95: number | null; avg: number | null };
+
+// validating: signed name comes back with AD and the deliberately broken one with SERVFAIL.
+export type BenchmarkDnssecSupport = 'validating' | 'not-validating' | 'unknown';
+
+export type BenchmarkResult = {
+  label: string;
+  target: string;
+  transport: UpstreamTarget['transport'];
+  upstream: UpstreamTarget;
+  unbound?: boolean;
+  // First lookup of each name in the run vs. the immediate repeat (usually answered from the resolver's cache).
+  cold: LatencySummary;
+  warm: LatencySummary;
+  queries: number;
+  failures: number;
+  failureRate: number;
+  // Answers that carried the AD bit.
+  secureAnswers: number;
+  dnssec: BenchmarkDnssecSupport;
+  lastError?: string;
+};
+
+export type BenchmarkForward = (upstream: UpstreamTarget, msg: Buffer) => Promise<Buffer>;
+
+export const MAX_BENCHMARK_CANDIDATES = 8;
+export const MAX_BENCHMARK_DOMAINS = 50;
+export const DEFAULT_BENCHMARK_DOMAINS = 20;
+// Per-query timeout; far below the DoH forward default so a dead candidate can't stall the run.
+export const BENCHMARK_QUERY_TIMEOUT_MS = 3000;
+
+// Used when the query log has too little history.
+export const FALLBACK_BENCHMARK_DOMAINS = [
+  'google.com',
+  'youtube.com',
+  'apple.com',
+  'microsoft.com',
+  'amazon.com',
+  'wikipedia.org',
+  'github.com',
+  'cloudflare.com',
+  'netflix.com',
+  'whatsapp.net'
+];
+
+const DNSSEC_SIGNED_PROBE = 'isc.org';
+const DNSSEC_BOGUS_PROBE = 'dnssec-failed.org';
+const BENCHMARK_CONCURRENCY = 4;
+// Local names never reach a public upstream, so they say nothing about it.
+const LOCAL_SUFFIXES = ['.local', '.lan', '.home', '.internal', '.arpa', '.localdomain'];
+
+/** Nearest-rank percentile of `values` (ms, rounded); null when there are no samples. */
+export function percentile(values: number[], p: number): number | null {
+  if (!values.length) return null;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const rank = Math.min(sorted.length, Math.max(1, Math.ceil((p / 100) * sorted.length)));
+  return Math.round(sorted[rank - 1]);
+}
+
+function summarize(values: number[]): LatencySummary {
+  return {
+    p50: percentile(values, 50),
+    p95: percentile(values, 95),
+    avg: values.length ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : null
+  };
+}
+
+/** Keeps public names from the query log (deduplicated, lowercased), in their original order. */
+export function selectBenchmarkDomains(names: unknown[], limit: number): string[] {
+  const out: string[] = [];
+  for (const raw of names) {
+    const name = String(raw ?? '').trim().toLowerCase().replace(/\.+$/, '');
+    if (!name.includes('.') || LOCAL_SUFFIXES.some((s) => name.endsWith(s)) || out.includes(name)) continue;
+    out.push(name);
+    if (out.length >= limit) break;
+  }
+  return out;
+}
+
+function buildBenchmarkQuery(name: string): Buffer {
+  return buildDnssecUpstreamQuery({
+    id: crypto.randomInt(0, 65536),
+    flags: dnsPacket.RECURSION_DESIRED,
+    questions: [{ type: 'A', name, class: 'IN' }]
+  });
+}
+
+function readRcode(resp: Buffer): number {
+  return resp.length >= 4 ? resp[3] & 0x0f : -1;
+}
+
+// NOERROR and NXDOMAIN are answers; SERVFAIL, REFUSED etc. count as failures.
+function isAnswered(resp: Buffer): boolean {
+  const rcode = readRcode(resp);
+  return rcode === 0 || rcode === 3;
+}
+
+async function timed(forward: BenchmarkForward, upstream: UpstreamTarget, name: string): Promise<{ ms: number; resp: Buffer }> {
+  const started = performance.now();
+  const resp = await forward(upstream, buildBenchmarkQuery(name));
+  return { ms: performance.now() - started, resp };
+}
+
+async function probeDnssec(forward: BenchmarkForward, upstream: UpstreamTarget): Promise<BenchmarkDnssecSupport> {
+  const [signed, bogus] = await Promise.allSettled([timed(forward, upstream, DNSSEC_SIGNED_PROBE), timed(forward, upstream, DNSSEC_BOGUS_PROBE)]);
+  if (signed.status !== 'fulfilled' || !isAnswered(signed.value.resp)) return 'unknown';
+  if (readDnssecStatus(signed.value.resp) !== 'secure') return 'not-validating';
+  if (bogus.status === 'fulfilled' && isAnswered(bogus.value.resp)) return 'not-validating';
+  return 'validating';
+}
+
+async function benchmarkCandidate(candidate: BenchmarkCandidate, domains: string[], forward: BenchmarkForward): Promise<BenchmarkResult> {
+  const cold: number[] = [];
+  const warm: number[] = [];
+  let queries = 0;
+  let failures = 0;
+  let secureAnswers = 0;
+  let lastError: string | undefined;
+
+  const measure = async (name: string, into: number[]): Promise<void> => {
+    queries += 1;
+    try {
+      const { ms, resp } = await timed(forward, candidate.upstream, name);
+      if (!isAnswered(resp)) {
+        failures += 1;
+        lastError = `${name}: rcode ${readRcode(resp)}`;
+        return;
+      }
+      into.push(ms);
+      if (readDnssecStatus(resp) === 'secure') secureAnswers += 1;
+    } catch (e) {
+      failures += 1;
+      lastError = `${name}: ${e instanceof Error ? e.message : String(e)}`;
+    }
+  };
+
+  let cursor = 0;
+  const worker = async (): Promise<void> => {
+    while (cursor < domains.length) {
+      const name = domains[cursor++];
+      await measure(name, cold);
+      await measure(name, warm);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(BENCHMARK_CONCURRENCY, domains.length) }, worker));
+
+  return {
+    label: candidate.label,
+    target: describeUpstream(candidate.upstream),
+    transport: candidate.upstream.transport,
+    upstream: candidate.upstream,
+    ...(candidate.unbound ? { unbound: true } : {}),
+    cold: summarize(cold),
+    warm: summarize(warm),
+    queries,
+    failures,
+    failureRate: queries ? failures / queries : 0,
+    secureAnswers,
+    dnssec: await probeDnssec(forward, candidate.upstream),
+    ...(lastError ? { lastError } : {})
+  };
+}
+
+/**
+ * Resolves every domain twice (cold, then warm) against each candidate and probes DNSSEC
+ * validation. Candidates run side by side so they see the same network conditions.
+ */
+export async function runUpstreamBenchmark(
+  candidates: BenchmarkCandidate[],
+  domains: string[],
+  forward: BenchmarkForward
+): Promise<BenchmarkResult[]> {
+  return await Promise.all(candidates.map((c) => benchmarkCandidate(c, domains, forward)));
+}
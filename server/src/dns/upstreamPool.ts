@@ -0,0 +1,203 @@
+export type UpstreamTarget =
+  | { transport: 'udp' | 'tcp' | 'dot'; host: string; port: number }
+  | { transport: 'doh'; dohUrl: string };
+
+export const UPSTREAM_STRATEGIES = ['failover', 'round-robin', 'fastest', 'parallel'] as const;
+
+export type UpstreamStrategy = (typeof UPSTREAM_STRATEGIES)[number];
+
+export const MAX_UPSTREAMS = 8;
+
+export type UpstreamHealth = {
+  target: string;
+  transport: UpstreamTarget['transport'];
+  healthy: boolean;
+  consecutiveFailures: number;
+  successes: number;
+  failures: number;
+  // Exponentially weighted moving average of successful round-trips.
+  ewmaLatencyMs: number | null;
+  lastLatencyMs: number | null;
+  lastOkAt: string | null;
+  lastError: { at: string; code?: string; message: string } | null;
+  // While unhealthy the upstream is only tried after every healthy one; once this passes it is probed again.
+  downUntilMs: number;
+};
+
+export type UpstreamPool = {
+  strategy: UpstreamStrategy;
+  upstreams: UpstreamTarget[];
+  health: UpstreamHealth[];
+  rrCursor: number;
+};
+
+export type UpstreamForwardResult = { resp: Buffer; upstream: UpstreamTarget; index: number };
+
+const EWMA_ALPHA = 0.3;
+const FAILURE_THRESHOLD = 3;
+const DOWN_COOLDOWN_MS = 30_000;
+
+export function isUpstreamStrategy(value: unknown): value is UpstreamStrategy {
+  return typeof value === 'string' && (UPSTREAM_STRATEGIES as readonly string[]).includes(value);
+}
+
+export function describeUpstream(upstream: UpstreamTarget): string {
+  return upstream.transport === 'doh' ? upstream.dohUrl : `${upstream.host}:${upstream.port}`;
+}
+
+/** Parses a stored `{ transport, host, port, dohUrl }` entry; returns null when it is incomplete. */
+export function parseUpstreamTarget(value: any): UpstreamTarget | null {
+  if (!value || typeof value !== 'object') return null;
+  const transport =
+    value.transport === 'tcp' ? 'tcp' : value.transport === 'dot' ? 'dot' : value.transport === 'doh' ? 'doh' : 'udp';
+
+  if (transport === 'doh') {
+    const dohUrl = typeof value.dohUrl === 'string' ? value.dohUrl.trim() : '';
+    return dohUrl ? { transport, dohUrl } : null;
+  }
+
+  const host = typeof value.host === 'string' ? value.host.trim() : '';
+  const port = Number(value.port);
+  if (!host || !Number.isFinite(port) || port <= 0) return null;
+  return { transport, host, port: Math.min(65535, Math.floor(port)) };
+}
+
+function newHealth(upstream: UpstreamTarget): UpstreamHealth {
+  return {
+    target: describeUpstream(upstream),
+    transport: upstream.transport,
+    healthy: true,
+    consecutiveFailures: 0,
+    successes: 0,
+    failures: 0,
+    ewmaLatencyMs: null,
+    lastLatencyMs: null,
+    lastOkAt: null,
+    lastError: null,
+    downUntilMs: 0
+  };
+}
+
+/**
+ * Builds the pool for a (re)loaded upstream list. Health/latency stats of upstreams that are
+ * still configured carry over so the periodic settings refresh does not reset them.
+ */
+export function createUpstreamPool(upstreams: UpstreamTarget[], strategy: UpstreamStrategy, previous?: UpstreamPool | null): UpstreamPool {
+  const list = upstreams.slice(0, MAX_UPSTREAMS);
+  const prevByKey = new Map<string, UpstreamHealth>();
+  for (const h of previous?.health ?? []) prevByKey.set(`${h.transport}|${h.target}`, h);
+
+  return {
+    strategy,
+    upstreams: list,
+    health: list.map((u) => prevByKey.get(`${u.transport}|${describeUpstream(u)}`) ?? newHealth(u)),
+    rrCursor: previous && previous.upstreams.length === list.length ? previous.rrCursor : 0
+  };
+}
+
+export function recordUpstreamSuccess(health: UpstreamHealth, latencyMs: number, nowMs: number): void {
+  const latency = Math.max(0, latencyMs);
+  health.successes += 1;
+  health.consecutiveFailures = 0;
+  health.healthy = true;
+  health.downUntilMs = 0;
+  health.lastLatencyMs = latency;
+  health.ewmaLatencyMs = health.ewmaLatencyMs === null ? latency : health.ewmaLatencyMs + EWMA_ALPHA * (latency - health.ewmaLatencyMs);
+  health.lastOkAt = new Date(nowMs).toISOString();
+}
+
+export function recordUpstreamFailure(health: UpstreamHealth, error: unknown, nowMs: number): void {
+  const e: any = error;
+  health.failures += 1;
+  health.consecutiveFailures += 1;
+  health.lastError = {
+    at: new Date(nowMs).toISOString(),
+    code: typeof e?.code === 'string' ? e.code : undefined,
+    message: e instanceof Error ? e.message : String(e ?? 'UPSTREAM_ERROR')
+  };
+  if (health.consecutiveFailures >= FAILURE_THRESHOLD) {
+    health.healthy = false;
+    health.downUntilMs = nowMs + DOWN_COOLDOWN_MS;
+  }
+}
+
+function isAvailable(health: UpstreamHealth, nowMs: number): boolean {
+  return health.healthy || nowMs >= health.downUntilMs;
+}
+
+/**
+ * Returns upstream indexes in the order a query should try them: available upstreams first
+ * (ordered by strategy), upstreams still cooling down after failures last.
+ */
+export function orderUpstreams(pool: UpstreamPool, nowMs: number): number[] {
+  const n = pool.upstreams.length;
+  let order = Array.from({ length: n }, (_, i) => i);
+
+  if (pool.strategy === 'round-robin' && n > 1) {
+    const start = pool.rrCursor % n;
+    pool.rrCursor = (start + 1) % n;
+    order = order.map((_, i) => (start + i) % n);
+  } else if (pool.strategy === 'fastest') {
+    // Unmeasured upstreams sort first so every upstream gets a latency sample.
+    const latency = (i: number) => pool.health[i]?.ewmaLatencyMs ?? -1;
+    order.sort((a, b) => latency(a) - latency(b) || a - b);
+  }
+
+  const available = order.filter((i) => isAvailable(pool.health[i], nowMs));
+  const cooling = order.filter((i) => !isAvailable(pool.health[i], nowMs));
+  return [...available, ...cooling];
+}
+
+/**
+ * Resolves `msg` through the pool. failover/round-robin/fastest try upstreams sequentially
+ * until one answers; parallel races every available upstream and returns the first answer.
+ * Throws the last error when every upstream failed.
+ */
+export async function forwardViaPool(
+  pool: UpstreamPool,
+  forward: (upstream: UpstreamTarget) => Promise<Buffer>,
+  now: () => number = Date.now
+): Promise<UpstreamForwardResult> {
+  const order = orderUpstreams(pool, now());
+  if (!order.length) throw new Error('NO_UPSTREAM');
+
+  const attempt = async (index: number): Promise<UpstreamForwardResult> => {
+    const upstream = pool.upstreams[index];
+    const health = pool.health[index];
+    const startedAt = now();
+    try {
+      const resp = await forward(upstream);
+      recordUpstreamSuccess(health, now() - startedAt, now());
+      return { resp, upstream, index };
+    } catch (e) {
+      recordUpstreamFailure(health, e, now());
+      throw e;
+    }
+  };
+
+  if (pool.strategy === 'parallel' && order.length > 1) {
+    const racers = order.filter((i) => isAvailable(pool.health[i], now()));
+    const targets = racers.length ? racers : order;
+    return await new Promise<UpstreamForwardResult>((resolve, reject) => {
+      let pending = targets.length;
+      let lastError: unknown = null;
+      for (const i of targets) {
+        attempt(i).then(resolve, (e) => {
+          lastError = e;
+          pending -= 1;
+          if (pending === 0) reject(lastError);
+        });
+      }
+    });
+  }
+
+  let lastError: unknown = null;
+  for (const i of order) {
+    try {
+      return await attempt(i);
+    } catch (e) {
+      lastError = e;
+    }
+  }
+  throw lastError;
+}
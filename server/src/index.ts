@@ -1,11 +1,34 @@
 import { loadConfig } from './config.js';
 import { buildApp } from './app.js';
 
+// `docker stop` and supervisord send SIGKILL after 10 s; leave room to exit on our own first.
+const SHUTDOWN_TIMEOUT_MS = 8000;
+
 async function main(): Promise<void> {
   const config = loadConfig();
 
-  const { app } = await buildApp(config);
+  const { app, close } = await buildApp(config);
   await app.listen({ host: config.HOST, port: config.PORT });
+
+  // Closing flushes the query log buffer and writes the DNS cache snapshot.
+  let closing = false;
+  const shutdown = (signal: NodeJS.Signals) => {
+    if (closing) return;
+    closing = true;
+    // eslint-disable-next-line no-console
+    console.info(`[server] ${signal} received, shutting down`);
+    setTimeout(() => process.exit(1), SHUTDOWN_TIMEOUT_MS).unref();
+    close().then(
+      () => process.exit(0),
+      (err) => {
+        // eslint-disable-next-line no-console
+        console.error(err);
+        process.exit(1);
+      }
+    );
+  };
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
 }
 
 main().catch((err) => {
@@ -9,7 +9,8 @@ export type NotificationEventKey =
   | 'blocklistRefreshFailed'
   | 'geoIpUpdated'
   | 'haFailoverActive'
-  | 'haLeaderAvailableAgain';
+  | 'haLeaderAvailableAgain'
+  | 'clientRateLimited';
 
 type NotificationEventsSetting = {
   anomalyDetected?: boolean;
@@ -18,6 +19,7 @@ type NotificationEventsSetting = {
   geoIpUpdated?: boolean;
   haFailoverActive?: boolean;
   haLeaderAvailableAgain?: boolean;
+  clientRateLimited?: boolean;
 };
 
 function normalizeDiscordWebhookUrl(raw: unknown): string {
@@ -42,7 +44,8 @@ async function getNotificationEvents(db: Db): Promise<Required<NotificationEvent
     blocklistRefreshFailed: r.blocklistRefreshFailed !== false,
     geoIpUpdated: r.geoIpUpdated !== false,
     haFailoverActive: r.haFailoverActive !== false,
-    haLeaderAvailableAgain: r.haLeaderAvailableAgain !== false
+    haLeaderAvailableAgain: r.haLeaderAvailableAgain !== false,
+    clientRateLimited: r.clientRateLimited !== false
   };
 }
 
@@ -60,6 +63,8 @@ function isEventEnabled(events: Required<NotificationEventsSetting>, event: Noti
       return events.haFailoverActive;
     case 'haLeaderAvailableAgain':
       return events.haLeaderAvailableAgain;
+    case 'clientRateLimited':
+      return events.clientRateLimited;
     default:
       return true;
   }
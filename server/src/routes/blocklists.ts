@@ -2,27 +2,91 @@ import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import type { AppConfig } from '../config.js';
 import type { Db } from '../db.js';
 import { requireAdmin } from '../auth.js';
-import { notifyEvent } from '../notifications/notify.js';
-import { refreshBlocklist } from '../blocklists/refresh.js';
+import type { BlocklistParseStats, BlocklistRefreshStatus } from '../blocklists/refresh.js';
+import {
+  enqueueBlocklistRefresh,
+  getBlocklistRefreshJob,
+  listBlocklistRefreshJobs,
+  MAX_REFRESH_INTERVAL_MINUTES,
+  MIN_REFRESH_INTERVAL_MINUTES
+} from '../blocklists/jobs.js';
+import {
+  blocklistSourceType,
+  MAX_INLINE_BLOCKLIST_BYTES,
+  newInlineBlocklistUrl,
+  resolveBlocklistFilePath
+} from '../blocklists/sources.js';
 import 'fastify-rate-limit';
 
+// ALLOW lists are stored and refreshed like any other list but never block; they admit domains
+// for allowlist-only clients (see allowlistOnly in dns/dnsServer.ts).
+type BlocklistKind = 'BLOCK' | 'ALLOW';
+
 type BlocklistRow = {
   id: string;
   name: string;
   url: string;
   enabled: boolean;
   mode: 'ACTIVE' | 'SHADOW';
+  kind: BlocklistKind;
   last_updated_at: string | null;
   last_error: string | null;
   last_rule_count: number;
+  last_parse_stats: BlocklistParseStats | null;
+  // Minutes between scheduled refreshes; null = daily default, 0 = manual only.
+  refresh_interval_minutes: number | null;
   created_at: string;
   updated_at: string;
 };
 
+type BlocklistRefreshHistoryRow = {
+  id: string;
+  started_at: string;
+  status: BlocklistRefreshStatus;
+  added: number;
+  removed: number;
+  rule_count: number | null;
+  bytes: number;
+  duration_ms: number;
+  error: string | null;
+};
+
+// Refresh runs returned by GET /api/blocklists/:id (refresh.ts keeps a few more).
+const HISTORY_LIMIT = 20;
+
 function normalizeMode(input: any): 'ACTIVE' | 'SHADOW' {
   return input === 'SHADOW' ? 'SHADOW' : 'ACTIVE';
 }
 
+function normalizeKind(input: any): BlocklistKind {
+  return input === 'ALLOW' ? 'ALLOW' : 'BLOCK';
+}
+
+// 0 turns scheduled refreshes off; anything else must be at least MIN_REFRESH_INTERVAL_MINUTES.
+const refreshIntervalSchema = {
+  anyOf: [
+    { type: 'null' },
+    { type: 'integer', enum: [0] },
+    { type: 'integer', minimum: MIN_REFRESH_INTERVAL_MINUTES, maximum: MAX_REFRESH_INTERVAL_MINUTES }
+  ]
+};
+
+// Inline lists get a generated `inline:<uuid>` url; callers send `content` instead.
+function sourceUrlError(config: AppConfig, url: string): { error: string; message: string } | null {
+  const source = blocklistSourceType(url);
+  if (source === 'INLINE') {
+    return { error: 'INVALID_SOURCE', message: 'Inline lists are created from content, not from an inline: url.' };
+  }
+  if (source === 'FILE' && !resolveBlocklistFilePath(config.DATA_DIR, url)) {
+    return { error: 'INVALID_FILE_PATH', message: 'file:// sources must point inside DATA_DIR/blocklists.' };
+  }
+  return null;
+}
+
+function contentTooLarge(content: string): boolean {
+  return Buffer.byteLength(content) > MAX_INLINE_BLOCKLIST_BYTES;
+}
+
 function resolveEnabledAndMode(body: { enabled?: boolean; mode?: 'ACTIVE' | 'SHADOW' | 'DISABLED' }): {
   enabled: boolean;
   mode: 'ACTIVE' | 'SHADOW';
@@ -46,49 +110,142 @@ export async function registerBlocklistsRoutes(app: FastifyInstance, config: App
     async (request) => {
       await requireAdmin(db, request);
       const res = await db.pool.query(
-        'SELECT id, name, url, enabled, mode, last_updated_at, last_error, last_rule_count, created_at, updated_at FROM blocklists ORDER BY id DESC LIMIT 500'
+        'SELECT id, name, url, enabled, mode, kind, last_updated_at, last_error, last_rule_count, last_parse_stats, refresh_interval_minutes, created_at, updated_at FROM blocklists ORDER BY id DESC LIMIT 500'
       );
       return { items: res.rows.map((r) => ({ ...r, id: String(r.id) })) as BlocklistRow[] };
     }
   );
 
+  app.get(
+    '/api/blocklists/:id',
+    {
+      config: {
+        rateLimit: { max: 120, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit()
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      await requireAdmin(db, request);
+      const id = Number(request.params.id);
+      if (!Number.isFinite(id)) {
+        reply.code(400);
+        return { error: 'INVALID_ID' };
+      }
+
+      const res = await db.pool.query(
+        'SELECT id, name, url, enabled, mode, kind, last_updated_at, last_error, last_rule_count, last_parse_stats, refresh_interval_minutes, content, created_at, updated_at FROM blocklists WHERE id = $1',
+        [id]
+      );
+      if (res.rowCount === 0) {
+        reply.code(404);
+        return { error: 'NOT_FOUND' };
+      }
+
+      const history = await db.pool.query(
+        `SELECT id, started_at, status, added, removed, rule_count, bytes, duration_ms, error
+         FROM blocklist_refresh_history WHERE blocklist_id = $1 ORDER BY id DESC LIMIT $2`,
+        [id, HISTORY_LIMIT]
+      );
+
+      return {
+        ...(res.rows[0] as BlocklistRow & { content: string | null }),
+        id: String(res.rows[0].id),
+        history: history.rows.map((h) => ({ ...h, id: String(h.id), bytes: Number(h.bytes) })) as BlocklistRefreshHistoryRow[]
+      };
+    }
+  );
+
   app.post(
     '/api/blocklists',
     {
-        config: {
-          rateLimit: { max: 60, timeWindow: '1 minute' }
-        },
-        preHandler: app.rateLimit(),
+      config: {
+        rateLimit: { max: 60, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit(),
+      // Inline content is JSON-escaped, which can roughly double its size.
+      bodyLimit: 2 * MAX_INLINE_BLOCKLIST_BYTES,
       schema: {
         body: {
           type: 'object',
-          required: ['name', 'url'],
+          required: ['name'],
           additionalProperties: false,
           properties: {
             name: { type: 'string', minLength: 1, maxLength: 200 },
             url: { type: 'string', minLength: 8, maxLength: 2048 },
+            // Creates an inline list instead of a url/file:// one.
+            content: { type: 'string' },
             enabled: { type: 'boolean' },
-            mode: { type: 'string', enum: ['ACTIVE', 'SHADOW', 'DISABLED'] }
+            mode: { type: 'string', enum: ['ACTIVE', 'SHADOW', 'DISABLED'] },
+            kind: { type: 'string', enum: ['BLOCK', 'ALLOW'] },
+            refreshIntervalMinutes: refreshIntervalSchema
           }
         }
       }
     },
     async (
-      request: FastifyRequest<{ Body: { name: string; url: string; enabled?: boolean; mode?: 'ACTIVE' | 'SHADOW' | 'DISABLED' } }>,
+      request: FastifyRequest<{
+        Body: {
+          name: string;
+          url?: string;
+          content?: string;
+          enabled?: boolean;
+          mode?: 'ACTIVE' | 'SHADOW' | 'DISABLED';
+          kind?: BlocklistKind;
+          refreshIntervalMinutes?: number | null;
+        };
+      }>,
       reply: FastifyReply
     ) => {
       await requireAdmin(db, request);
       const name = request.body.name.trim();
-      const url = request.body.url.trim();
+      const content = request.body.content;
       const resolved = resolveEnabledAndMode({ enabled: request.body.enabled, mode: request.body.mode });
 
+      if (request.body.url != null && content != null) {
+        reply.code(400);
+        return { error: 'INVALID_SOURCE', message: 'Send either url or content, not both.' };
+      }
+
+      let url: string;
+      if (content != null) {
+        if (contentTooLarge(content)) {
+          reply.code(400);
+          return { error: 'TOO_LARGE', message: `Inline lists are limited to ${MAX_INLINE_BLOCKLIST_BYTES} bytes.` };
+        }
+        url = newInlineBlocklistUrl();
+      } else {
+        url = String(request.body.url ?? '').trim();
+        if (!url) {
+          reply.code(400);
+          return { error: 'URL_REQUIRED', message: 'url or content is required.' };
+        }
+        const invalid = sourceUrlError(config, url);
+        if (invalid) {
+          reply.code(400);
+          return invalid;
+        }
+      }
+
       try {
         const res = await db.pool.query(
-          `INSERT INTO blocklists(name, url, enabled, mode, updated_at)
-           VALUES ($1, $2, $3, $4, NOW())
-           RETURNING id, name, url, enabled, mode, last_updated_at, last_error, last_rule_count, created_at, updated_at`,
-          [name, url, resolved.enabled, resolved.mode]
+          `INSERT INTO blocklists(name, url, enabled, mode, kind, refresh_interval_minutes, content, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+           RETURNING id, name, url, enabled, mode, kind, last_updated_at, last_error, last_rule_count, last_parse_stats, refresh_interval_minutes, created_at, updated_at`,
+          [
+            name,
+            url,
+            resolved.enabled,
+            resolved.mode,
+            normalizeKind(request.body.kind),
+            // Inline content only changes through this API, which queues its own refresh.
+            request.body.refreshIntervalMinutes !== undefined ? request.body.refreshIntervalMinutes : content != null ? 0 : null,
+            content ?? null
+          ]
         );
+        // Pasted lists are already here; load them now rather than at the next scheduled run.
+        if (content != null && resolved.enabled) {
+          await enqueueBlocklistRefresh(db, Number(res.rows[0].id), { trigger: 'MANUAL', force: true });
+        }
         reply.code(201);
         return { ...res.rows[0], id: String(res.rows[0].id) };
       } catch (err: any) {
@@ -104,10 +261,11 @@ export async function registerBlocklistsRoutes(app: FastifyInstance, config: App
   app.put(
     '/api/blocklists/:id',
     {
-        config: {
-          rateLimit: { max: 60, timeWindow: '1 minute' }
-        },
-        preHandler: app.rateLimit(),
+      config: {
+        rateLimit: { max: 60, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit(),
+      bodyLimit: 2 * MAX_INLINE_BLOCKLIST_BYTES,
       schema: {
         body: {
           type: 'object',
@@ -115,8 +273,12 @@ export async function registerBlocklistsRoutes(app: FastifyInstance, config: App
           properties: {
             name: { type: 'string', minLength: 1, maxLength: 200 },
             url: { type: 'string', minLength: 8, maxLength: 2048 },
+            // Inline lists only.
+            content: { type: 'string' },
             enabled: { type: 'boolean' },
-            mode: { type: 'string', enum: ['ACTIVE', 'SHADOW', 'DISABLED'] }
+            mode: { type: 'string', enum: ['ACTIVE', 'SHADOW', 'DISABLED'] },
+            kind: { type: 'string', enum: ['BLOCK', 'ALLOW'] },
+            refreshIntervalMinutes: refreshIntervalSchema
           }
         }
       }
@@ -124,7 +286,15 @@ export async function registerBlocklistsRoutes(app: FastifyInstance, config: App
     async (
       request: FastifyRequest<{
         Params: { id: string };
-        Body: { name?: string; url?: string; enabled?: boolean; mode?: 'ACTIVE' | 'SHADOW' | 'DISABLED' };
+        Body: {
+          name?: string;
+          url?: string;
+          content?: string;
+          enabled?: boolean;
+          mode?: 'ACTIVE' | 'SHADOW' | 'DISABLED';
+          kind?: BlocklistKind;
+          refreshIntervalMinutes?: number | null;
+        };
       }>,
       reply: FastifyReply
     ) => {
@@ -136,12 +306,36 @@ export async function registerBlocklistsRoutes(app: FastifyInstance, config: App
         return { error: 'INVALID_ID' };
       }
 
-      const current = await db.pool.query('SELECT id, name, url, enabled, mode FROM blocklists WHERE id = $1', [id]);
+      const current = await db.pool.query(
+        'SELECT id, name, url, enabled, mode, kind, refresh_interval_minutes FROM blocklists WHERE id = $1',
+        [id]
+      );
       if (current.rowCount === 0) {
         reply.code(404);
         return { error: 'NOT_FOUND' };
       }
 
+      const inline = blocklistSourceType(current.rows[0].url) === 'INLINE';
+      const content = request.body.content;
+      if (content != null && !inline) {
+        reply.code(400);
+        return { error: 'NOT_INLINE', message: 'Only inline lists have editable content.' };
+      }
+      if (content != null && contentTooLarge(content)) {
+        reply.code(400);
+        return { error: 'TOO_LARGE', message: `Inline lists are limited to ${MAX_INLINE_BLOCKLIST_BYTES} bytes.` };
+      }
+      const nextUrl = request.body.url != null ? request.body.url.trim() : current.rows[0].url;
+      if (nextUrl !== current.rows[0].url) {
+        const invalid = inline
+          ? { error: 'INVALID_SOURCE', message: 'Inline lists cannot be switched to a url.' }
+          : sourceUrlError(config, nextUrl);
+        if (invalid) {
+          reply.code(400);
+          return invalid;
+        }
+      }
+
       const resolved = resolveEnabledAndMode({
         enabled: request.body.enabled != null ? !!request.body.enabled : current.rows[0].enabled,
         mode: request.body.mode != null ? request.body.mode : normalizeMode(current.rows[0].mode)
@@ -149,17 +343,32 @@ export async function registerBlocklistsRoutes(app: FastifyInstance, config: App
 
       const next = {
         name: request.body.name != null ? request.body.name.trim() : current.rows[0].name,
-        url: request.body.url != null ? request.body.url.trim() : current.rows[0].url,
+        url: nextUrl,
         enabled: resolved.enabled,
-        mode: resolved.mode
+        mode: resolved.mode,
+        kind: normalizeKind(request.body.kind ?? current.rows[0].kind),
+        refreshIntervalMinutes:
+          request.body.refreshIntervalMinutes !== undefined
+            ? request.body.refreshIntervalMinutes
+            : (current.rows[0].refresh_interval_minutes ?? null)
       };
 
+      // Validators from the old URL must not be sent to the new one.
       const res = await db.pool.query(
-        `UPDATE blocklists SET name = $2, url = $3, enabled = $4, mode = $5, updated_at = NOW() WHERE id = $1
-         RETURNING id, name, url, enabled, mode, last_updated_at, last_error, last_rule_count, created_at, updated_at`,
-        [id, next.name, next.url, next.enabled, next.mode]
+        `UPDATE blocklists SET name = $2, url = $3, enabled = $4, mode = $5, kind = $6, refresh_interval_minutes = $7,
+           content = COALESCE($8, content),
+           http_etag = CASE WHEN url = $3 THEN http_etag END,
+           http_last_modified = CASE WHEN url = $3 THEN http_last_modified END,
+           updated_at = NOW() WHERE id = $1
+         RETURNING id, name, url, enabled, mode, kind, last_updated_at, last_error, last_rule_count, last_parse_stats, refresh_interval_minutes, created_at, updated_at`,
+        [id, next.name, next.url, next.enabled, next.mode, next.kind, next.refreshIntervalMinutes, content ?? null]
       );
 
+      // Edited inline content takes effect right away.
+      if (content != null && next.enabled) {
+        await enqueueBlocklistRefresh(db, id, { trigger: 'MANUAL', force: true });
+      }
+
       return { ...res.rows[0], id: String(res.rows[0].id) };
     }
   );
@@ -185,67 +394,147 @@ export async function registerBlocklistsRoutes(app: FastifyInstance, config: App
         reply.code(404);
         return { error: 'NOT_FOUND' };
       }
+      await db.pool.query('DELETE FROM blocklist_refresh_history WHERE blocklist_id = $1', [id]);
+      await db.pool.query("DELETE FROM blocklist_refresh_jobs WHERE blocklist_id = $1 AND status <> 'RUNNING'", [id]);
 
       reply.code(204);
       return null;
     }
   );
 
+  app.post(
+    '/api/blocklists/upload',
+    {
+      // The list file is the raw text/plain body; list settings go in the query string.
+      config: {
+        rateLimit: { max: 20, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit(),
+      bodyLimit: MAX_INLINE_BLOCKLIST_BYTES,
+      schema: {
+        querystring: {
+          type: 'object',
+          required: ['name'],
+          additionalProperties: false,
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 200 },
+            mode: { type: 'string', enum: ['ACTIVE', 'SHADOW', 'DISABLED'] },
+            kind: { type: 'string', enum: ['BLOCK', 'ALLOW'] }
+          }
+        },
+        body: { type: 'string' }
+      }
+    },
+    async (
+      request: FastifyRequest<{
+        Querystring: { name: string; mode?: 'ACTIVE' | 'SHADOW' | 'DISABLED'; kind?: BlocklistKind };
+        Body: string;
+      }>,
+      reply: FastifyReply
+    ) => {
+      await requireAdmin(db, request);
+      const name = request.query.name.trim();
+      const content = String(request.body ?? '');
+      if (!content.trim()) {
+        reply.code(400);
+        return { error: 'EMPTY_LIST', message: 'The uploaded file is empty.' };
+      }
+      const resolved = resolveEnabledAndMode({ mode: request.query.mode });
+
+      const res = await db.pool.query(
+        `INSERT INTO blocklists(name, url, enabled, mode, kind, refresh_interval_minutes, content, updated_at)
+         VALUES ($1, $2, $3, $4, $5, 0, $6, NOW())
+         RETURNING id, name, url, enabled, mode, kind, last_updated_at, last_error, last_rule_count, last_parse_stats, refresh_interval_minutes, created_at, updated_at`,
+        [name, newInlineBlocklistUrl(), resolved.enabled, resolved.mode, normalizeKind(request.query.kind), content]
+      );
+      const id = Number(res.rows[0].id);
+      const job = resolved.enabled ? await enqueueBlocklistRefresh(db, id, { trigger: 'MANUAL', force: true }) : null;
+
+      reply.code(201);
+      return { ...res.rows[0], id: String(id), job };
+    }
+  );
+
   app.post(
     '/api/blocklists/:id/refresh',
     {
-      // Refresh can be expensive and triggers network IO.
+      // Only queues a job; the refresh worker (blocklists/jobs.ts) downloads the list.
       config: {
         rateLimit: {
-          max: 10,
+          max: 60,
           timeWindow: '1 minute'
         }
       },
       preHandler: app.rateLimit()
     },
-    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    async (request: FastifyRequest<{ Params: { id: string }; Querystring: { force?: string } }>, reply: FastifyReply) => {
       await requireAdmin(db, request);
       const id = Number(request.params.id);
       if (!Number.isFinite(id)) {
         reply.code(400);
         return { error: 'INVALID_ID' };
       }
+      // ?force=1 skips the conditional GET and re-downloads the list.
+      const force = ['1', 'true'].includes(String(request.query?.force ?? '').toLowerCase());
 
-      const row = await db.pool.query('SELECT id, name, url, enabled FROM blocklists WHERE id = $1', [id]);
+      const row = await db.pool.query('SELECT id FROM blocklists WHERE id = $1', [id]);
       if (row.rowCount === 0) {
         reply.code(404);
         return { error: 'NOT_FOUND' };
       }
 
-      const name = String(row.rows[0].name);
-      const url = String(row.rows[0].url);
-
-      try {
-        const { fetched } = await refreshBlocklist(db, { id, name, url });
-
-        reply.code(202);
-        return { ok: true, fetched };
-      } catch (e: any) {
-        const msg = String(e?.message || e);
-        await db.pool.query(
-          'UPDATE blocklists SET last_error = $2, updated_at = NOW() WHERE id = $1',
-          [id, msg]
-        );
+      const job = await enqueueBlocklistRefresh(db, id, { trigger: 'MANUAL', force });
+      reply.code(202);
+      return { ok: true, job };
+    }
+  );
 
-        try {
-          await notifyEvent(db, config, 'blocklistRefreshFailed', {
-            title: 'Blocklist refresh failed',
-            message: `${name}: ${msg}`.slice(0, 2000),
-            severity: 'error',
-            meta: { id, name, url }
-          });
-        } catch {
-          // ignore
+  app.get(
+    '/api/blocklists/jobs',
+    {
+        config: {
+          rateLimit: { max: 240, timeWindow: '1 minute' }
+        },
+        preHandler: app.rateLimit(),
+      schema: {
+        querystring: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            blocklistId: { type: 'integer', minimum: 1 },
+            limit: { type: 'integer', minimum: 1, maximum: 500 }
+          }
         }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: { blocklistId?: number; limit?: number } }>) => {
+      await requireAdmin(db, request);
+      const items = await listBlocklistRefreshJobs(db, { blocklistId: request.query.blocklistId, limit: request.query.limit });
+      return { items };
+    }
+  );
 
-        reply.code(502);
-        return { error: 'REFRESH_FAILED', message: msg };
+  app.get(
+    '/api/blocklists/jobs/:jobId',
+    {
+        config: {
+          rateLimit: { max: 240, timeWindow: '1 minute' }
+        },
+        preHandler: app.rateLimit()
+    },
+    async (request: FastifyRequest<{ Params: { jobId: string } }>, reply: FastifyReply) => {
+      await requireAdmin(db, request);
+      const jobId = Number(request.params.jobId);
+      if (!Number.isFinite(jobId)) {
+        reply.code(400);
+        return { error: 'INVALID_ID' };
+      }
+      const job = await getBlocklistRefreshJob(db, jobId);
+      if (!job) {
+        reply.code(404);
+        return { error: 'NOT_FOUND' };
       }
+      return job;
     }
   );
 }
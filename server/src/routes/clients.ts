@@ -4,10 +4,16 @@ import type { AppConfig } from '../config.js';
 import type { Db } from '../db.js';
 import { requireAdmin } from '../auth.js';
 import ipaddr from 'ipaddr.js';
+import { parseUpstreamTarget } from '../dns/upstreamPool.js';
+import { isYoutubeRestrictMode } from '../dns/safeSearch.js';
+import { parseRateLimitOverride } from '../dns/rateLimit.js';
+import { generateDnsToken, isDnsToken, normalizeClientIdString, normalizeMac } from '../dns/clientIdentity.js';
 import 'fastify-rate-limit';
 
 type ClientProfile = Record<string, unknown> & { id: string };
 
+const MAX_CLIENT_IDS = 16;
+
 export async function registerClientsRoutes(app: FastifyInstance, config: AppConfig, db: Db): Promise<void> {
   app.get(
     '/api/clients',
@@ -76,6 +82,53 @@ export async function registerClientsRoutes(app: FastifyInstance, config: AppCon
         }
       }
 
+      // Optional upstream override must be complete; the DNS runtime ignores unusable entries.
+      if (profile.upstream !== undefined && profile.upstream !== null && !parseUpstreamTarget(profile.upstream)) {
+        reply.code(400);
+        return { error: 'INVALID_UPSTREAM', message: 'Upstream override needs a host/port or DoH URL.' };
+      }
+
+      if (profile.youtubeRestrictMode !== undefined && profile.youtubeRestrictMode !== null && !isYoutubeRestrictMode(profile.youtubeRestrictMode)) {
+        reply.code(400);
+        return { error: 'INVALID_YOUTUBE_RESTRICT_MODE', message: 'YouTube restricted mode must be off, moderate or strict.' };
+      }
+
+      if (profile.rateLimit !== undefined && profile.rateLimit !== null && !parseRateLimitOverride(profile.rateLimit)) {
+        reply.code(400);
+        return { error: 'INVALID_RATE_LIMIT', message: 'Rate limit override must set enabled to true or false.' };
+      }
+
+      // MAC and client ids are stored normalized so the DNS runtime can match them as is.
+      if (typeof profile.mac === 'string' && profile.mac.trim()) {
+        const mac = normalizeMac(profile.mac);
+        if (!mac) {
+          reply.code(400);
+          return { error: 'INVALID_MAC', message: 'MAC address must have six hex octets (e.g. aa:bb:cc:dd:ee:ff).' };
+        }
+        profile.mac = mac;
+      }
+
+      if (profile.clientIds !== undefined && profile.clientIds !== null) {
+        const ids = Array.isArray(profile.clientIds) ? profile.clientIds.map(normalizeClientIdString) : [null];
+        if (ids.length > MAX_CLIENT_IDS || ids.some((x) => !x)) {
+          reply.code(400);
+          return {
+            error: 'INVALID_CLIENT_IDS',
+            message: `Client ids must be up to ${MAX_CLIENT_IDS} printable strings without spaces (max 64 characters each).`
+          };
+        }
+        profile.clientIds = Array.from(new Set(ids));
+      }
+
+      // The DoH/DoT token is server-owned: keep the stored one, never take it from the body.
+      if (profile.type === 'subnet') {
+        delete profile.dnsToken;
+      } else {
+        const stored = await db.pool.query("SELECT profile->>'dnsToken' AS token FROM clients WHERE id = $1", [id]);
+        const token = stored.rows?.[0]?.token;
+        profile.dnsToken = isDnsToken(token) ? token : generateDnsToken();
+      }
+
       // Prevent ambiguous matching: only one non-subnet client should own a given IP.
       const ip = typeof (profile as any).ip === 'string' ? String((profile as any).ip).trim() : '';
       if (ip && profile.type !== 'subnet') {
@@ -501,7 +501,7 @@ export async function registerClusterRoutes(app: FastifyInstance, config: AppCon
 
     // Blocklists config
     const blocklistsRes = await db.pool.query(
-      'SELECT id, name, url, enabled, mode, last_updated_at, last_error, last_rule_count, created_at, updated_at FROM blocklists ORDER BY id ASC'
+      'SELECT id, name, url, enabled, mode, kind, last_updated_at, last_error, last_rule_count, refresh_interval_minutes, content, created_at, updated_at FROM blocklists ORDER BY id ASC'
     );
 
     // Secrets: export in plaintext over cluster-auth channel so followers can re-encrypt with their own SECRETS_KEY.
@@ -540,9 +540,12 @@ export async function registerClusterRoutes(app: FastifyInstance, config: AppCon
         url: String(r.url),
         enabled: Boolean(r.enabled),
         mode: String(r.mode),
+        kind: String(r.kind),
         lastUpdatedAt: r.last_updated_at ? new Date(r.last_updated_at).toISOString() : null,
         lastError: r.last_error ? String(r.last_error) : null,
         lastRuleCount: Number(r.last_rule_count ?? 0),
+        refreshIntervalMinutes: r.refresh_interval_minutes == null ? null : Number(r.refresh_interval_minutes),
+        content: r.content == null ? null : String(r.content),
         createdAt: new Date(r.created_at).toISOString(),
         updatedAt: new Date(r.updated_at).toISOString()
       })),
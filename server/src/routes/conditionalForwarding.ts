@@ -0,0 +1,178 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import crypto from 'node:crypto';
+import type { AppConfig } from '../config.js';
+import type { Db } from '../db.js';
+import { requireAdmin } from '../auth.js';
+import { normalizeForwardSuffix, readConditionalForwards, type ConditionalForward } from '../dns/conditionalForwarding.js';
+import { parseUpstreamTarget } from '../dns/upstreamPool.js';
+import 'fastify-rate-limit';
+
+type ConditionalForwardBody = {
+  suffix?: string;
+  upstream?: { transport?: string; host?: string; port?: number; dohUrl?: string };
+};
+
+const UPSTREAM_SCHEMA = {
+  type: 'object',
+  required: ['transport'],
+  additionalProperties: false,
+  properties: {
+    transport: { type: 'string', enum: ['udp', 'tcp', 'dot', 'doh'] },
+    host: { type: 'string', minLength: 1, maxLength: 253 },
+    port: { type: 'integer', minimum: 1, maximum: 65535 },
+    dohUrl: { type: 'string', minLength: 8, maxLength: 2048 }
+  }
+} as const;
+
+function withDefaultPort(upstream: ConditionalForwardBody['upstream']): ConditionalForwardBody['upstream'] {
+  if (!upstream || upstream.transport === 'doh' || upstream.port) return upstream;
+  return { ...upstream, port: upstream.transport === 'dot' ? 853 : 53 };
+}
+
+function buildEntry(id: string, body: ConditionalForwardBody): ConditionalForward | { error: string } {
+  const suffix = normalizeForwardSuffix(body.suffix);
+  if (!suffix) return { error: 'INVALID_SUFFIX' };
+  const upstream = parseUpstreamTarget(withDefaultPort(body.upstream));
+  if (!upstream) return { error: 'INVALID_UPSTREAM' };
+  return { id, suffix, upstream };
+}
+
+async function loadConditionalForwards(db: Db): Promise<ConditionalForward[]> {
+  const res = await db.pool.query('SELECT value FROM settings WHERE key = $1', ['dns_conditional_forwarding']);
+  return readConditionalForwards(res.rows?.[0]?.value);
+}
+
+async function saveConditionalForwards(db: Db, items: ConditionalForward[]): Promise<void> {
+  await db.pool.query(
+    'INSERT INTO settings(key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()',
+    ['dns_conditional_forwarding', { items }]
+  );
+}
+
+export async function registerConditionalForwardingRoutes(app: FastifyInstance, config: AppConfig, db: Db): Promise<void> {
+  app.get(
+    '/api/dns/conditional-forwarding',
+    {
+      config: {
+        rateLimit: { max: 120, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit()
+    },
+    async (request) => {
+      await requireAdmin(db, request);
+      return { items: await loadConditionalForwards(db) };
+    }
+  );
+
+  app.post(
+    '/api/dns/conditional-forwarding',
+    {
+      config: {
+        rateLimit: { max: 60, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit(),
+      schema: {
+        body: {
+          type: 'object',
+          required: ['suffix', 'upstream'],
+          additionalProperties: false,
+          properties: {
+            suffix: { type: 'string', minLength: 1, maxLength: 253 },
+            upstream: UPSTREAM_SCHEMA
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: ConditionalForwardBody }>, reply: FastifyReply) => {
+      await requireAdmin(db, request);
+
+      const next = buildEntry(crypto.randomUUID(), request.body);
+      if ('error' in next) {
+        reply.code(400);
+        return { error: next.error };
+      }
+
+      // De-dupe by suffix (replace existing)
+      const items = (await loadConditionalForwards(db)).filter((f) => f.suffix !== next.suffix);
+      items.unshift(next);
+
+      await saveConditionalForwards(db, items);
+      reply.code(201);
+      return { item: next };
+    }
+  );
+
+  app.put(
+    '/api/dns/conditional-forwarding/:id',
+    {
+      config: {
+        rateLimit: { max: 60, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit(),
+      schema: {
+        body: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            suffix: { type: 'string', minLength: 1, maxLength: 253 },
+            upstream: UPSTREAM_SCHEMA
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }; Body: ConditionalForwardBody }>, reply: FastifyReply) => {
+      await requireAdmin(db, request);
+
+      const items = await loadConditionalForwards(db);
+      const idx = items.findIndex((f) => f.id === request.params.id);
+      if (idx < 0) {
+        reply.code(404);
+        return { error: 'NOT_FOUND' };
+      }
+
+      const updated = buildEntry(request.params.id, {
+        suffix: request.body.suffix ?? items[idx].suffix,
+        upstream: request.body.upstream ?? items[idx].upstream
+      });
+      if ('error' in updated) {
+        reply.code(400);
+        return { error: updated.error };
+      }
+      if (items.some((f, i) => i !== idx && f.suffix === updated.suffix)) {
+        reply.code(409);
+        return { error: 'DUPLICATE_SUFFIX' };
+      }
+
+      items[idx] = updated;
+      await saveConditionalForwards(db, items);
+      return { item: updated };
+    }
+  );
+
+  app.delete(
+    '/api/dns/conditional-forwarding/:id',
+    {
+      config: {
+        rateLimit: { max: 60, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit()
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      await requireAdmin(db, request);
+
+      const items = await loadConditionalForwards(db);
+      const next = items.filter((f) => f.id !== request.params.id);
+
+      if (next.length === items.length) {
+        reply.code(404);
+        return { error: 'NOT_FOUND' };
+      }
+
+      await saveConditionalForwards(db, next);
+      reply.code(204);
+      return null;
+    }
+  );
+
+  void config;
+}
@@ -0,0 +1,112 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { AppConfig } from '../config.js';
+import type { Db } from '../db.js';
+import { requireAdmin } from '../auth.js';
+import { getDhcpServerStatus } from '../dhcp/dhcpServer.js';
+import { listDhcpLeases, loadDhcpReservations, loadDhcpSettings } from '../dhcp/leaseStore.js';
+import { parseDhcpSettings } from '../dhcp/scopes.js';
+import 'fastify-rate-limit';
+
+export async function registerDhcpRoutes(app: FastifyInstance, config: AppConfig, db: Db): Promise<void> {
+  app.get(
+    '/api/dhcp/settings',
+    {
+      config: {
+        rateLimit: { max: 120, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit()
+    },
+    async (request) => {
+      await requireAdmin(db, request);
+      return { value: await loadDhcpSettings(db), status: { ...getDhcpServerStatus(), port: config.DHCP_PORT } };
+    }
+  );
+
+  app.put(
+    '/api/dhcp/settings',
+    {
+      config: {
+        rateLimit: { max: 60, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit(),
+      schema: {
+        body: {
+          type: 'object',
+          additionalProperties: true,
+          properties: {
+            enabled: { type: 'boolean' },
+            scopes: { type: 'array', items: { type: 'object' } }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: unknown }>, reply: FastifyReply) => {
+      await requireAdmin(db, request);
+
+      const parsed = parseDhcpSettings(request.body);
+      if ('error' in parsed) {
+        reply.code(400);
+        return parsed;
+      }
+
+      await db.pool.query(
+        'INSERT INTO settings(key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()',
+        ['dhcp_settings', parsed]
+      );
+      return { ok: true, value: parsed };
+    }
+  );
+
+  app.get(
+    '/api/dhcp/leases',
+    {
+      config: {
+        rateLimit: { max: 120, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit()
+    },
+    async (request) => {
+      await requireAdmin(db, request);
+
+      const settings = await loadDhcpSettings(db);
+      const [leases, reservations] = await Promise.all([listDhcpLeases(db), loadDhcpReservations(db, settings)]);
+      const reservationByMac = new Map(reservations.map((r) => [r.mac, r]));
+      const nowMs = Date.now();
+
+      return {
+        items: leases.map((l) => {
+          const reservation = reservationByMac.get(l.mac);
+          return {
+            ...l,
+            active: Date.parse(l.expiresAt) > nowMs,
+            reserved: reservation?.ip === l.ip,
+            ...(reservation ? { profileId: reservation.profileId, profileName: reservation.profileName } : {})
+          };
+        }),
+        reservations
+      };
+    }
+  );
+
+  app.delete(
+    '/api/dhcp/leases/:ip',
+    {
+      config: {
+        rateLimit: { max: 60, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit()
+    },
+    async (request: FastifyRequest<{ Params: { ip: string } }>, reply: FastifyReply) => {
+      await requireAdmin(db, request);
+
+      // Returns the address to the pool (e.g. a device that left for good).
+      const res = await db.pool.query('DELETE FROM dhcp_leases WHERE ip = $1', [String(request.params.ip ?? '').trim()]);
+      if (!res.rowCount) {
+        reply.code(404);
+        return { error: 'NOT_FOUND' };
+      }
+      reply.code(204);
+      return null;
+    }
+  );
+}
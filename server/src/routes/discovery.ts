@@ -4,39 +4,16 @@ import type { Db } from '../db.js';
 import { requireAdmin } from '../auth.js';
 import { Resolver } from 'node:dns/promises';
 import { isIP } from 'node:net';
+import { normalizeMac, readNeighborTable } from '../dns/clientIdentity.js';
+import { readLeaseFiles, resolveLeaseFilePath, resolveLeasesDir } from '../discovery/leases.js';
+import { getMdnsHosts } from '../discovery/mdns.js';
+import { attachProfiles, mergeDiscoveredClients, type DiscoveredClient } from '../discovery/merge.js';
+import { lookupNetbiosName } from '../discovery/netbios.js';
+import { loadDiscoverySettings, normalizeDiscoverySettings, type DiscoverySettings } from '../discovery/settings.js';
+import { listDhcpLeases } from '../dhcp/leaseStore.js';
+import { loadOuiDatabase, lookupVendor, resolveOuiDbPath } from '../discovery/oui.js';
 import 'fastify-rate-limit';
 
-export type DiscoverySettings = {
-  reverseDns: {
-    enabled: boolean;
-    /** Optional DNS server IP (e.g. OPNsense/Unbound IP). If empty, system resolver is used. */
-    resolver?: string;
-    timeoutMs?: number;
-  };
-};
-
-const DEFAULT_SETTINGS: DiscoverySettings = {
-  reverseDns: {
-    enabled: false,
-    resolver: '',
-    timeoutMs: 250
-  }
-};
-
-function normalizeDiscoverySettings(input: any): DiscoverySettings {
-  const v = input && typeof input === 'object' ? input : {};
-  const rd = v.reverseDns && typeof v.reverseDns === 'object' ? v.reverseDns : {};
-
-  const enabled = rd.enabled === true;
-  const resolver = typeof rd.resolver === 'string' ? rd.resolver.trim() : '';
-  const timeoutRaw = Number(rd.timeoutMs);
-  const timeoutMs = Number.isFinite(timeoutRaw) ? Math.max(50, Math.min(2000, Math.floor(timeoutRaw))) : 250;
-
-  return {
-    reverseDns: { enabled, resolver, timeoutMs }
-  };
-}
-
 type CacheEntry = { hostname: string | null; expiresAt: number };
 const PTR_CACHE = new Map<string, CacheEntry>();
 const PTR_CACHE_MAX = 4096;
@@ -138,6 +115,28 @@ async function resolvePtrHostname(ip: string, resolverIp: string, timeoutMs: num
   return hostname;
 }
 
+// NetBIOS first (answers from the device itself), then reverse DNS via the router.
+async function resolveHostname(client: DiscoveredClient, settings: DiscoverySettings): Promise<void> {
+  if (settings.netbios.enabled) {
+    const name = await lookupNetbiosName(client.ip, settings.netbios.timeoutMs ?? 300);
+    if (name) {
+      client.hostname = name;
+      client.source = 'netbios';
+      client.sources.push('netbios');
+      return;
+    }
+  }
+  if (settings.reverseDns.enabled) {
+    const name = await resolvePtrHostname(client.ip, settings.reverseDns.resolver ?? '', settings.reverseDns.timeoutMs ?? 250);
+    // As before: `source` says the PTR lookup ran, even when it found no name.
+    client.source = 'reverse-dns';
+    if (name) {
+      client.hostname = name;
+      client.sources.push('reverse-dns');
+    }
+  }
+}
+
 export async function registerDiscoveryRoutes(app: FastifyInstance, config: AppConfig, db: Db): Promise<void> {
   app.get(
     '/api/discovery/settings',
@@ -149,8 +148,7 @@ export async function registerDiscoveryRoutes(app: FastifyInstance, config: AppC
     },
     async (request, reply) => {
       await requireAdmin(db, request);
-      const res = await db.pool.query('SELECT value FROM settings WHERE key = $1', ['discovery_settings']);
-      return { value: normalizeDiscoverySettings(res.rows?.[0]?.value) };
+      return { value: await loadDiscoverySettings(db) };
     }
   );
 
@@ -184,8 +182,7 @@ export async function registerDiscoveryRoutes(app: FastifyInstance, config: AppC
       }
 
       // Allow testing with unsaved UI values (resolver/timeout can be provided in the request).
-      const settingsRes = await db.pool.query('SELECT value FROM settings WHERE key = $1', ['discovery_settings']);
-      const settings = normalizeDiscoverySettings(settingsRes.rows?.[0]?.value);
+      const settings = await loadDiscoverySettings(db);
 
       const resolverRaw = typeof request.body?.resolver === 'string' ? request.body.resolver.trim() : '';
       const timeoutRaw = Number(request.body?.timeoutMs);
@@ -227,6 +224,12 @@ export async function registerDiscoveryRoutes(app: FastifyInstance, config: AppC
       await requireAdmin(db, request);
 
       const normalized = normalizeDiscoverySettings(request.body);
+      const outside = normalized.leaseFiles.find((f) => !resolveLeaseFilePath(config, f.path));
+      if (outside) {
+        reply.code(400);
+        return { error: 'INVALID_LEASE_PATH', message: `"${outside.path}" must be a file inside ${resolveLeasesDir(config)}.` };
+      }
+
       await db.pool.query(
         'INSERT INTO settings(key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()',
         ['discovery_settings', normalized]
@@ -250,8 +253,7 @@ export async function registerDiscoveryRoutes(app: FastifyInstance, config: AppC
       const limitRaw = Number(request.query.limit ?? '200');
       const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(1000, Math.floor(limitRaw))) : 200;
 
-      const settingsRes = await db.pool.query('SELECT value FROM settings WHERE key = $1', ['discovery_settings']);
-      const settings = normalizeDiscoverySettings(settingsRes.rows?.[0]?.value);
+      const settings = await loadDiscoverySettings(db);
 
       const res = await db.pool.query(
         `SELECT entry->>'clientIp' AS ip, MAX(ts) AS last_seen
@@ -263,38 +265,86 @@ export async function registerDiscoveryRoutes(app: FastifyInstance, config: AppC
         [limit]
       );
 
-      const rows = res.rows
+      const observed = res.rows
         .map((r) => ({
           ip: typeof r.ip === 'string' ? r.ip : String(r.ip ?? ''),
           lastSeen: r.last_seen ? new Date(r.last_seen).toISOString() : null
         }))
         .filter((r) => !!r.ip && r.ip !== '0.0.0.0');
 
-      if (!settings.reverseDns.enabled) {
-        return { items: rows.map((r) => ({ ...r, hostname: null, source: 'observed' })) };
+      const [leases, dhcpLeases, neighbors, vendors, profilesRes] = await Promise.all([
+        readLeaseFiles(config, settings.leaseFiles, Date.now()),
+        listDhcpLeases(db),
+        readNeighborTable(config.DNS_NEIGHBOR_TABLE_PATH),
+        loadOuiDatabase(resolveOuiDbPath(config)),
+        db.pool.query("SELECT profile FROM clients WHERE COALESCE(profile->>'type', '') <> 'subnet'")
+      ]);
+
+      // Active leases of the built-in DHCP server count as one more lease file.
+      const builtInLeases = dhcpLeases
+        .filter((l) => Date.parse(l.expiresAt) > Date.now())
+        .map((l) => ({ ip: l.ip, mac: l.mac, ...(l.hostname ? { hostname: l.hostname } : {}), expiresAt: l.expiresAt }));
+
+      const items = mergeDiscoveredClients({
+        observed,
+        leases: [...leases.entries, ...builtInLeases],
+        mdns: settings.mdns.enabled ? getMdnsHosts() : [],
+        neighbors
+      }).slice(0, limit);
+
+      // Name lookups only for clients no lease/mDNS entry named. Concurrency limit so we don't blast the resolver.
+      const unnamed = items.filter((c) => !c.hostname);
+      const concurrency = 10;
+      for (let i = 0; i < unnamed.length; i += concurrency) {
+        await Promise.all(unnamed.slice(i, i + concurrency).map((c) => resolveHostname(c, settings)));
       }
 
-      const resolverIp = settings.reverseDns.resolver ?? '';
-      const timeoutMs = settings.reverseDns.timeoutMs ?? 250;
-
-      // Concurrency limit so we don't blast the resolver.
-      const concurrency = 10;
-      const out: Array<{ ip: string; lastSeen: string | null; hostname: string | null; source: string }> = [];
-
-      for (let i = 0; i < rows.length; i += concurrency) {
-        const batch = rows.slice(i, i + concurrency);
-        const resolved = await Promise.all(
-          batch.map(async (r) => ({
-            ...r,
-            hostname: await resolvePtrHostname(r.ip, resolverIp, timeoutMs)
-          }))
-        );
-        for (const r of resolved) {
-          out.push({ ...r, source: 'reverse-dns' });
-        }
+      for (const c of items) {
+        const vendor = c.mac ? lookupVendor(vendors, c.mac) : undefined;
+        if (vendor) c.vendor = vendor;
       }
+      attachProfiles(
+        items,
+        profilesRes.rows
+          .map((r) => r.profile)
+          .filter(Boolean)
+          .map((p: any) => ({
+            id: String(p.id ?? ''),
+            name: String(p.name ?? ''),
+            ip: typeof p.ip === 'string' ? p.ip.trim() : undefined,
+            mac: normalizeMac(p.mac) ?? undefined
+          }))
+      );
+
+      return { items };
+    }
+  );
+
+  app.get(
+    '/api/discovery/sources',
+    {
+      config: {
+        rateLimit: { max: 60, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit()
+    },
+    async (request) => {
+      await requireAdmin(db, request);
+
+      const settings = await loadDiscoverySettings(db);
+      const [leases, neighbors, vendors] = await Promise.all([
+        readLeaseFiles(config, settings.leaseFiles, Date.now()),
+        readNeighborTable(config.DNS_NEIGHBOR_TABLE_PATH),
+        loadOuiDatabase(resolveOuiDbPath(config))
+      ]);
 
-      return { items: out };
+      return {
+        leasesDir: resolveLeasesDir(config),
+        leaseFiles: leases.status,
+        mdns: { enabled: settings.mdns.enabled, hosts: getMdnsHosts().length },
+        neighborTable: { path: config.DNS_NEIGHBOR_TABLE_PATH, entries: neighbors.size },
+        ouiDatabase: { path: resolveOuiDbPath(config), vendors: vendors.size }
+      };
     }
   );
 }
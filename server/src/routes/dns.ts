@@ -2,29 +2,85 @@ import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import type { AppConfig } from '../config.js';
 import type { Db } from '../db.js';
 import { requireAdmin } from '../auth.js';
-import { dnsRuntimeStats, dnsUpstreamDebug } from '../dns/dnsServer.js';
+import { dnsRateLimitDebug, dnsRuntimeStats, dnsUpstreamDebug } from '../dns/dnsServer.js';
+import { DEFAULT_DNSSEC_SETTINGS, parseDnssecSettings, type DnssecSettings } from '../dns/dnssec.js';
+import {
+  BLOCK_RESPONSE_MODES,
+  DEFAULT_BLOCK_RESPONSE_SETTINGS,
+  parseBlockResponseSettings,
+  type BlockResponseSettings
+} from '../dns/blockResponse.js';
+import {
+  DEFAULT_RESPONSE_CACHE_SETTINGS,
+  MAX_CACHE_TTL_SECONDS,
+  MAX_STALE_AGE_SECONDS,
+  parseResponseCacheSettings,
+  type ResponseCacheSettings
+} from '../dns/responseCache.js';
+import { DEFAULT_ECS_SETTINGS, ECS_MODES, parseEcsSettings, type EcsSettings } from '../dns/edns.js';
+import {
+  DEFAULT_RATE_LIMIT_SETTINGS,
+  parseRateLimitSettings,
+  RATE_LIMIT_ACTIONS,
+  type RateLimitSettings
+} from '../dns/rateLimit.js';
+import { DEFAULT_SAFE_SEARCH_POLICY, parseSafeSearchPolicy, YOUTUBE_RESTRICT_MODES, type SafeSearchPolicy } from '../dns/safeSearch.js';
+import {
+  DEFAULT_LOCAL_DOMAIN_SETTINGS,
+  loadLocalHosts,
+  normalizeLocalDomain,
+  parseLocalDomainSettings,
+  type LocalDomainSettings
+} from '../dns/localHosts.js';
+import { isUpstreamStrategy, MAX_UPSTREAMS, UPSTREAM_STRATEGIES, type UpstreamStrategy } from '../dns/upstreamPool.js';
 import 'fastify-rate-limit';
 
+export type DnsForwardUpstream = {
+  transport: 'udp' | 'tcp' | 'dot' | 'doh';
+  host?: string;
+  port?: number;
+  dohUrl?: string;
+};
+
 export type DnsSettings = {
   upstreamMode: 'unbound' | 'forward';
   // If mode=forward: supports plain UDP/TCP, DNS-over-TLS (DoT) and DNS-over-HTTPS (DoH).
-  forward: {
-    transport: 'udp' | 'tcp' | 'dot' | 'doh';
-    host?: string;
-    port?: number;
-    dohUrl?: string;
-  };
+  // `forward` mirrors upstreams[0] for older clients.
+  forward: DnsForwardUpstream;
+  // Ordered upstream list (mode=forward) and how queries are spread across it.
+  upstreams: DnsForwardUpstream[];
+  upstreamStrategy: UpstreamStrategy;
+  dnssec: DnssecSettings;
+  // How blocked queries are answered (clients/subnets may override).
+  blockResponse: BlockResponseSettings;
+  // Global SafeSearch / YouTube Restricted Mode (clients, subnets and schedules can only add to it).
+  safeSearch: SafeSearchPolicy;
+  // Per-client query rate limit (token bucket); client/subnet profiles may override it.
+  rateLimit: RateLimitSettings;
+  // EDNS Client Subnet sent to upstreams (privacy).
+  ecs: EcsSettings;
+  // Upstream response cache: TTL clamps, serve-stale and prefetch.
+  cache: ResponseCacheSettings;
+  // Zone answered from client profiles and discovered host names.
+  localDomain: LocalDomainSettings;
 };
 
 const DEFAULT_SETTINGS: DnsSettings = {
   upstreamMode: 'unbound',
-  forward: { host: '1.1.1.1', port: 53, transport: 'udp' }
+  forward: { host: '1.1.1.1', port: 53, transport: 'udp' },
+  upstreams: [{ host: '1.1.1.1', port: 53, transport: 'udp' }],
+  upstreamStrategy: 'failover',
+  dnssec: DEFAULT_DNSSEC_SETTINGS,
+  blockResponse: DEFAULT_BLOCK_RESPONSE_SETTINGS,
+  safeSearch: DEFAULT_SAFE_SEARCH_POLICY,
+  rateLimit: DEFAULT_RATE_LIMIT_SETTINGS,
+  ecs: DEFAULT_ECS_SETTINGS,
+  cache: DEFAULT_RESPONSE_CACHE_SETTINGS,
+  localDomain: DEFAULT_LOCAL_DOMAIN_SETTINGS
 };
 
-function normalize(input: any): DnsSettings {
-  const s = typeof input === 'object' && input ? input : {};
-  const mode = s.upstreamMode === 'forward' ? 'forward' : 'unbound';
-  const forward = typeof s.forward === 'object' && s.forward ? s.forward : {};
+function normalizeForward(input: any): DnsForwardUpstream {
+  const forward = typeof input === 'object' && input ? input : {};
   const transport =
     forward.transport === 'tcp'
       ? 'tcp'
@@ -34,26 +90,61 @@ function normalize(input: any): DnsSettings {
           ? 'doh'
           : 'udp';
 
+  if (transport === 'doh') {
+    const dohUrl = typeof forward.dohUrl === 'string' && forward.dohUrl.trim() ? forward.dohUrl.trim() : undefined;
+    // Use a well-known default if missing.
+    return { transport, dohUrl: dohUrl ?? 'https://cloudflare-dns.com/dns-query' };
+  }
+
   const host = typeof forward.host === 'string' && forward.host.trim() ? forward.host.trim() : DEFAULT_SETTINGS.forward.host;
   const portDefault = transport === 'dot' ? 853 : DEFAULT_SETTINGS.forward.port;
   const portRaw = Number(forward.port);
   const port = Number.isFinite(portRaw) && portRaw > 0 ? Math.min(65535, Math.floor(portRaw)) : portDefault;
-  const dohUrl = typeof forward.dohUrl === 'string' && forward.dohUrl.trim() ? forward.dohUrl.trim() : undefined;
+  return { host, port, transport };
+}
 
-  if (transport === 'doh') {
-    // Use a well-known default if missing.
-    return {
-      upstreamMode: mode,
-      forward: {
-        transport,
-        dohUrl: dohUrl ?? 'https://cloudflare-dns.com/dns-query'
-      }
-    };
-  }
+function normalize(input: any): DnsSettings {
+  const s = typeof input === 'object' && input ? input : {};
+  const mode = s.upstreamMode === 'forward' ? 'forward' : 'unbound';
+  const upstreams =
+    Array.isArray(s.upstreams) && s.upstreams.length
+      ? s.upstreams.slice(0, MAX_UPSTREAMS).map(normalizeForward)
+      : [normalizeForward(s.forward)];
+  const upstreamStrategy = isUpstreamStrategy(s.upstreamStrategy) ? s.upstreamStrategy : DEFAULT_SETTINGS.upstreamStrategy;
+  const dnssec = parseDnssecSettings(s.dnssec);
+  const blockResponse = parseBlockResponseSettings(s.blockResponse);
+  const safeSearch = parseSafeSearchPolicy(s.safeSearch);
+  const rateLimit = parseRateLimitSettings(s.rateLimit);
+  const ecs = parseEcsSettings(s.ecs);
+  const cache = parseResponseCacheSettings(s.cache);
+  const localDomain = parseLocalDomainSettings(s.localDomain);
 
-  return { upstreamMode: mode, forward: { host, port, transport } };
+  return {
+    upstreamMode: mode,
+    forward: upstreams[0],
+    upstreams,
+    upstreamStrategy,
+    dnssec,
+    blockResponse,
+    safeSearch,
+    rateLimit,
+    ecs,
+    cache,
+    localDomain
+  };
 }
 
+const UPSTREAM_BODY_SCHEMA = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    transport: { type: 'string', enum: ['udp', 'tcp', 'dot', 'doh'] },
+    host: { type: 'string', minLength: 1, maxLength: 253 },
+    port: { type: 'number' },
+    dohUrl: { type: 'string', minLength: 8, maxLength: 2048 }
+  }
+} as const;
+
 export async function registerDnsRoutes(app: FastifyInstance, config: AppConfig, db: Db): Promise<void> {
   app.get(
     '/api/dns/status',
@@ -73,7 +164,8 @@ export async function registerDnsRoutes(app: FastifyInstance, config: AppConfig,
           port: config.DNS_PORT
         },
         stats: dnsRuntimeStats,
-        upstream: dnsUpstreamDebug
+        upstream: dnsUpstreamDebug,
+        rateLimit: dnsRateLimitDebug
       };
     }
   );
@@ -107,14 +199,73 @@ export async function registerDnsRoutes(app: FastifyInstance, config: AppConfig,
           additionalProperties: true,
           properties: {
             upstreamMode: { type: 'string', enum: ['unbound', 'forward'] },
-            forward: {
+            forward: UPSTREAM_BODY_SCHEMA,
+            upstreams: { type: 'array', minItems: 1, maxItems: MAX_UPSTREAMS, items: UPSTREAM_BODY_SCHEMA },
+            upstreamStrategy: { type: 'string', enum: [...UPSTREAM_STRATEGIES] },
+            dnssec: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                enabled: { type: 'boolean' },
+                servfailOnBogus: { type: 'boolean' }
+              }
+            },
+            blockResponse: {
               type: 'object',
-              additionalProperties: true,
+              additionalProperties: false,
               properties: {
-                transport: { type: 'string', enum: ['udp', 'tcp', 'dot', 'doh'] },
-                host: { type: 'string', minLength: 1, maxLength: 253 },
-                port: { type: 'number' },
-                dohUrl: { type: 'string', minLength: 8, maxLength: 2048 }
+                mode: { type: 'string', enum: [...BLOCK_RESPONSE_MODES] },
+                ttl: { type: 'integer', minimum: 0, maximum: 86400 },
+                ipv4: { type: 'string', maxLength: 64 },
+                ipv6: { type: 'string', maxLength: 64 }
+              }
+            },
+            safeSearch: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                search: { type: 'boolean' },
+                youtube: { type: 'string', enum: [...YOUTUBE_RESTRICT_MODES] }
+              }
+            },
+            rateLimit: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                enabled: { type: 'boolean' },
+                qps: { type: 'integer', minimum: 1, maximum: 100000 },
+                burst: { type: 'integer', minimum: 1, maximum: 100000 },
+                action: { type: 'string', enum: [...RATE_LIMIT_ACTIONS] }
+              }
+            },
+            ecs: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                mode: { type: 'string', enum: [...ECS_MODES] },
+                fallbackSubnet: { type: 'string', maxLength: 64 }
+              }
+            },
+            cache: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                minTtl: { type: 'integer', minimum: 0, maximum: MAX_CACHE_TTL_SECONDS },
+                maxTtl: { type: 'integer', minimum: 0, maximum: MAX_CACHE_TTL_SECONDS },
+                serveStale: { type: 'boolean' },
+                staleAnswerTtl: { type: 'integer', minimum: 1, maximum: 3600 },
+                staleMaxAge: { type: 'integer', minimum: 0, maximum: MAX_STALE_AGE_SECONDS },
+                prefetch: { type: 'boolean' }
+              }
+            },
+            localDomain: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                enabled: { type: 'boolean' },
+                domain: { type: 'string', maxLength: 253 },
+                fromProfiles: { type: 'boolean' },
+                fromDiscovery: { type: 'boolean' }
               }
             }
           }
@@ -124,16 +275,49 @@ export async function registerDnsRoutes(app: FastifyInstance, config: AppConfig,
     async (request: FastifyRequest<{ Body: DnsSettings }>, reply: FastifyReply) => {
       await requireAdmin(db, request);
 
-      const normalized = normalize(request.body);
+      // Partial updates: sections omitted from the body keep their stored values.
+      const existingRes = await db.pool.query('SELECT value FROM settings WHERE key = $1', ['dns_settings']);
+      const existing = existingRes.rows?.[0]?.value;
+      const merged: any = { ...(typeof existing === 'object' && existing ? existing : {}), ...request.body };
+      // Clients that only send `forward` (single upstream) replace the stored list.
+      if (request.body?.forward && !request.body?.upstreams) delete merged.upstreams;
+      const normalized = normalize(merged);
 
-      if (normalized.upstreamMode === 'forward') {
-        if (normalized.forward.transport === 'doh') {
-          if (!normalized.forward.dohUrl) {
+      const blockResponseBody: any = (request.body as any)?.blockResponse;
+      if (blockResponseBody) {
+        for (const family of ['ipv4', 'ipv6'] as const) {
+          const raw = typeof blockResponseBody[family] === 'string' ? blockResponseBody[family].trim() : '';
+          if (raw && normalized.blockResponse[family] !== raw) {
             reply.code(400);
-            return { error: 'INVALID_UPSTREAM', message: 'DoH upstream URL required.' };
+            return { error: 'INVALID_BLOCK_RESPONSE', message: `Invalid sinkhole ${family === 'ipv4' ? 'IPv4' : 'IPv6'} address.` };
           }
-        } else {
-          if (!normalized.forward.host || !normalized.forward.port) {
+        }
+      }
+      if (normalized.blockResponse.mode === 'CUSTOM_IP' && !normalized.blockResponse.ipv4 && !normalized.blockResponse.ipv6) {
+        reply.code(400);
+        return { error: 'INVALID_BLOCK_RESPONSE', message: 'Custom sinkhole mode requires an IPv4 or IPv6 address.' };
+      }
+
+      const ecsBody: any = (request.body as any)?.ecs;
+      if (typeof ecsBody?.fallbackSubnet === 'string' && ecsBody.fallbackSubnet.trim() && !normalized.ecs.fallbackSubnet) {
+        reply.code(400);
+        return { error: 'INVALID_ECS_SUBNET', message: 'ECS fallback subnet must be a public IPv4/IPv6 address or CIDR, e.g. your WAN address.' };
+      }
+
+      const localDomainBody: any = (request.body as any)?.localDomain;
+      if (localDomainBody?.domain !== undefined && !normalizeLocalDomain(localDomainBody.domain)) {
+        reply.code(400);
+        return { error: 'INVALID_LOCAL_DOMAIN', message: 'Local domain must be a DNS name such as home.arpa (not .local, which belongs to mDNS).' };
+      }
+
+      if (normalized.upstreamMode === 'forward') {
+        for (const upstream of normalized.upstreams) {
+          if (upstream.transport === 'doh') {
+            if (!upstream.dohUrl) {
+              reply.code(400);
+              return { error: 'INVALID_UPSTREAM', message: 'DoH upstream URL required.' };
+            }
+          } else if (!upstream.host || !upstream.port) {
             reply.code(400);
             return { error: 'INVALID_UPSTREAM', message: 'Forward upstream host/port required.' };
           }
@@ -148,4 +332,21 @@ export async function registerDnsRoutes(app: FastifyInstance, config: AppConfig,
       return { ok: true, value: normalized };
     }
   );
+
+  app.get(
+    '/api/dns/local-hosts',
+    {
+      config: {
+        rateLimit: { max: 60, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit()
+    },
+    async (request) => {
+      await requireAdmin(db, request);
+      const res = await db.pool.query('SELECT value FROM settings WHERE key = $1', ['dns_settings']);
+      const settings = parseLocalDomainSettings(res.rows?.[0]?.value?.localDomain);
+      const { records, conflicts } = await loadLocalHosts(config, db, settings);
+      return { settings, items: records, conflicts };
+    }
+  );
 }
@@ -0,0 +1,122 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { AppConfig } from '../config.js';
+import type { Db } from '../db.js';
+import { requireAdmin } from '../auth.js';
+import { forwardUpstreamQuery, unboundUpstream } from '../dns/dnsServer.js';
+import {
+  BENCHMARK_QUERY_TIMEOUT_MS,
+  DEFAULT_BENCHMARK_DOMAINS,
+  FALLBACK_BENCHMARK_DOMAINS,
+  MAX_BENCHMARK_CANDIDATES,
+  MAX_BENCHMARK_DOMAINS,
+  runUpstreamBenchmark,
+  selectBenchmarkDomains,
+  type BenchmarkCandidate
+} from '../dns/upstreamBenchmark.js';
+import { parseUpstreamTarget } from '../dns/upstreamPool.js';
+import 'fastify-rate-limit';
+
+type BenchmarkBody = {
+  candidates: Array<{
+    label?: string;
+    unbound?: boolean;
+    upstream?: { transport?: string; host?: string; port?: number; dohUrl?: string };
+  }>;
+  domainCount?: number;
+};
+
+// The household's most queried public names over the last week.
+async function loadTopDomains(db: Db, limit: number): Promise<string[]> {
+  const res = await db.pool.query(
+    `SELECT LOWER(entry->>'domain') AS domain, COUNT(*)::bigint AS count
+     FROM query_logs
+     WHERE ts >= NOW() - interval '7 days'
+       AND COALESCE(entry->>'status','') NOT IN ('BLOCKED', 'SHADOW_BLOCKED')
+       AND NULLIF(entry->>'domain','') IS NOT NULL
+     GROUP BY 1
+     ORDER BY count DESC
+     LIMIT $1`,
+    [limit * 3]
+  );
+  return selectBenchmarkDomains(
+    res.rows.map((r) => r.domain),
+    limit
+  );
+}
+
+export async function registerDnsBenchmarkRoutes(app: FastifyInstance, config: AppConfig, db: Db): Promise<void> {
+  app.post(
+    '/api/dns/upstreams/benchmark',
+    {
+      config: {
+        rateLimit: { max: 6, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit(),
+      schema: {
+        body: {
+          type: 'object',
+          required: ['candidates'],
+          additionalProperties: false,
+          properties: {
+            candidates: {
+              type: 'array',
+              minItems: 1,
+              maxItems: MAX_BENCHMARK_CANDIDATES,
+              items: {
+                type: 'object',
+                additionalProperties: false,
+                properties: {
+                  label: { type: 'string', maxLength: 100 },
+                  unbound: { type: 'boolean' },
+                  upstream: {
+                    type: 'object',
+                    required: ['transport'],
+                    additionalProperties: false,
+                    properties: {
+                      transport: { type: 'string', enum: ['udp', 'tcp', 'dot', 'doh'] },
+                      host: { type: 'string', minLength: 1, maxLength: 253 },
+                      port: { type: 'integer', minimum: 1, maximum: 65535 },
+                      dohUrl: { type: 'string', minLength: 8, maxLength: 2048 }
+                    }
+                  }
+                }
+              }
+            },
+            domainCount: { type: 'integer', minimum: 1, maximum: MAX_BENCHMARK_DOMAINS }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: BenchmarkBody }>, reply: FastifyReply) => {
+      await requireAdmin(db, request);
+
+      const candidates: BenchmarkCandidate[] = [];
+      for (const c of request.body.candidates) {
+        const upstream = c.unbound ? unboundUpstream(config) : parseUpstreamTarget(c.upstream);
+        if (!upstream) {
+          reply.code(400);
+          return { error: 'INVALID_UPSTREAM', message: `Candidate "${c.label ?? ''}" needs a host/port or DoH URL.` };
+        }
+        candidates.push({ label: c.label?.trim() || (c.unbound ? 'Unbound (Local)' : upstream.transport), upstream, unbound: c.unbound === true });
+      }
+
+      const domainCount = request.body.domainCount ?? DEFAULT_BENCHMARK_DOMAINS;
+      const topDomains = await loadTopDomains(db, domainCount);
+      // Top up a short query history with well-known names.
+      const domains = selectBenchmarkDomains([...topDomains, ...FALLBACK_BENCHMARK_DOMAINS], domainCount);
+
+      const startedAt = new Date().toISOString();
+      const results = await runUpstreamBenchmark(candidates, domains, (upstream, msg) =>
+        forwardUpstreamQuery(config, upstream, msg, { timeoutMs: BENCHMARK_QUERY_TIMEOUT_MS })
+      );
+
+      return {
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        domains,
+        fromQueryLogs: topDomains.length,
+        results
+      };
+    }
+  );
+}
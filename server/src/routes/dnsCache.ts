@@ -0,0 +1,81 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { AppConfig } from '../config.js';
+import type { Db } from '../db.js';
+import { requireAdmin } from '../auth.js';
+import { dnsCacheStats, flushDnsCache, listDnsCacheEntries } from '../dns/dnsServer.js';
+import 'fastify-rate-limit';
+
+const DEFAULT_LIST_LIMIT = 100;
+const MAX_LIST_LIMIT = 1000;
+
+export async function registerDnsCacheRoutes(app: FastifyInstance, config: AppConfig, db: Db): Promise<void> {
+  app.get(
+    '/api/dns/cache',
+    {
+      config: {
+        rateLimit: { max: 120, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit(),
+      schema: {
+        querystring: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            search: { type: 'string', maxLength: 253 },
+            limit: { type: 'integer', minimum: 1, maximum: MAX_LIST_LIMIT }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: { search?: string; limit?: number } }>) => {
+      await requireAdmin(db, request);
+      const { items, total } = listDnsCacheEntries({
+        search: request.query.search,
+        limit: request.query.limit ?? DEFAULT_LIST_LIMIT
+      });
+      return { items, total, stats: dnsCacheStats() };
+    }
+  );
+
+  app.delete(
+    '/api/dns/cache',
+    {
+      config: {
+        rateLimit: { max: 30, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit()
+    },
+    async (request) => {
+      await requireAdmin(db, request);
+      return { ok: true, removed: flushDnsCache() };
+    }
+  );
+
+  app.delete(
+    '/api/dns/cache/:domain',
+    {
+      config: {
+        rateLimit: { max: 60, timeWindow: '1 minute' }
+      },
+      preHandler: app.rateLimit()
+    },
+    async (request: FastifyRequest<{ Params: { domain: string } }>, reply: FastifyReply) => {
+      await requireAdmin(db, request);
+
+      const domain = String(request.params.domain ?? '').trim();
+      if (!domain || domain.length > 253) {
+        reply.code(400);
+        return { error: 'INVALID_DOMAIN', message: 'A domain name is required.' };
+      }
+
+      const removed = flushDnsCache(domain);
+      if (!removed) {
+        reply.code(404);
+        return { error: 'NOT_FOUND' };
+      }
+      return { ok: true, removed };
+    }
+  );
+
+  void config;
+}
@@ -0,0 +1,114 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { AppConfig } from '../config.js';
+import type { Db } from '../db.js';
+import { extractMinTtl, resolveDnsMessage } from '../dns/dnsServer.js';
+import 'fastify-rate-limit';
+
+const DNS_MESSAGE_CONTENT_TYPE = 'application/dns-message';
+const DNS_MESSAGE_MAX_BYTES = 65535;
+
+// Path tokens are matched against ClientProfile.dnsToken; keep the accepted charset URL/label safe.
+const CLIENT_ID_RE = /^[A-Za-z0-9_-]{1,128}$/;
+
+function decodeBase64UrlDnsMessage(input: unknown): Buffer | null {
+  const raw = typeof input === 'string' ? input.trim() : '';
+  if (!raw) return null;
+  // RFC 8484 uses base64url without padding; tolerate padding anyway.
+  const unpadded = raw.replace(/=+$/, '');
+  if (!/^[A-Za-z0-9_-]+$/.test(unpadded)) return null;
+  const buf = Buffer.from(unpadded, 'base64url');
+  if (buf.length < 12 || buf.length > DNS_MESSAGE_MAX_BYTES) return null;
+  return buf;
+}
+
+function normalizeClientIdParam(input: unknown): string | undefined | null {
+  if (input === undefined) return undefined;
+  const raw = String(input).trim();
+  if (!CLIENT_ID_RE.test(raw)) return null;
+  return raw;
+}
+
+export async function registerDohRoutes(app: FastifyInstance, config: AppConfig, db: Db): Promise<void> {
+  app.addContentTypeParser(
+    DNS_MESSAGE_CONTENT_TYPE,
+    { parseAs: 'buffer', bodyLimit: DNS_MESSAGE_MAX_BYTES },
+    (_request, body, done) => done(null, body)
+  );
+
+  const answer = async (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    msg: Buffer | null,
+    clientIdRaw: unknown
+  ): Promise<unknown> => {
+    if (!msg) {
+      reply.code(400);
+      return { error: 'INVALID_DNS_MESSAGE', message: 'Expected a base64url or application/dns-message DNS query.' };
+    }
+
+    const clientId = normalizeClientIdParam(clientIdRaw);
+    if (clientId === null) {
+      reply.code(400);
+      return { error: 'INVALID_CLIENT_ID' };
+    }
+
+    let resp: Buffer | null;
+    try {
+      resp = await resolveDnsMessage(msg, request.ip, { transport: 'doh', clientId });
+    } catch (e: any) {
+      if (e?.message === 'DNS_NOT_RUNNING') {
+        reply.code(503);
+        return { error: 'DNS_NOT_RUNNING', message: 'The DNS server is not running on this node.' };
+      }
+      reply.code(400);
+      return { error: 'INVALID_DNS_MESSAGE' };
+    }
+
+    if (!resp) {
+      // The client's DNS rate limit drops the query; HTTP has no silent drop.
+      reply.code(429);
+      return { error: 'RATE_LIMITED' };
+    }
+
+    // RFC 8484 §5.1: freshness should not exceed the smallest answer TTL.
+    reply.header('cache-control', `max-age=${extractMinTtl(resp)}`);
+    reply.type(DNS_MESSAGE_CONTENT_TYPE);
+    return reply.send(resp);
+  };
+
+  // DoH clients issue one request per lookup, so allow far more than the admin API routes.
+  const routeOptions = {
+    config: {
+      rateLimit: { max: 1200, timeWindow: '1 minute' }
+    },
+    preHandler: app.rateLimit()
+  };
+
+  for (const url of ['/dns-query', '/dns-query/:clientId']) {
+    app.get(
+      url,
+      routeOptions,
+      async (request: FastifyRequest<{ Querystring: { dns?: string }; Params: { clientId?: string } }>, reply) => {
+        return await answer(request, reply, decodeBase64UrlDnsMessage(request.query?.dns), request.params?.clientId);
+      }
+    );
+
+    app.post(
+      url,
+      routeOptions,
+      async (request: FastifyRequest<{ Body: unknown; Params: { clientId?: string } }>, reply) => {
+        const body = Buffer.isBuffer(request.body) ? request.body : null;
+        const msg = body && body.length >= 12 ? body : null;
+        return await answer(request, reply, msg, request.params?.clientId);
+      }
+    );
+  }
+
+  void config;
+  void db;
+}
+
+export const __testing = {
+  decodeBase64UrlDnsMessage,
+  normalizeClientIdParam
+};
@@ -5,11 +5,19 @@ import { promisify } from 'node:util';
 import type { AppConfig } from '../config.js';
 import type { Db } from '../db.js';
 import { requireAdmin } from '../auth.js';
+import { MAX_REFRESH_INTERVAL_MINUTES, MIN_REFRESH_INTERVAL_MINUTES } from '../blocklists/jobs.js';
 import 'fastify-rate-limit';
 
 const execFileAsync = promisify(execFile);
 const require = createRequire(import.meta.url);
 
+// Same range as the blocklist routes: null keeps the default, 0 turns scheduled refreshes off.
+function isValidRefreshInterval(v: unknown): boolean {
+  if (v === null) return true;
+  if (typeof v !== 'number' || !Number.isInteger(v)) return false;
+  return v === 0 || (v >= MIN_REFRESH_INTERVAL_MINUTES && v <= MAX_REFRESH_INTERVAL_MINUTES);
+}
+
 function readAppVersion(): string {
   const envVersion = String(process.env.SENTINEL_VERSION || '').trim();
   if (envVersion) return envVersion;
@@ -142,7 +150,7 @@ export async function registerMaintenanceRoutes(app: FastifyInstance, config: Ap
         db.pool.query('SELECT id, domain, type, category, created_at FROM rules ORDER BY id ASC'),
         db.pool.query('SELECT id, profile, updated_at FROM clients ORDER BY id ASC'),
         db.pool.query(
-          'SELECT id, name, url, enabled, mode, last_updated_at, last_error, last_rule_count, created_at, updated_at FROM blocklists ORDER BY id ASC'
+          'SELECT id, name, url, enabled, mode, kind, last_updated_at, last_error, last_rule_count, refresh_interval_minutes, content, created_at, updated_at FROM blocklists ORDER BY id ASC'
         )
       ]);
 
@@ -210,6 +218,9 @@ export async function registerMaintenanceRoutes(app: FastifyInstance, config: Ap
       }
       for (const b of blocklists) {
         if (!b || typeof b.url !== 'string' || typeof b.name !== 'string') return invalid('blocklists[] invalid');
+        if (b.refresh_interval_minutes !== undefined && !isValidRefreshInterval(b.refresh_interval_minutes)) {
+          return invalid('blocklists[].refresh_interval_minutes invalid');
+        }
       }
 
       // Estimate updates vs inserts
@@ -284,11 +295,28 @@ export async function registerMaintenanceRoutes(app: FastifyInstance, config: Ap
           if (!name || !url) continue;
           const enabled = b.enabled !== false;
           const mode = b.mode === 'SHADOW' ? 'SHADOW' : 'ACTIVE';
+          const kind = b.kind === 'ALLOW' ? 'ALLOW' : 'BLOCK';
+          // Inline lists (url `inline:<uuid>`) carry their list in `content`.
+          const content = typeof b.content === 'string' ? b.content : null;
+          // Backups from before per-list intervals leave an existing list's interval alone.
+          const hasInterval = b.refresh_interval_minutes !== undefined;
           await client.query(
-            `INSERT INTO blocklists(name, url, enabled, mode, updated_at)
-             VALUES ($1, $2, $3, $4, NOW())
-             ON CONFLICT (url) DO UPDATE SET name = EXCLUDED.name, enabled = EXCLUDED.enabled, mode = EXCLUDED.mode, updated_at = NOW()`,
-            [name, url, enabled, mode]
+            `INSERT INTO blocklists(name, url, enabled, mode, kind, refresh_interval_minutes, content, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+             ON CONFLICT (url) DO UPDATE SET name = EXCLUDED.name, enabled = EXCLUDED.enabled, mode = EXCLUDED.mode, kind = EXCLUDED.kind,
+               refresh_interval_minutes = CASE WHEN $8 THEN EXCLUDED.refresh_interval_minutes ELSE blocklists.refresh_interval_minutes END,
+               content = COALESCE(EXCLUDED.content, blocklists.content), updated_at = NOW()`,
+            [
+              name,
+              url,
+              enabled,
+              mode,
+              kind,
+              // Like POST /api/blocklists: inline lists are never fetched on a schedule.
+              hasInterval ? b.refresh_interval_minutes : content != null ? 0 : null,
+              content,
+              hasInterval
+            ]
           );
         }
 
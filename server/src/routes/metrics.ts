@@ -34,6 +34,9 @@ type CacheEntry = {
   value: unknown;
 };
 
+// Answers served from the DNS response cache: CACHED, plus shadow-matched cache hits (logged as SHADOW_BLOCKED).
+const CACHED_ENTRY_SQL = "(entry->>'status' = 'CACHED' OR entry->>'cached' = 'true')";
+
 function clampInt(value: unknown, fallback: number, min: number, max: number): number {
   const n = Number(value);
   if (!Number.isFinite(n)) return fallback;
@@ -334,7 +337,11 @@ export async function registerMetricsRoutes(app: FastifyInstance, config: AppCon
         `SELECT
            COUNT(*)::bigint AS total,
            SUM(CASE WHEN entry->>'status' IN ('BLOCKED', 'SHADOW_BLOCKED') THEN 1 ELSE 0 END)::bigint AS blocked,
-           COUNT(DISTINCT COALESCE(NULLIF(entry->>'clientIp',''), NULLIF(entry->>'client','')))::bigint AS clients
+           SUM(CASE WHEN ${CACHED_ENTRY_SQL} THEN 1 ELSE 0 END)::bigint AS cached,
+           COUNT(DISTINCT COALESCE(NULLIF(entry->>'clientIp',''), NULLIF(entry->>'client','')))::bigint AS clients,
+           SUM(CASE WHEN entry->>'dnssec' = 'secure' THEN 1 ELSE 0 END)::bigint AS dnssec_secure,
+           SUM(CASE WHEN entry->>'dnssec' = 'insecure' THEN 1 ELSE 0 END)::bigint AS dnssec_insecure,
+           SUM(CASE WHEN entry->>'dnssec' = 'bogus' THEN 1 ELSE 0 END)::bigint AS dnssec_bogus
          FROM query_logs
          WHERE ts >= NOW() - ($1::text || ' hours')::interval`,
         [String(hours)]
@@ -342,11 +349,24 @@ export async function registerMetricsRoutes(app: FastifyInstance, config: AppCon
 
       const row = summaryRes.rows?.[0] ?? {};
 
+      const dnssecSecure = Number((row as any).dnssec_secure ?? 0);
+      const dnssecInsecure = Number((row as any).dnssec_insecure ?? 0);
+      const dnssecBogus = Number((row as any).dnssec_bogus ?? 0);
+      const dnssecChecked = dnssecSecure + dnssecInsecure + dnssecBogus;
+
       const out = {
         windowHours: hours,
         totalQueries: Number((row as any).total ?? 0),
         blockedQueries: Number((row as any).blocked ?? 0),
-        activeClients: Number((row as any).clients ?? 0)
+        cachedQueries: Number((row as any).cached ?? 0),
+        activeClients: Number((row as any).clients ?? 0),
+        dnssec: {
+          secure: dnssecSecure,
+          insecure: dnssecInsecure,
+          bogus: dnssecBogus,
+          // Share of upstream-resolved answers that were validated (null when nothing was checked).
+          validatedRatio: dnssecChecked > 0 ? dnssecSecure / dnssecChecked : null
+        }
       };
 
       cacheSet(cacheKey, out);
@@ -391,7 +411,8 @@ export async function registerMetricsRoutes(app: FastifyInstance, config: AppCon
          agg AS (
            SELECT to_timestamp(floor(extract(epoch from ts) / ${bucketSeconds})::bigint * ${bucketSeconds}) AS bucket,
                   COUNT(*)::bigint AS queries,
-                  SUM(CASE WHEN entry->>'status' = 'BLOCKED' THEN 1 ELSE 0 END)::bigint AS ads
+                  SUM(CASE WHEN entry->>'status' = 'BLOCKED' THEN 1 ELSE 0 END)::bigint AS ads,
+                  SUM(CASE WHEN ${CACHED_ENTRY_SQL} THEN 1 ELSE 0 END)::bigint AS cached
            FROM query_logs
            WHERE ts >= (SELECT start_ts FROM bounds)
              AND ts <= (SELECT end_ts FROM bounds)
@@ -399,7 +420,8 @@ export async function registerMetricsRoutes(app: FastifyInstance, config: AppCon
          )
          SELECT b.bucket,
                 COALESCE(a.queries, 0)::bigint AS queries,
-                COALESCE(a.ads, 0)::bigint AS ads
+                COALESCE(a.ads, 0)::bigint AS ads,
+                COALESCE(a.cached, 0)::bigint AS cached
          FROM buckets b
          LEFT JOIN agg a USING(bucket)
          ORDER BY b.bucket ASC`,
@@ -411,7 +433,8 @@ export async function registerMetricsRoutes(app: FastifyInstance, config: AppCon
         items: res.rows.map((r) => ({
           ts: (r.bucket as Date).toISOString(),
           queries: Number(r.queries ?? 0),
-          ads: Number(r.ads ?? 0)
+          ads: Number(r.ads ?? 0),
+          cached: Number(r.cached ?? 0)
         }))
       };
 
@@ -12,6 +12,7 @@ type QueryLogsGetQuerystring = {
   hours?: string;
   domain?: string;
   status?: string;
+  dnssec?: string;
 };
 
 type IgnoredAnomaliesPutBody = {
@@ -134,6 +135,8 @@ export async function registerQueryLogsRoutes(app: FastifyInstance, config: AppC
         statusRaw === 'CACHED'
           ? statusRaw
           : null;
+      const dnssecRaw = String(request.query.dnssec ?? '').trim().toLowerCase();
+      const dnssec = dnssecRaw === 'secure' || dnssecRaw === 'insecure' || dnssecRaw === 'bogus' ? dnssecRaw : null;
 
       const where: string[] = [];
       const params: Array<string | number> = [];
@@ -149,11 +152,18 @@ export async function registerQueryLogsRoutes(app: FastifyInstance, config: AppC
       if (status) {
         if (status === 'BLOCKED') {
           where.push(`entry->>'status' IN ('BLOCKED', 'SHADOW_BLOCKED')`);
+        } else if (status === 'CACHED') {
+          // Shadow-matched cache hits keep their SHADOW_BLOCKED status but are flagged `cached`.
+          where.push(`(entry->>'status' = 'CACHED' OR entry->>'cached' = 'true')`);
         } else {
           params.push(status);
           where.push(`entry->>'status' = $${params.length}`);
         }
       }
+      if (dnssec) {
+        params.push(dnssec);
+        where.push(`entry->>'dnssec' = $${params.length}`);
+      }
 
       params.push(limit);
       const whereSql = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
@@ -3,14 +3,47 @@ import crypto from 'node:crypto';
 import type { AppConfig } from '../config.js';
 import type { Db } from '../db.js';
 import { requireAdmin } from '../auth.js';
+import {
+  CAA_TAGS,
+  hasCnameConflict,
+  LOCAL_RECORD_TYPES,
+  MAX_LOCAL_RECORDS,
+  parseLocalRecord,
+  readLocalRecords,
+  recordsFromTarget,
+  type LocalRecord
+} from '../dns/localRecords.js';
 import 'fastify-rate-limit';
 
 export type DnsRewrite = {
   id: string;
   domain: string;
-  target: string;
+  records: LocalRecord[];
 };
 
+type RewriteBody = {
+  domain?: string;
+  // Legacy shorthand for a single A/AAAA (IP) or CNAME record.
+  target?: string;
+  records?: unknown[];
+};
+
+const RECORD_SCHEMA = {
+  type: 'object',
+  required: ['type', 'value'],
+  additionalProperties: false,
+  properties: {
+    type: { type: 'string', enum: [...LOCAL_RECORD_TYPES] },
+    value: { type: 'string', minLength: 1, maxLength: 1024 },
+    ttl: { type: 'integer', minimum: 0, maximum: 86400 },
+    priority: { type: 'integer', minimum: 0, maximum: 65535 },
+    weight: { type: 'integer', minimum: 0, maximum: 65535 },
+    port: { type: 'integer', minimum: 1, maximum: 65535 },
+    tag: { type: 'string', enum: [...CAA_TAGS] },
+    flags: { type: 'integer', minimum: 0, maximum: 255 }
+  }
+} as const;
+
 function normalizeDomain(input: unknown): string {
   const raw = String(input ?? '').trim().toLowerCase();
   if (!raw) return '';
@@ -39,11 +72,29 @@ function validateRewrite(r: DnsRewrite): { ok: true } | { ok: false; error: stri
   const domain = parsed.domain;
   if (!domain || domain.length > 253 || !domain.includes('.')) return { ok: false, error: 'INVALID_DOMAIN' };
   if (!/^[a-z0-9.-]+$/.test(domain)) return { ok: false, error: 'INVALID_DOMAIN' };
-  const target = String(r.target ?? '').trim();
-  if (!target || target.length > 253) return { ok: false, error: 'INVALID_TARGET' };
+  if (!r.records.length) return { ok: false, error: 'INVALID_TARGET' };
+  if (hasCnameConflict(r.records)) return { ok: false, error: 'CNAME_CONFLICT' };
   return { ok: true };
 }
 
+/** Record set from the request body; `records` wins over the legacy `target`. */
+function recordsFromBody(body: RewriteBody): { records: LocalRecord[] } | { error: string; message: string } {
+  if (Array.isArray(body.records)) {
+    const records: LocalRecord[] = [];
+    for (const raw of body.records) {
+      const record = parseLocalRecord(raw);
+      if (!record) {
+        const type = String((raw as any)?.type ?? '').toUpperCase() || 'record';
+        return { error: 'INVALID_RECORD', message: `Invalid ${type} record.` };
+      }
+      records.push(record);
+    }
+    return { records };
+  }
+  const target = String(body.target ?? '').trim();
+  return { records: target.length <= 253 ? recordsFromTarget(target) : [] };
+}
+
 function readRewrites(value: unknown): DnsRewrite[] {
   const arr = Array.isArray((value as any)?.items) ? (value as any).items : Array.isArray(value) ? (value as any) : [];
   const out: DnsRewrite[] = [];
@@ -51,13 +102,19 @@ function readRewrites(value: unknown): DnsRewrite[] {
     if (!raw || typeof raw !== 'object') continue;
     const id = String((raw as any).id ?? '').trim();
     const domain = normalizeDomain((raw as any).domain);
-    const target = String((raw as any).target ?? '').trim();
-    if (!id || !domain || !target) continue;
-    out.push({ id, domain, target });
+    const records = readLocalRecords(raw);
+    if (!id || !domain || !records.length) continue;
+    out.push({ id, domain, records });
   }
   return out;
 }
 
+/** API shape: a single A/AAAA/CNAME record is also exposed as the legacy `target` for older clients. */
+function toApiRewrite(r: DnsRewrite): DnsRewrite & { target?: string } {
+  const only = r.records.length === 1 ? r.records[0] : undefined;
+  return only && (only.type === 'A' || only.type === 'AAAA' || only.type === 'CNAME') ? { ...r, target: only.value } : r;
+}
+
 async function saveRewrites(db: Db, rewrites: DnsRewrite[]): Promise<void> {
   await db.pool.query(
     'INSERT INTO settings(key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()',
@@ -77,7 +134,7 @@ export async function registerRewritesRoutes(app: FastifyInstance, config: AppCo
     async (request) => {
       await requireAdmin(db, request);
       const res = await db.pool.query('SELECT value FROM settings WHERE key = $1', ['dns_rewrites']);
-      return { items: readRewrites(res.rows?.[0]?.value) };
+      return { items: readRewrites(res.rows?.[0]?.value).map(toApiRewrite) };
     }
   );
 
@@ -91,23 +148,30 @@ export async function registerRewritesRoutes(app: FastifyInstance, config: AppCo
       schema: {
         body: {
           type: 'object',
-          required: ['domain', 'target'],
+          required: ['domain'],
           additionalProperties: false,
           properties: {
             domain: { type: 'string', minLength: 1, maxLength: 253 },
-            target: { type: 'string', minLength: 1, maxLength: 253 }
+            target: { type: 'string', minLength: 1, maxLength: 253 },
+            records: { type: 'array', minItems: 1, maxItems: MAX_LOCAL_RECORDS, items: RECORD_SCHEMA }
           }
         }
       }
     },
-    async (request: FastifyRequest<{ Body: { domain: string; target: string } }>, reply: FastifyReply) => {
+    async (request: FastifyRequest<{ Body: RewriteBody & { domain: string } }>, reply: FastifyReply) => {
       await requireAdmin(db, request);
 
       const res = await db.pool.query('SELECT value FROM settings WHERE key = $1', ['dns_rewrites']);
       const rewrites = readRewrites(res.rows?.[0]?.value);
 
+      const parsedRecords = recordsFromBody(request.body);
+      if ('error' in parsedRecords) {
+        reply.code(400);
+        return parsedRecords;
+      }
+
       const id = crypto.randomUUID();
-      const next: DnsRewrite = { id, domain: request.body.domain, target: request.body.target };
+      const next: DnsRewrite = { id, domain: request.body.domain, records: parsedRecords.records };
       const valid = validateRewrite(next);
       if (!valid.ok) {
         reply.code(400);
@@ -117,11 +181,12 @@ export async function registerRewritesRoutes(app: FastifyInstance, config: AppCo
       // De-dupe by domain (replace existing)
       const domainNorm = normalizeDomain(next.domain);
       const filtered = rewrites.filter((r) => normalizeDomain(r.domain) !== domainNorm);
-      filtered.unshift({ ...next, domain: domainNorm });
+      const item = { ...next, domain: domainNorm };
+      filtered.unshift(item);
 
       await saveRewrites(db, filtered);
       reply.code(201);
-      return { item: next };
+      return { item: toApiRewrite(item) };
     }
   );
 
@@ -138,15 +203,13 @@ export async function registerRewritesRoutes(app: FastifyInstance, config: AppCo
           additionalProperties: false,
           properties: {
             domain: { type: 'string', minLength: 1, maxLength: 253 },
-            target: { type: 'string', minLength: 1, maxLength: 253 }
+            target: { type: 'string', minLength: 1, maxLength: 253 },
+            records: { type: 'array', minItems: 1, maxItems: MAX_LOCAL_RECORDS, items: RECORD_SCHEMA }
           }
         }
       }
     },
-    async (
-      request: FastifyRequest<{ Params: { id: string }; Body: { domain?: string; target?: string } }>,
-      reply: FastifyReply
-    ) => {
+    async (request: FastifyRequest<{ Params: { id: string }; Body: RewriteBody }>, reply: FastifyReply) => {
       await requireAdmin(db, request);
 
       const res = await db.pool.query('SELECT value FROM settings WHERE key = $1', ['dns_rewrites']);
@@ -157,10 +220,20 @@ export async function registerRewritesRoutes(app: FastifyInstance, config: AppCo
         return { error: 'NOT_FOUND' };
       }
 
+      let records = rewrites[idx].records;
+      if (request.body.records !== undefined || request.body.target !== undefined) {
+        const parsedRecords = recordsFromBody(request.body);
+        if ('error' in parsedRecords) {
+          reply.code(400);
+          return parsedRecords;
+        }
+        records = parsedRecords.records;
+      }
+
       const updated: DnsRewrite = {
         id: request.params.id,
         domain: request.body.domain ?? rewrites[idx].domain,
-        target: request.body.target ?? rewrites[idx].target
+        records
       };
 
       const valid = validateRewrite(updated);
@@ -171,7 +244,7 @@ export async function registerRewritesRoutes(app: FastifyInstance, config: AppCo
 
       rewrites[idx] = { ...updated, domain: normalizeDomain(updated.domain) };
       await saveRewrites(db, rewrites);
-      return { item: rewrites[idx] };
+      return { item: toApiRewrite(rewrites[idx]) };
     }
   );
 
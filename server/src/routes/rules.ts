@@ -3,6 +3,7 @@ import type { FastifyReply, FastifyRequest } from 'fastify';
 import type { AppConfig } from '../config.js';
 import type { Db } from '../db.js';
 import { requireAdmin } from '../auth.js';
+import { parseRulePattern } from '../dns/rulePatterns.js';
 import 'fastify-rate-limit';
 
 export async function registerRulesRoutes(app: FastifyInstance, config: AppConfig, db: Db): Promise<void> {
@@ -61,10 +62,17 @@ export async function registerRulesRoutes(app: FastifyInstance, config: AppConfi
 
       const { domain, type, category } = request.body;
 
+      // "ads*.example.com" and "/regex/" rules are matched by the DNS server's pattern index.
+      const parsed = parseRulePattern(domain);
+      if ('error' in parsed) {
+        reply.code(400);
+        return parsed;
+      }
+
       try {
         const res = await db.pool.query(
           'INSERT INTO rules(domain, type, category) VALUES ($1, $2, $3) RETURNING id, domain, type, category, created_at',
-          [domain, type, category ?? 'Manual']
+          [parsed.pattern, type, category ?? 'Manual']
         );
         reply.code(201);
         return res.rows[0];
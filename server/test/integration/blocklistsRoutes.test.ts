@@ -59,6 +59,26 @@ describe('integration: blocklists routes', () => {
     await pg?.stop().catch(() => undefined);
   }, 120_000);
 
+  // Refreshes run on the job queue; poll until the worker finishes the job.
+  async function refreshAndWait(id: number, opts: { skipBackoff?: boolean } = {}): Promise<any> {
+    const queued = await app.inject({ method: 'POST', url: `/api/blocklists/${id}/refresh`, headers: { cookie } });
+    expect(queued.statusCode).toBe(202);
+    return waitForJob(String(queued.json()?.job?.id), opts);
+  }
+
+  async function waitForJob(jobId: string, opts: { skipBackoff?: boolean } = {}): Promise<any> {
+    for (let i = 0; i < 200; i++) {
+      if (opts.skipBackoff) {
+        await pool!.query("UPDATE blocklist_refresh_jobs SET run_after = NOW() WHERE id = $1 AND status = 'QUEUED'", [jobId]);
+      }
+      const res = await app.inject({ method: 'GET', url: `/api/blocklists/jobs/${jobId}`, headers: { cookie } });
+      const job = res.json();
+      if (job.status === 'SUCCEEDED' || job.status === 'FAILED') return job;
+      await new Promise((r) => setTimeout(r, 250));
+    }
+    throw new Error(`refresh job ${jobId} did not finish`);
+  }
+
   it('skips if Docker is unavailable', async () => {
     if (!dockerOk) {
       expect(dockerOk).toBe(false);
@@ -140,9 +160,10 @@ describe('integration: blocklists routes', () => {
       return (baseFetch as FetchType)(input, init);
     }) as FetchType;
 
-    const res = await app.inject({ method: 'POST', url: `/api/blocklists/${id}/refresh`, headers: { cookie } });
-    expect(res.statusCode).toBe(202);
-    expect(res.json()).toMatchObject({ ok: true, fetched: 2 });
+    const job = await refreshAndWait(id);
+    expect(job).toMatchObject({ status: 'SUCCEEDED', trigger: 'MANUAL', attempts: 1 });
+    expect(job.result).toMatchObject({ fetched: 2 });
+    expect(job.result.stats).toEqual({ accepted: 2, exceptions: 0, unsupported: 0, invalid: 0 });
 
     const category = `Blocklist:${id}`;
     const rules = await pool.query('SELECT domain, category FROM rules WHERE category = $1 ORDER BY domain ASC', [category]);
@@ -150,7 +171,55 @@ describe('integration: blocklists routes', () => {
     expect(domains).toEqual(['ads.example.com', 'tracker.example.org']);
   });
 
-  it('refresh failure updates last_error and emits a notification (mocked fetch)', async () => {
+  it('refresh uses conditional GETs, diffs rules and records history (mocked fetch)', async () => {
+    if (!dockerOk || !pool) return;
+
+    const url = 'https://example.invalid/list-etag.txt';
+
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/blocklists',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { name: 'ETag List', url }
+    });
+    expect(created.statusCode).toBe(201);
+    const id = Number(created.json()?.id);
+
+    let body = '0.0.0.0 a.example.com\n0.0.0.0 b.example.com\n';
+    let etag = '"v1"';
+    globalThis.fetch = (async (input: any, init?: any) => {
+      const reqUrl = typeof input === 'string' ? input : typeof input?.url === 'string' ? input.url : '';
+      if (reqUrl === url) {
+        if (init?.headers?.['if-none-match'] === etag) return new Response(null, { status: 304 });
+        return new Response(body, { status: 200, headers: { etag } });
+      }
+      return (baseFetch as FetchType)(input, init);
+    }) as FetchType;
+
+    const first = await refreshAndWait(id);
+    expect(first.result).toMatchObject({ notModified: false, fetched: 2, added: 2, removed: 0 });
+
+    const second = await refreshAndWait(id);
+    expect(second.result).toMatchObject({ notModified: true, fetched: 2 });
+
+    body = '0.0.0.0 b.example.com\n0.0.0.0 c.example.com\n';
+    etag = '"v2"';
+    const third = await refreshAndWait(id);
+    expect(third.result).toMatchObject({ notModified: false, fetched: 2, added: 1, removed: 1 });
+
+    const rules = await pool.query('SELECT domain FROM rules WHERE category = $1 ORDER BY domain ASC', [`Blocklist:${id}`]);
+    expect(rules.rows.map((r) => String(r.domain))).toEqual(['b.example.com', 'c.example.com']);
+
+    const detail = await app.inject({ method: 'GET', url: `/api/blocklists/${id}`, headers: { cookie } });
+    expect(detail.statusCode).toBe(200);
+    expect(detail.json().history.map((h: any) => h.status)).toEqual(['UPDATED', 'NOT_MODIFIED', 'UPDATED']);
+    expect(detail.json().history[0]).toMatchObject({ added: 1, removed: 1, rule_count: 2 });
+
+    const missing = await app.inject({ method: 'GET', url: '/api/blocklists/999999', headers: { cookie } });
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it('refresh failure is retried, then updates last_error and emits a notification (mocked fetch)', async () => {
     if (!dockerOk || !pool) return;
 
     const url = 'https://example.invalid/list-fail.txt';
@@ -172,9 +241,9 @@ describe('integration: blocklists routes', () => {
       return (baseFetch as FetchType)(input, init);
     }) as FetchType;
 
-    const res = await app.inject({ method: 'POST', url: `/api/blocklists/${id}/refresh`, headers: { cookie } });
-    expect(res.statusCode).toBe(502);
-    expect(res.json()).toMatchObject({ error: 'REFRESH_FAILED' });
+    const job = await refreshAndWait(id, { skipBackoff: true });
+    expect(job).toMatchObject({ status: 'FAILED', attempts: 3 });
+    expect(String(job.error)).toContain('HTTP_500');
 
     const row = await pool.query('SELECT last_error FROM blocklists WHERE id = $1', [id]);
     expect(String(row.rows?.[0]?.last_error ?? '')).toContain('HTTP_500');
@@ -183,4 +252,123 @@ describe('integration: blocklists routes', () => {
     expect(notif.rowCount).toBe(1);
     expect(notif.rows[0]?.entry?.event).toBe('blocklistRefreshFailed');
   });
+
+  it('stores per-list refresh intervals and lists jobs', async () => {
+    if (!dockerOk || !pool) return;
+
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/blocklists',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { name: 'Hourly List', url: 'https://example.invalid/hourly.txt', refreshIntervalMinutes: 60 }
+    });
+    expect(created.statusCode).toBe(201);
+    expect(created.json().refresh_interval_minutes).toBe(60);
+    const id = Number(created.json()?.id);
+
+    const tooShort = await app.inject({
+      method: 'PUT',
+      url: `/api/blocklists/${id}`,
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { refreshIntervalMinutes: 5 }
+    });
+    expect(tooShort.statusCode).toBe(400);
+
+    const manualOnly = await app.inject({
+      method: 'PUT',
+      url: `/api/blocklists/${id}`,
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { refreshIntervalMinutes: 0 }
+    });
+    expect(manualOnly.json().refresh_interval_minutes).toBe(0);
+
+    const jobs = await app.inject({ method: 'GET', url: '/api/blocklists/jobs?limit=10', headers: { cookie } });
+    expect(jobs.statusCode).toBe(200);
+    expect(Array.isArray(jobs.json().items)).toBe(true);
+  });
+
+  it('creates, uploads and edits inline lists and validates file:// paths', async () => {
+    if (!dockerOk || !pool) return;
+
+    const pasted = await app.inject({
+      method: 'POST',
+      url: '/api/blocklists',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { name: 'Pasted List', content: 'pasted-a.example.com\n||pasted-b.example.com^\n' }
+    });
+    expect(pasted.statusCode).toBe(201);
+    expect(String(pasted.json().url)).toMatch(/^inline:/);
+    expect(pasted.json().refresh_interval_minutes).toBe(0);
+    const pastedId = Number(pasted.json().id);
+
+    const jobs = await app.inject({ method: 'GET', url: `/api/blocklists/jobs?blocklistId=${pastedId}`, headers: { cookie } });
+    const created = await waitForJob(String(jobs.json().items[0].id));
+    expect(created.status).toBe('SUCCEEDED');
+    expect(created.result.fetched).toBe(2);
+
+    const edited = await app.inject({
+      method: 'PUT',
+      url: `/api/blocklists/${pastedId}`,
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { content: 'pasted-c.example.com\n' }
+    });
+    expect(edited.statusCode).toBe(200);
+    await refreshAndWait(pastedId);
+    const rules = await pool.query('SELECT domain FROM rules WHERE category = $1 ORDER BY domain', [`Blocklist:${pastedId}`]);
+    expect(rules.rows.map((r) => r.domain)).toEqual(['pasted-c.example.com']);
+
+    const detail = await app.inject({ method: 'GET', url: `/api/blocklists/${pastedId}`, headers: { cookie } });
+    expect(detail.json().content).toBe('pasted-c.example.com\n');
+
+    const toUrl = await app.inject({
+      method: 'PUT',
+      url: `/api/blocklists/${pastedId}`,
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { url: 'https://example.invalid/list.txt' }
+    });
+    expect(toUrl.statusCode).toBe(400);
+
+    const uploaded = await app.inject({
+      method: 'POST',
+      url: '/api/blocklists/upload?name=Uploaded%20List&kind=ALLOW',
+      headers: { cookie, 'content-type': 'text/plain' },
+      payload: '0.0.0.0 uploaded.example.com\n'
+    });
+    expect(uploaded.statusCode).toBe(201);
+    expect(uploaded.json().kind).toBe('ALLOW');
+    const upJob = await waitForJob(String(uploaded.json().job.id));
+    expect(upJob.result.fetched).toBe(1);
+
+    const escape = await app.inject({
+      method: 'POST',
+      url: '/api/blocklists',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { name: 'Escape', url: 'file://../secrets.json' }
+    });
+    expect(escape.statusCode).toBe(400);
+    expect(escape.json().error).toBe('INVALID_FILE_PATH');
+
+    const both = await app.inject({
+      method: 'POST',
+      url: '/api/blocklists',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { name: 'Both', url: 'https://example.invalid/x.txt', content: 'x.example.com' }
+    });
+    expect(both.statusCode).toBe(400);
+
+    const notInline = await app.inject({
+      method: 'POST',
+      url: '/api/blocklists',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { name: 'File List', url: 'file://team/ads.txt' }
+    });
+    expect(notInline.statusCode).toBe(201);
+    const contentOnUrl = await app.inject({
+      method: 'PUT',
+      url: `/api/blocklists/${notInline.json().id}`,
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { content: 'x.example.com' }
+    });
+    expect(contentOnUrl.json().error).toBe('NOT_INLINE');
+  });
 });
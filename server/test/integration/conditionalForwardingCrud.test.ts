@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import crypto from 'node:crypto';
+import { extractSessionCookie, hasDocker, startPostgresContainer, startTestApp } from './_harness.js';
+
+describe('integration: conditional forwarding CRUD', () => {
+  let dockerOk = false;
+  let pg: Awaited<ReturnType<typeof startPostgresContainer>> | null = null;
+  let closeApp: (() => Promise<void>) | null = null;
+  let app: any;
+  let cookie = '';
+
+  beforeAll(async () => {
+    dockerOk = await hasDocker();
+    if (!dockerOk) return;
+
+    pg = await startPostgresContainer();
+    const built = await startTestApp(pg.databaseUrl);
+    app = built.app;
+    closeApp = built.close;
+
+    const username = `it-${Date.now()}`;
+    const password = `it-pass-${crypto.randomBytes(8).toString('hex')}-12345678`;
+
+    const setup = await app.inject({
+      method: 'POST',
+      url: '/api/auth/setup',
+      payload: { username, password }
+    });
+
+    cookie = extractSessionCookie(setup.headers['set-cookie']);
+    if (!cookie) throw new Error('Missing session cookie from /api/auth/setup');
+  }, 120_000);
+
+  afterAll(async () => {
+    try {
+      await closeApp?.();
+    } catch {
+      // ignore
+    }
+    await pg?.stop().catch(() => undefined);
+  }, 120_000);
+
+  it('skips if Docker is unavailable', async () => {
+    if (!dockerOk) {
+      expect(dockerOk).toBe(false);
+      return;
+    }
+    expect(dockerOk).toBe(true);
+  });
+
+  it('creates, updates and lists a conditional forward', async () => {
+    if (!dockerOk) return;
+
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/dns/conditional-forwarding',
+      headers: { cookie },
+      payload: { suffix: '192.168.0.0/16', upstream: { transport: 'udp', host: '192.168.1.1' } }
+    });
+
+    expect(created.statusCode).toBe(201);
+    expect(created.json()?.item).toMatchObject({
+      suffix: '168.192.in-addr.arpa',
+      upstream: { transport: 'udp', host: '192.168.1.1', port: 53 }
+    });
+    const id = created.json()?.item?.id;
+
+    const updated = await app.inject({
+      method: 'PUT',
+      url: `/api/dns/conditional-forwarding/${id}`,
+      headers: { cookie },
+      payload: { upstream: { transport: 'dot', host: 'router.lan' } }
+    });
+    expect(updated.statusCode).toBe(200);
+    expect(updated.json()?.item?.upstream).toEqual({ transport: 'dot', host: 'router.lan', port: 853 });
+
+    const invalid = await app.inject({
+      method: 'POST',
+      url: '/api/dns/conditional-forwarding',
+      headers: { cookie },
+      payload: { suffix: 'bad suffix!', upstream: { transport: 'udp', host: '10.0.0.1' } }
+    });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.json()).toMatchObject({ error: 'INVALID_SUFFIX' });
+
+    const list = await app.inject({ method: 'GET', url: '/api/dns/conditional-forwarding', headers: { cookie } });
+    expect(list.statusCode).toBe(200);
+    const items = Array.isArray(list.json()?.items) ? list.json().items : [];
+    expect(items.some((f: any) => f?.id === id && f?.suffix === '168.192.in-addr.arpa')).toBe(true);
+  });
+
+  it('deletes a conditional forward', async () => {
+    if (!dockerOk) return;
+
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/dns/conditional-forwarding',
+      headers: { cookie },
+      payload: { suffix: `corp-${Date.now()}.example`, upstream: { transport: 'udp', host: '10.8.0.1' } }
+    });
+    expect(created.statusCode).toBe(201);
+    const id = created.json()?.item?.id;
+
+    const del = await app.inject({ method: 'DELETE', url: `/api/dns/conditional-forwarding/${id}`, headers: { cookie } });
+    expect(del.statusCode).toBe(204);
+
+    const missing = await app.inject({ method: 'DELETE', url: `/api/dns/conditional-forwarding/${id}`, headers: { cookie } });
+    expect(missing.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,119 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import crypto from 'node:crypto';
+import { Pool } from 'pg';
+import { extractSessionCookie, hasDocker, startPostgresContainer, startTestApp } from './_harness.js';
+
+describe('integration: dhcp routes', () => {
+  let dockerOk = false;
+  let pg: Awaited<ReturnType<typeof startPostgresContainer>> | null = null;
+  let closeApp: (() => Promise<void>) | null = null;
+  let app: any;
+  let cookie = '';
+  let pool: Pool | null = null;
+
+  beforeAll(async () => {
+    dockerOk = await hasDocker();
+    if (!dockerOk) return;
+
+    pg = await startPostgresContainer();
+    pool = new Pool({ connectionString: pg.databaseUrl });
+
+    const built = await startTestApp(pg.databaseUrl);
+    app = built.app;
+    closeApp = built.close;
+
+    const username = `it-${Date.now()}`;
+    const password = `it-pass-${crypto.randomBytes(8).toString('hex')}-12345678`;
+
+    const setup = await app.inject({
+      method: 'POST',
+      url: '/api/auth/setup',
+      payload: { username, password }
+    });
+
+    cookie = extractSessionCookie(setup.headers['set-cookie']);
+    if (!cookie) throw new Error('Missing session cookie from /api/auth/setup');
+
+    await pool.query('DELETE FROM dhcp_leases');
+  }, 120_000);
+
+  afterAll(async () => {
+    await pool?.end().catch(() => undefined);
+    try {
+      await closeApp?.();
+    } catch {
+      // ignore
+    }
+    await pg?.stop().catch(() => undefined);
+  }, 120_000);
+
+  it('skips if Docker is unavailable', async () => {
+    if (!dockerOk) {
+      expect(dockerOk).toBe(false);
+      return;
+    }
+    expect(dockerOk).toBe(true);
+  });
+
+  it('PUT /api/dhcp/settings validates scopes', async () => {
+    if (!dockerOk) return;
+
+    const bad = await app.inject({
+      method: 'PUT',
+      url: '/api/dhcp/settings',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { enabled: true, scopes: [{ subnet: '192.168.50.0/24', rangeStart: '192.168.50.200', rangeEnd: '192.168.50.100' }] }
+    });
+    expect(bad.statusCode).toBe(400);
+    expect(bad.json()).toMatchObject({ error: 'INVALID_RANGE' });
+
+    const ok = await app.inject({
+      method: 'PUT',
+      url: '/api/dhcp/settings',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: {
+        enabled: true,
+        scopes: [{ id: 'lan', name: 'LAN', subnet: '192.168.50.0/24', rangeStart: '192.168.50.100', rangeEnd: '192.168.50.200', domain: 'Home.Arpa' }]
+      }
+    });
+    expect(ok.statusCode).toBe(200);
+    expect(ok.json()?.value?.scopes?.[0]).toMatchObject({ id: 'lan', domain: 'home.arpa', leaseTimeSec: 86400 });
+
+    const get = await app.inject({ method: 'GET', url: '/api/dhcp/settings', headers: { cookie } });
+    expect(get.statusCode).toBe(200);
+    expect(get.json()?.value?.enabled).toBe(true);
+    expect(get.json()?.status).toMatchObject({ running: false });
+  });
+
+  it('GET /api/dhcp/leases lists leases with profile reservations; DELETE forgets a lease', async () => {
+    if (!dockerOk) return;
+
+    const profileRes = await app.inject({
+      method: 'PUT',
+      url: '/api/clients/dhcp-tv',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { id: 'dhcp-tv', name: 'Living Room TV', type: 'tv', mac: 'AA:BB:CC:00:50:20', ip: '192.168.50.20' }
+    });
+    expect(profileRes.statusCode).toBeLessThan(300);
+
+    await pool!.query(
+      "INSERT INTO dhcp_leases(ip, mac, hostname, scope_id, expires_at) VALUES ($1, $2, $3, 'lan', NOW() + INTERVAL '1 hour'), ($4, $5, $6, 'lan', NOW() - INTERVAL '1 hour')",
+      ['192.168.50.20', 'aa:bb:cc:00:50:20', 'living-room-tv', '192.168.50.101', 'aa:bb:cc:00:50:21', 'laptop']
+    );
+
+    const res = await app.inject({ method: 'GET', url: '/api/dhcp/leases', headers: { cookie } });
+    expect(res.statusCode).toBe(200);
+    const json = res.json();
+    expect(json.reservations).toEqual([
+      expect.objectContaining({ scopeId: 'lan', ip: '192.168.50.20', mac: 'aa:bb:cc:00:50:20', hostname: 'living-room-tv', profileId: 'dhcp-tv' })
+    ]);
+    const tv = json.items.find((x: any) => x.ip === '192.168.50.20');
+    expect(tv).toMatchObject({ active: true, reserved: true, profileName: 'Living Room TV' });
+    expect(json.items.find((x: any) => x.ip === '192.168.50.101')).toMatchObject({ active: false, reserved: false });
+
+    const del = await app.inject({ method: 'DELETE', url: '/api/dhcp/leases/192.168.50.101', headers: { cookie } });
+    expect(del.statusCode).toBe(204);
+    const again = await app.inject({ method: 'DELETE', url: '/api/dhcp/leases/192.168.50.101', headers: { cookie } });
+    expect(again.statusCode).toBe(404);
+  });
+});
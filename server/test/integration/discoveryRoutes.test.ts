@@ -138,4 +138,35 @@ describe('integration: discovery routes', () => {
     expect(items2.length).toBeGreaterThan(0);
     expect(items2[0]).toHaveProperty('source', 'reverse-dns');
   });
+
+  it('PUT /api/discovery/settings rejects lease files outside the leases directory', async () => {
+    if (!dockerOk) return;
+
+    const bad = await app.inject({
+      method: 'PUT',
+      url: '/api/discovery/settings',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { reverseDns: { enabled: false }, leaseFiles: [{ path: '../../etc/passwd', format: 'dnsmasq' }] }
+    });
+    expect(bad.statusCode).toBe(400);
+    expect(bad.json()).toMatchObject({ error: 'INVALID_LEASE_PATH' });
+
+    const ok = await app.inject({
+      method: 'PUT',
+      url: '/api/discovery/settings',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { reverseDns: { enabled: false }, leaseFiles: [{ path: 'missing.leases', format: 'bogus' }], mdns: { enabled: false } }
+    });
+    expect(ok.statusCode).toBe(200);
+    expect(ok.json()?.value?.leaseFiles).toEqual([{ path: 'missing.leases', format: 'auto' }]);
+
+    // A missing file is reported per source instead of failing discovery.
+    const sources = await app.inject({ method: 'GET', url: '/api/discovery/sources', headers: { cookie } });
+    expect(sources.statusCode).toBe(200);
+    expect(sources.json()?.leaseFiles?.[0]).toMatchObject({ path: 'missing.leases', entries: 0 });
+    expect(typeof sources.json()?.leaseFiles?.[0]?.error).toBe('string');
+
+    const clients = await app.inject({ method: 'GET', url: '/api/discovery/clients?limit=20', headers: { cookie } });
+    expect(clients.statusCode).toBe(200);
+  });
 });
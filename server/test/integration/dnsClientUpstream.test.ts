@@ -0,0 +1,204 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import crypto from 'node:crypto';
+import dgram from 'node:dgram';
+import net from 'node:net';
+import dnsPacket from 'dns-packet';
+
+import type { AppConfig } from '../../src/config.js';
+import { createDb } from '../../src/db.js';
+import { startDnsServer } from '../../src/dns/dnsServer.js';
+import { hasDocker, startPostgresContainer } from './_harness.js';
+
+type UdpServer = {
+  port: number;
+  close: () => Promise<void>;
+};
+
+async function pickFreeTcpPort(): Promise<number> {
+  return await new Promise((resolve, reject) => {
+    const s = net.createServer();
+    s.once('error', reject);
+    s.listen(0, '127.0.0.1', () => {
+      const addr = s.address();
+      const port = typeof addr === 'object' && addr ? addr.port : 0;
+      s.close((err) => (err ? reject(err) : resolve(port)));
+    });
+  });
+}
+
+async function startStubUpstreamDns(answerIp: string): Promise<UdpServer> {
+  const udp = dgram.createSocket('udp4');
+
+  udp.on('message', (msg, rinfo) => {
+    try {
+      const query: any = dnsPacket.decode(msg);
+      const q = query.questions?.[0];
+      const name = q?.name ? String(q.name) : 'example.test';
+
+      const resp = dnsPacket.encode({
+        type: 'response',
+        id: query.id,
+        flags: (query.flags ?? 0) | dnsPacket.RECURSION_AVAILABLE,
+        questions: query.questions ?? [],
+        answers: [{ type: 'A', name, ttl: 60, data: answerIp }]
+      } as any);
+
+      udp.send(resp, rinfo.port, rinfo.address);
+    } catch {
+      // ignore
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    udp.once('error', reject);
+    udp.bind(0, '127.0.0.1', () => {
+      udp.off('error', reject);
+      resolve();
+    });
+  });
+
+  const addr = udp.address();
+  const port = typeof addr === 'object' && addr ? addr.port : 0;
+
+  return {
+    port,
+    close: async () => {
+      await new Promise<void>((resolve) => {
+        try {
+          udp.close(() => resolve());
+        } catch {
+          resolve();
+        }
+      });
+    }
+  };
+}
+
+async function udpQuery(host: string, port: number, name: string): Promise<any> {
+  const msg = dnsPacket.encode({
+    type: 'query',
+    id: crypto.randomInt(0, 65536),
+    flags: dnsPacket.RECURSION_DESIRED,
+    questions: [{ type: 'A', name }]
+  } as any);
+
+  const socket = dgram.createSocket('udp4');
+
+  return await new Promise((resolve, reject) => {
+    const t = setTimeout(() => {
+      try {
+        socket.close();
+      } catch {
+        // ignore
+      }
+      reject(new Error('DNS query timed out'));
+    }, 2000);
+
+    socket.once('message', (data) => {
+      clearTimeout(t);
+      try {
+        socket.close();
+      } catch {
+        // ignore
+      }
+      try {
+        resolve(dnsPacket.decode(data));
+      } catch (e) {
+        reject(e);
+      }
+    });
+
+    socket.send(msg, port, host);
+  });
+}
+
+describe('integration: per-client upstream override', () => {
+  let dockerOk = false;
+  let pg: Awaited<ReturnType<typeof startPostgresContainer>> | null = null;
+  let globalUpstream: UdpServer | null = null;
+  let clientUpstream: UdpServer | null = null;
+  let dnsClose: (() => Promise<void>) | null = null;
+  let db: ReturnType<typeof createDb> | null = null;
+  let dnsPort = 0;
+
+  beforeAll(async () => {
+    dockerOk = await hasDocker();
+    if (!dockerOk) return;
+
+    pg = await startPostgresContainer();
+
+    globalUpstream = await startStubUpstreamDns('1.2.3.4');
+    clientUpstream = await startStubUpstreamDns('5.6.7.8');
+    dnsPort = await pickFreeTcpPort();
+
+    const config: AppConfig = {
+      NODE_ENV: 'test',
+      HOST: '0.0.0.0',
+      PORT: 0,
+      DATA_DIR: process.cwd(),
+      DNS_HOST: '127.0.0.1',
+      DNS_PORT: dnsPort,
+      UPSTREAM_DNS: `127.0.0.1:${globalUpstream.port}`,
+      ENABLE_DNS: true,
+      SHADOW_RESOLVE_BLOCKED: false,
+      FRONTEND_ORIGIN: 'http://localhost',
+      ADMIN_TOKEN: '',
+      DATABASE_URL: pg.databaseUrl,
+      GEMINI_API_KEY: '',
+      GEOIP_DB_PATH: 'GeoLite2-City.mmdb',
+      SECRETS_KEY: ''
+    };
+
+    db = createDb(config);
+    await db.init();
+    await db.pool.query('DELETE FROM clients');
+
+    const started = await startDnsServer(config, db);
+    dnsClose = started.close;
+  }, 120_000);
+
+  afterAll(async () => {
+    try {
+      await dnsClose?.();
+    } catch {
+      // ignore
+    }
+    await db?.pool.end().catch(() => undefined);
+    await globalUpstream?.close().catch(() => undefined);
+    await clientUpstream?.close().catch(() => undefined);
+    await pg?.stop().catch(() => undefined);
+  }, 120_000);
+
+  it('skips if Docker is unavailable', async () => {
+    if (!dockerOk) {
+      expect(dockerOk).toBe(false);
+      return;
+    }
+    expect(dockerOk).toBe(true);
+  });
+
+  it('routes a client with an upstream override to its own resolver without reusing cached answers', async () => {
+    if (!dockerOk) return;
+    if (!db || !clientUpstream) throw new Error('not initialized');
+
+    const before: any = await udpQuery('127.0.0.1', dnsPort, 'family.test');
+    expect(before.answers?.find((x: any) => x?.type === 'A')?.data).toBe('1.2.3.4');
+
+    await db.pool.query('INSERT INTO clients(id, profile, updated_at) VALUES ($1, $2, NOW())', [
+      'kids-tablet',
+      {
+        id: 'kids-tablet',
+        name: 'Kids Tablet',
+        type: 'tablet',
+        ip: '127.0.0.1',
+        upstream: { transport: 'udp', host: '127.0.0.1', port: clientUpstream.port }
+      }
+    ]);
+
+    // The DNS runtime reloads clients every 5s.
+    await new Promise((r) => setTimeout(r, 6000));
+
+    const after: any = await udpQuery('127.0.0.1', dnsPort, 'family.test');
+    expect(after.answers?.find((x: any) => x?.type === 'A')?.data).toBe('5.6.7.8');
+  }, 20_000);
+});
@@ -0,0 +1,137 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import crypto from 'node:crypto';
+import dgram from 'node:dgram';
+import fs from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import dnsPacket from 'dns-packet';
+
+import type { AppConfig } from '../../src/config.js';
+import { startDnsServer } from '../../src/dns/dnsServer.js';
+
+// DNSSEC CD=1 re-query against a stub upstream; needs no database, so it also runs without Docker.
+
+async function pickFreeTcpPort(): Promise<number> {
+  return await new Promise((resolve, reject) => {
+    const s = net.createServer();
+    s.once('error', reject);
+    s.listen(0, '127.0.0.1', () => {
+      const addr = s.address();
+      const port = typeof addr === 'object' && addr ? addr.port : 0;
+      s.close((err) => (err ? reject(err) : resolve(port)));
+    });
+  });
+}
+
+// SERVFAILs every `broken*` name unless CD is set; answers everything else with `state.ad`.
+async function startStubUpstream(state: { ad: boolean; cdQueries: number }) {
+  const udp = dgram.createSocket('udp4');
+  udp.on('message', (msg, rinfo) => {
+    const query: any = dnsPacket.decode(msg);
+    const name = String(query.questions?.[0]?.name ?? 'example.test');
+    const cd = (Number(query.flags ?? 0) & dnsPacket.CHECKING_DISABLED) !== 0;
+    if (cd) state.cdQueries++;
+    const fail = name.startsWith('broken') && !cd;
+    const resp = dnsPacket.encode({
+      type: 'response',
+      id: query.id,
+      flags: dnsPacket.RECURSION_AVAILABLE | (fail ? 2 : 0) | (!fail && state.ad ? dnsPacket.AUTHENTIC_DATA : 0),
+      questions: query.questions ?? [],
+      answers: fail ? [] : [{ type: 'A', name, ttl: 60, data: '1.2.3.4' }]
+    } as any);
+    udp.send(resp, rinfo.port, rinfo.address);
+  });
+  await new Promise<void>((resolve) => udp.bind(0, '127.0.0.1', () => resolve()));
+  const addr = udp.address();
+  return { port: addr.port, close: () => new Promise<void>((resolve) => udp.close(() => resolve())) };
+}
+
+async function udpQuery(port: number, name: string): Promise<{ rcode: string; answer: string | undefined }> {
+  const socket = dgram.createSocket('udp4');
+  const msg = dnsPacket.encode({
+    type: 'query',
+    id: crypto.randomInt(0, 65536),
+    flags: dnsPacket.RECURSION_DESIRED,
+    questions: [{ type: 'A', name }]
+  } as any);
+  const data = await new Promise<Buffer>((resolve, reject) => {
+    const t = setTimeout(() => {
+      socket.close();
+      reject(new Error('DNS query timed out'));
+    }, 5000);
+    socket.once('message', (d) => {
+      clearTimeout(t);
+      socket.close();
+      resolve(d);
+    });
+    socket.send(msg, port, '127.0.0.1');
+  });
+  const decoded: any = dnsPacket.decode(data);
+  return { rcode: String(decoded.rcode), answer: decoded.answers?.find((x: any) => x?.type === 'A')?.data };
+}
+
+describe('integration: DNSSEC checking-disabled re-query', () => {
+  const upstreamState = { ad: false, cdQueries: 0 };
+  let upstream: Awaited<ReturnType<typeof startStubUpstream>> | null = null;
+  let dnsClose: (() => Promise<void>) | null = null;
+  let dnsPort = 0;
+  let dataDir = '';
+
+  beforeAll(async () => {
+    upstream = await startStubUpstream(upstreamState);
+    dnsPort = await pickFreeTcpPort();
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-dnssec-'));
+
+    const dnsSettings = {
+      upstreamMode: 'forward',
+      forward: { transport: 'udp', host: '127.0.0.1', port: upstream.port },
+      dnssec: { enabled: true, servfailOnBogus: true }
+    };
+    const db: any = {
+      pool: {
+        query: async (sql: string, params?: any[]) =>
+          sql.includes('FROM settings WHERE key') && params?.[0] === 'dns_settings'
+            ? { rows: [{ value: dnsSettings }], rowCount: 1 }
+            : { rows: [], rowCount: 0 }
+      }
+    };
+
+    const config = {
+      NODE_ENV: 'test',
+      DATA_DIR: dataDir,
+      DNS_HOST: '127.0.0.1',
+      DNS_PORT: dnsPort,
+      DNS_TLS_PORT: 0,
+      UPSTREAM_DNS: '127.0.0.1:1',
+      ENABLE_DNS: true,
+      SHADOW_RESOLVE_BLOCKED: false,
+      DNS_NEIGHBOR_TABLE_PATH: ''
+    } as AppConfig;
+
+    const started = await startDnsServer(config, db);
+    dnsClose = started.close;
+  }, 30_000);
+
+  afterAll(async () => {
+    await dnsClose?.().catch(() => undefined);
+    await upstream?.close();
+    if (dataDir) fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('does not re-ask an upstream that never validated', async () => {
+    const res = await udpQuery(dnsPort, 'broken1.test');
+    expect(res.rcode).toBe('SERVFAIL');
+    expect(upstreamState.cdQueries).toBe(0);
+  });
+
+  it('re-asks with CD=1 once the upstream has returned an AD answer', async () => {
+    upstreamState.ad = true;
+    expect((await udpQuery(dnsPort, 'signed.test')).answer).toBe('1.2.3.4');
+
+    // Resolves with checking disabled, so it is a validation failure and stays SERVFAIL.
+    const res = await udpQuery(dnsPort, 'broken2.test');
+    expect(res.rcode).toBe('SERVFAIL');
+    expect(upstreamState.cdQueries).toBe(1);
+  });
+});
@@ -217,6 +217,13 @@ describe('integration: DNS resolver + forwarder', () => {
       'Manual'
     ]);
 
+    // Local domain answered from a client profile with a fixed IP.
+    await db.pool.query(
+      'INSERT INTO settings(key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()',
+      ['dns_settings', { localDomain: { enabled: true, domain: 'home.arpa', fromDiscovery: false } }]
+    );
+    await db.pool.query('INSERT INTO clients(id, profile) VALUES ($1, $2)', ['nas', { id: 'nas', name: 'NAS', type: 'iot', ip: '192.168.70.5' }]);
+
     const started = await startDnsServer(config, db);
     dnsClose = started.close;
   }, 120_000);
@@ -261,6 +268,34 @@ describe('integration: DNS resolver + forwarder', () => {
     expect(answers.length).toBe(0);
   });
 
+  it('logs repeated answers from the response cache as CACHED', async () => {
+    if (!dockerOk || !db) return;
+
+    await udpQuery('127.0.0.1', dnsPort, 'cached.test');
+    const again: any = await udpQuery('127.0.0.1', dnsPort, 'cached.test');
+    expect((again.answers ?? []).find((x: any) => x?.type === 'A')?.data).toBe('1.2.3.4');
+
+    // Query logs are written in batches; poll until both entries are visible.
+    let statuses: string[] = [];
+    for (let i = 0; i < 40 && statuses.length < 2; i++) {
+      const res = await db.pool.query(`SELECT entry FROM query_logs WHERE entry->>'domain' = 'cached.test' ORDER BY ts ASC, id ASC`);
+      statuses = res.rows.map((r: any) => String(r.entry?.status));
+      if (statuses.length < 2) await new Promise((r) => setTimeout(r, 250));
+    }
+    expect(statuses).toEqual(['PERMITTED', 'CACHED']);
+  });
+
+  it('answers the local domain authoritatively without forwarding', async () => {
+    if (!dockerOk) return;
+
+    const known: any = await udpQuery('127.0.0.1', dnsPort, 'nas.home.arpa');
+    expect((known.answers ?? []).find((x: any) => x?.type === 'A')?.data).toBe('192.168.70.5');
+
+    const unknown: any = await udpQuery('127.0.0.1', dnsPort, 'unknown.home.arpa');
+    expect(String(unknown.rcode || '')).toBe('NXDOMAIN');
+    expect(unknown.answers ?? []).toEqual([]);
+  });
+
   it('supports DNS over TCP (forwarding allowed domains)', async () => {
     if (!dockerOk) return;
 
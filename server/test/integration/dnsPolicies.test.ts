@@ -6,7 +6,7 @@ import dnsPacket from 'dns-packet';
 
 import type { AppConfig } from '../../src/config.js';
 import { createDb } from '../../src/db.js';
-import { startDnsServer } from '../../src/dns/dnsServer.js';
+import { resolveDnsMessage, startDnsServer } from '../../src/dns/dnsServer.js';
 import { hasDocker, startPostgresContainer } from './_harness.js';
 
 type UdpServer = {
@@ -78,12 +78,13 @@ async function startStubUpstreamDns(): Promise<UdpServer> {
   };
 }
 
-async function udpQueryFrom(host: string, port: number, name: string, localAddress: string): Promise<any> {
+async function udpQueryFrom(host: string, port: number, name: string, localAddress: string, ednsOptions?: any[]): Promise<any> {
   const msg = dnsPacket.encode({
     type: 'query',
     id: crypto.randomInt(0, 65536),
     flags: dnsPacket.RECURSION_DESIRED,
-    questions: [{ type: 'A', name }]
+    questions: [{ type: 'A', name }],
+    ...(ednsOptions ? { additionals: [{ type: 'OPT', name: '.', udpPayloadSize: 1232, flags: 0, options: ednsOptions }] } : {})
   } as any);
 
   const socket = dgram.createSocket('udp4');
@@ -165,6 +166,13 @@ describe('integration: DNS policies (client + protection pause)', () => {
 
   const clientPolicyIp = '127.0.0.1';
   const pausedKillSwitchIp = '127.0.0.2';
+  const allowlistOnlyIp = '127.0.0.3';
+  const restrictedYoutubeIp = '127.0.0.4';
+  // The only address whose EDNS MAC / client-ID options are honored.
+  const trustedForwarderIp = '127.0.0.6';
+  const unrestrictedMac = Buffer.from('aabbcc001122', 'hex');
+  const unrestrictedToken = '0123456789abcdef0123456789abcdef';
+  const killSwitchMac = Buffer.from('aabbcc001133', 'hex');
 
   beforeAll(async () => {
     dockerOk = await hasDocker();
@@ -191,8 +199,9 @@ describe('integration: DNS policies (client + protection pause)', () => {
       DATABASE_URL: pg.databaseUrl,
       GEMINI_API_KEY: '',
       GEOIP_DB_PATH: 'GeoLite2-City.mmdb',
-      SECRETS_KEY: ''
-    };
+      SECRETS_KEY: '',
+      DNS_EDNS_TRUSTED_SOURCES: trustedForwarderIp
+    } as AppConfig;
 
     db = createDb(config);
     await db.init();
@@ -241,10 +250,64 @@ describe('integration: DNS policies (client + protection pause)', () => {
         id: 'c2',
         name: 'KillSwitchClient',
         ip: pausedKillSwitchIp,
+        mac: 'aa:bb:cc:00:11:33',
         isInternetPaused: true
       }
     ]);
 
+    // Allowlist-only client: a client allow rule and an ALLOW list admit domains, nothing else resolves.
+    const allowlist = await db.pool.query(
+      "INSERT INTO blocklists(name, url, enabled, mode, kind) VALUES ('School', 'https://lists.test/school.txt', true, 'ACTIVE', 'ALLOW') RETURNING id"
+    );
+    await db.pool.query('INSERT INTO rules(domain, type, category) VALUES ($1, $2, $3), ($4, $5, $6)', [
+      'school.test',
+      'BLOCKED',
+      `Blocklist:${allowlist.rows[0].id}`,
+      'homework.test',
+      'ALLOWED',
+      'Client:c3'
+    ]);
+    await db.pool.query('INSERT INTO clients(id, profile) VALUES ($1, $2)', [
+      'c3',
+      {
+        id: 'c3',
+        name: 'AllowlistClient',
+        ip: allowlistOnlyIp,
+        useGlobalSettings: true,
+        allowlistOnly: true
+      }
+    ]);
+
+    // No IP: only reachable through its MAC or client id, which an untrusted source must not use.
+    await db.pool.query('INSERT INTO clients(id, profile) VALUES ($1, $2)', [
+      'c4',
+      {
+        id: 'c4',
+        name: 'UnrestrictedLaptop',
+        mac: 'aa:bb:cc:00:11:22',
+        clientIds: ['laptop'],
+        dnsToken: unrestrictedToken,
+        useGlobalSettings: true
+      }
+    ]);
+
+    // A manual allow for YouTube must not switch off Restricted Mode.
+    await db.pool.query('INSERT INTO rules(domain, type, category) VALUES ($1, $2, $3)', [
+      'youtube.com',
+      'ALLOWED',
+      'Client:c5'
+    ]);
+    await db.pool.query('INSERT INTO clients(id, profile) VALUES ($1, $2)', [
+      'c5',
+      {
+        id: 'c5',
+        name: 'RestrictedTablet',
+        ip: restrictedYoutubeIp,
+        useGlobalSettings: true,
+        youtubeRestrictMode: 'strict'
+      }
+    ]);
+
     // Start with protection pause enabled.
     await db.pool.query(
       "INSERT INTO settings(key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()",
@@ -334,4 +397,81 @@ describe('integration: DNS policies (client + protection pause)', () => {
     expect(entry.status).toBe('BLOCKED');
     expect(String(entry.blocklistId || '')).toBe('ClientPolicy:BlockAll');
   });
+
+  it('allowlist-only clients only resolve allow-ruled and allowlisted domains', async () => {
+    if (!dockerOk || !db) return;
+
+    for (const domain of ['homework.test', 'www.school.test']) {
+      const dec: any = await udpQueryFrom('127.0.0.1', dnsPort, domain, allowlistOnlyIp);
+      expect(String(dec.rcode || 'NOERROR')).toBe('NOERROR');
+      const entry = await waitForQueryLog(db, { domain, clientIp: allowlistOnlyIp }, 15_000);
+      expect(entry.status).toBe('PERMITTED');
+    }
+
+    const dec: any = await udpQueryFrom('127.0.0.1', dnsPort, 'games.test', allowlistOnlyIp);
+    expect(String(dec.rcode || '')).toBe('NXDOMAIN');
+    const entry = await waitForQueryLog(db, { domain: 'games.test', clientIp: allowlistOnlyIp }, 15_000);
+    expect(entry.status).toBe('BLOCKED');
+    expect(String(entry.blocklistId || '')).toBe('ClientPolicy:NotAllowlisted');
+  });
+
+  it('ignores spoofed EDNS MAC and client-ID options from untrusted sources', async () => {
+    if (!dockerOk || !db) return;
+
+    const spoofed = [
+      { code: 65001, data: unrestrictedMac },
+      { code: 65074, data: Buffer.from('laptop') }
+    ];
+    const dec: any = await udpQueryFrom('127.0.0.1', dnsPort, 'spoofed.test', allowlistOnlyIp, spoofed);
+    expect(String(dec.rcode || '')).toBe('NXDOMAIN');
+    const entry = await waitForQueryLog(db, { domain: 'spoofed.test', clientIp: allowlistOnlyIp }, 15_000);
+    expect(String(entry.blocklistId || '')).toBe('ClientPolicy:NotAllowlisted');
+    expect(entry.identifiedBy).toBe('ip');
+    expect(entry.clientMac).toBeUndefined();
+
+    // The same option from the trusted forwarder identifies the device behind it.
+    const trusted: any = await udpQueryFrom('127.0.0.1', dnsPort, 'forwarded.test', trustedForwarderIp, [
+      { code: 65001, data: killSwitchMac }
+    ]);
+    expect(String(trusted.rcode || '')).toBe('NXDOMAIN');
+    const forwarded = await waitForQueryLog(db, { domain: 'forwarded.test', clientIp: trustedForwarderIp }, 15_000);
+    expect(String(forwarded.blocklistId || '')).toBe('ClientPolicy:InternetPaused');
+    expect(forwarded.identifiedBy).toBe('edns-mac');
+  });
+
+  it('only lets the random DoH token, not the profile id, override the IP match', async () => {
+    if (!dockerOk || !db) return;
+
+    const query = (name: string) =>
+      dnsPacket.encode({ type: 'query', id: 9, flags: dnsPacket.RECURSION_DESIRED, questions: [{ type: 'A', name }] } as any);
+
+    for (const [domain, clientId] of [
+      ['doh-plain-id.test', 'c4'],
+      ['doh-unknown.test', 'ffffffffffffffffffffffffffffffff']
+    ]) {
+      const resp = await resolveDnsMessage(query(domain), allowlistOnlyIp, { transport: 'doh', clientId });
+      expect((dnsPacket.decode(resp!) as any).rcode).toBe('NXDOMAIN');
+      const entry = await waitForQueryLog(db, { domain, clientIp: allowlistOnlyIp }, 15_000);
+      expect(String(entry.blocklistId || '')).toBe('ClientPolicy:NotAllowlisted');
+      expect(entry.identifiedBy).toBe('ip');
+    }
+
+    await resolveDnsMessage(query('doh-token.test'), allowlistOnlyIp, { transport: 'doh', clientId: unrestrictedToken });
+    const entry = await waitForQueryLog(db, { domain: 'doh-token.test', clientIp: allowlistOnlyIp }, 15_000);
+    expect(entry.identifiedBy).toBe('client-id');
+    expect(String(entry.blocklistId || '')).not.toBe('ClientPolicy:NotAllowlisted');
+  });
+
+  it('keeps YouTube Restricted Mode on a manually allowed youtube.com', async () => {
+    if (!dockerOk || !db) return;
+
+    const dec: any = await udpQueryFrom('127.0.0.1', dnsPort, 'www.youtube.com', restrictedYoutubeIp);
+    expect(String(dec.rcode || 'NOERROR')).toBe('NOERROR');
+    const cname = (Array.isArray(dec.answers) ? dec.answers : []).find((x: any) => x?.type === 'CNAME');
+    expect(cname?.data).toBe('restrict.youtube.com');
+
+    const entry = await waitForQueryLog(db, { domain: 'www.youtube.com', clientIp: restrictedYoutubeIp }, 15_000);
+    expect(entry.status).toBe('PERMITTED');
+    expect(String(entry.blocklistId || '')).toBe('ClientPolicy:SafeSearch');
+  });
 });
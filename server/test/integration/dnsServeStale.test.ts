@@ -0,0 +1,158 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import crypto from 'node:crypto';
+import dgram from 'node:dgram';
+import fs from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import dnsPacket from 'dns-packet';
+
+import type { AppConfig } from '../../src/config.js';
+import { startDnsServer } from '../../src/dns/dnsServer.js';
+
+// Serve-stale against a slow (not failing) upstream; needs no database, so it also runs without Docker.
+
+async function sleep(ms: number): Promise<void> {
+  await new Promise((r) => setTimeout(r, ms));
+}
+
+async function pickFreeTcpPort(): Promise<number> {
+  return await new Promise((resolve, reject) => {
+    const s = net.createServer();
+    s.once('error', reject);
+    s.listen(0, '127.0.0.1', () => {
+      const addr = s.address();
+      const port = typeof addr === 'object' && addr ? addr.port : 0;
+      s.close((err) => (err ? reject(err) : resolve(port)));
+    });
+  });
+}
+
+// Answers with `state.answer` (TTL 1) after `state.delayMs`.
+async function startSlowUpstream(state: { answer: string; delayMs: number }) {
+  const udp = dgram.createSocket('udp4');
+  udp.on('message', (msg, rinfo) => {
+    const query: any = dnsPacket.decode(msg);
+    const name = String(query.questions?.[0]?.name ?? 'example.test');
+    const resp = dnsPacket.encode({
+      type: 'response',
+      id: query.id,
+      flags: (query.flags ?? 0) | dnsPacket.RECURSION_AVAILABLE,
+      questions: query.questions ?? [],
+      answers: [{ type: 'A', name, ttl: 1, data: state.answer }]
+    } as any);
+    setTimeout(() => udp.send(resp, rinfo.port, rinfo.address), state.delayMs);
+  });
+  await new Promise<void>((resolve) => udp.bind(0, '127.0.0.1', () => resolve()));
+  const addr = udp.address();
+  return { port: addr.port, close: () => new Promise<void>((resolve) => udp.close(() => resolve())) };
+}
+
+async function udpQuery(port: number, name: string): Promise<{ answer: string | undefined; ttl: number | undefined; ms: number }> {
+  const started = Date.now();
+  const socket = dgram.createSocket('udp4');
+  const msg = dnsPacket.encode({
+    type: 'query',
+    id: crypto.randomInt(0, 65536),
+    flags: dnsPacket.RECURSION_DESIRED,
+    questions: [{ type: 'A', name }]
+  } as any);
+  const data = await new Promise<Buffer>((resolve, reject) => {
+    const t = setTimeout(() => {
+      socket.close();
+      reject(new Error('DNS query timed out'));
+    }, 5000);
+    socket.once('message', (d) => {
+      clearTimeout(t);
+      socket.close();
+      resolve(d);
+    });
+    socket.send(msg, port, '127.0.0.1');
+  });
+  const a = (dnsPacket.decode(data) as any).answers?.find((x: any) => x?.type === 'A');
+  return { answer: a?.data, ttl: a?.ttl, ms: Date.now() - started };
+}
+
+describe('integration: serve-stale client response timer', () => {
+  const upstreamState = { answer: '1.2.3.4', delayMs: 0 };
+  let upstream: Awaited<ReturnType<typeof startSlowUpstream>> | null = null;
+  let dnsClose: (() => Promise<void>) | null = null;
+  let dnsPort = 0;
+  let dataDir = '';
+  const logged: any[] = [];
+
+  beforeAll(async () => {
+    upstream = await startSlowUpstream(upstreamState);
+    dnsPort = await pickFreeTcpPort();
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-stale-'));
+
+    const dnsSettings = {
+      upstreamMode: 'unbound',
+      cache: { minTtl: 0, maxTtl: 60, serveStale: true, staleAnswerTtl: 30, staleMaxAge: 3600, prefetch: false }
+    };
+    const db: any = {
+      pool: {
+        query: async (sql: string, params?: any[]) => {
+          if (sql.includes('INSERT INTO query_logs')) logged.push(...params![0].map((e: string) => JSON.parse(e)));
+          return sql.includes('FROM settings WHERE key') && params?.[0] === 'dns_settings'
+            ? { rows: [{ value: dnsSettings }], rowCount: 1 }
+            : { rows: [], rowCount: 0 };
+        }
+      }
+    };
+
+    const config = {
+      NODE_ENV: 'test',
+      DATA_DIR: dataDir,
+      DNS_HOST: '127.0.0.1',
+      DNS_PORT: dnsPort,
+      DNS_TLS_PORT: 0,
+      UPSTREAM_DNS: `127.0.0.1:${upstream.port}`,
+      ENABLE_DNS: true,
+      SHADOW_RESOLVE_BLOCKED: false,
+      DNS_NEIGHBOR_TABLE_PATH: '',
+      // Slow, not failing: the upstream answers well within the forwarding timeout.
+      DNS_FORWARD_UDP_TIMEOUT_MS: 5000
+    } as AppConfig;
+
+    const started = await startDnsServer(config, db);
+    dnsClose = started.close;
+  }, 30_000);
+
+  afterAll(async () => {
+    await dnsClose?.().catch(() => undefined);
+    await upstream?.close();
+    if (dataDir) fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('answers from the stale entry after ~1.8 s and refreshes the cache in the background', async () => {
+    const first = await udpQuery(dnsPort, 'slow.test');
+    expect(first.answer).toBe('1.2.3.4');
+
+    // Let the 1 s entry expire, then make the upstream slow and change its answer.
+    await sleep(1500);
+    upstreamState.answer = '5.6.7.8';
+    upstreamState.delayMs = 2600;
+
+    const stale = await udpQuery(dnsPort, 'slow.test');
+    expect(stale.answer).toBe('1.2.3.4');
+    expect(stale.ttl).toBe(30);
+    expect(stale.ms).toBeGreaterThanOrEqual(1700);
+    expect(stale.ms).toBeLessThan(2500);
+
+    // The background query lands ~0.8 s later and replaces the entry.
+    await sleep(1200);
+    upstreamState.delayMs = 0;
+    const refreshed = await udpQuery(dnsPort, 'slow.test');
+    expect(refreshed.answer).toBe('5.6.7.8');
+    expect(refreshed.ms).toBeLessThan(500);
+
+    // Cache answers record the same ECS decision as the forwarded query.
+    await udpQuery(dnsPort, 'slow.test');
+    await sleep(400);
+    const forwarded = logged.find((e) => e.domain === 'slow.test' && !e.cached);
+    expect(forwarded?.ecs).toBeDefined();
+    expect(logged.find((e) => e.servedStale)?.ecs).toEqual(forwarded.ecs);
+    expect(logged.find((e) => e.cached && !e.servedStale)?.ecs).toEqual(forwarded.ecs);
+  }, 20_000);
+});
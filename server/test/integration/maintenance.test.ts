@@ -132,4 +132,36 @@ describe('integration: maintenance endpoints', () => {
     expect(imp.statusCode).toBe(200);
     expect(imp.json()).toMatchObject({ ok: true, dryRun: true });
   });
+
+  it('round-trips blocklist refresh intervals through export and import', async () => {
+    if (!dockerOk) return;
+
+    const url = `https://lists.test/backup-${crypto.randomUUID()}.txt`;
+    const importList = (refresh_interval_minutes: unknown) =>
+      app.inject({
+        method: 'POST',
+        url: '/api/maintenance/import',
+        headers: { cookie, 'content-type': 'application/json' },
+        payload: { dryRun: false, data: { blocklists: [{ name: 'Backup', url, refresh_interval_minutes }] } }
+      });
+
+    expect((await importList(5)).statusCode).toBe(400);
+    expect((await importList(360)).statusCode).toBe(200);
+
+    const exp = await app.inject({ method: 'GET', url: '/api/maintenance/export', headers: { cookie } });
+    const list = exp.json().data.blocklists.find((b: any) => b.url === url);
+    expect(list.refresh_interval_minutes).toBe(360);
+
+    // An older backup without the field keeps the current interval.
+    const { refresh_interval_minutes: _omit, ...legacy } = list;
+    const imp = await app.inject({
+      method: 'POST',
+      url: '/api/maintenance/import',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { dryRun: false, data: { blocklists: [legacy] } }
+    });
+    expect(imp.statusCode).toBe(200);
+    const again = await app.inject({ method: 'GET', url: '/api/maintenance/export', headers: { cookie } });
+    expect(again.json().data.blocklists.find((b: any) => b.url === url).refresh_interval_minutes).toBe(360);
+  });
 });
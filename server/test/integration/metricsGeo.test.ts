@@ -69,6 +69,12 @@ describe('integration: metrics + geo routes', () => {
     await pool.query('INSERT INTO query_logs(entry) VALUES ($1)', [
       mkEntry({ domain: 'https-record.test', status: 'PERMITTED', answerIps: [], type: 'HTTPS' })
     ]);
+
+    // Cache hits: a plain one, and a shadow-matched one that keeps its SHADOW_BLOCKED status.
+    await pool.query('INSERT INTO query_logs(entry) VALUES ($1), ($2)', [
+      mkEntry({ domain: 'cached.test', status: 'CACHED', cached: true }),
+      mkEntry({ domain: 'shadow-cached.test', status: 'SHADOW_BLOCKED', cached: true, blocklistId: 'Shadow:Test' })
+    ]);
   }, 120_000);
 
   afterAll(async () => {
@@ -99,6 +105,7 @@ describe('integration: metrics + geo routes', () => {
     expect(json.totalQueries).toBeGreaterThanOrEqual(4);
     expect(json.blockedQueries).toBeGreaterThanOrEqual(1);
     expect(json.activeClients).toBeGreaterThanOrEqual(2);
+    expect(json.cachedQueries).toBe(2);
   });
 
   it('GET /api/metrics/top-domains and top-blocked return ranked items', async () => {
@@ -183,6 +190,8 @@ describe('integration: metrics + geo routes', () => {
     expect(items[0]).toHaveProperty('ts');
     expect(items[0]).toHaveProperty('queries');
     expect(items[0]).toHaveProperty('ads');
+    expect(items[0]).toHaveProperty('cached');
+    expect(items.reduce((sum: number, it: any) => sum + Number(it.cached ?? 0), 0)).toBe(2);
 
     // Ensure bucket step is 5 minutes (best-effort: only if we have at least 2 points).
     if (items.length >= 2) {
@@ -88,14 +88,42 @@ describe('integration: misc routes (clients + dns + query-logs)', () => {
     expect(badCidr.statusCode).toBe(400);
     expect(badCidr.json()).toMatchObject({ error: 'INVALID_CIDR' });
 
+    const badMac = await app.inject({
+      method: 'PUT',
+      url: `/api/clients/${id}`,
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { id, name: 'Laptop', type: 'laptop', mac: 'aa:bb:cc' }
+    });
+    expect(badMac.statusCode).toBe(400);
+    expect(badMac.json()).toMatchObject({ error: 'INVALID_MAC' });
+
+    const badClientIds = await app.inject({
+      method: 'PUT',
+      url: `/api/clients/${id}`,
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { id, name: 'Laptop', type: 'laptop', clientIds: ['has space'] }
+    });
+    expect(badClientIds.statusCode).toBe(400);
+    expect(badClientIds.json()).toMatchObject({ error: 'INVALID_CLIENT_IDS' });
+
     const ok = await app.inject({
       method: 'PUT',
       url: `/api/clients/${id}`,
       headers: { cookie, 'content-type': 'application/json' },
-      payload: { id, name: 'Laptop', type: 'laptop' }
+      payload: { id, name: 'Laptop', type: 'laptop', mac: 'AA-BB-CC-00-11-22', clientIds: ['Laptop', 'laptop'] }
     });
     expect(ok.statusCode).toBe(200);
-    expect(ok.json()).toMatchObject({ id, name: 'Laptop', type: 'laptop' });
+    expect(ok.json()).toMatchObject({ id, name: 'Laptop', type: 'laptop', mac: 'aa:bb:cc:00:11:22', clientIds: ['laptop'] });
+    // The DoH/DoT token is generated once and kept; tokens sent in the body are ignored.
+    const token = ok.json().dnsToken;
+    expect(token).toMatch(/^[0-9a-f]{32}$/);
+    const again = await app.inject({
+      method: 'PUT',
+      url: `/api/clients/${id}`,
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { id, name: 'Laptop', type: 'laptop', dnsToken: 'f'.repeat(32) }
+    });
+    expect(again.json().dnsToken).toBe(token);
 
     const list = await app.inject({ method: 'GET', url: '/api/clients', headers: { cookie } });
     expect(list.statusCode).toBe(200);
@@ -195,6 +223,122 @@ describe('integration: misc routes (clients + dns + query-logs)', () => {
     const get2 = await app.inject({ method: 'GET', url: '/api/dns/settings', headers: { cookie } });
     expect(get2.statusCode).toBe(200);
     expect(get2.json()?.value?.forward?.transport).toBe('doh');
+
+    // Partial update: only the DNSSEC policy changes, the upstream selection is kept.
+    const putDnssec = await app.inject({
+      method: 'PUT',
+      url: '/api/dns/settings',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { dnssec: { enabled: true, servfailOnBogus: false } }
+    });
+    expect(putDnssec.statusCode).toBe(200);
+    expect(putDnssec.json()).toMatchObject({
+      value: { upstreamMode: 'forward', forward: { transport: 'doh' }, dnssec: { enabled: true, servfailOnBogus: false } }
+    });
+
+    // ECS fallback subnet: normalized to the /24, private ranges rejected.
+    const putEcs = await app.inject({
+      method: 'PUT',
+      url: '/api/dns/settings',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { ecs: { mode: 'synthesize', fallbackSubnet: '81.2.69.77' } }
+    });
+    expect(putEcs.statusCode).toBe(200);
+    expect(putEcs.json()?.value?.ecs).toEqual({ mode: 'synthesize', fallbackSubnet: '81.2.69.0/24' });
+    const putPrivateEcs = await app.inject({
+      method: 'PUT',
+      url: '/api/dns/settings',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { ecs: { mode: 'synthesize', fallbackSubnet: '192.168.1.0/24' } }
+    });
+    expect(putPrivateEcs.statusCode).toBe(400);
+    expect(putPrivateEcs.json()?.error).toBe('INVALID_ECS_SUBNET');
+
+    // Multiple upstreams: `forward` mirrors the primary entry.
+    const putMulti = await app.inject({
+      method: 'PUT',
+      url: '/api/dns/settings',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: {
+        upstreamMode: 'forward',
+        upstreams: [{ transport: 'dot', host: '9.9.9.9' }, { transport: 'udp', host: '1.0.0.1' }],
+        upstreamStrategy: 'fastest'
+      }
+    });
+    expect(putMulti.statusCode).toBe(200);
+    expect(putMulti.json()).toMatchObject({
+      value: {
+        forward: { transport: 'dot', host: '9.9.9.9', port: 853 },
+        upstreams: [
+          { transport: 'dot', host: '9.9.9.9', port: 853 },
+          { transport: 'udp', host: '1.0.0.1', port: 53 }
+        ],
+        upstreamStrategy: 'fastest'
+      }
+    });
+
+    // SafeSearch is a partial update that keeps the upstream configuration.
+    const putSafeSearch = await app.inject({
+      method: 'PUT',
+      url: '/api/dns/settings',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { safeSearch: { search: true, youtube: 'moderate' } }
+    });
+    expect(putSafeSearch.statusCode).toBe(200);
+    expect(putSafeSearch.json()).toMatchObject({
+      value: { upstreamStrategy: 'fastest', safeSearch: { search: true, youtube: 'moderate' } }
+    });
+
+    // Rate limit burst is raised to at least one second of queries.
+    const putRateLimit = await app.inject({
+      method: 'PUT',
+      url: '/api/dns/settings',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { rateLimit: { enabled: true, qps: 100, burst: 10, action: 'DROP' } }
+    });
+    expect(putRateLimit.statusCode).toBe(200);
+    expect(putRateLimit.json()).toMatchObject({
+      value: { safeSearch: { search: true }, rateLimit: { enabled: true, qps: 100, burst: 100, action: 'DROP' } }
+    });
+  });
+
+  it('dns cache inspection lists, validates and flushes', async () => {
+    if (!dockerOk) return;
+
+    const list = await app.inject({ method: 'GET', url: '/api/dns/cache?search=example.com&limit=5', headers: { cookie } });
+    expect(list.statusCode).toBe(200);
+    expect(list.json()).toMatchObject({ items: expect.any(Array), stats: { maxEntries: expect.any(Number) } });
+
+    const badLimit = await app.inject({ method: 'GET', url: '/api/dns/cache?limit=0', headers: { cookie } });
+    expect(badLimit.statusCode).toBe(400);
+
+    const missing = await app.inject({ method: 'DELETE', url: '/api/dns/cache/not-cached.example', headers: { cookie } });
+    expect(missing.statusCode).toBe(404);
+
+    const flushAll = await app.inject({ method: 'DELETE', url: '/api/dns/cache', headers: { cookie } });
+    expect(flushAll.statusCode).toBe(200);
+    expect(flushAll.json()).toMatchObject({ ok: true, removed: expect.any(Number) });
+  });
+
+  it('upstream benchmark validates candidates', async () => {
+    if (!dockerOk) return;
+
+    const empty = await app.inject({
+      method: 'POST',
+      url: '/api/dns/upstreams/benchmark',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { candidates: [] }
+    });
+    expect(empty.statusCode).toBe(400);
+
+    const noHost = await app.inject({
+      method: 'POST',
+      url: '/api/dns/upstreams/benchmark',
+      headers: { cookie, 'content-type': 'application/json' },
+      payload: { candidates: [{ label: 'Broken', upstream: { transport: 'udp' } }] }
+    });
+    expect(noHost.statusCode).toBe(400);
+    expect(noHost.json()).toMatchObject({ error: 'INVALID_UPSTREAM' });
   });
 
   it('query logs ingest + list clamps limit and returns _db metadata', async () => {
@@ -65,12 +65,55 @@ describe('integration: rewrites CRUD', () => {
     const createdJson = created.json();
     expect(createdJson).toHaveProperty('item');
     expect(createdJson.item).toHaveProperty('id');
+    // Single A/AAAA/CNAME rewrites keep the legacy `target` next to `records`.
+    expect(createdJson.item).toMatchObject({ target, records: [{ type: 'A', value: target }] });
 
     const list = await app.inject({ method: 'GET', url: '/api/dns/rewrites', headers: { cookie } });
     expect(list.statusCode).toBe(200);
     const items = Array.isArray(list.json()?.items) ? list.json().items : [];
-    const present = items.some((r: any) => String(r?.domain).toLowerCase() === domain.toLowerCase());
-    expect(present).toBe(true);
+    const listed = items.find((r: any) => String(r?.domain).toLowerCase() === domain.toLowerCase());
+    expect(listed?.target).toBe(target);
+  });
+
+  it('stores a multi-record set and rejects invalid records', async () => {
+    if (!dockerOk) return;
+
+    const domain = `records-${Date.now()}.example.com`;
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/dns/rewrites',
+      headers: { cookie },
+      payload: {
+        domain,
+        records: [
+          { type: 'A', value: '10.0.0.2', ttl: 300 },
+          { type: 'A', value: '10.0.0.3' },
+          { type: 'MX', value: `mail.${domain}`, priority: 5 },
+          { type: 'TXT', value: 'v=spf1 -all' }
+        ]
+      }
+    });
+    expect(created.statusCode).toBe(201);
+    expect(created.json().item.records).toHaveLength(4);
+    expect(created.json().item).not.toHaveProperty('target');
+
+    const badRecord = await app.inject({
+      method: 'PUT',
+      url: `/api/dns/rewrites/${created.json().item.id}`,
+      headers: { cookie },
+      payload: { records: [{ type: 'AAAA', value: '10.0.0.2' }] }
+    });
+    expect(badRecord.statusCode).toBe(400);
+    expect(badRecord.json()).toMatchObject({ error: 'INVALID_RECORD' });
+
+    const conflict = await app.inject({
+      method: 'PUT',
+      url: `/api/dns/rewrites/${created.json().item.id}`,
+      headers: { cookie },
+      payload: { records: [{ type: 'CNAME', value: 'other.example.com' }, { type: 'TXT', value: 'x' }] }
+    });
+    expect(conflict.statusCode).toBe(400);
+    expect(conflict.json()).toMatchObject({ error: 'CNAME_CONFLICT' });
   });
 
   it('deletes a rewrite', async () => {
@@ -99,4 +142,60 @@ describe('integration: rewrites CRUD', () => {
     const present = items.some((r: any) => String(r?.id) === String(id));
     expect(present).toBe(false);
   });
+
+  it('reports local-domain names that conflict with rewrites', async () => {
+    if (!dockerOk) return;
+
+    const invalid = await app.inject({
+      method: 'PUT',
+      url: '/api/dns/settings',
+      headers: { cookie },
+      payload: { localDomain: { enabled: true, domain: 'local' } }
+    });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.json()).toMatchObject({ error: 'INVALID_LOCAL_DOMAIN' });
+
+    const saved = await app.inject({
+      method: 'PUT',
+      url: '/api/dns/settings',
+      headers: { cookie },
+      payload: { localDomain: { enabled: true, domain: 'Home.Arpa.', fromProfiles: true, fromDiscovery: false } }
+    });
+    expect(saved.statusCode).toBe(200);
+    expect(saved.json().value.localDomain).toEqual({ enabled: true, domain: 'home.arpa', fromProfiles: true, fromDiscovery: false });
+
+    for (const [id, name, ip] of [
+      ['lh-nas', 'NAS', '192.168.60.10'],
+      ['lh-printer', 'Printer', '192.168.60.11']
+    ]) {
+      const res = await app.inject({
+        method: 'PUT',
+        url: `/api/clients/${id}`,
+        headers: { cookie, 'content-type': 'application/json' },
+        payload: { id, name, type: 'iot', ip }
+      });
+      expect(res.statusCode).toBeLessThan(300);
+    }
+    const rewrite = await app.inject({
+      method: 'POST',
+      url: '/api/dns/rewrites',
+      headers: { cookie },
+      payload: { domain: 'printer.home.arpa', target: '192.168.60.99' }
+    });
+    expect(rewrite.statusCode).toBe(201);
+
+    const res = await app.inject({ method: 'GET', url: '/api/dns/local-hosts', headers: { cookie } });
+    expect(res.statusCode).toBe(200);
+    expect(res.json().items).toContainEqual({ name: 'nas.home.arpa', ip: '192.168.60.10', source: 'profile', profileId: 'lh-nas' });
+    expect(res.json().conflicts).toEqual([
+      {
+        name: 'printer.home.arpa',
+        ip: '192.168.60.11',
+        source: 'profile',
+        profileId: 'lh-printer',
+        reason: 'REWRITE',
+        rewriteId: rewrite.json().item.id
+      }
+    ]);
+  });
 });
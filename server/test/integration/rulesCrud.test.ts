@@ -83,4 +83,37 @@ describe('integration: rules CRUD', () => {
     const present2 = items2.some((r: any) => String(r?.domain).toLowerCase() === domain.toLowerCase());
     expect(present2).toBe(false);
   });
+
+  it('stores wildcard rules and rejects expensive regexes', async () => {
+    if (!dockerOk) return;
+
+    const glob = await app.inject({
+      method: 'POST',
+      url: '/api/rules',
+      headers: { cookie },
+      payload: { domain: `Ads*.Glob-${Date.now()}.example.com`, type: 'BLOCKED', category: 'IntegrationTest' }
+    });
+    expect(glob.statusCode).toBe(201);
+    expect(glob.json().domain).toMatch(/^ads\*\.glob-\d+\.example\.com$/);
+
+    const nested = await app.inject({
+      method: 'POST',
+      url: '/api/rules',
+      headers: { cookie },
+      payload: { domain: '/^(a+)+\\.example\\.com$/', type: 'BLOCKED', category: 'IntegrationTest' }
+    });
+    expect(nested.statusCode).toBe(400);
+    expect(nested.json().error).toBe('PATTERN_TOO_COMPLEX');
+
+    const invalid = await app.inject({
+      method: 'POST',
+      url: '/api/rules',
+      headers: { cookie },
+      payload: { domain: '/ads(\\.example\\.com$/', type: 'BLOCKED', category: 'IntegrationTest' }
+    });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.json().error).toBe('INVALID_PATTERN');
+
+    await app.inject({ method: 'DELETE', url: `/api/rules/${glob.json().id}`, headers: { cookie } });
+  });
 });
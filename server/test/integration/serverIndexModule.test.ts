@@ -1,6 +1,21 @@
-import { describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 describe('integration: server src/index.ts entrypoint', () => {
+  // Signal handlers index.ts registers; captured so they never attach to the test process.
+  let signalHandlers: Map<string, (signal: NodeJS.Signals) => void>;
+
+  beforeEach(() => {
+    signalHandlers = new Map();
+    vi.spyOn(process, 'once').mockImplementation(((event: string, handler: any) => {
+      signalHandlers.set(event, handler);
+      return process;
+    }) as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
   it('loads config, builds app, and listens on HOST/PORT', async () => {
     vi.resetModules();
 
@@ -11,7 +26,7 @@ describe('integration: server src/index.ts entrypoint', () => {
     }));
 
     vi.doMock('../../src/app.js', () => ({
-      buildApp: async () => ({ app: { listen } })
+      buildApp: async () => ({ app: { listen }, close: async () => undefined })
     }));
 
     await import('../../src/index.js');
@@ -44,4 +59,34 @@ describe('integration: server src/index.ts entrypoint', () => {
     expect(errorSpy).toHaveBeenCalled();
     expect(exitSpy).toHaveBeenCalledWith(1);
   });
+
+  it('closes the app (and with it the DNS cache snapshot) on SIGTERM, then exits', async () => {
+    vi.resetModules();
+
+    const exitSpy = vi
+      .spyOn(process, 'exit')
+      .mockImplementation((() => undefined) as unknown as (code?: number) => never);
+    vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    const close = vi.fn().mockResolvedValue(undefined);
+
+    vi.doMock('../../src/config.js', () => ({
+      loadConfig: () => ({ HOST: '127.0.0.1', PORT: 54322 })
+    }));
+
+    vi.doMock('../../src/app.js', () => ({
+      buildApp: async () => ({ app: { listen: vi.fn().mockResolvedValue(undefined) }, close })
+    }));
+
+    await import('../../src/index.js');
+    await new Promise((r) => setTimeout(r, 0));
+
+    expect([...signalHandlers.keys()].sort()).toEqual(['SIGINT', 'SIGTERM']);
+    signalHandlers.get('SIGTERM')!('SIGTERM');
+    // A second signal while closing is ignored.
+    signalHandlers.get('SIGINT')!('SIGINT');
+    await new Promise((r) => setTimeout(r, 0));
+
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(exitSpy).toHaveBeenCalledWith(0);
+  });
 });
@@ -0,0 +1,61 @@
+import dnsPacket from 'dns-packet';
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildBlockedResponse,
+  parseBlockResponseOverride,
+  parseBlockResponseSettings
+} from '../../src/dns/blockResponse.js';
+
+function query(type: string, name = 'blocked.test'): any {
+  return { type: 'query', id: 4242, flags: dnsPacket.RECURSION_DESIRED, questions: [{ type, name }] };
+}
+
+describe('unit: block response modes', () => {
+  it('parses settings with defaults, TTL clamps and IP validation', () => {
+    expect(parseBlockResponseSettings(undefined)).toEqual({ mode: 'NXDOMAIN', ttl: 60 });
+    expect(parseBlockResponseSettings({ mode: 'bogus', ttl: -1 })).toEqual({ mode: 'NXDOMAIN', ttl: 60 });
+    expect(parseBlockResponseSettings({ mode: 'CUSTOM_IP', ttl: 999999, ipv4: ' 10.0.0.9 ', ipv6: '10.0.0.9' })).toEqual({
+      mode: 'CUSTOM_IP',
+      ttl: 86400,
+      ipv4: '10.0.0.9'
+    });
+
+    expect(parseBlockResponseOverride({})).toBeUndefined();
+    expect(parseBlockResponseOverride({ mode: 'REFUSED' })).toEqual({ mode: 'REFUSED', ttl: 60 });
+  });
+
+  it('answers NXDOMAIN / NODATA / REFUSED with the query flags preserved', () => {
+    const nx: any = dnsPacket.decode(buildBlockedResponse(query('A'), { mode: 'NXDOMAIN', ttl: 60 }));
+    expect(nx.rcode).toBe('NXDOMAIN');
+    expect(nx.id).toBe(4242);
+    expect(nx.flags & dnsPacket.RECURSION_DESIRED).toBe(dnsPacket.RECURSION_DESIRED);
+
+    const nodata: any = dnsPacket.decode(buildBlockedResponse(query('A'), { mode: 'NODATA', ttl: 60 }));
+    expect(nodata.rcode).toBe('NOERROR');
+    expect(nodata.answers).toEqual([]);
+
+    const refused: any = dnsPacket.decode(buildBlockedResponse(query('A'), { mode: 'REFUSED', ttl: 60 }));
+    expect(refused.rcode).toBe('REFUSED');
+  });
+
+  it('synthesizes null and custom sinkhole addresses for A/AAAA only', () => {
+    const nullA: any = dnsPacket.decode(buildBlockedResponse(query('A'), { mode: 'NULL_IP', ttl: 30 }));
+    expect(nullA.answers).toMatchObject([{ type: 'A', name: 'blocked.test', ttl: 30, data: '0.0.0.0' }]);
+
+    const nullAaaa: any = dnsPacket.decode(buildBlockedResponse(query('AAAA'), { mode: 'NULL_IP', ttl: 30 }));
+    expect(nullAaaa.answers).toMatchObject([{ type: 'AAAA', data: '::' }]);
+
+    const custom = { mode: 'CUSTOM_IP' as const, ttl: 120, ipv4: '192.0.2.53' };
+    const customA: any = dnsPacket.decode(buildBlockedResponse(query('A'), custom));
+    expect(customA.answers).toMatchObject([{ type: 'A', ttl: 120, data: '192.0.2.53' }]);
+
+    // No IPv6 sinkhole configured, and non-address qtypes: NODATA.
+    const customAaaa: any = dnsPacket.decode(buildBlockedResponse(query('AAAA'), custom));
+    expect(customAaaa.rcode).toBe('NOERROR');
+    expect(customAaaa.answers).toEqual([]);
+
+    const mx: any = dnsPacket.decode(buildBlockedResponse(query('MX'), custom));
+    expect(mx.answers).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const notifyEvent = vi.fn(async () => undefined);
+vi.mock('../../src/notifications/notify.js', () => ({ notifyEvent }));
+
+const { retryDelayMs, runBlocklistRefreshJob, MAX_REFRESH_ATTEMPTS } = await import('../../src/blocklists/jobs.js');
+
+function createMockDb(blocklist: { id: number; name: string; url: string } | null) {
+  const query = vi.fn(async (sql: string, _params?: any[]) => {
+    if (sql.startsWith('SELECT id, name, url FROM blocklists')) {
+      return blocklist ? { rows: [blocklist], rowCount: 1 } : { rows: [], rowCount: 0 };
+    }
+    if (sql.startsWith('SELECT http_etag')) return { rows: [{}], rowCount: 1 };
+    return { rows: [], rowCount: 0 };
+  });
+  const calls = () => query.mock.calls.map((c) => ({ sql: String(c[0]), params: c[1] ?? [] }));
+  return { db: { pool: { query } } as any, calls };
+}
+
+function job(attempts: number) {
+  return {
+    id: '11',
+    blocklist_id: '4',
+    blocklist_name: 'BL',
+    trigger: 'SCHEDULED' as const,
+    force: false,
+    status: 'RUNNING' as const,
+    attempts,
+    run_after: new Date().toISOString(),
+    created_at: new Date().toISOString(),
+    started_at: new Date().toISOString(),
+    finished_at: null,
+    progress: null,
+    result: null,
+    error: null
+  };
+}
+
+describe('unit: blocklist refresh jobs', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    notifyEvent.mockClear();
+  });
+
+  it('backs off 1, 4, 16 minutes and caps at an hour', () => {
+    expect(retryDelayMs(1)).toBe(60_000);
+    expect(retryDelayMs(2)).toBe(4 * 60_000);
+    expect(retryDelayMs(3)).toBe(16 * 60_000);
+    expect(retryDelayMs(10)).toBe(60 * 60_000);
+  });
+
+  it('re-queues a failed refresh with backoff and records last_error', async () => {
+    const { db, calls } = createMockDb({ id: 4, name: 'BL', url: 'https://example.invalid/list.txt' });
+    globalThis.fetch = vi.fn(async () => new Response('nope', { status: 503 })) as any;
+
+    await runBlocklistRefreshJob({} as any, db, job(1));
+
+    const lastError = calls().find((c) => c.sql.startsWith('UPDATE blocklists SET last_error'));
+    expect(lastError?.params).toEqual([4, 'HTTP_503']);
+    const requeue = calls().find((c) => c.sql.includes("SET status = 'QUEUED'"));
+    expect(requeue?.params).toEqual(['11', String(60_000), 'HTTP_503']);
+    expect(notifyEvent).not.toHaveBeenCalled();
+  });
+
+  it('fails the job and notifies after the last attempt', async () => {
+    const { db, calls } = createMockDb({ id: 4, name: 'BL', url: 'https://example.invalid/list.txt' });
+    globalThis.fetch = vi.fn(async () => new Response('nope', { status: 500 })) as any;
+
+    await runBlocklistRefreshJob({} as any, db, job(MAX_REFRESH_ATTEMPTS));
+
+    expect(calls().some((c) => c.sql.includes("SET status = 'FAILED'"))).toBe(true);
+    expect(notifyEvent).toHaveBeenCalledTimes(1);
+    expect((notifyEvent.mock.calls[0] as any[])[2]).toBe('blocklistRefreshFailed');
+    expect((notifyEvent.mock.calls[0] as any[])[3]).toMatchObject({
+      message: 'BL: HTTP_500',
+      meta: { id: 4, jobId: '11', trigger: 'SCHEDULED', attempts: MAX_REFRESH_ATTEMPTS }
+    });
+  });
+
+  it('fails jobs for deleted lists without retrying', async () => {
+    const { db, calls } = createMockDb(null);
+    globalThis.fetch = vi.fn() as any;
+
+    await runBlocklistRefreshJob({} as any, db, job(1));
+
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+    expect(calls().some((c) => c.sql.includes("error = 'NOT_FOUND'"))).toBe(true);
+  });
+});
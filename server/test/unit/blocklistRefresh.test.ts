@@ -1,47 +1,123 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
-import { refreshBlocklist } from '../../src/blocklists/refresh.js';
+import { parseBlocklistLine, refreshBlocklist } from '../../src/blocklists/refresh.js';
+import { blocklistSourceType, resolveBlocklistFilePath } from '../../src/blocklists/sources.js';
 
-function createMockDb() {
+function createMockDb(prev?: { etag?: string | null; lastModified?: string | null; content?: string | null }) {
+  // Rules of the list as "<type>:<domain>", and the staging table of the current refresh.
   const inserted = new Set<string>();
+  const options = new Map<string, string | null>();
+  const staged = new Map<string, string | null>();
+  const updates: any[][] = [];
+  const history: any[][] = [];
   const queries: string[] = [];
 
-  const client = {
-    query: async (sql: string, params?: any[]) => {
-      queries.push(sql);
-      if (sql === 'BEGIN' || sql === 'COMMIT' || sql === 'ROLLBACK') return { rows: [], rowCount: 0 };
+  const query = async (sql: string, params?: any[]) => {
+    queries.push(sql);
+    if (sql === 'BEGIN' || sql === 'COMMIT' || sql === 'ROLLBACK') return { rows: [], rowCount: 0 };
 
-      if (sql.startsWith('DELETE FROM rules')) {
-        inserted.clear();
-        return { rows: [], rowCount: 0 };
+    if (sql.startsWith('SELECT http_etag')) {
+      return { rows: [{ http_etag: prev?.etag ?? null, http_last_modified: prev?.lastModified ?? null }], rowCount: 1 };
+    }
+
+    if (sql.startsWith('SELECT content FROM blocklists')) {
+      return { rows: [{ content: prev?.content ?? null }], rowCount: 1 };
+    }
+
+    if (sql.startsWith('CREATE TEMP TABLE')) {
+      staged.clear();
+      return { rows: [], rowCount: 0 };
+    }
+
+    if (sql.includes('INSERT INTO blocklist_refresh_rules')) {
+      // (domains[], type, options[])
+      (params?.[0] as string[]).forEach((d, i) => {
+        const key = `${params?.[1]}:${d}`;
+        const o = params?.[2]?.[i] ?? null;
+        if (!staged.has(key)) staged.set(key, o);
+        else if (o === null) staged.set(key, null);
+      });
+      return { rows: [], rowCount: params?.[0]?.length ?? 0 };
+    }
+
+    if (sql.startsWith('DELETE FROM blocklist_refresh_rules')) {
+      // $badfilter: (domains[], types[], options[])
+      let n = 0;
+      (params?.[0] as string[]).forEach((d, i) => {
+        const key = `${params?.[1][i]}:${d}`;
+        if (staged.has(key) && staged.get(key) === (params?.[2][i] ?? null) && staged.delete(key)) n++;
+      });
+      return { rows: [], rowCount: n };
+    }
+
+    if (sql.startsWith('DELETE FROM rules WHERE category LIKE')) return { rows: [], rowCount: 0 };
+
+    if (sql.startsWith('DELETE FROM rules r')) {
+      let n = 0;
+      for (const key of [...inserted]) {
+        if (staged.has(key)) continue;
+        inserted.delete(key);
+        options.delete(key);
+        n++;
       }
+      return { rows: [], rowCount: n };
+    }
 
-      if (sql.includes('INSERT INTO rules')) {
-        const domains: string[] = Array.isArray(params?.[0]) ? params![0] : [];
-        let added = 0;
-        for (const d of domains) {
-          const s = String(d);
-          if (!inserted.has(s)) {
-            inserted.add(s);
-            added++;
-          }
-        }
-        return { rows: [], rowCount: added };
+    if (sql.startsWith('UPDATE rules r')) {
+      let n = 0;
+      for (const key of inserted) {
+        if (options.get(key) === staged.get(key)) continue;
+        options.set(key, staged.get(key) ?? null);
+        n++;
       }
+      return { rows: [], rowCount: n };
+    }
 
-      if (sql.startsWith('UPDATE blocklists SET')) {
-        return { rows: [], rowCount: 1 };
+    if (sql.includes('INSERT INTO rules')) {
+      let added = 0;
+      for (const [key, o] of staged) {
+        if (inserted.has(key)) continue;
+        inserted.add(key);
+        options.set(key, o);
+        added++;
       }
+      return { rows: [], rowCount: added };
+    }
 
-      throw new Error(`Unexpected SQL in mock client: ${sql}`);
-    },
-    release: () => {}
+    if (sql.startsWith('SELECT type, COUNT(*)')) {
+      const counts = new Map<string, number>();
+      for (const key of staged.keys()) {
+        const type = key.slice(0, key.indexOf(':'));
+        counts.set(type, (counts.get(type) ?? 0) + 1);
+      }
+      return { rows: [...counts].map(([type, count]) => ({ type, count })), rowCount: counts.size };
+    }
+
+    if (sql.startsWith('UPDATE blocklists SET')) {
+      updates.push(params ?? []);
+      return { rows: [{ last_rule_count: 2, last_parse_stats: { accepted: 2, exceptions: 0, unsupported: 0, invalid: 0 } }], rowCount: 1 };
+    }
+
+    if (sql.includes('INSERT INTO blocklist_refresh_history')) {
+      history.push(params ?? []);
+      return { rows: [], rowCount: 1 };
+    }
+
+    if (sql.includes('DELETE FROM blocklist_refresh_history')) return { rows: [], rowCount: 0 };
+
+    throw new Error(`Unexpected SQL in mock client: ${sql}`);
   };
 
+  const client = { query, release: () => {} };
+
   const pool = {
+    query,
     connect: async () => client
   };
 
-  return { db: { pool } as any, inserted, queries };
+  return { db: { pool } as any, inserted, options, updates, history, queries };
 }
 
 function streamFromChunks(chunks: string[]) {
@@ -86,7 +162,179 @@ describe('refreshBlocklist (streaming)', () => {
 
     // example.com and ads.example.net are the only valid non-localhost domains.
     expect(res.fetched).toBe(2);
-    expect(inserted.has('example.com')).toBe(true);
-    expect(inserted.has('ads.example.net')).toBe(true);
+    expect(inserted.has('BLOCKED:example.com')).toBe(true);
+    expect(inserted.has('BLOCKED:ads.example.net')).toBe(true);
+  });
+
+  it('stores exceptions and modifiers, applies $badfilter and records parse stats', async () => {
+    const { db, inserted, options, updates } = createMockDb();
+
+    const body = streamFromChunks([
+      '[Adblock Plus 2.0]\n',
+      '! Title: test\n',
+      '||ads.example.com^\n',
+      '||tracker.example.com^$important\n',
+      '||v6.example.com^$dnstype=AAAA,client=~192.168.1.5\n',
+      '@@||cdn.example.com^\n',
+      '||old.example.com^\n',
+      '||old.example.com^$badfilter\n',
+      '||video.example.com^$third-party\n',
+      'example.com##.banner\n',
+      '/^ad[0-9]+\\./\n',
+      '||bad_host^\n'
+    ]);
+
+    globalThis.fetch = vi.fn(async () => new Response(body, { status: 200 })) as any;
+
+    const res = await refreshBlocklist(db, { id: 7, name: 'AG', url: 'https://example.invalid/adguard.txt' });
+
+    expect(res.fetched).toBe(3);
+    expect(res.exceptions).toBe(1);
+    expect(res.stats).toEqual({ accepted: 5, exceptions: 1, unsupported: 3, invalid: 1 });
+    expect([...inserted].sort()).toEqual([
+      'ALLOWED:cdn.example.com',
+      'BLOCKED:ads.example.com',
+      'BLOCKED:tracker.example.com',
+      'BLOCKED:v6.example.com'
+    ]);
+    expect(JSON.parse(String(options.get('BLOCKED:tracker.example.com')))).toEqual({ important: true });
+    expect(JSON.parse(String(options.get('BLOCKED:v6.example.com')))).toEqual({
+      dnstypes: ['AAAA'],
+      clients: ['~192.168.1.5']
+    });
+    expect(options.get('BLOCKED:ads.example.com')).toBeNull();
+    expect(JSON.parse(updates[0][2])).toEqual(res.stats);
+  });
+
+  it('sends stored validators and keeps rules untouched on 304', async () => {
+    const { db, updates, history, queries } = createMockDb({ etag: '"v1"', lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT' });
+
+    const fetchMock = vi.fn(async () => new Response(null, { status: 304 }));
+    globalThis.fetch = fetchMock as any;
+
+    const res = await refreshBlocklist(db, { id: 3, name: 'BL', url: 'https://example.invalid/list.txt' });
+
+    const headers = (fetchMock.mock.calls[0] as any[])[1].headers;
+    expect(headers['if-none-match']).toBe('"v1"');
+    expect(headers['if-modified-since']).toBe('Mon, 01 Jan 2024 00:00:00 GMT');
+    expect(res).toMatchObject({ notModified: true, fetched: 2, added: 0, removed: 0, bytes: 0 });
+    expect(queries.some((q) => q.includes('INSERT INTO rules') || q.startsWith('DELETE FROM rules'))).toBe(false);
+    expect(updates[0]).toEqual([3]);
+    expect(history[0][2]).toBe('NOT_MODIFIED');
+
+    // force=true skips the conditional headers.
+    fetchMock.mockClear();
+    fetchMock.mockImplementation(async () => new Response('0.0.0.0 a.example.com\n', { status: 200 }));
+    await refreshBlocklist(db, { id: 3, name: 'BL', url: 'https://example.invalid/list.txt' }, { force: true });
+    expect((fetchMock.mock.calls[0] as any[])[1].headers['if-none-match']).toBeUndefined();
+  });
+
+  it('only adds and removes the domains that changed between downloads', async () => {
+    const { db, inserted, updates, history } = createMockDb();
+    const input = { id: 4, name: 'BL', url: 'https://example.invalid/list.txt' };
+
+    globalThis.fetch = vi.fn(
+      async () =>
+        new Response('0.0.0.0 a.example.com\n0.0.0.0 b.example.com\n', { status: 200, headers: { etag: '"v2"' } })
+    ) as any;
+    const first = await refreshBlocklist(db, input);
+    expect(first).toMatchObject({ notModified: false, fetched: 2, added: 2, removed: 0 });
+    expect(first.bytes).toBeGreaterThan(0);
+    expect(updates[0][3]).toBe('"v2"');
+    expect(updates[0][5]).toBe(true);
+
+    globalThis.fetch = vi.fn(async () => new Response('0.0.0.0 b.example.com\n0.0.0.0 c.example.com\n', { status: 200 })) as any;
+    const second = await refreshBlocklist(db, input);
+    expect(second).toMatchObject({ fetched: 2, added: 1, removed: 1 });
+    expect([...inserted].sort()).toEqual(['BLOCKED:b.example.com', 'BLOCKED:c.example.com']);
+
+    const unchanged = await refreshBlocklist(db, input);
+    expect(unchanged).toMatchObject({ added: 0, removed: 0 });
+    expect(updates.at(-1)?.[5]).toBe(false);
+    expect(history.filter((h) => h[2] === 'UPDATED')).toHaveLength(3);
+  });
+
+  it('records failed downloads in the refresh history', async () => {
+    const { db, history } = createMockDb();
+    globalThis.fetch = vi.fn(async () => new Response('nope', { status: 500 })) as any;
+
+    await expect(refreshBlocklist(db, { id: 5, name: 'BL', url: 'https://example.invalid/list.txt' })).rejects.toThrow('HTTP_500');
+    expect(history[0][2]).toBe('FAILED');
+    expect(history[0][8]).toBe('HTTP_500');
+  });
+
+  it('reads inline lists from the blocklist row without fetching', async () => {
+    const { db, inserted, updates } = createMockDb({ content: '# pasted\r\nads.example.com\r\n||track.example.net^\r\n' });
+    globalThis.fetch = vi.fn() as any;
+
+    const res = await refreshBlocklist(db, { id: 8, name: 'Pasted', url: 'inline:0d5c1c9e-6f0e-4c36-9a49-4f3f0f3c8a11' });
+
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+    expect(res).toMatchObject({ fetched: 2, added: 2 });
+    expect([...inserted].sort()).toEqual(['BLOCKED:ads.example.com', 'BLOCKED:track.example.net']);
+    expect(updates[0][3]).toBeNull();
+  });
+
+  it('reads file:// lists from DATA_DIR/blocklists and skips unchanged files', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-bl-'));
+    try {
+      fs.mkdirSync(path.join(dataDir, 'blocklists', 'private'), { recursive: true });
+      fs.writeFileSync(path.join(dataDir, 'blocklists', 'private', 'ads.txt'), '0.0.0.0 a.example.com\n0.0.0.0 b.example.com\n');
+      fs.writeFileSync(path.join(dataDir, 'secret.txt'), 'x.example.com\n');
+      globalThis.fetch = vi.fn() as any;
+
+      const { db, inserted, updates } = createMockDb();
+      const input = { id: 9, name: 'File', url: 'file://private/ads.txt' };
+      const res = await refreshBlocklist(db, input, { dataDir });
+      expect(res).toMatchObject({ notModified: false, fetched: 2 });
+      expect(inserted.has('BLOCKED:a.example.com')).toBe(true);
+      const etag = updates[0][3];
+      expect(etag).toMatch(/^"\d+-\d+"$/);
+
+      const again = createMockDb({ etag });
+      expect(await refreshBlocklist(again.db, input, { dataDir })).toMatchObject({ notModified: true });
+
+      await expect(
+        refreshBlocklist(createMockDb().db, { id: 10, name: 'Escape', url: 'file://../secret.txt' }, { dataDir })
+      ).rejects.toThrow('INVALID_FILE_PATH');
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+    } finally {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+
+  it('resolves file:// sources inside the blocklists directory only', () => {
+    expect(blocklistSourceType('https://example.com/list.txt')).toBe('URL');
+    expect(blocklistSourceType('FILE://a.txt')).toBe('FILE');
+    expect(blocklistSourceType('inline:abc')).toBe('INLINE');
+
+    expect(resolveBlocklistFilePath('/data', 'file://ads.txt')).toBe('/data/blocklists/ads.txt');
+    expect(resolveBlocklistFilePath('/data', 'file:///data/blocklists/sub/ads%20list.txt')).toBe('/data/blocklists/sub/ads list.txt');
+    expect(resolveBlocklistFilePath('/data', 'file://../config.json')).toBeNull();
+    expect(resolveBlocklistFilePath('/data', 'file:///etc/hosts')).toBeNull();
+    expect(resolveBlocklistFilePath('/data', 'file://sub/%2e%2e/%2e%2e/x')).toBeNull();
+    expect(resolveBlocklistFilePath('/data', 'file://')).toBeNull();
+  });
+
+  it('parseBlocklistLine: skips hosts-file boilerplate and classifies adblock syntax', () => {
+    expect(parseBlocklistLine('127.0.0.1 localhost')).toEqual({ kind: 'skip' });
+    expect(parseBlocklistLine('ff02::1 ip6-allnodes')).toEqual({ kind: 'skip' });
+    expect(parseBlocklistLine('0.0.0.0 0.0.0.0')).toEqual({ kind: 'skip' });
+    expect(parseBlocklistLine('||localhost^')).toEqual({ kind: 'skip' });
+    expect(parseBlocklistLine('0.0.0.0 ads.example.com # tracker')).toMatchObject({ kind: 'rule', domain: 'ads.example.com' });
+    expect(parseBlocklistLine('@@||good.example.com^$important')).toEqual({
+      kind: 'rule',
+      type: 'ALLOWED',
+      domain: 'good.example.com',
+      options: { important: true },
+      badfilter: false
+    });
+    expect(parseBlocklistLine("||x.example.com^$client='Mary\\'s laptop'|10.0.0.0/8")).toMatchObject({
+      options: { clients: ["Mary's laptop", '10.0.0.0/8'] }
+    });
+    expect(parseBlocklistLine('||ads*.example.com^')).toEqual({ kind: 'unsupported' });
+    expect(parseBlocklistLine('||x.example.com^$dnsrewrite=1.2.3.4')).toEqual({ kind: 'unsupported' });
+    expect(parseBlocklistLine('0.0.0.0 bad_host.example.com')).toEqual({ kind: 'invalid' });
+    expect(parseBlocklistLine('badline')).toEqual({ kind: 'invalid' });
   });
 });
@@ -0,0 +1,94 @@
+import dnsPacket from 'dns-packet';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { describeCacheEntry, readCacheSnapshot, resolveCacheSnapshotPath, writeCacheSnapshot } from '../../src/dns/cacheSnapshot.js';
+import type { DnsResponseCacheEntry } from '../../src/dns/responseCache.js';
+
+function answer(ttl: number): Buffer {
+  return dnsPacket.encode({
+    type: 'response',
+    id: 1,
+    questions: [{ type: 'A', name: 'example.com' }],
+    answers: [{ type: 'A', name: 'example.com', ttl, data: '93.184.216.34' }]
+  } as any);
+}
+
+function entry(overrides: Partial<DnsResponseCacheEntry>): DnsResponseCacheEntry {
+  return { resp: answer(300), storedAt: 0, expiresAt: 300_000, staleUntil: 300_000, hits: 0, prefetching: false, ...overrides };
+}
+
+describe('unit: response cache snapshot', () => {
+  const tmpDirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of tmpDirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function snapshotFile(): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-cache-'));
+    tmpDirs.push(dir);
+    return path.join(dir, 'nested', 'cache-snapshot.json');
+  }
+
+  it('stores the snapshot under DATA_DIR', () => {
+    expect(resolveCacheSnapshotPath({ DATA_DIR: '/srv/data' } as any)).toBe('/srv/data/sentinel/dns/cache-snapshot.json');
+  });
+
+  it('round-trips usable entries and lowers TTLs to the remaining lifetime', () => {
+    const file = snapshotFile();
+    const written = writeCacheSnapshot(
+      file,
+      new Map([
+        ['example.com\0A', entry({ hits: 4 })],
+        ['stale.com\0A', entry({ expiresAt: 100_000, staleUntil: 500_000 })],
+        ['gone.com\0A', entry({ expiresAt: 50_000, staleUntil: 90_000 })]
+      ]),
+      { dnssec: false },
+      100_000
+    );
+    expect(written).toBe(2);
+    expect(fs.existsSync(`${file}.tmp`)).toBe(false);
+
+    const restored = new Map(readCacheSnapshot(file, 180_000, { dnssec: false }));
+    expect([...restored.keys()]).toEqual(['example.com\0A', 'stale.com\0A']);
+
+    const fresh = restored.get('example.com\0A') as DnsResponseCacheEntry;
+    expect(fresh).toMatchObject({ expiresAt: 300_000, hits: 4, prefetching: false });
+    expect((dnsPacket.decode(fresh.resp) as any).answers[0].ttl).toBe(120);
+
+    // Expired (stale) answers keep their bytes; the stale TTL is applied when served.
+    const stale = restored.get('stale.com\0A') as DnsResponseCacheEntry;
+    expect((dnsPacket.decode(stale.resp) as any).answers[0].ttl).toBe(300);
+
+    expect(readCacheSnapshot(file, 600_000, { dnssec: false })).toEqual([]);
+  });
+
+  it('ignores missing, corrupt and DNSSEC-mismatched snapshots', () => {
+    const file = snapshotFile();
+    expect(readCacheSnapshot(file, 0, { dnssec: false })).toEqual([]);
+
+    writeCacheSnapshot(file, new Map([['example.com\0A', entry({})]]), { dnssec: true }, 0);
+    expect(readCacheSnapshot(file, 0, { dnssec: false })).toEqual([]);
+    expect(readCacheSnapshot(file, 0, { dnssec: true })).toHaveLength(1);
+
+    fs.writeFileSync(file, '{not json');
+    expect(readCacheSnapshot(file, 0, { dnssec: true })).toEqual([]);
+  });
+
+  it('describes entries for the cache inspector', () => {
+    const info = describeCacheEntry(['example.com', 'AAAA', 'udp:9.9.9.9:53', '203.0.113.0/24'].join('\0'), entry({ hits: 2 }), 100_000);
+    expect(info).toMatchObject({
+      domain: 'example.com',
+      type: 'AAAA',
+      scope: 'udp:9.9.9.9:53 203.0.113.0/24',
+      ttlRemaining: 200,
+      stale: false,
+      hits: 2
+    });
+    expect(describeCacheEntry('a.com\0A', entry({}), 400_000)).toMatchObject({ stale: true, ttlRemaining: 0 });
+    expect(describeCacheEntry('a.com\0A', entry({}), 0).scope).toBeUndefined();
+  });
+});
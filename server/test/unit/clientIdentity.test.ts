@@ -0,0 +1,103 @@
+import dnsPacket from 'dns-packet';
+import { describe, expect, it } from 'vitest';
+
+import {
+  EDNS_CLIENT_ID_OPTION_CODE,
+  EDNS_MAC_OPTION_CODE,
+  generateDnsToken,
+  isDnsToken,
+  isTrustedSource,
+  normalizeClientIdString,
+  normalizeMac,
+  parseArpTable,
+  parseTrustedSources,
+  readEdnsClientIdentity,
+  stripClientIdentityOptions
+} from '../../src/dns/clientIdentity.js';
+
+function queryWithOptions(options: Array<{ code: number; data: Buffer }>): any {
+  const wire = dnsPacket.encode({
+    type: 'query',
+    id: 7,
+    flags: dnsPacket.RECURSION_DESIRED,
+    questions: [{ type: 'A', name: 'example.com', class: 'IN' }],
+    additionals: [{ type: 'OPT', name: '.', udpPayloadSize: 1232, flags: 0, options }]
+  } as any);
+  return dnsPacket.decode(wire);
+}
+
+describe('unit: client identity', () => {
+  it('normalizes MAC addresses and client-ID strings', () => {
+    expect(normalizeMac('AA-BB-CC-00-11-22')).toBe('aa:bb:cc:00:11:22');
+    expect(normalizeMac('aabb.cc00.1122')).toBe('aa:bb:cc:00:11:22');
+    expect(normalizeMac('00:00:00:00:00:00')).toBeNull();
+    expect(normalizeMac('aa:bb:cc')).toBeNull();
+
+    expect(normalizeClientIdString(' Kids-Tablet ')).toBe('kids-tablet');
+    expect(normalizeClientIdString('has space')).toBeNull();
+    expect(normalizeClientIdString('x'.repeat(65))).toBeNull();
+  });
+
+  it('generates random DoH/DoT tokens that are valid DNS labels', () => {
+    const a = generateDnsToken();
+    expect(a).toMatch(/^[0-9a-f]{32}$/);
+    expect(generateDnsToken()).not.toBe(a);
+    expect(isDnsToken(a)).toBe(true);
+    expect(isDnsToken('c-1712345678901')).toBe(false);
+    expect(isDnsToken(a.toUpperCase())).toBe(false);
+  });
+
+  it('reads the dnsmasq MAC option in raw, text and base64 form', () => {
+    const raw = queryWithOptions([{ code: EDNS_MAC_OPTION_CODE, data: Buffer.from('aabbcc001122', 'hex') }]);
+    expect(readEdnsClientIdentity(raw)).toEqual({ mac: 'aa:bb:cc:00:11:22' });
+
+    const text = queryWithOptions([{ code: EDNS_MAC_OPTION_CODE, data: Buffer.from('AA:BB:CC:00:11:22') }]);
+    expect(readEdnsClientIdentity(text).mac).toBe('aa:bb:cc:00:11:22');
+
+    const base64 = queryWithOptions([
+      { code: EDNS_MAC_OPTION_CODE, data: Buffer.from(Buffer.from('aabbcc001122', 'hex').toString('base64')) }
+    ]);
+    expect(readEdnsClientIdentity(base64).mac).toBe('aa:bb:cc:00:11:22');
+  });
+
+  it('reads the client-ID option and strips both options before forwarding', () => {
+    const query = queryWithOptions([
+      { code: EDNS_MAC_OPTION_CODE, data: Buffer.from('aabbcc001122', 'hex') },
+      { code: EDNS_CLIENT_ID_OPTION_CODE, data: Buffer.from('Living-Room-TV') },
+      { code: 10, data: Buffer.from('0123456789abcdef', 'hex') }
+    ]);
+    expect(readEdnsClientIdentity(query)).toEqual({ mac: 'aa:bb:cc:00:11:22', clientId: 'living-room-tv' });
+
+    const stripped = stripClientIdentityOptions(query);
+    expect(stripped.changed).toBe(true);
+    const opt = stripped.query.additionals.find((r: any) => r.type === 'OPT');
+    expect(opt.options.map((o: any) => o.code)).toEqual([10]);
+    expect(readEdnsClientIdentity(dnsPacket.decode(dnsPacket.encode(stripped.query)))).toEqual({});
+
+    const plain = queryWithOptions([]);
+    expect(stripClientIdentityOptions(plain)).toEqual({ query: plain, changed: false });
+  });
+
+  it('parses the Linux ARP table and skips incomplete entries', () => {
+    const table = parseArpTable(
+      [
+        'IP address       HW type     Flags       HW address            Mask     Device',
+        '192.168.1.20     0x1         0x2         AA:BB:CC:00:11:22     *        eth0',
+        '192.168.1.21     0x1         0x0         00:00:00:00:00:00     *        eth0',
+        ''
+      ].join('\n')
+    );
+    expect([...table]).toEqual([['192.168.1.20', 'aa:bb:cc:00:11:22']]);
+  });
+
+  it('only trusts EDNS identity options from configured forwarders', () => {
+    const sources = parseTrustedSources('192.168.1.1, 10.10.0.0/16 fd00::1 not-an-ip');
+    expect(sources).toHaveLength(3);
+    expect(isTrustedSource(sources, '192.168.1.1')).toBe(true);
+    expect(isTrustedSource(sources, '::ffff:192.168.1.1')).toBe(true);
+    expect(isTrustedSource(sources, '10.10.4.2')).toBe(true);
+    expect(isTrustedSource(sources, 'fd00::1')).toBe(true);
+    expect(isTrustedSource(sources, '192.168.1.50')).toBe(false);
+    expect(isTrustedSource(parseTrustedSources(''), '192.168.1.1')).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  findConditionalForward,
+  normalizeForwardSuffix,
+  readConditionalForwards
+} from '../../src/dns/conditionalForwarding.js';
+
+describe('unit: conditional forwarding', () => {
+  it('normalizes suffixes and converts octet-aligned IPv4 CIDRs to reverse zones', () => {
+    expect(normalizeForwardSuffix(' *.LAN. ')).toBe('lan');
+    expect(normalizeForwardSuffix('.corp.example')).toBe('corp.example');
+    expect(normalizeForwardSuffix('192.168.0.0/16')).toBe('168.192.in-addr.arpa');
+    expect(normalizeForwardSuffix('10.1.2.0/24')).toBe('2.1.10.in-addr.arpa');
+    expect(normalizeForwardSuffix('10.0.0.0/12')).toBe('');
+    expect(normalizeForwardSuffix('bad suffix')).toBe('');
+  });
+
+  it('reads stored entries and skips incomplete ones', () => {
+    const items = readConditionalForwards({
+      items: [
+        { id: 'a', suffix: 'lan', upstream: { transport: 'udp', host: '192.168.1.1', port: 53 } },
+        { id: 'b', suffix: 'corp.example', upstream: { transport: 'doh' } },
+        { id: '', suffix: 'x', upstream: { transport: 'udp', host: '10.0.0.1', port: 53 } }
+      ]
+    });
+    expect(items).toEqual([{ id: 'a', suffix: 'lan', upstream: { transport: 'udp', host: '192.168.1.1', port: 53 } }]);
+  });
+
+  it('matches the longest configured suffix on label boundaries', () => {
+    const bySuffix = new Map([
+      ['lan', 'router'],
+      ['corp.example', 'vpn'],
+      ['eu.corp.example', 'vpn-eu']
+    ]);
+    expect(findConditionalForward(bySuffix, 'nas.lan')).toBe('router');
+    expect(findConditionalForward(bySuffix, 'lan')).toBe('router');
+    expect(findConditionalForward(bySuffix, 'git.eu.corp.example')).toBe('vpn-eu');
+    expect(findConditionalForward(bySuffix, 'intranet.corp.example')).toBe('vpn');
+    expect(findConditionalForward(bySuffix, 'notcorp.example')).toBeUndefined();
+    expect(findConditionalForward(bySuffix, 'example.com')).toBeUndefined();
+  });
+});
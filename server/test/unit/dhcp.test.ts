@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+
+import { allocateAddress, canAssignAddress, type AllocationContext } from '../../src/dhcp/allocation.js';
+import { buildDhcpReply } from '../../src/dhcp/dhcpServer.js';
+import {
+  DHCP_OPTION,
+  decodeDhcpPacket,
+  encodeDhcpPacket,
+  messageTypeOption,
+  readOptionIp,
+  readOptionString,
+  uint32Option
+} from '../../src/dhcp/packet.js';
+import {
+  buildDhcpScope,
+  hostnameLabel,
+  parseDhcpSettings,
+  readDhcpReservations,
+  selectDhcpScope,
+  type DhcpScope
+} from '../../src/dhcp/scopes.js';
+
+const MAC = 'aa:bb:cc:00:11:22';
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+
+function scope(overrides: Partial<DhcpScope> = {}): DhcpScope {
+  const built = buildDhcpScope('lan', {
+    name: 'LAN',
+    subnet: '192.168.1.0/24',
+    rangeStart: '192.168.1.100',
+    rangeEnd: '192.168.1.103',
+    router: '192.168.1.1',
+    ...overrides
+  });
+  if ('error' in built) throw new Error(built.error);
+  return built;
+}
+
+function discover(mac: string, options: Array<[number, Buffer]> = []): Buffer {
+  return encodeDhcpPacket({
+    op: 1,
+    xid: 0x1234abcd,
+    secs: 0,
+    flags: 0x8000,
+    ciaddr: '0.0.0.0',
+    yiaddr: '0.0.0.0',
+    siaddr: '0.0.0.0',
+    giaddr: '0.0.0.0',
+    chaddr: Buffer.concat([Buffer.from(mac.split(':').map((x) => parseInt(x, 16))), Buffer.alloc(10)]),
+    options: [messageTypeOption('DISCOVER'), ...options]
+  });
+}
+
+function ctx(overrides: Partial<AllocationContext> = {}): AllocationContext {
+  return { scope: scope(), reservations: [], leases: [], held: new Map(), excluded: ['192.168.1.2', '192.168.1.1'], nowMs: NOW, ...overrides };
+}
+
+describe('unit: dhcp', () => {
+  it('round-trips DHCP packets and options', () => {
+    const wire = discover(MAC, [
+      [DHCP_OPTION.HOST_NAME, Buffer.from('Kids-iPad')],
+      [DHCP_OPTION.REQUESTED_IP, Buffer.from([192, 168, 1, 50])]
+    ]);
+    expect(wire.length).toBe(300);
+
+    const packet = decodeDhcpPacket(wire)!;
+    expect(packet).toMatchObject({ op: 1, xid: 0x1234abcd, flags: 0x8000, mac: MAC, messageType: 'DISCOVER' });
+    expect(readOptionIp(packet, DHCP_OPTION.REQUESTED_IP)).toBe('192.168.1.50');
+    expect(readOptionString(packet, DHCP_OPTION.HOST_NAME)).toBe('Kids-iPad');
+    expect(decodeDhcpPacket(Buffer.alloc(100))).toBeNull();
+  });
+
+  it('builds offers with lease time, network options and this server as DNS', () => {
+    const request = decodeDhcpPacket(discover(MAC))!;
+    const offer = decodeDhcpPacket(buildDhcpReply(request, 'OFFER', scope({ domain: 'home.arpa' }), '192.168.1.2', '192.168.1.100', 3600))!;
+
+    expect(offer).toMatchObject({ op: 2, xid: request.xid, yiaddr: '192.168.1.100', mac: MAC, messageType: 'OFFER' });
+    expect(readOptionIp(offer, DHCP_OPTION.SERVER_ID)).toBe('192.168.1.2');
+    expect(readOptionIp(offer, DHCP_OPTION.SUBNET_MASK)).toBe('255.255.255.0');
+    expect(readOptionIp(offer, DHCP_OPTION.ROUTER)).toBe('192.168.1.1');
+    expect(readOptionIp(offer, DHCP_OPTION.DNS_SERVERS)).toBe('192.168.1.2');
+    expect(readOptionIp(offer, DHCP_OPTION.BROADCAST_ADDRESS)).toBe('192.168.1.255');
+    expect(readOptionString(offer, DHCP_OPTION.DOMAIN_NAME)).toBe('home.arpa');
+    expect(offer.options.get(DHCP_OPTION.LEASE_TIME)).toEqual(uint32Option(DHCP_OPTION.LEASE_TIME, 3600)[1]);
+
+    const nak = decodeDhcpPacket(buildDhcpReply(request, 'NAK', scope(), '192.168.1.2', '0.0.0.0'))!;
+    expect(nak.messageType).toBe('NAK');
+    expect(nak.options.has(DHCP_OPTION.DNS_SERVERS)).toBe(false);
+  });
+
+  it('validates scopes and rejects overlapping subnets', () => {
+    expect(scope()).toMatchObject({ subnet: '192.168.1.0/24', domain: 'lan', leaseTimeSec: 86_400, dnsServers: [] });
+    expect(buildDhcpScope('x', { subnet: '192.168.1.7/24', rangeStart: '192.168.1.10', rangeEnd: '192.168.1.20' })).toMatchObject({
+      subnet: '192.168.1.0/24'
+    });
+    expect(buildDhcpScope('x', { subnet: 'fd00::/64', rangeStart: 'fd00::10', rangeEnd: 'fd00::20' })).toEqual({ error: 'INVALID_SUBNET' });
+    expect(buildDhcpScope('x', { subnet: '192.168.1.0/24', rangeStart: '192.168.1.50', rangeEnd: '192.168.1.10' })).toEqual({
+      error: 'INVALID_RANGE'
+    });
+    expect(buildDhcpScope('x', { subnet: '192.168.1.0/24', rangeStart: '192.168.1.10', rangeEnd: '192.168.2.10' })).toEqual({
+      error: 'INVALID_RANGE'
+    });
+    expect(
+      buildDhcpScope('x', { subnet: '192.168.1.0/24', rangeStart: '192.168.1.10', rangeEnd: '192.168.1.20', router: '10.0.0.1' })
+    ).toEqual({ error: 'INVALID_ROUTER' });
+
+    const overlap = parseDhcpSettings({
+      enabled: true,
+      scopes: [
+        { subnet: '192.168.0.0/16', rangeStart: '192.168.5.10', rangeEnd: '192.168.5.20' },
+        { subnet: '192.168.1.0/24', rangeStart: '192.168.1.10', rangeEnd: '192.168.1.20' }
+      ]
+    });
+    expect(overlap).toMatchObject({ error: 'SCOPE_OVERLAP' });
+  });
+
+  it('derives reservations from device profiles with a MAC and an IP inside a scope', () => {
+    const reservations = readDhcpReservations(
+      [
+        { id: 'p1', name: "Kid's iPad", type: 'tablet', mac: 'AA-BB-CC-00-11-22', ip: '192.168.1.20' },
+        { id: 'p2', name: 'Old iPad', type: 'tablet', mac: MAC, ip: '192.168.1.21' },
+        { id: 'p3', name: 'Printer', type: 'iot', mac: 'aa:bb:cc:00:11:33', ip: '10.0.0.5' },
+        { id: 'p4', name: 'Guests', type: 'subnet', cidr: '192.168.1.0/24' }
+      ],
+      [scope()]
+    );
+    expect(reservations).toEqual([
+      { scopeId: 'lan', ip: '192.168.1.20', mac: MAC, hostname: 'kid-s-ipad', profileId: 'p1', profileName: "Kid's iPad" }
+    ]);
+    expect(hostnameLabel('Living Room TV.fritz.box')).toBe('living-room-tv');
+    expect(hostnameLabel('***')).toBeNull();
+  });
+
+  it('allocates the reservation, the previous lease, the requested address, then the first free one', () => {
+    const reservation = { scopeId: 'lan', ip: '192.168.1.20', mac: MAC, hostname: 'ipad', profileId: 'p1', profileName: 'iPad' };
+    expect(allocateAddress(ctx({ reservations: [reservation] }), MAC, '192.168.1.101')).toBe('192.168.1.20');
+
+    const leases = [
+      { ip: '192.168.1.100', mac: 'aa:bb:cc:00:00:01', expiresAtMs: NOW + 60_000 },
+      { ip: '192.168.1.102', mac: MAC, expiresAtMs: NOW - 60_000 }
+    ];
+    expect(allocateAddress(ctx({ leases }), MAC, '192.168.1.101')).toBe('192.168.1.102');
+    expect(allocateAddress(ctx({ leases }), 'aa:bb:cc:00:00:09', '192.168.1.101')).toBe('192.168.1.101');
+    // Taken by an active lease → next never-leased address.
+    expect(allocateAddress(ctx({ leases }), 'aa:bb:cc:00:00:09', '192.168.1.100')).toBe('192.168.1.101');
+
+    const held = new Map([
+      ['192.168.1.101', { mac: 'aa:bb:cc:00:00:02', expiresAtMs: NOW + 30_000 }],
+      ['192.168.1.103', { mac: '', expiresAtMs: NOW + 30_000 }]
+    ]);
+    // Only the expired lease of another device is left.
+    expect(allocateAddress(ctx({ leases, held }), 'aa:bb:cc:00:00:09', null)).toBe('192.168.1.102');
+
+    const full = [100, 101, 102, 103].map((n) => ({ ip: `192.168.1.${n}`, mac: `aa:bb:cc:00:01:${n}`, expiresAtMs: NOW + 60_000 }));
+    expect(allocateAddress(ctx({ leases: full }), MAC, null)).toBeNull();
+  });
+
+  it('only acknowledges free pool addresses or the client reservation', () => {
+    const reservation = { scopeId: 'lan', ip: '192.168.1.20', mac: MAC, hostname: 'ipad', profileId: 'p1', profileName: 'iPad' };
+    expect(canAssignAddress(ctx({ reservations: [reservation] }), '192.168.1.20', MAC)).toBe(true);
+    expect(canAssignAddress(ctx({ reservations: [reservation] }), '192.168.1.100', MAC)).toBe(false);
+    expect(canAssignAddress(ctx(), '192.168.1.20', MAC)).toBe(false);
+    expect(canAssignAddress(ctx(), '192.168.1.101', MAC)).toBe(true);
+    expect(canAssignAddress(ctx(), '10.0.0.101', MAC)).toBe(false);
+    const leases = [{ ip: '192.168.1.101', mac: 'aa:bb:cc:00:00:01', expiresAtMs: NOW + 60_000 }];
+    expect(canAssignAddress(ctx({ leases }), '192.168.1.101', MAC)).toBe(false);
+  });
+
+  it('selects the scope by relay address or local interface', () => {
+    const lan = scope();
+    const iot = { ...scope({ subnet: '192.168.20.0/24', rangeStart: '192.168.20.100', rangeEnd: '192.168.20.200', router: '' }), id: 'iot' };
+    expect(selectDhcpScope([lan, iot], '192.168.20.1', ['192.168.1.2'])?.id).toBe('iot');
+    expect(selectDhcpScope([lan, iot], '0.0.0.0', ['172.17.0.2', '192.168.1.2'])?.id).toBe('lan');
+    expect(selectDhcpScope([lan, iot], '0.0.0.0', ['172.17.0.2'])).toBeNull();
+    expect(selectDhcpScope([lan], '0.0.0.0', ['172.17.0.2'])?.id).toBe('lan');
+    expect(selectDhcpScope([{ ...lan, enabled: false }], '0.0.0.0', ['192.168.1.2'])).toBeNull();
+  });
+});
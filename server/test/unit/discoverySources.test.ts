@@ -0,0 +1,204 @@
+import dnsPacket from 'dns-packet';
+import { describe, expect, it } from 'vitest';
+
+import {
+  detectLeaseFormat,
+  parseIscLeases,
+  parseKeaLeases,
+  parseLeaseFile,
+  parseDnsmasqLeases,
+  resolveLeaseFilePath
+} from '../../src/discovery/leases.js';
+import { parseMdnsHosts } from '../../src/discovery/mdns.js';
+import { attachProfiles, mergeDiscoveredClients } from '../../src/discovery/merge.js';
+import { buildNbstatQuery, parseNbstatResponse } from '../../src/discovery/netbios.js';
+import { lookupVendor, parseOuiDatabase, RANDOMIZED_MAC_VENDOR } from '../../src/discovery/oui.js';
+
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+
+function nbstatResponse(names: Array<{ name: string; suffix: number; group?: boolean }>): Buffer {
+  const query = buildNbstatQuery(42);
+  const header = Buffer.from(query.subarray(0, 12));
+  header.writeUInt16BE(0x8400, 2);
+  header.writeUInt16BE(0, 4);
+  header.writeUInt16BE(1, 6);
+  const rrName = query.subarray(12, query.length - 4);
+  const fixed = Buffer.alloc(10);
+  fixed.writeUInt16BE(0x21, 0);
+  fixed.writeUInt16BE(1, 2);
+  const table = Buffer.concat([
+    Buffer.from([names.length]),
+    ...names.map((n) => {
+      const e = Buffer.alloc(18);
+      e.write(n.name.padEnd(15, ' '), 0, 'latin1');
+      e[15] = n.suffix;
+      e.writeUInt16BE(n.group ? 0x8400 : 0x0400, 16);
+      return e;
+    })
+  ]);
+  fixed.writeUInt16BE(table.length, 8);
+  return Buffer.concat([header, rrName, fixed, table]);
+}
+
+describe('unit: discovery sources', () => {
+  it('parses dnsmasq leases and skips the IPv6 duid line', () => {
+    const text = [
+      '1767229200 aa:bb:cc:00:11:22 192.168.1.20 laptop 01:aa:bb:cc:00:11:22',
+      '0 de:ad:be:ef:00:01 192.168.1.21 * *',
+      'duid 00:01:00:01:2a:2b:2c:2d'
+    ].join('\n');
+    expect(parseDnsmasqLeases(text)).toEqual([
+      { ip: '192.168.1.20', mac: 'aa:bb:cc:00:11:22', hostname: 'laptop', expiresAt: '2026-01-01T01:00:00.000Z' },
+      { ip: '192.168.1.21', mac: 'de:ad:be:ef:00:01', expiresAt: null }
+    ]);
+  });
+
+  it('keeps the last active ISC lease per IP', () => {
+    const text = `
+lease 192.168.1.30 {
+  starts 4 2025/12/31 22:00:00;
+  ends 4 2025/12/31 23:00:00;
+  binding state active;
+  hardware ethernet 00:11:22:33:44:55;
+  client-hostname "old-name";
+}
+lease 192.168.1.30 {
+  ends 5 2026/01/02 10:00:00;
+  binding state active;
+  hardware ethernet 00:11:22:33:44:55;
+  client-hostname "printer";
+}
+lease 192.168.1.31 {
+  binding state free;
+  hardware ethernet 00:11:22:33:44:66;
+}`;
+    expect(parseIscLeases(text)).toEqual([
+      { ip: '192.168.1.30', mac: '00:11:22:33:44:55', hostname: 'printer', expiresAt: '2026-01-02T10:00:00.000Z' }
+    ]);
+  });
+
+  it('parses Kea memfile CSV and skips declined leases', () => {
+    const text = [
+      'address,hwaddr,client_id,valid_lifetime,expire,subnet_id,fqdn_fwd,fqdn_rev,hostname,state,user_context',
+      '192.168.1.40,aa:bb:cc:dd:ee:01,,3600,1767229200,1,0,0,tv.lan.,0,',
+      '192.168.1.41,aa:bb:cc:dd:ee:02,,3600,1767229200,1,0,0,,1,'
+    ].join('\n');
+    expect(detectLeaseFormat(text)).toBe('kea');
+    expect(parseKeaLeases(text)).toEqual([
+      { ip: '192.168.1.40', mac: 'aa:bb:cc:dd:ee:01', hostname: 'tv.lan', expiresAt: '2026-01-01T01:00:00.000Z' }
+    ]);
+  });
+
+  it('auto-detects OpenWrt and OPNsense JSON exports', () => {
+    const openwrt = JSON.stringify({
+      dhcp_leases: [
+        { ipaddr: '192.168.1.50', macaddr: 'AA:BB:CC:00:00:50', hostname: 'phone', expires: 600 },
+        { ipaddr: '192.168.1.51', macaddr: 'AA:BB:CC:00:00:51', expires: -1 }
+      ]
+    });
+    expect(parseLeaseFile(openwrt, 'auto', NOW)).toEqual({
+      format: 'openwrt',
+      entries: [
+        { ip: '192.168.1.50', mac: 'aa:bb:cc:00:00:50', hostname: 'phone', expiresAt: '2026-01-01T00:10:00.000Z' },
+        { ip: '192.168.1.51', mac: 'aa:bb:cc:00:00:51', expiresAt: null }
+      ]
+    });
+
+    const opnsense = JSON.stringify({
+      rows: [
+        { address: '192.168.1.60', mac: 'aa:bb:cc:00:00:60', hostname: 'nas', ends: '2026/01/01 12:00:00', state: 'active' },
+        { address: '192.168.1.61', mac: 'aa:bb:cc:00:00:61', hostname: 'gone', ends: '', state: 'expired' }
+      ]
+    });
+    const parsed = parseLeaseFile(opnsense, 'auto', NOW);
+    expect(parsed.format).toBe('opnsense');
+    expect(parsed.entries.map((e) => e.hostname)).toEqual(['nas']);
+  });
+
+  it('keeps lease file paths inside the leases directory', () => {
+    const config = { DATA_DIR: '/data' } as any;
+    expect(resolveLeaseFilePath(config, 'dnsmasq.leases')).toBe('/data/leases/dnsmasq.leases');
+    expect(resolveLeaseFilePath(config, 'router/dhcpd.leases')).toBe('/data/leases/router/dhcpd.leases');
+    expect(resolveLeaseFilePath(config, '../secrets.json')).toBeNull();
+    expect(resolveLeaseFilePath(config, '/etc/passwd')).toBeNull();
+    expect(resolveLeaseFilePath(config, '')).toBeNull();
+  });
+
+  it('parses OUI databases and flags randomized MACs', () => {
+    const vendors = parseOuiDatabase(
+      ['00-00-0C   (hex)\t\tCisco Systems, Inc', '00:17:88\tPhilipsL\tPhilips Lighting BV', '00:1B:C5:00:00/36\tConvergi'].join('\n')
+    );
+    expect(vendors.size).toBe(2);
+    expect(lookupVendor(vendors, '00:00:0c:12:34:56')).toBe('Cisco Systems, Inc');
+    expect(lookupVendor(vendors, '00:17:88:aa:bb:cc')).toBe('Philips Lighting BV');
+    expect(lookupVendor(vendors, 'da:a1:19:00:00:01')).toBe(RANDOMIZED_MAC_VENDOR);
+    expect(lookupVendor(vendors, '00:99:99:00:00:01')).toBeUndefined();
+  });
+
+  it('reads the workstation name from a NetBIOS node status response', () => {
+    const query = buildNbstatQuery(42);
+    expect(query.readUInt16BE(0)).toBe(42);
+    expect(query.length).toBe(12 + 34 + 4);
+
+    const res = nbstatResponse([
+      { name: 'WORKGROUP', suffix: 0x00, group: true },
+      { name: 'DESKTOP-1A2B3C', suffix: 0x20 },
+      { name: 'DESKTOP-1A2B3C', suffix: 0x00 }
+    ]);
+    expect(parseNbstatResponse(res)).toBe('DESKTOP-1A2B3C');
+    expect(parseNbstatResponse(nbstatResponse([{ name: 'WORKGROUP', suffix: 0x00, group: true }]))).toBeNull();
+    expect(parseNbstatResponse(Buffer.alloc(4))).toBeNull();
+  });
+
+  it('reads .local host names from mDNS responses only', () => {
+    const response = dnsPacket.encode({
+      type: 'response',
+      id: 0,
+      flags: dnsPacket.AUTHORITATIVE_ANSWER,
+      answers: [
+        { type: 'A', name: 'Living-Room-TV.local', class: 'IN', ttl: 120, data: '192.168.1.70' },
+        { type: 'PTR', name: '_airplay._tcp.local', class: 'IN', ttl: 120, data: 'Living Room._airplay._tcp.local' },
+        { type: 'A', name: 'example.com', class: 'IN', ttl: 120, data: '203.0.113.1' }
+      ]
+    } as any);
+    expect(parseMdnsHosts(response)).toEqual([{ ip: '192.168.1.70', hostname: 'living-room-tv' }]);
+
+    const query = dnsPacket.encode({ type: 'query', id: 0, questions: [{ type: 'A', name: 'nas.local', class: 'IN' }] } as any);
+    expect(parseMdnsHosts(query)).toEqual([]);
+  });
+
+  it('merges sources by IP and attaches existing profiles', () => {
+    const merged = mergeDiscoveredClients({
+      observed: [
+        { ip: '192.168.1.20', lastSeen: '2026-01-01T00:00:00.000Z' },
+        { ip: '192.168.1.21', lastSeen: '2026-01-01T00:05:00.000Z' }
+      ],
+      leases: [{ ip: '192.168.1.20', mac: 'aa:bb:cc:00:11:22', hostname: 'laptop' }],
+      mdns: [
+        { ip: '192.168.1.20', hostname: 'macbook', lastSeen: '2026-01-01T00:01:00.000Z' },
+        { ip: '192.168.1.70', hostname: 'living-room-tv', lastSeen: '2025-12-31T23:00:00.000Z' }
+      ],
+      neighbors: new Map([
+        ['192.168.1.20', '11:11:11:11:11:11'],
+        ['192.168.1.21', 'aa:bb:cc:00:11:33']
+      ])
+    });
+
+    expect(merged.map((c) => c.ip)).toEqual(['192.168.1.21', '192.168.1.20', '192.168.1.70']);
+    expect(merged[1]).toMatchObject({
+      hostname: 'laptop',
+      mac: 'aa:bb:cc:00:11:22',
+      source: 'lease',
+      sources: ['observed', 'lease', 'mdns'],
+      lastSeen: '2026-01-01T00:01:00.000Z'
+    });
+    expect(merged[0]).toMatchObject({ hostname: null, mac: 'aa:bb:cc:00:11:33', source: 'observed', sources: ['observed', 'arp'] });
+    expect(merged[2]).toMatchObject({ hostname: 'living-room-tv', source: 'mdns' });
+
+    attachProfiles(merged, [
+      { id: 'p1', name: 'Laptop', mac: 'aa:bb:cc:00:11:22', ip: '192.168.1.99' },
+      { id: 'p2', name: 'TV', ip: '192.168.1.70' }
+    ]);
+    expect(merged.map((c) => c.profileId)).toEqual([undefined, 'p1', 'p2']);
+  });
+});
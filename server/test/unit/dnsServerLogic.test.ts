@@ -1,6 +1,6 @@
-import { describe, expect, it, beforeEach } from 'vitest';
+import { describe, expect, it, beforeEach, vi } from 'vitest';
 import dnsPacket from 'dns-packet';
-import { __testing } from '../../src/dns/dnsServer.js';
+import { __testing, dnsCacheStats, flushDnsCache, listDnsCacheEntries } from '../../src/dns/dnsServer.js';
 
 describe('dnsServer logic', () => {
   it('normalizeName trims, lowercases and removes trailing dot', () => {
@@ -129,6 +129,44 @@ describe('dnsServer logic', () => {
     });
   });
 
+  it('decideRuleIndexed: honors list exceptions, $important and $client/$dnstype conditions', () => {
+    const index = {
+      blockedByDomain: new Map<string, string | string[]>([
+        ['ads.example.com', '1'],
+        ['example.com', '2']
+      ]),
+      exceptionsByDomain: new Map<string, string | string[]>([['cdn.example.com', '1']]),
+      listRulesWithOptions: new Map([
+        ['tracker.example.com', [{ id: '2', type: 'BLOCKED', options: { important: true } }]],
+        ['v6.example.net', [{ id: '1', type: 'BLOCKED', options: { dnstypes: ['AAAA'], clients: ['~192.168.1.5'] } }]]
+      ])
+    };
+    index.exceptionsByDomain.set('tracker.example.com', '1');
+
+    const blocklistsById = new Map([
+      ['1', { enabled: true, mode: 'ACTIVE', kind: 'BLOCK', name: 'BL1' }],
+      ['2', { enabled: true, mode: 'ACTIVE', kind: 'BLOCK', name: 'BL2' }]
+    ]);
+    const selected = new Set(['1', '2']);
+    const decide = (name: string, ctx: any) =>
+      __testing.decideRuleIndexed(index as any, name, blocklistsById as any, selected, undefined, ctx);
+
+    // The exception in list 1 lifts the parent-domain block from list 2.
+    expect(decide('cdn.example.com', {})).toEqual({ decision: 'NONE' });
+    expect(decide('ads.example.com', {})).toEqual({ decision: 'BLOCKED', blocklistId: '1' });
+    // $important beats a plain exception.
+    expect(decide('tracker.example.com', {})).toEqual({ decision: 'BLOCKED', blocklistId: '2' });
+
+    expect(decide('v6.example.net', { clientIp: '192.168.1.9', qtype: 'AAAA' })).toEqual({ decision: 'BLOCKED', blocklistId: '1' });
+    expect(decide('v6.example.net', { clientIp: '192.168.1.9', qtype: 'A' })).toEqual({ decision: 'NONE' });
+    expect(decide('v6.example.net', { clientIp: '192.168.1.5', qtype: 'AAAA' })).toEqual({ decision: 'NONE' });
+
+    // Only selected lists count: without list 1 its exception no longer applies.
+    expect(
+      __testing.decideRuleIndexed(index as any, 'cdn.example.com', blocklistsById as any, new Set(['2']), undefined, {})
+    ).toEqual({ decision: 'BLOCKED', blocklistId: '2' });
+  });
+
   it('parseTimeToMinutes validates HH:MM', () => {
     expect(__testing.parseTimeToMinutes('08:05')).toBe(8 * 60 + 5);
     expect(__testing.parseTimeToMinutes('24:00')).toBeNull();
@@ -166,6 +204,48 @@ describe('dnsServer logic', () => {
     expect(__testing.findClient(clients.slice(0, 2) as any, '10.0.0.5')?.id).toBe('cidr16');
   });
 
+  it('findExactClientIndexed prefers a DoH/DoT token over the source IP', () => {
+    const phoneToken = '0f1e2d3c4b5a69788796a5b4c3d2e1f0';
+    const index = __testing.buildClientIndex([
+      { id: 'laptop', name: 'Laptop', ip: '10.0.0.7', dnsToken: 'aaaabbbbccccddddeeeeffff00001111' },
+      { id: 'phone', name: 'Phone', ip: '10.0.0.8', dnsToken: phoneToken }
+    ] as any);
+
+    expect(__testing.findExactClientIndexed(index, '10.0.0.7', phoneToken)?.id).toBe('phone');
+    expect(__testing.findExactClientIndexed(index, '203.0.113.9', phoneToken.toUpperCase())?.id).toBe('phone');
+    // Unknown tokens and plain profile ids fall back to IP matching.
+    expect(__testing.findExactClientIndexed(index, '10.0.0.7', 'missing')?.id).toBe('laptop');
+    expect(__testing.findExactClientIndexed(index, '10.0.0.7', 'phone')?.id).toBe('laptop');
+    expect(__testing.findExactClientIndexed(index, '203.0.113.9', 'phone')).toBeNull();
+    expect(__testing.findExactClientIndexed(index, '203.0.113.9')).toBeNull();
+  });
+
+  it('matchExactClientIndexed prefers client ids and MACs over the source IP', () => {
+    const index = __testing.buildClientIndex([
+      { id: 'tablet', name: 'Tablet', mac: 'aa:bb:cc:00:11:22', clientIds: ['kids-tablet'], dnsToken: '11112222333344445555666677778888' },
+      { id: 'tv', name: 'TV', ip: '10.0.0.9' }
+    ] as any);
+
+    expect(__testing.matchExactClientIndexed(index, '10.0.0.9', { ednsClientId: 'kids-tablet' })).toMatchObject({
+      client: { id: 'tablet' },
+      method: 'edns-client-id'
+    });
+    expect(__testing.matchExactClientIndexed(index, '10.0.0.9', { clientId: '11112222333344445555666677778888' })?.method).toBe('client-id');
+    // DoH/DoT tokens match neither profile ids nor the EDNS client ids.
+    expect(__testing.matchExactClientIndexed(index, '10.0.0.9', { clientId: 'tablet' })?.client.id).toBe('tv');
+    expect(__testing.matchExactClientIndexed(index, '10.0.0.9', { clientId: 'kids-tablet' })?.client.id).toBe('tv');
+    // The EDNS client-ID option never matches profile ids.
+    expect(__testing.matchExactClientIndexed(index, '10.0.0.50', { ednsClientId: 'tablet' })).toBeNull();
+    expect(__testing.matchExactClientIndexed(index, '10.0.0.9', { ednsMac: 'aa:bb:cc:00:11:22' })?.method).toBe('edns-mac');
+    expect(__testing.matchExactClientIndexed(index, '10.0.0.50', { arpMac: 'aa:bb:cc:00:11:22' })?.method).toBe('arp-mac');
+    // Unknown identifiers fall back to IP matching.
+    expect(__testing.matchExactClientIndexed(index, '10.0.0.9', { arpMac: 'aa:bb:cc:99:99:99' })).toMatchObject({
+      client: { id: 'tv' },
+      method: 'ip'
+    });
+    expect(__testing.matchExactClientIndexed(index, '10.0.0.50', {})).toBeNull();
+  });
+
   it('isAppBlockedByPolicy matches known service suffixes', () => {
     expect(__testing.isAppBlockedByPolicy('cdn.discordapp.com', ['discord'] as any)).toBe('discord');
     expect(__testing.isAppBlockedByPolicy('example.com', ['discord'] as any)).toBeNull();
@@ -178,7 +258,7 @@ describe('dnsServer logic', () => {
         { id: '', domain: 'nope.com', target: '1.1.1.1' }
       ]
     });
-    expect(rewrites).toEqual([{ id: '1', domain: 'example.com', target: '1.2.3.4', wildcard: false }]);
+    expect(rewrites).toEqual([{ id: '1', domain: 'example.com', records: [{ type: 'A', value: '1.2.3.4' }], wildcard: false }]);
   });
 
   it('buildLocalAnswerResponse returns A answer for IPv4 target', () => {
@@ -212,6 +292,33 @@ describe('dnsServer logic', () => {
     expect(dec.answers?.[0]?.data).toBe('alias.example');
   });
 
+  it('appendChasedAnswers adds the resolved CNAME target records', () => {
+    const query: any = {
+      type: 'query',
+      id: 7,
+      flags: dnsPacket.RECURSION_DESIRED,
+      questions: [{ type: 'A', name: 'www.google.com' }]
+    };
+    const local = __testing.buildLocalAnswerResponse(query, 'www.google.com', 'A', 'forcesafesearch.google.com') as Buffer;
+    const upstream = dnsPacket.encode({
+      type: 'response',
+      id: 0,
+      flags: dnsPacket.RECURSION_DESIRED,
+      questions: [{ type: 'A', name: 'forcesafesearch.google.com' }],
+      answers: [{ type: 'A', name: 'forcesafesearch.google.com', ttl: 300, data: '216.239.38.120' }]
+    } as any);
+
+    const dec: any = dnsPacket.decode(__testing.appendChasedAnswers(local, Buffer.from(upstream)));
+    expect(dec.id).toBe(7);
+    expect(dec.answers.map((a: any) => a.type)).toEqual(['CNAME', 'A']);
+    expect(__testing.extractAnswerIpsFromDnsResponse(__testing.appendChasedAnswers(local, Buffer.from(upstream)))).toEqual([
+      '216.239.38.120'
+    ]);
+
+    const nx = dnsPacket.encode({ type: 'response', id: 0, flags: 3, questions: [{ type: 'A', name: 'forcesafesearch.google.com' }] } as any);
+    expect(__testing.appendChasedAnswers(local, Buffer.from(nx))).toBe(local);
+  });
+
   it('extractAnswerIpsFromDnsResponse extracts and de-dupes A/AAAA', () => {
     const resp = dnsPacket.encode({
       type: 'response',
@@ -314,6 +421,51 @@ describe('dnsServer logic', () => {
     expect(__testing.isAppBlockedByPolicy('cdn.discordapp.com', [] as any)).toBeNull();
   });
 
+  // ── allowlist-only ───────────────────────────────────────────────────
+  it('ALLOW lists never block but admit domains for allowlist-only clients', () => {
+    const index = {
+      globalManualAllowed: new Set<string>(),
+      globalManualBlocked: new Set<string>(),
+      manualAllowedByClientId: new Map(),
+      manualBlockedByClientId: new Map(),
+      manualAllowedBySubnetId: new Map(),
+      manualBlockedBySubnetId: new Map(),
+      blockedByDomain: new Map<string, string | string[]>([
+        ['school.example', '2'],
+        ['ads.example', ['1', '3']]
+      ])
+    };
+    const blocklistsById = new Map([
+      ['1', { enabled: true, mode: 'ACTIVE', kind: 'BLOCK', name: 'Ads' }],
+      ['2', { enabled: true, mode: 'ACTIVE', kind: 'ALLOW', name: 'School' }],
+      ['3', { enabled: false, mode: 'ACTIVE', kind: 'ALLOW', name: 'Games' }]
+    ]);
+
+    expect(__testing.decideRuleIndexed(index as any, 'school.example', blocklistsById as any, new Set(['1', '2']))).toEqual({
+      decision: 'NONE'
+    });
+
+    const globalIds = __testing.selectAllowlistIds(null, blocklistsById as any);
+    expect([...globalIds]).toEqual(['2']);
+    const overrideIds = __testing.selectAllowlistIds({ id: 'c1', name: 'Tablet', assignedBlocklists: ['1', '3'] } as any, blocklistsById as any);
+    expect([...overrideIds]).toEqual(['3']);
+
+    const candidates = __testing.buildCandidateDomains('www.school.example');
+    expect(__testing.isAllowlisted(index as any, 'www.school.example', [], globalIds, candidates)).toBe(true);
+    expect(__testing.isAllowlisted(index as any, 'www.school.example', [], overrideIds, candidates)).toBe(false);
+    expect(__testing.isAllowlisted(index as any, 'ads.example', [], overrideIds, ['ads.example', 'example'])).toBe(true);
+    expect(__testing.isAllowlisted(index as any, 'cdn.discordapp.com', ['discord'] as any, new Set(), ['cdn.discordapp.com'])).toBe(true);
+  });
+
+  it('allowlistOnlyScope prefers the client profile or schedule over the subnet', () => {
+    const schedule = { id: 's1', allowlistOnly: true } as any;
+    expect(__testing.allowlistOnlyScope(null, null, [], [])).toBeNull();
+    expect(__testing.allowlistOnlyScope({ allowlistOnly: true } as any, { allowlistOnly: true } as any, [], [])).toBe('client');
+    expect(__testing.allowlistOnlyScope({} as any, null, [schedule], [])).toBe('client');
+    expect(__testing.allowlistOnlyScope({} as any, {} as any, [], [schedule])).toBe('subnet');
+    expect(__testing.allowlistOnlyScope(null, { allowlistOnly: false } as any, [], [])).toBeNull();
+  });
+
   // ── isTailscaleClientIp ──────────────────────────────────────────────
   it('isTailscaleClientIp detects Tailscale IPv4 range', () => {
     expect(__testing.isTailscaleClientIp('100.64.0.1')).toEqual({ isTailscale: true, version: 'v4' });
@@ -426,5 +578,46 @@ describe('dnsServer logic', () => {
       expect(__testing.dnsResponseCacheGet('a.com|A')).toEqual(buf1);
       expect(__testing.dnsResponseCacheGet('b.com|A')).toEqual(buf2);
     });
+
+    it('keeps expired entries for serve-stale until the stale window ends', () => {
+      vi.useFakeTimers();
+      try {
+        vi.setSystemTime(1_000_000);
+        const buf = Buffer.from('stale');
+        __testing.dnsResponseCacheSet('stale.com|A', buf, 1_000, 10_000);
+
+        vi.setSystemTime(1_002_000);
+        expect(__testing.dnsResponseCacheGet('stale.com|A')).toBeNull();
+        expect(__testing.dnsResponseCacheLookup('stale.com|A')).toMatchObject({ fresh: false, entry: { resp: buf } });
+
+        vi.setSystemTime(1_012_000);
+        expect(__testing.dnsResponseCacheLookup('stale.com|A')).toBeNull();
+        expect(__testing.dnsResponseCache.has('stale.com|A')).toBe(false);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('lists, searches and flushes entries by domain', () => {
+      __testing.dnsResponseCacheSet('example.com\0A', Buffer.from('a'), 60_000);
+      __testing.dnsResponseCacheSet('example.com\0AAAA', Buffer.from('aaaa'), 60_000);
+      __testing.dnsResponseCacheSet('www.example.com\0A\0udp:9.9.9.9:53', Buffer.from('www'), 60_000);
+      __testing.dnsResponseCacheSet('other.net\0A', Buffer.from('o'), 60_000);
+
+      const all = listDnsCacheEntries({ limit: 10 });
+      expect(all.total).toBe(4);
+      expect(all.items.find((i) => i.domain === 'www.example.com')).toMatchObject({ type: 'A', scope: 'udp:9.9.9.9:53', bytes: 3 });
+
+      const found = listDnsCacheEntries({ search: 'Example.COM', limit: 2 });
+      expect(found.total).toBe(3);
+      expect(found.items).toHaveLength(2);
+
+      expect(dnsCacheStats()).toMatchObject({ entries: 4, responseBytes: 9, staleEntries: 0 });
+      expect(flushDnsCache('EXAMPLE.com.')).toBe(2);
+      expect(listDnsCacheEntries({ limit: 10 }).items.map((i) => i.domain).sort()).toEqual(['other.net', 'www.example.com']);
+      expect(flushDnsCache('missing.org')).toBe(0);
+      expect(flushDnsCache()).toBe(2);
+      expect(dnsCacheStats().entries).toBe(0);
+    });
   });
 });
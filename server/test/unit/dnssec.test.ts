@@ -0,0 +1,125 @@
+import dnsPacket from 'dns-packet';
+import { describe, expect, it } from 'vitest';
+import {
+  adaptDnssecResponseForClient,
+  buildDnssecUpstreamQuery,
+  parseDnssecSettings,
+  readDnssecClientFlags,
+  readDnssecStatus
+} from '../../src/dns/dnssec.js';
+
+function encodeQuery(opts?: { edns?: boolean; dnssecOk?: boolean }): any {
+  const additionals: any[] = [];
+  if (opts?.edns) {
+    additionals.push({ type: 'OPT', name: '.', udpPayloadSize: 4096, flags: opts.dnssecOk ? dnsPacket.DNSSEC_OK : 0, options: [] });
+  }
+  const buf = dnsPacket.encode({
+    type: 'query',
+    id: 42,
+    flags: dnsPacket.RECURSION_DESIRED,
+    questions: [{ type: 'A', name: 'example.com' }],
+    additionals
+  } as any);
+  return dnsPacket.decode(buf);
+}
+
+function encodeSignedResponse(opts?: { ad?: boolean; rcode?: number; ede?: number }): Buffer {
+  const optOptions = typeof opts?.ede === 'number' ? [{ code: 15, data: Buffer.from([0, opts.ede]) }] : [];
+  const rcode = opts?.rcode ?? 0;
+  return dnsPacket.encode({
+    type: 'response',
+    id: 42,
+    flags: dnsPacket.RECURSION_DESIRED | dnsPacket.RECURSION_AVAILABLE | (opts?.ad ? dnsPacket.AUTHENTIC_DATA : 0) | rcode,
+    questions: [{ type: 'A', name: 'example.com' }],
+    answers:
+      rcode === 0
+        ? [
+            { type: 'A', name: 'example.com', ttl: 300, data: '93.184.216.34' },
+            {
+              type: 'RRSIG',
+              name: 'example.com',
+              ttl: 300,
+              data: {
+                typeCovered: 'A',
+                algorithm: 13,
+                labels: 2,
+                originalTTL: 300,
+                expiration: 1900000000,
+                inception: 1700000000,
+                keyTag: 12345,
+                signersName: 'example.com',
+                signature: Buffer.alloc(64, 1)
+              }
+            }
+          ]
+        : [],
+    additionals: [{ type: 'OPT', name: '.', udpPayloadSize: 1232, flags: dnsPacket.DNSSEC_OK, options: optOptions }]
+  } as any);
+}
+
+describe('dnssec helpers', () => {
+  it('parseDnssecSettings defaults to disabled + SERVFAIL on bogus', () => {
+    expect(parseDnssecSettings(undefined)).toEqual({ enabled: false, servfailOnBogus: true });
+    expect(parseDnssecSettings({ enabled: true, servfailOnBogus: 'no' })).toEqual({ enabled: true, servfailOnBogus: true });
+  });
+
+  it('buildDnssecUpstreamQuery adds an OPT record with DO and sets AD/CD', () => {
+    const query = encodeQuery();
+    const out: any = dnsPacket.decode(buildDnssecUpstreamQuery(query, { checkingDisabled: true }));
+    const opt = out.additionals.find((r: any) => r.type === 'OPT');
+    expect(opt.flag_do).toBe(true);
+    expect(out.flag_ad).toBe(true);
+    expect(out.flag_cd).toBe(true);
+    expect(out.id).toBe(42);
+    expect(out.questions[0].name).toBe('example.com');
+
+    // Existing OPT (e.g. with a larger payload size) is kept, only DO is added.
+    const withOpt: any = dnsPacket.decode(buildDnssecUpstreamQuery(encodeQuery({ edns: true })));
+    const opts = withOpt.additionals.filter((r: any) => r.type === 'OPT');
+    expect(opts).toHaveLength(1);
+    expect(opts[0].udpPayloadSize).toBe(4096);
+    expect(opts[0].flag_do).toBe(true);
+  });
+
+  it('readDnssecStatus maps AD/EDE/rcode to secure/insecure/bogus', () => {
+    expect(readDnssecStatus(encodeSignedResponse({ ad: true }))).toBe('secure');
+    expect(readDnssecStatus(encodeSignedResponse({ ad: false }))).toBe('insecure');
+    expect(readDnssecStatus(encodeSignedResponse({ rcode: 2, ede: 6 }))).toBe('bogus');
+    expect(readDnssecStatus(encodeSignedResponse({ rcode: 2 }))).toBeNull();
+    expect(readDnssecStatus(Buffer.from([1, 2, 3]))).toBeNull();
+  });
+
+  it('adaptDnssecResponseForClient strips DNSSEC records for clients without DO', () => {
+    const resp = encodeSignedResponse({ ad: true });
+
+    const plain: any = dnsPacket.decode(adaptDnssecResponseForClient(resp, readDnssecClientFlags(encodeQuery())));
+    expect(plain.answers.map((a: any) => a.type)).toEqual(['A']);
+    expect(plain.additionals).toHaveLength(0);
+    expect(plain.flag_ad).toBe(false);
+
+    const edns: any = dnsPacket.decode(adaptDnssecResponseForClient(resp, readDnssecClientFlags(encodeQuery({ edns: true }))));
+    expect(edns.answers.map((a: any) => a.type)).toEqual(['A']);
+    expect(edns.additionals[0].flag_do).toBe(false);
+
+    // DO clients get the upstream answer untouched.
+    const doClient = readDnssecClientFlags(encodeQuery({ edns: true, dnssecOk: true }));
+    expect(adaptDnssecResponseForClient(resp, doClient)).toBe(resp);
+  });
+
+  it('adaptDnssecResponseForClient returns the upstream buffer when nothing needs stripping', () => {
+    const unsigned = dnsPacket.encode({
+      type: 'response',
+      id: 7,
+      flags: dnsPacket.RECURSION_DESIRED | dnsPacket.RECURSION_AVAILABLE,
+      questions: [{ type: 'A', name: 'example.com' }],
+      answers: [{ type: 'A', name: 'example.com', ttl: 60, data: '93.184.216.34' }]
+    } as any);
+    expect(adaptDnssecResponseForClient(unsigned, readDnssecClientFlags(encodeQuery()))).toBe(unsigned);
+
+    // AD is kept for clients that set AD themselves, so an unsigned AD answer also passes through.
+    const adClient = { ...readDnssecClientFlags(encodeQuery()), wantsAd: true };
+    const ad = dnsPacket.encode({ ...(dnsPacket.decode(unsigned) as any), flags: dnsPacket.AUTHENTIC_DATA } as any);
+    expect(adaptDnssecResponseForClient(ad, adClient)).toBe(ad);
+    expect(adaptDnssecResponseForClient(ad, readDnssecClientFlags(encodeQuery()))).not.toBe(ad);
+  });
+});
@@ -0,0 +1,102 @@
+import Fastify from 'fastify';
+import rateLimit from 'fastify-rate-limit';
+import dnsPacket from 'dns-packet';
+import { describe, expect, it, vi } from 'vitest';
+
+function buildQuery(name: string): Buffer {
+  return dnsPacket.encode({
+    type: 'query',
+    id: 0,
+    flags: dnsPacket.RECURSION_DESIRED,
+    questions: [{ type: 'A', name }]
+  } as any);
+}
+
+function buildAnswer(query: Buffer, ttl: number): Buffer {
+  const decoded: any = dnsPacket.decode(query);
+  return dnsPacket.encode({
+    type: 'response',
+    id: decoded.id,
+    flags: dnsPacket.RECURSION_DESIRED | dnsPacket.RECURSION_AVAILABLE,
+    questions: decoded.questions,
+    answers: [{ type: 'A', name: decoded.questions[0].name, ttl, data: '192.0.2.1' }]
+  } as any);
+}
+
+async function setup(resolveImpl: (msg: Buffer, ip: string, ctx: any) => Promise<Buffer>) {
+  vi.resetModules();
+
+  const resolveDnsMessage = vi.fn(resolveImpl);
+  vi.doMock('../../src/dns/dnsServer.js', async (importOriginal) => {
+    const actual: any = await importOriginal();
+    return { ...actual, resolveDnsMessage };
+  });
+
+  const { registerDohRoutes } = await import('../../src/routes/doh.js');
+
+  const app = Fastify({ logger: false });
+  await app.register(rateLimit, { global: false });
+  await registerDohRoutes(app, {} as any, {} as any);
+  await app.ready();
+
+  return { app, resolveDnsMessage };
+}
+
+describe('unit: DNS-over-HTTPS route', () => {
+  it('answers GET ?dns= queries with application/dns-message', async () => {
+    const { app, resolveDnsMessage } = await setup(async (msg) => buildAnswer(msg, 120));
+    const query = buildQuery('example.com');
+
+    const res = await app.inject({ method: 'GET', url: `/dns-query?dns=${query.toString('base64url')}` });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['content-type']).toBe('application/dns-message');
+    expect(res.headers['cache-control']).toBe('max-age=120');
+    const decoded: any = dnsPacket.decode(res.rawPayload);
+    expect(decoded.answers[0].data).toBe('192.0.2.1');
+
+    expect(resolveDnsMessage).toHaveBeenCalledTimes(1);
+    const [msg, , ctx] = resolveDnsMessage.mock.calls[0];
+    expect(Buffer.compare(msg, query)).toBe(0);
+    expect(ctx).toEqual({ transport: 'doh', clientId: undefined });
+
+    await app.close();
+  });
+
+  it('answers POST application/dns-message and passes the path client id', async () => {
+    const { app, resolveDnsMessage } = await setup(async (msg) => buildAnswer(msg, 30));
+
+    const res = await app.inject({
+      method: 'POST',
+      url: '/dns-query/laptop-1',
+      headers: { 'content-type': 'application/dns-message' },
+      payload: buildQuery('example.org')
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(resolveDnsMessage.mock.calls[0][2]).toEqual({ transport: 'doh', clientId: 'laptop-1' });
+
+    await app.close();
+  });
+
+  it('rejects malformed queries and reports a stopped DNS server', async () => {
+    const { app } = await setup(async () => {
+      throw new Error('DNS_NOT_RUNNING');
+    });
+
+    const bad = await app.inject({ method: 'GET', url: '/dns-query?dns=not*base64' });
+    expect(bad.statusCode).toBe(400);
+
+    const missing = await app.inject({ method: 'GET', url: '/dns-query' });
+    expect(missing.statusCode).toBe(400);
+
+    const stopped = await app.inject({
+      method: 'GET',
+      url: `/dns-query?dns=${buildQuery('example.com').toString('base64url')}`
+    });
+    expect(stopped.statusCode).toBe(503);
+    expect(stopped.json()).toMatchObject({ error: 'DNS_NOT_RUNNING' });
+
+    await app.close();
+  });
+});
@@ -0,0 +1,62 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { X509Certificate } from 'node:crypto';
+import { execFileSync } from 'node:child_process';
+import { afterEach, describe, expect, it } from 'vitest';
+import { extractClientIdFromSni, loadOrCreateDotCertificate, resolveDotCertificatePaths } from '../../src/dns/dotTls.js';
+
+function hasOpenssl(): boolean {
+  try {
+    execFileSync('openssl', ['version'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('DoT certificate + SNI helpers', () => {
+  const tmpDirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of tmpDirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('extractClientIdFromSni maps <token>.<serverName> to the DoH/DoT token', () => {
+    const token = '0123456789abcdef0123456789abcdef';
+    expect(extractClientIdFromSni(`${token}.dns.example.com`, 'dns.example.com')).toBe(token);
+    expect(extractClientIdFromSni(`${token.toUpperCase()}.DNS.example.com.`, 'dns.example.com')).toBe(token);
+    // Profile ids and other labels cannot select a profile.
+    expect(extractClientIdFromSni('c-1712345678901.dns.example.com', 'dns.example.com')).toBeUndefined();
+    expect(extractClientIdFromSni('laptop-1.dns.example.com', 'dns.example.com')).toBeUndefined();
+    expect(extractClientIdFromSni('dns.example.com', 'dns.example.com')).toBeUndefined();
+    expect(extractClientIdFromSni(`a.${token}.dns.example.com`, 'dns.example.com')).toBeUndefined();
+    expect(extractClientIdFromSni(`${token}.other.example.com`, 'dns.example.com')).toBeUndefined();
+    expect(extractClientIdFromSni(`${token}.dns.example.com`, '')).toBeUndefined();
+    expect(extractClientIdFromSni(false, 'dns.example.com')).toBeUndefined();
+  });
+
+  it('resolveDotCertificatePaths prefers configured paths and falls back to DATA_DIR', () => {
+    expect(
+      resolveDotCertificatePaths({ DATA_DIR: '/data', DNS_TLS_CERT_PATH: '/certs/c.pem', DNS_TLS_KEY_PATH: '/certs/k.pem' } as any)
+    ).toEqual({ certPath: '/certs/c.pem', keyPath: '/certs/k.pem', selfSigned: false });
+
+    const fallback = resolveDotCertificatePaths({ DATA_DIR: '/data', DNS_TLS_CERT_PATH: '/certs/c.pem' } as any);
+    expect(fallback.selfSigned).toBe(true);
+    expect(fallback.certPath).toBe(path.join('/data', 'sentinel', 'tls', 'dot-selfsigned.crt'));
+  });
+
+  it.skipIf(!hasOpenssl())('generates a self-signed certificate once and reuses it', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-dot-'));
+    tmpDirs.push(dataDir);
+    const config = { DATA_DIR: dataDir, DNS_TLS_SERVER_NAME: 'dns.example.com' } as any;
+
+    const first = await loadOrCreateDotCertificate(config);
+    expect(first.selfSigned).toBe(true);
+    const x509 = new X509Certificate(first.cert);
+    expect(x509.subjectAltName).toContain('DNS:*.dns.example.com');
+
+    const second = await loadOrCreateDotCertificate(config);
+    expect(second.cert.equals(first.cert)).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+import dnsPacket from 'dns-packet';
+import { describe, expect, it } from 'vitest';
+
+import {
+  applyEcsPolicy,
+  fitUdpResponse,
+  isTruncatedResponse,
+  parseEcsSettings,
+  publicEcsSubnet,
+  readClientUdpPayloadSize,
+  stripEcsFromResponse
+} from '../../src/dns/edns.js';
+
+function buildQuery(opts?: { udpPayloadSize?: number; ecs?: string }): any {
+  const additionals =
+    opts?.udpPayloadSize !== undefined
+      ? [
+          {
+            type: 'OPT',
+            name: '.',
+            udpPayloadSize: opts.udpPayloadSize,
+            flags: 0,
+            options: opts.ecs
+              ? [{ code: 'CLIENT_SUBNET', family: 1, sourcePrefixLength: 24, scopePrefixLength: 0, ip: opts.ecs }]
+              : []
+          }
+        ]
+      : [];
+  return dnsPacket.decode(
+    dnsPacket.encode({
+      type: 'query',
+      id: 7,
+      flags: dnsPacket.RECURSION_DESIRED,
+      questions: [{ type: 'A', name: 'example.com', class: 'IN' }],
+      additionals
+    } as any)
+  );
+}
+
+function ecsOptions(packet: any): any[] {
+  const opt = (packet.additionals ?? []).find((r: any) => r.type === 'OPT');
+  return (opt?.options ?? []).filter((o: any) => o.code === 8);
+}
+
+function buildLargeResponse(query: any, count: number): Buffer {
+  return dnsPacket.encode({
+    type: 'response',
+    id: query.id,
+    flags: dnsPacket.RECURSION_DESIRED | dnsPacket.RECURSION_AVAILABLE,
+    questions: query.questions,
+    answers: Array.from({ length: count }, (_, i) => ({
+      type: 'TXT',
+      name: 'example.com',
+      ttl: 60,
+      data: `record-${i}-${'x'.repeat(40)}`
+    })),
+    additionals: query.additionals
+  } as any);
+}
+
+describe('unit: edns', () => {
+  it('parses ECS settings with a privacy-preserving default', () => {
+    expect(parseEcsSettings(undefined)).toEqual({ mode: 'strip' });
+    expect(parseEcsSettings({ mode: 'synthesize' })).toEqual({ mode: 'synthesize' });
+    expect(parseEcsSettings({ mode: 'leak' })).toEqual({ mode: 'strip' });
+    expect(parseEcsSettings({ mode: 'synthesize', fallbackSubnet: '81.2.69.77' })).toEqual({ mode: 'synthesize', fallbackSubnet: '81.2.69.0/24' });
+    expect(parseEcsSettings({ mode: 'synthesize', fallbackSubnet: '81.2.64.0/20' })).toEqual({ mode: 'synthesize', fallbackSubnet: '81.2.64.0/20' });
+    expect(parseEcsSettings({ mode: 'synthesize', fallbackSubnet: '192.168.1.0/24' })).toEqual({ mode: 'synthesize' });
+    expect(parseEcsSettings({ mode: 'synthesize', fallbackSubnet: 'wan' })).toEqual({ mode: 'synthesize' });
+  });
+
+  it('truncates public client addresses to /24 and /56 and skips private ones', () => {
+    expect(publicEcsSubnet('93.184.216.34')).toEqual({ family: 1, ip: '93.184.216.0', prefix: 24 });
+    expect(publicEcsSubnet('::ffff:1.1.1.9')).toEqual({ family: 1, ip: '1.1.1.0', prefix: 24 });
+    expect(publicEcsSubnet('2a00:1450:4001:82b::200e')).toEqual({ family: 2, ip: '2a00:1450:4001:800::', prefix: 56 });
+    expect(publicEcsSubnet('192.168.1.20')).toBeNull();
+    expect(publicEcsSubnet('fd00::1')).toBeNull();
+  });
+
+  it('strips, passes or synthesizes the client subnet', () => {
+    const withEcs = buildQuery({ udpPayloadSize: 1232, ecs: '198.51.100.0' });
+
+    const stripped = applyEcsPolicy(withEcs, { mode: 'strip' }, '93.184.216.34');
+    expect(stripped.decision).toEqual({ action: 'stripped', subnet: '198.51.100.0/24' });
+    expect(ecsOptions(stripped.query)).toHaveLength(0);
+
+    const passed = applyEcsPolicy(withEcs, { mode: 'pass' }, '93.184.216.34');
+    expect(passed).toMatchObject({ changed: false, decision: { action: 'passed', subnet: '198.51.100.0/24' } });
+
+    const synthesized = applyEcsPolicy(buildQuery(), { mode: 'synthesize' }, '93.184.216.34');
+    expect(synthesized.decision).toEqual({ action: 'synthesized', subnet: '93.184.216.0/24' });
+    const reencoded: any = dnsPacket.decode(dnsPacket.encode({ ...synthesized.query, type: 'query' }));
+    expect(ecsOptions(reencoded)[0]).toMatchObject({ ip: '93.184.216.0', sourcePrefixLength: 24 });
+
+    // Private clients have no public subnet to send; their own option is still removed and the reason logged.
+    expect(applyEcsPolicy(withEcs, { mode: 'synthesize' }, '192.168.1.20').decision).toEqual({
+      action: 'stripped',
+      subnet: '198.51.100.0/24',
+      reason: 'non-public-client'
+    });
+    expect(applyEcsPolicy(buildQuery(), { mode: 'synthesize' }, '192.168.1.20')).toMatchObject({
+      changed: false,
+      decision: { action: 'stripped', reason: 'non-public-client' }
+    });
+
+    // With a fallback subnet (e.g. the WAN /24) LAN clients get that instead.
+    const fallback = applyEcsPolicy(buildQuery(), { mode: 'synthesize', fallbackSubnet: '81.2.69.0/24' }, '192.168.1.20');
+    expect(fallback.decision).toEqual({ action: 'synthesized', subnet: '81.2.69.0/24' });
+    expect(ecsOptions(dnsPacket.decode(dnsPacket.encode({ ...fallback.query, type: 'query' })))[0]).toMatchObject({ ip: '81.2.69.0', sourcePrefixLength: 24 });
+    // Public clients still send their own subnet.
+    expect(applyEcsPolicy(buildQuery(), { mode: 'synthesize', fallbackSubnet: '81.2.69.0/24' }, '93.184.216.34').decision.subnet).toBe('93.184.216.0/24');
+    expect(applyEcsPolicy(buildQuery(), { mode: 'strip' }, '93.184.216.34')).toMatchObject({ changed: false, decision: { action: 'none' } });
+  });
+
+  it('removes an echoed ECS option from responses', () => {
+    const query = buildQuery({ udpPayloadSize: 1232, ecs: '203.0.113.0' });
+    const resp = buildLargeResponse(query, 1);
+    expect(ecsOptions(dnsPacket.decode(resp))).toHaveLength(1);
+    expect(ecsOptions(dnsPacket.decode(stripEcsFromResponse(resp)))).toHaveLength(0);
+  });
+
+  it('honors the client payload size and sets TC on oversized UDP answers', () => {
+    expect(readClientUdpPayloadSize(buildQuery())).toBe(512);
+    expect(readClientUdpPayloadSize(buildQuery({ udpPayloadSize: 4096 }))).toBe(1232);
+    expect(readClientUdpPayloadSize(buildQuery({ udpPayloadSize: 100 }))).toBe(512);
+
+    const classic = buildQuery();
+    const classicMsg = dnsPacket.encode(classic);
+    const large = buildLargeResponse(classic, 15);
+    expect(large.length).toBeGreaterThan(512);
+
+    const fitted = fitUdpResponse(classicMsg, large);
+    expect(fitted.truncated).toBe(true);
+    expect(isTruncatedResponse(fitted.resp)).toBe(true);
+    const decoded: any = dnsPacket.decode(fitted.resp);
+    expect(decoded.id).toBe(7);
+    expect(decoded.answers).toHaveLength(0);
+    expect(decoded.questions[0].name).toBe('example.com');
+
+    // The same answer fits an EDNS client with a 1232-byte buffer.
+    const edns = buildQuery({ udpPayloadSize: 1232 });
+    expect(fitUdpResponse(dnsPacket.encode(edns), buildLargeResponse(edns, 15)).truncated).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildLocalHostRecords,
+  isInLocalDomain,
+  normalizeLocalDomain,
+  parseLocalDomainSettings,
+  profileHostCandidates
+} from '../../src/dns/localHosts.js';
+
+describe('unit: local domain hosts', () => {
+  it('normalizes the zone and rejects mDNS names', () => {
+    expect(normalizeLocalDomain(' Home.Arpa. ')).toBe('home.arpa');
+    expect(normalizeLocalDomain('lan')).toBe('lan');
+    expect(normalizeLocalDomain('local')).toBeNull();
+    expect(normalizeLocalDomain('office.local')).toBeNull();
+    expect(normalizeLocalDomain('bad domain')).toBeNull();
+    expect(parseLocalDomainSettings({ enabled: true, domain: '???', fromDiscovery: false })).toEqual({
+      enabled: true,
+      domain: 'home.arpa',
+      fromProfiles: true,
+      fromDiscovery: false
+    });
+    expect(isInLocalDomain('nas.home.arpa', 'home.arpa')).toBe(true);
+    expect(isInLocalDomain('home.arpa', 'home.arpa')).toBe(true);
+    expect(isInLocalDomain('myhome.arpa', 'home.arpa')).toBe(false);
+  });
+
+  it('names profiles with a fixed IP', () => {
+    expect(
+      profileHostCandidates([
+        { id: 'p1', name: "Kid's iPad", type: 'tablet', ip: '192.168.1.20' },
+        { id: 'p2', name: 'Phone', type: 'smartphone', mac: 'aa:bb:cc:00:11:22' },
+        { id: 'p3', name: 'Guests', type: 'subnet', cidr: '192.168.2.0/24' },
+        { id: 'p4', name: 'Server', type: 'other', ip: 'fd00::10' }
+      ])
+    ).toEqual([
+      { hostname: "Kid's iPad", ip: '192.168.1.20', source: 'profile', profileId: 'p1' },
+      { hostname: 'Server', ip: 'fd00::10', source: 'profile', profileId: 'p4' }
+    ]);
+  });
+
+  it('keeps the first claim per name and address family', () => {
+    const { records, conflicts } = buildLocalHostRecords(
+      'home.arpa',
+      [
+        { hostname: 'NAS', ip: '192.168.1.10', source: 'profile', profileId: 'p1' },
+        { hostname: 'nas.local', ip: '192.168.1.10', source: 'mdns' },
+        { hostname: 'nas.local', ip: 'fd00::10', source: 'mdns' },
+        { hostname: 'nas', ip: '192.168.1.77', source: 'lease' },
+        { hostname: '***', ip: '192.168.1.99', source: 'lease' }
+      ],
+      []
+    );
+    expect(records).toEqual([
+      { name: 'nas.home.arpa', ip: '192.168.1.10', source: 'profile', profileId: 'p1' },
+      { name: 'nas.home.arpa', ip: 'fd00::10', source: 'mdns' }
+    ]);
+    expect(conflicts).toEqual([
+      {
+        name: 'nas.home.arpa',
+        ip: '192.168.1.77',
+        source: 'lease',
+        reason: 'DUPLICATE',
+        winner: { ip: '192.168.1.10', source: 'profile', profileId: 'p1' }
+      }
+    ]);
+  });
+
+  it('leaves names to explicit rewrites and reports different addresses', () => {
+    const { records, conflicts } = buildLocalHostRecords(
+      'home.arpa',
+      [
+        { hostname: 'printer', ip: '192.168.1.30', source: 'dhcp' },
+        { hostname: 'tv', ip: '192.168.1.40', source: 'dhcp' },
+        { hostname: 'laptop', ip: '192.168.1.50', source: 'dhcp' }
+      ],
+      [
+        { id: 'r1', domain: 'printer.home.arpa', addresses: ['192.168.1.30'] },
+        { id: 'r2', domain: 'tv.home.arpa', addresses: ['192.168.1.41'] }
+      ]
+    );
+    expect(records).toEqual([{ name: 'laptop.home.arpa', ip: '192.168.1.50', source: 'dhcp' }]);
+    expect(conflicts).toEqual([{ name: 'tv.home.arpa', ip: '192.168.1.40', source: 'dhcp', reason: 'REWRITE', rewriteId: 'r2' }]);
+  });
+});
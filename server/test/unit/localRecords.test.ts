@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import dnsPacket from 'dns-packet';
+
+import {
+  buildLocalRecordsResponse,
+  hasCnameConflict,
+  parseLocalRecord,
+  readLocalRecords,
+  reverseNameForIp,
+  type LocalRecord
+} from '../../src/dns/localRecords.js';
+
+function query(type: string, name = 'nas.home.lan'): any {
+  return { type: 'query', id: 42, flags: dnsPacket.RECURSION_DESIRED, questions: [{ type, name }] };
+}
+
+function answer(records: LocalRecord[], qtype: string): any {
+  return dnsPacket.decode(buildLocalRecordsResponse(query(qtype), 'nas.home.lan', qtype, records));
+}
+
+describe('unit: local records', () => {
+  it('validates records per type', () => {
+    expect(parseLocalRecord({ type: 'a', value: ' 10.0.0.2 ', ttl: 300 })).toEqual({ type: 'A', value: '10.0.0.2', ttl: 300 });
+    expect(parseLocalRecord({ type: 'A', value: 'fd00::1' })).toBeNull();
+    expect(parseLocalRecord({ type: 'MX', value: 'Mail.Home.Lan.' })).toEqual({ type: 'MX', value: 'mail.home.lan', priority: 10 });
+    expect(parseLocalRecord({ type: 'SRV', value: 'nas.home.lan', priority: 1 })).toBeNull();
+    expect(parseLocalRecord({ type: 'CAA', value: 'letsencrypt.org', tag: 'issue' })).toEqual({
+      type: 'CAA',
+      value: 'letsencrypt.org',
+      tag: 'issue',
+      flags: 0
+    });
+    expect(parseLocalRecord({ type: 'A', value: '10.0.0.2', ttl: -1 })).toBeNull();
+    expect(parseLocalRecord({ type: 'NS', value: 'ns1.home.lan' })).toBeNull();
+  });
+
+  it('reads legacy single-target entries', () => {
+    expect(readLocalRecords({ target: '10.0.0.2' })).toEqual([{ type: 'A', value: '10.0.0.2' }]);
+    expect(readLocalRecords({ target: 'fd00::2' })).toEqual([{ type: 'AAAA', value: 'fd00::2' }]);
+    expect(readLocalRecords({ target: 'Alias.Example.' })).toEqual([{ type: 'CNAME', value: 'alias.example' }]);
+    expect(hasCnameConflict([{ type: 'CNAME', value: 'a.example' }, { type: 'TXT', value: 'x' }])).toBe(true);
+  });
+
+  it('answers every matching record with its TTL and NODATA otherwise', () => {
+    const records: LocalRecord[] = [
+      { type: 'A', value: '10.0.0.2', ttl: 300 },
+      { type: 'A', value: '10.0.0.3' },
+      { type: 'MX', value: 'mail.home.lan', priority: 5 },
+      { type: 'TXT', value: 'x'.repeat(300) },
+      { type: 'SRV', value: 'nas.home.lan', priority: 0, weight: 5, port: 445 },
+      { type: 'CAA', value: 'letsencrypt.org', tag: 'issue', flags: 0 }
+    ];
+
+    const a = answer(records, 'A');
+    expect(a.id).toBe(42);
+    expect(a.answers.map((r: any) => [r.data, r.ttl])).toEqual([
+      ['10.0.0.2', 300],
+      ['10.0.0.3', 60]
+    ]);
+
+    expect(answer(records, 'MX').answers[0].data).toEqual({ preference: 5, exchange: 'mail.home.lan' });
+    expect(answer(records, 'TXT').answers[0].data.map((b: Buffer) => b.length)).toEqual([255, 45]);
+    expect(answer(records, 'SRV').answers[0].data).toMatchObject({ port: 445, weight: 5, target: 'nas.home.lan' });
+    expect(answer(records, 'CAA').answers[0].data).toMatchObject({ tag: 'issue', value: 'letsencrypt.org' });
+    expect(answer(records, 'ANY').answers).toHaveLength(records.length);
+
+    const nodata = answer(records, 'AAAA');
+    expect(nodata.rcode).toBe('NOERROR');
+    expect(nodata.answers).toEqual([]);
+
+    // A CNAME answers every type.
+    expect(answer([{ type: 'CNAME', value: 'nas.example' }], 'TXT').answers[0]).toMatchObject({ type: 'CNAME', data: 'nas.example' });
+  });
+
+  it('splits long TXT values on UTF-8 byte boundaries', () => {
+    // 200 × 'é' (2 bytes) + 100 × '€' (3 bytes) = 700 bytes, but only 300 UTF-16 units.
+    const value = 'é'.repeat(200) + '€'.repeat(100);
+    const data: Buffer[] = answer([{ type: 'TXT', value }], 'TXT').answers[0].data;
+    expect(data.every((b) => b.length <= 255)).toBe(true);
+    expect(data.map((b) => b.length)).toEqual([254, 254, 192]);
+    // Every chunk is valid UTF-8 on its own and they join back to the original value.
+    expect(data.map((b) => new TextDecoder('utf-8', { fatal: true }).decode(b)).join('')).toBe(value);
+  });
+
+  it('builds reverse names for auto PTR records', () => {
+    expect(reverseNameForIp('192.168.1.10')).toBe('10.1.168.192.in-addr.arpa');
+    expect(reverseNameForIp('2001:db8::1')).toBe(
+      '1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa'
+    );
+    expect(reverseNameForIp('nas.home.lan')).toBeNull();
+  });
+});
@@ -30,8 +30,8 @@ function createMockDb() {
       }
 
       // Blocklists status
-      if (sql.trim() === 'SELECT id, enabled, mode, name FROM blocklists') {
-        return { rows: [{ id: 1, enabled: true, mode: 'ACTIVE', name: 'BL1' }] };
+      if (sql.trim() === 'SELECT id, enabled, mode, kind, name FROM blocklists') {
+        return { rows: [{ id: 1, enabled: true, mode: 'ACTIVE', kind: 'BLOCK', name: 'BL1' }] };
       }
 
       // Category/app URL resolution (we don't need any for this test)
@@ -50,8 +50,8 @@ function createMockDb() {
       }
 
       // Blocklist rules lookup
-      if (sql.includes('FROM rules') && sql.includes("type = 'BLOCKED'")) {
-        return { rows: [{ domain: 'example.com', category: 'Blocklist:1' }] };
+      if (sql.includes('FROM rules') && sql.includes('category = ANY($1::text[])')) {
+        return { rows: [{ domain: 'example.com', type: 'BLOCKED', category: 'Blocklist:1', options: null }] };
       }
 
       throw new Error(`Unexpected SQL in test mock: ${sql}`);
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createRateLimiter,
+  DEFAULT_RATE_LIMIT_SETTINGS,
+  parseRateLimitOverride,
+  parseRateLimitSettings,
+  pruneRateLimiter,
+  takeRateLimitToken
+} from '../../src/dns/rateLimit.js';
+
+const client = { clientIp: '192.168.1.50', clientId: 'c1', clientName: 'Laptop' };
+
+describe('unit: dns rate limit', () => {
+  it('parses settings with safe defaults and keeps burst >= qps', () => {
+    expect(parseRateLimitSettings(undefined)).toEqual(DEFAULT_RATE_LIMIT_SETTINGS);
+    expect(parseRateLimitSettings({ enabled: true, qps: 20, burst: 5, action: 'DROP' })).toEqual({
+      enabled: true,
+      qps: 20,
+      burst: 20,
+      action: 'DROP'
+    });
+    expect(parseRateLimitSettings({ enabled: 'yes', qps: -1, action: 'TARPIT' })).toEqual(DEFAULT_RATE_LIMIT_SETTINGS);
+  });
+
+  it('only treats profiles with an explicit enabled flag as overrides', () => {
+    expect(parseRateLimitOverride(undefined)).toBeUndefined();
+    expect(parseRateLimitOverride({ qps: 10 })).toBeUndefined();
+    expect(parseRateLimitOverride({ enabled: false })).toMatchObject({ enabled: false });
+  });
+
+  it('allows the burst, then refills at qps', () => {
+    const limiter = createRateLimiter();
+    const settings = { enabled: true, qps: 2, burst: 3, action: 'REFUSED' } as const;
+    const take = (nowMs: number) => takeRateLimitToken(limiter, 'client:c1', settings, client, nowMs);
+
+    expect([take(0), take(0), take(0)].every((r) => r.allowed)).toBe(true);
+    expect(take(0)).toEqual({ allowed: false, startedThrottling: true });
+    // Still the same episode: no second notification.
+    expect(take(100)).toEqual({ allowed: false, startedThrottling: false });
+    // 500ms at 2 qps refills one token.
+    expect(take(600).allowed).toBe(true);
+    expect(take(600).allowed).toBe(false);
+    expect(limiter.buckets.get('client:c1')?.limited).toBe(3);
+  });
+
+  it('starts a new episode after a quiet period', () => {
+    const limiter = createRateLimiter();
+    const settings = { enabled: true, qps: 1, burst: 1, action: 'DROP' } as const;
+    const take = (nowMs: number) => takeRateLimitToken(limiter, 'ip:10.0.0.9', settings, client, nowMs);
+
+    take(0);
+    expect(take(0).startedThrottling).toBe(true);
+    // Refilled after 61s, then exceeded again.
+    take(61_000);
+    expect(take(61_000).startedThrottling).toBe(true);
+  });
+
+  it('reports throttled clients and prunes idle buckets', () => {
+    const limiter = createRateLimiter();
+    const settings = { enabled: true, qps: 1, burst: 1, action: 'REFUSED' } as const;
+    takeRateLimitToken(limiter, 'client:c1', settings, client, 0);
+    takeRateLimitToken(limiter, 'client:c1', settings, client, 0);
+    takeRateLimitToken(limiter, 'ip:10.0.0.2', settings, { clientIp: '10.0.0.2' }, 0);
+
+    const throttled = pruneRateLimiter(limiter, 1_000);
+    expect(throttled).toHaveLength(1);
+    expect(throttled[0]).toMatchObject({ key: 'client:c1', clientIp: '192.168.1.50', clientName: 'Laptop', limited: 1 });
+    expect(limiter.buckets.size).toBe(2);
+
+    expect(pruneRateLimiter(limiter, 120_000)).toEqual([]);
+    expect(limiter.buckets.size).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+import dnsPacket from 'dns-packet';
+import { describe, expect, it } from 'vitest';
+
+import {
+  clampCacheTtl,
+  DEFAULT_RESPONSE_CACHE_SETTINGS,
+  parseResponseCacheSettings,
+  shouldPrefetch,
+  withResponseTtl,
+  type DnsResponseCacheEntry
+} from '../../src/dns/responseCache.js';
+
+function entry(overrides: Partial<DnsResponseCacheEntry>): DnsResponseCacheEntry {
+  return { resp: Buffer.alloc(0), storedAt: 0, expiresAt: 100_000, staleUntil: 100_000, hits: 0, prefetching: false, ...overrides };
+}
+
+describe('unit: response cache policy', () => {
+  it('parses settings with defaults and keeps minTtl <= maxTtl', () => {
+    expect(parseResponseCacheSettings(undefined)).toEqual(DEFAULT_RESPONSE_CACHE_SETTINGS);
+    expect(parseResponseCacheSettings({ minTtl: 600, maxTtl: 120, serveStale: false, prefetch: false })).toMatchObject({
+      minTtl: 120,
+      maxTtl: 120,
+      serveStale: false,
+      prefetch: false
+    });
+    expect(parseResponseCacheSettings({ staleAnswerTtl: 0, staleMaxAge: -5 })).toMatchObject({ staleAnswerTtl: 1, staleMaxAge: 86400 });
+  });
+
+  it('clamps answer TTLs but never caches TTL 0 answers', () => {
+    const settings = { ...DEFAULT_RESPONSE_CACHE_SETTINGS, minTtl: 60, maxTtl: 3600 };
+    expect(clampCacheTtl(5, settings)).toBe(60);
+    expect(clampCacheTtl(7200, settings)).toBe(3600);
+    expect(clampCacheTtl(300, settings)).toBe(300);
+    expect(clampCacheTtl(0, settings)).toBe(0);
+  });
+
+  it('prefetches popular entries near the end of their lifetime', () => {
+    expect(shouldPrefetch(entry({ hits: 5 }), 50_000)).toBe(false);
+    expect(shouldPrefetch(entry({ hits: 5 }), 95_000)).toBe(true);
+    expect(shouldPrefetch(entry({ hits: 1 }), 95_000)).toBe(false);
+    expect(shouldPrefetch(entry({ hits: 5, prefetching: true }), 95_000)).toBe(false);
+  });
+
+  it('rewrites answer TTLs for stale answers', () => {
+    const resp = dnsPacket.encode({
+      type: 'response',
+      id: 1,
+      questions: [{ type: 'A', name: 'example.com', class: 'IN' }],
+      answers: [{ type: 'A', name: 'example.com', ttl: 3600, data: '93.184.216.34' }]
+    } as any);
+    const decoded: any = dnsPacket.decode(withResponseTtl(resp, 30));
+    expect(decoded.answers[0]).toMatchObject({ ttl: 30, data: '93.184.216.34' });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+
+import { compileRulePattern, matchRulePatterns, parseRulePattern, rulePatternKind } from '../../src/dns/rulePatterns.js';
+import { __testing } from '../../src/dns/dnsServer.js';
+
+describe('unit: rule patterns', () => {
+  it('classifies and normalizes rule values', () => {
+    expect(rulePatternKind('ads.example.com')).toBe('domain');
+    expect(rulePatternKind('ads*.example.com')).toBe('glob');
+    expect(rulePatternKind('/^ads\\d+\\./')).toBe('regex');
+    expect(rulePatternKind('/')).toBe('domain');
+
+    expect(parseRulePattern('Ads.Example.com')).toEqual({ kind: 'domain', pattern: 'Ads.Example.com' });
+    expect(parseRulePattern(' ADS**.Example.com. ')).toEqual({ kind: 'glob', pattern: 'ads*.example.com' });
+    expect(parseRulePattern('*.*')).toMatchObject({ error: 'INVALID_PATTERN' });
+    expect(parseRulePattern('ads*.exa mple.com')).toMatchObject({ error: 'INVALID_PATTERN' });
+    expect(parseRulePattern('/ads(/')).toMatchObject({ error: 'INVALID_PATTERN' });
+  });
+
+  it('rejects regexes that can backtrack badly', () => {
+    expect(parseRulePattern('/^(a+)+$/')).toMatchObject({ error: 'PATTERN_TOO_COMPLEX' });
+    expect(parseRulePattern('/^((ab)*c)+$/')).toMatchObject({ error: 'PATTERN_TOO_COMPLEX' });
+    expect(parseRulePattern('/(a)\\1/')).toMatchObject({ error: 'PATTERN_TOO_COMPLEX' });
+    expect(parseRulePattern('/a{1,1000}/')).toMatchObject({ error: 'PATTERN_TOO_COMPLEX' });
+    expect(parseRulePattern(`/${'a'.repeat(201)}/`)).toMatchObject({ error: 'PATTERN_TOO_COMPLEX' });
+    expect(parseRulePattern('/^[a-z0-9]{20}\\.(xyz|top)$/')).toEqual({ kind: 'regex', pattern: '/^[a-z0-9]{20}\\.(xyz|top)$/' });
+    expect(parseRulePattern('/^(ads|track)[0-9]*\\.example\\.com$/')).toMatchObject({ kind: 'regex' });
+    expect(parseRulePattern('/^(www\\.)?ads[0-9]+\\.example\\.com$/')).toMatchObject({ kind: 'regex' });
+    expect(parseRulePattern('/^ads.*\\.example\\.(com|net)$/')).toMatchObject({ kind: 'regex' });
+  });
+
+  it('rejects repeated alternation and chains of open-ended repetitions', () => {
+    for (const pattern of [
+      '/^(a|a)*$/',
+      '/^(\\w|\\d)+\\.com$/',
+      '/^(?:a|ab){2,5}$/',
+      '/^(.*)(.*)(.*)(.*)(.*)(.*)(.*)(.*)x$/',
+      '/^.*a.*a.*b$/',
+      '/.*ads.*/',
+      '/^.{0,60}.{0,60}.{0,60}.{0,60}x$/'
+    ]) {
+      expect(parseRulePattern(pattern), pattern).toMatchObject({ error: 'PATTERN_TOO_COMPLEX' });
+    }
+    expect(compileRulePattern('/^(a|a)*$/')).toBeNull();
+  });
+
+  it('matches many-star globs without backtracking', () => {
+    const glob = compileRulePattern('*a*a*a*a*a*a*b')!;
+    const started = Date.now();
+    expect(glob.test('a'.repeat(253))).toBe(false);
+    expect(Date.now() - started).toBeLessThan(100);
+    expect(glob.test('xaaaaaayb')).toBe(true);
+    expect(compileRulePattern('ads*')!.test('ads')).toBe(true);
+    expect(compileRulePattern('*.example.com')!.test('example.com')).toBe(false);
+  });
+
+  it('matches globs against the whole name and regexes case-insensitively', () => {
+    const glob = compileRulePattern('ads*.example.com')!;
+    const regex = compileRulePattern('/^TRACK[0-9]+\\./')!;
+    expect(compileRulePattern('example.com')).toBeNull();
+    expect(compileRulePattern('/(a+)+/')).toBeNull();
+
+    expect(matchRulePatterns([glob], 'ads1.cdn.example.com')?.pattern).toBe('ads*.example.com');
+    expect(matchRulePatterns([glob], 'ads.example.com.evil.test')).toBeNull();
+    expect(matchRulePatterns([glob], 'xads.example.com')).toBeNull();
+    expect(matchRulePatterns([glob, regex], 'track42.example.org')?.pattern).toBe('/^TRACK[0-9]+\\./');
+  });
+
+  it('decideManualRule: plain allows win, then pattern allows, then blocks', () => {
+    const { decideManualRule, manualRulePattern, buildCandidateDomains } = __testing;
+    const patterns = {
+      allowed: [compileRulePattern('good*.example.com')!],
+      blocked: [compileRulePattern('*.example.com')!]
+    };
+    const blocked = new Set(['bad.example.com']);
+
+    const goodCandidates = buildCandidateDomains('good1.example.com');
+    expect(decideManualRule(goodCandidates, undefined, blocked, patterns)).toBe('ALLOWED');
+    expect(manualRulePattern('ALLOWED', goodCandidates, undefined, blocked, patterns)).toBe('good*.example.com');
+
+    const badCandidates = buildCandidateDomains('bad.example.com');
+    expect(decideManualRule(badCandidates, undefined, blocked, patterns)).toBe('BLOCKED');
+    expect(manualRulePattern('BLOCKED', badCandidates, undefined, blocked, patterns)).toBeNull();
+
+    const otherCandidates = buildCandidateDomains('other.example.com');
+    expect(decideManualRule(otherCandidates, new Set(['example.com']), blocked, patterns)).toBe('ALLOWED');
+    expect(decideManualRule(otherCandidates, undefined, blocked, patterns)).toBe('BLOCKED');
+    expect(manualRulePattern('BLOCKED', otherCandidates, undefined, blocked, patterns)).toBe('*.example.com');
+    expect(decideManualRule(buildCandidateDomains('example.org'), undefined, blocked, patterns)).toBe('NONE');
+  });
+});
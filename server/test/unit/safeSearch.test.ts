@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  DEFAULT_SAFE_SEARCH_POLICY,
+  findSafeSearchRewrite,
+  mergeSafeSearchPolicies,
+  parseSafeSearchPolicy
+} from '../../src/dns/safeSearch.js';
+
+describe('unit: safe search', () => {
+  it('parses stored policies with safe defaults', () => {
+    expect(parseSafeSearchPolicy(undefined)).toEqual(DEFAULT_SAFE_SEARCH_POLICY);
+    expect(parseSafeSearchPolicy({ search: true, youtube: 'moderate' })).toEqual({ search: true, youtube: 'moderate' });
+    expect(parseSafeSearchPolicy({ search: 'yes', youtube: 'loose' })).toEqual({ search: false, youtube: 'off' });
+  });
+
+  it('rewrites search engine hosts only when search enforcement is on', () => {
+    const on = { search: true, youtube: 'off' } as const;
+    expect(findSafeSearchRewrite('www.google.com', on)).toEqual({ engine: 'google', target: 'forcesafesearch.google.com' });
+    expect(findSafeSearchRewrite('www.google.co.uk', on)?.target).toBe('forcesafesearch.google.com');
+    expect(findSafeSearchRewrite('www.bing.com', on)?.target).toBe('strict.bing.com');
+    expect(findSafeSearchRewrite('duckduckgo.com', on)?.target).toBe('safe.duckduckgo.com');
+    expect(findSafeSearchRewrite('yandex.ru', on)?.target).toBe('familysearch.yandex.ru');
+
+    // Other Google services and the enforced endpoints themselves are left alone.
+    expect(findSafeSearchRewrite('mail.google.com', on)).toBeNull();
+    expect(findSafeSearchRewrite('forcesafesearch.google.com', on)).toBeNull();
+    expect(findSafeSearchRewrite('www.youtube.com', on)).toBeNull();
+    expect(findSafeSearchRewrite('www.google.com', DEFAULT_SAFE_SEARCH_POLICY)).toBeNull();
+  });
+
+  it('maps YouTube hosts to the restricted endpoint for the mode', () => {
+    expect(findSafeSearchRewrite('m.youtube.com', { search: false, youtube: 'strict' })).toEqual({
+      engine: 'youtube',
+      target: 'restrict.youtube.com'
+    });
+    expect(findSafeSearchRewrite('youtubei.googleapis.com', { search: false, youtube: 'moderate' })?.target).toBe(
+      'restrictmoderate.youtube.com'
+    );
+  });
+
+  it('merges scopes so the strictest setting wins', () => {
+    expect(
+      mergeSafeSearchPolicies([
+        { search: false, youtube: 'moderate' },
+        { search: true, youtube: 'off' },
+        { search: false, youtube: 'strict' }
+      ])
+    ).toEqual({ search: true, youtube: 'strict' });
+    expect(mergeSafeSearchPolicies([])).toEqual(DEFAULT_SAFE_SEARCH_POLICY);
+  });
+});
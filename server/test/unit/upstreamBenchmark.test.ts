@@ -0,0 +1,95 @@
+import dnsPacket from 'dns-packet';
+import { describe, expect, it } from 'vitest';
+
+import { percentile, runUpstreamBenchmark, selectBenchmarkDomains, type BenchmarkForward } from '../../src/dns/upstreamBenchmark.js';
+import type { UpstreamTarget } from '../../src/dns/upstreamPool.js';
+
+const UDP: UpstreamTarget = { transport: 'udp', host: '192.0.2.1', port: 53 };
+const DOH: UpstreamTarget = { transport: 'doh', dohUrl: 'https://dns.example/dns-query' };
+
+// dns-packet only encodes the rcode from the low bits of `flags`.
+const SERVFAIL = 2;
+
+function reply(msg: Buffer, opts: { rcode?: number; ad?: boolean }): Buffer {
+  const q: any = dnsPacket.decode(msg);
+  return dnsPacket.encode({
+    type: 'response',
+    id: q.id,
+    flags: dnsPacket.RECURSION_AVAILABLE | (opts.ad ? dnsPacket.AUTHENTIC_DATA : 0) | (opts.rcode ?? 0),
+    questions: q.questions,
+    answers: []
+  } as any);
+}
+
+function questionName(msg: Buffer): string {
+  return (dnsPacket.decode(msg) as any).questions[0].name;
+}
+
+describe('unit: upstream benchmark', () => {
+  it('computes nearest-rank percentiles', () => {
+    expect(percentile([], 50)).toBeNull();
+    expect(percentile([5], 95)).toBe(5);
+    const values = Array.from({ length: 20 }, (_, i) => i + 1);
+    expect(percentile(values, 50)).toBe(10);
+    expect(percentile(values, 95)).toBe(19);
+    expect(percentile(values, 100)).toBe(20);
+  });
+
+  it('selects public, deduplicated names from the query log', () => {
+    expect(
+      selectBenchmarkDomains(['Example.com.', 'example.com', 'nas.lan', 'printer.local', 'localhost', '', null, 'a.org', 'b.org'], 2)
+    ).toEqual(['example.com', 'a.org']);
+  });
+
+  it('measures cold and warm lookups, failures and DNSSEC validation per candidate', async () => {
+    const seen: string[] = [];
+    const forward: BenchmarkForward = async (upstream, msg) => {
+      const name = questionName(msg);
+      if (upstream.transport === 'udp') {
+        seen.push(name);
+        if (name === 'broken.example') return reply(msg, { rcode: SERVFAIL });
+        if (name === 'dnssec-failed.org') return reply(msg, { rcode: SERVFAIL });
+        return reply(msg, { ad: name === 'isc.org' || name === 'signed.example' });
+      }
+      if (name === 'broken.example') throw new Error('timeout');
+      return reply(msg, {});
+    };
+
+    const [udp, doh] = await runUpstreamBenchmark(
+      [
+        { label: 'Validating', upstream: UDP },
+        { label: 'Plain DoH', upstream: DOH }
+      ],
+      ['signed.example', 'missing.example', 'broken.example'],
+      forward
+    );
+
+    // Each name is resolved twice (cold + warm).
+    expect(seen.filter((n) => n === 'signed.example')).toHaveLength(2);
+
+    expect(udp).toMatchObject({
+      label: 'Validating',
+      target: '192.0.2.1:53',
+      transport: 'udp',
+      queries: 6,
+      failures: 2,
+      secureAnswers: 2,
+      dnssec: 'validating'
+    });
+    expect(udp.failureRate).toBeCloseTo(2 / 6);
+    expect(udp.lastError).toContain('broken.example');
+    expect(udp.cold.p50).not.toBeNull();
+    expect(udp.warm.p95).not.toBeNull();
+
+    expect(doh).toMatchObject({ target: 'https://dns.example/dns-query', failures: 2, secureAnswers: 0, dnssec: 'not-validating' });
+    expect(doh.lastError).toBe('broken.example: timeout');
+  });
+
+  it('reports unknown DNSSEC support and empty latencies for an unreachable upstream', async () => {
+    const [res] = await runUpstreamBenchmark([{ label: 'Down', upstream: UDP }], ['a.example'], async () => {
+      throw new Error('ECONNREFUSED');
+    });
+    expect(res).toMatchObject({ queries: 2, failures: 2, failureRate: 1, dnssec: 'unknown' });
+    expect(res.cold).toEqual({ p50: null, p95: null, avg: null });
+  });
+});
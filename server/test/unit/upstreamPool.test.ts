@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createUpstreamPool,
+  forwardViaPool,
+  orderUpstreams,
+  parseUpstreamTarget,
+  type UpstreamTarget
+} from '../../src/dns/upstreamPool.js';
+
+const a: UpstreamTarget = { transport: 'udp', host: '192.0.2.1', port: 53 };
+const b: UpstreamTarget = { transport: 'dot', host: 'dns.example', port: 853 };
+const c: UpstreamTarget = { transport: 'doh', dohUrl: 'https://doh.example/dns-query' };
+
+function answerFrom(upstream: UpstreamTarget): Buffer {
+  return Buffer.from(upstream.transport);
+}
+
+describe('unit: upstream pool', () => {
+  it('parses stored upstream entries', () => {
+    expect(parseUpstreamTarget({ transport: 'dot', host: ' dns.example ', port: 853 })).toEqual(b);
+    expect(parseUpstreamTarget({ transport: 'doh', dohUrl: '' })).toBeNull();
+    expect(parseUpstreamTarget({ host: '192.0.2.1' })).toBeNull();
+  });
+
+  it('fails over in order and marks repeatedly failing upstreams down', async () => {
+    let t = 1000;
+    const pool = createUpstreamPool([a, b], 'failover');
+    const forward = async (u: UpstreamTarget) => {
+      if (u === a) throw Object.assign(new Error('timeout'), { code: 'ETIMEDOUT' });
+      return answerFrom(u);
+    };
+
+    for (let i = 0; i < 3; i++) {
+      const res = await forwardViaPool(pool, forward, () => t);
+      expect(res.upstream).toBe(b);
+    }
+
+    expect(pool.health[0]).toMatchObject({ healthy: false, consecutiveFailures: 3, failures: 3 });
+    expect(pool.health[0].lastError).toMatchObject({ code: 'ETIMEDOUT', message: 'timeout' });
+    expect(pool.health[1]).toMatchObject({ healthy: true, successes: 3 });
+
+    // While cooling down the failed upstream is tried last; afterwards it is probed first again.
+    expect(orderUpstreams(pool, t)).toEqual([1, 0]);
+    t += 60_000;
+    expect(orderUpstreams(pool, t)).toEqual([0, 1]);
+  });
+
+  it('rotates round-robin and prefers the lowest EWMA latency for fastest', async () => {
+    const rr = createUpstreamPool([a, b, c], 'round-robin');
+    const seen: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      const res = await forwardViaPool(rr, async (u) => answerFrom(u));
+      seen.push(res.upstream.transport);
+    }
+    expect(seen).toEqual(['udp', 'dot', 'doh', 'udp']);
+
+    let t = 0;
+    const latencies = new Map<UpstreamTarget, number>([
+      [a, 80],
+      [b, 10],
+      [c, 40]
+    ]);
+    const fastest = createUpstreamPool([a, b, c], 'fastest');
+    const timed = async (u: UpstreamTarget) => {
+      t += latencies.get(u) ?? 0;
+      return answerFrom(u);
+    };
+
+    // Unmeasured upstreams are sampled first, then the fastest one wins.
+    for (let i = 0; i < 3; i++) await forwardViaPool(fastest, timed, () => t);
+    expect(fastest.health.map((h) => h.ewmaLatencyMs)).toEqual([80, 10, 40]);
+    expect((await forwardViaPool(fastest, timed, () => t)).upstream).toBe(b);
+  });
+
+  it('races all upstreams in parallel mode and keeps stats across reloads', async () => {
+    const pool = createUpstreamPool([a, b], 'parallel');
+    const res = await forwardViaPool(pool, async (u) => {
+      if (u === a) throw new Error('refused');
+      return answerFrom(u);
+    });
+    expect(res.upstream).toBe(b);
+    expect(pool.health[0].failures).toBe(1);
+
+    await expect(
+      forwardViaPool(pool, async () => {
+        throw new Error('all down');
+      })
+    ).rejects.toThrow('all down');
+
+    const reloaded = createUpstreamPool([b, c], 'failover', pool);
+    expect(reloaded.health[0]).toBe(pool.health[1]);
+    expect(reloaded.health[1].successes).toBe(0);
+  });
+});
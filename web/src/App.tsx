@@ -11,11 +11,12 @@ const Clients = lazy(() => import('./pages/Clients'));
 const Blocking = lazy(() => import('./pages/Blocking'));
 const DnsSettings = lazy(() => import('./pages/DnsSettings'));
 const NetworkMap = lazy(() => import('./pages/NetworkMap'));
+const Dhcp = lazy(() => import('./pages/Dhcp'));
 const Settings = lazy(() => import('./pages/Settings2'));
 const Cluster = lazy(() => import('./pages/Cluster'));
 
 const App: React.FC = () => {
-  const VALID_PAGES = useRef(new Set(['dashboard', 'logs', 'clients', 'topology', 'blocking', 'dns', 'settings', 'cluster']));
+  const VALID_PAGES = useRef(new Set(['dashboard', 'logs', 'clients', 'topology', 'blocking', 'dns', 'dhcp', 'settings', 'cluster']));
 
   const readPageFromHash = () => {
     const raw = (window.location.hash || '').replace(/^#\/?/, '').trim();
@@ -520,6 +521,7 @@ const App: React.FC = () => {
       case 'topology': return <NetworkMap />;
       case 'blocking': return <Blocking />;
       case 'dns': return <DnsSettings />;
+      case 'dhcp': return <Dhcp />;
       case 'settings': return <Settings presetTab={settingsTabPreset} onPresetConsumed={() => setSettingsTabPreset(null)} />;
       case 'cluster': {
         if (clusterUi.known && !clusterUi.available) return <Dashboard />;
@@ -537,6 +539,7 @@ const App: React.FC = () => {
         case 'topology': return 'Clients';
           case 'blocking': return 'Filter Rules';
           case 'dns': return 'DNS Configuration';
+          case 'dhcp': return 'DHCP Server';
           case 'settings': return 'System Settings';
         case 'cluster': return 'Cluster / HA';
           default: return 'Dashboard';
@@ -557,6 +560,7 @@ const App: React.FC = () => {
     { id: 'topology', label: 'Clients', hint: 'DNS Activity', keywords: ['clients', 'activity', 'topology', 'map'], page: 'topology' },
     { id: 'blocking', label: 'Blocking Rules', hint: 'Filter Rules', keywords: ['rules', 'allowlist', 'blocklist', 'filters'], page: 'blocking' },
     { id: 'dns', label: 'DNS Settings', hint: 'DNS Configuration', keywords: ['rewrites', 'upstream', 'resolver', 'unbound'], page: 'dns' },
+    { id: 'dhcp', label: 'DHCP Server', hint: 'Scopes, reservations & leases', keywords: ['dhcp', 'leases', 'reservations', 'ip address', 'scope'], page: 'dhcp' },
 
     { id: 'cluster', label: 'Cluster / HA', hint: 'Sync + VIP Failover', keywords: ['cluster', 'ha', 'vip', 'vrrp', 'keepalived', 'sync', 'leader', 'follower'], page: 'cluster' },
 
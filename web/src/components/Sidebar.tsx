@@ -1,5 +1,5 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { LayoutDashboard, Activity, ShieldAlert, Users, Network, Hexagon, Settings, Globe, Server, ChevronLeft, ChevronRight, PanelLeftClose, PanelLeftOpen } from 'lucide-react';
+import { LayoutDashboard, Activity, ShieldAlert, Users, Network, Hexagon, Settings, Globe, Server, Router, ChevronLeft, ChevronRight, PanelLeftClose, PanelLeftOpen } from 'lucide-react';
 
 interface SidebarProps {
   activePage: string;
@@ -156,6 +156,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activePage, setActivePage, isCollapse
     { id: 'blocking', label: 'Filtering', icon: ShieldAlert },
     { id: 'clients', label: 'Client Policies', icon: Users },
     { id: 'dns', label: 'Local DNS', icon: Server },
+    { id: 'dhcp', label: 'DHCP', icon: Router },
   ];
   
   const renderMenuItem = (item: any) => {
@@ -34,7 +34,9 @@ const normalizeSchedules = (value: any): Schedule[] => {
       mode: normalizeScheduleMode(s.mode),
       blockedCategories: Array.isArray(s.blockedCategories) ? (s.blockedCategories.map((x: any) => String(x)).filter(Boolean) as any) : [],
       blockedApps: Array.isArray(s.blockedApps) ? (s.blockedApps.map((x: any) => String(x)).filter(Boolean) as any) : [],
-      blockAll: s.blockAll === true
+      blockAll: s.blockAll === true,
+      safeSearch: s.safeSearch === true,
+      allowlistOnly: s.allowlistOnly === true
     }))
     .filter((s) => !!s.id);
 };
@@ -54,10 +56,16 @@ const mapClient = (row: any): ClientProfile | null => {
     cidr: typeof row.cidr === 'string' ? row.cidr : undefined,
     ip: typeof row.ip === 'string' ? row.ip : undefined,
     mac: typeof row.mac === 'string' ? row.mac : undefined,
+    clientIds: Array.isArray(row.clientIds) ? row.clientIds.map((x: any) => String(x)).filter(Boolean) : undefined,
+    dnsToken: typeof row.dnsToken === 'string' ? row.dnsToken : undefined,
     type: type as any,
     status: row.status === 'online' ? 'online' : 'offline',
     policy: typeof row.policy === 'string' ? row.policy : 'default',
     safeSearch: row.safeSearch === true,
+    youtubeRestrictMode:
+      row.youtubeRestrictMode === 'off' || row.youtubeRestrictMode === 'moderate' || row.youtubeRestrictMode === 'strict'
+        ? row.youtubeRestrictMode
+        : undefined,
     assignedBlocklists: Array.isArray(row.assignedBlocklists)
       ? row.assignedBlocklists.map((x: any) => String(x)).filter(Boolean)
       : [],
@@ -67,7 +75,36 @@ const mapClient = (row: any): ClientProfile | null => {
     isInternetPaused: row.isInternetPaused === true,
     blockedCategories: Array.isArray(row.blockedCategories) ? (row.blockedCategories.map((x: any) => String(x)).filter(Boolean) as any) : [],
     blockedApps: Array.isArray(row.blockedApps) ? (row.blockedApps.map((x: any) => String(x)).filter(Boolean) as any) : [],
-    schedules: normalizeSchedules(row.schedules)
+    schedules: normalizeSchedules(row.schedules),
+    allowlistOnly: row.allowlistOnly === true,
+    allowedApps: Array.isArray(row.allowedApps) ? (row.allowedApps.map((x: any) => String(x)).filter(Boolean) as any) : [],
+    blockResponse:
+      row.blockResponse && typeof row.blockResponse === 'object' && typeof row.blockResponse.mode === 'string'
+        ? {
+            mode: row.blockResponse.mode,
+            ttl: typeof row.blockResponse.ttl === 'number' ? row.blockResponse.ttl : 60,
+            ipv4: typeof row.blockResponse.ipv4 === 'string' ? row.blockResponse.ipv4 : undefined,
+            ipv6: typeof row.blockResponse.ipv6 === 'string' ? row.blockResponse.ipv6 : undefined
+          }
+        : undefined,
+    upstream:
+      row.upstream && typeof row.upstream === 'object' && typeof row.upstream.transport === 'string'
+        ? {
+            transport: row.upstream.transport,
+            host: typeof row.upstream.host === 'string' ? row.upstream.host : undefined,
+            port: typeof row.upstream.port === 'number' ? row.upstream.port : undefined,
+            dohUrl: typeof row.upstream.dohUrl === 'string' ? row.upstream.dohUrl : undefined
+          }
+        : undefined,
+    rateLimit:
+      row.rateLimit && typeof row.rateLimit === 'object' && typeof row.rateLimit.enabled === 'boolean'
+        ? {
+            enabled: row.rateLimit.enabled,
+            qps: typeof row.rateLimit.qps === 'number' ? row.rateLimit.qps : 50,
+            burst: typeof row.rateLimit.burst === 'number' ? row.rateLimit.burst : 200,
+            action: row.rateLimit.action === 'DROP' ? 'DROP' : 'REFUSED'
+          }
+        : undefined
   };
 };
 
@@ -83,6 +120,32 @@ export const ClientsProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   };
 
+  // PUT answers with the stored profile; pick up the DoH/DoT token the server generated.
+  const putClient = async (client: ClientProfile): Promise<boolean> => {
+    let res: Response;
+    try {
+      res = await apiFetch(`/api/clients/${encodeURIComponent(client.id)}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders()
+        },
+        body: JSON.stringify(client)
+      });
+    } catch {
+      return false;
+    }
+    if (!res.ok) return false;
+
+    try {
+      const saved = mapClient(await res.json());
+      if (saved?.dnsToken) setClients((cur) => cur.map((c) => (c.id === saved.id ? { ...c, dnsToken: saved.dnsToken } : c)));
+    } catch {
+      // Older servers / empty bodies: the token shows up on the next reload.
+    }
+    return true;
+  };
+
   useEffect(() => {
     let cancelled = false;
     const controller = new AbortController();
@@ -115,16 +178,7 @@ export const ClientsProvider: React.FC<{ children: ReactNode }> = ({ children })
     const prev = clients;
     setClients((cur) => (cur.some((c) => c.id === client.id) ? cur : [...cur, client]));
 
-    const ok = await persistClient(`/api/clients/${encodeURIComponent(client.id)}`,
-      {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          ...getAuthHeaders()
-        },
-        body: JSON.stringify(client)
-      }
-    );
+    const ok = await putClient(client);
 
     if (!ok) setClients(prev);
     return ok;
@@ -134,16 +188,7 @@ export const ClientsProvider: React.FC<{ children: ReactNode }> = ({ children })
     const prev = clients;
     setClients((cur) => cur.map((c) => (c.id === updatedClient.id ? updatedClient : c)));
 
-    const ok = await persistClient(`/api/clients/${encodeURIComponent(updatedClient.id)}`,
-      {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          ...getAuthHeaders()
-        },
-        body: JSON.stringify(updatedClient)
-      }
-    );
+    const ok = await putClient(updatedClient);
 
     if (!ok) setClients(prev);
     return ok;
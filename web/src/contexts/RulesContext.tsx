@@ -11,7 +11,8 @@ export interface CustomRule {
 
 interface RulesContextType {
   rules: CustomRule[];
-  addRule: (domain: string, type: 'BLOCKED' | 'ALLOWED', category?: string) => Promise<void>;
+  // Resolves to the server's message when it rejects the rule (e.g. an invalid pattern), else null.
+  addRule: (domain: string, type: 'BLOCKED' | 'ALLOWED', category?: string) => Promise<string | null>;
   removeRule: (id: string) => Promise<void>;
 }
 
@@ -55,9 +56,9 @@ export const RulesProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     };
   }, []);
 
-  const addRule = async (domain: string, type: 'BLOCKED' | 'ALLOWED', category: string = 'Manual') => {
+  const addRule = async (domain: string, type: 'BLOCKED' | 'ALLOWED', category: string = 'Manual'): Promise<string | null> => {
     // Prevent duplicates
-    if (rules.some(r => r.domain === domain)) return;
+    if (rules.some(r => r.domain === domain)) return null;
 
     try {
       const res = await fetch('/api/rules', {
@@ -79,7 +80,12 @@ export const RulesProvider: React.FC<{ children: ReactNode }> = ({ children }) =
           addedAt: row.created_at ? new Date(row.created_at).toLocaleString() : 'Just now'
         };
         setRules(prev => [newRule, ...prev]);
-        return;
+        return null;
+      }
+
+      if (res.status === 400) {
+        const data = await res.json().catch(() => null);
+        return String(data?.message || 'Invalid rule.');
       }
     } catch {
       // ignore and fall back to local
@@ -93,6 +99,7 @@ export const RulesProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       addedAt: 'Just now'
     };
     setRules(prev => [newRule, ...prev]);
+    return null;
   };
 
   const removeRule = async (id: string) => {
@@ -1,14 +1,54 @@
-import React, { useEffect, useMemo, useState } from 'react';
-import { RefreshCw, Plus, Trash2, List, Globe, Hash, Shield, Search, Sparkles, AlertTriangle, CheckCircle, X, XCircle, ArrowRight, Play, BarChart3, FlaskConical, Eye, Database, Layers, Stethoscope, Smartphone, Server } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { RefreshCw, Plus, Trash2, List, Globe, Hash, Shield, Search, Sparkles, AlertTriangle, CheckCircle, X, XCircle, ArrowRight, Play, BarChart3, FlaskConical, Eye, Database, Layers, Stethoscope, Smartphone, Server, Pencil } from 'lucide-react';
 import { analyzeDomain } from '../services/geminiService';
 import { useRules } from '../contexts/RulesContext';
-import { BlocklistMode, QueryStatus, Blocklist, AppService } from '../types';
+import { BlocklistKind, BlocklistMode, QueryStatus, Blocklist, BlocklistRefreshJob, AppService, SafeSearchSettings, YoutubeRestrictMode } from '../types';
 import Modal from '../components/Modal';
 import { getAuthHeaders } from '../services/apiClient';
 import { AppLogo } from '../components/AppLogo';
 import { ReadOnlyFollowerBanner } from '../components/ReadOnlyFollowerBanner';
 import { isReadOnlyFollower, useClusterStatus } from '../hooks/useClusterStatus';
 
+// null = server default (daily); 0 = only when refreshed by hand.
+const REFRESH_INTERVAL_OPTIONS: Array<{ value: number | null; label: string }> = [
+    { value: null, label: 'Daily (default)' },
+    { value: 60, label: 'Hourly' },
+    { value: 360, label: 'Every 6 hours' },
+    { value: 720, label: 'Every 12 hours' },
+    { value: 10080, label: 'Weekly' },
+    { value: 0, label: 'Manual only' }
+];
+
+const REFRESH_JOB_STATUS_STYLES: Record<string, string> = {
+    QUEUED: 'bg-zinc-800 text-zinc-300 border-zinc-700',
+    RUNNING: 'bg-sky-950/40 text-sky-400 border-sky-900/50',
+    SUCCEEDED: 'bg-emerald-950/20 text-emerald-300 border-emerald-700/40',
+    FAILED: 'bg-rose-950/20 text-rose-300 border-rose-700/40'
+};
+
+function formatBytes(bytes: number): string {
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${bytes} B`;
+}
+
+// Pasted and uploaded lists live in the database under a generated `inline:<uuid>` url.
+function isInlineBlocklist(url: string): boolean {
+    return url.toLowerCase().startsWith('inline:');
+}
+
+function describeRefreshJob(job: BlocklistRefreshJob): string {
+    if (job.status === 'RUNNING') {
+        return job.progress ? `${job.progress.lines.toLocaleString()} lines · ${formatBytes(job.progress.bytes)}` : 'Downloading…';
+    }
+    if (job.error && job.status !== 'SUCCEEDED') return job.error;
+    if (job.result?.notModified) return 'Not modified';
+    if (job.result) {
+        return `+${Number(job.result.added ?? 0).toLocaleString()} / -${Number(job.result.removed ?? 0).toLocaleString()} · ${Number(job.result.fetched ?? 0).toLocaleString()} rules`;
+    }
+    return '';
+}
+
 const Blocking: React.FC = () => {
     const [activeTab, setActiveTab] = useState<'gravity' | 'categories' | 'apps' | 'domains' | 'audit' | 'regex'>('gravity');
 
@@ -22,11 +62,19 @@ const Blocking: React.FC = () => {
     const [isAddOpen, setIsAddOpen] = useState(false);
     const [newListName, setNewListName] = useState('');
     const [newListUrl, setNewListUrl] = useState('');
+    const [newListKind, setNewListKind] = useState<BlocklistKind>('BLOCK');
+    const [newListSource, setNewListSource] = useState<'URL' | 'PASTE' | 'UPLOAD'>('URL');
+    const [newListContent, setNewListContent] = useState('');
+    const [newListFile, setNewListFile] = useState<File | null>(null);
+    const [inlineEdit, setInlineEdit] = useState<{ id: string; name: string; content: string } | null>(null);
+    const [inlineEditError, setInlineEditError] = useState<string | null>(null);
+    const [refreshJobs, setRefreshJobs] = useState<BlocklistRefreshJob[]>([]);
 
   // Domain Management State
   const [domainInput, setDomainInput] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysis, setAnalysis] = useState<{category: string, purpose: string, impact: string} | null>(null);
+  const [ruleError, setRuleError] = useState<string | null>(null);
   
   // Audit/Tester State
   const [auditDomain, setAuditDomain] = useState('');
@@ -35,7 +83,10 @@ const Blocking: React.FC = () => {
       total: number, 
       affectedClients: string[], 
       frequency: string,
-      gravityMatches: Blocklist[]
+      gravityMatches: Blocklist[],
+      // Manual rule that allowed the domain, and the glob/regex behind a manual decision.
+      allowedBy?: string | null,
+      matchedPattern?: string | null
   } | null>(null);
 
   const APPS: Array<{ id: AppService; label: string }> = [
@@ -144,6 +195,7 @@ const Blocking: React.FC = () => {
     const [globalBlocklistsMsgFading, setGlobalBlocklistsMsgFading] = useState(false);
     const [globalCategoriesMsgFading, setGlobalCategoriesMsgFading] = useState(false);
   const [appsBusy, setAppsBusy] = useState(false);
+    const [globalSafeSearch, setGlobalSafeSearch] = useState<SafeSearchSettings>({ search: false, youtube: 'off' });
 
 
   const CATEGORY_DEFINITIONS = [
@@ -291,6 +343,20 @@ const Blocking: React.FC = () => {
         return q === r || q.endsWith(`.${r}`);
     };
 
+    // "ads*.example.com" and "/regex/" are sent as-is; the server validates them.
+    // A leading "*." alone still means "this domain and its subdomains".
+    const rulePatternInput = (value: string): string | null => {
+        const v = String(value || '').trim();
+        if (v.length > 2 && v.startsWith('/') && v.endsWith('/')) return v;
+        if (v.replace(/^\*\./, '').includes('*')) return v.toLowerCase();
+        return null;
+    };
+
+    const rulePatternKind = (domain: string): 'GLOB' | 'REGEX' | null => {
+        if (domain.length > 2 && domain.startsWith('/') && domain.endsWith('/')) return 'REGEX';
+        return domain.includes('*') ? 'GLOB' : null;
+    };
+
     const canonicalizeDomainInput = (value: string): string => {
         let v = String(value || '').trim();
         if (!v) return '';
@@ -331,11 +397,37 @@ const Blocking: React.FC = () => {
             url: String(row?.url ?? ''),
             ruleCount: typeof row?.last_rule_count === 'number' ? row.last_rule_count : 0,
             mode: enabled ? serverMode : 'DISABLED',
+            kind: row?.kind === 'ALLOW' ? 'ALLOW' : 'BLOCK',
             lastUpdated: lastUpdatedRaw ? new Date(lastUpdatedRaw).toLocaleString() : '—',
-            lastUpdatedAt: lastUpdatedRaw
+            lastUpdatedAt: lastUpdatedRaw,
+            parseStats:
+                row?.last_parse_stats && typeof row.last_parse_stats === 'object'
+                    ? {
+                          accepted: Number(row.last_parse_stats.accepted ?? 0),
+                          exceptions: Number(row.last_parse_stats.exceptions ?? 0),
+                          unsupported: Number(row.last_parse_stats.unsupported ?? 0),
+                          invalid: Number(row.last_parse_stats.invalid ?? 0)
+                      }
+                    : null,
+            refreshIntervalMinutes: typeof row?.refresh_interval_minutes === 'number' ? row.refresh_interval_minutes : null
         };
     };
 
+    const mapServerRefreshJob = (row: any): BlocklistRefreshJob => ({
+        id: String(row?.id ?? ''),
+        blocklistId: String(row?.blocklist_id ?? ''),
+        blocklistName: typeof row?.blocklist_name === 'string' ? row.blocklist_name : null,
+        trigger: row?.trigger,
+        status: row?.status,
+        attempts: Number(row?.attempts ?? 0),
+        runAfter: String(row?.run_after ?? ''),
+        startedAt: typeof row?.started_at === 'string' ? row.started_at : null,
+        finishedAt: typeof row?.finished_at === 'string' ? row.finished_at : null,
+        progress: row?.progress && typeof row.progress === 'object' ? row.progress : null,
+        result: row?.result && typeof row.result === 'object' ? row.result : null,
+        error: typeof row?.error === 'string' ? row.error : null
+    });
+
     const loadBlocklists = () => {
         setBlocklistsError(null);
         fetch('/api/blocklists')
@@ -358,6 +450,36 @@ const Blocking: React.FC = () => {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
+    const loadRefreshJobs = () => {
+        fetch('/api/blocklists/jobs?limit=30')
+            .then(async (r) => {
+                if (!r.ok) throw new Error(`HTTP ${r.status}`);
+                const data = await r.json();
+                const items = Array.isArray(data?.items) ? data.items : [];
+                setRefreshJobs(items.map(mapServerRefreshJob).filter((j: BlocklistRefreshJob) => j.id));
+            })
+            .catch(() => {
+                // The jobs panel keeps its last state; the blocklist table reports load errors.
+            });
+    };
+
+    const activeRefreshJobs = refreshJobs.filter((j) => j.status === 'QUEUED' || j.status === 'RUNNING').length;
+    const prevActiveRefreshJobs = useRef(0);
+
+    // Poll quickly while refreshes are queued or running, and reload the lists once they finish.
+    useEffect(() => {
+        loadRefreshJobs();
+        const t = setInterval(loadRefreshJobs, activeRefreshJobs > 0 ? 3000 : 30_000);
+        return () => clearInterval(t);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [activeRefreshJobs > 0]);
+
+    useEffect(() => {
+        if (prevActiveRefreshJobs.current > activeRefreshJobs) loadBlocklists();
+        prevActiveRefreshJobs.current = activeRefreshJobs;
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [activeRefreshJobs]);
+
     useEffect(() => {
         let cancelled = false;
         (async () => {
@@ -386,6 +508,28 @@ const Blocking: React.FC = () => {
         };
     }, []);
 
+    useEffect(() => {
+        let cancelled = false;
+        (async () => {
+            try {
+                const res = await fetch('/api/dns/settings', { headers: { ...getAuthHeaders() }, credentials: 'include' });
+                const data = await res.json().catch(() => null);
+                const v = (data as any)?.value?.safeSearch;
+                if (!cancelled && v && typeof v === 'object') {
+                    setGlobalSafeSearch({
+                        search: v.search === true,
+                        youtube: v.youtube === 'moderate' || v.youtube === 'strict' ? v.youtube : 'off'
+                    });
+                }
+            } catch {
+                // ignore
+            }
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
     const appBlocklistIds = useMemo(() => {
         const map = new Map<AppService, string[]>();
         for (const [app, urls] of Object.entries(APP_LIST_URLS) as Array<[AppService, string[]]>) {
@@ -424,6 +568,7 @@ const Blocking: React.FC = () => {
         };
 
         await Promise.all(Array.from({ length: concurrency }, () => worker()));
+        loadRefreshJobs();
     };
 
     const setBlocklistsEnabledBestEffort = async (ids: string[], enabled: boolean) => {
@@ -508,6 +653,33 @@ const Blocking: React.FC = () => {
         }
     };
 
+    const saveGlobalSafeSearch = async (next: SafeSearchSettings) => {
+        setAppsMsg('');
+        const prev = globalSafeSearch;
+        setGlobalSafeSearch(next);
+        setAppsBusy(true);
+        try {
+            // Partial update: the server keeps every other DNS setting as stored.
+            const res = await fetch('/api/dns/settings', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+                credentials: 'include',
+                body: JSON.stringify({ safeSearch: next })
+            });
+
+            if (!res.ok) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(String((body as any)?.message || `HTTP ${res.status}`));
+            }
+            setAppsMsg('Saved');
+        } catch (e: any) {
+            setGlobalSafeSearch(prev);
+            setAppsMsg(String(e?.message || 'Failed to save.'));
+        } finally {
+            setAppsBusy(false);
+        }
+    };
+
     const deleteBlocklist = (id: string) => {
         setBlocklists(prev => prev.filter(b => b.id !== id));
         fetch(`/api/blocklists/${encodeURIComponent(id)}`,
@@ -522,6 +694,7 @@ const Blocking: React.FC = () => {
         });
     };
 
+    // Queues a refresh job; the jobs panel follows it until it finishes.
     const refreshBlocklist = async (id: string) => {
         const r = await fetch(`/api/blocklists/${encodeURIComponent(id)}/refresh`, {
             method: 'POST',
@@ -532,6 +705,27 @@ const Blocking: React.FC = () => {
             const body = await r.json().catch(() => ({}));
             throw new Error(String(body?.message || `Refresh failed (HTTP ${r.status})`));
         }
+        loadRefreshJobs();
+    };
+
+    const updateRefreshInterval = async (id: string, minutes: number | null) => {
+        setBlocklistsError(null);
+        try {
+            const r = await fetch(`/api/blocklists/${encodeURIComponent(id)}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+                credentials: 'include',
+                body: JSON.stringify({ refreshIntervalMinutes: minutes })
+            });
+            if (!r.ok) {
+                const body = await r.json().catch(() => ({}));
+                throw new Error(String((body as any)?.message || `HTTP ${r.status}`));
+            }
+            const mapped = mapServerBlocklist(await r.json());
+            setBlocklists((prev) => prev.map((b) => (b.id === id ? { ...b, ...mapped } : b)));
+        } catch {
+            setBlocklistsError('Failed to update refresh schedule.');
+        }
     };
 
     const syncAllBlocklists = async () => {
@@ -556,10 +750,9 @@ const Blocking: React.FC = () => {
                 await refreshBlocklist(id);
             }
         } catch {
-            setBlocklistsError('One or more blocklists failed to refresh.');
+            setBlocklistsError('One or more blocklists could not be queued for refresh.');
         } finally {
             setIsSyncing(false);
-            loadBlocklists();
         }
     };
 
@@ -594,7 +787,6 @@ const Blocking: React.FC = () => {
         if (mapped.mode !== 'DISABLED' && !mapped.lastUpdatedAt) {
             try {
                 await refreshBlocklist(id);
-                loadBlocklists();
             } catch {
                 // ignore; errors are reflected in server state and user can retry
             }
@@ -604,16 +796,34 @@ const Blocking: React.FC = () => {
     const submitNewBlocklist = async () => {
         const name = newListName.trim();
         const url = newListUrl.trim();
-        if (!name || !url) return;
+        if (!name) return;
+        if (newListSource === 'URL' && !url) return;
+        if (newListSource === 'PASTE' && !newListContent.trim()) return;
+        if (newListSource === 'UPLOAD' && !newListFile) return;
 
         setBlocklistsError(null);
         try {
-            const res = await fetch('/api/blocklists', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-                credentials: 'include',
-                body: JSON.stringify({ name, url, enabled: true })
-            });
+            const res =
+                newListSource === 'UPLOAD' && newListFile
+                    ? await fetch(
+                          `/api/blocklists/upload?name=${encodeURIComponent(name)}&kind=${encodeURIComponent(newListKind)}`,
+                          {
+                              method: 'POST',
+                              headers: { 'Content-Type': 'text/plain', ...getAuthHeaders() },
+                              credentials: 'include',
+                              body: await newListFile.text()
+                          }
+                      )
+                    : await fetch('/api/blocklists', {
+                          method: 'POST',
+                          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+                          credentials: 'include',
+                          body: JSON.stringify(
+                              newListSource === 'PASTE'
+                                  ? { name, content: newListContent, enabled: true, kind: newListKind }
+                                  : { name, url, enabled: true, kind: newListKind }
+                          )
+                      });
             if (!res.ok) {
                 const body = await res.json().catch(() => ({}));
                 throw new Error(String(body?.message || `HTTP ${res.status}`));
@@ -621,12 +831,50 @@ const Blocking: React.FC = () => {
             setIsAddOpen(false);
             setNewListName('');
             setNewListUrl('');
+            setNewListKind('BLOCK');
+            setNewListSource('URL');
+            setNewListContent('');
+            setNewListFile(null);
             loadBlocklists();
+            loadRefreshJobs();
         } catch (e: any) {
             setBlocklistsError(String(e?.message || 'Failed to add blocklist.'));
         }
     };
 
+    const openInlineEdit = async (list: Blocklist) => {
+        setInlineEditError(null);
+        try {
+            const r = await fetch(`/api/blocklists/${encodeURIComponent(list.id)}`);
+            if (!r.ok) throw new Error(`HTTP ${r.status}`);
+            const row = await r.json();
+            setInlineEdit({ id: list.id, name: list.name, content: typeof row?.content === 'string' ? row.content : '' });
+        } catch (e: any) {
+            setBlocklistsError(String(e?.message || 'Failed to load list content.'));
+        }
+    };
+
+    const saveInlineEdit = async () => {
+        if (!inlineEdit) return;
+        setInlineEditError(null);
+        try {
+            const r = await fetch(`/api/blocklists/${encodeURIComponent(inlineEdit.id)}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+                credentials: 'include',
+                body: JSON.stringify({ content: inlineEdit.content })
+            });
+            if (!r.ok) {
+                const body = await r.json().catch(() => ({}));
+                throw new Error(String((body as any)?.message || `HTTP ${r.status}`));
+            }
+            setInlineEdit(null);
+            loadRefreshJobs();
+        } catch (e: any) {
+            setInlineEditError(String(e?.message || 'Failed to save list.'));
+        }
+    };
+
     const handleBlocklistModeChange = (id: string, mode: BlocklistMode, feedback?: 'blocklists' | 'categories') => {
         setBlocklists(prev => prev.map(list => list.id === id ? { ...list, mode } : list));
 
@@ -671,10 +919,15 @@ const Blocking: React.FC = () => {
     }
   };
 
-    const handleAddRuleClick = (type: 'BLOCKED' | 'ALLOWED', categoryOverride?: string) => {
-        const domain = canonicalizeDomainInput(domainInput);
+    const handleAddRuleClick = async (type: 'BLOCKED' | 'ALLOWED', categoryOverride?: string) => {
+        const domain = rulePatternInput(domainInput) ?? canonicalizeDomainInput(domainInput);
         if (!domain) return;
-        addRule(domain, type, categoryOverride || analysis?.category || 'Manual');
+        setRuleError(null);
+        const error = await addRule(domain, type, categoryOverride || analysis?.category || 'Manual');
+        if (error) {
+            setRuleError(error);
+            return;
+        }
         setDomainInput('');
         setAnalysis(null);
     };
@@ -707,6 +960,8 @@ const Blocking: React.FC = () => {
               const clients: string[] = Array.from(new Set<string>(matches.map((q: any) => String(q?.client ?? 'Unknown'))));
 
               let gravityMatches: Blocklist[] = [];
+              let allowedBy: string | null = null;
+              let matchedPattern: string | null = null;
 
               // Server-side policy evaluation (includes categories, apps, allow/block).
               const checkRes = await fetch('/api/policy/domaincheck', {
@@ -721,6 +976,8 @@ const Blocking: React.FC = () => {
                   const decision = String(check?.decision ?? 'NONE');
                   const reason = typeof check?.reason === 'string' ? check.reason : '';
                   const blocklist = check?.blocklist;
+                  matchedPattern = typeof check?.pattern === 'string' ? check.pattern : null;
+                  if (decision === 'ALLOWED' && reason) allowedBy = reason;
 
                   if (decision === 'BLOCKED' || decision === 'SHADOW_BLOCKED') {
                       if (blocklist && typeof blocklist?.id === 'string') {
@@ -761,7 +1018,9 @@ const Blocking: React.FC = () => {
                   total: matches.length,
                   affectedClients: clients,
                   frequency: matches.length > 5 ? 'High Frequency' : matches.length > 0 ? 'Occasional' : 'Never seen',
-                  gravityMatches
+                  gravityMatches,
+                  allowedBy,
+                  matchedPattern
               });
           } catch {
               if (cancelled) return;
@@ -892,8 +1151,20 @@ const Blocking: React.FC = () => {
                          {blocklistsOnly.map(list => (
                              <tr key={list.id} className="hover:bg-[#18181b] transition-colors">
                                  <td className="p-4">
-                            <div className="font-bold text-zinc-200 text-sm">{list.name}</div>
-                            <div className="text-[10px] text-zinc-600 font-mono truncate max-w-[300px] mt-0.5">{list.url}</div>
+                            <div className="font-bold text-zinc-200 text-sm flex items-center gap-2">
+                                {list.name}
+                                {list.kind === 'ALLOW' && (
+                                    <span
+                                        className="text-[9px] font-bold px-1.5 py-0.5 rounded bg-sky-950/40 text-sky-400 border border-sky-900/50"
+                                        title="Never blocks. Admits its domains for allowlist-only clients."
+                                    >
+                                        ALLOWLIST
+                                    </span>
+                                )}
+                            </div>
+                            <div className="text-[10px] text-zinc-600 font-mono truncate max-w-[300px] mt-0.5">
+                                {isInlineBlocklist(list.url) ? 'Inline list' : list.url}
+                            </div>
                          </td>
                          <td className="p-4">
                             <div className="flex bg-[#09090b] rounded p-1 border border-[#27272a] w-fit relative z-10 pointer-events-auto">
@@ -935,9 +1206,52 @@ const Blocking: React.FC = () => {
                                 </div>
                             )}
                          </td>
-                         <td className="p-4 text-xs text-zinc-300 font-mono">{list.ruleCount.toLocaleString()}</td>
-                         <td className="p-4 text-xs text-zinc-500">{list.lastUpdated}</td>
+                         <td className="p-4 text-xs text-zinc-300 font-mono">
+                            {list.ruleCount.toLocaleString()}
+                            {list.parseStats && (
+                                <div
+                                    className="mt-1 text-[9px] text-zinc-500 font-sans"
+                                    title="Lines parsed in the last refresh: block rules, @@ exceptions, unsupported syntax (cosmetic, regex, other modifiers) and invalid lines"
+                                >
+                                    {list.parseStats.accepted.toLocaleString()} accepted · {list.parseStats.exceptions.toLocaleString()} exceptions
+                                    {list.parseStats.unsupported > 0 && (
+                                        <span className="text-amber-500"> · {list.parseStats.unsupported.toLocaleString()} unsupported</span>
+                                    )}
+                                    {list.parseStats.invalid > 0 && (
+                                        <span className="text-rose-400"> · {list.parseStats.invalid.toLocaleString()} invalid</span>
+                                    )}
+                                </div>
+                            )}
+                         </td>
+                         <td className="p-4 text-xs text-zinc-500">
+                            {list.lastUpdated}
+                            <select
+                                value={list.refreshIntervalMinutes == null ? '' : String(list.refreshIntervalMinutes)}
+                                onChange={(e) => updateRefreshInterval(list.id, e.target.value === '' ? null : Number(e.target.value))}
+                                disabled={readOnlyFollower}
+                                className="block mt-1 bg-[#09090b] border border-[#27272a] rounded px-1.5 py-0.5 text-[10px] text-zinc-400 focus:outline-none focus:border-zinc-500"
+                                title="How often this list is refreshed automatically"
+                                aria-label={`Refresh schedule for ${list.name}`}
+                            >
+                                {REFRESH_INTERVAL_OPTIONS.map((o) => (
+                                    <option key={o.label} value={o.value == null ? '' : String(o.value)}>
+                                        {o.label}
+                                    </option>
+                                ))}
+                            </select>
+                         </td>
                          <td className="p-4 text-right">
+                                     {isInlineBlocklist(list.url) && (
+                                         <button
+                                            onClick={() => openInlineEdit(list)}
+                                            disabled={readOnlyFollower}
+                                            className="text-zinc-600 hover:text-white p-2 transition-colors"
+                                            title="Edit list content"
+                                            aria-label={`Edit ${list.name}`}
+                                         >
+                                            <Pencil className="w-4 h-4" />
+                                         </button>
+                                     )}
                                      <button
                                         onClick={() => deleteBlocklist(list.id)}
                                         className="text-zinc-600 hover:text-rose-500 p-2 transition-colors"
@@ -950,6 +1264,51 @@ const Blocking: React.FC = () => {
                 </tbody>
              </table>
 
+             <div className="border-t border-[#27272a]">
+                 <div className="px-4 py-3 flex justify-between items-center bg-[#121214] border-b border-[#27272a]">
+                     <div className="text-xs text-zinc-200 font-bold">Refresh Jobs</div>
+                     <div className="text-[10px] text-zinc-500 font-mono">
+                         {activeRefreshJobs > 0 ? `${activeRefreshJobs} queued or running` : 'Idle'}
+                     </div>
+                 </div>
+                 {refreshJobs.length === 0 ? (
+                     <div className="px-4 py-4 text-xs text-zinc-600">No refresh jobs yet.</div>
+                 ) : (
+                     <table className="w-full text-left">
+                         <thead className="bg-[#09090b] text-[10px] text-zinc-500 uppercase font-bold tracking-wider">
+                             <tr>
+                                 <th className="px-4 py-2 border-b border-[#27272a]">List</th>
+                                 <th className="px-4 py-2 border-b border-[#27272a]">Status</th>
+                                 <th className="px-4 py-2 border-b border-[#27272a]">Details</th>
+                                 <th className="px-4 py-2 border-b border-[#27272a]">When</th>
+                             </tr>
+                         </thead>
+                         <tbody className="divide-y divide-[#27272a]">
+                             {refreshJobs.map((job) => (
+                                 <tr key={job.id} className="text-xs">
+                                     <td className="px-4 py-2 text-zinc-300">
+                                         {job.blocklistName ?? `List ${job.blocklistId}`}
+                                         <div className="text-[9px] text-zinc-600 uppercase">{job.trigger}</div>
+                                     </td>
+                                     <td className="px-4 py-2">
+                                         <span className={`text-[9px] font-bold px-1.5 py-0.5 rounded border ${REFRESH_JOB_STATUS_STYLES[job.status] ?? ''}`}>
+                                             {job.status === 'QUEUED' && job.attempts > 0 ? 'RETRYING' : job.status}
+                                         </span>
+                                         {job.attempts > 1 && <span className="ml-2 text-[10px] text-zinc-500">attempt {job.attempts}</span>}
+                                     </td>
+                                     <td className="px-4 py-2 text-[10px] text-zinc-400 font-mono">{describeRefreshJob(job)}</td>
+                                     <td className="px-4 py-2 text-[10px] text-zinc-500">
+                                         {job.status === 'QUEUED' && job.attempts > 0
+                                             ? `next try ${new Date(job.runAfter).toLocaleTimeString()}`
+                                             : new Date(job.finishedAt ?? job.startedAt ?? job.runAfter).toLocaleString()}
+                                     </td>
+                                 </tr>
+                             ))}
+                         </tbody>
+                     </table>
+                 )}
+             </div>
+
                          {isAddOpen && (
                              <Modal open={true} onClose={() => setIsAddOpen(false)} zIndex={1100}>
                                  <div className="dashboard-card w-full max-w-lg rounded-lg overflow-hidden border border-[#27272a] bg-[#09090b] animate-fade-in">
@@ -970,17 +1329,80 @@ const Blocking: React.FC = () => {
                                              />
                                          </div>
                                          <div>
-                                             <label className="block text-[10px] font-bold text-zinc-500 uppercase mb-2">URL</label>
-                                             <input
-                                                 value={newListUrl}
-                                                 onChange={(e) => setNewListUrl(e.target.value)}
-                                                 className="w-full bg-[#18181b] border border-[#27272a] rounded px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-zinc-500"
-                                                 placeholder="https://example.com/hosts.txt"
-                                             />
-                                             <div className="mt-2 text-[11px] text-zinc-500">
-                                                 Tip: Use a plain domain list or hosts-style list.
+                                             <label className="block text-[10px] font-bold text-zinc-500 uppercase mb-2">Source</label>
+                                             <div className="flex bg-[#18181b] rounded p-1 border border-[#27272a] w-fit">
+                                                 {([
+                                                     ['URL', 'URL / File'],
+                                                     ['PASTE', 'Paste'],
+                                                     ['UPLOAD', 'Upload']
+                                                 ] as const).map(([value, label]) => (
+                                                     <button
+                                                         key={value}
+                                                         type="button"
+                                                         onClick={() => setNewListSource(value)}
+                                                         className={`px-3 py-1 rounded text-[10px] font-bold transition-all ${newListSource === value ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+                                                     >
+                                                         {label}
+                                                     </button>
+                                                 ))}
                                              </div>
                                          </div>
+                                         {newListSource === 'URL' && (
+                                             <div>
+                                                 <label className="block text-[10px] font-bold text-zinc-500 uppercase mb-2">URL</label>
+                                                 <input
+                                                     value={newListUrl}
+                                                     onChange={(e) => setNewListUrl(e.target.value)}
+                                                     className="w-full bg-[#18181b] border border-[#27272a] rounded px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-zinc-500"
+                                                     placeholder="https://example.com/hosts.txt"
+                                                 />
+                                                 <div className="mt-2 text-[11px] text-zinc-500">
+                                                     Tip: Use a plain domain list or hosts-style list. Files in DATA_DIR/blocklists can be added as file://name.txt.
+                                                 </div>
+                                             </div>
+                                         )}
+                                         {newListSource === 'PASTE' && (
+                                             <div>
+                                                 <label className="block text-[10px] font-bold text-zinc-500 uppercase mb-2">List</label>
+                                                 <textarea
+                                                     value={newListContent}
+                                                     onChange={(e) => setNewListContent(e.target.value)}
+                                                     rows={8}
+                                                     className="w-full bg-[#18181b] border border-[#27272a] rounded px-3 py-2 text-xs font-mono text-zinc-200 focus:outline-none focus:border-zinc-500"
+                                                     placeholder={'ads.example.com\n0.0.0.0 tracker.example.net\n||metrics.example.org^'}
+                                                 />
+                                             </div>
+                                         )}
+                                         {newListSource === 'UPLOAD' && (
+                                             <div>
+                                                 <label className="block text-[10px] font-bold text-zinc-500 uppercase mb-2">File</label>
+                                                 <input
+                                                     type="file"
+                                                     accept=".txt,.list,.hosts,text/plain"
+                                                     onChange={(e) => setNewListFile(e.target.files?.[0] ?? null)}
+                                                     className="w-full text-xs text-zinc-400"
+                                                 />
+                                                 <div className="mt-2 text-[11px] text-zinc-500">
+                                                     The file is stored as an inline list and can be edited afterwards.
+                                                 </div>
+                                             </div>
+                                         )}
+                                         <div>
+                                             <label className="block text-[10px] font-bold text-zinc-500 uppercase mb-2">Type</label>
+                                             <select
+                                                 value={newListKind}
+                                                 onChange={(e) => setNewListKind(e.target.value === 'ALLOW' ? 'ALLOW' : 'BLOCK')}
+                                                 className="w-full bg-[#18181b] border border-[#27272a] rounded px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-zinc-500"
+                                             >
+                                                 <option value="BLOCK">Blocklist</option>
+                                                 <option value="ALLOW">Allowlist (for allowlist-only clients)</option>
+                                             </select>
+                                             {newListKind === 'ALLOW' && (
+                                                 <div className="mt-2 text-[11px] text-zinc-500">
+                                                     Allowlists never block. Clients in allowlist-only mode can only reach their domains, allowed apps and allow rules.
+                                                 </div>
+                                             )}
+                                         </div>
                                      </div>
                                      <div className="p-4 border-t border-[#27272a] bg-[#121214] flex justify-end gap-2">
                                          <button
@@ -999,6 +1421,42 @@ const Blocking: React.FC = () => {
                                  </div>
                              </Modal>
                          )}
+                         {inlineEdit && (
+                             <Modal open={true} onClose={() => setInlineEdit(null)} zIndex={1100}>
+                                 <div className="dashboard-card w-full max-w-2xl rounded-lg overflow-hidden border border-[#27272a] bg-[#09090b] animate-fade-in">
+                                     <div className="p-5 border-b border-[#27272a] flex justify-between items-center bg-[#121214]">
+                                         <h3 className="text-sm font-bold text-white uppercase tracking-wider">Edit {inlineEdit.name}</h3>
+                                         <button onClick={() => setInlineEdit(null)} className="text-zinc-500 hover:text-white">
+                                             <X className="w-5 h-5" />
+                                         </button>
+                                     </div>
+                                     <div className="p-6 space-y-3">
+                                         <textarea
+                                             value={inlineEdit.content}
+                                             onChange={(e) => setInlineEdit({ ...inlineEdit, content: e.target.value })}
+                                             rows={16}
+                                             className="w-full bg-[#18181b] border border-[#27272a] rounded px-3 py-2 text-xs font-mono text-zinc-200 focus:outline-none focus:border-zinc-500"
+                                             aria-label="List content"
+                                         />
+                                         {inlineEditError && <div className="text-[11px] text-rose-400">{inlineEditError}</div>}
+                                     </div>
+                                     <div className="p-4 border-t border-[#27272a] bg-[#121214] flex justify-end gap-2">
+                                         <button
+                                             onClick={() => setInlineEdit(null)}
+                                             className="px-4 py-2 rounded text-xs font-bold text-zinc-500 hover:text-white transition-colors"
+                                         >
+                                             CANCEL
+                                         </button>
+                                         <button
+                                             onClick={saveInlineEdit}
+                                             className="px-4 py-2 rounded bg-emerald-600 hover:bg-emerald-500 text-white transition-all text-xs font-bold"
+                                         >
+                                             SAVE
+                                         </button>
+                                     </div>
+                                 </div>
+                             </Modal>
+                         )}
           </div>
         )}
 
@@ -1167,6 +1625,38 @@ const Blocking: React.FC = () => {
                             </div>
                         </div>
 
+                        <div className="px-4 py-3 flex flex-wrap items-center justify-between gap-4 border-b border-[#27272a] bg-[#121214]">
+                            <div>
+                                <div className="text-xs text-zinc-200 font-bold mb-1">SafeSearch &amp; YouTube Restricted Mode</div>
+                                <div className="text-xs text-zinc-500">
+                                    CNAME-rewrites Google, Bing, DuckDuckGo and Yandex to their SafeSearch endpoints and YouTube to Restricted Mode. Clients and schedules can only add to this.
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-4">
+                                <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={globalSafeSearch.search}
+                                        disabled={appsBusy || readOnlyFollower}
+                                        onChange={(e) => void saveGlobalSafeSearch({ ...globalSafeSearch, search: e.target.checked })}
+                                        className="accent-emerald-600"
+                                    />
+                                    SafeSearch
+                                </label>
+                                <select
+                                    value={globalSafeSearch.youtube}
+                                    disabled={appsBusy || readOnlyFollower}
+                                    onChange={(e) => void saveGlobalSafeSearch({ ...globalSafeSearch, youtube: e.target.value as YoutubeRestrictMode })}
+                                    className="bg-[#09090b] border border-[#27272a] rounded px-2 py-1 text-xs text-zinc-200 disabled:opacity-50"
+                                    aria-label="YouTube Restricted Mode"
+                                >
+                                    <option value="off">YouTube: Off</option>
+                                    <option value="moderate">YouTube: Moderate</option>
+                                    <option value="strict">YouTube: Strict</option>
+                                </select>
+                            </div>
+                        </div>
+
                         <table className="w-full text-left">
                             <thead className="bg-[#09090b] text-[10px] text-zinc-500 uppercase font-bold tracking-wider">
                                 <tr>
@@ -1279,10 +1769,13 @@ const Blocking: React.FC = () => {
                           <Globe className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500" />
                           <input 
                              type="text" 
-                             placeholder="Enter domain (e.g. ads.example.com)"
+                             placeholder="Domain, wildcard or /regex/ (e.g. ads.example.com, ads*.example.com)"
                              className="w-full bg-[#09090b] border border-[#27272a] text-white pl-10 pr-4 py-2 rounded text-sm font-mono focus:outline-none focus:border-emerald-500 transition-colors"
                              value={domainInput}
-                             onChange={(e) => setDomainInput(e.target.value)}
+                             onChange={(e) => {
+                                 setDomainInput(e.target.value);
+                                 setRuleError(null);
+                             }}
                              onKeyDown={(e) => e.key === 'Enter' && handleAnalyze()}
                           />
                        </div>
@@ -1323,6 +1816,13 @@ const Blocking: React.FC = () => {
                               </div>
                     </div>
 
+                    {ruleError && (
+                       <div className="-mt-2 mb-4 text-xs text-rose-400 flex items-center gap-2">
+                          <AlertTriangle className="w-3.5 h-3.5" />
+                          {ruleError}
+                       </div>
+                    )}
+
                     {/* Analysis Result */}
                     {analysis && (
                        <div className="animate-fade-in bg-[#09090b] border border-[#27272a] rounded p-4 mb-4">
@@ -1379,7 +1879,14 @@ const Blocking: React.FC = () => {
                              {rule.type === 'BLOCKED' ? <XCircle className="w-4 h-4" /> : <CheckCircle className="w-4 h-4" />}
                           </div>
                           <div>
-                             <div className="text-sm font-mono text-zinc-200 font-medium">{rule.domain}</div>
+                             <div className="text-sm font-mono text-zinc-200 font-medium flex items-center gap-2">
+                                {rule.domain}
+                                {rulePatternKind(rule.domain) && (
+                                   <span className="text-[9px] font-bold px-1.5 py-0.5 rounded border border-indigo-900/50 bg-indigo-950/30 text-indigo-400">
+                                      {rulePatternKind(rule.domain)}
+                                   </span>
+                                )}
+                             </div>
                              <div className="flex items-center gap-2 mt-0.5">
                                 <span className={`text-[10px] uppercase font-bold ${getCategoryColor(rule.category)}`}>{rule.category}</span>
                                 <span className="text-[10px] text-zinc-600">• Added {rule.addedAt}</span>
@@ -1512,6 +2019,9 @@ const Blocking: React.FC = () => {
                                                             <div className="text-[9px] font-mono text-zinc-500">
                                                                 {list.mode === 'ACTIVE' ? 'BLOCKING ENABLED' : list.mode === 'SHADOW' ? 'DETECTED (SHADOW MODE)' : 'LIST DISABLED'}
                                                             </div>
+                                                            {auditResult.matchedPattern && (
+                                                                <div className="text-[10px] font-mono text-indigo-400 mt-1">Pattern: {auditResult.matchedPattern}</div>
+                                                            )}
                                                         </div>
                                                     </div>
                                                 ))}
@@ -1520,7 +2030,12 @@ const Blocking: React.FC = () => {
                                             <div className="flex flex-col items-center justify-center py-2 text-center">
                                                 <CheckCircle className="w-8 h-8 text-emerald-500 opacity-50 mb-2" />
                                                 <span className="text-xs font-bold text-emerald-500">Safe / Allowed</span>
-                                                <span className="text-[10px] text-zinc-500 mt-1">Not found in any active Gravity list.</span>
+                                                <span className="text-[10px] text-zinc-500 mt-1">
+                                                    {auditResult.allowedBy ? `Allowed by ${auditResult.allowedBy}.` : 'Not found in any active Gravity list.'}
+                                                </span>
+                                                {auditResult.matchedPattern && (
+                                                    <span className="text-[10px] font-mono text-indigo-400 mt-1">Pattern: {auditResult.matchedPattern}</span>
+                                                )}
                                             </div>
                                         )}
                                      </div>
@@ -1,6 +1,6 @@
 import React, { useMemo, useState, useEffect, useRef } from 'react';
-import { Smartphone, Laptop, Tv, Gamepad2, Tablet, Search, Shield, Globe, X, Filter, Lock, Skull, Heart, MessageCircle, Play, ShoppingCart, Ban, Grid, HelpCircle, Info, Moon, Clock, Calendar, Check, Pause, ChevronDown, ChevronUp, WifiOff, Power, Youtube, Network, Router, Sliders, Plus, Save, Fingerprint, RefreshCw, Pencil, Trash2 } from 'lucide-react';
-import { ClientProfile, ContentCategory, AppService, ScheduleModeType, BlocklistMode, Schedule } from '../types';
+import { Smartphone, Laptop, Tv, Gamepad2, Tablet, Search, Shield, Globe, X, Filter, Lock, Skull, Heart, MessageCircle, Play, ShoppingCart, Ban, Grid, HelpCircle, Info, Moon, Clock, Calendar, Check, Pause, ChevronDown, ChevronUp, WifiOff, Power, Youtube, Network, Router, Sliders, Plus, Save, Fingerprint, RefreshCw, Pencil, Trash2, Gauge } from 'lucide-react';
+import { ClientProfile, ContentCategory, AppService, ScheduleModeType, BlocklistKind, BlocklistMode, Schedule, BlockResponseMode, DnsUpstreamTarget, YoutubeRestrictMode, RateLimitSettings, ThrottledClient, DiscoveredClient, DiscoverySource } from '../types';
 import { AppLogo } from '../components/AppLogo';
 import { useClients } from '../contexts/ClientsContext';
 import Modal from '../components/Modal';
@@ -8,6 +8,33 @@ import { getAuthHeaders } from '../services/apiClient';
 import { ReadOnlyFollowerBanner } from '../components/ReadOnlyFollowerBanner';
 import { isReadOnlyFollower as isReadOnlyFollowerFn, useClusterStatus } from '../hooks/useClusterStatus';
 
+// Upstream override as shown in the input: DoH URL, or host[:port] (default ports omitted).
+const describeClientUpstream = (u: DnsUpstreamTarget): string => {
+  if (u.transport === 'doh') return u.dohUrl ?? '';
+  const defaultPort = u.transport === 'dot' ? 853 : 53;
+  return u.port && u.port !== defaultPort ? `${u.host ?? ''}:${u.port}` : u.host ?? '';
+};
+
+const upstreamFromInput = (transport: DnsUpstreamTarget['transport'], value: string): DnsUpstreamTarget => {
+  if (transport === 'doh') return { transport, dohUrl: value };
+  const m = value.match(/^\[(.+)\]:(\d+)$/) ?? (value.split(':').length === 2 ? value.match(/^(.+):(\d+)$/) : null);
+  if (m) return { transport, host: m[1], port: Number(m[2]) };
+  return { transport, host: value, port: transport === 'dot' ? 853 : 53 };
+};
+
+// Comma/space separated client ids from the device form; empty input clears them.
+const parseClientIds = (value: string): string[] =>
+  Array.from(new Set(value.split(/[\s,]+/).map((x) => x.trim().toLowerCase()).filter(Boolean)));
+
+const DISCOVERY_SOURCE_LABELS: Record<DiscoverySource, string> = {
+  observed: 'DNS logs',
+  lease: 'DHCP lease',
+  mdns: 'mDNS',
+  netbios: 'NetBIOS',
+  'reverse-dns': 'PTR',
+  arp: 'ARP'
+};
+
 const Clients: React.FC = () => {
   // Use global client context
     const { clients, addClient, updateClient, removeClient } = useClients();
@@ -20,6 +47,7 @@ const Clients: React.FC = () => {
   const [selectedClient, setSelectedClient] = useState<ClientProfile | null>(null);
 
     const [clientSaveMsg, setClientSaveMsg] = useState<string>('');
+    const [upstreamDraftTransport, setUpstreamDraftTransport] = useState<DnsUpstreamTarget['transport'] | ''>('');
     const [clientSaveFading, setClientSaveFading] = useState(false);
     const clientSaveFadeTimerRef = useRef<number | null>(null);
     const clientSaveClearTimerRef = useRef<number | null>(null);
@@ -34,8 +62,8 @@ const Clients: React.FC = () => {
                 const [scheduleToDelete, setScheduleToDelete] = useState<Schedule | null>(null);
         const [addNodeError, setAddNodeError] = useState<string | null>(null);
 
-    // Discovered clients (best-effort from DNS logs + optional reverse DNS)
-    const [discovered, setDiscovered] = useState<Array<{ ip: string; hostname: string | null; lastSeen?: string | null }>>([]);
+    // Discovered clients (DNS logs, lease files, mDNS/NetBIOS, reverse DNS, neighbor table)
+    const [discovered, setDiscovered] = useState<DiscoveredClient[]>([]);
     const [discoveredLoading, setDiscoveredLoading] = useState(false);
     const [discoveredError, setDiscoveredError] = useState<string | null>(null);
 
@@ -43,6 +71,7 @@ const Clients: React.FC = () => {
   const [newNodeData, setNewNodeData] = useState({
       name: '',
       mac: '',
+      clientIds: '',
       ip: '',
       cidr: '',
       deviceIcon: 'smartphone'
@@ -52,20 +81,22 @@ const Clients: React.FC = () => {
   const [editingScheduleId, setEditingScheduleId] = useState<string | null>(null);
 
     // Blocklists (for per-client override UI)
-    const [availableBlocklists, setAvailableBlocklists] = useState<Array<{ id: string; name: string; url: string; mode: BlocklistMode }>>([]);
+    const [availableBlocklists, setAvailableBlocklists] = useState<Array<{ id: string; name: string; url: string; mode: BlocklistMode; kind: BlocklistKind }>>([]);
     const [blocklistsError, setBlocklistsError] = useState<string | null>(null);
     const [blocklistSearch, setBlocklistSearch] = useState('');
 
     // Global filtering state (for per-client "use global" toggles)
     const [globalBlockedApps, setGlobalBlockedApps] = useState<AppService[]>([]);
+    const [throttledClients, setThrottledClients] = useState<ThrottledClient[]>([]);
 
-    const mapServerBlocklist = (row: any): { id: string; name: string; url: string; mode: BlocklistMode } | null => {
+    const mapServerBlocklist = (row: any): { id: string; name: string; url: string; mode: BlocklistMode; kind: BlocklistKind } | null => {
         const id = String(row?.id ?? '').trim();
         if (!id) return null;
         const enabled = row?.enabled !== false;
         const serverMode: BlocklistMode = row?.mode === 'SHADOW' ? 'SHADOW' : 'ACTIVE';
         const mode: BlocklistMode = enabled ? serverMode : 'DISABLED';
-        return { id, name: String(row?.name ?? `List ${id}`), url: String(row?.url ?? ''), mode };
+        const kind: BlocklistKind = row?.kind === 'ALLOW' ? 'ALLOW' : 'BLOCK';
+        return { id, name: String(row?.name ?? `List ${id}`), url: String(row?.url ?? ''), mode, kind };
     };
 
     const isCategoryBlocklist = (b: { name: string } | null | undefined) => String(b?.name ?? '').trim().toLowerCase().startsWith('category:');
@@ -81,6 +112,27 @@ const Clients: React.FC = () => {
         return blocklistsOnly.filter((b) => b.mode !== 'DISABLED').map((b) => b.id);
     }, [blocklistsOnly]);
 
+    useEffect(() => {
+        // Poll which clients are currently over their DNS rate limit (best-effort)
+        let cancelled = false;
+        const load = async () => {
+            try {
+                const res = await fetch('/api/dns/status', { headers: { ...getAuthHeaders() } });
+                const data = await res.json().catch(() => null);
+                const list = Array.isArray((data as any)?.rateLimit?.throttled) ? (data as any).rateLimit.throttled : [];
+                if (!cancelled) setThrottledClients(list);
+            } catch {
+                if (!cancelled) setThrottledClients([]);
+            }
+        };
+        void load();
+        const timer = window.setInterval(load, 15000);
+        return () => {
+            cancelled = true;
+            window.clearInterval(timer);
+        };
+    }, []);
+
     useEffect(() => {
         // Load global blocked apps when opening client modal (best-effort)
         if (!selectedClient) return;
@@ -117,7 +169,7 @@ const Clients: React.FC = () => {
             .then((data) => {
                 if (cancelled) return;
                 const items = Array.isArray(data?.items) ? data.items : [];
-                const mapped = items.map(mapServerBlocklist).filter(Boolean) as Array<{ id: string; name: string; url: string; mode: BlocklistMode }>;
+                const mapped = items.map(mapServerBlocklist).filter(Boolean) as Array<{ id: string; name: string; url: string; mode: BlocklistMode; kind: BlocklistKind }>;
                 setAvailableBlocklists(mapped);
             })
             .catch(() => {
@@ -373,6 +425,7 @@ const Clients: React.FC = () => {
       setNewNodeData({
           name: lease.hostname || lease.ip,
           mac: lease.mac,
+          clientIds: '',
           ip: lease.ip,
           cidr: '',
           deviceIcon: lease.type || 'smartphone'
@@ -398,12 +451,18 @@ const Clients: React.FC = () => {
           const items = Array.isArray(data?.items) ? data.items : [];
           setDiscovered(
               items
-                  .map((x: any) => ({
+                  .map((x: any): DiscoveredClient => ({
                       ip: typeof x?.ip === 'string' ? x.ip : '',
                       hostname: typeof x?.hostname === 'string' && x.hostname.trim() ? x.hostname.trim() : null,
-                      lastSeen: typeof x?.lastSeen === 'string' ? x.lastSeen : null
+                      lastSeen: typeof x?.lastSeen === 'string' ? x.lastSeen : null,
+                      mac: typeof x?.mac === 'string' ? x.mac : undefined,
+                      vendor: typeof x?.vendor === 'string' ? x.vendor : undefined,
+                      sources: Array.isArray(x?.sources) ? x.sources : [],
+                      source: typeof x?.source === 'string' ? x.source : 'observed',
+                      profileId: typeof x?.profileId === 'string' ? x.profileId : undefined,
+                      profileName: typeof x?.profileName === 'string' ? x.profileName : undefined
                   }))
-                  .filter((x: any) => !!x.ip)
+                  .filter((x) => !!x.ip)
           );
       } catch {
           setDiscoveredError('Backend not reachable.');
@@ -424,7 +483,7 @@ const Clients: React.FC = () => {
   // cluster status is loaded by useClusterStatus()
 
   const resetNewNodeData = () => {
-      setNewNodeData({ name: '', mac: '', ip: '', cidr: '', deviceIcon: 'smartphone' });
+      setNewNodeData({ name: '', mac: '', clientIds: '', ip: '', cidr: '', deviceIcon: 'smartphone' });
   };
 
     const isReadOnlyFollower = isReadOnlyFollowerFn(clusterStatus);
@@ -454,6 +513,7 @@ const Clients: React.FC = () => {
       setNewNodeData({
           name: client.name || '',
           mac: client.mac || '',
+          clientIds: (client.clientIds ?? []).join(', '),
           ip: client.ip || '',
           cidr: client.cidr || '',
           deviceIcon: isSubnet ? 'smartphone' : client.type || 'smartphone'
@@ -501,6 +561,7 @@ const Clients: React.FC = () => {
               isSubnet: isNetworkCreation,
               cidr: isNetworkCreation ? cidr : undefined,
               mac: !isNetworkCreation ? newNodeData.mac : undefined,
+              clientIds: !isNetworkCreation ? parseClientIds(newNodeData.clientIds) : undefined,
               ip: !isNetworkCreation ? newNodeData.ip : undefined
           };
 
@@ -526,6 +587,7 @@ const Clients: React.FC = () => {
           cidr: isNetworkCreation ? cidr : undefined,
           // Device Fields
           mac: !isNetworkCreation ? newNodeData.mac : undefined,
+          clientIds: !isNetworkCreation ? parseClientIds(newNodeData.clientIds) : undefined,
           ip: !isNetworkCreation ? newNodeData.ip : undefined,
           
           status: 'online',
@@ -602,6 +664,7 @@ const Clients: React.FC = () => {
   useEffect(() => {
       // Reset save status when switching clients / closing modal.
       setClientSaveMsg('');
+      setUpstreamDraftTransport('');
       setClientSaveFading(false);
       saveSeqRef.current += 1;
   }, [selectedClient?.id]);
@@ -666,6 +729,92 @@ const Clients: React.FC = () => {
       handleUpdateClient({ ...selectedClient, safeSearch: !selectedClient.safeSearch });
   };
 
+  const toggleAllowlistOnly = () => {
+      if(!selectedClient) return;
+      handleUpdateClient({ ...selectedClient, allowlistOnly: !selectedClient.allowlistOnly });
+  };
+
+  const toggleAllowedApp = (id: AppService) => {
+      if(!selectedClient) return;
+      const current = selectedClient.allowedApps ?? [];
+      handleUpdateClient({
+          ...selectedClient,
+          allowedApps: current.includes(id) ? current.filter((a) => a !== id) : [...current, id]
+      });
+  };
+
+  const setClientYoutubeRestrictMode = (mode: YoutubeRestrictMode | '') => {
+      if(!selectedClient) return;
+      if (!mode) {
+          const { youtubeRestrictMode: _ignored, ...rest } = selectedClient;
+          handleUpdateClient(rest);
+          return;
+      }
+      handleUpdateClient({ ...selectedClient, youtubeRestrictMode: mode });
+  };
+
+  const setClientBlockResponseMode = (mode: BlockResponseMode | '') => {
+      if(!selectedClient) return;
+      if (!mode) {
+          const { blockResponse: _ignored, ...rest } = selectedClient;
+          handleUpdateClient(rest);
+          return;
+      }
+      handleUpdateClient({ ...selectedClient, blockResponse: { ttl: 60, ...selectedClient.blockResponse, mode } });
+  };
+
+  const setClientSinkholeIp = (family: 'ipv4' | 'ipv6', value: string) => {
+      if(!selectedClient?.blockResponse) return;
+      const trimmed = value.trim();
+      if ((selectedClient.blockResponse[family] ?? '') === trimmed) return;
+      const next = { ...selectedClient.blockResponse };
+      if (trimmed) next[family] = trimmed;
+      else delete next[family];
+      handleUpdateClient({ ...selectedClient, blockResponse: next });
+  };
+
+  const setClientUpstreamTransport = (transport: DnsUpstreamTarget['transport'] | '') => {
+      if(!selectedClient) return;
+      if (!transport) {
+          const { upstream: _ignored, ...rest } = selectedClient;
+          handleUpdateClient(rest);
+          return;
+      }
+      // Keep the draft local until a target is entered; the server rejects incomplete overrides.
+      setUpstreamDraftTransport(transport);
+      if (selectedClient.upstream) {
+          handleUpdateClient({ ...selectedClient, upstream: upstreamFromInput(transport, describeClientUpstream(selectedClient.upstream)) });
+      }
+  };
+
+  const setClientUpstreamTarget = (value: string) => {
+      if(!selectedClient) return;
+      const transport = selectedClient.upstream?.transport ?? upstreamDraftTransport;
+      const trimmed = value.trim();
+      if (!transport || !trimmed) return;
+      if (selectedClient.upstream && describeClientUpstream(selectedClient.upstream) === trimmed && selectedClient.upstream.transport === transport) return;
+      handleUpdateClient({ ...selectedClient, upstream: upstreamFromInput(transport, trimmed) });
+  };
+
+  const setClientRateLimitMode = (mode: 'on' | 'off' | '') => {
+      if(!selectedClient) return;
+      if (!mode) {
+          const { rateLimit: _ignored, ...rest } = selectedClient;
+          handleUpdateClient(rest);
+          return;
+      }
+      const base: RateLimitSettings = selectedClient.rateLimit ?? { enabled: true, qps: 50, burst: 200, action: 'REFUSED' };
+      handleUpdateClient({ ...selectedClient, rateLimit: { ...base, enabled: mode === 'on' } });
+  };
+
+  const setClientRateLimitField = (patch: Partial<RateLimitSettings>) => {
+      if(!selectedClient?.rateLimit) return;
+      const next = { ...selectedClient.rateLimit, ...patch };
+      if (!Number.isInteger(next.qps) || next.qps < 1 || !Number.isInteger(next.burst) || next.burst < 1) return;
+      if (next.qps === selectedClient.rateLimit.qps && next.burst === selectedClient.rateLimit.burst && next.action === selectedClient.rateLimit.action) return;
+      handleUpdateClient({ ...selectedClient, rateLimit: next });
+  };
+
   const toggleInternetPause = () => {
       if(!selectedClient) return;
       handleUpdateClient({ ...selectedClient, isInternetPaused: !selectedClient.isInternetPaused });
@@ -687,6 +836,7 @@ const Clients: React.FC = () => {
       let newCats: ContentCategory[] = Array.isArray(current.blockedCategories) ? current.blockedCategories : [];
       let newApps: AppService[] = Array.isArray(current.blockedApps) ? current.blockedApps : [];
       let blockAll = current.blockAll === true;
+      let safeSearch = current.safeSearch === true;
 
       if (mode === 'sleep') {
           newCats = CATEGORIES.map(c => c.id);
@@ -697,6 +847,7 @@ const Clients: React.FC = () => {
           newCats = ['social', 'game', 'video'];
           newApps = ['tiktok', 'instagram', 'roblox'];
           blockAll = false;
+          safeSearch = true;
       }
       else if (mode === 'total_block') {
           newCats = [];
@@ -709,7 +860,7 @@ const Clients: React.FC = () => {
       }
 
       const updatedSchedules = selectedClient.schedules.map(s => 
-          s.id === scheduleId ? { ...s, mode: mode, blockedCategories: newCats, blockedApps: newApps, blockAll } : s
+          s.id === scheduleId ? { ...s, mode: mode, blockedCategories: newCats, blockedApps: newApps, blockAll, safeSearch } : s
       );
       handleUpdateClient({ ...selectedClient, schedules: updatedSchedules });
   }
@@ -870,7 +1021,24 @@ const Clients: React.FC = () => {
       </div>
   );
 
+  // Profiles are throttled as a whole; subnet members and unknown devices per IP.
+  const findThrottle = (client: ClientProfile): ThrottledClient | undefined =>
+      throttledClients.find((t) => (t.clientId ? t.clientId === client.id : !!client.ip && t.clientIp === client.ip));
+  const selectedThrottle = selectedClient ? findThrottle(selectedClient) : undefined;
+
   const getStatusBadge = (client: ClientProfile) => {
+      const throttle = findThrottle(client);
+      if (throttle) {
+          return (
+             <div
+                className="flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-amber-500/10 border border-amber-500/30 text-amber-400 text-[10px] font-bold uppercase"
+                title={`${throttle.limited} queries limited since ${new Date(throttle.since).toLocaleTimeString()}`}
+             >
+                <Gauge className="w-3 h-3" />
+                <span>Rate Limited</span>
+             </div>
+          );
+      }
       if (client.isInternetPaused) {
           return (
              <div className="flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-rose-500/10 border border-rose-500/30 text-rose-400 text-[10px] font-bold uppercase animate-pulse">
@@ -888,6 +1056,14 @@ const Clients: React.FC = () => {
              </div>
           );
       }
+      if (client.allowlistOnly) {
+          return (
+             <div className="flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-emerald-500/10 border border-emerald-500/30 text-emerald-400 text-[10px] font-bold uppercase">
+                <Lock className="w-3 h-3" />
+                <span>Allowlist Only</span>
+             </div>
+          );
+      }
       return null;
   };
 
@@ -1139,6 +1315,7 @@ const Clients: React.FC = () => {
                                     <p className="text-[10px] text-zinc-500 leading-relaxed">
                                         Sentinel detects devices by matching identifying information in the request. 
                                         Provide the MAC (Layer 2) or IP (Layer 3) assigned by your router.
+                                        A MAC keeps matching after DHCP hands out a new IP (EDNS option from dnsmasq/OpenWrt, or the ARP table with host networking).
                                     </p>
                                     
                                     <div className="grid grid-cols-2 gap-4">
@@ -1163,13 +1340,34 @@ const Clients: React.FC = () => {
                                             />
                                         </div>
                                     </div>
+                                    <div>
+                                        <label className="block text-[10px] font-bold text-zinc-400 uppercase mb-1.5">Client IDs (optional)</label>
+                                        <input
+                                            type="text"
+                                            placeholder="kids-tablet, tablet"
+                                            className="w-full bg-[#09090b] border border-[#27272a] rounded px-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-emerald-500 placeholder:text-zinc-700"
+                                            value={newNodeData.clientIds}
+                                            onChange={(e) => setNewNodeData({...newNodeData, clientIds: e.target.value})}
+                                        />
+                                        <div className="text-[10px] text-zinc-600 mt-1">Comma separated. Matched against the EDNS client-ID option (dnsmasq --add-cpe-id) from trusted forwarders (DNS_EDNS_TRUSTED_SOURCES).</div>
+                                    </div>
+                                    {editingClient?.dnsToken && (
+                                        <div>
+                                            <label className="block text-[10px] font-bold text-zinc-400 uppercase mb-1.5">Encrypted DNS (roaming)</label>
+                                            <div className="bg-[#09090b] border border-[#27272a] rounded px-3 py-2 text-[11px] font-mono text-zinc-300 space-y-1 break-all select-all">
+                                                <div>DoH: {window.location.origin}/dns-query/{editingClient.dnsToken}</div>
+                                                <div>DoT: {editingClient.dnsToken}.&lt;DNS_TLS_SERVER_NAME&gt;</div>
+                                            </div>
+                                            <div className="text-[10px] text-zinc-600 mt-1">Applies this profile wherever the device is. Treat the token like a password: anyone who has it gets this profile's policy.</div>
+                                        </div>
+                                    )}
                                 </div>
                              )}
 
                              {addMode === 'scan' && (
                                  <div className="space-y-2 animate-fade-in max-h-[200px] overflow-y-auto pr-1">
                                      <div className="flex justify-between items-center text-xs text-zinc-500 mb-2">
-                                         <span>Discovered from recent DNS activity</span>
+                                         <span>Discovered from DNS activity, DHCP leases and LAN names</span>
                                          <button
                                              onClick={loadDiscovered}
                                              className="inline-flex items-center gap-2 text-[10px] font-bold text-zinc-400 hover:text-white"
@@ -1196,24 +1394,39 @@ const Clients: React.FC = () => {
                                          <div className="text-center py-8 text-zinc-600 border border-dashed border-[#27272a] rounded">
                                              <Search className="w-6 h-6 mx-auto mb-2 opacity-20" />
                                              <div className="text-xs">No clients discovered yet.</div>
-                                             <div className="text-[10px] text-zinc-700 mt-1">Generate some DNS traffic, or configure reverse DNS in Local DNS → Client Discovery.</div>
+                                             <div className="text-[10px] text-zinc-700 mt-1">Generate some DNS traffic, or add lease files / reverse DNS in Local DNS → Client Discovery.</div>
                                          </div>
                                      ) : (
                                          <div className="space-y-2">
                                              {discovered.map((d) => (
-                                                 <button
+                                                 <div
                                                      key={d.ip}
-                                                     onClick={() => handleSelectDiscovered({ ip: d.ip, hostname: d.hostname || d.ip, mac: '', type: 'smartphone' })}
-                                                     className="w-full text-left px-3 py-2 rounded border border-[#27272a] bg-[#121214] hover:bg-[#18181b] hover:border-zinc-500 transition-colors"
+                                                     className="w-full px-3 py-2 rounded border border-[#27272a] bg-[#121214] hover:bg-[#18181b] transition-colors"
                                                  >
                                                      <div className="flex items-center justify-between gap-3">
-                                                         <div className="flex flex-col">
-                                                             <span className="text-xs text-zinc-200 font-mono">{d.hostname || d.ip}</span>
-                                                             <span className="text-[10px] text-zinc-600 font-mono">{d.ip}</span>
+                                                         <div className="flex flex-col min-w-0">
+                                                             <span className="text-xs text-zinc-200 font-mono truncate">{d.hostname || d.ip}</span>
+                                                             <span className="text-[10px] text-zinc-600 font-mono truncate">
+                                                                 {[d.ip, d.mac, d.vendor].filter(Boolean).join(' · ')}
+                                                             </span>
+                                                             <span className="text-[9px] text-zinc-600 uppercase tracking-wide">
+                                                                 {d.sources.map((s) => DISCOVERY_SOURCE_LABELS[s] ?? s).join(' · ')}
+                                                             </span>
                                                          </div>
-                                                         <span className="text-[10px] text-zinc-500">ADD</span>
+                                                         {d.profileId ? (
+                                                             <span className="text-[10px] text-emerald-500 whitespace-nowrap" title="Already has a client profile">
+                                                                 {d.profileName || 'PROFILE'}
+                                                             </span>
+                                                         ) : (
+                                                             <button
+                                                                 onClick={() => handleSelectDiscovered({ ip: d.ip, hostname: d.hostname || d.ip, mac: d.mac ?? '', type: 'smartphone' })}
+                                                                 className="px-2 py-1 rounded text-[10px] font-bold text-zinc-400 hover:text-white border border-[#27272a] hover:border-zinc-500 whitespace-nowrap"
+                                                             >
+                                                                 CREATE PROFILE
+                                                             </button>
+                                                         )}
                                                      </div>
-                                                 </button>
+                                                 </div>
                                              ))}
                                          </div>
                                      )}
@@ -1426,6 +1639,221 @@ const Clients: React.FC = () => {
                                             <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all ${selectedClient.safeSearch ? 'right-0.5' : 'left-0.5'}`}></div>
                                         </div>
                                     </div>
+                                    <div className="mt-2 p-4 bg-[#18181b] border border-[#27272a] rounded flex items-center justify-between gap-4">
+                                        <div>
+                                            <div className="text-sm font-bold text-zinc-200">YouTube Restricted Mode</div>
+                                            <div className="text-[10px] text-zinc-500 mt-1 max-w-[400px]">
+                                                Adds to the global setting; schedules with SafeSearch enforce Strict while active.
+                                            </div>
+                                        </div>
+                                        <select
+                                            value={selectedClient.youtubeRestrictMode ?? ''}
+                                            onChange={(e) => setClientYoutubeRestrictMode(e.target.value as YoutubeRestrictMode | '')}
+                                            className="bg-[#09090b] border border-[#27272a] rounded px-2 py-1 text-xs text-zinc-200"
+                                        >
+                                            <option value="">Follow SafeSearch ({selectedClient.safeSearch ? 'Strict' : 'Off'})</option>
+                                            <option value="off">Off</option>
+                                            <option value="moderate">Moderate</option>
+                                            <option value="strict">Strict</option>
+                                        </select>
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-4">Allowlist Only</h3>
+                                    <div className="p-4 bg-[#18181b] border border-[#27272a] rounded space-y-4">
+                                        <div className="flex items-center justify-between gap-4">
+                                            <div className="flex items-center gap-4">
+                                                <div className={`p-2 rounded-lg ${selectedClient.allowlistOnly ? 'bg-emerald-500/20 text-emerald-400' : 'bg-zinc-800 text-zinc-500'}`}>
+                                                    <Lock className="w-5 h-5" />
+                                                </div>
+                                                <div>
+                                                    <div className="text-sm font-bold text-zinc-200">Deny by default</div>
+                                                    <div className="text-[10px] text-zinc-500 mt-1 max-w-[400px]">
+                                                        Only allow rules, the apps below and allowlists selected for this {selectedClient.isSubnet ? 'subnet' : 'client'} resolve; everything else is blocked. Schedules can switch this on for a time window.
+                                                    </div>
+                                                </div>
+                                            </div>
+                                            <div
+                                                onClick={toggleAllowlistOnly}
+                                                className={`w-10 h-5 rounded-full relative cursor-pointer transition-colors flex-shrink-0 ${selectedClient.allowlistOnly ? 'bg-emerald-600' : 'bg-zinc-700'}`}
+                                            >
+                                                <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all ${selectedClient.allowlistOnly ? 'right-0.5' : 'left-0.5'}`}></div>
+                                            </div>
+                                        </div>
+                                        <div className="pt-4 border-t border-[#27272a]">
+                                            <div className="text-[10px] font-bold text-zinc-500 uppercase mb-2">Allowed Applications</div>
+                                            <div className="max-h-56 overflow-y-auto pr-1">
+                                                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                                                    {APPS_SORTED.map((app) => {
+                                                        const isSelected = (selectedClient.allowedApps ?? []).includes(app.id);
+                                                        return (
+                                                            <div
+                                                                key={app.id}
+                                                                onClick={() => toggleAllowedApp(app.id)}
+                                                                className={`flex items-center gap-2 p-2 rounded cursor-pointer border transition-all ${
+                                                                    isSelected
+                                                                    ? 'bg-emerald-950/20 border-emerald-500/50 text-emerald-400'
+                                                                    : 'bg-[#09090b] border-[#27272a] text-zinc-400 hover:border-zinc-500'
+                                                                }`}
+                                                            >
+                                                                <AppLogo app={app.id} label={app.label} size={14} />
+                                                                <span className="text-[10px] font-bold">{app.label}</span>
+                                                            </div>
+                                                        );
+                                                    })}
+                                                </div>
+                                            </div>
+                                        </div>
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-4">Block Response</h3>
+                                    <div className="p-4 bg-[#18181b] border border-[#27272a] rounded space-y-3">
+                                        <div className="flex items-center justify-between gap-4">
+                                            <div>
+                                                <div className="text-sm font-bold text-zinc-200">Answer for blocked queries</div>
+                                                <div className="text-[10px] text-zinc-500 mt-1">
+                                                    Overrides the global block response from DNS Settings for this {selectedClient.isSubnet ? 'subnet' : 'client'}.
+                                                </div>
+                                            </div>
+                                            <select
+                                                value={selectedClient.blockResponse?.mode ?? ''}
+                                                onChange={(e) => setClientBlockResponseMode(e.target.value as BlockResponseMode | '')}
+                                                className="bg-[#09090b] border border-[#27272a] rounded px-2 py-1 text-xs text-zinc-200"
+                                            >
+                                                <option value="">Use global setting</option>
+                                                <option value="NXDOMAIN">NXDOMAIN</option>
+                                                <option value="NODATA">NODATA</option>
+                                                <option value="NULL_IP">Null IP (0.0.0.0 / ::)</option>
+                                                <option value="REFUSED">REFUSED</option>
+                                                <option value="CUSTOM_IP">Custom sinkhole IP</option>
+                                            </select>
+                                        </div>
+                                        {selectedClient.blockResponse?.mode === 'CUSTOM_IP' && (
+                                            <div className="grid grid-cols-2 gap-3">
+                                                <input
+                                                    key={`${selectedClient.id}-ipv4`}
+                                                    defaultValue={selectedClient.blockResponse.ipv4 ?? ''}
+                                                    onBlur={(e) => setClientSinkholeIp('ipv4', e.target.value)}
+                                                    placeholder="Sinkhole IPv4"
+                                                    className="w-full bg-[#09090b] border border-[#27272a] rounded px-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-zinc-500"
+                                                />
+                                                <input
+                                                    key={`${selectedClient.id}-ipv6`}
+                                                    defaultValue={selectedClient.blockResponse.ipv6 ?? ''}
+                                                    onBlur={(e) => setClientSinkholeIp('ipv6', e.target.value)}
+                                                    placeholder="Sinkhole IPv6 (optional)"
+                                                    className="w-full bg-[#09090b] border border-[#27272a] rounded px-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-zinc-500"
+                                                />
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-4">Upstream Resolver</h3>
+                                    <div className="p-4 bg-[#18181b] border border-[#27272a] rounded space-y-3">
+                                        <div className="flex items-center justify-between gap-4">
+                                            <div>
+                                                <div className="text-sm font-bold text-zinc-200">Resolver for allowed queries</div>
+                                                <div className="text-[10px] text-zinc-500 mt-1">
+                                                    {selectedClient.isSubnet
+                                                        ? 'Applies to devices in this subnet unless a device sets its own.'
+                                                        : 'Falls back to the subnet profile, then the global upstream.'}
+                                                </div>
+                                            </div>
+                                            <select
+                                                value={selectedClient.upstream?.transport ?? upstreamDraftTransport}
+                                                onChange={(e) => setClientUpstreamTransport(e.target.value as DnsUpstreamTarget['transport'] | '')}
+                                                className="bg-[#09090b] border border-[#27272a] rounded px-2 py-1 text-xs text-zinc-200"
+                                            >
+                                                <option value="">Inherit</option>
+                                                <option value="udp">UDP</option>
+                                                <option value="tcp">TCP</option>
+                                                <option value="dot">DoT</option>
+                                                <option value="doh">DoH</option>
+                                            </select>
+                                        </div>
+                                        {(selectedClient.upstream || upstreamDraftTransport) && (
+                                            <input
+                                                key={`${selectedClient.id}-upstream-${selectedClient.upstream?.transport ?? upstreamDraftTransport}`}
+                                                defaultValue={selectedClient.upstream ? describeClientUpstream(selectedClient.upstream) : ''}
+                                                onBlur={(e) => setClientUpstreamTarget(e.target.value)}
+                                                placeholder={(selectedClient.upstream?.transport ?? upstreamDraftTransport) === 'doh' ? 'https://family.resolver/dns-query' : '185.228.168.168 or host:port'}
+                                                className="w-full bg-[#09090b] border border-[#27272a] rounded px-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-zinc-500"
+                                            />
+                                        )}
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-4">Rate Limit</h3>
+                                    <div className="p-4 bg-[#18181b] border border-[#27272a] rounded space-y-3">
+                                        <div className="flex items-center justify-between gap-4">
+                                            <div>
+                                                <div className="text-sm font-bold text-zinc-200">DNS queries per second</div>
+                                                <div className="text-[10px] text-zinc-500 mt-1">
+                                                    {selectedClient.isSubnet
+                                                        ? 'Each device in this subnet gets its own bucket unless it has a profile.'
+                                                        : 'Overrides the global rate limit from DNS Settings for this client.'}
+                                                </div>
+                                            </div>
+                                            <select
+                                                value={selectedClient.rateLimit ? (selectedClient.rateLimit.enabled ? 'on' : 'off') : ''}
+                                                onChange={(e) => setClientRateLimitMode(e.target.value as 'on' | 'off' | '')}
+                                                className="bg-[#09090b] border border-[#27272a] rounded px-2 py-1 text-xs text-zinc-200"
+                                            >
+                                                <option value="">Use global setting</option>
+                                                <option value="on">Custom limit</option>
+                                                <option value="off">Exempt</option>
+                                            </select>
+                                        </div>
+                                        {selectedClient.rateLimit?.enabled && (
+                                            <div className="grid grid-cols-3 gap-3">
+                                                <label className="text-[10px] text-zinc-500 space-y-1">
+                                                    <span>Queries / s</span>
+                                                    <input
+                                                        key={`${selectedClient.id}-qps`}
+                                                        type="number"
+                                                        min={1}
+                                                        defaultValue={selectedClient.rateLimit.qps}
+                                                        onBlur={(e) => setClientRateLimitField({ qps: Number(e.target.value) })}
+                                                        className="w-full bg-[#09090b] border border-[#27272a] rounded px-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-zinc-500"
+                                                    />
+                                                </label>
+                                                <label className="text-[10px] text-zinc-500 space-y-1">
+                                                    <span>Burst</span>
+                                                    <input
+                                                        key={`${selectedClient.id}-burst`}
+                                                        type="number"
+                                                        min={1}
+                                                        defaultValue={selectedClient.rateLimit.burst}
+                                                        onBlur={(e) => setClientRateLimitField({ burst: Number(e.target.value) })}
+                                                        className="w-full bg-[#09090b] border border-[#27272a] rounded px-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-zinc-500"
+                                                    />
+                                                </label>
+                                                <label className="text-[10px] text-zinc-500 space-y-1">
+                                                    <span>When exceeded</span>
+                                                    <select
+                                                        value={selectedClient.rateLimit.action}
+                                                        onChange={(e) => setClientRateLimitField({ action: e.target.value as RateLimitSettings['action'] })}
+                                                        className="w-full bg-[#09090b] border border-[#27272a] rounded px-2 py-2 text-xs text-zinc-200"
+                                                    >
+                                                        <option value="REFUSED">Answer REFUSED</option>
+                                                        <option value="DROP">Drop silently</option>
+                                                    </select>
+                                                </label>
+                                            </div>
+                                        )}
+                                        {selectedThrottle && (
+                                            <div className="text-[10px] text-amber-400">
+                                                Currently throttled: {selectedThrottle.limited} queries limited since{' '}
+                                                {new Date(selectedThrottle.since).toLocaleTimeString()}.
+                                            </div>
+                                        )}
+                                    </div>
                                 </div>
 
                                 <div>
@@ -1506,6 +1934,7 @@ const Clients: React.FC = () => {
                                                                         </div>
                                                                     </div>
                                                                     <div className="flex items-center gap-2 flex-shrink-0">
+                                                                        {b.kind === 'ALLOW' && <span className="text-[10px] font-bold px-2 py-0.5 rounded bg-sky-950/30 text-sky-300 border border-sky-800/40">ALLOWLIST</span>}
                                                                         {isShadow && <span className="text-[10px] font-bold px-2 py-0.5 rounded bg-indigo-950/30 text-indigo-300 border border-indigo-800/40">SHADOW</span>}
                                                                         {isGlobalDisabled && <span className="text-[10px] font-bold px-2 py-0.5 rounded bg-zinc-900 text-zinc-500 border border-[#27272a]">GLOBAL OFF</span>}
                                                                     </div>
@@ -1667,6 +2096,24 @@ const Clients: React.FC = () => {
                                                           <option key={m.id} value={m.id}>{m.label}</option>
                                                       ))}
                                                   </select>
+                                                  <label className="flex items-center gap-2 pt-1 text-[10px] text-zinc-400 cursor-pointer">
+                                                      <input
+                                                          type="checkbox"
+                                                          checked={schedule.safeSearch === true}
+                                                          onChange={(e) => updateScheduleFields(schedule.id, { safeSearch: e.target.checked })}
+                                                          className="accent-emerald-600"
+                                                      />
+                                                      Force SafeSearch + YouTube Restricted Mode
+                                                  </label>
+                                                  <label className="flex items-center gap-2 text-[10px] text-zinc-400 cursor-pointer">
+                                                      <input
+                                                          type="checkbox"
+                                                          checked={schedule.allowlistOnly === true}
+                                                          onChange={(e) => updateScheduleFields(schedule.id, { allowlistOnly: e.target.checked })}
+                                                          className="accent-emerald-600"
+                                                      />
+                                                      Allowlist only (block everything not allowed)
+                                                  </label>
                                               </div>
                                           </div>
 
@@ -386,7 +386,8 @@ const Dashboard: React.FC = () => {
           return {
             time,
             queries: Number(it?.queries ?? 0),
-            ads: Number(it?.ads ?? 0)
+            ads: Number(it?.ads ?? 0),
+            cached: Number(it?.cached ?? 0)
           };
         });
         setChartData(mappedTs);
@@ -580,6 +581,9 @@ const Dashboard: React.FC = () => {
                 <span className="flex items-center gap-1.5 text-xs text-zinc-400">
                   <span className="w-2 h-2 rounded-full bg-rose-500"></span> Blocked
                 </span>
+                <span className="flex items-center gap-1.5 text-xs text-zinc-400">
+                  <span className="w-2 h-2 rounded-full bg-emerald-500"></span> Cached
+                </span>
               </div>
             </div>
             <div className="flex-1 min-h-0 w-full">
@@ -594,6 +598,10 @@ const Dashboard: React.FC = () => {
                       <stop offset="5%" stopColor="#f43f5e" stopOpacity={0.2} />
                       <stop offset="95%" stopColor="#f43f5e" stopOpacity={0} />
                     </linearGradient>
+                    <linearGradient id="colorCached" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="#10b981" stopOpacity={0.2} />
+                      <stop offset="95%" stopColor="#10b981" stopOpacity={0} />
+                    </linearGradient>
                   </defs>
                   <CartesianGrid strokeDasharray="3 3" stroke="#27272a" vertical={false} />
                   <XAxis dataKey="time" stroke="#52525b" fontSize={11} tickLine={false} axisLine={false} fontFamily="JetBrains Mono" />
@@ -612,6 +620,7 @@ const Dashboard: React.FC = () => {
                   />
                   <Area type="monotone" dataKey="queries" stroke="#6366f1" strokeWidth={2} fillOpacity={1} fill="url(#colorQueries)" />
                   <Area type="monotone" dataKey="ads" stroke="#f43f5e" strokeWidth={2} fillOpacity={1} fill="url(#colorAds)" />
+                  <Area type="monotone" dataKey="cached" stroke="#10b981" strokeWidth={2} fillOpacity={1} fill="url(#colorCached)" />
                 </AreaChart>
               </ResponsiveContainer>
             </div>
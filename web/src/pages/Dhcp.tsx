@@ -0,0 +1,431 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Network, Plus, RefreshCw, Router, Save, Trash2, Lock, Wifi } from 'lucide-react';
+import { apiFetch, getAuthHeaders } from '../services/apiClient';
+import { ReadOnlyFollowerBanner } from '../components/ReadOnlyFollowerBanner';
+import { isReadOnlyFollower, useClusterStatus } from '../hooks/useClusterStatus';
+import type { DhcpLease, DhcpReservation, DhcpScope, DhcpServerStatus } from '../types';
+
+// Form state: list and number fields are edited as text.
+type ScopeDraft = {
+  key: string;
+  id?: string;
+  name: string;
+  enabled: boolean;
+  subnet: string;
+  rangeStart: string;
+  rangeEnd: string;
+  router: string;
+  dnsServers: string;
+  domain: string;
+  leaseHours: string;
+  serverIp: string;
+};
+
+let draftSeq = 0;
+
+function toDraft(scope: DhcpScope): ScopeDraft {
+  return {
+    key: scope.id,
+    id: scope.id,
+    name: scope.name,
+    enabled: scope.enabled,
+    subnet: scope.subnet,
+    rangeStart: scope.rangeStart,
+    rangeEnd: scope.rangeEnd,
+    router: scope.router ?? '',
+    dnsServers: scope.dnsServers.join(', '),
+    domain: scope.domain,
+    leaseHours: String(Math.round((scope.leaseTimeSec / 3600) * 100) / 100),
+    serverIp: scope.serverIp ?? ''
+  };
+}
+
+function emptyDraft(): ScopeDraft {
+  draftSeq += 1;
+  return {
+    key: `new-${draftSeq}`,
+    name: '',
+    enabled: true,
+    subnet: '192.168.1.0/24',
+    rangeStart: '192.168.1.100',
+    rangeEnd: '192.168.1.199',
+    router: '192.168.1.1',
+    dnsServers: '',
+    domain: 'lan',
+    leaseHours: '24',
+    serverIp: ''
+  };
+}
+
+function fromDraft(d: ScopeDraft) {
+  return {
+    ...(d.id ? { id: d.id } : {}),
+    name: d.name.trim(),
+    enabled: d.enabled,
+    subnet: d.subnet.trim(),
+    rangeStart: d.rangeStart.trim(),
+    rangeEnd: d.rangeEnd.trim(),
+    router: d.router.trim(),
+    dnsServers: d.dnsServers
+      .split(/[\s,]+/)
+      .map((s) => s.trim())
+      .filter(Boolean),
+    domain: d.domain.trim(),
+    leaseTimeSec: Math.round(Number(d.leaseHours) * 3600),
+    serverIp: d.serverIp.trim()
+  };
+}
+
+function formatWhen(iso?: string | null): string {
+  if (!iso) return '—';
+  const t = Date.parse(iso);
+  if (!Number.isFinite(t)) return iso;
+  return new Date(t).toLocaleString();
+}
+
+const SCOPE_FIELDS: Array<{ field: keyof ScopeDraft; label: string; placeholder: string; hint?: string }> = [
+  { field: 'name', label: 'Name', placeholder: 'Home LAN' },
+  { field: 'subnet', label: 'Subnet (CIDR)', placeholder: '192.168.1.0/24' },
+  { field: 'rangeStart', label: 'Pool start', placeholder: '192.168.1.100' },
+  { field: 'rangeEnd', label: 'Pool end', placeholder: '192.168.1.199' },
+  { field: 'router', label: 'Router (gateway)', placeholder: '192.168.1.1' },
+  { field: 'dnsServers', label: 'DNS servers', placeholder: 'empty = this server', hint: 'Comma-separated; leave empty to hand out this server.' },
+  { field: 'domain', label: 'Domain', placeholder: 'lan', hint: 'Leased devices resolve as <host>.<domain>.' },
+  { field: 'leaseHours', label: 'Lease time (hours)', placeholder: '24' },
+  { field: 'serverIp', label: 'Server IP', placeholder: 'auto-detect', hint: 'Only needed when this host has no address inside the subnet.' }
+];
+
+const Dhcp: React.FC = () => {
+  const { status: clusterStatus } = useClusterStatus();
+  const readOnlyFollower = isReadOnlyFollower(clusterStatus);
+
+  const [enabled, setEnabled] = useState(false);
+  const [scopes, setScopes] = useState<ScopeDraft[]>([]);
+  const [serverStatus, setServerStatus] = useState<(DhcpServerStatus & { port: number }) | null>(null);
+  const [leases, setLeases] = useState<DhcpLease[]>([]);
+  const [reservations, setReservations] = useState<DhcpReservation[]>([]);
+  const [showExpired, setShowExpired] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [msgKind, setMsgKind] = useState<'success' | 'error'>('success');
+
+  const showMsg = (text: string, kind: 'success' | 'error') => {
+    setMsg(text);
+    setMsgKind(kind);
+  };
+
+  const loadLeases = async () => {
+    try {
+      const res = await apiFetch('/api/dhcp/leases', { headers: { ...getAuthHeaders() } });
+      const data = await res.json().catch(() => ({} as any));
+      if (!res.ok) return;
+      setLeases(Array.isArray(data?.items) ? data.items : []);
+      setReservations(Array.isArray(data?.reservations) ? data.reservations : []);
+    } catch {
+      // keep the previous table
+    }
+  };
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/dhcp/settings', { headers: { ...getAuthHeaders() } });
+      const data = await res.json().catch(() => ({} as any));
+      if (!res.ok) {
+        showMsg(data?.message || data?.error || 'Failed to load DHCP settings.', 'error');
+        return;
+      }
+      setEnabled(data?.value?.enabled === true);
+      setScopes(Array.isArray(data?.value?.scopes) ? data.value.scopes.map(toDraft) : []);
+      setServerStatus(data?.status ?? null);
+      await loadLeases();
+    } catch {
+      showMsg('Backend not reachable.', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const save = async () => {
+    setSaving(true);
+    setMsg(null);
+    try {
+      const res = await apiFetch('/api/dhcp/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+        body: JSON.stringify({ enabled, scopes: scopes.map(fromDraft) })
+      });
+      const data = await res.json().catch(() => ({} as any));
+      if (!res.ok) {
+        showMsg(data?.message || data?.error || 'Save failed.', 'error');
+        return;
+      }
+      setEnabled(data?.value?.enabled === true);
+      setScopes(Array.isArray(data?.value?.scopes) ? data.value.scopes.map(toDraft) : []);
+      showMsg('Saved. The server picks up changes within 15 seconds.', 'success');
+      await loadLeases();
+    } catch {
+      showMsg('Backend not reachable.', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const forgetLease = async (ip: string) => {
+    try {
+      const res = await apiFetch(`/api/dhcp/leases/${encodeURIComponent(ip)}`, {
+        method: 'DELETE',
+        headers: { ...getAuthHeaders() }
+      });
+      if (!res.ok && res.status !== 204) {
+        const data = await res.json().catch(() => ({} as any));
+        showMsg(data?.message || data?.error || 'Delete failed.', 'error');
+        return;
+      }
+      setLeases((prev) => prev.filter((l) => l.ip !== ip));
+    } catch {
+      showMsg('Backend not reachable.', 'error');
+    }
+  };
+
+  const updateScope = (key: string, patch: Partial<ScopeDraft>) => {
+    setScopes((prev) => prev.map((s) => (s.key === key ? { ...s, ...patch } : s)));
+  };
+
+  const scopeNames = useMemo(() => new Map(scopes.map((s) => [s.id ?? s.key, s.name || s.subnet])), [scopes]);
+  const visibleLeases = useMemo(() => (showExpired ? leases : leases.filter((l) => l.active)), [leases, showExpired]);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex justify-between items-end">
+        <div>
+          <h2 className="text-xl font-bold text-white tracking-tight flex items-center gap-2">
+            <Router className="w-5 h-5 text-zinc-500" /> DHCP Server
+          </h2>
+          <p className="text-zinc-500 text-sm mt-1">Hand out addresses with this server as DNS, so every device is identified by name.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {msg ? (
+            <span
+              className={`inline-flex items-center px-2 py-1 rounded border text-[11px] font-bold tracking-tight ${
+                msgKind === 'success'
+                  ? 'bg-emerald-950/20 text-emerald-300 border-emerald-700/40'
+                  : 'bg-rose-950/20 text-rose-300 border-rose-700/40'
+              }`}
+            >
+              {msg}
+            </span>
+          ) : null}
+          <button
+            onClick={() => void save()}
+            disabled={readOnlyFollower || saving || loading}
+            className="btn-primary flex items-center gap-2 px-4 py-2 rounded text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-3.5 h-3.5" />
+            SAVE CHANGES
+          </button>
+        </div>
+      </div>
+
+      <ReadOnlyFollowerBanner show={readOnlyFollower} />
+
+      <div className="dashboard-card p-6 rounded-lg space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+              <Wifi className="w-4 h-4 text-indigo-500" /> Server
+            </h3>
+            <div className="text-[10px] text-zinc-500 mt-1">
+              Requires host networking (UDP {serverStatus?.port ?? 67}) and must be the only DHCP server on the LAN: turn off DHCP on your router first.
+              In an HA pair only the active node serves.
+            </div>
+          </div>
+          <div
+            onClick={() => !readOnlyFollower && setEnabled((v) => !v)}
+            className={`shrink-0 w-10 h-5 rounded-full relative cursor-pointer transition-colors ${enabled ? 'bg-emerald-600' : 'bg-zinc-700'}`}
+            title={enabled ? 'On' : 'Off'}
+          >
+            <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all ${enabled ? 'right-0.5' : 'left-0.5'}`}></div>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+          <div className="p-3 bg-[#09090b] border border-[#27272a] rounded">
+            <div className="text-[10px] font-bold text-zinc-500 uppercase">Status</div>
+            <div className={`mt-1 font-mono ${serverStatus?.running ? 'text-emerald-400' : 'text-zinc-400'}`}>
+              {serverStatus?.running ? `Listening on UDP ${serverStatus.port}` : 'Stopped'}
+            </div>
+          </div>
+          <div className="p-3 bg-[#09090b] border border-[#27272a] rounded">
+            <div className="text-[10px] font-bold text-zinc-500 uppercase">Last request</div>
+            <div className="mt-1 font-mono text-zinc-300">{formatWhen(serverStatus?.lastPacketAt)}</div>
+          </div>
+          <div className="p-3 bg-[#09090b] border border-[#27272a] rounded">
+            <div className="text-[10px] font-bold text-zinc-500 uppercase">Last error</div>
+            <div className={`mt-1 font-mono break-all ${serverStatus?.error ? 'text-rose-400' : 'text-zinc-500'}`}>{serverStatus?.error || '—'}</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="dashboard-card p-6 rounded-lg space-y-4">
+        <div className="flex justify-between items-start">
+          <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+            <Network className="w-4 h-4 text-indigo-500" /> Scopes
+          </h3>
+          <button
+            onClick={() => setScopes((prev) => [...prev, emptyDraft()])}
+            disabled={readOnlyFollower}
+            className="text-[10px] font-bold text-zinc-400 hover:text-white flex items-center gap-1 bg-[#18181b] px-2 py-1 rounded border border-[#27272a] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="w-3 h-3" /> ADD SCOPE
+          </button>
+        </div>
+        {!loading && scopes.length === 0 ? <div className="text-xs text-zinc-500">No scopes configured.</div> : null}
+        {scopes.map((s) => (
+          <div key={s.key} className="p-4 bg-[#0b0b0d] border border-[#27272a] rounded-lg space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <div
+                  onClick={() => !readOnlyFollower && updateScope(s.key, { enabled: !s.enabled })}
+                  className={`shrink-0 w-10 h-5 rounded-full relative cursor-pointer transition-colors ${s.enabled ? 'bg-emerald-600' : 'bg-zinc-700'}`}
+                  title={s.enabled ? 'On' : 'Off'}
+                >
+                  <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all ${s.enabled ? 'right-0.5' : 'left-0.5'}`}></div>
+                </div>
+                <span className="text-xs font-bold text-zinc-300">{s.name || s.subnet || 'New scope'}</span>
+              </div>
+              <button
+                aria-label={`Remove scope ${s.name || s.subnet}`}
+                onClick={() => setScopes((prev) => prev.filter((x) => x.key !== s.key))}
+                disabled={readOnlyFollower}
+                className="text-zinc-500 hover:text-rose-400 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {SCOPE_FIELDS.map(({ field, label, placeholder, hint }) => (
+                <label key={field} className="block">
+                  <span className="text-[10px] font-bold text-zinc-500 uppercase">{label}</span>
+                  <input
+                    value={String(s[field] ?? '')}
+                    onChange={(e) => updateScope(s.key, { [field]: e.target.value } as Partial<ScopeDraft>)}
+                    placeholder={placeholder}
+                    disabled={readOnlyFollower}
+                    className="mt-1 w-full bg-[#09090b] border border-[#27272a] rounded px-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-zinc-500 disabled:opacity-50"
+                  />
+                  {hint ? <span className="block text-[10px] text-zinc-600 mt-1">{hint}</span> : null}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="dashboard-card p-6 rounded-lg space-y-3">
+        <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+          <Lock className="w-4 h-4 text-indigo-500" /> Reservations
+        </h3>
+        <div className="text-[10px] text-zinc-500">
+          Device profiles on the Clients page with a MAC address and an IP inside a scope always get that IP.
+        </div>
+        {reservations.length === 0 ? (
+          <div className="text-xs text-zinc-500">No reservations.</div>
+        ) : (
+          <table className="w-full text-left text-xs">
+            <thead className="text-[9px] text-zinc-600 uppercase font-bold tracking-wider">
+              <tr>
+                <th className="py-2 border-b border-[#27272a]">Profile</th>
+                <th className="py-2 border-b border-[#27272a]">MAC</th>
+                <th className="py-2 border-b border-[#27272a]">IP</th>
+                <th className="py-2 border-b border-[#27272a]">Host name</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[#27272a]">
+              {reservations.map((r) => (
+                <tr key={r.mac}>
+                  <td className="py-2 text-zinc-300">{r.profileName}</td>
+                  <td className="py-2 font-mono text-zinc-400">{r.mac}</td>
+                  <td className="py-2 font-mono text-indigo-400">{r.ip}</td>
+                  <td className="py-2 font-mono text-zinc-400">{r.hostname || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="dashboard-card rounded-lg overflow-hidden">
+        <div className="p-6 flex justify-between items-center">
+          <h3 className="text-sm font-bold text-white uppercase tracking-wider">Leases</h3>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-[10px] font-bold text-zinc-500 uppercase cursor-pointer">
+              <input type="checkbox" checked={showExpired} onChange={(e) => setShowExpired(e.target.checked)} />
+              Show expired
+            </label>
+            <button
+              onClick={() => void loadLeases()}
+              className="text-[10px] font-bold text-zinc-400 hover:text-white flex items-center gap-1 bg-[#18181b] px-2 py-1 rounded border border-[#27272a]"
+            >
+              <RefreshCw className="w-3 h-3" /> REFRESH
+            </button>
+          </div>
+        </div>
+        <table className="w-full text-left">
+          <thead className="bg-[#09090b] text-[9px] text-zinc-600 uppercase font-bold tracking-wider">
+            <tr>
+              <th className="p-4 pl-6 border-b border-[#27272a]">IP</th>
+              <th className="p-4 border-b border-[#27272a]">Host</th>
+              <th className="p-4 border-b border-[#27272a]">MAC</th>
+              <th className="p-4 border-b border-[#27272a]">Scope</th>
+              <th className="p-4 border-b border-[#27272a]">Expires</th>
+              <th className="p-4 border-b border-[#27272a] text-right pr-6">Action</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[#27272a]">
+            {visibleLeases.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="p-6 text-xs text-zinc-500">
+                  {loading ? 'Loading leases…' : 'No leases.'}
+                </td>
+              </tr>
+            ) : null}
+            {visibleLeases.map((l) => (
+              <tr key={l.ip} className={`hover:bg-[#18181b] ${l.active ? '' : 'opacity-50'}`}>
+                <td className="p-4 pl-6 text-xs font-mono text-indigo-400">
+                  {l.ip}
+                  {l.reserved ? <span className="ml-2 text-[9px] font-bold text-emerald-400 uppercase">reserved</span> : null}
+                </td>
+                <td className="p-4 text-xs text-zinc-300">
+                  {l.profileName ? <span className="font-medium">{l.profileName}</span> : null}
+                  <span className={`font-mono ${l.profileName ? 'block text-[10px] text-zinc-500' : ''}`}>{l.hostname || '—'}</span>
+                </td>
+                <td className="p-4 text-xs font-mono text-zinc-400">{l.mac}</td>
+                <td className="p-4 text-xs text-zinc-400">{scopeNames.get(l.scopeId) ?? l.scopeId}</td>
+                <td className="p-4 text-xs text-zinc-400">{l.active ? formatWhen(l.expiresAt) : 'expired'}</td>
+                <td className="p-4 text-right pr-6">
+                  <button
+                    aria-label={`Forget lease ${l.ip}`}
+                    onClick={() => void forgetLease(l.ip)}
+                    disabled={readOnlyFollower}
+                    title="Return the address to the pool"
+                    className="text-zinc-500 hover:text-rose-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default Dhcp;
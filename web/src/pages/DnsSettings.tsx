@@ -1,14 +1,122 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { Server, Lock, Edit3, Plus, Trash2, Settings, Route, Wifi, Router, Info, Save, RotateCcw, Network, Asterisk, ShieldCheck, Zap, Globe, Check, Shield, UserPlus, Clock } from 'lucide-react';
+import { Server, Lock, Edit3, Plus, Trash2, Settings, Route, Wifi, Router, Info, Save, RotateCcw, Network, Asterisk, ShieldCheck, Zap, Globe, Check, Shield, UserPlus, Clock, Gauge, Database, Search, RefreshCw } from 'lucide-react';
 import { apiFetch, getAuthHeaders } from '../services/apiClient';
 import Modal from '../components/Modal';
 import { ReadOnlyFollowerBanner } from '../components/ReadOnlyFollowerBanner';
 import { isReadOnlyFollower, useClusterStatus } from '../hooks/useClusterStatus';
+import type { BlockResponseMode, DnsCacheEntry, DnsCacheStats, EcsMode, LocalRecord, LocalRecordType, RateLimitAction } from '../types';
 
 type DnsRewrite = {
     id: string;
     domain: string;
-    target: string;
+    records: LocalRecord[];
+};
+
+// Editable form row; numeric fields stay strings until the record is submitted.
+type LocalRecordDraft = {
+    type: LocalRecordType;
+    value: string;
+    ttl: string;
+    priority: string;
+    weight: string;
+    port: string;
+    tag: NonNullable<LocalRecord['tag']>;
+};
+
+const LOCAL_RECORD_TYPES: LocalRecordType[] = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'SRV', 'PTR', 'CAA'];
+
+const LOCAL_RECORD_PLACEHOLDERS: Record<LocalRecordType, string> = {
+    A: '192.168.1.10',
+    AAAA: 'fd00::10',
+    CNAME: 'host.lan',
+    MX: 'mail.example.lan',
+    TXT: 'v=spf1 -all',
+    SRV: 'server.example.lan',
+    PTR: 'host.lan',
+    CAA: 'letsencrypt.org'
+};
+
+const emptyRecordDraft = (type: LocalRecordType = 'A'): LocalRecordDraft => ({
+    type,
+    value: '',
+    ttl: '',
+    priority: '',
+    weight: '',
+    port: '',
+    tag: 'issue'
+});
+
+const toLocalRecord = (draft: LocalRecordDraft): LocalRecord => {
+    const num = (v: string) => (v.trim() ? Number(v) : undefined);
+    const record: LocalRecord = { type: draft.type, value: draft.value.trim() };
+    if (num(draft.ttl) !== undefined) record.ttl = num(draft.ttl);
+    if ((draft.type === 'MX' || draft.type === 'SRV') && num(draft.priority) !== undefined) record.priority = num(draft.priority);
+    if (draft.type === 'SRV') {
+        if (num(draft.weight) !== undefined) record.weight = num(draft.weight);
+        record.port = num(draft.port);
+    }
+    if (draft.type === 'CAA') record.tag = draft.tag;
+    return record;
+};
+
+const describeLocalRecord = (r: LocalRecord): string => {
+    const data =
+        r.type === 'MX'
+            ? `${r.priority ?? 10} ${r.value}`
+            : r.type === 'SRV'
+              ? `${r.priority ?? 0} ${r.weight ?? 0} ${r.port ?? ''} ${r.value}`
+              : r.type === 'CAA'
+                ? `${r.flags ?? 0} ${r.tag ?? 'issue'} "${r.value}"`
+                : r.type === 'TXT'
+                  ? `"${r.value}"`
+                  : r.value;
+    return `${r.type} ${data}${typeof r.ttl === 'number' ? ` (TTL ${r.ttl}s)` : ''}`;
+};
+
+type LeaseFileFormat = 'auto' | 'dnsmasq' | 'isc' | 'kea' | 'openwrt' | 'opnsense';
+
+const LEASE_FILE_FORMATS: Array<{ id: LeaseFileFormat; label: string }> = [
+    { id: 'auto', label: 'Auto-detect' },
+    { id: 'dnsmasq', label: 'dnsmasq / Pi-hole' },
+    { id: 'isc', label: 'ISC dhcpd' },
+    { id: 'kea', label: 'Kea (CSV)' },
+    { id: 'openwrt', label: 'OpenWrt export (JSON)' },
+    { id: 'opnsense', label: 'OPNsense export (JSON)' }
+];
+
+type LeaseFileSource = { path: string; format: LeaseFileFormat };
+
+type DiscoverySourcesStatus = {
+    leasesDir: string;
+    leaseFiles: Array<LeaseFileSource & { detected?: LeaseFileFormat; entries: number; error?: string }>;
+    mdns: { enabled: boolean; hosts: number };
+    neighborTable: { path: string; entries: number };
+    ouiDatabase: { path: string; vendors: number };
+};
+
+type ConditionalForward = {
+    id: string;
+    suffix: string;
+    upstream: DnsForwardUpstream;
+};
+
+type LocalDomainSettings = { enabled: boolean; domain: string; fromProfiles: boolean; fromDiscovery: boolean };
+
+type LocalHostSource = 'profile' | 'dhcp' | 'lease' | 'mdns';
+
+type LocalHostRecord = { name: string; ip: string; source: LocalHostSource; profileId?: string };
+
+type LocalHostConflict = LocalHostRecord & {
+    reason: 'REWRITE' | 'DUPLICATE';
+    rewriteId?: string;
+    winner?: { ip: string; source: LocalHostSource };
+};
+
+const LOCAL_HOST_SOURCE_LABELS: Record<LocalHostSource, string> = {
+    profile: 'Client profile',
+    dhcp: 'DHCP lease',
+    lease: 'Lease file',
+    mdns: 'mDNS'
 };
 
 interface Resolver {
@@ -20,19 +128,71 @@ interface Resolver {
     protocol: 'UDP' | 'DoT' | 'DoH';
     features: ('DoH' | 'DoT' | 'DNSSEC')[];
     selected: boolean;
+    // Position in the upstream list when several forward resolvers are selected (1 = primary).
+    order?: number;
     isCustom?: boolean;
 }
 
+type UpstreamStrategy = 'failover' | 'round-robin' | 'fastest' | 'parallel';
+
+type DnsForwardUpstream = {
+    transport: 'udp' | 'tcp' | 'dot' | 'doh';
+    host?: string;
+    port?: number;
+    dohUrl?: string;
+};
+
+type UpstreamHealth = {
+    target: string;
+    transport: 'udp' | 'tcp' | 'dot' | 'doh';
+    healthy: boolean;
+    successes: number;
+    failures: number;
+    ewmaLatencyMs: number | null;
+    lastError: { at: string; code?: string; message: string } | null;
+};
+
+type LatencySummary = { p50: number | null; p95: number | null; avg: number | null };
+
+type UpstreamBenchmarkResult = {
+    label: string;
+    target: string;
+    transport: 'udp' | 'tcp' | 'dot' | 'doh';
+    cold: LatencySummary;
+    warm: LatencySummary;
+    queries: number;
+    failures: number;
+    failureRate: number;
+    secureAnswers: number;
+    dnssec: 'validating' | 'not-validating' | 'unknown';
+    lastError?: string;
+};
+
+type UpstreamBenchmarkRun = {
+    startedAt: string;
+    domains: string[];
+    fromQueryLogs: number;
+    results: UpstreamBenchmarkResult[];
+    // Resolver ids in the same order as `results`.
+    resolverIds: number[];
+};
+
+// Server-side cap on candidates per run.
+const MAX_BENCHMARK_CANDIDATES = 8;
+
+// Unbound is exclusive; forward resolvers can be combined into an ordered upstream list.
+const resolverSelection = (list: Resolver[]) => {
+    const forward = list.filter(r => r.selected && r.type !== 'Recursive').sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+    return { forward, primary: list.find(r => r.selected && r.type === 'Recursive') ?? forward[0] };
+};
+
 type DnsUpstreamConfigured =
     | { upstreamMode: 'unbound' }
     | {
           upstreamMode: 'forward';
-          forward: {
-              transport: 'udp' | 'tcp' | 'dot' | 'doh';
-              host?: string;
-              port?: number;
-              dohUrl?: string;
-          };
+          forward: DnsForwardUpstream;
+          upstreams?: DnsForwardUpstream[];
+          strategy?: UpstreamStrategy;
       };
 
 type DnsUpstreamEffective =
@@ -44,6 +204,8 @@ type DnsUpstreamDebug = {
     refreshIntervalMs: number;
     configured: DnsUpstreamConfigured | null;
     effective: DnsUpstreamEffective | null;
+    strategy?: UpstreamStrategy;
+    upstreams?: UpstreamHealth[];
     lastForwardOkAt?: string | null;
     lastForwardError?:
         | {
@@ -57,8 +219,15 @@ type DnsUpstreamDebug = {
         | null;
 };
 
+const formatCacheBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    const kb = bytes / 1024;
+    if (kb < 1024) return `${kb.toFixed(1)} KiB`;
+    return `${(kb / 1024).toFixed(1)} MiB`;
+};
+
 const DnsSettings: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'upstream' | 'records' | 'discovery'>('upstream');
+  const [activeTab, setActiveTab] = useState<'upstream' | 'records' | 'cache' | 'discovery'>('upstream');
 
     const { status: clusterStatus } = useClusterStatus();
     const readOnlyFollower = isReadOnlyFollower(clusterStatus);
@@ -72,6 +241,11 @@ const DnsSettings: React.FC = () => {
     const [discoveryEnabled, setDiscoveryEnabled] = useState(false);
     const [discoveryResolver, setDiscoveryResolver] = useState('');
     const [discoveryTimeoutMs, setDiscoveryTimeoutMs] = useState(250);
+    const [discoveryLeaseFiles, setDiscoveryLeaseFiles] = useState<LeaseFileSource[]>([]);
+    const [discoveryMdnsEnabled, setDiscoveryMdnsEnabled] = useState(false);
+    const [discoveryNetbiosEnabled, setDiscoveryNetbiosEnabled] = useState(false);
+    const [discoveryNetbiosTimeoutMs, setDiscoveryNetbiosTimeoutMs] = useState(300);
+    const [discoverySources, setDiscoverySources] = useState<DiscoverySourcesStatus | null>(null);
     const [discoveryLoading, setDiscoveryLoading] = useState(false);
     const [discoveryMsg, setDiscoveryMsg] = useState<string | null>(null);
 
@@ -87,7 +261,20 @@ const DnsSettings: React.FC = () => {
     const [rewritesError, setRewritesError] = useState<string | null>(null);
     const [showAddRewrite, setShowAddRewrite] = useState(false);
     const [newRewriteDomain, setNewRewriteDomain] = useState('');
-    const [newRewriteTarget, setNewRewriteTarget] = useState('');
+    const [newRewriteRecords, setNewRewriteRecords] = useState<LocalRecordDraft[]>([emptyRecordDraft()]);
+
+    // Conditional forwarding (suffix → upstream)
+    const [conditionalForwards, setConditionalForwards] = useState<ConditionalForward[]>([]);
+    const [conditionalForwardsError, setConditionalForwardsError] = useState<string | null>(null);
+
+    // Local domain (profile + discovered host names)
+    const [localDomain, setLocalDomain] = useState<LocalDomainSettings>({ enabled: false, domain: 'home.arpa', fromProfiles: true, fromDiscovery: true });
+    const [localHosts, setLocalHosts] = useState<LocalHostRecord[]>([]);
+    const [localHostConflicts, setLocalHostConflicts] = useState<LocalHostConflict[]>([]);
+    const [localHostsError, setLocalHostsError] = useState<string | null>(null);
+    const [newForwardSuffix, setNewForwardSuffix] = useState('');
+    const [newForwardTransport, setNewForwardTransport] = useState<DnsForwardUpstream['transport']>('udp');
+    const [newForwardTarget, setNewForwardTarget] = useState('');
 
   // Upstream Resolvers State
   const [resolvers, setResolvers] = useState<Resolver[]>([
@@ -101,6 +288,35 @@ const DnsSettings: React.FC = () => {
 
   // Custom Resolver Form State
   const [showAddResolver, setShowAddResolver] = useState(false);
+  const [dnssecEnabled, setDnssecEnabled] = useState(false);
+  const [dnssecServfailOnBogus, setDnssecServfailOnBogus] = useState(true);
+  const [upstreamStrategy, setUpstreamStrategy] = useState<UpstreamStrategy>('failover');
+  const [blockResponseMode, setBlockResponseMode] = useState<BlockResponseMode>('NXDOMAIN');
+  const [blockResponseTtl, setBlockResponseTtl] = useState('60');
+  const [blockResponseIpv4, setBlockResponseIpv4] = useState('');
+  const [blockResponseIpv6, setBlockResponseIpv6] = useState('');
+  const [rateLimitEnabled, setRateLimitEnabled] = useState(false);
+  const [rateLimitQps, setRateLimitQps] = useState('50');
+  const [rateLimitBurst, setRateLimitBurst] = useState('200');
+  const [rateLimitAction, setRateLimitAction] = useState<RateLimitAction>('REFUSED');
+  const [ecsMode, setEcsMode] = useState<EcsMode>('strip');
+  const [ecsFallbackSubnet, setEcsFallbackSubnet] = useState('');
+  const [cacheMinTtl, setCacheMinTtl] = useState('0');
+  const [cacheMaxTtl, setCacheMaxTtl] = useState('300');
+  const [cacheServeStale, setCacheServeStale] = useState(true);
+  const [cacheStaleAnswerTtl, setCacheStaleAnswerTtl] = useState('30');
+  const [cacheStaleMaxAge, setCacheStaleMaxAge] = useState('86400');
+  const [cachePrefetch, setCachePrefetch] = useState(true);
+  const [cacheStats, setCacheStats] = useState<{ hits: number; misses: number; stale: number; prefetches: number } | null>(null);
+  const [cacheEntries, setCacheEntries] = useState<DnsCacheEntry[]>([]);
+  const [cacheEntriesTotal, setCacheEntriesTotal] = useState(0);
+  const [cacheSize, setCacheSize] = useState<DnsCacheStats | null>(null);
+  const [cacheSearch, setCacheSearch] = useState('');
+  const [cacheLoading, setCacheLoading] = useState(false);
+  const [cacheError, setCacheError] = useState<string | null>(null);
+  const [benchmarkRun, setBenchmarkRun] = useState<UpstreamBenchmarkRun | null>(null);
+  const [benchmarkRunning, setBenchmarkRunning] = useState(false);
+  const [benchmarkError, setBenchmarkError] = useState<string | null>(null);
   const [newType, setNewType] = useState<'UDP' | 'DoT' | 'DoH'>('UDP');
   const [newIp, setNewIp] = useState('');
   const [newName, setNewName] = useState('');
@@ -112,7 +328,9 @@ const DnsSettings: React.FC = () => {
         const [upstreamDebugLoading, setUpstreamDebugLoading] = useState(false);
         const [upstreamDebugError, setUpstreamDebugError] = useState<string | null>(null);
 
-    const selectedResolver = useMemo(() => resolvers.find(r => r.selected), [resolvers]);
+    const selection = useMemo(() => resolverSelection(resolvers), [resolvers]);
+    const selectedForwardResolvers = selection.forward;
+    const selectedResolver = selection.primary;
 
     const loadUpstreamDebug = async () => {
         setUpstreamDebugLoading(true);
@@ -132,6 +350,17 @@ const DnsSettings: React.FC = () => {
             }
 
             setUpstreamDebug((data?.upstream ?? null) as any);
+            const stats = data?.stats;
+            setCacheStats(
+                stats && typeof stats === 'object'
+                    ? {
+                          hits: Number(stats.cacheHits) || 0,
+                          misses: Number(stats.cacheMisses) || 0,
+                          stale: Number(stats.cacheStaleServed) || 0,
+                          prefetches: Number(stats.cachePrefetches) || 0
+                      }
+                    : null
+            );
         } catch {
             setUpstreamDebug(null);
             setUpstreamDebugError('Backend not reachable.');
@@ -156,6 +385,7 @@ const DnsSettings: React.FC = () => {
         const formatConfigured = (): string => {
             if (!cfg) return 'Unknown';
             if (cfg.upstreamMode === 'unbound') return 'unbound';
+            if (cfg.upstreams && cfg.upstreams.length > 1) return `forward/${cfg.strategy ?? 'failover'} (${cfg.upstreams.length} upstreams)`;
             const t = cfg.forward?.transport;
             if (t === 'doh') return `forward/doh ${cfg.forward?.dohUrl || ''}`.trim();
             const host = cfg.forward?.host || '';
@@ -175,7 +405,8 @@ const DnsSettings: React.FC = () => {
             refreshedAt: upstreamDebug?.refreshedAt || null,
             refreshEveryMs: Number(upstreamDebug?.refreshIntervalMs ?? 0),
             lastOkAt,
-            lastErr
+            lastErr,
+            upstreams: upstreamDebug?.upstreams ?? []
         };
     }, [upstreamDebug]);
 
@@ -289,13 +520,184 @@ const DnsSettings: React.FC = () => {
         }
     };
 
+    const loadConditionalForwards = async () => {
+        setConditionalForwardsError(null);
+        try {
+            const res = await fetch('/api/dns/conditional-forwarding', {
+                headers: { ...getAuthHeaders() },
+                credentials: 'include'
+            });
+            const data = await res.json().catch(() => ({} as any));
+            if (!res.ok) {
+                setConditionalForwardsError(data?.error || data?.message || 'Failed to load conditional forwarding.');
+                setConditionalForwards([]);
+                return;
+            }
+            setConditionalForwards(Array.isArray(data?.items) ? data.items : []);
+        } catch {
+            setConditionalForwardsError('Backend not reachable.');
+            setConditionalForwards([]);
+        }
+    };
+
+    const loadLocalHosts = async () => {
+        setLocalHostsError(null);
+        try {
+            const res = await apiFetch('/api/dns/local-hosts', { headers: { ...getAuthHeaders() } });
+            const data = await res.json().catch(() => ({} as any));
+            if (!res.ok) {
+                setLocalHostsError(data?.message || data?.error || 'Failed to load local hosts.');
+                return;
+            }
+            if (data?.settings) setLocalDomain(data.settings);
+            setLocalHosts(Array.isArray(data?.items) ? data.items : []);
+            setLocalHostConflicts(Array.isArray(data?.conflicts) ? data.conflicts : []);
+        } catch {
+            setLocalHostsError('Backend not reachable.');
+        }
+    };
+
+    const saveLocalDomain = async () => {
+        try {
+            const res = await apiFetch('/api/dns/settings', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+                body: JSON.stringify({ localDomain })
+            });
+            const data = await res.json().catch(() => ({} as any));
+            if (!res.ok) {
+                showPageMsg(data?.message || data?.error || 'Saving local domain failed.', 'error');
+                return;
+            }
+            showPageMsg('Saved', 'success');
+            await loadLocalHosts();
+        } catch {
+            showPageMsg('Backend not reachable.', 'error');
+        }
+    };
+
+    const addConditionalForward = async () => {
+        const target = newForwardTarget.trim();
+        let upstream: DnsForwardUpstream;
+        if (newForwardTransport === 'doh') {
+            upstream = { transport: 'doh', dohUrl: target };
+        } else {
+            // host, host:port or [v6]:port
+            const m = target.match(/^\[(.+)\]:(\d+)$/) ?? (target.split(':').length === 2 ? target.match(/^(.+):(\d+)$/) : null);
+            upstream = m
+                ? { transport: newForwardTransport, host: m[1], port: Number(m[2]) }
+                : { transport: newForwardTransport, host: target };
+        }
+
+        try {
+            const res = await fetch('/api/dns/conditional-forwarding', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+                credentials: 'include',
+                body: JSON.stringify({ suffix: newForwardSuffix.trim(), upstream })
+            });
+            if (!res.ok) {
+                const data = await res.json().catch(() => ({} as any));
+                showPageMsg(data?.error || data?.message || 'Add failed.', 'error');
+                return;
+            }
+            setNewForwardSuffix('');
+            setNewForwardTarget('');
+            await loadConditionalForwards();
+            showPageMsg('Saved', 'success');
+        } catch {
+            showPageMsg('Backend not reachable.', 'error');
+        }
+    };
+
+    const deleteConditionalForward = async (id: string) => {
+        try {
+            const res = await fetch(`/api/dns/conditional-forwarding/${encodeURIComponent(id)}`, {
+                method: 'DELETE',
+                headers: { ...getAuthHeaders() },
+                credentials: 'include'
+            });
+            if (!res.ok && res.status !== 204) {
+                const data = await res.json().catch(() => ({} as any));
+                showPageMsg(data?.error || data?.message || 'Delete failed.', 'error');
+                return;
+            }
+            setConditionalForwards(prev => prev.filter(f => f.id !== id));
+            showPageMsg('Deleted', 'success');
+        } catch {
+            showPageMsg('Backend not reachable.', 'error');
+        }
+    };
+
     useEffect(() => {
         if (activeTab === 'records') {
             void loadRewrites();
+            void loadConditionalForwards();
+            void loadLocalHosts();
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [activeTab]);
 
+    const loadCacheEntries = async (search = cacheSearch) => {
+        setCacheLoading(true);
+        setCacheError(null);
+        try {
+            const params = new URLSearchParams({ limit: '200' });
+            if (search.trim()) params.set('search', search.trim());
+            const res = await apiFetch(`/api/dns/cache?${params.toString()}`, { headers: { ...getAuthHeaders() } });
+            const data = await res.json().catch(() => ({} as any));
+            if (!res.ok) {
+                setCacheError(data?.message || data?.error || 'Failed to load cache entries.');
+                return;
+            }
+            setCacheEntries(Array.isArray(data?.items) ? data.items : []);
+            setCacheEntriesTotal(Number(data?.total) || 0);
+            setCacheSize(data?.stats ?? null);
+        } catch {
+            setCacheError('Backend not reachable.');
+        } finally {
+            setCacheLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (activeTab === 'cache') {
+            void loadCacheEntries();
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [activeTab]);
+
+    const flushCache = async (domain?: string) => {
+        try {
+            const res = await apiFetch(domain ? `/api/dns/cache/${encodeURIComponent(domain)}` : '/api/dns/cache', {
+                method: 'DELETE',
+                headers: { ...getAuthHeaders() }
+            });
+            const data = await res.json().catch(() => ({} as any));
+            if (!res.ok) {
+                showPageMsg(data?.message || data?.error || 'Flush failed.', 'error');
+                return;
+            }
+            showPageMsg(`Flushed ${Number(data?.removed) || 0} cache entries`, 'success');
+            await loadCacheEntries();
+        } catch {
+            showPageMsg('Backend not reachable.', 'error');
+        }
+    };
+
+    const loadDiscoverySources = async () => {
+        try {
+            const res = await fetch('/api/discovery/sources', {
+                headers: { ...getAuthHeaders() },
+                credentials: 'include'
+            });
+            if (!res.ok) return;
+            setDiscoverySources(await res.json());
+        } catch {
+            // Status is informational; settings errors are reported by the caller.
+        }
+    };
+
     const loadDiscoverySettings = async () => {
         setDiscoveryLoading(true);
         setDiscoveryMsg(null);
@@ -315,6 +717,12 @@ const DnsSettings: React.FC = () => {
             setDiscoveryResolver(typeof v?.reverseDns?.resolver === 'string' ? v.reverseDns.resolver : '');
             const t = Number(v?.reverseDns?.timeoutMs);
             setDiscoveryTimeoutMs(Number.isFinite(t) ? t : 250);
+            setDiscoveryLeaseFiles(Array.isArray(v?.leaseFiles) ? v.leaseFiles : []);
+            setDiscoveryMdnsEnabled(v?.mdns?.enabled === true);
+            setDiscoveryNetbiosEnabled(v?.netbios?.enabled === true);
+            const nt = Number(v?.netbios?.timeoutMs);
+            setDiscoveryNetbiosTimeoutMs(Number.isFinite(nt) ? nt : 300);
+            void loadDiscoverySources();
         } catch {
             setDiscoveryMsg('Backend not reachable.');
         } finally {
@@ -345,15 +753,20 @@ const DnsSettings: React.FC = () => {
                         enabled: discoveryEnabled,
                         resolver: discoveryResolver,
                         timeoutMs: discoveryTimeoutMs
-                    }
+                    },
+                    leaseFiles: discoveryLeaseFiles.filter((f) => f.path.trim()),
+                    mdns: { enabled: discoveryMdnsEnabled },
+                    netbios: { enabled: discoveryNetbiosEnabled, timeoutMs: discoveryNetbiosTimeoutMs }
                 })
             });
             const data = await res.json().catch(() => ({} as any));
             if (!res.ok) {
-                setDiscoveryMsg(data?.error || data?.message || 'Save failed.');
+                setDiscoveryMsg(data?.message || data?.error || 'Save failed.');
                 return;
             }
+            if (Array.isArray(data?.value?.leaseFiles)) setDiscoveryLeaseFiles(data.value.leaseFiles);
             setDiscoveryMsg('Saved.');
+            void loadDiscoverySources();
         } catch {
             setDiscoveryMsg('Backend not reachable.');
         } finally {
@@ -414,60 +827,56 @@ const DnsSettings: React.FC = () => {
                 const v = d?.value;
                 if (!v) return;
 
-                // We only persist upstream selection here.
+                if (v.dnssec && typeof v.dnssec === 'object') {
+                    if (typeof v.dnssec.enabled === 'boolean') setDnssecEnabled(v.dnssec.enabled);
+                    if (typeof v.dnssec.servfailOnBogus === 'boolean') setDnssecServfailOnBogus(v.dnssec.servfailOnBogus);
+                }
+
+                if (v.blockResponse && typeof v.blockResponse === 'object') {
+                    if (typeof v.blockResponse.mode === 'string') setBlockResponseMode(v.blockResponse.mode);
+                    if (typeof v.blockResponse.ttl === 'number') setBlockResponseTtl(String(v.blockResponse.ttl));
+                    setBlockResponseIpv4(typeof v.blockResponse.ipv4 === 'string' ? v.blockResponse.ipv4 : '');
+                    setBlockResponseIpv6(typeof v.blockResponse.ipv6 === 'string' ? v.blockResponse.ipv6 : '');
+                }
+
+                if (v.rateLimit && typeof v.rateLimit === 'object') {
+                    setRateLimitEnabled(v.rateLimit.enabled === true);
+                    if (typeof v.rateLimit.qps === 'number') setRateLimitQps(String(v.rateLimit.qps));
+                    if (typeof v.rateLimit.burst === 'number') setRateLimitBurst(String(v.rateLimit.burst));
+                    setRateLimitAction(v.rateLimit.action === 'DROP' ? 'DROP' : 'REFUSED');
+                }
+
+                if (v.ecs && typeof v.ecs === 'object') {
+                    setEcsMode(v.ecs.mode === 'pass' || v.ecs.mode === 'synthesize' ? v.ecs.mode : 'strip');
+                    setEcsFallbackSubnet(typeof v.ecs.fallbackSubnet === 'string' ? v.ecs.fallbackSubnet : '');
+                }
+
+                if (v.cache && typeof v.cache === 'object') {
+                    if (typeof v.cache.minTtl === 'number') setCacheMinTtl(String(v.cache.minTtl));
+                    if (typeof v.cache.maxTtl === 'number') setCacheMaxTtl(String(v.cache.maxTtl));
+                    if (typeof v.cache.serveStale === 'boolean') setCacheServeStale(v.cache.serveStale);
+                    if (typeof v.cache.staleAnswerTtl === 'number') setCacheStaleAnswerTtl(String(v.cache.staleAnswerTtl));
+                    if (typeof v.cache.staleMaxAge === 'number') setCacheStaleMaxAge(String(v.cache.staleMaxAge));
+                    if (typeof v.cache.prefetch === 'boolean') setCachePrefetch(v.cache.prefetch);
+                }
+
+                // Upstream selection.
                 // If upstreamMode=unbound => select the built-in Unbound (Local) row.
                 if (v.upstreamMode === 'unbound') {
-                    setResolvers(prev => prev.map(r => ({ ...r, selected: r.type === 'Recursive' })));
+                    setResolvers(prev => prev.map(r => ({ ...r, selected: r.type === 'Recursive', order: undefined })));
                     return;
                 }
 
-                if (v.upstreamMode === 'forward' && v.forward) {
-                    const transport = String(v.forward.transport ?? 'udp');
-
-                    if (transport === 'doh' && v.forward.dohUrl) {
-                        const dohUrl = String(v.forward.dohUrl);
-                        setResolvers(prev => {
-                            const matched = prev.find(r => r.protocol === 'DoH' && r.ip === dohUrl);
-                            const next = prev.map(r => ({ ...r, selected: false }));
-                            if (matched) return next.map(r => ({ ...r, selected: r.id === matched.id }));
-                            const newR: Resolver = {
-                                id: Date.now(),
-                                name: `Custom DoH`,
-                                ip: dohUrl,
-                                type: 'DoH/DoT',
-                                protocol: 'DoH',
-                                features: ['DoH'],
-                                selected: true,
-                                isCustom: true
-                            };
-                            return [...next, newR];
+                if (v.upstreamMode === 'forward') {
+                    const list: DnsForwardUpstream[] = Array.isArray(v.upstreams) && v.upstreams.length ? v.upstreams : v.forward ? [v.forward] : [];
+                    if (typeof v.upstreamStrategy === 'string') setUpstreamStrategy(v.upstreamStrategy);
+                    setResolvers(prev => {
+                        let next = prev.map(r => ({ ...r, selected: false, order: undefined as number | undefined }));
+                        list.forEach((f, i) => {
+                            next = selectForwardUpstream(next, f, i + 1);
                         });
-                        return;
-                    }
-
-                    if ((transport === 'dot' || transport === 'tcp' || transport === 'udp') && v.forward.host) {
-                        const host = String(v.forward.host);
-                        const port = Number(v.forward.port ?? (transport === 'dot' ? 853 : 53));
-                        const proto: Resolver['protocol'] = transport === 'dot' ? 'DoT' : 'UDP';
-
-                        setResolvers(prev => {
-                            const matched = prev.find(r => r.protocol === proto && (r.hostname === host || r.ip === host || r.ip === `${host}:${port}`));
-                            const next = prev.map(r => ({ ...r, selected: false }));
-                            if (matched) return next.map(r => ({ ...r, selected: r.id === matched.id }));
-                            const newR: Resolver = {
-                                id: Date.now(),
-                                name: `Custom ${host}`,
-                                ip: port === 53 || port === 853 ? host : `${host}:${port}`,
-                                hostname: transport === 'dot' ? host : undefined,
-                                type: transport === 'dot' ? 'DoH/DoT' : 'Legacy',
-                                protocol: proto,
-                                features: [...(transport === 'dot' ? (['DoT'] as any) : [])],
-                                selected: true,
-                                isCustom: true
-                            };
-                            return [...next, newR];
-                        });
-                    }
+                        return next;
+                    });
                 }
             })
             .catch(() => {
@@ -475,37 +884,119 @@ const DnsSettings: React.FC = () => {
             });
     }, []);
 
-    const saveDnsSettings = async () => {
-          // Persist upstream selection only; discovery settings are saved in their own tab.
-        const r = selectedResolver;
+    // Marks the resolver matching a stored upstream as selected (adding a custom row when unknown).
+    const selectForwardUpstream = (list: Resolver[], f: DnsForwardUpstream, order: number): Resolver[] => {
+        const transport = String(f?.transport ?? 'udp');
+
+        if (transport === 'doh' && f.dohUrl) {
+            const dohUrl = String(f.dohUrl);
+            const matched = list.find(r => r.protocol === 'DoH' && r.ip === dohUrl);
+            if (matched) return list.map(r => (r.id === matched.id ? { ...r, selected: true, order } : r));
+            const newR: Resolver = {
+                id: Date.now() + order,
+                name: `Custom DoH`,
+                ip: dohUrl,
+                type: 'DoH/DoT',
+                protocol: 'DoH',
+                features: ['DoH'],
+                selected: true,
+                order,
+                isCustom: true
+            };
+            return [...list, newR];
+        }
+
+        if ((transport === 'dot' || transport === 'tcp' || transport === 'udp') && f.host) {
+            const host = String(f.host);
+            const port = Number(f.port ?? (transport === 'dot' ? 853 : 53));
+            const proto: Resolver['protocol'] = transport === 'dot' ? 'DoT' : 'UDP';
+
+            const matched = list.find(r => r.protocol === proto && (r.hostname === host || r.ip === host || r.ip === `${host}:${port}`));
+            if (matched) return list.map(r => (r.id === matched.id ? { ...r, selected: true, order } : r));
+            const newR: Resolver = {
+                id: Date.now() + order,
+                name: `Custom ${host}`,
+                ip: port === 53 || port === 853 ? host : `${host}:${port}`,
+                hostname: transport === 'dot' ? host : undefined,
+                type: transport === 'dot' ? 'DoH/DoT' : 'Legacy',
+                protocol: proto,
+                features: [...(transport === 'dot' ? (['DoT'] as any) : [])],
+                selected: true,
+                order,
+                isCustom: true
+            };
+            return [...list, newR];
+        }
+
+        return list;
+    };
+
+    const toForwardUpstream = (r: Resolver): DnsForwardUpstream => {
+        if (r.protocol === 'DoH') {
+            return { transport: 'doh', dohUrl: String(r.ip || '').trim() };
+        }
+
+        const raw = String(r.ip || '').trim();
+        const parts = raw.split(':');
+        const hostRaw = (parts[0] || raw).trim();
+        const defaultPort = r.protocol === 'DoT' ? 853 : 53;
+        const port = parts.length > 1 ? Number(parts[1]) : defaultPort;
+
+        // For DoT we prefer a hostname for SNI/cert validation.
+        const host = r.protocol === 'DoT' ? String(r.hostname || hostRaw).trim() : hostRaw;
+        const transport = r.protocol === 'DoT' ? 'dot' : 'udp';
+        return {
+            transport,
+            host,
+            port: Number.isFinite(port) ? Math.min(65535, Math.max(1, Math.floor(port))) : defaultPort
+        };
+    };
+
+    // `nextResolvers` saves a selection that has not been rendered yet (e.g. "Use" in the benchmark table).
+    const saveDnsSettings = async (nextResolvers?: Resolver[]) => {
+          // Persist upstream selection + DNSSEC/block response/rate limit policy; discovery settings are saved in their own tab.
+        const { primary: r, forward: forwardResolvers } = nextResolvers
+            ? resolverSelection(nextResolvers)
+            : { primary: selectedResolver, forward: selectedForwardResolvers };
         if (!r) return;
 
-        const payload =
+        const dnssec = { enabled: dnssecEnabled, servfailOnBogus: dnssecServfailOnBogus };
+        const ttl = Number(blockResponseTtl);
+        const blockResponse = {
+            mode: blockResponseMode,
+            ttl: Number.isFinite(ttl) ? Math.min(86400, Math.max(0, Math.floor(ttl))) : 60,
+            ...(blockResponseIpv4.trim() ? { ipv4: blockResponseIpv4.trim() } : {}),
+            ...(blockResponseIpv6.trim() ? { ipv6: blockResponseIpv6.trim() } : {})
+        };
+        const toPositiveInt = (raw: string, fallback: number) => {
+            const n = Math.floor(Number(raw));
+            return Number.isFinite(n) && n >= 1 ? Math.min(100000, n) : fallback;
+        };
+        const rateLimit = {
+            enabled: rateLimitEnabled,
+            qps: toPositiveInt(rateLimitQps, 50),
+            burst: toPositiveInt(rateLimitBurst, 200),
+            action: rateLimitAction
+        };
+        const toSeconds = (raw: string, max: number, fallback: number) => {
+            const n = Math.floor(Number(raw));
+            return Number.isFinite(n) && n >= 0 ? Math.min(max, n) : fallback;
+        };
+        const cache = {
+            minTtl: toSeconds(cacheMinTtl, 86400, 0),
+            maxTtl: toSeconds(cacheMaxTtl, 86400, 300),
+            serveStale: cacheServeStale,
+            staleAnswerTtl: Math.max(1, toSeconds(cacheStaleAnswerTtl, 3600, 30)),
+            staleMaxAge: toSeconds(cacheStaleMaxAge, 604800, 86400),
+            prefetch: cachePrefetch
+        };
+        const upstreams = forwardResolvers.map(toForwardUpstream);
+        const upstreamPayload =
             r.type === 'Recursive'
                 ? { upstreamMode: 'unbound', forward: { host: '1.1.1.1', port: 53, transport: 'udp' } }
-                : (() => {
-                        if (r.protocol === 'DoH') {
-                            return { upstreamMode: 'forward', forward: { transport: 'doh', dohUrl: String(r.ip || '').trim() } };
-                        }
-
-                        const raw = String(r.ip || '').trim();
-                        const parts = raw.split(':');
-                        const hostRaw = (parts[0] || raw).trim();
-                        const defaultPort = r.protocol === 'DoT' ? 853 : 53;
-                        const port = parts.length > 1 ? Number(parts[1]) : defaultPort;
-
-                        // For DoT we prefer a hostname for SNI/cert validation.
-                        const host = r.protocol === 'DoT' ? String(r.hostname || hostRaw).trim() : hostRaw;
-                        const transport = r.protocol === 'DoT' ? 'dot' : 'udp';
-                        return {
-                            upstreamMode: 'forward',
-                            forward: {
-                                transport,
-                                host,
-                                port: Number.isFinite(port) ? Math.min(65535, Math.max(1, Math.floor(port))) : defaultPort
-                            }
-                        };
-                    })();
+                : { upstreamMode: 'forward', forward: upstreams[0], upstreams, upstreamStrategy };
+        const ecs = { mode: ecsMode, ...(ecsFallbackSubnet.trim() ? { fallbackSubnet: ecsFallbackSubnet.trim() } : {}) };
+        const payload = { ...upstreamPayload, dnssec, blockResponse, rateLimit, ecs, cache };
 
         try {
             const res = await fetch('/api/dns/settings', {
@@ -531,8 +1022,65 @@ const DnsSettings: React.FC = () => {
         }
     };
 
+  const runUpstreamBenchmark = async () => {
+      // Selected resolvers first so they are always part of the comparison.
+      const candidates = [...resolvers].sort((a, b) => Number(b.selected) - Number(a.selected)).slice(0, MAX_BENCHMARK_CANDIDATES);
+      setBenchmarkRunning(true);
+      setBenchmarkError(null);
+      try {
+          const res = await apiFetch('/api/dns/upstreams/benchmark', {
+              method: 'POST',
+              headers: {
+                  'Content-Type': 'application/json',
+                  ...getAuthHeaders()
+              },
+              body: JSON.stringify({
+                  candidates: candidates.map(r =>
+                      r.type === 'Recursive' ? { label: r.name, unbound: true } : { label: r.name, upstream: toForwardUpstream(r) }
+                  )
+              })
+          });
+          const data = await res.json().catch(() => ({} as any));
+          if (!res.ok) {
+              setBenchmarkError(data?.message || 'Benchmark failed.');
+              return;
+          }
+          setBenchmarkRun({
+              startedAt: String(data?.startedAt || ''),
+              domains: Array.isArray(data?.domains) ? data.domains : [],
+              fromQueryLogs: Number(data?.fromQueryLogs) || 0,
+              results: Array.isArray(data?.results) ? data.results : [],
+              resolverIds: candidates.map(r => r.id)
+          });
+      } catch {
+          setBenchmarkError('Backend not reachable.');
+      } finally {
+          setBenchmarkRunning(false);
+      }
+  };
+
+  const applyBenchmarkedResolver = (id: number) => {
+      const next = resolvers.map(r =>
+          r.id === id ? { ...r, selected: true, order: r.type === 'Recursive' ? undefined : 1 } : { ...r, selected: false, order: undefined }
+      );
+      setResolvers(next);
+      void saveDnsSettings(next);
+  };
+
   const toggleResolver = (id: number) => {
-      setResolvers(prev => prev.map(r => ({ ...r, selected: r.id === id })));
+      setResolvers(prev => {
+          const target = prev.find(r => r.id === id);
+          if (!target) return prev;
+          if (target.type === 'Recursive') return prev.map(r => ({ ...r, selected: r.id === id, order: undefined }));
+
+          // Forward resolvers toggle in and out of the upstream list; new ones are appended.
+          const forward = prev.map(r => (r.type === 'Recursive' ? { ...r, selected: false } : r));
+          if (target.selected && target.type !== 'Recursive') {
+              return forward.map(r => (r.id === id ? { ...r, selected: false, order: undefined } : r));
+          }
+          const nextOrder = Math.max(0, ...forward.filter(r => r.selected).map(r => r.order ?? 0)) + 1;
+          return forward.map(r => (r.id === id ? { ...r, selected: true, order: nextOrder } : r));
+      });
   };
 
   const deleteResolver = (id: number) => {
@@ -602,7 +1150,7 @@ const DnsSettings: React.FC = () => {
              ) : null}
              {activeTab === 'upstream' ? (
                  <button
-                   onClick={saveDnsSettings}
+                   onClick={() => void saveDnsSettings()}
                    disabled={readOnlyFollower}
                    className="btn-primary flex items-center gap-2 px-4 py-2 rounded text-xs disabled:opacity-50 disabled:cursor-not-allowed"
                  >
@@ -620,6 +1168,7 @@ const DnsSettings: React.FC = () => {
         {[
           { id: 'upstream', label: 'Upstream Resolvers', icon: Server },
           { id: 'records', label: 'Local Records', icon: Edit3 },
+          { id: 'cache', label: 'Cache Inspector', icon: Database },
                     { id: 'discovery', label: 'Client Discovery', icon: Router }
         ].map(tab => (
           <button
@@ -781,6 +1330,11 @@ const DnsSettings: React.FC = () => {
                             <div>
                                <div className="flex items-center gap-2">
                                    <div className="text-sm font-bold text-zinc-200">{server.name}</div>
+                                   {server.selected && !isUnbound && selectedForwardResolvers.length > 1 && (
+                                       <span className="text-[9px] px-1.5 py-0.5 rounded font-bold font-mono text-indigo-300 bg-indigo-950/30 border border-indigo-900/50">
+                                           #{selectedForwardResolvers.findIndex(r => r.id === server.id) + 1}
+                                       </span>
+                                   )}
                                    {isUnbound && <span className="text-[9px] bg-emerald-950/30 text-emerald-500 border border-emerald-900/50 px-1.5 py-0.5 rounded font-bold uppercase tracking-wider flex items-center gap-1"><Globe className="w-2.5 h-2.5" /> Root Server</span>}
                                    
                                    {/* Protocol Badge */}
@@ -831,6 +1385,26 @@ const DnsSettings: React.FC = () => {
                       </div>
                    )})}
                 </div>
+
+                {selectedForwardResolvers.length > 1 && (
+                    <div className="mt-4 p-3 bg-[#0b0b0d] border border-[#27272a] rounded-lg">
+                        <label className="text-[10px] font-bold text-zinc-500 uppercase block mb-1">Upstream Strategy</label>
+                        <select
+                            value={upstreamStrategy}
+                            onChange={(e) => setUpstreamStrategy(e.target.value as UpstreamStrategy)}
+                            disabled={readOnlyFollower}
+                            className="w-full bg-[#09090b] border border-[#27272a] text-white px-3 py-2 rounded text-xs outline-none focus:border-zinc-500"
+                        >
+                            <option value="failover">Failover (in order, next on error)</option>
+                            <option value="round-robin">Round-robin</option>
+                            <option value="fastest">Fastest (lowest average latency)</option>
+                            <option value="parallel">Parallel (race all, first answer wins)</option>
+                        </select>
+                        <div className="text-[10px] text-zinc-500 mt-1">
+                            Select several resolvers to combine them; the number shows their order. Unhealthy upstreams are skipped for 30s after repeated errors.
+                        </div>
+                    </div>
+                )}
              </div>
 
              <div className="dashboard-card p-6 rounded-lg">
@@ -914,6 +1488,22 @@ const DnsSettings: React.FC = () => {
                                 <span className="text-zinc-400 font-mono">{upstreamDebugText.lastOkAt || 'Never'}</span>
                             </div>
 
+                            {upstreamDebugText.upstreams.length > 1 && (
+                                <div className="mt-1 space-y-1">
+                                    {upstreamDebugText.upstreams.map((h) => (
+                                        <div key={`${h.transport}|${h.target}`} className="flex items-center justify-between gap-3 text-[11px]">
+                                            <span className="flex items-center gap-2 min-w-0">
+                                                <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${h.healthy ? 'bg-emerald-500' : 'bg-rose-500'}`}></span>
+                                                <span className="text-zinc-300 font-mono truncate">{h.transport} {h.target}</span>
+                                            </span>
+                                            <span className="text-zinc-400 font-mono shrink-0" title={h.lastError ? `${h.lastError.at} ${h.lastError.message}` : undefined}>
+                                                {h.ewmaLatencyMs !== null ? `${Math.round(h.ewmaLatencyMs)}ms` : '–'} · {h.successes}/{h.failures}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
                             {upstreamDebugText.lastErr ? (
                                 <div className="mt-1 p-2 rounded border border-rose-500/30 bg-rose-950/10">
                                     <div className="flex items-center justify-between gap-3 text-[11px]">
@@ -933,6 +1523,297 @@ const DnsSettings: React.FC = () => {
                     )}
                 </div>
 
+                <div className="mt-6 p-4 bg-[#0b0b0d] border border-[#27272a] rounded-lg space-y-3">
+                    <div className="text-xs font-bold text-zinc-300 flex items-center gap-2">
+                        <ShieldCheck className="w-4 h-4 text-emerald-400" /> DNSSEC
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <div className="text-[10px] font-bold text-zinc-500 uppercase">Request validation (DO bit)</div>
+                            <div className="text-[10px] text-zinc-500 mt-0.5">Records the upstream AD flag per query (DNSSEC column in Query Logs). Only useful with a validating upstream.</div>
+                        </div>
+                        <div
+                            onClick={() => !readOnlyFollower && setDnssecEnabled((v) => !v)}
+                            className={`shrink-0 w-10 h-5 rounded-full relative cursor-pointer transition-colors ${dnssecEnabled ? 'bg-emerald-600' : 'bg-zinc-700'}`}
+                            title={dnssecEnabled ? 'On' : 'Off'}
+                        >
+                            <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all ${dnssecEnabled ? 'right-0.5' : 'left-0.5'}`}></div>
+                        </div>
+                    </div>
+                    <div className={`flex items-center justify-between gap-4 ${dnssecEnabled ? '' : 'opacity-50'}`}>
+                        <div>
+                            <div className="text-[10px] font-bold text-zinc-500 uppercase">SERVFAIL on bogus answers</div>
+                            <div className="text-[10px] text-zinc-500 mt-0.5">Off: answers failing validation are still returned (and logged as bogus).</div>
+                        </div>
+                        <div
+                            onClick={() => !readOnlyFollower && dnssecEnabled && setDnssecServfailOnBogus((v) => !v)}
+                            className={`shrink-0 w-10 h-5 rounded-full relative cursor-pointer transition-colors ${dnssecServfailOnBogus ? 'bg-emerald-600' : 'bg-zinc-700'}`}
+                            title={dnssecServfailOnBogus ? 'On' : 'Off'}
+                        >
+                            <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all ${dnssecServfailOnBogus ? 'right-0.5' : 'left-0.5'}`}></div>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="mt-4 p-4 bg-[#0b0b0d] border border-[#27272a] rounded-lg space-y-3">
+                    <div className="text-xs font-bold text-zinc-300 flex items-center gap-2">
+                        <Shield className="w-4 h-4 text-rose-400" /> Block Response
+                    </div>
+                    <div className="text-[10px] text-zinc-500">
+                        How blocked queries are answered (rules, apps, schedules, blocklists and paused clients). Clients can override this on the Clients page.
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div>
+                            <label className="text-[10px] font-bold text-zinc-500 uppercase block mb-1">Mode</label>
+                            <select
+                                value={blockResponseMode}
+                                onChange={(e) => setBlockResponseMode(e.target.value as BlockResponseMode)}
+                                disabled={readOnlyFollower}
+                                className="w-full bg-[#09090b] border border-[#27272a] text-white px-3 py-2 rounded text-xs outline-none focus:border-zinc-500"
+                            >
+                                <option value="NXDOMAIN">NXDOMAIN (domain does not exist)</option>
+                                <option value="NODATA">NODATA (empty answer)</option>
+                                <option value="NULL_IP">Null IP (0.0.0.0 / ::)</option>
+                                <option value="REFUSED">REFUSED</option>
+                                <option value="CUSTOM_IP">Custom sinkhole IP</option>
+                            </select>
+                        </div>
+                        <div className={blockResponseMode === 'NULL_IP' || blockResponseMode === 'CUSTOM_IP' ? '' : 'opacity-50'}>
+                            <label className="text-[10px] font-bold text-zinc-500 uppercase block mb-1">Answer TTL (seconds)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                max={86400}
+                                value={blockResponseTtl}
+                                onChange={(e) => setBlockResponseTtl(e.target.value)}
+                                disabled={readOnlyFollower || (blockResponseMode !== 'NULL_IP' && blockResponseMode !== 'CUSTOM_IP')}
+                                className="w-full bg-[#09090b] border border-[#27272a] text-white px-3 py-2 rounded text-xs font-mono outline-none focus:border-zinc-500"
+                            />
+                        </div>
+                    </div>
+                    {blockResponseMode === 'CUSTOM_IP' && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <div>
+                                <label className="text-[10px] font-bold text-zinc-500 uppercase block mb-1">Sinkhole IPv4</label>
+                                <input
+                                    type="text"
+                                    value={blockResponseIpv4}
+                                    onChange={(e) => setBlockResponseIpv4(e.target.value)}
+                                    disabled={readOnlyFollower}
+                                    placeholder="e.g. 192.168.1.10"
+                                    className="w-full bg-[#09090b] border border-[#27272a] text-white px-3 py-2 rounded text-xs font-mono outline-none focus:border-zinc-500"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-[10px] font-bold text-zinc-500 uppercase block mb-1">Sinkhole IPv6</label>
+                                <input
+                                    type="text"
+                                    value={blockResponseIpv6}
+                                    onChange={(e) => setBlockResponseIpv6(e.target.value)}
+                                    disabled={readOnlyFollower}
+                                    placeholder="optional, e.g. fd00::10"
+                                    className="w-full bg-[#09090b] border border-[#27272a] text-white px-3 py-2 rounded text-xs font-mono outline-none focus:border-zinc-500"
+                                />
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="mt-4 p-4 bg-[#0b0b0d] border border-[#27272a] rounded-lg space-y-3">
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <div className="text-xs font-bold text-zinc-300 flex items-center gap-2">
+                                <Gauge className="w-4 h-4 text-amber-400" /> Client Rate Limit
+                            </div>
+                            <div className="text-[10px] text-zinc-500 mt-1">
+                                Token bucket per client profile (or per IP for unknown devices) to contain query floods from misbehaving devices. Clients can override or be exempted on the Clients page.
+                            </div>
+                        </div>
+                        <div
+                            onClick={() => !readOnlyFollower && setRateLimitEnabled((v) => !v)}
+                            className={`shrink-0 w-10 h-5 rounded-full relative cursor-pointer transition-colors ${rateLimitEnabled ? 'bg-emerald-600' : 'bg-zinc-700'}`}
+                            title={rateLimitEnabled ? 'On' : 'Off'}
+                        >
+                            <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all ${rateLimitEnabled ? 'right-0.5' : 'left-0.5'}`}></div>
+                        </div>
+                    </div>
+                    <div className={`grid grid-cols-1 md:grid-cols-3 gap-3 ${rateLimitEnabled ? '' : 'opacity-50'}`}>
+                        <div>
+                            <label className="text-[10px] font-bold text-zinc-500 uppercase block mb-1">Queries / second</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={100000}
+                                value={rateLimitQps}
+                                onChange={(e) => setRateLimitQps(e.target.value)}
+                                disabled={readOnlyFollower || !rateLimitEnabled}
+                                className="w-full bg-[#09090b] border border-[#27272a] text-white px-3 py-2 rounded text-xs font-mono outline-none focus:border-zinc-500"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-bold text-zinc-500 uppercase block mb-1">Burst</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={100000}
+                                value={rateLimitBurst}
+                                onChange={(e) => setRateLimitBurst(e.target.value)}
+                                disabled={readOnlyFollower || !rateLimitEnabled}
+                                className="w-full bg-[#09090b] border border-[#27272a] text-white px-3 py-2 rounded text-xs font-mono outline-none focus:border-zinc-500"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-bold text-zinc-500 uppercase block mb-1">When exceeded</label>
+                            <select
+                                value={rateLimitAction}
+                                onChange={(e) => setRateLimitAction(e.target.value as RateLimitAction)}
+                                disabled={readOnlyFollower || !rateLimitEnabled}
+                                className="w-full bg-[#09090b] border border-[#27272a] text-white px-3 py-2 rounded text-xs outline-none focus:border-zinc-500"
+                            >
+                                <option value="REFUSED">Answer REFUSED</option>
+                                <option value="DROP">Drop silently</option>
+                            </select>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="mt-4 p-4 bg-[#0b0b0d] border border-[#27272a] rounded-lg space-y-3">
+                    <div className="text-xs font-bold text-zinc-300 flex items-center gap-2">
+                        <Globe className="w-4 h-4 text-sky-400" /> EDNS Client Subnet
+                    </div>
+                    <div className="text-[10px] text-zinc-500">
+                        Controls which client network forwarded queries reveal to upstream resolvers (used by CDNs for geo-routing). The decision is shown per query in the Query Logs.
+                    </div>
+                    <select
+                        value={ecsMode}
+                        onChange={(e) => setEcsMode(e.target.value as EcsMode)}
+                        disabled={readOnlyFollower}
+                        className="w-full md:w-1/2 bg-[#09090b] border border-[#27272a] text-white px-3 py-2 rounded text-xs outline-none focus:border-zinc-500"
+                    >
+                        <option value="strip">Strip (never send client subnets, most private)</option>
+                        <option value="pass">Pass through (forward what the client sent)</option>
+                        <option value="synthesize">Send the client's public /24 (IPv6 /56)</option>
+                    </select>
+                    {ecsMode === 'synthesize' && (
+                        <div className="md:w-1/2">
+                            <label className="text-[10px] font-bold text-zinc-500 uppercase block mb-1">Subnet for LAN clients</label>
+                            <input
+                                type="text"
+                                value={ecsFallbackSubnet}
+                                onChange={(e) => setEcsFallbackSubnet(e.target.value)}
+                                disabled={readOnlyFollower}
+                                placeholder="optional, your WAN address or /24"
+                                className="w-full bg-[#09090b] border border-[#27272a] text-white px-3 py-2 rounded text-xs font-mono outline-none focus:border-zinc-500"
+                            />
+                            <div className="text-[10px] text-zinc-500 mt-1">
+                                Clients with private addresses have no public subnet of their own. Without this, ECS is stripped for them (logged as stripped).
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="mt-4 p-4 bg-[#0b0b0d] border border-[#27272a] rounded-lg space-y-3">
+                    <div className="text-xs font-bold text-zinc-300 flex items-center gap-2">
+                        <Zap className="w-4 h-4 text-emerald-400" /> Response Cache
+                    </div>
+                    <div className="text-[10px] text-zinc-500">
+                        Upstream answers are cached for their TTL, clamped to the range below. Serve-stale answers from expired entries when every upstream fails; prefetch refreshes popular entries before they expire.
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div>
+                            <label className="text-[10px] font-bold text-zinc-500 uppercase block mb-1">Minimum TTL (seconds)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                max={86400}
+                                value={cacheMinTtl}
+                                onChange={(e) => setCacheMinTtl(e.target.value)}
+                                disabled={readOnlyFollower}
+                                className="w-full bg-[#09090b] border border-[#27272a] text-white px-3 py-2 rounded text-xs font-mono outline-none focus:border-zinc-500"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-bold text-zinc-500 uppercase block mb-1">Maximum TTL (seconds)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                max={86400}
+                                value={cacheMaxTtl}
+                                onChange={(e) => setCacheMaxTtl(e.target.value)}
+                                disabled={readOnlyFollower}
+                                className="w-full bg-[#09090b] border border-[#27272a] text-white px-3 py-2 rounded text-xs font-mono outline-none focus:border-zinc-500"
+                            />
+                        </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <div className="text-[10px] font-bold text-zinc-500 uppercase">Serve stale answers</div>
+                            <div className="text-[10px] text-zinc-500 mt-0.5">RFC 8767: keeps popular names resolving during upstream outages.</div>
+                        </div>
+                        <div
+                            onClick={() => !readOnlyFollower && setCacheServeStale((v) => !v)}
+                            className={`shrink-0 w-10 h-5 rounded-full relative cursor-pointer transition-colors ${cacheServeStale ? 'bg-emerald-600' : 'bg-zinc-700'}`}
+                            title={cacheServeStale ? 'On' : 'Off'}
+                        >
+                            <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all ${cacheServeStale ? 'right-0.5' : 'left-0.5'}`}></div>
+                        </div>
+                    </div>
+                    <div className={`grid grid-cols-1 md:grid-cols-2 gap-3 ${cacheServeStale ? '' : 'opacity-50'}`}>
+                        <div>
+                            <label className="text-[10px] font-bold text-zinc-500 uppercase block mb-1">Stale answer TTL (seconds)</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={3600}
+                                value={cacheStaleAnswerTtl}
+                                onChange={(e) => setCacheStaleAnswerTtl(e.target.value)}
+                                disabled={readOnlyFollower || !cacheServeStale}
+                                className="w-full bg-[#09090b] border border-[#27272a] text-white px-3 py-2 rounded text-xs font-mono outline-none focus:border-zinc-500"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-bold text-zinc-500 uppercase block mb-1">Stale window (seconds past expiry)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                max={604800}
+                                value={cacheStaleMaxAge}
+                                onChange={(e) => setCacheStaleMaxAge(e.target.value)}
+                                disabled={readOnlyFollower || !cacheServeStale}
+                                className="w-full bg-[#09090b] border border-[#27272a] text-white px-3 py-2 rounded text-xs font-mono outline-none focus:border-zinc-500"
+                            />
+                        </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <div className="text-[10px] font-bold text-zinc-500 uppercase">Prefetch popular entries</div>
+                            <div className="text-[10px] text-zinc-500 mt-0.5">Refreshes entries that were served repeatedly during the last 10% of their TTL.</div>
+                        </div>
+                        <div
+                            onClick={() => !readOnlyFollower && setCachePrefetch((v) => !v)}
+                            className={`shrink-0 w-10 h-5 rounded-full relative cursor-pointer transition-colors ${cachePrefetch ? 'bg-emerald-600' : 'bg-zinc-700'}`}
+                            title={cachePrefetch ? 'On' : 'Off'}
+                        >
+                            <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all ${cachePrefetch ? 'right-0.5' : 'left-0.5'}`}></div>
+                        </div>
+                    </div>
+                    {cacheStats && (
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 pt-1">
+                            {[
+                                ['Hits', cacheStats.hits],
+                                ['Misses', cacheStats.misses],
+                                ['Stale served', cacheStats.stale],
+                                ['Prefetches', cacheStats.prefetches]
+                            ].map(([label, value]) => (
+                                <div key={label} className="p-2 bg-[#09090b] border border-[#27272a] rounded">
+                                    <div className="text-[10px] text-zinc-500 uppercase">{label}</div>
+                                    <div className="text-sm font-mono text-zinc-200">{Number(value).toLocaleString()}</div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
                 <div className="mt-8 p-4 bg-indigo-900/10 border border-indigo-500/20 rounded-lg">
                     <div className="flex gap-3">
                         <ShieldCheck className="w-5 h-5 text-indigo-400 flex-shrink-0" />
@@ -947,18 +1828,112 @@ const DnsSettings: React.FC = () => {
                     </div>
                 </div>
              </div>
+
+             <div className="dashboard-card p-6 rounded-lg lg:col-span-2">
+                <div className="flex justify-between items-start gap-4 mb-4">
+                    <div>
+                        <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+                            <Gauge className="w-4 h-4 text-indigo-400" /> Upstream Benchmark
+                        </h3>
+                        <div className="text-[10px] text-zinc-500 mt-1">
+                            Resolves your network's most queried domains twice through every resolver above (cold, then warm) and checks DNSSEC validation. Takes up to a minute.
+                        </div>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => void runUpstreamBenchmark()}
+                        disabled={benchmarkRunning || resolvers.length === 0}
+                        className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 bg-zinc-800 text-zinc-200 border border-zinc-700 rounded text-[11px] font-bold hover:bg-white hover:text-black transition-colors disabled:opacity-60 disabled:hover:bg-zinc-800 disabled:hover:text-zinc-200"
+                    >
+                        <RefreshCw className={`w-3.5 h-3.5 ${benchmarkRunning ? 'animate-spin' : ''}`} />
+                        {benchmarkRunning ? 'RUNNING...' : 'RUN BENCHMARK'}
+                    </button>
+                </div>
+
+                {benchmarkError && <div className="mb-3 text-xs text-rose-400">{benchmarkError}</div>}
+
+                {benchmarkRun && (
+                    <>
+                        <div className="text-[10px] text-zinc-500 mb-2">
+                            {benchmarkRun.domains.length} domains ({benchmarkRun.fromQueryLogs} from the query log) · {new Date(benchmarkRun.startedAt).toLocaleString()}
+                        </div>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-left text-xs">
+                                <thead>
+                                    <tr className="text-[10px] text-zinc-500 uppercase border-b border-[#27272a]">
+                                        <th className="py-2 pr-3 font-bold">Resolver</th>
+                                        <th className="py-2 pr-3 font-bold">Cold p50 / p95</th>
+                                        <th className="py-2 pr-3 font-bold">Warm p50 / p95</th>
+                                        <th className="py-2 pr-3 font-bold">Failures</th>
+                                        <th className="py-2 pr-3 font-bold">DNSSEC</th>
+                                        <th className="py-2 font-bold"></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {benchmarkRun.results.map((result, i) => {
+                                        const resolverId = benchmarkRun.resolverIds[i];
+                                        const resolver = resolvers.find(r => r.id === resolverId);
+                                        const ms = (v: number | null) => (v === null ? '—' : `${v} ms`);
+                                        return (
+                                            <tr key={resolverId ?? i} className="border-b border-[#27272a]/60">
+                                                <td className="py-2 pr-3">
+                                                    <div className="font-bold text-zinc-200">{result.label}</div>
+                                                    <div className="text-[10px] font-mono text-zinc-500 truncate max-w-[260px]">
+                                                        {result.transport.toUpperCase()} · {result.target}
+                                                    </div>
+                                                </td>
+                                                <td className="py-2 pr-3 font-mono text-zinc-300">{ms(result.cold.p50)} / {ms(result.cold.p95)}</td>
+                                                <td className="py-2 pr-3 font-mono text-zinc-300">{ms(result.warm.p50)} / {ms(result.warm.p95)}</td>
+                                                <td className={`py-2 pr-3 font-mono ${result.failures ? 'text-rose-400' : 'text-zinc-400'}`} title={result.lastError}>
+                                                    {(result.failureRate * 100).toFixed(1)}%
+                                                </td>
+                                                <td className="py-2 pr-3">
+                                                    <span
+                                                        className={`text-[9px] px-1.5 py-0.5 rounded font-bold uppercase border ${
+                                                            result.dnssec === 'validating'
+                                                                ? 'text-emerald-400 bg-emerald-950/30 border-emerald-900/50'
+                                                                : result.dnssec === 'not-validating'
+                                                                    ? 'text-amber-400 bg-amber-950/30 border-amber-900/50'
+                                                                    : 'text-zinc-500 bg-zinc-900 border-zinc-700'
+                                                        }`}
+                                                    >
+                                                        {result.dnssec === 'validating' ? 'Validating' : result.dnssec === 'not-validating' ? 'No validation' : 'Unknown'}
+                                                    </span>
+                                                </td>
+                                                <td className="py-2 text-right">
+                                                    {resolver && (
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => applyBenchmarkedResolver(resolver.id)}
+                                                            disabled={readOnlyFollower || (resolver.selected && selectedForwardResolvers.length <= 1)}
+                                                            className="px-2.5 py-1 bg-zinc-800 text-zinc-200 border border-zinc-700 rounded text-[10px] font-bold hover:bg-white hover:text-black transition-colors disabled:opacity-40 disabled:hover:bg-zinc-800 disabled:hover:text-zinc-200"
+                                                        >
+                                                            {resolver.selected && selectedForwardResolvers.length <= 1 ? 'IN USE' : 'USE'}
+                                                        </button>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                )}
+             </div>
            </div>
         )}
 
         {/* TAB 2: LOCAL RECORDS */}
         {activeTab === 'records' && (
-           <div className="dashboard-card p-0 rounded-lg flex flex-col overflow-hidden animate-fade-in">
+          <div className="space-y-6 animate-fade-in">
+           <div className="dashboard-card p-0 rounded-lg flex flex-col overflow-hidden">
               <div className="p-5 border-b border-[#27272a] flex justify-between items-center bg-[#121214]">
                  <div>
                     <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
                        <Edit3 className="w-4 h-4 text-emerald-500" /> DNS Rewrites
                     </h3>
-                    <p className="text-xs text-zinc-500 mt-1">Override DNS answers for exact domain matches (A/AAAA/CNAME).</p>
+                    <p className="text-xs text-zinc-500 mt-1">Answer exact or wildcard domains locally (A/AAAA/CNAME/MX/TXT/SRV/PTR/CAA). Other query types get an empty (NODATA) answer.</p>
                  </div>
                  <button
                     onClick={() => setShowAddRewrite(true)}
@@ -973,7 +1948,7 @@ const DnsSettings: React.FC = () => {
                     <thead className="bg-[#09090b] text-[9px] text-zinc-600 uppercase font-bold tracking-wider">
                        <tr>
                           <th className="p-4 pl-6 border-b border-[#27272a]">Domain</th>
-                          <th className="p-4 border-b border-[#27272a]">Target IP / CNAME</th>
+                          <th className="p-4 border-b border-[#27272a]">Records</th>
                           <th className="p-4 border-b border-[#27272a] text-right pr-6">Action</th>
                        </tr>
                     </thead>
@@ -1000,10 +1975,12 @@ const DnsSettings: React.FC = () => {
                                     {rewrite.domain}
                                 </td>
                                 <td className="p-4 text-sm text-indigo-400 font-mono">
-                                    <div className="flex items-center gap-2">
-                                        <Route className="w-3 h-3 text-zinc-600" />
-                                        {rewrite.target}
-                                    </div>
+                                    {(rewrite.records ?? []).map((r, i) => (
+                                        <div key={i} className="flex items-center gap-2">
+                                            <Route className="w-3 h-3 text-zinc-600" />
+                                            <span className="break-all">{describeLocalRecord(r)}</span>
+                                        </div>
+                                    ))}
                                 </td>
                                 <td className="p-4 text-right pr-6">
                                     <button
@@ -1044,7 +2021,7 @@ const DnsSettings: React.FC = () => {
                         <div className="p-5 border-b border-[#27272a] bg-[#121214] flex justify-between items-center">
                             <div>
                                 <div className="text-sm font-bold text-white uppercase tracking-wider">Add DNS Rewrite</div>
-                                <div className="text-xs text-zinc-500 mt-1">Domain → target (IP or CNAME).</div>
+                                <div className="text-xs text-zinc-500 mt-1">Domain → one or more local records.</div>
                             </div>
                             <button onClick={() => setShowAddRewrite(false)} className="text-zinc-500 hover:text-white">
                                 ×
@@ -1061,18 +2038,99 @@ const DnsSettings: React.FC = () => {
                                     onChange={(e) => setNewRewriteDomain(e.target.value)}
                                 />
                             </div>
-                            <div>
-                                <label className="block text-[10px] font-bold text-zinc-400 uppercase mb-1.5">Target</label>
-                                <input
-                                    type="text"
-                                    placeholder="192.168.1.10 or host.local"
-                                    className="w-full bg-[#121214] border border-[#27272a] rounded px-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-emerald-500 placeholder:text-zinc-700"
-                                    value={newRewriteTarget}
-                                    onChange={(e) => setNewRewriteTarget(e.target.value)}
-                                />
+                            <div className="space-y-2">
+                                <label className="block text-[10px] font-bold text-zinc-400 uppercase">Records</label>
+                                {newRewriteRecords.map((draft, idx) => {
+                                    const update = (patch: Partial<LocalRecordDraft>) =>
+                                        setNewRewriteRecords((prev) => prev.map((d, i) => (i === idx ? { ...d, ...patch } : d)));
+                                    const inputClass =
+                                        'bg-[#121214] border border-[#27272a] rounded px-2 py-2 text-xs font-mono text-white focus:outline-none focus:border-emerald-500 placeholder:text-zinc-700';
+                                    return (
+                                        <div key={idx} className="flex flex-wrap items-center gap-2">
+                                            <select
+                                                value={draft.type}
+                                                onChange={(e) => update({ type: e.target.value as LocalRecordType })}
+                                                className={`${inputClass} w-20`}
+                                                aria-label="Record type"
+                                            >
+                                                {LOCAL_RECORD_TYPES.map((t) => (
+                                                    <option key={t} value={t}>{t}</option>
+                                                ))}
+                                            </select>
+                                            {(draft.type === 'MX' || draft.type === 'SRV') && (
+                                                <input
+                                                    type="number"
+                                                    placeholder={draft.type === 'MX' ? 'pref 10' : 'prio 0'}
+                                                    className={`${inputClass} w-20`}
+                                                    value={draft.priority}
+                                                    onChange={(e) => update({ priority: e.target.value })}
+                                                />
+                                            )}
+                                            {draft.type === 'SRV' && (
+                                                <>
+                                                    <input
+                                                        type="number"
+                                                        placeholder="weight 0"
+                                                        className={`${inputClass} w-20`}
+                                                        value={draft.weight}
+                                                        onChange={(e) => update({ weight: e.target.value })}
+                                                    />
+                                                    <input
+                                                        type="number"
+                                                        placeholder="port"
+                                                        className={`${inputClass} w-20`}
+                                                        value={draft.port}
+                                                        onChange={(e) => update({ port: e.target.value })}
+                                                    />
+                                                </>
+                                            )}
+                                            {draft.type === 'CAA' && (
+                                                <select
+                                                    value={draft.tag}
+                                                    onChange={(e) => update({ tag: e.target.value as LocalRecordDraft['tag'] })}
+                                                    className={`${inputClass} w-24`}
+                                                    aria-label="CAA tag"
+                                                >
+                                                    <option value="issue">issue</option>
+                                                    <option value="issuewild">issuewild</option>
+                                                    <option value="iodef">iodef</option>
+                                                </select>
+                                            )}
+                                            <input
+                                                type="text"
+                                                placeholder={LOCAL_RECORD_PLACEHOLDERS[draft.type]}
+                                                className={`${inputClass} flex-1 min-w-[140px]`}
+                                                value={draft.value}
+                                                onChange={(e) => update({ value: e.target.value })}
+                                            />
+                                            <input
+                                                type="number"
+                                                placeholder="TTL 60"
+                                                className={`${inputClass} w-20`}
+                                                value={draft.ttl}
+                                                onChange={(e) => update({ ttl: e.target.value })}
+                                                aria-label="TTL (seconds)"
+                                            />
+                                            <button
+                                                onClick={() => setNewRewriteRecords((prev) => (prev.length > 1 ? prev.filter((_, i) => i !== idx) : prev))}
+                                                disabled={newRewriteRecords.length <= 1}
+                                                className="p-1.5 text-zinc-600 hover:text-rose-500 disabled:opacity-30"
+                                                aria-label="Remove record"
+                                            >
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                                <button
+                                    onClick={() => setNewRewriteRecords((prev) => [...prev, emptyRecordDraft(prev[prev.length - 1]?.type ?? 'A')])}
+                                    className="flex items-center gap-1 text-[10px] font-bold text-zinc-400 hover:text-white"
+                                >
+                                    <Plus className="w-3 h-3" /> ADD RECORD
+                                </button>
                             </div>
                             <div className="text-[10px] text-zinc-600 leading-relaxed">
-                                Supports exact matches and wildcard patterns like *.example.com.
+                                Supports exact matches and wildcard patterns like *.example.com. A/AAAA records of exact domains also answer reverse (PTR) lookups automatically; a CNAME cannot be combined with other records.
                             </div>
                         </div>
                         <div className="p-5 border-t border-[#27272a] bg-[#121214] flex justify-end gap-3">
@@ -1092,7 +2150,7 @@ const DnsSettings: React.FC = () => {
                                                 ...getAuthHeaders()
                                             },
                                             credentials: 'include',
-                                            body: JSON.stringify({ domain: newRewriteDomain, target: newRewriteTarget })
+                                            body: JSON.stringify({ domain: newRewriteDomain, records: newRewriteRecords.map(toLocalRecord) })
                                         });
                                         if (!res.ok) {
                                             const data = await res.json().catch(() => ({} as any));
@@ -1101,14 +2159,14 @@ const DnsSettings: React.FC = () => {
                                         }
                                         setShowAddRewrite(false);
                                         setNewRewriteDomain('');
-                                        setNewRewriteTarget('');
+                                        setNewRewriteRecords([emptyRecordDraft()]);
                                         await loadRewrites();
                                         showPageMsg('Saved', 'success');
                                     } catch {
                                         showPageMsg('Backend not reachable.', 'error');
                                     }
                                 }}
-                                disabled={readOnlyFollower || !newRewriteDomain.trim() || !newRewriteTarget.trim()}
+                                disabled={readOnlyFollower || !newRewriteDomain.trim() || newRewriteRecords.some((d) => !d.value.trim())}
                                 className="btn-primary px-6 py-2 rounded text-xs flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                                 <Save className="w-3.5 h-3.5" /> SAVE
@@ -1118,6 +2176,329 @@ const DnsSettings: React.FC = () => {
                                 </Modal>
               )}
            </div>
+
+           <div className="dashboard-card p-0 rounded-lg flex flex-col overflow-hidden">
+              <div className="p-5 border-b border-[#27272a] bg-[#121214] flex justify-between items-start gap-4">
+                 <div>
+                    <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+                       <Network className="w-4 h-4 text-emerald-500" /> Local Domain
+                    </h3>
+                    <p className="text-xs text-zinc-500 mt-1">
+                       Answer <span className="font-mono">&lt;name&gt;.{localDomain.domain || 'home.arpa'}</span> (A/AAAA and PTR) for client profiles with a fixed IP and host names from discovery. Unknown names in the zone get NXDOMAIN. DNS rewrites win a name.
+                    </p>
+                 </div>
+                 <div
+                    onClick={() => !readOnlyFollower && setLocalDomain((v) => ({ ...v, enabled: !v.enabled }))}
+                    className={`shrink-0 w-10 h-5 rounded-full relative cursor-pointer transition-colors ${localDomain.enabled ? 'bg-emerald-600' : 'bg-zinc-700'}`}
+                    title={localDomain.enabled ? 'On' : 'Off'}
+                 >
+                    <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all ${localDomain.enabled ? 'right-0.5' : 'left-0.5'}`}></div>
+                 </div>
+              </div>
+
+              <div className="p-4 border-b border-[#27272a] bg-[#121214] grid grid-cols-1 md:grid-cols-[1fr_auto_auto_auto] gap-3 items-center">
+                  <input
+                      type="text"
+                      aria-label="Local domain"
+                      placeholder="home.arpa"
+                      value={localDomain.domain}
+                      onChange={(e) => setLocalDomain((v) => ({ ...v, domain: e.target.value }))}
+                      disabled={readOnlyFollower}
+                      className="w-full bg-[#09090b] border border-[#27272a] rounded px-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-emerald-500 placeholder:text-zinc-700 disabled:opacity-50"
+                  />
+                  <label className="flex items-center gap-2 text-[10px] font-bold text-zinc-400 uppercase cursor-pointer">
+                      <input
+                          type="checkbox"
+                          checked={localDomain.fromProfiles}
+                          disabled={readOnlyFollower}
+                          onChange={(e) => setLocalDomain((v) => ({ ...v, fromProfiles: e.target.checked }))}
+                      />
+                      Client profiles
+                  </label>
+                  <label className="flex items-center gap-2 text-[10px] font-bold text-zinc-400 uppercase cursor-pointer">
+                      <input
+                          type="checkbox"
+                          checked={localDomain.fromDiscovery}
+                          disabled={readOnlyFollower}
+                          onChange={(e) => setLocalDomain((v) => ({ ...v, fromDiscovery: e.target.checked }))}
+                      />
+                      Discovery
+                  </label>
+                  <button
+                      onClick={() => void saveLocalDomain()}
+                      disabled={readOnlyFollower}
+                      className="flex items-center justify-center gap-1.5 px-3 py-1.5 bg-zinc-800 text-zinc-200 border border-zinc-700 rounded text-xs font-bold hover:bg-white hover:text-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                      <Save className="w-3.5 h-3.5" /> SAVE
+                  </button>
+              </div>
+
+              {localHostConflicts.length > 0 && (
+                  <div className="p-4 border-b border-[#27272a] bg-amber-950/10 space-y-1">
+                      <div className="text-[10px] font-bold text-amber-400 uppercase">Conflicts ({localHostConflicts.length})</div>
+                      {localHostConflicts.map((c) => (
+                          <div key={`${c.name}|${c.ip}`} className="text-xs text-amber-200/80">
+                              <span className="font-mono">{c.name}</span> → <span className="font-mono">{c.ip}</span> ({LOCAL_HOST_SOURCE_LABELS[c.source]}){' '}
+                              {c.reason === 'REWRITE'
+                                  ? 'is answered by a DNS rewrite with other records.'
+                                  : `is already taken by ${c.winner ? `${c.winner.ip} (${LOCAL_HOST_SOURCE_LABELS[c.winner.source]})` : 'another device'}.`}
+                          </div>
+                      ))}
+                  </div>
+              )}
+
+              <div className="bg-[#09090b]">
+                 <table className="w-full text-left">
+                    <thead className="bg-[#09090b] text-[9px] text-zinc-600 uppercase font-bold tracking-wider">
+                       <tr>
+                          <th className="p-4 pl-6 border-b border-[#27272a]">Name</th>
+                          <th className="p-4 border-b border-[#27272a]">Address</th>
+                          <th className="p-4 border-b border-[#27272a] pr-6">Source</th>
+                       </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[#27272a]">
+                       {localHostsError && (
+                          <tr>
+                              <td colSpan={3} className="p-6 text-xs text-rose-400">{localHostsError}</td>
+                          </tr>
+                       )}
+                       {!localHostsError && localHosts.length === 0 && (
+                          <tr>
+                              <td colSpan={3} className="p-6 text-xs text-zinc-500">
+                                  {localDomain.enabled ? 'No local hosts yet.' : 'Local domain is off.'}
+                              </td>
+                          </tr>
+                       )}
+                       {!localHostsError && localHosts.map((h) => (
+                          <tr key={`${h.name}|${h.ip}`} className="hover:bg-[#18181b]">
+                              <td className="p-4 pl-6 text-sm text-zinc-300 font-mono font-medium">{h.name}</td>
+                              <td className="p-4 text-sm text-indigo-400 font-mono">{h.ip}</td>
+                              <td className="p-4 pr-6 text-xs text-zinc-500">{LOCAL_HOST_SOURCE_LABELS[h.source]}</td>
+                          </tr>
+                       ))}
+                    </tbody>
+                 </table>
+              </div>
+           </div>
+
+           <div className="dashboard-card p-0 rounded-lg flex flex-col overflow-hidden">
+              <div className="p-5 border-b border-[#27272a] bg-[#121214]">
+                 <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+                    <Route className="w-4 h-4 text-indigo-500" /> Conditional Forwarding
+                 </h3>
+                 <p className="text-xs text-zinc-500 mt-1">
+                    Send a domain suffix (e.g. <span className="font-mono">lan</span>, <span className="font-mono">corp.example</span>) or a reverse zone to a specific resolver. An IPv4 CIDR like <span className="font-mono">192.168.0.0/16</span> becomes its <span className="font-mono">in-addr.arpa</span> zone. Blocking rules still apply.
+                 </p>
+              </div>
+
+              <div className="bg-[#09090b]">
+                 <table className="w-full text-left">
+                    <thead className="bg-[#09090b] text-[9px] text-zinc-600 uppercase font-bold tracking-wider">
+                       <tr>
+                          <th className="p-4 pl-6 border-b border-[#27272a]">Suffix</th>
+                          <th className="p-4 border-b border-[#27272a]">Upstream</th>
+                          <th className="p-4 border-b border-[#27272a] text-right pr-6">Action</th>
+                       </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[#27272a]">
+                       {conditionalForwardsError && (
+                          <tr>
+                              <td colSpan={3} className="p-6 text-xs text-rose-400">{conditionalForwardsError}</td>
+                          </tr>
+                       )}
+                       {!conditionalForwardsError && conditionalForwards.length === 0 && (
+                          <tr>
+                              <td colSpan={3} className="p-6 text-xs text-zinc-500">No conditional forwarding configured.</td>
+                          </tr>
+                       )}
+                       {!conditionalForwardsError && conditionalForwards.map(f => (
+                          <tr key={f.id} className="hover:bg-[#18181b] group">
+                              <td className="p-4 pl-6 text-sm text-zinc-300 font-mono font-medium">*.{f.suffix}</td>
+                              <td className="p-4 text-sm text-indigo-400 font-mono">
+                                  {f.upstream.transport}{' '}
+                                  {f.upstream.transport === 'doh' ? f.upstream.dohUrl : `${f.upstream.host}:${f.upstream.port}`}
+                              </td>
+                              <td className="p-4 text-right pr-6">
+                                  <button
+                                      aria-label={`Delete conditional forward ${f.suffix}`}
+                                      onClick={() => void deleteConditionalForward(f.id)}
+                                      disabled={readOnlyFollower}
+                                      className="text-zinc-600 hover:text-rose-500 transition-colors opacity-0 group-hover:opacity-100 p-2"
+                                  >
+                                      <Trash2 className="w-4 h-4" />
+                                  </button>
+                              </td>
+                          </tr>
+                       ))}
+                    </tbody>
+                 </table>
+              </div>
+
+              <div className="p-4 border-t border-[#27272a] bg-[#121214] grid grid-cols-1 md:grid-cols-[1fr_auto_1fr_auto] gap-2">
+                  <input
+                      type="text"
+                      placeholder="lan or 192.168.0.0/16"
+                      value={newForwardSuffix}
+                      onChange={(e) => setNewForwardSuffix(e.target.value)}
+                      className="w-full bg-[#09090b] border border-[#27272a] rounded px-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-emerald-500 placeholder:text-zinc-700"
+                  />
+                  <select
+                      value={newForwardTransport}
+                      onChange={(e) => setNewForwardTransport(e.target.value as DnsForwardUpstream['transport'])}
+                      className="bg-[#09090b] border border-[#27272a] rounded px-2 py-2 text-xs text-zinc-200"
+                  >
+                      <option value="udp">UDP</option>
+                      <option value="tcp">TCP</option>
+                      <option value="dot">DoT</option>
+                      <option value="doh">DoH</option>
+                  </select>
+                  <input
+                      type="text"
+                      placeholder={newForwardTransport === 'doh' ? 'https://resolver/dns-query' : '192.168.1.1 or host:port'}
+                      value={newForwardTarget}
+                      onChange={(e) => setNewForwardTarget(e.target.value)}
+                      className="w-full bg-[#09090b] border border-[#27272a] rounded px-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-emerald-500 placeholder:text-zinc-700"
+                  />
+                  <button
+                      onClick={() => void addConditionalForward()}
+                      disabled={readOnlyFollower || !newForwardSuffix.trim() || !newForwardTarget.trim()}
+                      className="flex items-center justify-center gap-1.5 px-3 py-1.5 bg-zinc-800 text-zinc-200 border border-zinc-700 rounded text-xs font-bold hover:bg-white hover:text-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                      <Plus className="w-3.5 h-3.5" /> ADD
+                  </button>
+              </div>
+           </div>
+          </div>
+        )}
+
+        {/* TAB: CACHE INSPECTOR */}
+        {activeTab === 'cache' && (
+          <div className="space-y-6 animate-fade-in">
+           <div className="dashboard-card p-0 rounded-lg flex flex-col overflow-hidden">
+              <div className="p-5 border-b border-[#27272a] flex justify-between items-center gap-4 bg-[#121214]">
+                 <div>
+                    <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+                       <Database className="w-4 h-4 text-emerald-500" /> Response Cache
+                    </h3>
+                    <p className="text-xs text-zinc-500 mt-1">Cached upstream answers. The cache is saved on shutdown and restored with the remaining TTLs on the next start.</p>
+                 </div>
+                 <div className="flex items-center gap-2">
+                    <button
+                       onClick={() => void loadCacheEntries()}
+                       className="flex items-center gap-1.5 px-3 py-1.5 bg-zinc-800 text-zinc-200 border border-zinc-700 rounded text-xs font-bold hover:bg-white hover:text-black transition-colors"
+                    >
+                       <RefreshCw className="w-3.5 h-3.5" /> REFRESH
+                    </button>
+                    <button
+                       onClick={() => void flushCache()}
+                       disabled={readOnlyFollower}
+                       className="flex items-center gap-1.5 px-3 py-1.5 bg-rose-950/30 text-rose-300 border border-rose-700/40 rounded text-xs font-bold hover:bg-rose-900/40 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                       <Trash2 className="w-3.5 h-3.5" /> FLUSH ALL
+                    </button>
+                 </div>
+              </div>
+
+              {cacheSize && (
+                 <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-5 border-b border-[#27272a] bg-[#09090b]">
+                    {[
+                       ['Entries', `${cacheSize.entries.toLocaleString()} / ${cacheSize.maxEntries.toLocaleString()}`],
+                       ['Stale entries', cacheSize.staleEntries.toLocaleString()],
+                       ['Answer data', formatCacheBytes(cacheSize.responseBytes)],
+                       ['Approx. memory', formatCacheBytes(cacheSize.approxMemoryBytes)]
+                    ].map(([label, value]) => (
+                       <div key={label} className="p-2 bg-[#121214] border border-[#27272a] rounded">
+                          <div className="text-[10px] text-zinc-500 uppercase">{label}</div>
+                          <div className="text-sm font-mono text-zinc-200">{value}</div>
+                       </div>
+                    ))}
+                 </div>
+              )}
+
+              <form
+                 className="p-5 border-b border-[#27272a] flex items-center gap-2 bg-[#09090b]"
+                 onSubmit={(e) => {
+                    e.preventDefault();
+                    void loadCacheEntries();
+                 }}
+              >
+                 <div className="relative flex-1">
+                    <Search className="w-3.5 h-3.5 text-zinc-600 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                       value={cacheSearch}
+                       onChange={(e) => setCacheSearch(e.target.value)}
+                       placeholder="Search by domain, e.g. example.com"
+                       className="w-full bg-[#09090b] border border-[#27272a] rounded pl-8 pr-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-zinc-500 placeholder:text-zinc-700"
+                    />
+                 </div>
+                 <button type="submit" className="px-3 py-2 bg-zinc-800 text-zinc-200 border border-zinc-700 rounded text-xs font-bold hover:bg-white hover:text-black transition-colors">
+                    SEARCH
+                 </button>
+              </form>
+
+              <div className="bg-[#09090b]">
+                 <table className="w-full text-left">
+                    <thead className="bg-[#09090b] text-[9px] text-zinc-600 uppercase font-bold tracking-wider">
+                       <tr>
+                          <th className="p-4 pl-6 border-b border-[#27272a]">Domain</th>
+                          <th className="p-4 border-b border-[#27272a]">Type</th>
+                          <th className="p-4 border-b border-[#27272a]">TTL left</th>
+                          <th className="p-4 border-b border-[#27272a]">Hits</th>
+                          <th className="p-4 border-b border-[#27272a]">Size</th>
+                          <th className="p-4 border-b border-[#27272a] text-right pr-6">Action</th>
+                       </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[#27272a]">
+                       {cacheLoading && (
+                          <tr>
+                              <td colSpan={6} className="p-6 text-xs text-zinc-500">Loading cache…</td>
+                          </tr>
+                       )}
+                       {!cacheLoading && cacheError && (
+                          <tr>
+                              <td colSpan={6} className="p-6 text-xs text-rose-400">{cacheError}</td>
+                          </tr>
+                       )}
+                       {!cacheLoading && !cacheError && cacheEntries.length === 0 && (
+                          <tr>
+                              <td colSpan={6} className="p-6 text-xs text-zinc-500">{cacheSearch.trim() ? 'No cached answers match.' : 'The cache is empty.'}</td>
+                          </tr>
+                       )}
+                       {!cacheLoading && !cacheError && cacheEntries.map(entry => (
+                          <tr key={entry.key} className="hover:bg-[#18181b] group">
+                              <td className="p-4 pl-6 text-sm text-zinc-300 font-mono font-medium">
+                                  <div className="break-all">{entry.domain}</div>
+                                  {entry.scope ? <div className="text-[10px] text-zinc-600 mt-0.5 break-all">{entry.scope}</div> : null}
+                              </td>
+                              <td className="p-4 text-xs text-indigo-400 font-mono">{entry.type}</td>
+                              <td className="p-4 text-xs font-mono">
+                                  {entry.stale ? <span className="text-amber-400">stale</span> : <span className="text-zinc-300">{entry.ttlRemaining}s</span>}
+                              </td>
+                              <td className="p-4 text-xs text-zinc-400 font-mono">{entry.hits.toLocaleString()}</td>
+                              <td className="p-4 text-xs text-zinc-400 font-mono">{formatCacheBytes(entry.bytes)}</td>
+                              <td className="p-4 text-right pr-6">
+                                  <button
+                                      aria-label={`Flush ${entry.domain} from the cache`}
+                                      title="Flush this domain (all types)"
+                                      onClick={() => void flushCache(entry.domain)}
+                                      disabled={readOnlyFollower}
+                                      className="text-zinc-600 hover:text-rose-500 transition-colors opacity-0 group-hover:opacity-100 p-2 disabled:cursor-not-allowed"
+                                  >
+                                      <Trash2 className="w-4 h-4" />
+                                  </button>
+                              </td>
+                          </tr>
+                       ))}
+                    </tbody>
+                 </table>
+                 {!cacheLoading && !cacheError && cacheEntriesTotal > cacheEntries.length && (
+                    <div className="p-4 pl-6 text-[10px] text-zinc-600 border-t border-[#27272a]">
+                       Showing the {cacheEntries.length} most used of {cacheEntriesTotal.toLocaleString()} entries. Search to narrow the list.
+                    </div>
+                 )}
+              </div>
+           </div>
+          </div>
         )}
 
           {/* TAB 3: CLIENT DISCOVERY */}
@@ -1130,6 +2511,7 @@ const DnsSettings: React.FC = () => {
                           <p className="text-xs text-zinc-400 mt-1 leading-relaxed">
                               Sentinel can discover recent client IPs from DNS logs and (optionally) resolve hostnames via reverse DNS (PTR).
                               This works with most routers (e.g. FRITZ!Box, OPNsense, UniFi, MikroTik) as long as your network provides PTR hostnames for LAN clients.
+                              DHCP lease files, mDNS and NetBIOS add hostnames and MAC addresses for devices the router does not name.
                           </p>
                       </div>
                   </div>
@@ -1222,6 +2604,122 @@ const DnsSettings: React.FC = () => {
                           )}
                       </div>
 
+                      <div className="bg-[#09090b] border border-[#27272a] rounded p-3 space-y-2">
+                          <div className="flex items-center justify-between gap-3">
+                              <div>
+                                  <div className="text-[10px] font-bold text-zinc-500 uppercase">DHCP Lease Files</div>
+                                  <div className="text-xs text-zinc-600 mt-1">
+                                      Hostnames and MACs from your DHCP server. Mount lease files or exports read-only into{' '}
+                                      <span className="font-mono text-zinc-400">{discoverySources?.leasesDir ?? '/data/leases'}</span> and list them by file name.
+                                  </div>
+                              </div>
+                              <button
+                                  onClick={() => setDiscoveryLeaseFiles((prev) => [...prev, { path: '', format: 'auto' }])}
+                                  disabled={discoveryLeaseFiles.length >= 10}
+                                  className="px-3 py-1.5 rounded text-xs font-bold text-zinc-400 hover:text-white border border-[#27272a] hover:border-zinc-500 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                  <Plus className="w-3.5 h-3.5" /> Add
+                              </button>
+                          </div>
+
+                          {discoveryLeaseFiles.length === 0 && <div className="text-[10px] text-zinc-600">No lease files configured.</div>}
+                          {discoveryLeaseFiles.map((file, idx) => {
+                              const status = discoverySources?.leaseFiles.find((s) => s.path === file.path);
+                              const update = (patch: Partial<LeaseFileSource>) =>
+                                  setDiscoveryLeaseFiles((prev) => prev.map((f, i) => (i === idx ? { ...f, ...patch } : f)));
+                              return (
+                                  <div key={idx} className="space-y-1">
+                                      <div className="flex flex-col md:flex-row gap-2">
+                                          <input
+                                              value={file.path}
+                                              onChange={(e) => update({ path: e.target.value })}
+                                              placeholder="e.g. dnsmasq.leases"
+                                              className="flex-1 bg-[#050507] border border-[#27272a] rounded px-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-zinc-500 placeholder:text-zinc-700"
+                                          />
+                                          <select
+                                              value={file.format}
+                                              onChange={(e) => update({ format: e.target.value as LeaseFileFormat })}
+                                              className="bg-[#050507] border border-[#27272a] rounded px-3 py-2 text-xs text-white focus:outline-none focus:border-zinc-500"
+                                              aria-label="Lease file format"
+                                          >
+                                              {LEASE_FILE_FORMATS.map((f) => (
+                                                  <option key={f.id} value={f.id}>{f.label}</option>
+                                              ))}
+                                          </select>
+                                          <button
+                                              onClick={() => setDiscoveryLeaseFiles((prev) => prev.filter((_, i) => i !== idx))}
+                                              className="p-1.5 text-zinc-600 hover:text-rose-500"
+                                              aria-label="Remove lease file"
+                                          >
+                                              <Trash2 className="w-3.5 h-3.5" />
+                                          </button>
+                                      </div>
+                                      {status && (
+                                          <div className={`text-[10px] ${status.error ? 'text-rose-400' : 'text-zinc-500'}`}>
+                                              {status.error
+                                                  ? status.error
+                                                  : `${status.entries} lease${status.entries === 1 ? '' : 's'}${status.detected ? ` · ${status.detected}` : ''}`}
+                                          </div>
+                                      )}
+                                  </div>
+                              );
+                          })}
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          <div className="bg-[#09090b] border border-[#27272a] rounded p-3">
+                              <div className="flex items-center justify-between gap-4">
+                                  <div>
+                                      <div className="text-[10px] font-bold text-zinc-500 uppercase">mDNS Names</div>
+                                      <div className="text-xs text-zinc-600 mt-1">
+                                          Listens for <span className="font-mono">.local</span> announcements (Apple devices, printers, smart TVs). Requires host networking.
+                                      </div>
+                                  </div>
+                                  <div
+                                      onClick={() => setDiscoveryMdnsEnabled((v) => !v)}
+                                      className={`w-10 h-5 rounded-full relative cursor-pointer transition-colors ${discoveryMdnsEnabled ? 'bg-emerald-600' : 'bg-zinc-700'}`}
+                                      title={discoveryMdnsEnabled ? 'On' : 'Off'}
+                                  >
+                                      <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all ${discoveryMdnsEnabled ? 'right-0.5' : 'left-0.5'}`}></div>
+                                  </div>
+                              </div>
+                              {discoverySources?.mdns.enabled && (
+                                  <div className="text-[10px] text-zinc-500 mt-2">{discoverySources.mdns.hosts} host(s) heard so far.</div>
+                              )}
+                          </div>
+                          <div className="bg-[#09090b] border border-[#27272a] rounded p-3 space-y-2">
+                              <div className="flex items-center justify-between gap-4">
+                                  <div>
+                                      <div className="text-[10px] font-bold text-zinc-500 uppercase">NetBIOS Names</div>
+                                      <div className="text-xs text-zinc-600 mt-1">Asks IPv4 clients without a hostname for their Windows/Samba name.</div>
+                                  </div>
+                                  <div
+                                      onClick={() => setDiscoveryNetbiosEnabled((v) => !v)}
+                                      className={`w-10 h-5 rounded-full relative cursor-pointer transition-colors ${discoveryNetbiosEnabled ? 'bg-emerald-600' : 'bg-zinc-700'}`}
+                                      title={discoveryNetbiosEnabled ? 'On' : 'Off'}
+                                  >
+                                      <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all ${discoveryNetbiosEnabled ? 'right-0.5' : 'left-0.5'}`}></div>
+                                  </div>
+                              </div>
+                              <input
+                                  value={String(discoveryNetbiosTimeoutMs)}
+                                  onChange={(e) => setDiscoveryNetbiosTimeoutMs(Number(e.target.value) || 300)}
+                                  placeholder="300"
+                                  aria-label="NetBIOS timeout (ms)"
+                                  className="w-full bg-[#050507] border border-[#27272a] rounded px-3 py-2 text-xs font-mono text-white focus:outline-none focus:border-zinc-500 placeholder:text-zinc-700"
+                              />
+                          </div>
+                      </div>
+
+                      {discoverySources && (
+                          <div className="text-[10px] text-zinc-600 leading-relaxed">
+                              MAC addresses from the neighbor table (<span className="font-mono">{discoverySources.neighborTable.path}</span>):{' '}
+                              {discoverySources.neighborTable.entries} entries. Vendor lookup (
+                              <span className="font-mono">{discoverySources.ouiDatabase.path || 'disabled'}</span>):{' '}
+                              {discoverySources.ouiDatabase.vendors ? `${discoverySources.ouiDatabase.vendors} vendors` : 'no OUI database found'}.
+                          </div>
+                      )}
+
                       <div className="flex items-center justify-between gap-3 pt-2">
                           <div className="text-[10px] text-zinc-500">
                               {discoveryMsg ? discoveryMsg : discoveryLoading ? 'Loading…' : ' '}
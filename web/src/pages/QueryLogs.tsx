@@ -1,5 +1,5 @@
 import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
-import { Anomaly, DnsQuery, QueryStatus, ClientProfile } from '../types';
+import { Anomaly, DnsQuery, QueryStatus, ClientProfile, ClientIdMethod } from '../types';
 import { Search, Filter, Sparkles, X, Terminal, CheckCircle, XCircle, AlertTriangle, ShieldCheck, ChevronDown, Users, Shield, Eye, UserPlus, Save, Smartphone, Laptop, Tv, Gamepad2, Info, Ban, ShieldOff, Check, AlertOctagon, Zap, EyeOff } from 'lucide-react';
 import { analyzeDomain } from '../services/geminiService';
 import { detectAnomalies } from '../services/anomalyService';
@@ -13,6 +13,15 @@ import { isReadOnlyFollower, useClusterStatus } from '../hooks/useClusterStatus'
 
 const IGNORED_ANOMALY_KEY = 'sentinel_ignored_anomaly_signatures';
 
+const CLIENT_ID_METHOD_LABELS: Record<ClientIdMethod, string> = {
+  'client-id': 'client ID (DoH/DoT)',
+  'edns-client-id': 'client ID (EDNS)',
+  'edns-mac': 'MAC (EDNS)',
+  'arp-mac': 'MAC (ARP)',
+  ip: 'IP',
+  subnet: 'subnet'
+};
+
 function signatureForAnomaly(a: Anomaly): string {
   return `${a.device}|${a.issue}`;
 }
@@ -54,6 +63,7 @@ const QueryLogs: React.FC<QueryLogsProps> = ({ preset, onPresetConsumed }) => {
   const [statusFilter, setStatusFilter] = useState<string>('ALL');
   const [typeFilter, setTypeFilter] = useState<string>('ALL');
   const [clientFilter, setClientFilter] = useState<string>('ALL');
+  const [dnssecFilter, setDnssecFilter] = useState<string>('ALL');
 
   const [pageSize, setPageSize] = useState<number>(100);
   const [page, setPage] = useState<number>(1);
@@ -193,7 +203,13 @@ const QueryLogs: React.FC<QueryLogsProps> = ({ preset, onPresetConsumed }) => {
               : QueryStatus.PERMITTED,
           type: typeof q.type === 'string' ? q.type : 'A',
           durationMs: typeof q.durationMs === 'number' ? q.durationMs : 0,
-          blocklistId: typeof q.blocklistId === 'string' ? q.blocklistId : undefined
+          blocklistId: typeof q.blocklistId === 'string' ? q.blocklistId : undefined,
+          dnssec: q.dnssec === 'secure' || q.dnssec === 'insecure' || q.dnssec === 'bogus' ? q.dnssec : undefined,
+          ecs: q.ecs && typeof q.ecs === 'object' && typeof q.ecs.action === 'string' ? q.ecs : undefined,
+          cached: q.cached === true || q.status === QueryStatus.CACHED ? true : undefined,
+          servedStale: q.servedStale === true ? true : undefined,
+          identifiedBy: typeof q.identifiedBy === 'string' && q.identifiedBy in CLIENT_ID_METHOD_LABELS ? q.identifiedBy : undefined,
+          clientMac: typeof q.clientMac === 'string' ? q.clientMac : undefined
         }));
 
       setRawQueries(mapped);
@@ -680,10 +696,59 @@ const QueryLogs: React.FC<QueryLogsProps> = ({ preset, onPresetConsumed }) => {
       case QueryStatus.PERMITTED:
         return <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold bg-emerald-950/30 text-emerald-500 border border-emerald-900/50 uppercase tracking-wide">PERMITTED</span>;
       case QueryStatus.CACHED:
-        return <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold bg-zinc-800 text-zinc-400 border border-zinc-700 uppercase tracking-wide">CACHED</span>;
+        return (
+          <span
+            className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold bg-zinc-800 text-zinc-400 border border-zinc-700 uppercase tracking-wide"
+            title={query.servedStale ? 'Expired cache entry served because every upstream failed' : 'Answered from the response cache'}
+          >
+            {query.servedStale ? 'CACHED (STALE)' : 'CACHED'}
+          </span>
+        );
     }
   };
 
+  // Shadow matches keep their status when answered from the cache; mark them so the hit stays visible.
+  const getCacheNote = (query: DnsQuery) => {
+    if (!query.cached || query.status === QueryStatus.CACHED) return null;
+    return (
+      <div className="text-[9px] text-zinc-600 font-mono mt-1" title="Answered from the response cache">
+        {query.servedStale ? 'from cache (stale)' : 'from cache'}
+      </div>
+    );
+  };
+
+  const getDnssecBadge = (query: DnsQuery) => {
+    switch (query.dnssec) {
+      case 'secure':
+        return <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold bg-emerald-950/30 text-emerald-500 border border-emerald-900/50 uppercase tracking-wide" title="Upstream validated the answer (AD flag)">SECURE</span>;
+      case 'bogus':
+        return <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold bg-rose-950/30 text-rose-500 border border-rose-900/50 uppercase tracking-wide" title="DNSSEC validation failed upstream">BOGUS</span>;
+      case 'insecure':
+        return <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold bg-zinc-800 text-zinc-400 border border-zinc-700 uppercase tracking-wide" title="Answer is not DNSSEC-signed">INSECURE</span>;
+      default:
+        return <span className="text-[10px] text-zinc-600 font-mono">-</span>;
+    }
+  };
+
+  const getEcsNote = (query: DnsQuery) => {
+    const ecs = query.ecs;
+    if (!ecs || ecs.action === 'none') return null;
+    const label = ecs.action === 'stripped' ? 'ECS stripped' : `ECS ${ecs.subnet ?? ''}`.trim();
+    const title =
+      ecs.action === 'stripped'
+        ? ecs.reason === 'non-public-client'
+          ? 'No public subnet for this client (private address, no fallback subnet configured); nothing was sent'
+          : `Client subnet ${ecs.subnet ?? ''} was removed before forwarding`
+        : ecs.action === 'passed'
+          ? 'Client-provided subnet forwarded upstream'
+          : 'Client public subnet sent upstream';
+    return (
+      <div className="text-[9px] text-zinc-600 font-mono mt-1" title={title}>
+        {label}
+      </div>
+    );
+  };
+
     const filteredQueries = useMemo(() => {
       const needle = searchTerm.toLowerCase();
       return queries.filter((q) => {
@@ -697,7 +762,8 @@ const QueryLogs: React.FC<QueryLogsProps> = ({ preset, onPresetConsumed }) => {
         const matchesStatus =
           statusFilter === 'ALL' ||
           q.status === statusFilter ||
-          (statusFilter === QueryStatus.BLOCKED && q.status === QueryStatus.SHADOW_BLOCKED);
+          (statusFilter === QueryStatus.BLOCKED && q.status === QueryStatus.SHADOW_BLOCKED) ||
+          (statusFilter === QueryStatus.CACHED && q.cached === true);
         const matchesType = typeFilter === 'ALL' || q.type === typeFilter;
 
         const matchesClient =
@@ -705,20 +771,24 @@ const QueryLogs: React.FC<QueryLogsProps> = ({ preset, onPresetConsumed }) => {
           q.client === clientFilter ||
           (clientIp.length > 0 && clientIp === clientFilter);
 
-        return matchesSearch && matchesStatus && matchesType && matchesClient;
+        const matchesDnssec =
+          dnssecFilter === 'ALL' || (dnssecFilter === 'none' ? !q.dnssec : q.dnssec === dnssecFilter);
+
+        return matchesSearch && matchesStatus && matchesType && matchesClient && matchesDnssec;
       });
-    }, [queries, searchTerm, statusFilter, typeFilter, clientFilter]);
+    }, [queries, searchTerm, statusFilter, typeFilter, clientFilter, dnssecFilter]);
 
   // Reset to first page when filters change.
   useEffect(() => {
     setPage(1);
-  }, [searchTerm, statusFilter, typeFilter, clientFilter, pageSize]);
+  }, [searchTerm, statusFilter, typeFilter, clientFilter, dnssecFilter, pageSize]);
 
   const clearFilters = () => {
     setSearchTerm('');
     setStatusFilter('ALL');
     setTypeFilter('ALL');
     setClientFilter('ALL');
+    setDnssecFilter('ALL');
     setPageSize(100);
     setServerQueryFilters({});
     setTimeframeHours(24);
@@ -923,6 +993,23 @@ const QueryLogs: React.FC<QueryLogsProps> = ({ preset, onPresetConsumed }) => {
               <ChevronDown className="w-3 h-3 text-zinc-500 absolute right-2.5 top-1/2 -translate-y-1/2 pointer-events-none" />
             </div>
 
+            {/* DNSSEC Filter */}
+            <div className="relative">
+              <select
+                value={dnssecFilter}
+                onChange={(e) => setDnssecFilter(e.target.value)}
+                className="appearance-none bg-[#18181b] border border-[#27272a] text-zinc-300 pl-3 pr-8 py-1.5 rounded text-xs font-mono focus:outline-none focus:border-zinc-500 cursor-pointer hover:bg-[#27272a]"
+                aria-label="DNSSEC"
+              >
+                <option value="ALL">All DNSSEC</option>
+                <option value="secure">Validated</option>
+                <option value="insecure">Insecure</option>
+                <option value="bogus">Bogus</option>
+                <option value="none">Not checked</option>
+              </select>
+              <ChevronDown className="w-3 h-3 text-zinc-500 absolute right-2.5 top-1/2 -translate-y-1/2 pointer-events-none" />
+            </div>
+
             <div className="h-6 w-px bg-[#27272a] mx-1 hidden sm:block"></div>
 
             <div className="relative">
@@ -1058,17 +1145,21 @@ const QueryLogs: React.FC<QueryLogsProps> = ({ preset, onPresetConsumed }) => {
                     <th className="p-3 text-[10px] font-bold text-zinc-500 uppercase tracking-wider font-mono">Domain</th>
                     <th className="p-3 text-[10px] font-bold text-zinc-500 uppercase tracking-wider font-mono">Client</th>
                     <th className="p-3 text-[10px] font-bold text-zinc-500 uppercase tracking-wider font-mono">Type</th>
+                    <th className="p-3 text-[10px] font-bold text-zinc-500 uppercase tracking-wider font-mono">DNSSEC</th>
                     <th className="p-3 text-[10px] font-bold text-zinc-500 uppercase tracking-wider font-mono text-right pr-4">Analysis</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-[#27272a] bg-[#18181b]">
                   {pagedQueries.length > 0 ? (
                     pagedQueries.map((query) => {
-                      const isKnown = !!getClientByIp(query.clientIp);
+                      const isKnown = !!getClientByIp(query.clientIp) || (!!query.identifiedBy && query.identifiedBy !== 'subnet');
                       return (
                         <tr ref={setRowRef(query.id)} key={query.id} className="hover:bg-[#27272a]/40 transition-colors group">
                           <td className="p-3 pl-4 text-xs text-zinc-400 font-mono">{query.timestamp}</td>
-                          <td className="p-3">{getStatusBadge(query)}</td>
+                          <td className="p-3">
+                            {getStatusBadge(query)}
+                            {getCacheNote(query)}
+                          </td>
                           <td className="p-3 text-sm font-mono tracking-tight">
                             <button
                               type="button"
@@ -1089,6 +1180,11 @@ const QueryLogs: React.FC<QueryLogsProps> = ({ preset, onPresetConsumed }) => {
                               >
                                 <span className="text-zinc-300">{query.client}</span>
                                 <span className="text-[10px] text-zinc-600">{query.clientIp}</span>
+                                {query.identifiedBy && (
+                                  <span className="text-[9px] text-zinc-600" title={query.clientMac ? `MAC ${query.clientMac}` : undefined}>
+                                    via {CLIENT_ID_METHOD_LABELS[query.identifiedBy]}
+                                  </span>
+                                )}
                               </button>
                               {!isKnown && (
                                 <button
@@ -1103,6 +1199,10 @@ const QueryLogs: React.FC<QueryLogsProps> = ({ preset, onPresetConsumed }) => {
                             </div>
                           </td>
                           <td className="p-3 text-xs text-zinc-500 font-mono">{query.type}</td>
+                          <td className="p-3">
+                            {getDnssecBadge(query)}
+                            {getEcsNote(query)}
+                          </td>
                           <td className="p-3 text-right pr-4">
                             <div className="inline-flex items-center gap-2">
                               <button
@@ -1156,7 +1256,7 @@ const QueryLogs: React.FC<QueryLogsProps> = ({ preset, onPresetConsumed }) => {
                     })
                   ) : (
                     <tr>
-                      <td colSpan={6} className="p-8 text-center text-zinc-500 text-xs font-mono">
+                      <td colSpan={7} className="p-8 text-center text-zinc-500 text-xs font-mono">
                         No queries match your filters.
                       </td>
                     </tr>
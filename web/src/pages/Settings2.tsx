@@ -163,7 +163,8 @@ const Settings2: React.FC<{
     blocklistRefreshFailed: true,
     geoIpUpdated: true,
     haFailoverActive: true,
-    haLeaderAvailableAgain: true
+    haLeaderAvailableAgain: true,
+    clientRateLimited: true
   });
   const [notifMsg, setNotifMsg] = useState('');
   const [notifBusy, setNotifBusy] = useState(false);
@@ -448,7 +449,8 @@ const Settings2: React.FC<{
         blocklistRefreshFailed: raw.blocklistRefreshFailed !== false,
         geoIpUpdated: raw.geoIpUpdated !== false,
         haFailoverActive: raw.haFailoverActive !== false,
-        haLeaderAvailableAgain: raw.haLeaderAvailableAgain !== false
+        haLeaderAvailableAgain: raw.haLeaderAvailableAgain !== false,
+        clientRateLimited: raw.clientRateLimited !== false
       });
     } catch {
       // ignore
@@ -1109,14 +1111,14 @@ const Settings2: React.FC<{
       let okCount = 0;
       for (let i = 0; i < enabled.length; i++) {
         const b = enabled[i];
-        setMaintMsg(`Refreshing ${i + 1}/${enabled.length}: ${String(b.name || b.url)}`);
+        setMaintMsg(`Queueing ${i + 1}/${enabled.length}: ${String(b.name || b.url)}`);
         const r = await fetch(`/api/blocklists/${encodeURIComponent(String(b.id))}/refresh`, {
           method: 'POST',
           headers: { ...getAuthHeaders() }
         });
         if (r.ok) okCount += 1;
       }
-      setMaintMsg(`Refreshed ${okCount}/${enabled.length} enabled blocklists.`);
+      setMaintMsg(`Queued ${okCount}/${enabled.length} refresh jobs. Follow them under Refresh Jobs in Blocking Rules.`);
     } catch {
       setMaintMsg('Backend not reachable.');
     } finally {
@@ -1833,6 +1835,14 @@ const Settings2: React.FC<{
                   />
                   HA leader available again (VIP returned)
                 </label>
+                <label className="flex items-center gap-2 text-xs text-zinc-300">
+                  <input
+                    type="checkbox"
+                    checked={notificationEvents.clientRateLimited}
+                    onChange={(e) => setNotificationEvents((v) => ({ ...v, clientRateLimited: e.target.checked }))}
+                  />
+                  Client rate limited (DNS query flood)
+                </label>
               </div>
 
               <div className="mt-4 flex items-center gap-3">
@@ -2082,7 +2092,7 @@ const Settings2: React.FC<{
                   <div className="mt-3 space-y-3">
                     <div className="p-3 rounded border border-[#27272a] bg-[#0b0b0e]">
                       <div className="text-xs text-zinc-300 font-bold">Blocklists</div>
-                      <div className="text-[11px] text-zinc-500 mt-1">Manually refresh enabled blocklists now.</div>
+                      <div className="text-[11px] text-zinc-500 mt-1">Queue a refresh job for every enabled blocklist; progress shows under Refresh Jobs in Blocking Rules.</div>
                       <div className="mt-3 flex items-center justify-end">
                         <button
                           onClick={refreshEnabledBlocklistsNow}
@@ -1,6 +1,6 @@
 import React from 'react';
 import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { act, render, screen, waitFor } from '@testing-library/react';
 import { ClientsProvider, useClients } from '../../contexts/ClientsContext';
 
 function Consumer() {
@@ -8,6 +8,14 @@ function Consumer() {
   return <div>clients:{clients.length}</div>;
 }
 
+let addClientRef: ReturnType<typeof useClients>['addClient'] | null = null;
+
+function TokenConsumer() {
+  const { clients, addClient } = useClients();
+  addClientRef = addClient;
+  return <div>token:{clients[0]?.dnsToken ?? 'none'}</div>;
+}
+
 describe('ClientsContext', () => {
   const originalFetch = globalThis.fetch;
 
@@ -47,4 +55,27 @@ describe('ClientsContext', () => {
     await waitFor(() => expect(screen.getByText('clients:1')).toBeInTheDocument());
     expect(globalThis.fetch).toHaveBeenCalled();
   });
+
+  it('adopts the DoH/DoT token returned when a client is saved', async () => {
+    const token = '0123456789abcdef0123456789abcdef';
+    globalThis.fetch = vi.fn(async (_input: any, init?: RequestInit) => {
+      if (init?.method === 'PUT') {
+        const body = JSON.parse(String(init.body));
+        return new Response(JSON.stringify({ ...body, dnsToken: token }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+      }
+      return new Response(JSON.stringify({ items: [] }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    }) as any;
+
+    render(
+      <ClientsProvider>
+        <TokenConsumer />
+      </ClientsProvider>
+    );
+    await waitFor(() => expect(globalThis.fetch).toHaveBeenCalled());
+
+    await act(async () => {
+      await addClientRef!({ id: 'c-1', name: 'Phone', type: 'smartphone', status: 'online', policy: 'Custom' } as any);
+    });
+    await waitFor(() => expect(screen.getByText(`token:${token}`)).toBeInTheDocument());
+  });
 });
@@ -13,5 +13,6 @@ describe('Filtering / blocking page', () => {
     );
 
     expect(await screen.findByText('Gravity')).toBeInTheDocument();
+    expect(await screen.findByText('Refresh Jobs')).toBeInTheDocument();
   });
 });
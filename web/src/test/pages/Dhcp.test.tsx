@@ -0,0 +1,13 @@
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import Dhcp from '../../pages/Dhcp';
+
+describe('DHCP page', () => {
+  it('renders without crashing (regression)', async () => {
+    render(<Dhcp />);
+
+    expect(await screen.findByText('Scopes')).toBeInTheDocument();
+    expect(await screen.findByText('No leases.')).toBeInTheDocument();
+  });
+});
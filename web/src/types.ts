@@ -17,6 +17,49 @@ export interface DnsQuery {
   type: string; // A, AAAA, HTTPS, etc.
   durationMs: number;
   blocklistId?: string; // ID of the blocklist that triggered the block
+  transport?: 'udp' | 'tcp' | 'dot' | 'doh';
+  dnssec?: DnssecStatus; // upstream validation result (forwarded answers only)
+  ecs?: EcsDecision; // EDNS Client Subnet sent upstream (forwarded answers only)
+  cached?: boolean; // answered from the response cache (also set on shadow-matched cache hits)
+  servedStale?: boolean; // expired cache entry served because every upstream failed
+  identifiedBy?: ClientIdMethod; // how the client profile was matched (absent for unknown clients)
+  clientMac?: string; // MAC from the EDNS option or the neighbor table
+}
+
+// Client identification (server: dns/clientIdentity.ts).
+export type ClientIdMethod = 'client-id' | 'edns-client-id' | 'edns-mac' | 'arp-mac' | 'ip' | 'subnet';
+
+// EDNS Client Subnet handling (server: dns/edns.ts).
+export type EcsMode = 'strip' | 'pass' | 'synthesize';
+
+export interface EcsDecision {
+  action: 'stripped' | 'passed' | 'synthesized' | 'none';
+  subnet?: string;
+  reason?: 'non-public-client'; // synthesize had no public subnet for a LAN client
+}
+
+export type DnssecStatus = 'secure' | 'insecure' | 'bogus';
+
+// Response cache inspector (server: dns/cacheSnapshot.ts, GET /api/dns/cache).
+export interface DnsCacheEntry {
+  key: string;
+  domain: string;
+  type: string;
+  scope?: string; // client upstream and/or ECS subnet
+  ttlRemaining: number;
+  stale: boolean;
+  hits: number;
+  bytes: number;
+  storedAt: string;
+  expiresAt: string;
+}
+
+export interface DnsCacheStats {
+  entries: number;
+  staleEntries: number;
+  maxEntries: number;
+  responseBytes: number;
+  approxMemoryBytes: number;
 }
 
 export interface StatCardProps {
@@ -32,21 +75,55 @@ export interface ChartDataPoint {
   time: string;
   queries: number;
   ads: number;
+  cached: number; // answered from the DNS response cache
 }
 
 export type BlocklistMode = 'ACTIVE' | 'SHADOW' | 'DISABLED';
 
+// ALLOW lists never block; they admit domains for allowlist-only clients.
+export type BlocklistKind = 'BLOCK' | 'ALLOW';
+
+// Line counts from the last refresh (server blocklists/refresh.ts).
+export interface BlocklistParseStats {
+  accepted: number;
+  exceptions: number;
+  unsupported: number;
+  invalid: number;
+}
+
 export interface Blocklist {
   id: string;
   name: string;
   url: string;
   ruleCount: number;
   mode: BlocklistMode; // Changed from boolean enabled to enum
+  kind?: BlocklistKind;
   lastUpdated: string;
   lastUpdatedAt?: string | null; // raw ISO timestamp (server last_updated_at)
+  parseStats?: BlocklistParseStats | null;
+  // Minutes between scheduled refreshes: null = server default (daily), 0 = manual only.
+  refreshIntervalMinutes?: number | null;
   description?: string;
 }
 
+export type BlocklistRefreshJobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+// Entry of the server's blocklist refresh queue (GET /api/blocklists/jobs).
+export interface BlocklistRefreshJob {
+  id: string;
+  blocklistId: string;
+  blocklistName: string | null;
+  trigger: 'SCHEDULED' | 'MANUAL' | 'STARTUP' | 'WARMUP';
+  status: BlocklistRefreshJobStatus;
+  attempts: number;
+  runAfter: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  progress: { bytes: number; lines: number } | null;
+  result: { notModified?: boolean; added?: number; removed?: number; fetched?: number } | null;
+  error: string | null;
+}
+
 export interface DnsRewrite {
   id: string;
   domain: string;
@@ -114,6 +191,71 @@ export interface Schedule {
     blockedCategories: ContentCategory[];
     blockedApps: AppService[];
     blockAll?: boolean;
+    // Enforces SafeSearch + strict YouTube Restricted Mode while active.
+    safeSearch?: boolean;
+    // Switches the client to allowlist-only while active.
+    allowlistOnly?: boolean;
+}
+
+// SafeSearch / YouTube Restricted Mode (server: dns/safeSearch.ts).
+export type YoutubeRestrictMode = 'off' | 'moderate' | 'strict';
+
+export interface SafeSearchSettings {
+  search: boolean;
+  youtube: YoutubeRestrictMode;
+}
+
+// How blocked queries are answered (server: dns/blockResponse.ts).
+export type BlockResponseMode = 'NXDOMAIN' | 'NODATA' | 'NULL_IP' | 'REFUSED' | 'CUSTOM_IP';
+
+export interface BlockResponseSettings {
+  mode: BlockResponseMode;
+  ttl: number;
+  ipv4?: string;
+  ipv6?: string;
+}
+
+// Per-client DNS query rate limit (server: dns/rateLimit.ts).
+export type RateLimitAction = 'REFUSED' | 'DROP';
+
+export interface RateLimitSettings {
+  enabled: boolean;
+  qps: number;
+  burst: number;
+  action: RateLimitAction;
+}
+
+// Client currently over its rate limit (GET /api/dns/status → rateLimit.throttled).
+export interface ThrottledClient {
+  key: string;
+  clientIp: string;
+  clientId?: string;
+  clientName?: string;
+  limited: number;
+  since: string;
+  lastLimitedAt: string;
+}
+
+// Local DNS record of a rewrite (server: dns/localRecords.ts).
+export type LocalRecordType = 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'SRV' | 'PTR' | 'CAA';
+
+export interface LocalRecord {
+  type: LocalRecordType;
+  value: string;
+  ttl?: number;
+  priority?: number;
+  weight?: number;
+  port?: number;
+  tag?: 'issue' | 'issuewild' | 'iodef';
+  flags?: number;
+}
+
+// Upstream resolver target (server: dns/upstreamPool.ts).
+export interface DnsUpstreamTarget {
+  transport: 'udp' | 'tcp' | 'dot' | 'doh';
+  host?: string;
+  port?: number;
+  dohUrl?: string;
 }
 
 export interface ClientProfile {
@@ -124,12 +266,18 @@ export interface ClientProfile {
   isSubnet?: boolean;
   cidr?: string; // e.g. "192.168.20.0/24"
   ip?: string;   // e.g. "192.168.1.50" (Only for devices)
-  mac?: string;  // Only for devices
+  mac?: string;  // Only for devices; matched via EDNS option 65001 or the neighbor (ARP) table
+  // EDNS client-ID option values (dnsmasq --add-cpe-id) from trusted forwarders.
+  clientIds?: string[];
+  // Server-generated random token for the DoH path (/dns-query/<token>) and DoT SNI label.
+  dnsToken?: string;
 
   type: 'laptop' | 'smartphone' | 'tv' | 'game' | 'iot' | 'tablet' | 'subnet';
   status: 'online' | 'offline';
   policy: string; 
   safeSearch: boolean;
+  // Unset follows `safeSearch` (strict when on, off otherwise).
+  youtubeRestrictMode?: YoutubeRestrictMode;
   assignedBlocklists: string[]; // IDs of blocklists
   useGlobalSettings: boolean;
 
@@ -145,14 +293,80 @@ export interface ClientProfile {
   blockedCategories: ContentCategory[];
   blockedApps: AppService[];
   schedules: Schedule[];
+
+  // Deny by default: only allow rules, allowed apps and ALLOW lists resolve.
+  allowlistOnly?: boolean;
+  allowedApps?: AppService[];
+
+  // Overrides the global block response (DNS Settings) for this client/subnet.
+  blockResponse?: BlockResponseSettings;
+
+  // Overrides the global upstream resolver(s) for this client/subnet.
+  upstream?: DnsUpstreamTarget;
+
+  // Overrides the global query rate limit (enabled=false exempts the client).
+  rateLimit?: RateLimitSettings;
+}
+
+// Built-in DHCPv4 server (server: dhcp/scopes.ts, dhcp/leaseStore.ts).
+export interface DhcpScope {
+  id: string;
+  name: string;
+  enabled: boolean;
+  subnet: string; // CIDR, e.g. "192.168.1.0/24"
+  rangeStart: string;
+  rangeEnd: string;
+  router?: string;
+  dnsServers: string[]; // empty = this server
+  domain: string; // lease hostnames resolve as <host>.<domain>
+  leaseTimeSec: number;
+  serverIp?: string; // detected from the host interfaces when unset
+}
+
+export interface DhcpServerStatus {
+  running: boolean;
+  port: number;
+  error: string | null;
+  lastPacketAt: string | null;
+}
+
+// Fixed address from a client profile with a MAC and an IP inside a scope.
+export interface DhcpReservation {
+  scopeId: string;
+  ip: string;
+  mac: string;
+  hostname: string | null;
+  profileId: string;
+  profileName: string;
 }
 
 export interface DhcpLease {
-    ip: string;
-    mac: string;
-    hostname: string;
-    expiresIn: string; // e.g. "23h 12m"
-    type: 'laptop' | 'smartphone' | 'tv' | 'game' | 'iot' | 'tablet'; // inferred type
+  ip: string;
+  mac: string;
+  hostname: string | null;
+  scopeId: string;
+  expiresAt: string;
+  updatedAt: string;
+  active: boolean;
+  reserved: boolean;
+  profileId?: string;
+  profileName?: string;
+}
+
+// Where a discovered client's data came from (server: discovery/merge.ts).
+export type DiscoverySource = 'observed' | 'lease' | 'mdns' | 'netbios' | 'reverse-dns' | 'arp';
+
+export interface DiscoveredClient {
+  ip: string;
+  lastSeen: string | null;
+  hostname: string | null;
+  mac?: string;
+  vendor?: string; // OUI vendor, or "Randomized (private address)"
+  sources: DiscoverySource[];
+  source: DiscoverySource; // source of the hostname
+  // Existing profile matching the MAC or IP.
+  profileId?: string;
+  profileName?: string;
 }
 
 export interface Anomaly {